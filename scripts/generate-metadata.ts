@@ -0,0 +1,67 @@
+/**
+ * Recomputes the question counts and average difficulties in the category manifest
+ * (public/data/metadata/categories.json) and in every question file header.
+ *
+ * Usage: npm run generate:metadata      rewrites the stale files
+ *        npm run check:metadata         changes nothing; exits with status 1 if any file is stale
+ * Subcategories without a question file and questions whose subcategory is not in the
+ * manifest are reported as warnings in both modes.
+ */
+
+import type { RawCategoryManifest } from '../src/interfaces/repositories/IQuestionLoader';
+import {
+  QuestionMetadataGenerator,
+  formatJson,
+  formatMetadataChange,
+  formatMetadataProblem
+} from '../src/tools/question-metadata';
+import { findQuestionFiles, readJsonFromPublic, readTextFromPublic, writeFileToPublic } from './questionFiles';
+
+const MANIFEST_PATH = 'data/metadata/categories.json';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const unknownArgs = args.filter(arg => arg !== '--check');
+  if (unknownArgs.length > 0) {
+    console.error(`Unknown argument ${unknownArgs[0]}; the only option is --check`);
+    return 2;
+  }
+  const checkOnly = args.includes('--check');
+
+  const manifest = await readJsonFromPublic(MANIFEST_PATH) as RawCategoryManifest;
+  const questionFiles = await Promise.all(
+    (await findQuestionFiles()).map(async filePath => ({ filePath, data: await readJsonFromPublic(filePath) }))
+  );
+
+  const result = new QuestionMetadataGenerator(MANIFEST_PATH).generate(manifest, questionFiles);
+
+  result.problems.forEach(problem => console.warn(`warning: ${formatMetadataProblem(problem)}`));
+  result.changes.forEach(change => console.log(formatMetadataChange(change)));
+
+  if (!result.isStale) {
+    console.log('Question metadata is up to date');
+    return 0;
+  }
+
+  if (checkOnly) {
+    console.error('Question metadata is stale; run npm run generate:metadata and commit the result');
+    return 1;
+  }
+
+  for (const filePath of result.changedFiles) {
+    const data = filePath === MANIFEST_PATH
+      ? result.manifest
+      : result.questionFiles.find(file => file.filePath === filePath)?.data;
+    await writeFileToPublic(filePath, formatJson(data, await readTextFromPublic(filePath)));
+  }
+  console.log(`Updated ${result.changedFiles.join(', ')}`);
+  return 0;
+}
+
+main().then(
+  exitCode => process.exit(exitCode),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,67 @@
+/**
+ * Runs the question-bank lint rules (structure, code examples, option quality).
+ *
+ * Usage: npm run lint:questions [-- [--format text|json] [<file>...]]
+ * Paths are relative to public/; with no files every file under public/data/questions is linted.
+ * A question can suppress rules with "$comment": "lint-disable <rule-id>, ... -- reason".
+ * Exits with status 1 when any error is reported (warnings alone pass) and 2 on bad arguments.
+ */
+
+import {
+  QuestionLinter,
+  formatLintReport,
+  type LintOutputFormat
+} from '../src/tools/question-lint';
+import { findQuestionFiles, readJsonFromPublic } from './questionFiles';
+
+const FORMATS: LintOutputFormat[] = ['text', 'json'];
+
+/**
+ * Splits the command line into the output format and the files to lint
+ */
+function parseArguments(args: string[]): { format: LintOutputFormat; filePaths: string[] } {
+  let format: LintOutputFormat = 'text';
+  const filePaths: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (arg === '--format' || arg.startsWith('--format=')) {
+      const value = arg === '--format' ? args[++index] : arg.slice('--format='.length);
+      if (!FORMATS.includes(value as LintOutputFormat)) {
+        throw new Error(`Unknown format "${value ?? ''}"; expected ${FORMATS.join(' or ')}`);
+      }
+      format = value as LintOutputFormat;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      filePaths.push(arg);
+    }
+  }
+
+  return { format, filePaths };
+}
+
+async function main(): Promise<number> {
+  let options: { format: LintOutputFormat; filePaths: string[] };
+  try {
+    options = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  const filePaths = options.filePaths.length > 0 ? options.filePaths : await findQuestionFiles();
+  const report = await new QuestionLinter().lintFiles(filePaths, readJsonFromPublic);
+
+  console.log(formatLintReport(report, options.format));
+  return report.errorCount > 0 ? 1 : 0;
+}
+
+main().then(
+  exitCode => process.exit(exitCode),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,34 @@
+/**
+ * File helpers shared by the question scripts.
+ * Question paths are relative to public/, the same paths the app requests at runtime.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { glob } from 'glob';
+
+export const PUBLIC_ROOT = 'public';
+
+/**
+ * Reads a text file under public/
+ */
+export const readTextFromPublic = (filePath: string): Promise<string> =>
+  readFile(join(PUBLIC_ROOT, filePath), 'utf8');
+
+/**
+ * Reads and parses a JSON file under public/
+ */
+export const readJsonFromPublic = async (filePath: string): Promise<unknown> =>
+  JSON.parse(await readTextFromPublic(filePath));
+
+/**
+ * Writes a text file under public/
+ */
+export const writeFileToPublic = (filePath: string, content: string): Promise<void> =>
+  writeFile(join(PUBLIC_ROOT, filePath), content, 'utf8');
+
+/**
+ * Lists every question file under public/data/questions, sorted
+ */
+export const findQuestionFiles = async (): Promise<string[]> =>
+  (await glob('data/questions/**/*.json', { cwd: PUBLIC_ROOT, posix: true })).sort();
@@ -0,0 +1,49 @@
+/**
+ * Checks question files against the JSON Schema they declare in `$schema`.
+ *
+ * Usage: npm run validate:questions [-- <file>...]
+ * Paths are relative to public/ (e.g. data/questions/csharp-interview-questions.json);
+ * with no arguments every file under public/data/questions is checked.
+ * Exits with status 1 when any file breaks its schema.
+ */
+
+import {
+  QuestionFileSchemaValidator,
+  formatSchemaViolation
+} from '../src/services/validation';
+import { findQuestionFiles, readJsonFromPublic } from './questionFiles';
+
+async function main(): Promise<number> {
+  const requestedPaths = process.argv.slice(2);
+  const filePaths = requestedPaths.length > 0 ? requestedPaths : await findQuestionFiles();
+
+  if (filePaths.length === 0) {
+    console.error('No question files found under public/data/questions');
+    return 1;
+  }
+
+  const validator = new QuestionFileSchemaValidator(readJsonFromPublic);
+  const report = await validator.validateFiles(filePaths);
+
+  report.violations.forEach(violation => console.error(formatSchemaViolation(violation)));
+
+  const count = report.violations.length;
+  const summary = `${report.filesChecked} file${report.filesChecked !== 1 ? 's' : ''} checked, ` +
+    `${count} schema violation${count !== 1 ? 's' : ''}`;
+
+  if (report.isValid) {
+    console.log(summary);
+    return 0;
+  }
+
+  console.error(summary);
+  return 1;
+}
+
+main().then(
+  exitCode => process.exit(exitCode),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -1,17 +1,51 @@
 import React from 'react';
 import { ApplicationFactory, type IApplicationContext } from './services/ApplicationFactory';
 import { QuestionComponent } from './components/QuestionComponent';
-import { AnswerComponent } from './components/AnswerComponent';
-import { ExplanationComponent } from './components/ExplanationComponent';
 import { NavigationComponent } from './components/NavigationComponent';
+import { createDefaultStudyModeFactory } from './components/study-modes/StudyModeFactory';
+import { ExamComponent } from './components/exam/ExamComponent';
+import { SessionCompleteComponent } from './components/SessionCompleteComponent';
+import { CategoryPickerComponent } from './components/CategoryPickerComponent';
+import { SearchPanelComponent } from './components/SearchPanelComponent';
+import { ShortcutHelpComponent } from './components/ShortcutHelpComponent';
+import { NotesOverviewComponent } from './components/NotesOverviewComponent';
+import { ProgressTransferComponent } from './components/ProgressTransferComponent';
+import { AnalyticsDashboardComponent } from './components/AnalyticsDashboardComponent';
+import { ServiceIdentifiers } from './services/ServiceConfiguration';
+import type { IExamSession } from './interfaces/services/IExamSession';
+import type { SessionSummary } from './interfaces/services/ISessionSummaryService';
+import type { CategorySummary } from './interfaces/services/ICategoryCatalogService';
+import type { QuestionManagerInitOptions } from './interfaces/services/IQuestionManager';
+import type { IQuestionRepository, QuestionDeckFilter } from './interfaces/repositories/IQuestionRepository';
+import type { AppRoute, RouteNavigationOptions, SessionRoute, SessionRouteFilter } from './interfaces/services/IRouter';
 import type { IQuestion } from './interfaces/domain/IQuestion';
 import type { IAnswerResult } from './interfaces/domain/types';
+import { QuestionNotFoundError } from './errors/QuestionNotFoundError';
+import { NavigationError } from './errors/NavigationError';
+import { formatRoute } from './services/routing';
 import './App.css';
 
 /**
  * Application view state enumeration
  */
-type AppViewState = 'loading' | 'question' | 'explanation' | 'error';
+type AppViewState = 'loading' | 'home' | 'question' | 'explanation' | 'complete' | 'exam' | 'error';
+
+/**
+ * What the current session was built from, so its questions can be linked to
+ */
+interface SessionDeck {
+  /** Deck filter the session was started with */
+  filter?: SessionRouteFilter;
+
+  /** Question opened directly through a /q/ link */
+  questionId?: string;
+
+  /** Whether the session holds only the bookmarked questions, which a session link cannot replay */
+  bookmarkedOnly?: boolean;
+
+  /** Whether the session holds the questions due for review, which change from day to day */
+  dueOnly?: boolean;
+}
 
 /**
  * Application state interface
@@ -21,6 +55,16 @@ interface AppState {
   currentQuestion: IQuestion | null;
   currentQuestionIndex: number;
   answerResult: IAnswerResult | null;
+  sessionSummary: SessionSummary | null;
+  sessionSeed: number | null;
+  categories: CategorySummary[];
+  isStartingSession: boolean;
+  isStartingReview: boolean;
+  isSearchOpen: boolean;
+  isShortcutHelpOpen: boolean;
+  isNotesOpen: boolean;
+  isProgressOpen: boolean;
+  isAnalyticsOpen: boolean;
   error: Error | null;
   isInitialized: boolean;
 }
@@ -32,6 +76,12 @@ interface AppState {
  */
 class App extends React.Component<{}, AppState> {
   private applicationContext: IApplicationContext | null = null;
+  private readonly studyModeFactory = createDefaultStudyModeFactory();
+  private sessionStartedAt = Date.now();
+  private hasStartedSession = false;
+  private sessionDeck: SessionDeck = {};
+  private unsubscribeFromRouter: (() => void) | null = null;
+  private unregisterShortcuts: Array<() => void> = [];
 
   constructor(props: {}) {
     super(props);
@@ -41,6 +91,16 @@ class App extends React.Component<{}, AppState> {
       currentQuestion: null,
       currentQuestionIndex: 0,
       answerResult: null,
+      sessionSummary: null,
+      sessionSeed: null,
+      categories: [],
+      isStartingSession: false,
+      isStartingReview: false,
+      isSearchOpen: false,
+      isShortcutHelpOpen: false,
+      isNotesOpen: false,
+      isProgressOpen: false,
+      isAnalyticsOpen: false,
       error: null,
       isInitialized: false
     };
@@ -62,29 +122,51 @@ class App extends React.Component<{}, AppState> {
         }
       });
 
-      // Initialize QuestionManager after bootstrap
-      await this.applicationContext.questionManager.initialize();
-      
-      // Load initial question
-      const currentQuestion = this.applicationContext.questionManager.getCurrentQuestion();
-      const currentQuestionIndex = this.applicationContext.questionManager.getCurrentIndex();
-      
-      this.setState({
-        viewState: currentQuestion ? 'question' : 'error',
-        currentQuestion,
-        currentQuestionIndex,
-        isInitialized: true,
-        error: currentQuestion ? null : new Error('No questions available')
-      });
+      // Next, redo and help are handled here; the study modes register their own answering shortcuts
+      const { shortcutService } = this.applicationContext;
+      this.unregisterShortcuts = [
+        shortcutService.register('question', { help: this.handleToggleShortcutHelp }),
+        shortcutService.register('explanation', {
+          next: this.handleNextQuestion,
+          redo: this.handleQuestionReset,
+          help: this.handleToggleShortcutHelp
+        })
+      ];
+      window.addEventListener('keydown', this.handleKeyDown);
+
+      // Deep links open their question or session directly; otherwise the user picks topics first
+      const { router } = this.applicationContext;
+      this.unsubscribeFromRouter = router.subscribe(this.handleRouteChange);
+      await this.openRoute(router.getCurrentRoute());
     } catch (error) {
       this.handleError(error instanceof Error ? error : new Error('Failed to initialize application'));
     }
   }
 
+  /**
+   * Component lifecycle: Starts timing a question whenever it is shown to be answered
+   */
+  componentDidUpdate(_prevProps: Record<string, never>, prevState: AppState): void {
+    const { viewState, currentQuestion } = this.state;
+
+    if (
+      this.applicationContext &&
+      currentQuestion &&
+      viewState === 'question' &&
+      (prevState.viewState !== 'question' || prevState.currentQuestion !== currentQuestion)
+    ) {
+      this.applicationContext.attemptHistory.markPresented(currentQuestion.id);
+    }
+  }
+
   /**
    * Component lifecycle: Cleanup resources
    */
   componentWillUnmount(): void {
+    this.unsubscribeFromRouter?.();
+    this.unregisterShortcuts.forEach(unregister => unregister());
+    window.removeEventListener('keydown', this.handleKeyDown);
+
     if (this.applicationContext) {
       ApplicationFactory.dispose(this.applicationContext);
     }
@@ -105,6 +187,390 @@ class App extends React.Component<{}, AppState> {
     });
   };
 
+  /**
+   * Shows what a route points at
+   * @param route - Route of the current address
+   */
+  private async openRoute(route: AppRoute): Promise<void> {
+    switch (route.name) {
+      case 'question':
+        await this.openQuestion(route.questionId);
+        break;
+      case 'category':
+        await this.startSession({ filter: { categories: [route.category] } });
+        this.showCurrentQuestion({ replace: true });
+        break;
+      case 'session':
+        await this.openSessionQuestion(route);
+        break;
+      default:
+        await this.showHome({ replace: true });
+        break;
+    }
+  }
+
+  /**
+   * Starts a session made up of one linked question
+   * @param questionId - ID of the question
+   * @param navigation - How to update the address (default: replace the current entry)
+   * @throws QuestionNotFoundError if no loaded question has the ID
+   */
+  private async openQuestion(questionId: string, navigation: RouteNavigationOptions = { replace: true }): Promise<void> {
+    if (!this.applicationContext) {
+      throw new Error('Cannot open question: application not properly initialized');
+    }
+
+    const questionRepository = this.applicationContext.container
+      .resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository);
+    if (!await questionRepository.getQuestionById(questionId)) {
+      throw new QuestionNotFoundError(questionId);
+    }
+
+    await this.startSession({ filter: { ids: [questionId] } }, { questionId });
+    this.showCurrentQuestion(navigation);
+  }
+
+  /**
+   * Shows a question of a session link, replaying the session unless it is the current one
+   * @param route - Session route
+   * @throws NavigationError if the session has no question at the route's position
+   */
+  private async openSessionQuestion(route: SessionRoute): Promise<void> {
+    if (!this.applicationContext) {
+      throw new Error('Cannot open session: application not properly initialized');
+    }
+
+    const { questionManager } = this.applicationContext;
+    const currentSeed = questionManager.getSessionSeed();
+    const isCurrentSession = this.hasStartedSession &&
+      this.sessionDeck.questionId === undefined &&
+      currentSeed !== null &&
+      this.formatSessionPath(currentSeed, this.sessionDeck.filter) === this.formatSessionPath(route.seed, route.filter);
+
+    if (!isCurrentSession) {
+      await this.startSession({ seed: route.seed, filter: route.filter });
+    }
+
+    if (!questionManager.moveTo(route.index)) {
+      throw new NavigationError(
+        `Question ${route.index + 1} is not part of this session of ${questionManager.getTotalCount()} questions`
+      );
+    }
+
+    this.showCurrentQuestion({ replace: true });
+  }
+
+  /**
+   * Builds the address of a session's first question, which identifies the session
+   * @param seed - Session seed
+   * @param filter - Deck filter of the session
+   * @returns Session path
+   */
+  private formatSessionPath(seed: number, filter?: SessionRouteFilter): string {
+    return formatRoute({ name: 'session', seed, index: 0, filter });
+  }
+
+  /**
+   * Shows the start screen with up-to-date question counts and mastery
+   * @param navigation - How to update the address (default: add a history entry)
+   */
+  private async showHome(navigation: RouteNavigationOptions = {}): Promise<void> {
+    if (!this.applicationContext) {
+      throw new Error('Cannot show categories: application not properly initialized');
+    }
+
+    const categories = await this.applicationContext.categoryCatalogService.getCategories();
+    this.applicationContext.router.navigate({ name: 'home' }, navigation);
+
+    this.setState({
+      viewState: 'home',
+      categories,
+      answerResult: null,
+      sessionSummary: null,
+      isInitialized: true
+    });
+  }
+
+  /**
+   * Starts a practice session, initializing the QuestionManager for the first one
+   * @param options - Deck and ordering options for the session
+   * @param deck - What the session is linked as (default: its deck filter)
+   */
+  private async startSession(
+    options: QuestionManagerInitOptions,
+    deck: SessionDeck = { filter: options.filter }
+  ): Promise<void> {
+    if (!this.applicationContext) {
+      throw new Error('Cannot start session: application not properly initialized');
+    }
+
+    const { questionManager } = this.applicationContext;
+    if (this.hasStartedSession) {
+      await questionManager.startNewSession(options);
+    } else {
+      await questionManager.initialize(options);
+      this.hasStartedSession = true;
+    }
+    this.sessionStartedAt = Date.now();
+    this.sessionDeck = deck;
+  }
+
+  /**
+   * Shows the QuestionManager's current question and points the address at it
+   * @param navigation - How to update the address (default: add a history entry)
+   */
+  private showCurrentQuestion(navigation: RouteNavigationOptions = {}): void {
+    if (!this.applicationContext) {
+      throw new Error('Cannot show question: application not properly initialized');
+    }
+
+    const { questionManager, router } = this.applicationContext;
+    const currentQuestion = questionManager.getCurrentQuestion();
+
+    if (currentQuestion) {
+      router.navigate(this.getQuestionRoute(currentQuestion), navigation);
+    }
+
+    this.setState({
+      viewState: currentQuestion ? 'question' : 'error',
+      currentQuestion,
+      currentQuestionIndex: questionManager.getCurrentIndex(),
+      answerResult: null,
+      sessionSummary: null,
+      sessionSeed: questionManager.getSessionSeed(),
+      isInitialized: true,
+      error: currentQuestion ? null : new Error('No questions available')
+    });
+  }
+
+  /**
+   * Gets the route that links to a question of the current session
+   * @param question - Current question
+   * @returns Session route, or the question's own route if the session cannot be replayed
+   */
+  private getQuestionRoute(question: IQuestion): AppRoute {
+    const seed = this.applicationContext?.questionManager.getSessionSeed() ?? null;
+
+    if (this.sessionDeck.questionId !== undefined || this.sessionDeck.bookmarkedOnly || this.sessionDeck.dueOnly || seed === null) {
+      return { name: 'question', questionId: question.id };
+    }
+
+    return {
+      name: 'session',
+      seed,
+      index: this.applicationContext?.questionManager.getCurrentIndex() ?? 0,
+      ...(this.sessionDeck.filter && { filter: this.sessionDeck.filter })
+    };
+  }
+
+  /**
+   * Follows the browser's back and forward buttons
+   */
+  private handleRouteChange = async (route: AppRoute): Promise<void> => {
+    try {
+      await this.openRoute(route);
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to open link'));
+    }
+  };
+
+  /**
+   * Starts a session with the topics picked on the start screen
+   */
+  private handleStartSession = async (filter?: QuestionDeckFilter): Promise<void> => {
+    try {
+      this.setState({ isStartingSession: true });
+      await this.startSession({ filter });
+      this.showCurrentQuestion();
+      this.setState({ isStartingSession: false });
+    } catch (error) {
+      this.setState({ isStartingSession: false });
+      this.handleError(error instanceof Error ? error : new Error('Failed to start session'));
+    }
+  };
+
+  /**
+   * Starts a session with only the bookmarked questions
+   */
+  private handleStartBookmarked = async (): Promise<void> => {
+    try {
+      this.setState({ isStartingSession: true });
+      await this.startSession({ bookmarkedOnly: true }, { bookmarkedOnly: true });
+      this.showCurrentQuestion();
+      this.setState({ isStartingSession: false });
+    } catch (error) {
+      this.setState({ isStartingSession: false });
+      this.handleError(error instanceof Error ? error : new Error('Failed to start session'));
+    }
+  };
+
+  /**
+   * Starts a spaced-repetition review of the questions due today, most overdue first
+   */
+  private handleStartDue = async (): Promise<void> => {
+    try {
+      this.setState({ isStartingSession: true });
+      await this.startSession({ dueOnly: true }, { dueOnly: true });
+      this.showCurrentQuestion();
+      this.setState({ isStartingSession: false });
+    } catch (error) {
+      this.setState({ isStartingSession: false });
+      this.handleError(error instanceof Error ? error : new Error('Failed to start review'));
+    }
+  };
+
+  /**
+   * Returns to the start screen to pick other topics
+   */
+  private handleChooseTopics = async (): Promise<void> => {
+    try {
+      await this.showHome();
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to load categories'));
+    }
+  };
+
+  /**
+   * Opens the search panel
+   */
+  private handleOpenSearch = (): void => {
+    this.setState({ isSearchOpen: true });
+  };
+
+  /**
+   * Closes the search panel
+   */
+  private handleCloseSearch = (): void => {
+    this.setState({ isSearchOpen: false });
+  };
+
+  /**
+   * Dispatches key presses to the shortcuts of the question or explanation view.
+   * Overlays handle their own keys, so nothing is dispatched while one is open.
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const { viewState, isSearchOpen, isShortcutHelpOpen, isNotesOpen, isProgressOpen, isAnalyticsOpen } = this.state;
+
+    if (!this.applicationContext || isSearchOpen || isShortcutHelpOpen || isNotesOpen || isProgressOpen || isAnalyticsOpen) {
+      return;
+    }
+    if (viewState === 'question' || viewState === 'explanation') {
+      this.applicationContext.shortcutService.dispatch(event, viewState);
+    }
+  };
+
+  /**
+   * Opens or closes the keyboard shortcut overlay
+   */
+  private handleToggleShortcutHelp = (): void => {
+    this.setState(previous => ({ isShortcutHelpOpen: !previous.isShortcutHelpOpen }));
+  };
+
+  /**
+   * Closes the keyboard shortcut overlay
+   */
+  private handleCloseShortcutHelp = (): void => {
+    this.setState({ isShortcutHelpOpen: false });
+  };
+
+  /**
+   * Opens the notes overview
+   */
+  private handleOpenNotes = (): void => {
+    this.setState({ isNotesOpen: true });
+  };
+
+  /**
+   * Closes the notes overview
+   */
+  private handleCloseNotes = (): void => {
+    this.setState({ isNotesOpen: false });
+  };
+
+  /**
+   * Opens the mastery analytics dashboard
+   */
+  private handleOpenAnalytics = (): void => {
+    this.setState({ isAnalyticsOpen: true });
+  };
+
+  /**
+   * Closes the mastery analytics dashboard
+   */
+  private handleCloseAnalytics = (): void => {
+    this.setState({ isAnalyticsOpen: false });
+  };
+
+  /**
+   * Starts a session with the questions on the weakest tags
+   * @param tags - Tags picked by the analytics
+   */
+  private handlePracticeTags = async (tags: string[]): Promise<void> => {
+    try {
+      this.setState({ isStartingSession: true });
+      await this.startSession({ filter: { tags } });
+      this.showCurrentQuestion();
+      this.setState({ isStartingSession: false, isAnalyticsOpen: false });
+    } catch (error) {
+      this.setState({ isStartingSession: false, isAnalyticsOpen: false });
+      this.handleError(error instanceof Error ? error : new Error('Failed to start session'));
+    }
+  };
+
+  /**
+   * Opens the progress export and import dialog
+   */
+  private handleOpenProgress = (): void => {
+    this.setState({ isProgressOpen: true });
+  };
+
+  /**
+   * Closes the progress export and import dialog
+   */
+  private handleCloseProgress = (): void => {
+    this.setState({ isProgressOpen: false });
+  };
+
+  /**
+   * Refreshes the start screen's mastery and bookmark counts after progress was imported
+   */
+  private handleProgressImported = async (): Promise<void> => {
+    if (!this.applicationContext || this.state.viewState !== 'home') {
+      return;
+    }
+
+    try {
+      const categories = await this.applicationContext.categoryCatalogService.getCategories();
+      this.setState({ categories });
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to refresh categories'));
+    }
+  };
+
+  /**
+   * Opens the question of a note as a new history entry
+   */
+  private handleNoteSelect = async (questionId: string): Promise<void> => {
+    try {
+      this.setState({ isNotesOpen: false });
+      await this.openQuestion(questionId, {});
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to open question'));
+    }
+  };
+
+  /**
+   * Opens a question picked from the search results as a new history entry
+   */
+  private handleSearchSelect = async (questionId: string): Promise<void> => {
+    try {
+      this.setState({ isSearchOpen: false });
+      await this.openQuestion(questionId, {});
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to open question'));
+    }
+  };
+
   /**
    * Handles answer submission from AnswerComponent
    */
@@ -114,21 +580,11 @@ class App extends React.Component<{}, AppState> {
         throw new Error('Cannot submit answer: application not properly initialized');
       }
 
-      const questionId = this.state.currentQuestion.id;
-      const answerState = this.applicationContext.answerManager.getAnswerState(questionId);
-      
-      if (!answerState || !answerState.isSubmitted) {
+      const answerResult = this.getStoredAnswerResult(this.state.currentQuestion);
+      if (!answerResult) {
         throw new Error('Answer state not found after submission');
       }
 
-      // Create answer result for explanation display
-      const answerResult: IAnswerResult = {
-        isCorrect: answerState.isCorrect,
-        correctAnswers: this.state.currentQuestion.getCorrectAnswers(),
-        explanation: this.state.currentQuestion.explanation,
-        selectedAnswers: answerState.selectedAnswers
-      };
-
       this.setState({
         viewState: 'explanation',
         answerResult
@@ -138,6 +594,57 @@ class App extends React.Component<{}, AppState> {
     }
   };
 
+  /**
+   * Builds the explanation input from the answer stored for a question
+   * @param question - Current question
+   * @returns Answer result, or null if the question has no submitted answer
+   */
+  private getStoredAnswerResult(question: IQuestion): IAnswerResult | null {
+    if (!this.applicationContext) {
+      return null;
+    }
+
+    const { answerManager } = this.applicationContext;
+    const answerState = answerManager.getAnswerState(question.id);
+
+    if (!answerState || !answerState.isSubmitted) {
+      return null;
+    }
+
+    return {
+      isCorrect: answerState.isCorrect,
+      score: answerState.score,
+      correctAnswers: question.getCorrectAnswers(),
+      explanation: question.explanation,
+      selectedAnswers: answerState.selectedAnswers,
+      submittedOutput: answerState.submittedOutput,
+      outputComparison: answerState.submittedOutput === undefined
+        ? undefined
+        : answerManager.getOutputComparison(question.id) ?? undefined
+    };
+  }
+
+  /**
+   * Shows the question the navigation bar moved to.
+   * A question answered earlier opens on its explanation with the stored selection instead of a blank form.
+   */
+  private handleQuestionChange = (): void => {
+    try {
+      this.showCurrentQuestion();
+
+      const currentQuestion = this.applicationContext?.questionManager.getCurrentQuestion();
+      const answerResult = currentQuestion ? this.getStoredAnswerResult(currentQuestion) : null;
+      if (answerResult) {
+        this.setState({
+          viewState: 'explanation',
+          answerResult
+        });
+      }
+    } catch (error) {
+      this.handleError(error instanceof Error ? error : new Error('Failed to show question'));
+    }
+  };
+
   /**
    * Handles question reset/redo action
    */
@@ -172,23 +679,90 @@ class App extends React.Component<{}, AppState> {
       const moved = this.applicationContext.questionManager.moveToNext();
       
       if (moved) {
-        const nextQuestion = this.applicationContext.questionManager.getCurrentQuestion();
-        const nextQuestionIndex = this.applicationContext.questionManager.getCurrentIndex();
-        
-        this.setState({
-          viewState: 'question',
-          currentQuestion: nextQuestion,
-          currentQuestionIndex: nextQuestionIndex,
-          answerResult: null
-        });
+        this.showCurrentQuestion();
       } else {
-        // At end of questions - could implement completion screen here
+        this.showSessionComplete();
       }
     } catch (error) {
       this.handleError(error instanceof Error ? error : new Error('Failed to navigate to next question'));
     }
   };
 
+  /**
+   * Shows the completion view with the results of the finished session
+   */
+  private showSessionComplete(): void {
+    if (!this.applicationContext) {
+      throw new Error('Cannot complete session: application not properly initialized');
+    }
+
+    const { questionManager, sessionSummaryService } = this.applicationContext;
+    const sessionSummary = sessionSummaryService.summarize(
+      questionManager.getSessionQuestions(),
+      Date.now() - this.sessionStartedAt
+    );
+
+    this.setState({
+      viewState: 'complete',
+      sessionSummary,
+      answerResult: null
+    });
+  }
+
+  /**
+   * Starts a new session made up only of the questions answered incorrectly
+   */
+  private handleReviewIncorrect = async (): Promise<void> => {
+    try {
+      if (!this.applicationContext || !this.state.sessionSummary) {
+        throw new Error('Cannot start review: no completed session');
+      }
+
+      const { answerManager } = this.applicationContext;
+      const incorrectQuestionIds = this.state.sessionSummary.incorrectQuestionIds;
+
+      this.setState({ isStartingReview: true });
+      await this.startSession({ filter: { ids: incorrectQuestionIds } });
+
+      // Clear the previous attempts so the review questions can be answered again
+      incorrectQuestionIds.forEach(questionId => answerManager.resetAnswer(questionId));
+
+      this.showCurrentQuestion();
+      this.setState({ isStartingReview: false });
+    } catch (error) {
+      this.setState({ isStartingReview: false });
+      this.handleError(error instanceof Error ? error : new Error('Failed to start review session'));
+    }
+  };
+
+  /**
+   * Switches to the timed exam mode
+   */
+  private handleStartExam = (): void => {
+    this.setState({ viewState: 'exam' });
+  };
+
+  /**
+   * Leaves exam mode and returns to the practice question
+   */
+  private handleExitExam = (): void => {
+    this.setState({
+      viewState: 'question',
+      answerResult: null
+    });
+  };
+
+  /**
+   * Creates a fresh exam session from the DI container
+   */
+  private createExamSession = (): IExamSession => {
+    if (!this.applicationContext) {
+      throw new Error('Cannot start exam: application not properly initialized');
+    }
+
+    return this.applicationContext.container.resolve<IExamSession>(ServiceIdentifiers.ExamSession);
+  };
+
   /**
    * Renders the loading state
    */
@@ -222,6 +796,11 @@ class App extends React.Component<{}, AppState> {
           >
             Reload Application
           </button>
+          {this.applicationContext && (
+            <button className="app-error-retry app-error-home" onClick={this.handleChooseTopics}>
+              Back to topics
+            </button>
+          )}
         </div>
       </div>
     );
@@ -256,27 +835,95 @@ class App extends React.Component<{}, AppState> {
     }
 
     const { viewState, currentQuestion, answerResult } = this.state;
+    const studyMode = this.studyModeFactory.getStudyMode(currentQuestion);
 
-    if (viewState === 'explanation' && answerResult) {
+    if (!studyMode) {
       return (
-        <div className="app-right-column">
-          <ExplanationComponent
-            question={currentQuestion}
-            answerResult={answerResult}
-            onRedoQuestion={this.handleQuestionReset}
-            onNextQuestion={this.handleNextQuestion}
-            onError={this.handleError}
-          />
+        <div className="app-column-error">
+          No study mode available for {currentQuestion.type} questions
         </div>
       );
     }
 
     return (
       <div className="app-right-column">
-        <AnswerComponent
-          question={currentQuestion}
-          answerManager={this.applicationContext.answerManager}
-          onAnswerSubmitted={this.handleAnswerSubmitted}
+        {studyMode.render({
+          question: currentQuestion,
+          answerManager: this.applicationContext.answerManager,
+          validator: this.studyModeFactory.getValidator(currentQuestion),
+          answerResult: viewState === 'explanation' ? answerResult : null,
+          onAnswerSubmitted: this.handleAnswerSubmitted,
+          onNextQuestion: this.handleNextQuestion,
+          onRedoQuestion: this.handleQuestionReset,
+          onError: this.handleError,
+          shortcutService: this.applicationContext.shortcutService,
+          annotationService: this.applicationContext.annotationService
+        })}
+      </div>
+    );
+  }
+
+  /**
+   * Renders the start screen
+   */
+  private renderHome(): React.ReactElement {
+    return (
+      <div className="app-main">
+        <div className="app-toolbar">
+          <button className="app-toolbar-button" onClick={this.handleOpenSearch}>
+            Search
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenNotes}>
+            Notes
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenProgress}>
+            Progress
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenAnalytics}>
+            Analytics
+          </button>
+        </div>
+        <CategoryPickerComponent
+          categories={this.state.categories}
+          onStart={this.handleStartSession}
+          isStarting={this.state.isStartingSession}
+          bookmarkedCount={this.applicationContext?.annotationService.getBookmarkedQuestionIds().length ?? 0}
+          onStartBookmarked={this.handleStartBookmarked}
+          onStartDue={this.handleStartDue}
+        />
+      </div>
+    );
+  }
+
+  /**
+   * Renders the session completion view
+   */
+  private renderSessionComplete(): React.ReactElement | null {
+    if (!this.state.sessionSummary) {
+      return null;
+    }
+
+    return (
+      <div className="app-main">
+        <SessionCompleteComponent
+          summary={this.state.sessionSummary}
+          onReviewIncorrect={this.handleReviewIncorrect}
+          isStartingReview={this.state.isStartingReview}
+          onChooseTopics={this.handleChooseTopics}
+        />
+      </div>
+    );
+  }
+
+  /**
+   * Renders the timed exam mode
+   */
+  private renderExam(): React.ReactElement {
+    return (
+      <div className="app-main">
+        <ExamComponent
+          createExamSession={this.createExamSession}
+          onExit={this.handleExitExam}
           onError={this.handleError}
         />
       </div>
@@ -289,19 +936,52 @@ class App extends React.Component<{}, AppState> {
   private renderApplication(): React.ReactElement {
     return (
       <div className="app-main">
+        <div className="app-toolbar">
+          <button className="app-toolbar-button" onClick={this.handleOpenSearch}>
+            Search
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleChooseTopics}>
+            Topics
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenNotes}>
+            Notes
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenProgress}>
+            Progress
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleOpenAnalytics}>
+            Analytics
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleStartExam}>
+            Mock interview
+          </button>
+          <button className="app-toolbar-button" onClick={this.handleToggleShortcutHelp}>
+            Shortcuts
+          </button>
+        </div>
+
+        {this.state.sessionSeed !== null && (
+          <p className="app-session-seed" title="Share this page's link to replay the same question order">
+            Session seed: <code>{this.state.sessionSeed}</code>
+          </p>
+        )}
+
         <div className="app-container">
           {this.renderLeftColumn()}
           {this.renderRightColumn()}
         </div>
         
-        {/* Navigation component for debugging/development - can be hidden in production */}
+        {/* Previous/next, go-to, bookmarks and the question map */}
         {this.applicationContext && (
           <div className="app-navigation">
             <NavigationComponent
               questionManager={this.applicationContext.questionManager}
               answerManager={this.applicationContext.answerManager}
+              stateManager={this.applicationContext.stateManager}
+              currentQuestionIndex={this.state.currentQuestionIndex}
               onQuestionReset={this.handleQuestionReset}
               onNextQuestion={this.handleNextQuestion}
+              onQuestionChange={this.handleQuestionChange}
               onError={this.handleError}
             />
           </div>
@@ -310,6 +990,94 @@ class App extends React.Component<{}, AppState> {
     );
   }
 
+  /**
+   * Renders the search panel over the current view
+   */
+  private renderSearch(): React.ReactElement | null {
+    if (!this.applicationContext) {
+      return null;
+    }
+
+    return (
+      <SearchPanelComponent
+        searchService={this.applicationContext.searchService}
+        onSelect={this.handleSearchSelect}
+        onClose={this.handleCloseSearch}
+      />
+    );
+  }
+
+  /**
+   * Renders the notes overview over the current view
+   */
+  private renderNotes(): React.ReactElement | null {
+    if (!this.applicationContext) {
+      return null;
+    }
+
+    return (
+      <NotesOverviewComponent
+        annotationService={this.applicationContext.annotationService}
+        onSelect={this.handleNoteSelect}
+        onClose={this.handleCloseNotes}
+      />
+    );
+  }
+
+  /**
+   * Renders the mastery analytics dashboard over the current view
+   */
+  private renderAnalytics(): React.ReactElement | null {
+    if (!this.applicationContext) {
+      return null;
+    }
+
+    return (
+      <AnalyticsDashboardComponent
+        analyticsService={this.applicationContext.analyticsService}
+        onPracticeTags={this.handlePracticeTags}
+        isStartingPractice={this.state.isStartingSession}
+        onClose={this.handleCloseAnalytics}
+      />
+    );
+  }
+
+  /**
+   * Renders the progress export and import dialog over the current view
+   */
+  private renderProgressTransfer(): React.ReactElement | null {
+    if (!this.applicationContext) {
+      return null;
+    }
+
+    return (
+      <ProgressTransferComponent
+        progressTransferService={this.applicationContext.progressTransferService}
+        onImported={this.handleProgressImported}
+        onClose={this.handleCloseProgress}
+      />
+    );
+  }
+
+  /**
+   * Renders the keyboard shortcut overlay over the question or explanation
+   */
+  private renderShortcutHelp(): React.ReactElement | null {
+    const { viewState } = this.state;
+
+    if (!this.applicationContext || (viewState !== 'question' && viewState !== 'explanation')) {
+      return null;
+    }
+
+    return (
+      <ShortcutHelpComponent
+        shortcutService={this.applicationContext.shortcutService}
+        scope={viewState}
+        onClose={this.handleCloseShortcutHelp}
+      />
+    );
+  }
+
   /**
    * Main render method
    */
@@ -320,7 +1088,15 @@ class App extends React.Component<{}, AppState> {
       <div className="app">
         {viewState === 'loading' && this.renderLoading()}
         {viewState === 'error' && this.renderError()}
+        {viewState === 'home' && this.renderHome()}
         {(viewState === 'question' || viewState === 'explanation') && this.renderApplication()}
+        {viewState === 'complete' && this.renderSessionComplete()}
+        {viewState === 'exam' && this.renderExam()}
+        {this.state.isSearchOpen && this.renderSearch()}
+        {this.state.isShortcutHelpOpen && this.renderShortcutHelp()}
+        {this.state.isNotesOpen && this.renderNotes()}
+        {this.state.isProgressOpen && this.renderProgressTransfer()}
+        {this.state.isAnalyticsOpen && this.renderAnalytics()}
       </div>
     );
   }
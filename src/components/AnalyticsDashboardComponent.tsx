@@ -0,0 +1,313 @@
+import React from 'react';
+import type {
+  AnalyticsDimension,
+  IAnalyticsService,
+  MasteryReport,
+  MasteryTrendPoint,
+  TopicMastery
+} from '../interfaces/services/IAnalyticsService';
+import { formatDuration } from '../utils/formatDuration';
+import './AnalyticsDashboardComponent.css';
+
+/**
+ * Props interface for AnalyticsDashboardComponent following Interface Segregation Principle
+ */
+export interface AnalyticsDashboardComponentProps {
+  /** Service building the mastery report */
+  analyticsService: IAnalyticsService;
+
+  /** Callback to practice the questions with any of the given tags */
+  onPracticeTags: (tags: string[]) => void;
+
+  /** Whether the practice session is being started */
+  isStartingPractice?: boolean;
+
+  /** Callback to close the dashboard */
+  onClose: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+const DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  category: 'Categories',
+  subcategory: 'Subcategories',
+  tag: 'Tags',
+  difficulty: 'Difficulty'
+};
+
+/**
+ * Formats an accuracy as a whole percentage
+ */
+const formatAccuracy = (accuracy: number | null): string =>
+  accuracy === null ? '—' : `${Math.round(accuracy * 100)}%`;
+
+/**
+ * Picks the chart color for an accuracy: red when weak, amber when shaky, green when strong
+ */
+const accuracyColor = (accuracy: number): string =>
+  accuracy < 0.5 ? '#e53e3e' : accuracy < 0.8 ? '#d69e2e' : '#38a169';
+
+/**
+ * Describes a trend week for its tooltip
+ */
+const describeWeek = (point: MasteryTrendPoint): string =>
+  `Week of ${point.weekStart.toLocaleDateString()}: ` +
+  (point.accuracy === null ? 'no attempts' : `${formatAccuracy(point.accuracy)} over ${point.attemptCount} attempts`);
+
+/**
+ * Horizontal bar showing an accuracy
+ */
+const AccuracyBar: React.FC<{ accuracy: number }> = ({ accuracy }) => (
+  <svg className="analytics-bar" viewBox="0 0 100 8" preserveAspectRatio="none" aria-hidden="true">
+    <rect x="0" y="0" width="100" height="8" rx="2" fill="#2d3748" />
+    <rect x="0" y="0" width={accuracy * 100} height="8" rx="2" fill={accuracyColor(accuracy)} />
+  </svg>
+);
+
+/**
+ * Line of weekly accuracy; weeks without attempts leave a gap
+ */
+const Sparkline: React.FC<{ trend: MasteryTrendPoint[]; label: string }> = ({ trend, label }) => {
+  const step = 60 / Math.max(1, trend.length - 1);
+  const points = trend.map((point, index) => ({ point, x: index * step, y: 18 - (point.accuracy ?? 0) * 16 }));
+
+  const segments: string[][] = [[]];
+  points.forEach(({ point, x, y }) => {
+    if (point.accuracy === null) {
+      segments.push([]);
+    } else {
+      segments[segments.length - 1].push(`${x},${y}`);
+    }
+  });
+
+  return (
+    <svg className="analytics-sparkline" viewBox="-2 0 64 20" role="img" aria-label={label}>
+      {segments.filter(segment => segment.length > 1).map(segment => (
+        <polyline key={segment[0]} points={segment.join(' ')} fill="none" stroke="#007acc" strokeWidth="1.5" />
+      ))}
+      {points.filter(({ point }) => point.accuracy !== null).map(({ point, x, y }) => (
+        <circle key={x} cx={x} cy={y} r="1.5" fill="#007acc">
+          <title>{describeWeek(point)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Column chart of weekly accuracy, with the number of attempts under each week
+ */
+const TrendChart: React.FC<{ trend: MasteryTrendPoint[] }> = ({ trend }) => {
+  const columnWidth = 100 / trend.length;
+
+  return (
+    <svg
+      className="analytics-trend"
+      viewBox="0 0 100 50"
+      role="img"
+      aria-label={`Accuracy over the last ${trend.length} weeks`}
+    >
+      <line x1="0" y1="40" x2="100" y2="40" stroke="#4a5568" strokeWidth="0.3" />
+      {trend.map((point, index) => {
+        const x = index * columnWidth + columnWidth * 0.2;
+        const height = (point.accuracy ?? 0) * 36;
+        return (
+          <g key={point.weekStart.getTime()}>
+            <title>{describeWeek(point)}</title>
+            {point.accuracy !== null && (
+              <rect x={x} y={40 - height} width={columnWidth * 0.6} height={height} rx="0.8" fill={accuracyColor(point.accuracy)} />
+            )}
+            <text x={x + columnWidth * 0.3} y="47" textAnchor="middle" fontSize="4" fill="#a0aec0">
+              {point.attemptCount}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * React component showing accuracy, attempts, time to answer and weekly trends by topic.
+ * Topics are listed weakest first so the ones to work on before an interview stand out;
+ * the weakest tags can be practiced straight away.
+ */
+export const AnalyticsDashboardComponent: React.FC<AnalyticsDashboardComponentProps> = ({
+  analyticsService,
+  onPracticeTags,
+  isStartingPractice = false,
+  onClose,
+  className = ''
+}) => {
+  const [report, setReport] = React.useState<MasteryReport | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [dimension, setDimension] = React.useState<AnalyticsDimension>('category');
+
+  React.useEffect(() => {
+    let isCurrent = true;
+    analyticsService.getMasteryReport()
+      .then(loaded => {
+        if (isCurrent) {
+          setReport(loaded);
+        }
+      })
+      .catch(err => {
+        if (isCurrent) {
+          setError(err instanceof Error ? err.message : 'Failed to load the analytics');
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [analyticsService]);
+
+  /**
+   * Closes the dashboard on Escape
+   */
+  const handleKeyDown = (event: React.KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  /**
+   * Renders the topics of the selected dimension, weakest first
+   */
+  const renderTopics = (topics: TopicMastery[]): React.ReactElement => {
+    const practiced = topics
+      .filter(topic => topic.accuracy !== null)
+      .sort((first, second) => (first.accuracy ?? 0) - (second.accuracy ?? 0));
+    const unpracticed = topics.filter(topic => topic.accuracy === null);
+
+    return (
+      <>
+        {practiced.length > 0 ? (
+          <table className="analytics-table" aria-label={`${DIMENSION_LABELS[dimension]} by accuracy`}>
+            <thead>
+              <tr>
+                <th scope="col">Topic</th>
+                <th scope="col">Accuracy</th>
+                <th scope="col">Attempts</th>
+                <th scope="col">Avg. time</th>
+                <th scope="col">Trend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {practiced.map(topic => (
+                <tr key={topic.key}>
+                  <th scope="row">{topic.label}</th>
+                  <td>
+                    <span className="analytics-accuracy">
+                      <AccuracyBar accuracy={topic.accuracy ?? 0} />
+                      {formatAccuracy(topic.accuracy)}
+                    </span>
+                  </td>
+                  <td>{topic.attemptCount}</td>
+                  <td>{topic.averageTimeToAnswerMs === null ? '—' : formatDuration(topic.averageTimeToAnswerMs)}</td>
+                  <td><Sparkline trend={topic.trend} label={`Weekly accuracy of ${topic.label}`} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="analytics-empty">None of these topics has been practiced yet.</p>
+        )}
+        {unpracticed.length > 0 && practiced.length > 0 && (
+          <p className="analytics-hint">
+            Not practiced yet: {unpracticed.map(topic => topic.label).join(', ')}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div
+      className={`analytics-dashboard ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Mastery analytics"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="analytics-header">
+        <h2 className="analytics-title">Topic Mastery</h2>
+        <button type="button" className="analytics-close" onClick={onClose} aria-label="Close analytics" autoFocus>
+          ✕
+        </button>
+      </div>
+
+      {error && <p className="analytics-error" role="alert">{error}</p>}
+      {!report && !error && <p className="analytics-empty">Loading analytics…</p>}
+
+      {report && report.overall.attemptCount === 0 && (
+        <p className="analytics-empty">No answers recorded yet. Practice some questions to see how each topic is going.</p>
+      )}
+
+      {report && report.overall.attemptCount > 0 && (
+        <>
+          <section className="analytics-overview" aria-label="Overall">
+            <dl className="analytics-stats">
+              <div>
+                <dt>Accuracy</dt>
+                <dd>{formatAccuracy(report.overall.accuracy)}</dd>
+              </div>
+              <div>
+                <dt>Attempts</dt>
+                <dd>{report.overall.attemptCount}</dd>
+              </div>
+              <div>
+                <dt>Questions tried</dt>
+                <dd>{report.overall.attemptedQuestionCount} / {report.overall.questionCount}</dd>
+              </div>
+              <div>
+                <dt>Avg. time to answer</dt>
+                <dd>
+                  {report.overall.averageTimeToAnswerMs === null ? '—' : formatDuration(report.overall.averageTimeToAnswerMs)}
+                </dd>
+              </div>
+            </dl>
+            <TrendChart trend={report.overall.trend} />
+          </section>
+
+          <section className="analytics-weakest" aria-label="Weakest topics">
+            {report.weakestTags.length > 0 ? (
+              <p>
+                Weakest tags:{' '}
+                {report.weakestTags.map(topic => `${topic.label} (${formatAccuracy(topic.accuracy)})`).join(', ')}
+              </p>
+            ) : (
+              <p className="analytics-hint">Answer a few questions on each tag to find your weakest topics.</p>
+            )}
+            <button
+              type="button"
+              className="analytics-practice"
+              onClick={() => onPracticeTags(report.weakestTags.map(topic => topic.key))}
+              disabled={report.weakestTags.length === 0 || isStartingPractice}
+            >
+              {isStartingPractice ? 'Starting…' : 'Practice my weakest topic'}
+            </button>
+          </section>
+
+          <div className="analytics-dimensions" role="group" aria-label="Group topics by">
+            {(Object.keys(DIMENSION_LABELS) as AnalyticsDimension[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                className="analytics-dimension"
+                aria-pressed={dimension === option}
+                onClick={() => setDimension(option)}
+              >
+                {DIMENSION_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {renderTopics(report.topics[dimension])}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboardComponent;
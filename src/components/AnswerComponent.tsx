@@ -1,6 +1,7 @@
 import React from 'react';
 import type { IQuestion } from '../interfaces/domain/IQuestion';
 import type { IAnswerManager } from '../interfaces/services/IAnswerManager';
+import type { IShortcutService, ShortcutAction, ShortcutHandlers } from '../interfaces/services/IShortcutService';
 import type { IQuestionState } from '../interfaces/domain/types';
 import './AnswerComponent.css';
 import './MobileAnswerLayout.css';
@@ -23,8 +24,16 @@ export interface AnswerComponentProps {
   
   /** Optional callback when component encounters an error */
   onError?: (error: Error) => void;
+  
+  /** Optional registry for selecting and submitting from the keyboard */
+  shortcutService?: IShortcutService;
 }
 
+/**
+ * Number of options that have a keyboard shortcut
+ */
+const SHORTCUT_OPTION_COUNT = 9;
+
 /**
  * React component for displaying answer options in a 2x2 grid layout.
  * Follows Single Responsibility Principle by focusing only on option selection and submission.
@@ -35,7 +44,8 @@ export const AnswerComponent: React.FC<AnswerComponentProps> = ({
   answerManager,
   onAnswerSubmitted,
   className = '',
-  onError
+  onError,
+  shortcutService
 }) => {
   const [selectedOptions, setSelectedOptions] = React.useState<number[]>([]);
   const [questionState, setQuestionState] = React.useState<IQuestionState | null>(null);
@@ -116,6 +126,7 @@ export const AnswerComponent: React.FC<AnswerComponentProps> = ({
         selectedAnswers: selectedOptions,
         isSubmitted: true,
         isCorrect: result.isCorrect,
+        score: result.score,
         submittedAt: new Date()
       };
       
@@ -134,6 +145,26 @@ export const AnswerComponent: React.FC<AnswerComponentProps> = ({
     }
   }, [selectedOptions, questionState?.isSubmitted, isSubmitting, answerManager, question.id, onAnswerSubmitted, onError]);
 
+  /**
+   * Effect to toggle options and submit from the keyboard while the options are shown
+   */
+  React.useEffect(() => {
+    if (!shortcutService) {
+      return undefined;
+    }
+
+    const handlers: ShortcutHandlers = {
+      submit: () => {
+        void handleSubmitAnswer();
+      }
+    };
+    (question.options ?? []).slice(0, SHORTCUT_OPTION_COUNT).forEach((_, index) => {
+      handlers[`toggle-option-${index + 1}` as ShortcutAction] = () => handleOptionSelect(index);
+    });
+
+    return shortcutService.register('question', handlers);
+  }, [shortcutService, question, handleOptionSelect, handleSubmitAnswer]);
+
   /**
    * Renders a single option button
    */
@@ -0,0 +1,213 @@
+import React from 'react';
+import type { CategorySummary } from '../interfaces/services/ICategoryCatalogService';
+import type { QuestionDeckFilter } from '../interfaces/repositories/IQuestionRepository';
+import { subcategoryKey } from '../models/questionMetadata';
+import './CategoryPickerComponent.css';
+
+/**
+ * Props interface for CategoryPickerComponent following Interface Segregation Principle
+ */
+export interface CategoryPickerComponentProps {
+  /** Categories to offer, with their subcategories */
+  categories: CategorySummary[];
+
+  /** Callback to start a session; the filter is omitted to practice every question */
+  onStart: (filter?: QuestionDeckFilter) => void;
+
+  /** Whether the session is being prepared */
+  isStarting?: boolean;
+
+  /** Number of bookmarked questions (default: 0) */
+  bookmarkedCount?: number;
+
+  /** Callback to practice only the bookmarked questions; without one the option is hidden */
+  onStartBookmarked?: () => void;
+
+  /** Callback to review the questions due today; without one the option is hidden */
+  onStartDue?: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * React component for the start screen.
+ * Lists every category with its question count and the user's mastery, and starts a
+ * session with the picked subcategories or with the whole question bank.
+ */
+export const CategoryPickerComponent: React.FC<CategoryPickerComponentProps> = ({
+  categories,
+  onStart,
+  isStarting = false,
+  bookmarkedCount = 0,
+  onStartBookmarked,
+  onStartDue,
+  className = ''
+}) => {
+  const [selected, setSelected] = React.useState<Set<string>>(() => new Set());
+
+  const totalQuestions = categories.reduce((sum, category) => sum + category.questionCount, 0);
+  const selectedSubcategories = categories.flatMap(category =>
+    category.subcategories
+      .filter(subcategory => selected.has(subcategoryKey(category.id, subcategory.id)))
+      .map(subcategory => ({ category, subcategory }))
+  );
+  const selectedQuestionCount = selectedSubcategories
+    .reduce((sum, { subcategory }) => sum + subcategory.questionCount, 0);
+
+  /**
+   * Toggles one subcategory
+   */
+  const toggleSubcategory = React.useCallback((key: string) => {
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Selects every subcategory of a category that has questions, or clears them if all are selected
+   */
+  const toggleCategory = React.useCallback((category: CategorySummary) => {
+    const keys = category.subcategories
+      .filter(subcategory => subcategory.questionCount > 0)
+      .map(subcategory => subcategoryKey(category.id, subcategory.id));
+
+    setSelected(previous => {
+      const next = new Set(previous);
+      const allSelected = keys.every(key => next.has(key));
+      keys.forEach(key => (allSelected ? next.delete(key) : next.add(key)));
+      return next;
+    });
+  }, []);
+
+  /**
+   * Starts a session with the selected subcategories
+   */
+  const handleStartSelected = (): void => {
+    onStart({
+      categories: [...new Set(selectedSubcategories.map(({ category }) => category.id))],
+      subcategories: selectedSubcategories.map(({ category, subcategory }) => subcategoryKey(category.id, subcategory.id))
+    });
+  };
+
+  return (
+    <div className={`category-picker ${className}`} role="region" aria-label="Choose topics">
+      <header className="category-picker-header">
+        <h2>Choose what to practice</h2>
+        <p className="category-picker-meta">{totalQuestions} questions in {categories.length} categories</p>
+      </header>
+
+      <div className="category-picker-grid">
+        {categories.map(category => (
+          <section
+            key={category.id}
+            className="category-card"
+            style={{ borderTopColor: category.color }}
+            aria-labelledby={`category-${category.id}`}
+          >
+            <header className="category-card-header">
+              <h3 id={`category-${category.id}`}>
+                <span className="category-card-icon" aria-hidden="true">{category.icon}</span>
+                {category.name}
+              </h3>
+              <button
+                type="button"
+                className="category-card-select"
+                onClick={() => toggleCategory(category)}
+                disabled={category.questionCount === 0}
+                aria-label={`Select all of ${category.name}`}
+              >
+                Select all
+              </button>
+            </header>
+
+            {category.description && <p className="category-card-description">{category.description}</p>}
+            <p className="category-card-stats">
+              {category.questionCount} {category.questionCount === 1 ? 'question' : 'questions'}
+              {category.estimatedTimeMinutes !== null && ` · ~${category.estimatedTimeMinutes} min`}
+              {' · '}{category.masteryPercentage}% mastered
+            </p>
+            <div
+              className="category-card-mastery"
+              role="progressbar"
+              aria-label={`${category.name} mastery`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={category.masteryPercentage}
+            >
+              <div style={{ width: `${category.masteryPercentage}%`, background: category.color }} />
+            </div>
+
+            <ul className="category-card-subcategories">
+              {category.subcategories.map(subcategory => {
+                const key = subcategoryKey(category.id, subcategory.id);
+
+                return (
+                  <li key={key}>
+                    <label className={subcategory.questionCount === 0 ? 'category-subcategory--empty' : ''}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        disabled={subcategory.questionCount === 0}
+                        onChange={() => toggleSubcategory(key)}
+                      />
+                      <span className="category-subcategory-name" title={subcategory.description || undefined}>
+                        {subcategory.name}
+                      </span>
+                      <span className="category-subcategory-stats">
+                        {subcategory.questionCount}
+                        {subcategory.questionCount > 0 && ` · ${subcategory.masteryPercentage}%`}
+                      </span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      <div className="category-picker-actions">
+        <button
+          className="category-picker-button"
+          onClick={handleStartSelected}
+          disabled={isStarting || selectedQuestionCount === 0}
+        >
+          {selectedQuestionCount === 0
+            ? 'Start selected'
+            : `Start ${selectedQuestionCount} selected ${selectedQuestionCount === 1 ? 'question' : 'questions'}`}
+        </button>
+        <button
+          className="category-picker-button category-picker-button--secondary"
+          onClick={() => onStart()}
+          disabled={isStarting || totalQuestions === 0}
+        >
+          Practice all questions
+        </button>
+        {onStartDue && (
+          <button
+            className="category-picker-button category-picker-button--secondary"
+            onClick={onStartDue}
+            disabled={isStarting || totalQuestions === 0}
+          >
+            Review due questions
+          </button>
+        )}
+        {onStartBookmarked && (
+          <button
+            className="category-picker-button category-picker-button--secondary"
+            onClick={onStartBookmarked}
+            disabled={isStarting || bookmarkedCount === 0}
+          >
+            Practice {bookmarkedCount} bookmarked {bookmarkedCount === 1 ? 'question' : 'questions'}
+          </button>
+        )}
+        {isStarting && <span className="category-picker-status" role="status">Preparing session...</span>}
+      </div>
+    </div>
+  );
+};
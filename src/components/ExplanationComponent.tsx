@@ -1,6 +1,8 @@
 import React from 'react';
 import type { IQuestion } from '../interfaces/domain/IQuestion';
-import type { IAnswerResult } from '../interfaces/domain/types';
+import type { IAnswerResult, IOutputComparison, OutputDiffLineKind } from '../interfaces/domain/types';
+import type { IAnnotationService } from '../interfaces/services/IAnnotationService';
+import { NotesPanelComponent } from './NotesPanelComponent';
 import './ExplanationComponent.css';
 
 /**
@@ -19,6 +21,9 @@ export interface ExplanationComponentProps {
   /** Callback when user wants to move to the next question */
   onNextQuestion?: () => void;
   
+  /** Optional notes service; when given, the personal note of the question is shown below the explanation */
+  annotationService?: IAnnotationService;
+  
   /** Optional CSS class name for styling */
   className?: string;
   
@@ -26,6 +31,15 @@ export interface ExplanationComponentProps {
   onError?: (error: Error) => void;
 }
 
+/**
+ * Marker and description of each kind of line in an output diff
+ */
+const OUTPUT_DIFF_LINES: Record<OutputDiffLineKind, { marker: string; description: string }> = {
+  match: { marker: ' ', description: 'Matches' },
+  missing: { marker: '-', description: 'Expected but missing' },
+  unexpected: { marker: '+', description: 'Not expected' }
+};
+
 /**
  * React component for displaying answer explanations and feedback.
  * Follows Single Responsibility Principle by focusing only on explanation display.
@@ -36,30 +50,45 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
   answerResult,
   onRedoQuestion,
   onNextQuestion,
+  annotationService,
   className = '',
   onError
 }) => {
+  const isPartiallyCorrect = !answerResult.isCorrect && answerResult.score > 0;
+
   /**
    * Renders the result header with correctness indicator
    */
   const renderResultHeader = (): React.ReactElement => {
     const isCorrect = answerResult.isCorrect;
-    const headerClass = `explanation-header ${isCorrect ? 'explanation-header--correct' : 'explanation-header--incorrect'}`;
+    // Correct options the user did not pick, labelled A, B, C...
+    const missedOptionLabels = isCorrect ? [] : answerResult.correctAnswers
+      .filter(index => !answerResult.selectedAnswers.includes(index))
+      .map(index => String.fromCharCode(65 + index));
+    const headerClass = `explanation-header ${isCorrect ? 'explanation-header--correct' : 'explanation-header--incorrect'}` +
+      (isPartiallyCorrect ? ' explanation-header--partial' : '');
     
     return (
       <div className={headerClass}>
         <div className="explanation-result-icon">
-          {isCorrect ? '✓' : '✗'}
+          {isCorrect ? '✓' : isPartiallyCorrect ? '½' : '✗'}
         </div>
         <div className="explanation-result-text">
           <h3 className="explanation-result-title">
-            {isCorrect ? 'Correct!' : 'Incorrect'}
+            {isCorrect ? 'Correct!' : isPartiallyCorrect ? 'Partially correct' : 'Incorrect'}
           </h3>
           <p className="explanation-result-subtitle">
             {isCorrect 
               ? 'Well done! Your answer is correct.'
-              : 'Don\'t worry, let\'s learn from this.'
+              : isPartiallyCorrect
+                ? `You earned ${Math.round(answerResult.score * 100)}% of the credit.`
+                : 'Don\'t worry, let\'s learn from this.'
             }
+            {missedOptionLabels.length > 0 && (
+              <span className="explanation-result-missed">
+                {' '}Missed: {missedOptionLabels.join(', ')}
+              </span>
+            )}
           </p>
         </div>
       </div>
@@ -88,6 +117,10 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
                 optionClass += ' explanation-option--correct';
               }
               
+              if (isCorrect && !wasSelected) {
+                optionClass += ' explanation-option--missed';
+              }
+              
               if (wasSelected && !isCorrect) {
                 optionClass += ' explanation-option--incorrect-selected';
               }
@@ -111,6 +144,11 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
                           Correct Answer
                         </span>
                       )}
+                      {isCorrect && !wasSelected && (
+                        <span className="explanation-option-badge explanation-option-badge--missed">
+                          Missed
+                        </span>
+                      )}
                       {wasSelected && !isCorrect && (
                         <span className="explanation-option-badge explanation-option-badge--selected">
                           Your Selection
@@ -150,6 +188,35 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
     }
   };
 
+  /**
+   * Renders the typed output of a predict-output question compared line by line with the expected output
+   * @param comparison - Line-by-line comparison
+   */
+  const renderOutputDiff = (comparison: IOutputComparison): React.ReactElement => {
+    return (
+      <div className="explanation-output">
+        <h4 className="explanation-options-title">Your Output</h4>
+        {!comparison.isMatch && (
+          <p className="explanation-output-legend">
+            Lines marked - were expected but missing; lines marked + were not expected.
+          </p>
+        )}
+        <pre className="explanation-diff" aria-label="Your output compared with the expected output">
+          {comparison.lines.map(({ kind, text }, index) => (
+            <span
+              key={index}
+              className={`explanation-diff-line explanation-diff-line--${kind}`}
+              title={OUTPUT_DIFF_LINES[kind].description}
+            >
+              <span className="explanation-diff-marker" aria-hidden="true">{OUTPUT_DIFF_LINES[kind].marker}</span>
+              {text}
+            </span>
+          ))}
+        </pre>
+      </div>
+    );
+  };
+
   /**
    * Renders the code output section (revealed after submission)
    * REMOVED: No longer shows expected output to preserve learning value
@@ -229,6 +296,10 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
               <span className="explanation-stat-label">Correctly Selected:</span>
               <span className="explanation-stat-value">{correctlySelectedCount} of {correctCount}</span>
             </div>
+            <div className="explanation-stat">
+              <span className="explanation-stat-label">Score:</span>
+              <span className="explanation-stat-value">{Math.round(answerResult.score * 100)}%</span>
+            </div>
           </div>
         </div>
       );
@@ -252,10 +323,17 @@ export const ExplanationComponent: React.FC<ExplanationComponentProps> = ({
     <div className={`explanation-component ${className}`}>
       <div className="explanation-component-content">
         {renderResultHeader()}
-        {renderSummary()}
-        {renderAnswerOptions()}
+        {answerResult.outputComparison
+          ? renderOutputDiff(answerResult.outputComparison)
+          : <>
+              {renderSummary()}
+              {renderAnswerOptions()}
+            </>}
         {renderCodeOutput()}
         {renderExplanation()}
+        {annotationService && (
+          <NotesPanelComponent questionId={question.id} annotationService={annotationService} />
+        )}
         <div className="explanation-desktop-nav">
           {renderNavigationButtons()}
         </div>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { parseMarkdown, type MarkdownInline } from '../utils/markdown';
+import './MarkdownComponent.css';
+
+/**
+ * Props interface for MarkdownComponent following Interface Segregation Principle
+ */
+export interface MarkdownComponentProps {
+  /** Markdown text to display */
+  text: string;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Renders inline runs of markdown
+ * @param inlines - Inline runs of a block
+ */
+const renderInlines = (inlines: MarkdownInline[]): React.ReactNode =>
+  inlines.map(({ kind, text }, index) => {
+    switch (kind) {
+      case 'strong':
+        return <strong key={index}>{text}</strong>;
+      case 'emphasis':
+        return <em key={index}>{text}</em>;
+      case 'code':
+        return <code key={index}>{text}</code>;
+      default:
+        return <React.Fragment key={index}>{text}</React.Fragment>;
+    }
+  });
+
+/**
+ * React component displaying user-written markdown.
+ * Text is rendered as React elements, never as HTML, so notes cannot inject markup.
+ */
+export const MarkdownComponent: React.FC<MarkdownComponentProps> = ({ text, className = '' }) => {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={`markdown ${className}`}>
+      {blocks.map((block, index) => {
+        switch (block.kind) {
+          case 'heading': {
+            // Note headings sit below the section titles of the page
+            const Heading = `h${Math.min(block.level + 4, 6)}` as 'h5' | 'h6';
+            return <Heading key={index}>{renderInlines(block.inlines)}</Heading>;
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInlines(item)}</li>)}
+              </List>
+            );
+          }
+          case 'code':
+            return <pre key={index}><code>{block.text}</code></pre>;
+          default:
+            return <p key={index}>{renderInlines(block.inlines)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownComponent;
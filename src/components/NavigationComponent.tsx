@@ -1,6 +1,8 @@
 import React from 'react';
 import type { IQuestionManager } from '../interfaces/services/IQuestionManager';
 import type { IAnswerManager } from '../interfaces/services/IAnswerManager';
+import type { IStateManager } from '../interfaces/services/IStateManager';
+import { QuestionMapComponent } from './QuestionMapComponent';
 import './NavigationComponent.css';
 
 /**
@@ -13,12 +15,21 @@ export interface NavigationComponentProps {
   /** Answer manager for handling answer state reset */
   answerManager: IAnswerManager;
   
+  /** State manager for bookmarks and the question map; without one both are hidden */
+  stateManager?: IStateManager;
+  
+  /** Index of the question on screen, so the controls follow navigation done elsewhere */
+  currentQuestionIndex?: number;
+  
   /** Callback when question is reset/redone */
   onQuestionReset?: () => void;
   
   /** Callback when moving to next question */
   onNextQuestion?: () => void;
   
+  /** Callback after moving back to the previous question or jumping to another one */
+  onQuestionChange?: () => void;
+  
   /** Optional CSS class name for styling */
   className?: string;
   
@@ -29,18 +40,26 @@ export interface NavigationComponentProps {
 /**
  * React component for question navigation controls.
  * Follows Single Responsibility Principle by focusing only on navigation actions.
- * Provides "Redo Question" and "Next Question" functionality.
+ * Provides "Previous", "Redo" and "Next" buttons, a go-to field and a collapsible question map.
  */
 export const NavigationComponent: React.FC<NavigationComponentProps> = ({
   questionManager,
   answerManager,
+  stateManager,
+  currentQuestionIndex,
   onQuestionReset,
   onNextQuestion,
+  onQuestionChange,
   className = '',
   onError
 }) => {
   const [isResetting, setIsResetting] = React.useState<boolean>(false);
   const [isNavigating, setIsNavigating] = React.useState<boolean>(false);
+  const [isMapOpen, setIsMapOpen] = React.useState<boolean>(false);
+  const [goToNumber, setGoToNumber] = React.useState<string>('');
+  const [goToError, setGoToError] = React.useState<string | null>(null);
+  // The state manager does not notify changes, so re-render after toggling a bookmark
+  const [, setBookmarkRevision] = React.useState<number>(0);
 
   /**
    * Handles the "Redo Question" action
@@ -107,18 +126,98 @@ export const NavigationComponent: React.FC<NavigationComponentProps> = ({
     }
   }, [questionManager, onNextQuestion, onError, isNavigating, isResetting]);
 
+  /**
+   * Moves with the given question manager call and reports the new question
+   * @param move - Navigation call; returns false if it did not move
+   * @param fallbackMessage - Error message used when the call throws a non-Error
+   */
+  const navigate = React.useCallback((move: () => boolean, fallbackMessage: string) => {
+    if (isNavigating || isResetting) {
+      return;
+    }
+
+    try {
+      setIsNavigating(true);
+
+      if (move() && onQuestionChange) {
+        onQuestionChange();
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(fallbackMessage);
+      if (onError) {
+        onError(error);
+      }
+    } finally {
+      setIsNavigating(false);
+    }
+  }, [onQuestionChange, onError, isNavigating, isResetting]);
+
+  /**
+   * Handles the "Previous" action
+   */
+  const handlePreviousQuestion = React.useCallback(() => {
+    navigate(() => questionManager.moveToPrevious(), 'Failed to move to previous question');
+  }, [navigate, questionManager]);
+
+  /**
+   * Jumps to a question by its zero-based index
+   */
+  const handleJumpTo = React.useCallback((index: number) => {
+    navigate(() => questionManager.moveTo(index), 'Failed to move to question');
+  }, [navigate, questionManager]);
+
+  /**
+   * Handles the go-to form, checking the question number first
+   */
+  const handleGoToSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+
+    const totalCount = questionManager.getTotalCount();
+    const questionNumber = Number(goToNumber);
+    if (goToNumber.trim() === '' || !Number.isInteger(questionNumber) || questionNumber < 1 || questionNumber > totalCount) {
+      setGoToError(`Enter a question number from 1 to ${totalCount}`);
+      return;
+    }
+
+    setGoToError(null);
+    setGoToNumber('');
+    handleJumpTo(questionNumber - 1);
+  };
+
+  /**
+   * Bookmarks the current question or removes its bookmark
+   */
+  const handleToggleBookmark = (): void => {
+    try {
+      const currentQuestion = questionManager.getCurrentQuestion();
+      if (!stateManager || !currentQuestion) {
+        throw new Error('No current question available to bookmark');
+      }
+
+      stateManager.setBookmarked(currentQuestion.id, !stateManager.isBookmarked(currentQuestion.id));
+      setBookmarkRevision(revision => revision + 1);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Failed to change bookmark');
+      if (onError) {
+        onError(error);
+      }
+    }
+  };
+
   /**
    * Gets the current question information for button states
    */
   const getQuestionInfo = React.useMemo(() => {
     try {
       const currentQuestion = questionManager.getCurrentQuestion();
-      const currentIndex = questionManager.getCurrentIndex();
+      // Prefer the index the parent is showing so the controls follow navigation done elsewhere
+      const currentIndex = currentQuestionIndex ?? questionManager.getCurrentIndex();
       const totalCount = questionManager.getTotalCount();
       const isLastQuestion = currentIndex >= totalCount - 1;
       
       return {
         hasCurrentQuestion: currentQuestion !== null,
+        isFirstQuestion: currentIndex <= 0,
         isLastQuestion,
         currentIndex: currentIndex + 1, // Convert to 1-based for display
         totalCount
@@ -131,12 +230,32 @@ export const NavigationComponent: React.FC<NavigationComponentProps> = ({
       
       return {
         hasCurrentQuestion: false,
+        isFirstQuestion: true,
         isLastQuestion: true,
         currentIndex: 0,
         totalCount: 0
       };
     }
-  }, [questionManager, onError]);
+  }, [questionManager, onError, currentQuestionIndex]);
+
+  /**
+   * Renders the previous question button
+   */
+  const renderPreviousButton = (): React.ReactElement => {
+    const canMovePrevious = getQuestionInfo.hasCurrentQuestion && !getQuestionInfo.isFirstQuestion && !isNavigating && !isResetting;
+    
+    return (
+      <button
+        className={`navigation-button navigation-button--previous ${canMovePrevious ? 'navigation-button--enabled' : 'navigation-button--disabled'}`}
+        onClick={handlePreviousQuestion}
+        disabled={!canMovePrevious}
+        aria-label={getQuestionInfo.isFirstQuestion ? 'No previous question' : 'Move to previous question'}
+      >
+        <span className="navigation-button-icon">←</span>
+        <span className="navigation-button-text">Previous</span>
+      </button>
+    );
+  };
 
   /**
    * Renders the redo question button
@@ -182,6 +301,101 @@ export const NavigationComponent: React.FC<NavigationComponentProps> = ({
     );
   };
 
+  /**
+   * Renders the bookmark toggle for the current question
+   */
+  const renderBookmarkButton = (): React.ReactElement | null => {
+    const currentQuestion = getQuestionInfo.hasCurrentQuestion ? questionManager.getCurrentQuestion() : null;
+    if (!stateManager || !currentQuestion) {
+      return null;
+    }
+
+    const isBookmarked = stateManager.isBookmarked(currentQuestion.id);
+
+    return (
+      <button
+        type="button"
+        className={`navigation-bookmark ${isBookmarked ? 'navigation-bookmark--active' : ''}`}
+        onClick={handleToggleBookmark}
+        aria-pressed={isBookmarked}
+      >
+        <span className="navigation-button-icon" aria-hidden="true">{isBookmarked ? '★' : '☆'}</span>
+        Bookmark
+      </button>
+    );
+  };
+
+  /**
+   * Renders the go-to field and the question map toggle
+   */
+  const renderJumpControls = (): React.ReactElement | null => {
+    if (!getQuestionInfo.hasCurrentQuestion) {
+      return null;
+    }
+
+    return (
+      <div className="navigation-jump">
+        <form className="navigation-goto" onSubmit={handleGoToSubmit} noValidate>
+          <label className="navigation-goto-label" htmlFor="navigation-goto-input">Go to</label>
+          <input
+            id="navigation-goto-input"
+            className="navigation-goto-input"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={getQuestionInfo.totalCount}
+            placeholder={`1–${getQuestionInfo.totalCount}`}
+            value={goToNumber}
+            onChange={event => setGoToNumber(event.target.value)}
+            aria-invalid={goToError !== null}
+            aria-describedby={goToError ? 'navigation-goto-error' : undefined}
+          />
+          <button type="submit" className="navigation-goto-button" disabled={isNavigating || isResetting}>
+            Go
+          </button>
+        </form>
+
+        {renderBookmarkButton()}
+
+        {stateManager && (
+          <button
+            type="button"
+            className="navigation-map-toggle"
+            onClick={() => setIsMapOpen(open => !open)}
+            aria-expanded={isMapOpen}
+            aria-controls="navigation-question-map"
+          >
+            {isMapOpen ? 'Hide question map' : 'Question map'}
+          </button>
+        )}
+
+        {goToError && (
+          <p id="navigation-goto-error" className="navigation-goto-error" role="alert">{goToError}</p>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * Renders the question map when it is expanded
+   */
+  const renderQuestionMap = (): React.ReactElement | null => {
+    if (!stateManager || !isMapOpen || !getQuestionInfo.hasCurrentQuestion) {
+      return null;
+    }
+
+    return (
+      <div id="navigation-question-map" className="navigation-question-map">
+        <QuestionMapComponent
+          questions={questionManager.getSessionQuestions()}
+          currentIndex={getQuestionInfo.currentIndex - 1}
+          stateManager={stateManager}
+          onSelect={handleJumpTo}
+        />
+      </div>
+    );
+  };
+
   /**
    * Renders the question progress indicator
    */
@@ -218,10 +432,14 @@ export const NavigationComponent: React.FC<NavigationComponentProps> = ({
         {renderProgressIndicator()}
         
         <div className="navigation-buttons">
+          {renderPreviousButton()}
           {renderRedoButton()}
           {renderNextButton()}
         </div>
         
+        {renderJumpControls()}
+        {renderQuestionMap()}
+        
         {/* Hidden descriptions for accessibility */}
         <div id="redo-button-description" className="sr-only">
           Reset the current question to its initial state and clear your answer
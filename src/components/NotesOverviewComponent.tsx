@@ -0,0 +1,153 @@
+import React from 'react';
+import type { IAnnotationService, QuestionNoteListing } from '../interfaces/services/IAnnotationService';
+import { MarkdownComponent } from './MarkdownComponent';
+import './NotesOverviewComponent.css';
+
+/**
+ * Props interface for NotesOverviewComponent following Interface Segregation Principle
+ */
+export interface NotesOverviewComponentProps {
+  /** Service holding the notes */
+  annotationService: IAnnotationService;
+
+  /** Callback when the question of a note is picked */
+  onSelect: (questionId: string) => void;
+
+  /** Callback to close the overview */
+  onClose: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * React component listing every personal note.
+ * Notes on questions that are no longer in the question bank are listed separately;
+ * they come back with their question if it is added again with the same ID.
+ */
+export const NotesOverviewComponent: React.FC<NotesOverviewComponentProps> = ({
+  annotationService,
+  onSelect,
+  onClose,
+  className = ''
+}) => {
+  const [listing, setListing] = React.useState<QuestionNoteListing | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  /**
+   * Loads the notes and their questions
+   */
+  const loadNotes = React.useCallback(async (): Promise<void> => {
+    try {
+      setListing(await annotationService.listNotes());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the notes');
+    }
+  }, [annotationService]);
+
+  React.useEffect(() => {
+    void loadNotes();
+  }, [loadNotes]);
+
+  /**
+   * Deletes a note whose question was removed
+   * @param questionId - ID of the removed question
+   */
+  const handleDelete = async (questionId: string): Promise<void> => {
+    try {
+      await annotationService.deleteNote(questionId);
+      await loadNotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the note');
+    }
+  };
+
+  /**
+   * Closes the overview on Escape
+   */
+  const handleKeyDown = (event: React.KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const isEmpty = listing !== null && listing.notes.length === 0 && listing.orphanedNotes.length === 0;
+
+  return (
+    <div
+      className={`notes-overview ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="My notes"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="notes-overview-header">
+        <h2 className="notes-overview-title">My Notes</h2>
+        <button type="button" className="notes-overview-close" onClick={onClose} aria-label="Close notes" autoFocus>
+          ✕
+        </button>
+      </div>
+
+      {error && <p className="notes-overview-error" role="alert">{error}</p>}
+      {isEmpty && (
+        <p className="notes-overview-empty">
+          No notes yet. Add one from the explanation of any question.
+        </p>
+      )}
+
+      {listing && listing.notes.length > 0 && (
+        <ul className="notes-overview-list">
+          {listing.notes.map(({ note, question }) => (
+            <li key={note.questionId} className="notes-overview-item">
+              <span className="notes-overview-meta">
+                {question.category} · {question.id} · {note.updatedAt.toLocaleDateString()}
+              </span>
+              <span className="notes-overview-question">{question.text}</span>
+              <MarkdownComponent text={note.text} />
+              <button
+                type="button"
+                className="notes-overview-action"
+                onClick={() => onSelect(question.id)}
+                aria-label={`Open question ${question.id}`}
+              >
+                Open question
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {listing && listing.orphanedNotes.length > 0 && (
+        <section className="notes-overview-orphaned" aria-labelledby="notes-overview-orphaned-title">
+          <h3 id="notes-overview-orphaned-title" className="notes-overview-section-title">
+            Notes on removed questions
+          </h3>
+          <p className="notes-overview-hint">
+            These questions are no longer in the question bank. Their notes come back if the questions return.
+          </p>
+          <ul className="notes-overview-list">
+            {listing.orphanedNotes.map(note => (
+              <li key={note.questionId} className="notes-overview-item notes-overview-item--orphaned">
+                <span className="notes-overview-meta">
+                  {note.questionId} · {note.updatedAt.toLocaleDateString()}
+                </span>
+                <MarkdownComponent text={note.text} />
+                <button
+                  type="button"
+                  className="notes-overview-action notes-overview-action--delete"
+                  onClick={() => void handleDelete(note.questionId)}
+                  aria-label={`Delete the note on ${note.questionId}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default NotesOverviewComponent;
@@ -0,0 +1,126 @@
+import React from 'react';
+import type { IAnnotationService, QuestionNote } from '../interfaces/services/IAnnotationService';
+import { MarkdownComponent } from './MarkdownComponent';
+import './NotesPanelComponent.css';
+
+/**
+ * Props interface for NotesPanelComponent following Interface Segregation Principle
+ */
+export interface NotesPanelComponentProps {
+  /** ID of the question the note belongs to */
+  questionId: string;
+
+  /** Service holding the notes */
+  annotationService: IAnnotationService;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * React component for the personal note of a question.
+ * Shows the saved note as markdown and switches to a text area to write or change it.
+ */
+export const NotesPanelComponent: React.FC<NotesPanelComponentProps> = ({
+  questionId,
+  annotationService,
+  className = ''
+}) => {
+  const [note, setNote] = React.useState<QuestionNote | null>(() => annotationService.getNote(questionId));
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const textareaId = `notes-panel-text-${questionId}`;
+
+  // Show the note of the new question when the question changes
+  React.useEffect(() => {
+    setNote(annotationService.getNote(questionId));
+    setIsEditing(false);
+    setError(null);
+  }, [annotationService, questionId]);
+
+  /**
+   * Opens the editor with the saved text
+   */
+  const handleEdit = (): void => {
+    setDraft(note?.text ?? '');
+    setError(null);
+    setIsEditing(true);
+  };
+
+  /**
+   * Runs a change to the note and shows the result, or why it failed
+   * @param change - Change to save
+   */
+  const applyChange = async (change: () => Promise<void>): Promise<void> => {
+    try {
+      await change();
+      setNote(annotationService.getNote(questionId));
+      setIsEditing(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the note');
+    }
+  };
+
+  /**
+   * Saves the draft; an empty draft deletes the note
+   */
+  const handleSave = (event: React.FormEvent): void => {
+    event.preventDefault();
+    void applyChange(() => annotationService.saveNote(questionId, draft));
+  };
+
+  return (
+    <section className={`notes-panel ${className}`} aria-labelledby={`${textareaId}-title`}>
+      <div className="notes-panel-header">
+        <h4 id={`${textareaId}-title`} className="notes-panel-title">My Notes</h4>
+        {!isEditing && (
+          <button type="button" className="notes-panel-button" onClick={handleEdit}>
+            {note ? 'Edit note' : 'Add note'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="notes-panel-error" role="alert">{error}</p>}
+
+      {isEditing ? (
+        <form className="notes-panel-form" onSubmit={handleSave}>
+          <label htmlFor={textareaId} className="notes-panel-label">
+            Note (markdown: **bold**, *italic*, `code`, lists and ``` code blocks)
+          </label>
+          <textarea
+            id={textareaId}
+            className="notes-panel-textarea"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={6}
+            autoFocus
+          />
+          <div className="notes-panel-actions">
+            <button type="submit" className="notes-panel-button notes-panel-button--primary">Save note</button>
+            <button type="button" className="notes-panel-button" onClick={() => setIsEditing(false)}>Cancel</button>
+            {note && (
+              <button
+                type="button"
+                className="notes-panel-button notes-panel-button--danger"
+                onClick={() => void applyChange(() => annotationService.deleteNote(questionId))}
+              >
+                Delete note
+              </button>
+            )}
+          </div>
+        </form>
+      ) : note ? (
+        <div className="notes-panel-note">
+          <MarkdownComponent text={note.text} />
+          <p className="notes-panel-updated">Saved {note.updatedAt.toLocaleString()}</p>
+        </div>
+      ) : (
+        <p className="notes-panel-empty">No note yet for this question.</p>
+      )}
+    </section>
+  );
+};
+
+export default NotesPanelComponent;
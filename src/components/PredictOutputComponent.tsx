@@ -0,0 +1,94 @@
+import React from 'react';
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import type { IAnswerManager } from '../interfaces/services/IAnswerManager';
+import './PredictOutputComponent.css';
+
+/**
+ * Props interface for PredictOutputComponent following Interface Segregation Principle
+ */
+export interface PredictOutputComponentProps {
+  /** Predict-output question being answered */
+  question: IQuestion;
+
+  /** Answer manager for submitting the typed output */
+  answerManager: IAnswerManager;
+
+  /** Callback when the output is submitted */
+  onAnswerSubmitted?: (isCorrect: boolean) => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+
+  /** Optional callback when component encounters an error */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * React component for typing the console output of a question's code.
+ * Follows Single Responsibility Principle by focusing only on output entry and submission.
+ */
+export const PredictOutputComponent: React.FC<PredictOutputComponentProps> = ({
+  question,
+  answerManager,
+  onAnswerSubmitted,
+  className = '',
+  onError
+}) => {
+  const [output, setOutput] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  // Start from an empty answer whenever the question changes
+  React.useEffect(() => {
+    setOutput('');
+  }, [question.id]);
+
+  /**
+   * Submits the typed output
+   */
+  const handleSubmit = (event: React.FormEvent): void => {
+    event.preventDefault();
+    if (output.trim() === '' || isSubmitting) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const result = answerManager.submitOutput(question.id, output);
+      onAnswerSubmitted?.(result.isCorrect);
+    } catch (err) {
+      onError?.(err instanceof Error ? err : new Error('Failed to submit output'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit = output.trim() !== '' && !isSubmitting;
+
+  return (
+    <form className={`predict-output-component ${className}`} onSubmit={handleSubmit}>
+      <label className="predict-output-label" htmlFor={`predict-output-${question.id}`}>
+        What does this code print?
+      </label>
+      <textarea
+        id={`predict-output-${question.id}`}
+        className="predict-output-input"
+        value={output}
+        onChange={event => setOutput(event.target.value)}
+        placeholder="Type the console output, one line per line printed"
+        rows={6}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+      />
+      <div className="predict-output-submit-section">
+        <button
+          type="submit"
+          className={`predict-output-submit ${canSubmit ? 'predict-output-submit--enabled' : 'predict-output-submit--disabled'}`}
+          disabled={!canSubmit}
+        >
+          {isSubmitting ? 'Submitting...' : 'Submit Output'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,261 @@
+import React from 'react';
+import type {
+  IProgressTransferService,
+  ProgressChangeCounts,
+  ProgressConflictKind,
+  ProgressImportPreview
+} from '../interfaces/services/IProgressTransferService';
+import { ValidationError } from '../errors/ValidationError';
+import './ProgressTransferComponent.css';
+
+/**
+ * Props interface for ProgressTransferComponent following Interface Segregation Principle
+ */
+export interface ProgressTransferComponentProps {
+  /** Service that exports and imports progress */
+  progressTransferService: IProgressTransferService;
+
+  /** Callback after an import was applied */
+  onImported?: (changes: ProgressChangeCounts) => void;
+
+  /** Callback to close the dialog */
+  onClose: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Label of each kind of progress
+ */
+const KIND_LABELS: Record<ProgressConflictKind, string> = {
+  answer: 'Answer',
+  note: 'Note',
+  review: 'Review schedule'
+};
+
+/**
+ * Describes the items an import adds or replaces
+ */
+const describeChanges = ({ answers, bookmarks, notes, reviews }: ProgressChangeCounts): string => {
+  const parts = [
+    [answers, 'answer'],
+    [bookmarks, 'bookmark'],
+    [notes, 'note'],
+    [reviews, 'review schedule']
+  ] as const;
+  const described = parts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}${count === 1 ? '' : 's'}`);
+
+  return described.length > 0 ? described.join(', ') : 'nothing new';
+};
+
+/**
+ * Formats when a conflicting item was recorded
+ */
+const formatTime = (date: Date | null): string => (date ? date.toLocaleString() : 'unknown time');
+
+/**
+ * Saves text as a file through a temporary download link
+ */
+const downloadFile = (fileName: string, contents: string): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads a picked file as text
+ */
+const readFile = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error ?? new Error('Failed to read the progress file'));
+  reader.readAsText(file);
+});
+
+/**
+ * React component for moving progress between devices.
+ * Exports progress as a JSON file; imports show what would change, including conflicts and
+ * questions missing from the question bank, and are only merged once confirmed.
+ */
+export const ProgressTransferComponent: React.FC<ProgressTransferComponentProps> = ({
+  progressTransferService,
+  onImported,
+  onClose,
+  className = ''
+}) => {
+  const [preview, setPreview] = React.useState<ProgressImportPreview | null>(null);
+  const [status, setStatus] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  /**
+   * Runs a step and shows why it failed
+   * @param step - Step to run
+   * @param fallbackMessage - Message for errors without one
+   */
+  const run = async (step: () => Promise<void>, fallbackMessage: string): Promise<void> => {
+    setIsBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      await step();
+    } catch (err) {
+      setError(err instanceof ValidationError
+        ? `${err.message}: ${err.validationErrors.slice(0, 3).join('; ')}`
+        : err instanceof Error ? err.message : fallbackMessage);
+    }
+    setIsBusy(false);
+  };
+
+  /**
+   * Downloads the progress as a JSON file named after today's date
+   */
+  const handleExport = (): Promise<void> => run(async () => {
+    const document = await progressTransferService.exportProgress();
+    downloadFile(`csharp-card-progress-${new Date().toISOString().slice(0, 10)}.json`, document);
+    setStatus('Progress exported.');
+  }, 'Failed to export progress');
+
+  /**
+   * Reads the picked file and shows what importing it would change
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setPreview(null);
+    void run(async () => {
+      setPreview(await progressTransferService.previewImport(await readFile(file)));
+    }, 'Failed to read the progress file');
+  };
+
+  /**
+   * Merges the previewed progress
+   */
+  const handleApply = (): void => {
+    if (!preview) {
+      return;
+    }
+
+    void run(async () => {
+      const changes = await progressTransferService.applyImport(preview);
+      setPreview(null);
+      setStatus(`Imported ${describeChanges(changes)}.`);
+      onImported?.(changes);
+    }, 'Failed to import progress');
+  };
+
+  /**
+   * Closes the dialog on Escape
+   */
+  const handleKeyDown = (event: React.KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className={`progress-transfer ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Move progress"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="progress-transfer-header">
+        <h2 className="progress-transfer-title">Move Progress</h2>
+        <button type="button" className="progress-transfer-close" onClick={onClose} aria-label="Close progress" autoFocus>
+          ✕
+        </button>
+      </div>
+
+      <p className="progress-transfer-hint">
+        Export your answers, bookmarks, notes and review schedules to a file, then import it on another device.
+        Imports are merged: for each question the most recent progress is kept.
+      </p>
+
+      <div className="progress-transfer-actions">
+        <button type="button" className="progress-transfer-button" onClick={() => void handleExport()} disabled={isBusy}>
+          Export progress
+        </button>
+        <label className="progress-transfer-button progress-transfer-file">
+          Import progress…
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            disabled={isBusy}
+            aria-label="Progress file to import"
+          />
+        </label>
+      </div>
+
+      {error && <p className="progress-transfer-error" role="alert">{error}</p>}
+      {status && <p className="progress-transfer-status" role="status">{status}</p>}
+
+      {preview && (
+        <section className="progress-transfer-preview" aria-labelledby="progress-transfer-preview-title">
+          <h3 id="progress-transfer-preview-title" className="progress-transfer-section-title">
+            Import from {preview.exportedAt.toLocaleString()}
+          </h3>
+          <p>This import adds or updates {describeChanges(preview.changes)}.</p>
+
+          {preview.conflicts.length > 0 && (
+            <>
+              <h4 className="progress-transfer-section-title">
+                {preview.conflicts.length} {preview.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+              </h4>
+              <ul className="progress-transfer-list" aria-label="Conflicts">
+                {preview.conflicts.map(conflict => (
+                  <li key={`${conflict.kind}-${conflict.questionId}`}>
+                    {KIND_LABELS[conflict.kind]} for <code>{conflict.questionId}</code>:{' '}
+                    {conflict.resolution === 'use-imported'
+                      ? `the imported one from ${formatTime(conflict.importedAt)} replaces this device's from ${formatTime(conflict.localAt)}`
+                      : `this device's from ${formatTime(conflict.localAt)} is kept over the imported one from ${formatTime(conflict.importedAt)}`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {preview.unknownQuestionIds.length > 0 && (
+            <>
+              <h4 className="progress-transfer-section-title">Questions not in the question bank</h4>
+              <p className="progress-transfer-hint">
+                Their progress is imported anyway and comes back if the questions are added again.
+              </p>
+              <ul className="progress-transfer-list" aria-label="Questions not in the question bank">
+                {preview.unknownQuestionIds.map(questionId => <li key={questionId}><code>{questionId}</code></li>)}
+              </ul>
+            </>
+          )}
+
+          <div className="progress-transfer-actions">
+            <button
+              type="button"
+              className="progress-transfer-button progress-transfer-button--primary"
+              onClick={handleApply}
+              disabled={isBusy}
+            >
+              Apply import
+            </button>
+            <button type="button" className="progress-transfer-button" onClick={() => setPreview(null)} disabled={isBusy}>
+              Cancel import
+            </button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ProgressTransferComponent;
@@ -0,0 +1,105 @@
+import React from 'react';
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import type { IStateManager } from '../interfaces/services/IStateManager';
+import './QuestionMapComponent.css';
+
+/**
+ * Props interface for QuestionMapComponent following Interface Segregation Principle
+ */
+export interface QuestionMapComponentProps {
+  /** Questions of the session, in session order */
+  questions: IQuestion[];
+
+  /** Zero-based index of the question on screen */
+  currentIndex: number;
+
+  /** State manager holding the answers and bookmarks */
+  stateManager: IStateManager;
+
+  /** Callback when a question is picked, with its zero-based index */
+  onSelect: (index: number) => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * How a question of the map was answered
+ */
+type QuestionMapStatus = 'unanswered' | 'correct' | 'incorrect';
+
+/**
+ * Legend entries, in display order
+ */
+const LEGEND: Array<{ modifier: string; label: string }> = [
+  { modifier: 'unanswered', label: 'Unanswered' },
+  { modifier: 'correct', label: 'Correct' },
+  { modifier: 'incorrect', label: 'Incorrect' },
+  { modifier: 'bookmarked', label: 'Bookmarked' }
+];
+
+/**
+ * Gets how a question was answered; answers that were reset count as unanswered
+ * @param stateManager - State manager holding the answers
+ * @param questionId - Unique identifier of the question
+ */
+const getStatus = (stateManager: IStateManager, questionId: string): QuestionMapStatus => {
+  const state = stateManager.getQuestionState(questionId);
+
+  if (!state?.isSubmitted) {
+    return 'unanswered';
+  }
+  return state.isCorrect ? 'correct' : 'incorrect';
+};
+
+/**
+ * React component showing every question of the session as a numbered cell.
+ * Follows Single Responsibility Principle by focusing only on presenting question statuses;
+ * moving to a picked question is left to the caller.
+ */
+export const QuestionMapComponent: React.FC<QuestionMapComponentProps> = ({
+  questions,
+  currentIndex,
+  stateManager,
+  onSelect,
+  className = ''
+}) => (
+  <nav className={`question-map ${className}`} aria-label="Question map">
+    <ol className="question-map-grid">
+      {questions.map((question, index) => {
+        const status = getStatus(stateManager, question.id);
+        const isBookmarked = stateManager.isBookmarked(question.id);
+        const isCurrent = index === currentIndex;
+
+        return (
+          <li key={question.id}>
+            <button
+              type="button"
+              className={[
+                'question-map-item',
+                `question-map-item--${status}`,
+                isBookmarked ? 'question-map-item--bookmarked' : '',
+                isCurrent ? 'question-map-item--current' : ''
+              ].filter(Boolean).join(' ')}
+              onClick={() => onSelect(index)}
+              aria-current={isCurrent ? 'step' : undefined}
+              aria-label={`Question ${index + 1}: ${status}${isBookmarked ? ', bookmarked' : ''}`}
+            >
+              {index + 1}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+
+    <ul className="question-map-legend" aria-hidden="true">
+      {LEGEND.map(({ modifier, label }) => (
+        <li key={modifier} className={`question-map-legend-item question-map-item--${modifier}`}>
+          {label}
+        </li>
+      ))}
+    </ul>
+  </nav>
+);
+
+export default QuestionMapComponent;
@@ -0,0 +1,199 @@
+import React from 'react';
+import type {
+  ISearchService,
+  SearchField,
+  SearchResults,
+  SearchSnippet
+} from '../interfaces/services/ISearchService';
+import './SearchPanelComponent.css';
+
+/**
+ * Props interface for SearchPanelComponent following Interface Segregation Principle
+ */
+export interface SearchPanelComponentProps {
+  /** Service that searches the question bank */
+  searchService: ISearchService;
+
+  /** Callback when a question is picked from the results */
+  onSelect: (questionId: string) => void;
+
+  /** Callback to close the panel */
+  onClose: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Label shown before a snippet from each field
+ */
+const FIELD_LABELS: Record<SearchField, string> = {
+  text: 'Question',
+  code: 'Code',
+  options: 'Options',
+  explanation: 'Explanation'
+};
+
+/**
+ * Most tags offered as facets; the rest are rarely useful for narrowing a search
+ */
+const MAX_TAG_FACETS = 12;
+
+/**
+ * Adds a value to a set, or removes it if present
+ */
+const toggleValue = (values: Set<string>, value: string): Set<string> => {
+  const next = new Set(values);
+  if (!next.delete(value)) {
+    next.add(value);
+  }
+  return next;
+};
+
+/**
+ * Renders a snippet with its matched words marked
+ */
+const renderHighlighted = ({ text, highlights }: SearchSnippet): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(({ start, end }, index) => {
+    parts.push(text.slice(position, start));
+    parts.push(<mark key={index}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return parts;
+};
+
+/**
+ * React component for searching the question bank.
+ * Results update as the user types, can be narrowed by category and tag, and show
+ * where each question matched; picking a result opens that question.
+ */
+export const SearchPanelComponent: React.FC<SearchPanelComponentProps> = ({
+  searchService,
+  onSelect,
+  onClose,
+  className = ''
+}) => {
+  const [query, setQuery] = React.useState('');
+  const [categories, setCategories] = React.useState<Set<string>>(() => new Set());
+  const [tags, setTags] = React.useState<Set<string>>(() => new Set());
+  const [results, setResults] = React.useState<SearchResults | null>(null);
+  const [isUnavailable, setIsUnavailable] = React.useState(false);
+
+  React.useEffect(() => {
+    let isCurrent = true;
+
+    searchService.search(query, { categories: [...categories], tags: [...tags] })
+      .then(nextResults => {
+        if (isCurrent) {
+          setResults(nextResults);
+          setIsUnavailable(false);
+        }
+      })
+      .catch(() => {
+        if (isCurrent) {
+          setIsUnavailable(true);
+        }
+      });
+
+    // Ignore results of queries the user has already typed past
+    return () => {
+      isCurrent = false;
+    };
+  }, [searchService, query, categories, tags]);
+
+  /**
+   * Closes the panel on Escape
+   */
+  const handleKeyDown = (event: React.KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const hasQuery = query.trim() !== '';
+
+  return (
+    <div
+      className={`search-panel ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Search questions"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="search-panel-header">
+        <input
+          type="search"
+          className="search-panel-input"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Search questions, options, explanations and code"
+          aria-label="Search query"
+          autoFocus
+        />
+        <button type="button" className="search-panel-close" onClick={onClose} aria-label="Close search">
+          ✕
+        </button>
+      </div>
+
+      {results && results.facets.categories.length > 0 && (
+        <div className="search-panel-facets" aria-label="Filter results">
+          {results.facets.categories.map(({ value, count }) => (
+            <button
+              key={`category-${value}`}
+              type="button"
+              className="search-facet"
+              aria-pressed={categories.has(value)}
+              onClick={() => setCategories(previous => toggleValue(previous, value))}
+            >
+              {value} <span className="search-facet-count">{count}</span>
+            </button>
+          ))}
+          {results.facets.tags.slice(0, MAX_TAG_FACETS).map(({ value, count }) => (
+            <button
+              key={`tag-${value}`}
+              type="button"
+              className="search-facet search-facet--tag"
+              aria-pressed={tags.has(value)}
+              onClick={() => setTags(previous => toggleValue(previous, value))}
+            >
+              #{value} <span className="search-facet-count">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="search-panel-status" role="status">
+        {isUnavailable && 'Search is unavailable right now.'}
+        {!isUnavailable && hasQuery && results && (results.totalHits === 0
+          ? 'No questions match.'
+          : `${results.totalHits} ${results.totalHits === 1 ? 'question' : 'questions'}` +
+            (results.totalHits > results.hits.length ? `, showing the best ${results.hits.length}` : ''))}
+      </p>
+
+      {!isUnavailable && results && results.hits.length > 0 && (
+        <ul className="search-panel-results">
+          {results.hits.map(({ question, snippets }) => (
+            <li key={question.id}>
+              <button type="button" className="search-result" onClick={() => onSelect(question.id)}>
+                <span className="search-result-meta">
+                  {question.category}{question.subcategory && ` / ${question.subcategory}`} · {question.id}
+                </span>
+                {snippets.map(snippet => (
+                  <span key={snippet.field} className={`search-snippet search-snippet--${snippet.field}`}>
+                    <span className="search-snippet-label">{FIELD_LABELS[snippet.field]}</span>
+                    <span className="search-snippet-text">{renderHighlighted(snippet)}</span>
+                  </span>
+                ))}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
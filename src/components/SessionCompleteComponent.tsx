@@ -0,0 +1,125 @@
+import React from 'react';
+import type { SessionAccuracy, SessionSummary } from '../interfaces/services/ISessionSummaryService';
+import { formatDuration } from '../utils/formatDuration';
+import './SessionCompleteComponent.css';
+
+/**
+ * Props interface for SessionCompleteComponent following Interface Segregation Principle
+ */
+export interface SessionCompleteComponentProps {
+  /** Results of the completed session */
+  summary: SessionSummary;
+
+  /** Callback to start a new session with only the incorrectly answered questions */
+  onReviewIncorrect: () => void;
+
+  /** Whether the review session is being prepared */
+  isStartingReview?: boolean;
+
+  /** Optional callback to go back to the start screen and pick other topics */
+  onChooseTopics?: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Formats credit earned with at most one decimal, e.g. 2.5 or 3
+ * @param score - Sum of question scores
+ */
+const formatScore = (score: number): string => String(Math.round(score * 10) / 10);
+
+/**
+ * Renders an accuracy table for one breakdown of the session
+ * @param caption - Table caption
+ * @param heading - Column heading for the group name
+ * @param rows - Accuracy per group
+ */
+const renderAccuracyTable = (caption: string, heading: string, rows: SessionAccuracy[]): React.ReactElement => (
+  <table className="session-complete-table">
+    <caption>{caption}</caption>
+    <thead>
+      <tr>
+        <th scope="col">{heading}</th>
+        <th scope="col">Correct</th>
+        <th scope="col">Accuracy</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.group}>
+          <th scope="row">{row.group}</th>
+          <td>{row.correct} / {row.answered}</td>
+          <td>{row.percentage}%</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * React component shown when the last question of a session has been completed.
+ * Follows Single Responsibility Principle by focusing only on presenting session results.
+ */
+export const SessionCompleteComponent: React.FC<SessionCompleteComponentProps> = ({
+  summary,
+  onReviewIncorrect,
+  isStartingReview = false,
+  onChooseTopics,
+  className = ''
+}) => {
+  const incorrectCount = summary.incorrectQuestionIds.length;
+
+  return (
+    <div className={`session-complete ${className}`} role="region" aria-label="Session complete">
+      <header className="session-complete-header">
+        <h2>Session complete</h2>
+        <p className="session-complete-score">
+          {summary.score === summary.correctCount
+            ? `${summary.correctCount} / ${summary.answeredCount} correct (${summary.scorePercentage}%)`
+            : `${formatScore(summary.score)} / ${summary.answeredCount} points (${summary.scorePercentage}%)`}
+        </p>
+        {summary.score !== summary.correctCount && (
+          <p className="session-complete-meta">
+            {summary.correctCount} fully correct; partially correct answers earn partial credit
+          </p>
+        )}
+        <p className="session-complete-meta">
+          Time taken: {formatDuration(summary.durationMs)}
+          {summary.answeredCount < summary.totalQuestions &&
+            ` · ${summary.totalQuestions - summary.answeredCount} not answered`}
+        </p>
+      </header>
+
+      <div className="session-complete-breakdowns">
+        {renderAccuracyTable('Accuracy by category', 'Category', summary.byCategory)}
+        {renderAccuracyTable('Accuracy by difficulty', 'Difficulty', summary.byDifficulty)}
+      </div>
+
+      <div className="session-complete-actions">
+        {incorrectCount > 0 ? (
+          <button
+            className="session-complete-button"
+            onClick={onReviewIncorrect}
+            disabled={isStartingReview}
+          >
+            {isStartingReview
+              ? 'Preparing review...'
+              : `Review ${incorrectCount} incorrect ${incorrectCount === 1 ? 'answer' : 'answers'}`}
+          </button>
+        ) : (
+          <p className="session-complete-perfect">No incorrect answers to review.</p>
+        )}
+        {onChooseTopics && (
+          <button
+            className="session-complete-button session-complete-button--secondary"
+            onClick={onChooseTopics}
+            disabled={isStartingReview}
+          >
+            Choose topics
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React from 'react';
+import type {
+  IShortcutService,
+  ShortcutAction,
+  ShortcutDefinition,
+  ShortcutScope
+} from '../interfaces/services/IShortcutService';
+import { ValidationError } from '../errors/ValidationError';
+import './ShortcutHelpComponent.css';
+
+/**
+ * Props interface for ShortcutHelpComponent following Interface Segregation Principle
+ */
+export interface ShortcutHelpComponentProps {
+  /** Registry holding the shortcuts and their keys */
+  shortcutService: IShortcutService;
+
+  /** View the overlay was opened from; its help key closes the overlay again */
+  scope: ShortcutScope;
+
+  /** Callback to close the overlay */
+  onClose: () => void;
+
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Heading of the shortcuts that work in each view
+ */
+const SCOPE_TITLES: Record<ShortcutScope, string> = {
+  question: 'While answering',
+  explanation: 'On the explanation'
+};
+
+/**
+ * Keys that only modify other keys; remapping waits for the key they modify
+ */
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/**
+ * Formats a key for display
+ */
+const formatKey = (key: string): string => {
+  if (key === ' ') {
+    return 'Space';
+  }
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+/**
+ * Gets the heading a shortcut is listed under
+ */
+const getGroupTitle = ({ scopes }: ShortcutDefinition): string =>
+  scopes.length === 1 ? SCOPE_TITLES[scopes[0]] : 'Anywhere';
+
+/**
+ * React component for the keyboard shortcut cheat-sheet.
+ * Lists every shortcut with its keys and lets the user bind a new key to any of them;
+ * the shortcut service saves the new mapping.
+ */
+export const ShortcutHelpComponent: React.FC<ShortcutHelpComponentProps> = ({
+  shortcutService,
+  scope,
+  onClose,
+  className = ''
+}) => {
+  const [bindings, setBindings] = React.useState(() => shortcutService.getBindings());
+  const [remappingAction, setRemappingAction] = React.useState<ShortcutAction | null>(null);
+  const [remapError, setRemapError] = React.useState<string | null>(null);
+
+  const groups = React.useMemo(() => {
+    const byTitle = new Map<string, ShortcutDefinition[]>();
+    shortcutService.getDefinitions().forEach(definition => {
+      const title = getGroupTitle(definition);
+      byTitle.set(title, [...(byTitle.get(title) ?? []), definition]);
+    });
+    return [...byTitle.entries()];
+  }, [shortcutService]);
+
+  /**
+   * Binds a key to an action and shows why if it cannot be used
+   */
+  const remap = async (action: ShortcutAction, key: string): Promise<void> => {
+    try {
+      await shortcutService.remap(action, [key]);
+      setRemapError(null);
+    } catch (err) {
+      setRemapError(err instanceof ValidationError
+        ? err.validationErrors.join('. ')
+        : err instanceof Error ? err.message : 'Failed to change the shortcut');
+    }
+    setBindings(shortcutService.getBindings());
+  };
+
+  /**
+   * Restores the default keys
+   */
+  const handleReset = async (): Promise<void> => {
+    setRemappingAction(null);
+    setRemapError(null);
+    try {
+      await shortcutService.resetBindings();
+    } catch (err) {
+      setRemapError(err instanceof Error ? err.message : 'Failed to restore the default shortcuts');
+    }
+    setBindings(shortcutService.getBindings());
+  };
+
+  /**
+   * Captures the new key while remapping; otherwise closes on Escape or the help key
+   */
+  const handleKeyDown = (event: React.KeyboardEvent): void => {
+    if (remappingAction) {
+      if (MODIFIER_KEYS.includes(event.key)) {
+        return;
+      }
+      event.preventDefault();
+      setRemappingAction(null);
+      if (event.key !== 'Escape') {
+        void remap(remappingAction, event.key);
+      }
+      return;
+    }
+
+    if (event.key === 'Escape' || shortcutService.getActionForKey(event.key, scope) === 'help') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className={`shortcut-help ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Keyboard shortcuts"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="shortcut-help-header">
+        <h2 className="shortcut-help-title">Keyboard Shortcuts</h2>
+        <button type="button" className="shortcut-help-close" onClick={onClose} aria-label="Close shortcuts" autoFocus>
+          ✕
+        </button>
+      </div>
+
+      <p className="shortcut-help-hint">
+        Shortcuts do nothing while you are typing in a text field. Choose Change and press a key to remap a shortcut.
+      </p>
+
+      {remapError && (
+        <p className="shortcut-help-error" role="alert">{remapError}</p>
+      )}
+
+      {groups.map(([title, definitions]) => (
+        <section key={title} className="shortcut-help-group">
+          <h3 className="shortcut-help-group-title">{title}</h3>
+          <ul className="shortcut-help-list">
+            {definitions.map(({ action, description }) => (
+              <li key={action} className="shortcut-help-item">
+                <span className="shortcut-help-description">{description}</span>
+                <span className="shortcut-help-keys">
+                  {remappingAction === action
+                    ? <span className="shortcut-help-waiting">Press a key…</span>
+                    : bindings[action].map(key => <kbd key={key}>{formatKey(key)}</kbd>)}
+                </span>
+                <button
+                  type="button"
+                  className="shortcut-help-remap"
+                  onClick={() => setRemappingAction(action)}
+                  aria-label={`Change the key to ${description.toLowerCase()}`}
+                >
+                  Change
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      <div className="shortcut-help-footer">
+        <button type="button" className="shortcut-help-reset" onClick={handleReset}>
+          Restore default keys
+        </button>
+      </div>
+    </div>
+  );
+};
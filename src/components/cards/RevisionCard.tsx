@@ -0,0 +1,151 @@
+import React from 'react';
+import type { Question } from '../../utils/types';
+import './RevisionCard.css';
+
+/**
+ * Props interface for RevisionCard following Interface Segregation Principle
+ */
+export interface RevisionCardProps {
+  /** Question shown on the card */
+  question: Question;
+  
+  /** Optional callback to move to the next card */
+  onNext?: () => void;
+  
+  /** Optional callback when the learner marks the card as known */
+  onKnown?: () => void;
+  
+  /** Optional callback when the learner marks the card as unknown */
+  onUnknown?: () => void;
+  
+  /** Optional CSS class name for styling */
+  className?: string;
+}
+
+/**
+ * Gets the text shown on the back of a card
+ * @param question - Question on the card
+ * @returns Answer text
+ */
+const getAnswerText = (question: Question): string => {
+  if (question.type === 'flip-card') {
+    return question.answer;
+  }
+  return question.options[question.correctAnswerIndex]?.text ?? '';
+};
+
+/**
+ * Presentational flip card for self-graded revision.
+ * Click or Space/Enter flips the card, K/U mark it known/unknown once revealed,
+ * and ArrowRight moves to the next card. The card unflips whenever the question changes.
+ */
+export const RevisionCard: React.FC<RevisionCardProps> = ({
+  question,
+  onNext,
+  onKnown,
+  onUnknown,
+  className = ''
+}) => {
+  // Track which question was flipped so a new question is always shown front-side first
+  const [flippedQuestionId, setFlippedQuestionId] = React.useState<string | null>(null);
+  const questionId = question?.id ?? null;
+  const isFlipped = questionId !== null && flippedQuestionId === questionId;
+
+  /**
+   * Toggles between the question and answer sides
+   */
+  const toggleFlip = React.useCallback((): void => {
+    if (questionId === null) {
+      return;
+    }
+    setFlippedQuestionId(current => (current === questionId ? null : questionId));
+  }, [questionId]);
+
+  /**
+   * Handles keyboard shortcuts on the card
+   */
+  const handleKeyDown = React.useCallback((event: React.KeyboardEvent<HTMLDivElement>): void => {
+    switch (event.key) {
+      case ' ':
+      case 'Enter':
+        event.preventDefault();
+        toggleFlip();
+        break;
+      case 'ArrowRight':
+        event.preventDefault();
+        onNext?.();
+        break;
+      case 'k':
+      case 'K':
+        if (isFlipped) {
+          onKnown?.();
+        }
+        break;
+      case 'u':
+      case 'U':
+        if (isFlipped) {
+          onUnknown?.();
+        }
+        break;
+    }
+  }, [toggleFlip, onNext, onKnown, onUnknown, isFlipped]);
+
+  const answerText = question ? getAnswerText(question) : '';
+  const cardLabel = question
+    ? `Revision card: ${isFlipped ? 'answer' : 'question'} side. Press Space to flip.`
+    : 'Revision card: no question available';
+
+  return (
+    <div className={`revision-card ${className}`}>
+      <div
+        className={`card-container ${isFlipped ? 'flipped' : ''}`}
+        role="button"
+        tabIndex={0}
+        aria-label={cardLabel}
+        aria-pressed={isFlipped}
+        onClick={toggleFlip}
+        onKeyDown={handleKeyDown}
+      >
+        {question ? (
+          <>
+            <div className="card-face card-front" aria-hidden={isFlipped}>
+              <span className="card-category">{question.category}</span>
+              <p className="card-question">{question.question}</p>
+              <span className="card-hint">Click or press Space to reveal the answer</span>
+            </div>
+            <div className="card-face card-back" aria-hidden={!isFlipped}>
+              <p className="card-answer">{answerText}</p>
+              {question.explanation && (
+                <p className="card-explanation">{question.explanation}</p>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="card-face card-front card-empty">
+            <p>No card available</p>
+          </div>
+        )}
+      </div>
+
+      <div className="revision-card-actions">
+        {isFlipped && onUnknown && (
+          <button type="button" className="revision-card-button unknown" onClick={onUnknown}>
+            Didn't know (U)
+          </button>
+        )}
+        {isFlipped && onKnown && (
+          <button type="button" className="revision-card-button known" onClick={onKnown}>
+            Knew it (K)
+          </button>
+        )}
+        {onNext && (
+          <button type="button" className="revision-card-button next" onClick={onNext}>
+            Next →
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionCard;
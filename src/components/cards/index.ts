@@ -1,5 +1,4 @@
 // Card components exports
 // Components under components/cards should remain presentation-first per cursor rules
 
-// Note: RevisionCard will be implemented following OOP principles
-// export * from './RevisionCard';
+export * from './RevisionCard';
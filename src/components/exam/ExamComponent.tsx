@@ -0,0 +1,306 @@
+import React from 'react';
+import type {
+  IExamSession,
+  ExamSummary,
+  ExamTimeLimitMode
+} from '../../interfaces/services/IExamSession';
+import { ExamSummaryComponent } from './ExamSummaryComponent';
+import { formatDuration } from '../../utils/formatDuration';
+import './ExamComponent.css';
+
+/**
+ * Props interface for ExamComponent following Interface Segregation Principle
+ */
+export interface ExamComponentProps {
+  /** Creates a fresh exam session for each exam */
+  createExamSession: () => IExamSession;
+
+  /** Callback to leave exam mode */
+  onExit: () => void;
+
+  /** How often the countdown is refreshed, in milliseconds (default: 250) */
+  tickIntervalMs?: number;
+
+  /** Optional callback when component encounters an error */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Countdown below which the timer is highlighted
+ */
+const LOW_TIME_WARNING_MS = 10_000;
+
+/**
+ * React component for the timed mock-interview exam.
+ * Moves through setup, the running exam and the results report; answers are
+ * recorded without feedback and the explanations are only revealed in the report.
+ */
+export const ExamComponent: React.FC<ExamComponentProps> = ({
+  createExamSession,
+  onExit,
+  tickIntervalMs = 250,
+  onError
+}) => {
+  const [session, setSession] = React.useState<IExamSession | null>(null);
+  const [summary, setSummary] = React.useState<ExamSummary | null>(null);
+  const [questionCount, setQuestionCount] = React.useState<number>(10);
+  const [timeLimitMode, setTimeLimitMode] = React.useState<ExamTimeLimitMode>('per-question');
+  const [timeLimitSeconds, setTimeLimitSeconds] = React.useState<number>(60);
+  const [setupError, setSetupError] = React.useState<string | null>(null);
+  const [isStarting, setIsStarting] = React.useState<boolean>(false);
+  const [selectedOptions, setSelectedOptions] = React.useState<number[]>([]);
+  const [isSubmitted, setIsSubmitted] = React.useState<boolean>(false);
+  const [, setTick] = React.useState<number>(0);
+
+  const reportError = React.useCallback((err: unknown, fallback: string) => {
+    const error = err instanceof Error ? err : new Error(fallback);
+    if (onError) {
+      onError(error);
+    }
+  }, [onError]);
+
+  /**
+   * Effect to drive the countdown while the exam is running
+   */
+  React.useEffect(() => {
+    if (!session || summary) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      session.checkTime();
+      if (session.isFinished()) {
+        setSummary(session.getSummary());
+      } else {
+        setTick(tick => tick + 1);
+      }
+    }, tickIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [session, summary, tickIntervalMs]);
+
+  /**
+   * Starts a new exam with the chosen settings
+   */
+  const handleStart = React.useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsStarting(true);
+    setSetupError(null);
+
+    try {
+      const examSession = createExamSession();
+      await examSession.start({ questionCount, timeLimitMode, timeLimitSeconds });
+      setSelectedOptions([]);
+      setIsSubmitted(false);
+      setSummary(null);
+      setSession(examSession);
+    } catch (err) {
+      setSetupError(err instanceof Error ? err.message : 'Failed to start exam');
+    } finally {
+      setIsStarting(false);
+    }
+  }, [createExamSession, questionCount, timeLimitMode, timeLimitSeconds]);
+
+  /**
+   * Toggles an option, allowing several selections for multi-answer questions
+   */
+  const handleOptionSelect = React.useCallback((optionIndex: number, allowMultiple: boolean) => {
+    setSelectedOptions(prev => {
+      if (prev.includes(optionIndex)) {
+        return prev.filter(index => index !== optionIndex);
+      }
+      return allowMultiple ? [...prev, optionIndex].sort((a, b) => a - b) : [optionIndex];
+    });
+  }, []);
+
+  /**
+   * Records the selected answer for the current question
+   */
+  const handleSubmit = React.useCallback(() => {
+    if (!session) {
+      return;
+    }
+
+    // Time may have run out since the last tick; that locks the question rather than failing
+    session.checkTime();
+
+    if (!session.isCurrentLocked()) {
+      try {
+        session.submitAnswer(selectedOptions);
+        setIsSubmitted(true);
+      } catch (err) {
+        reportError(err, 'Failed to submit exam answer');
+      }
+    }
+
+    if (session.isFinished()) {
+      setSummary(session.getSummary());
+    } else {
+      setTick(tick => tick + 1);
+    }
+  }, [session, selectedOptions, reportError]);
+
+  /**
+   * Moves to the next question, or finishes the exam after the last one
+   */
+  const handleNext = React.useCallback(() => {
+    if (!session) {
+      return;
+    }
+
+    try {
+      if (!session.moveToNext() || session.isFinished()) {
+        setSummary(session.finish());
+        return;
+      }
+      setSelectedOptions([]);
+      setIsSubmitted(false);
+    } catch (err) {
+      reportError(err, 'Failed to move to next exam question');
+    }
+  }, [session, reportError]);
+
+  /**
+   * Returns to the setup form for another exam
+   */
+  const handleRestart = React.useCallback(() => {
+    setSession(null);
+    setSummary(null);
+    setSelectedOptions([]);
+    setIsSubmitted(false);
+  }, []);
+
+  /**
+   * Renders the exam settings form
+   */
+  const renderSetup = (): React.ReactElement => (
+    <form className="exam-setup" onSubmit={handleStart} aria-label="Exam settings">
+      <h2>Mock interview</h2>
+      <p className="exam-setup-description">
+        Answer against the clock. Explanations are revealed when the exam ends.
+      </p>
+
+      <label className="exam-field">
+        Number of questions
+        <input
+          type="number"
+          min={1}
+          value={questionCount}
+          onChange={event => setQuestionCount(Number(event.target.value))}
+        />
+      </label>
+
+      <label className="exam-field">
+        Time limit applies to
+        <select
+          value={timeLimitMode}
+          onChange={event => setTimeLimitMode(event.target.value as ExamTimeLimitMode)}
+        >
+          <option value="per-question">Each question</option>
+          <option value="total">Whole exam</option>
+        </select>
+      </label>
+
+      <label className="exam-field">
+        Time limit (seconds)
+        <input
+          type="number"
+          min={1}
+          value={timeLimitSeconds}
+          onChange={event => setTimeLimitSeconds(Number(event.target.value))}
+        />
+      </label>
+
+      {setupError && <p className="exam-setup-error" role="alert">{setupError}</p>}
+
+      <div className="exam-actions">
+        <button type="submit" className="exam-button" disabled={isStarting}>
+          {isStarting ? 'Starting...' : 'Start exam'}
+        </button>
+        <button type="button" className="exam-button exam-button--secondary" onClick={onExit}>
+          Back to practice
+        </button>
+      </div>
+    </form>
+  );
+
+  /**
+   * Renders the current exam question with its countdown
+   */
+  const renderQuestion = (examSession: IExamSession): React.ReactElement | null => {
+    const question = examSession.getCurrentQuestion();
+    if (!question) {
+      return null;
+    }
+
+    const remainingMs = examSession.getRemainingMs();
+    const isLocked = examSession.isCurrentLocked();
+    const isLastQuestion = examSession.getCurrentIndex() >= examSession.getTotalCount() - 1;
+    const allowMultiple = question.hasMultipleCorrectAnswers();
+
+    return (
+      <div className="exam-question">
+        <header className="exam-question-header">
+          <span className="exam-progress">
+            Question {examSession.getCurrentIndex() + 1} of {examSession.getTotalCount()}
+          </span>
+          <span
+            className={`exam-timer ${remainingMs < LOW_TIME_WARNING_MS ? 'exam-timer--low' : ''}`}
+            role="timer"
+            aria-label="Time remaining"
+          >
+            {formatDuration(remainingMs)}
+          </span>
+        </header>
+
+        <p className="exam-question-text">{question.text}</p>
+        {question.codeExample && (
+          <pre className="exam-question-code"><code>{question.codeExample.code}</code></pre>
+        )}
+
+        <div className="exam-options" role="group" aria-label="Answer options">
+          {question.options.map((option, index) => (
+            <button
+              key={option.id}
+              className={`exam-option ${selectedOptions.includes(index) ? 'exam-option--selected' : ''}`}
+              aria-pressed={selectedOptions.includes(index)}
+              disabled={isLocked}
+              onClick={() => handleOptionSelect(index, allowMultiple)}
+            >
+              {option.text}
+            </button>
+          ))}
+        </div>
+
+        {isLocked && (
+          <p className="exam-locked" role="status">
+            {isSubmitted ? 'Answer recorded.' : "Time's up — this question is locked."}
+          </p>
+        )}
+
+        <div className="exam-actions">
+          <button
+            className="exam-button"
+            onClick={handleSubmit}
+            disabled={isLocked || selectedOptions.length === 0}
+          >
+            Submit answer
+          </button>
+          <button className="exam-button exam-button--secondary" onClick={handleNext}>
+            {isLastQuestion ? 'Finish exam' : 'Next question'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  if (summary) {
+    return <ExamSummaryComponent summary={summary} onRestart={handleRestart} onExit={onExit} />;
+  }
+
+  return (
+    <div className="exam-component">
+      {session ? renderQuestion(session) : renderSetup()}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { ExamQuestionResult, ExamQuestionStatus, ExamSummary } from '../../interfaces/services/IExamSession';
+import { formatDuration } from '../../utils/formatDuration';
+import './ExamComponent.css';
+
+/**
+ * Props interface for ExamSummaryComponent following Interface Segregation Principle
+ */
+export interface ExamSummaryComponentProps {
+  /** Results report of the finished exam */
+  summary: ExamSummary;
+
+  /** Callback to set up another exam */
+  onRestart: () => void;
+
+  /** Callback to leave exam mode */
+  onExit: () => void;
+}
+
+/**
+ * Label shown for each question outcome
+ */
+const STATUS_LABELS: Record<ExamQuestionStatus, string> = {
+  'answered': 'Answered',
+  'unanswered': 'Skipped',
+  'timed-out': 'Timed out'
+};
+
+/**
+ * Joins the option texts at the given indices for display
+ * @param result - Question result
+ * @param indices - Option indices
+ * @returns Display text, or a dash when nothing was chosen
+ */
+const describeOptions = (result: ExamQuestionResult, indices: number[]): string =>
+  indices.length > 0 ? indices.map(index => result.options[index]).join(', ') : '—';
+
+/**
+ * React component for the end-of-exam report.
+ * Shows the overall score, a per-category breakdown and every question with its explanation,
+ * which stay hidden while the exam is running.
+ */
+export const ExamSummaryComponent: React.FC<ExamSummaryComponentProps> = ({
+  summary,
+  onRestart,
+  onExit
+}) => (
+  <div className="exam-summary" role="region" aria-label="Exam results">
+    <header className="exam-summary-header">
+      <h2>Exam results</h2>
+      <p className="exam-summary-score">
+        {summary.correctCount} / {summary.totalQuestions} correct ({summary.scorePercentage}%)
+      </p>
+      <p className="exam-summary-meta">
+        Time taken: {formatDuration(summary.durationMs)}
+        {summary.timedOutCount > 0 && ` · ${summary.timedOutCount} timed out`}
+      </p>
+    </header>
+
+    <table className="exam-summary-categories">
+      <caption>Score by category</caption>
+      <thead>
+        <tr>
+          <th scope="col">Category</th>
+          <th scope="col">Correct</th>
+          <th scope="col">Score</th>
+        </tr>
+      </thead>
+      <tbody>
+        {summary.categoryScores.map(score => (
+          <tr key={score.category}>
+            <th scope="row">{score.category}</th>
+            <td>{score.correct} / {score.total}</td>
+            <td>{score.percentage}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <ol className="exam-summary-results">
+      {summary.results.map(result => (
+        <li
+          key={result.questionId}
+          className={`exam-result ${result.isCorrect ? 'exam-result--correct' : 'exam-result--incorrect'}`}
+        >
+          <p className="exam-result-question">{result.text}</p>
+          <p className="exam-result-status">
+            {STATUS_LABELS[result.status]}
+            {result.status === 'answered' && (result.isCorrect ? ' · Correct' : ' · Incorrect')}
+            {' · '}{formatDuration(result.timeSpentMs)}
+          </p>
+          <p>Your answer: {describeOptions(result, result.selectedAnswers)}</p>
+          <p>Correct answer: {describeOptions(result, result.correctAnswers)}</p>
+          <p className="exam-result-explanation">{result.explanation}</p>
+        </li>
+      ))}
+    </ol>
+
+    <div className="exam-actions">
+      <button className="exam-button" onClick={onRestart}>New exam</button>
+      <button className="exam-button exam-button--secondary" onClick={onExit}>Back to practice</button>
+    </div>
+  </div>
+);
@@ -0,0 +1,6 @@
+// Exam mode components
+export { ExamComponent } from './ExamComponent';
+export type { ExamComponentProps } from './ExamComponent';
+
+export { ExamSummaryComponent } from './ExamSummaryComponent';
+export type { ExamSummaryComponentProps } from './ExamSummaryComponent';
@@ -10,14 +10,50 @@ export type { QuestionComponentProps } from './QuestionComponent';
 export { AnswerComponent } from './AnswerComponent';
 export type { AnswerComponentProps } from './AnswerComponent';
 
+export { PredictOutputComponent } from './PredictOutputComponent';
+export type { PredictOutputComponentProps } from './PredictOutputComponent';
+
 export { ExplanationComponent } from './ExplanationComponent';
 export type { ExplanationComponentProps } from './ExplanationComponent';
 
 export { NavigationComponent } from './NavigationComponent';
 export type { NavigationComponentProps } from './NavigationComponent';
 
+export { QuestionMapComponent } from './QuestionMapComponent';
+export type { QuestionMapComponentProps } from './QuestionMapComponent';
+
+export { SessionCompleteComponent } from './SessionCompleteComponent';
+export type { SessionCompleteComponentProps } from './SessionCompleteComponent';
+
+export { CategoryPickerComponent } from './CategoryPickerComponent';
+export type { CategoryPickerComponentProps } from './CategoryPickerComponent';
+
+export { SearchPanelComponent } from './SearchPanelComponent';
+export type { SearchPanelComponentProps } from './SearchPanelComponent';
+
+export { ShortcutHelpComponent } from './ShortcutHelpComponent';
+export type { ShortcutHelpComponentProps } from './ShortcutHelpComponent';
+
+export { MarkdownComponent } from './MarkdownComponent';
+export type { MarkdownComponentProps } from './MarkdownComponent';
+
+export { NotesPanelComponent } from './NotesPanelComponent';
+export type { NotesPanelComponentProps } from './NotesPanelComponent';
+
+export { NotesOverviewComponent } from './NotesOverviewComponent';
+export type { NotesOverviewComponentProps } from './NotesOverviewComponent';
+
+export { ProgressTransferComponent } from './ProgressTransferComponent';
+export type { ProgressTransferComponentProps } from './ProgressTransferComponent';
+
+export { AnalyticsDashboardComponent } from './AnalyticsDashboardComponent';
+export type { AnalyticsDashboardComponentProps } from './AnalyticsDashboardComponent';
+
 // Card Components (presentation-first)
 export * from './cards';
 
 // Study Mode Components (with factories/registrations)
-export * from './study-modes';
\ No newline at end of file
+export * from './study-modes';
+
+// Exam Mode Components
+export * from './exam';
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { IAnswerResult, QuestionType } from '../../interfaces/domain/types';
+import type { IAnswerManager } from '../../interfaces/services/IAnswerManager';
+import type { IShortcutService } from '../../interfaces/services/IShortcutService';
+import type { IAnnotationService } from '../../interfaces/services/IAnnotationService';
+import type { IAnswerValidator } from '../../services/study-modes/IAnswerValidator';
+
+/**
+ * Props passed by the application shell to the active study mode
+ */
+export interface StudyModeProps {
+  /** Question being studied */
+  question: IQuestion;
+  
+  /** Answer manager for recording answers */
+  answerManager: IAnswerManager;
+  
+  /** Validator registered for the question type; modes that grade the answer themselves use it */
+  validator?: IAnswerValidator | null;
+  
+  /** Result of the submitted answer, or null while the question is unanswered */
+  answerResult: IAnswerResult | null;
+  
+  /** Callback after an answer has been recorded and should be explained */
+  onAnswerSubmitted: (isCorrect: boolean) => void;
+  
+  /** Callback to move to the next question */
+  onNextQuestion: () => void;
+  
+  /** Callback to reset and retry the current question */
+  onRedoQuestion: () => void;
+  
+  /** Callback when the study mode encounters an error */
+  onError: (error: Error) => void;
+  
+  /** Registry for the mode's keyboard shortcuts; without one the mode is mouse-only */
+  shortcutService?: IShortcutService;
+  
+  /** Personal notes; modes that explain answers show the note of the question with the explanation */
+  annotationService?: IAnnotationService;
+}
+
+/**
+ * Base class for study modes.
+ * A study mode decides how questions of one type are answered and reviewed.
+ * Follows Open/Closed Principle: new modes are added by registering them with StudyModeFactory.
+ */
+export abstract class AbstractStudyMode {
+  /** Question type this mode studies */
+  abstract readonly questionType: QuestionType;
+  
+  /** Human-readable mode name */
+  abstract readonly displayName: string;
+  
+  /**
+   * Renders the answer area for a question
+   * @param props - Study mode props
+   * @returns Rendered study mode
+   */
+  abstract render(props: StudyModeProps): React.ReactElement;
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+import { AbstractStudyMode, type StudyModeProps } from './AbstractStudyMode';
+import { FlipCardStudyView } from './FlipCardStudyView';
+
+/**
+ * Study mode for flip cards: reveal the answer, then self-grade as known or unknown.
+ */
+export class FlipCardStudyMode extends AbstractStudyMode {
+  readonly questionType = 'flip-card' as const;
+  readonly displayName = 'Flip cards';
+  
+  /**
+   * Renders the revision card for a flip-card question
+   * @param props - Study mode props
+   * @returns Rendered study mode
+   */
+  render(props: StudyModeProps): React.ReactElement {
+    return <FlipCardStudyView {...props} />;
+  }
+}
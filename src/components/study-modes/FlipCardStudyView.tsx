@@ -0,0 +1,53 @@
+import React from 'react';
+import { RevisionCard } from '../cards/RevisionCard';
+import { isFlipCardQuestion } from '../../interfaces/domain/IFlipCardQuestion';
+import { toStudyQuestion } from '../../utils/questionAdapters';
+import type { StudyModeProps } from './AbstractStudyMode';
+
+/**
+ * Container connecting the presentational RevisionCard to the flip-card validator and the answer manager
+ */
+export const FlipCardStudyView: React.FC<StudyModeProps> = ({
+  question,
+  answerManager,
+  validator,
+  onNextQuestion,
+  onError
+}) => {
+  const shownAt = React.useRef(Date.now());
+
+  React.useEffect(() => {
+    shownAt.current = Date.now();
+  }, [question.id]);
+
+  /**
+   * Grades the self-assessment with the registered validator, records it and moves on to the next card
+   */
+  const recordAssessment = React.useCallback((isKnown: boolean): void => {
+    try {
+      const result = validator?.validateAnswer(toStudyQuestion(question), {
+        questionId: question.id,
+        timestamp: new Date(),
+        timeSpent: Date.now() - shownAt.current,
+        userAnswer: { known: isKnown }
+      });
+      answerManager.recordSelfAssessment(question.id, result?.isCorrect ?? isKnown);
+      onNextQuestion();
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error('Failed to record self-assessment'));
+    }
+  }, [answerManager, validator, question, onNextQuestion, onError]);
+
+  if (!isFlipCardQuestion(question)) {
+    return <div className="app-column-error">Question {question.id} is not a flip card</div>;
+  }
+
+  return (
+    <RevisionCard
+      question={toStudyQuestion(question)}
+      onKnown={() => recordAssessment(true)}
+      onUnknown={() => recordAssessment(false)}
+      onNext={onNextQuestion}
+    />
+  );
+};
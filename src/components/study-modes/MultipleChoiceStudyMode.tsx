@@ -0,0 +1,45 @@
+import React from 'react';
+import { AnswerComponent } from '../AnswerComponent';
+import { ExplanationComponent } from '../ExplanationComponent';
+import { AbstractStudyMode, type StudyModeProps } from './AbstractStudyMode';
+
+/**
+ * Study mode for multiple-choice questions:
+ * option selection first, then the explanation once an answer is submitted.
+ */
+export class MultipleChoiceStudyMode extends AbstractStudyMode {
+  readonly questionType = 'multiple-choice' as const;
+  readonly displayName = 'Multiple choice';
+  
+  /**
+   * Renders the answer options or, after submission, the explanation
+   * @param props - Study mode props
+   * @returns Rendered study mode
+   */
+  render(props: StudyModeProps): React.ReactElement {
+    const { question, answerManager, answerResult } = props;
+    
+    if (answerResult) {
+      return (
+        <ExplanationComponent
+          question={question}
+          answerResult={answerResult}
+          onRedoQuestion={props.onRedoQuestion}
+          onNextQuestion={props.onNextQuestion}
+          annotationService={props.annotationService}
+          onError={props.onError}
+        />
+      );
+    }
+    
+    return (
+      <AnswerComponent
+        question={question}
+        answerManager={answerManager}
+        onAnswerSubmitted={props.onAnswerSubmitted}
+        onError={props.onError}
+        shortcutService={props.shortcutService}
+      />
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { PredictOutputComponent } from '../PredictOutputComponent';
+import { ExplanationComponent } from '../ExplanationComponent';
+import { AbstractStudyMode, type StudyModeProps } from './AbstractStudyMode';
+
+/**
+ * Study mode for predict-output questions:
+ * type the console output first, then the explanation with a line-by-line diff once it is submitted.
+ */
+export class PredictOutputStudyMode extends AbstractStudyMode {
+  readonly questionType = 'predict-output' as const;
+  readonly displayName = 'Predict the output';
+  
+  /**
+   * Renders the output entry or, after submission, the explanation
+   * @param props - Study mode props
+   * @returns Rendered study mode
+   */
+  render(props: StudyModeProps): React.ReactElement {
+    const { question, answerManager, answerResult } = props;
+    
+    if (answerResult) {
+      return (
+        <ExplanationComponent
+          question={question}
+          answerResult={answerResult}
+          onRedoQuestion={props.onRedoQuestion}
+          onNextQuestion={props.onNextQuestion}
+          annotationService={props.annotationService}
+          onError={props.onError}
+        />
+      );
+    }
+    
+    return (
+      <PredictOutputComponent
+        question={question}
+        answerManager={answerManager}
+        onAnswerSubmitted={props.onAnswerSubmitted}
+        onError={props.onError}
+      />
+    );
+  }
+}
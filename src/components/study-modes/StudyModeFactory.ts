@@ -0,0 +1,88 @@
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { QuestionType } from '../../interfaces/domain/types';
+import type { IAnswerValidator } from '../../services/study-modes/IAnswerValidator';
+import { ValidatorFactory } from '../../services/study-modes/ValidatorFactory';
+import type { AbstractStudyMode } from './AbstractStudyMode';
+import { MultipleChoiceStudyMode } from './MultipleChoiceStudyMode';
+import { FlipCardStudyMode } from './FlipCardStudyMode';
+import { PredictOutputStudyMode } from './PredictOutputStudyMode';
+
+/**
+ * Question type assumed for questions that do not declare one,
+ * matching how the question parser treats untyped data.
+ */
+const DEFAULT_QUESTION_TYPE: QuestionType = 'multiple-choice';
+
+/**
+ * Registry of study modes keyed by question type.
+ * The application shell asks the factory for the mode matching the current question,
+ * so adding a question type only requires registering a new mode.
+ * Sits on top of the validator registry: each mode is handed the validator registered for its type.
+ */
+export class StudyModeFactory {
+  private readonly modes = new Map<QuestionType, AbstractStudyMode>();
+  
+  /**
+   * Creates a new StudyModeFactory
+   * @param validatorFactory - Registry of answer validators by question type
+   */
+  constructor(private readonly validatorFactory: ValidatorFactory = new ValidatorFactory()) {}
+  
+  /**
+   * Registers (or replaces) the study mode for its question type
+   * @param mode - Study mode to register
+   */
+  register(mode: AbstractStudyMode): void {
+    this.modes.set(mode.questionType, mode);
+  }
+  
+  /**
+   * Gets the study mode for a question
+   * @param question - Question to study
+   * @returns Matching study mode or null if none is registered
+   */
+  getStudyMode(question: IQuestion): AbstractStudyMode | null {
+    return this.modes.get(question.type ?? DEFAULT_QUESTION_TYPE) ?? null;
+  }
+  
+  /**
+   * Gets the validator registered for a question's type
+   * @param question - Question to validate
+   * @returns New validator, or null if the registry has none for the question type
+   */
+  getValidator(question: IQuestion): IAnswerValidator | null {
+    const type = this.validatorFactory.getSupportedTypes()
+      .find(supported => supported === (question.type ?? DEFAULT_QUESTION_TYPE));
+    return type ? this.validatorFactory.createValidator(type) : null;
+  }
+  
+  /**
+   * Gets every question type with a registered study mode
+   * @returns Supported question types
+   */
+  getSupportedTypes(): QuestionType[] {
+    return Array.from(this.modes.keys());
+  }
+  
+  /**
+   * Checks whether a question type has a registered study mode
+   * @param type - Question type
+   * @returns True if supported
+   */
+  isSupported(type: QuestionType): boolean {
+    return this.modes.has(type);
+  }
+}
+
+/**
+ * Creates a factory with the built-in study modes registered
+ * @param validatorFactory - Registry of answer validators by question type
+ * @returns Study mode factory
+ */
+export function createDefaultStudyModeFactory(validatorFactory: ValidatorFactory = new ValidatorFactory()): StudyModeFactory {
+  const factory = new StudyModeFactory(validatorFactory);
+  factory.register(new MultipleChoiceStudyMode());
+  factory.register(new FlipCardStudyMode());
+  factory.register(new PredictOutputStudyMode());
+  return factory;
+}
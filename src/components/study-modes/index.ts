@@ -1,6 +1,8 @@
 // Study mode components exports
 // Study modes live in src/components/study-modes with factories/registrations per cursor rules
 
-// Note: Components will be implemented following OOP principles and SOLID design
-// export * from './AbstractStudyMode';
-// export * from './StudyModeFactory';
+export * from './AbstractStudyMode';
+export * from './MultipleChoiceStudyMode';
+export * from './FlipCardStudyMode';
+export * from './PredictOutputStudyMode';
+export * from './StudyModeFactory';
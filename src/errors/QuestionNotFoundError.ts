@@ -7,7 +7,7 @@ export class QuestionNotFoundError extends ApplicationError {
   readonly code = 'QUESTION_NOT_FOUND';
   readonly statusCode = 404;
   
-  constructor(questionId: string, cause?: Error) {
+  constructor(public readonly questionId: string, cause?: Error) {
     super(`Question with id ${questionId} not found`, cause);
   }
 }
\ No newline at end of file
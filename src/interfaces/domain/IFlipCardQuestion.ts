@@ -0,0 +1,22 @@
+import { IQuestion } from './IQuestion';
+
+/**
+ * Question studied by revealing its answer and self-grading recall.
+ * Flip cards have no answer options; the learner marks them as known or unknown.
+ */
+export interface IFlipCardQuestion extends IQuestion {
+  /** Type discriminator for flip-card questions */
+  readonly type: 'flip-card';
+  
+  /** Answer revealed on the back of the card */
+  readonly answer: string;
+}
+
+/**
+ * Checks whether a question is a flip card
+ * @param question - Question to check
+ * @returns True if the question is a flip card
+ */
+export function isFlipCardQuestion(question: IQuestion): question is IFlipCardQuestion {
+  return question.type === 'flip-card';
+}
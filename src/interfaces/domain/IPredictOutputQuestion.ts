@@ -0,0 +1,26 @@
+import { ICodeExample } from './ICodeExample';
+import { IQuestion } from './IQuestion';
+
+/**
+ * Question answered by typing the console output of its code example.
+ * Predict-output questions have no answer options; the typed output is compared with the expected one.
+ */
+export interface IPredictOutputQuestion extends IQuestion {
+  /** Type discriminator for predict-output questions */
+  readonly type: 'predict-output';
+
+  /** Code whose output is predicted */
+  readonly codeExample: ICodeExample;
+
+  /** Console output the code produces */
+  readonly expectedOutput: string;
+}
+
+/**
+ * Checks whether a question asks for the output of its code
+ * @param question - Question to check
+ * @returns True if the question is a predict-output question
+ */
+export function isPredictOutputQuestion(question: IQuestion): question is IPredictOutputQuestion {
+  return question.type === 'predict-output';
+}
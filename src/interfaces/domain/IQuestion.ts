@@ -1,6 +1,6 @@
 import { ICodeExample } from './ICodeExample';
 import { IOption } from './IOption';
-import { QuestionDifficulty } from './types';
+import { QuestionDifficulty, QuestionType } from './types';
 
 /**
  * Core interface for all question types in the application.
@@ -10,6 +10,9 @@ export interface IQuestion {
   /** Unique identifier for the question */
   readonly id: string;
   
+  /** Type of the question, used to pick how it is studied */
+  readonly type: QuestionType;
+  
   /** The main question text */
   readonly text: string;
   
@@ -22,9 +25,18 @@ export interface IQuestion {
   /** Category classification for the question */
   readonly category: string;
   
+  /** Subcategory within the category (empty when not specified) */
+  readonly subcategory: string;
+  
+  /** Topic tags for the question */
+  readonly tags: string[];
+  
   /** Difficulty level of the question */
   readonly difficulty: QuestionDifficulty;
   
+  /** Fine-grained difficulty on the 1-10 scale */
+  readonly difficultyLevel: number;
+  
   /** Detailed explanation of the correct answer */
   readonly explanation: string;
   
@@ -2,10 +2,17 @@
 export { IQuestion } from './IQuestion';
 export { ICodeExample } from './ICodeExample';
 export { IOption } from './IOption';
+export { IFlipCardQuestion, isFlipCardQuestion } from './IFlipCardQuestion';
+export { IPredictOutputQuestion, isPredictOutputQuestion } from './IPredictOutputQuestion';
 
 // Domain types and state interfaces
 export {
   QuestionDifficulty,
+  QuestionType,
+  IQuestionMetadata,
+  OutputDiffLineKind,
+  IOutputDiffLine,
+  IOutputComparison,
   IAnswerResult,
   IQuestionState,
   IApplicationState
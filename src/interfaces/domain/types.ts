@@ -3,6 +3,53 @@
  */
 export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
 
+/**
+ * Enumeration of supported question types
+ */
+export type QuestionType = 'multiple-choice' | 'flip-card' | 'predict-output';
+
+/**
+ * Optional classification metadata carried by a question
+ */
+export interface IQuestionMetadata {
+  /** Subcategory within the question's category */
+  subcategory?: string;
+  
+  /** Free-form topic tags */
+  tags?: string[];
+  
+  /** Fine-grained difficulty on the 1-10 scale used by the question data */
+  difficultyLevel?: number;
+}
+
+/**
+ * How a line of typed output compares with the expected output:
+ * present in both, expected but not typed, or typed but not expected
+ */
+export type OutputDiffLineKind = 'match' | 'missing' | 'unexpected';
+
+/**
+ * One line of a line-by-line comparison of typed and expected output
+ */
+export interface IOutputDiffLine {
+  /** How the line compares */
+  kind: OutputDiffLineKind;
+  
+  /** Line as expected, or as typed for unexpected lines */
+  text: string;
+}
+
+/**
+ * Comparison of the output typed for a predict-output question with the expected output
+ */
+export interface IOutputComparison {
+  /** Whether the outputs are equal after normalization */
+  isMatch: boolean;
+  
+  /** Both outputs merged line by line, in order */
+  lines: IOutputDiffLine[];
+}
+
 /**
  * Result of answer validation and submission
  */
@@ -10,6 +57,9 @@ export interface IAnswerResult {
   /** Whether the submitted answer is correct */
   isCorrect: boolean;
   
+  /** Credit earned, from 0 (none) to 1 (fully correct) */
+  score: number;
+  
   /** Array of indices representing the correct answers */
   correctAnswers: number[];
   
@@ -18,21 +68,36 @@ export interface IAnswerResult {
   
   /** Array of indices representing the user's selected answers */
   selectedAnswers: number[];
+  
+  /** Output typed for a predict-output question */
+  submittedOutput?: string;
+  
+  /** Line-by-line comparison of the typed output with the expected output */
+  outputComparison?: IOutputComparison;
 }
 
 /**
  * State information for a specific question
  */
 export interface IQuestionState {
-  /** Array of indices representing selected answer options */
+  /** Array of indices representing selected answer options, in the option order shown when answering */
   selectedAnswers: number[];
   
+  /** IDs of the selected options; unlike the indices, they stay valid when the options are reshuffled */
+  selectedOptionIds?: string[];
+  
   /** Whether the question has been submitted */
   isSubmitted: boolean;
   
   /** Whether the submitted answer was correct */
   isCorrect: boolean;
   
+  /** Credit earned by the submitted answer, from 0 (none) to 1 (fully correct) */
+  score: number;
+  
+  /** Output typed for a predict-output question */
+  submittedOutput?: string;
+  
   /** Timestamp when the answer was submitted */
   submittedAt?: Date;
 }
@@ -47,6 +112,9 @@ export interface IApplicationState {
   /** Map of question IDs to their individual states */
   questionStates: Map<string, IQuestionState>;
   
+  /** IDs of the questions the user bookmarked */
+  bookmarkedQuestionIds: Set<string>;
+  
   /** Whether the application has been properly initialized */
   isInitialized: boolean;
   
@@ -1,7 +1,8 @@
 /**
  * Raw question data structure as it appears in JSON files.
  * Represents the external data format before transformation to domain models.
- * Supports both multiple-choice and flip-card question types.
+ * Supports multiple-choice, flip-card and predict-output question types;
+ * predict-output questions take their expected output from codeExample.output.
  */
 export interface RawQuestionData {
   id: string;
@@ -57,6 +58,74 @@ export interface RawQuestionFile {
   questions: RawQuestionData[];
 }
 
+/**
+ * Raw subcategory entry as it appears in the category manifest.
+ * The file path is relative to the data root (e.g. "questions/basics/variables.json").
+ */
+export interface RawSubcategoryData {
+  name: string;
+  description: string;
+  file: string;
+  questionCount: number;
+  avgDifficulty: number;
+}
+
+/**
+ * Raw category entry as it appears in the category manifest.
+ */
+export interface RawCategoryData {
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  difficultyRange: [number, number];
+  estimatedTimeMinutes: number;
+  subcategories: Record<string, RawSubcategoryData>;
+}
+
+/**
+ * Raw category manifest structure (metadata/categories.json).
+ * Lists every category and the question file backing each subcategory.
+ */
+export interface RawCategoryManifest {
+  version: number;
+  lastUpdated: string;
+  categories: Record<string, RawCategoryData>;
+}
+
+/**
+ * Question file referenced by the category manifest
+ */
+export interface ManifestQuestionFile {
+  /** Category key from the manifest */
+  category: string;
+  
+  /** Subcategory key from the manifest */
+  subcategory: string;
+  
+  /** Resolved path of the question file */
+  filePath: string;
+}
+
+/**
+ * Manifest question file that could not be found
+ */
+export interface MissingQuestionFile extends ManifestQuestionFile {
+  /** Why the file is considered missing */
+  reason: string;
+}
+
+/**
+ * Result of discovering question files through the category manifest
+ */
+export interface QuestionFileDiscovery {
+  /** Files listed in the manifest that exist */
+  files: ManifestQuestionFile[];
+  
+  /** Files listed in the manifest that could not be found, one entry per subcategory */
+  missing: MissingQuestionFile[];
+}
+
 /**
  * Interface for loading raw question data from JSON files.
  * Abstracts the file system access and JSON parsing operations.
@@ -80,17 +149,26 @@ export interface IQuestionLoader {
   loadFromMultipleJson(filePaths: string[]): Promise<RawQuestionData[]>;
   
   /**
-   * Discovers and loads all question files from a directory
-   * @param directoryPath - Path to directory containing question JSON files
+   * Loads all question files listed in the category manifest under a data root
+   * @param directoryPath - Data root containing metadata/categories.json
    * @returns Promise resolving to array of raw question data from all discovered files
-   * @throws DataLoadError if directory cannot be read or files cannot be parsed
+   * @throws DataLoadError if the manifest cannot be read, no listed file exists, or files cannot be parsed
    */
   loadFromDirectory(directoryPath: string): Promise<RawQuestionData[]>;
 
   /**
-   * Discovers question files by testing for their existence
-   * @param basePath - Base path to search for question files
-   * @returns Promise resolving to array of existing file paths
+   * Discovers question files from the category manifest and checks that each one exists
+   * @param basePath - Data root containing metadata/categories.json
+   * @returns Promise resolving to the existing files and the missing ones per subcategory
+   * @throws DataLoadError if the manifest cannot be read or parsed
+   */
+  discoverQuestionFiles(basePath: string): Promise<QuestionFileDiscovery>;
+
+  /**
+   * Loads the category manifest from a data root
+   * @param basePath - Data root containing metadata/categories.json
+   * @returns Promise resolving to the raw category manifest
+   * @throws DataLoadError if the manifest cannot be read or parsed
    */
-  discoverQuestionFiles(basePath: string): Promise<string[]>;
+  loadManifest(basePath: string): Promise<RawCategoryManifest>;
 }
\ No newline at end of file
@@ -1,4 +1,60 @@
 import { IQuestion } from '../domain/IQuestion';
+import { QuestionType } from '../domain/types';
+
+/**
+ * Progress information emitted after each question file is loaded
+ */
+export interface QuestionFileLoadedEvent {
+  /** Path of the file that was just loaded */
+  filePath: string;
+  
+  /** Number of files loaded so far, including this one */
+  filesLoaded: number;
+  
+  /** Total number of files being loaded */
+  totalFiles: number;
+  
+  /** Number of raw questions read from this file */
+  questionsInFile: number;
+}
+
+/**
+ * How a deck filter matches question tags
+ * - 'any': the question has at least one of the requested tags
+ * - 'all': the question has every requested tag
+ */
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * Criteria for building a practice deck. Every criterion that is set must match;
+ * omitted criteria do not restrict the deck. Empty types, categories or subcategories
+ * are ignored, while empty tags or ids match no question.
+ */
+export interface QuestionDeckFilter {
+  /** Question types to include */
+  types?: QuestionType[];
+  
+  /** Categories to include */
+  categories?: string[];
+  
+  /** Subcategories to include, as "category/subcategory" keys */
+  subcategories?: string[];
+  
+  /** Tags to match, combined according to tagMatch */
+  tags?: string[];
+  
+  /** How tags are matched (default: 'any') */
+  tagMatch?: TagMatchMode;
+  
+  /** Inclusive range on the 1-10 difficulty scale */
+  difficultyRange?: {
+    min?: number;
+    max?: number;
+  };
+  
+  /** Explicit question IDs to include */
+  ids?: string[];
+}
 
 /**
  * Repository interface for question data access operations.
@@ -13,6 +69,24 @@ export interface IQuestionRepository {
    */
   loadQuestions(): Promise<IQuestion[]>;
   
+  /**
+   * Replaces the configured question paths and loads questions from exactly those files
+   * @param questionPaths - Paths of the question files to load
+   * @param onFileLoaded - Optional callback invoked after each file is loaded
+   * @returns Promise resolving to array of all questions from the given files
+   * @throws DataLoadError if any file cannot be loaded or parsed
+   */
+  loadQuestionsFromPaths(
+    questionPaths: string[],
+    onFileLoaded?: (event: QuestionFileLoadedEvent) => void
+  ): Promise<IQuestion[]>;
+  
+  /**
+   * Gets the question file paths the repository is configured to load
+   * @returns Array of configured question file paths
+   */
+  getQuestionPaths(): string[];
+  
   /**
    * Retrieves a specific question by its unique identifier
    * @param id - The unique question identifier
@@ -29,6 +103,14 @@ export interface IQuestionRepository {
    */
   getQuestionsByCategory(category: string): Promise<IQuestion[]>;
   
+  /**
+   * Retrieves the questions matching a deck filter, in their loaded order
+   * @param filter - Criteria the questions must match
+   * @returns Promise resolving to the matching questions
+   * @throws DataLoadError if data access fails
+   */
+  queryQuestions(filter: QuestionDeckFilter): Promise<IQuestion[]>;
+  
   /**
    * Gets the total count of available questions
    * @returns Promise resolving to the total number of questions
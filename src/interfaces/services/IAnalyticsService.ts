@@ -0,0 +1,91 @@
+/**
+ * Ways questions are grouped into topics for analytics
+ */
+export type AnalyticsDimension = 'category' | 'subcategory' | 'tag' | 'difficulty';
+
+/**
+ * Accuracy of the attempts made in one week
+ */
+export interface MasteryTrendPoint {
+  /** Local midnight on the Monday starting the week */
+  weekStart: Date;
+
+  /** Number of attempts made in the week */
+  attemptCount: number;
+
+  /** Average credit of the week's attempts from 0 to 1, or null if there were none */
+  accuracy: number | null;
+}
+
+/**
+ * Performance on a group of questions, derived from every recorded attempt
+ */
+export interface MasteryStats {
+  /** Number of questions in the group */
+  questionCount: number;
+
+  /** Number of the group's questions answered at least once */
+  attemptedQuestionCount: number;
+
+  /** Number of attempts on the group's questions */
+  attemptCount: number;
+
+  /** Number of those attempts that were correct */
+  correctCount: number;
+
+  /** Average credit of the attempts from 0 to 1, or null if there were none */
+  accuracy: number | null;
+
+  /** Average time from showing a question to answering it, or null if no attempt was timed */
+  averageTimeToAnswerMs: number | null;
+
+  /** Accuracy week by week, oldest first, ending with the current week */
+  trend: MasteryTrendPoint[];
+}
+
+/**
+ * Performance on one topic
+ */
+export interface TopicMastery extends MasteryStats {
+  /** How the topic groups questions */
+  dimension: AnalyticsDimension;
+
+  /** Value the questions share: a category, "category/subcategory", tag or difficulty */
+  key: string;
+
+  /** Display name */
+  label: string;
+}
+
+/**
+ * Performance across the question bank, broken down by topic
+ */
+export interface MasteryReport {
+  /** When the report was generated */
+  generatedAt: Date;
+
+  /** Performance on all questions */
+  overall: MasteryStats;
+
+  /**
+   * Topics of each dimension: categories and subcategories in catalog order,
+   * tags alphabetically and difficulties from easy to hard
+   */
+  topics: Record<AnalyticsDimension, TopicMastery[]>;
+
+  /** Tags with the lowest accuracy, weakest first, among those attempted often enough to judge */
+  weakestTags: TopicMastery[];
+}
+
+/**
+ * Interface for analysing the attempt history to find strong and weak topics.
+ * Attempts on questions no longer in the question bank are left out, since they cannot be grouped.
+ */
+export interface IAnalyticsService {
+  /**
+   * Builds the mastery report from every recorded attempt
+   * @returns Promise resolving to the overall and per-topic performance
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  getMasteryReport(): Promise<MasteryReport>;
+}
@@ -0,0 +1,101 @@
+import type { IQuestion } from '../domain/IQuestion';
+
+/**
+ * Personal note written for a question, in markdown
+ */
+export interface QuestionNote {
+  /** ID of the question the note belongs to */
+  questionId: string;
+
+  /** Note text in markdown */
+  text: string;
+
+  /** When the note was last saved */
+  updatedAt: Date;
+}
+
+/**
+ * Notes split by whether their question is still in the question bank
+ */
+export interface QuestionNoteListing {
+  /** Notes with their questions, most recently saved first */
+  notes: Array<{ note: QuestionNote; question: IQuestion }>;
+
+  /** Notes whose question no longer exists, most recently saved first */
+  orphanedNotes: QuestionNote[];
+}
+
+/**
+ * Interface for the user's bookmarks and personal notes, keyed by question ID.
+ * Annotations are never removed when the question bank changes, so they come back
+ * as soon as a question with the same ID does.
+ */
+export interface IAnnotationService {
+  /**
+   * Restores the notes saved earlier; unreadable notes are discarded
+   * @returns Promise that resolves when the notes are restored
+   */
+  hydrate(): Promise<void>;
+
+  /**
+   * Checks if a question is bookmarked
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is bookmarked, false otherwise
+   */
+  isBookmarked(questionId: string): boolean;
+
+  /**
+   * Bookmarks a question or removes its bookmark
+   * @param questionId - Unique identifier of the question
+   * @param bookmarked - Whether the question should be bookmarked
+   */
+  setBookmarked(questionId: string, bookmarked: boolean): void;
+
+  /**
+   * Gets the IDs of every bookmarked question
+   * @returns Bookmarked question IDs
+   */
+  getBookmarkedQuestionIds(): string[];
+
+  /**
+   * Gets the note written for a question
+   * @param questionId - Unique identifier of the question
+   * @returns Note, or null if the question has none
+   */
+  getNote(questionId: string): QuestionNote | null;
+
+  /**
+   * Gets every note, including notes whose question is no longer in the question bank
+   * @returns Notes in no particular order
+   */
+  getAllNotes(): QuestionNote[];
+
+  /**
+   * Saves the note for a question; blank text deletes the note
+   * @param questionId - Unique identifier of the question
+   * @param text - Note text in markdown
+   * @returns Promise that resolves when the note is saved
+   */
+  saveNote(questionId: string, text: string): Promise<void>;
+
+  /**
+   * Deletes the note for a question
+   * @param questionId - Unique identifier of the question
+   * @returns Promise that resolves when the note is deleted
+   */
+  deleteNote(questionId: string): Promise<void>;
+
+  /**
+   * Stores notes as they are, keeping their save times, such as notes imported from another device
+   * @param notes - Notes replacing any note on the same question
+   * @returns Promise that resolves when the notes are saved
+   */
+  restoreNotes(notes: QuestionNote[]): Promise<void>;
+
+  /**
+   * Lists every note, separating those whose question is no longer in the question bank
+   * @returns Promise resolving to the notes with their questions and the orphaned notes
+   * @throws DataLoadError if the question bank cannot be loaded
+   */
+  listNotes(): Promise<QuestionNoteListing>;
+}
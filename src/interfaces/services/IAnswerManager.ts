@@ -1,4 +1,4 @@
-import type { IAnswerResult, IQuestionState } from '../domain/types';
+import type { IAnswerResult, IOutputComparison, IQuestionState } from '../domain/types';
 
 /**
  * Interface for managing answer submission and validation.
@@ -13,6 +13,22 @@ export interface IAnswerManager {
    */
   submitAnswer(questionId: string, selectedOptions: number[]): IAnswerResult;
   
+  /**
+   * Submits the output typed for a predict-output question
+   * @param questionId - Unique identifier of the question
+   * @param output - Console output as typed
+   * @returns Result containing correctness, explanation and the line-by-line comparison
+   */
+  submitOutput(questionId: string, output: string): IAnswerResult;
+  
+  /**
+   * Records a self-graded result for a flip-card question
+   * @param questionId - Unique identifier of the question
+   * @param isKnown - Whether the learner knew the answer
+   * @returns Result recording the self-assessment
+   */
+  recordSelfAssessment(questionId: string, isKnown: boolean): IAnswerResult;
+  
   /**
    * Gets the current answer state for a specific question
    * @param questionId - Unique identifier of the question
@@ -33,6 +49,13 @@ export interface IAnswerManager {
    */
   isAnswered(questionId: string): boolean;
   
+  /**
+   * Compares the output submitted for the current predict-output question with the expected output
+   * @param questionId - Unique identifier of the question
+   * @returns Line-by-line comparison, or null if the question is not current or has no submitted output
+   */
+  getOutputComparison(questionId: string): IOutputComparison | null;
+  
   /**
    * Gets the selected options for a specific question
    * @param questionId - Unique identifier of the question
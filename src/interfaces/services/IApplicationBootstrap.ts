@@ -8,7 +8,7 @@
  */
 export interface BootstrapOptions {
   /**
-   * Base paths to search for question files
+   * Question file paths to load (defaults to the configured question paths)
    */
   questionPaths?: string[];
   
@@ -50,9 +50,11 @@ export interface LoadingProgress {
  */
 export type LoadingStage = 
   | 'discovering'
+  | 'restoring'
   | 'loading'
   | 'parsing'
   | 'validating'
+  | 'indexing'
   | 'complete'
   | 'error';
 
@@ -65,6 +67,8 @@ export interface BootstrapResult {
   filesProcessed: number;
   errors: Error[];
   duration: number;
+  /** Whether the app started without the network, from the service worker's cache */
+  runningFromCache: boolean;
 }
 
 /**
@@ -79,7 +83,7 @@ export interface IApplicationBootstrap {
   initialize(options?: BootstrapOptions): Promise<BootstrapResult>;
 
   /**
-   * Attempts to recover from initialization errors
+   * Attempts to recover from initialization errors by loading a different set of existing question files
    * @param error - The error that occurred
    * @returns Promise resolving to recovery result
    */
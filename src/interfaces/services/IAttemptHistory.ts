@@ -0,0 +1,64 @@
+/**
+ * A single recorded answer to a question
+ */
+export interface QuestionAttempt {
+  /** ID of the answered question */
+  questionId: string;
+
+  /** Whether the answer was correct */
+  isCorrect: boolean;
+
+  /** Credit earned by the answer, from 0 (none) to 1 (fully correct) */
+  score: number;
+
+  /** When the answer was submitted */
+  answeredAt: Date;
+
+  /** Time from showing the question to answering it, or undefined if unknown */
+  timeToAnswerMs?: number;
+}
+
+/**
+ * Outcome of an answer, as recorded in the history
+ */
+export type AttemptOutcome = Pick<QuestionAttempt, 'isCorrect' | 'score'>;
+
+/**
+ * Interface for the history of every answer given, kept for analytics.
+ * Unlike the application state, which holds only the latest answer to each question,
+ * the history keeps every attempt with when it was made and how long it took.
+ */
+export interface IAttemptHistory {
+  /**
+   * Restores the history saved earlier; an unreadable history is discarded
+   * @returns Promise that resolves when the history is loaded
+   */
+  hydrate(): Promise<void>;
+
+  /**
+   * Waits for all pending writes to finish
+   * @returns Promise that resolves when storage is up to date
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Notes that a question was shown, starting the clock for its time to answer
+   * @param questionId - Unique identifier of the question
+   */
+  markPresented(questionId: string): void;
+
+  /**
+   * Records an answer, timed from when its question was last shown
+   * @param questionId - Unique identifier of the question
+   * @param outcome - Correctness and credit of the answer
+   * @returns The recorded attempt
+   * @throws Error if the question ID is empty
+   */
+  recordAttempt(questionId: string, outcome: AttemptOutcome): QuestionAttempt;
+
+  /**
+   * Gets every recorded attempt
+   * @returns Copies of the attempts, oldest first
+   */
+  getAttempts(): QuestionAttempt[];
+}
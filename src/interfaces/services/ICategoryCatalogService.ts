@@ -0,0 +1,72 @@
+/**
+ * Progress on a group of questions, from the latest recorded answer to each
+ */
+export interface CategoryMastery {
+  /** Number of questions in the group */
+  questionCount: number;
+
+  /** Number of questions that have been answered */
+  answeredCount: number;
+
+  /** Number of questions whose latest answer is correct */
+  correctCount: number;
+
+  /** Percentage of all the group's questions whose latest answer is correct (0-100) */
+  masteryPercentage: number;
+}
+
+/**
+ * A subcategory offered on the start screen
+ */
+export interface SubcategorySummary extends CategoryMastery {
+  /** Subcategory key within its category, as used by questions; deck filters combine it with the category key */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Short description (empty for subcategories missing from the manifest) */
+  description: string;
+
+  /** Whether the subcategory is listed in the category manifest */
+  isListed: boolean;
+}
+
+/**
+ * A category offered on the start screen, with its subcategories
+ */
+export interface CategorySummary extends CategoryMastery {
+  /** Category key, as used by questions and deck filters */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Short description */
+  description: string;
+
+  /** Icon shown next to the name */
+  icon: string;
+
+  /** Accent color */
+  color: string;
+
+  /** Estimated time to work through the category, in minutes (null if unknown) */
+  estimatedTimeMinutes: number | null;
+
+  /** Subcategories in manifest order, followed by any the manifest does not list */
+  subcategories: SubcategorySummary[];
+}
+
+/**
+ * Interface for describing the question bank by category for the start screen.
+ * Combines the category manifest with the loaded questions and the user's progress.
+ */
+export interface ICategoryCatalogService {
+  /**
+   * Gets every category with its question counts and the user's mastery
+   * @returns Promise resolving to the categories in manifest order, followed by any the manifest does not list
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  getCategories(): Promise<CategorySummary[]>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Interface for reading the current time.
+ * Lets time-dependent services be driven by a fake clock in tests.
+ */
+export interface IClock {
+  /**
+   * Gets the current date and time
+   * @returns Current date and time
+   */
+  now(): Date;
+}
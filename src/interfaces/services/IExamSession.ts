@@ -0,0 +1,202 @@
+import type { IQuestion } from '../domain/IQuestion';
+import type { QuestionDeckFilter } from '../repositories/IQuestionRepository';
+
+/**
+ * How the exam time limit is applied
+ * - 'per-question': each question gets its own countdown, starting when it is shown
+ * - 'total': one countdown covers the whole exam
+ */
+export type ExamTimeLimitMode = 'per-question' | 'total';
+
+/**
+ * Options for starting an exam
+ */
+export interface ExamOptions {
+  /** Number of questions to draw */
+  questionCount: number;
+
+  /** How the time limit is applied */
+  timeLimitMode: ExamTimeLimitMode;
+
+  /** Time limit in seconds, per question or for the whole exam depending on the mode */
+  timeLimitSeconds: number;
+
+  /** Optional deck filter the questions are drawn from */
+  filter?: QuestionDeckFilter;
+}
+
+/**
+ * Outcome of a single exam question
+ * - 'answered': an answer was submitted in time
+ * - 'unanswered': the candidate moved on (or finished) without answering
+ * - 'timed-out': the time limit ran out before an answer was submitted
+ */
+export type ExamQuestionStatus = 'answered' | 'unanswered' | 'timed-out';
+
+/**
+ * Result of a single exam question, revealed in the summary
+ */
+export interface ExamQuestionResult {
+  /** Question identifier */
+  questionId: string;
+
+  /** Question text */
+  text: string;
+
+  /** Question category */
+  category: string;
+
+  /** Option texts in the order they were shown */
+  options: string[];
+
+  /** How the question ended */
+  status: ExamQuestionStatus;
+
+  /** Whether the submitted answer was correct (false unless answered) */
+  isCorrect: boolean;
+
+  /** Indices of the options the candidate submitted */
+  selectedAnswers: number[];
+
+  /** Indices of the correct options */
+  correctAnswers: number[];
+
+  /** Explanation of the correct answer, hidden until the exam ends */
+  explanation: string;
+
+  /** Time spent on the question in milliseconds */
+  timeSpentMs: number;
+}
+
+/**
+ * Score for one category in the exam summary
+ */
+export interface ExamCategoryScore {
+  /** Category name */
+  category: string;
+
+  /** Number of questions answered correctly */
+  correct: number;
+
+  /** Number of questions drawn from the category */
+  total: number;
+
+  /** Percentage of questions answered correctly (0-100) */
+  percentage: number;
+}
+
+/**
+ * Results report produced when an exam ends
+ */
+export interface ExamSummary {
+  /** Number of questions in the exam */
+  totalQuestions: number;
+
+  /** Number of questions answered correctly */
+  correctCount: number;
+
+  /** Number of questions answered in time */
+  answeredCount: number;
+
+  /** Number of questions locked by the time limit */
+  timedOutCount: number;
+
+  /** Percentage of questions answered correctly (0-100) */
+  scorePercentage: number;
+
+  /** Time between start and finish in milliseconds */
+  durationMs: number;
+
+  /** How the time limit was applied */
+  timeLimitMode: ExamTimeLimitMode;
+
+  /** Scores per category, sorted by category name */
+  categoryScores: ExamCategoryScore[];
+
+  /** Per-question results in exam order */
+  results: ExamQuestionResult[];
+}
+
+/**
+ * Interface for a timed mock-interview exam.
+ * Explanations stay hidden until the exam ends, and a question's answer is locked
+ * once it is submitted, skipped or its time runs out.
+ */
+export interface IExamSession {
+  /**
+   * Draws the exam questions and starts the clock
+   * @param options - Exam options
+   * @returns Promise that resolves when the exam has started
+   * @throws Error if the options are invalid or the exam was already started
+   */
+  start(options: ExamOptions): Promise<void>;
+
+  /**
+   * Gets the question currently being answered
+   * @returns Current question or null if the exam has not started or has finished
+   */
+  getCurrentQuestion(): IQuestion | null;
+
+  /**
+   * Gets the current question index (zero-based)
+   * @returns Current question index
+   */
+  getCurrentIndex(): number;
+
+  /**
+   * Gets the number of questions in the exam
+   * @returns Total question count
+   */
+  getTotalCount(): number;
+
+  /**
+   * Gets the time left on the active countdown
+   * @returns Remaining milliseconds, never negative
+   */
+  getRemainingMs(): number;
+
+  /**
+   * Applies the time limit at the current clock time, locking expired questions.
+   * Finishes the exam when a total time limit runs out.
+   */
+  checkTime(): void;
+
+  /**
+   * Checks whether the current question can no longer be answered
+   * @returns True if the current question is locked
+   */
+  isCurrentLocked(): boolean;
+
+  /**
+   * Submits an answer for the current question without revealing the result
+   * @param selectedOptions - Indices of the selected options
+   * @throws Error if the question is locked or the exam is not running
+   */
+  submitAnswer(selectedOptions: number[]): void;
+
+  /**
+   * Locks the current question and moves to the next one
+   * @returns True if moved, false if the current question was the last one
+   * @throws Error if the exam is not running
+   */
+  moveToNext(): boolean;
+
+  /**
+   * Ends the exam, locking any remaining questions
+   * @returns Exam summary
+   * @throws Error if the exam was never started
+   */
+  finish(): ExamSummary;
+
+  /**
+   * Checks whether the exam has ended
+   * @returns True if the exam has ended
+   */
+  isFinished(): boolean;
+
+  /**
+   * Gets the results report once the exam has ended
+   * @returns Exam summary or null while the exam is running
+   */
+  getSummary(): ExamSummary | null;
+}
@@ -0,0 +1,11 @@
+/**
+ * Interface for telling whether the app is working without the network.
+ * The service worker keeps the app shell and question bank cached for offline study.
+ */
+export interface IOfflineStatus {
+  /**
+   * Checks whether the app is running from the service worker's cache
+   * @returns True if a service worker controls the page while the browser is offline
+   */
+  isRunningFromCache(): boolean;
+}
@@ -0,0 +1,104 @@
+import type { IQuestionState } from '../domain/types';
+import type { QuestionNote } from './IAnnotationService';
+import type { IReviewState } from './IReviewScheduler';
+
+/**
+ * Everything about the user's progress that can be moved to another device
+ */
+export interface ProgressSnapshot {
+  /** Answer state of each question, keyed by question ID */
+  questionStates: Map<string, IQuestionState>;
+
+  /** IDs of bookmarked questions */
+  bookmarkedQuestionIds: Set<string>;
+
+  /** Personal notes */
+  notes: QuestionNote[];
+
+  /** Spaced-repetition state of each reviewed question */
+  reviewStates: IReviewState[];
+}
+
+/**
+ * Kind of progress a conflict is about
+ */
+export type ProgressConflictKind = 'answer' | 'note' | 'review';
+
+/**
+ * A question with different progress on this device and in the imported file.
+ * The newest version wins; the conflict says which one that is.
+ */
+export interface ProgressConflict {
+  /** ID of the question */
+  questionId: string;
+
+  /** Kind of progress that differs */
+  kind: ProgressConflictKind;
+
+  /** When the progress on this device was recorded, or null if unknown */
+  localAt: Date | null;
+
+  /** When the imported progress was recorded, or null if unknown */
+  importedAt: Date | null;
+
+  /** Which version is kept */
+  resolution: 'keep-local' | 'use-imported';
+}
+
+/**
+ * Number of items of each kind an import adds or replaces
+ */
+export interface ProgressChangeCounts {
+  answers: number;
+  bookmarks: number;
+  notes: number;
+  reviews: number;
+}
+
+/**
+ * What importing a progress file would change, shown before anything is applied
+ */
+export interface ProgressImportPreview {
+  /** When the file was exported */
+  exportedAt: Date;
+
+  /** Progress read from the file */
+  snapshot: ProgressSnapshot;
+
+  /** Items the import adds or replaces */
+  changes: ProgressChangeCounts;
+
+  /** Questions whose progress differs between this device and the file */
+  conflicts: ProgressConflict[];
+
+  /** IDs in the file of questions that are not in the question bank; their progress is still imported */
+  unknownQuestionIds: string[];
+}
+
+/**
+ * Interface for moving progress between devices as a portable JSON file.
+ * Imports are merged rather than replacing local progress: for each question the newest
+ * attempt, note and review are kept, and bookmarks from both sides are combined.
+ */
+export interface IProgressTransferService {
+  /**
+   * Exports answers, bookmarks, notes and review schedules
+   * @returns Promise resolving to the versioned JSON document, with a checksum of its contents
+   */
+  exportProgress(): Promise<string>;
+
+  /**
+   * Reads a progress file and works out what importing it would change, without applying anything
+   * @param document - JSON document produced by exportProgress
+   * @returns Promise resolving to the changes, conflicts and unknown questions of the import
+   * @throws ValidationError if the document is malformed, from a newer version or fails its checksum
+   */
+  previewImport(document: string): Promise<ProgressImportPreview>;
+
+  /**
+   * Merges previewed progress into this device's progress
+   * @param preview - Preview returned by previewImport
+   * @returns Promise resolving to the items added or replaced
+   */
+  applyImport(preview: ProgressImportPreview): Promise<ProgressChangeCounts>;
+}
@@ -1,4 +1,5 @@
 import type { IQuestion } from '../domain/IQuestion';
+import type { QuestionDeckFilter } from '../repositories/IQuestionRepository';
 
 /**
  * Interface for managing question navigation and retrieval.
@@ -24,6 +25,13 @@ export interface IQuestionManager {
    */
   moveToPrevious(): boolean;
   
+  /**
+   * Moves to a question of the session by position
+   * @param index - Zero-based index of the question
+   * @returns True if the index is within the session, false otherwise
+   */
+  moveTo(index: number): boolean;
+  
   /**
    * Resets the current question to its initial state
    * This method focuses only on question state, not answer state
@@ -48,15 +56,49 @@ export interface IQuestionManager {
    * @returns Promise that resolves when initialization is complete
    */
   initialize(options?: QuestionManagerInitOptions): Promise<void>;
+  
+  /**
+   * Replaces the current session with a new deck, starting from its first question
+   * @param options - Initialization options for the new session
+   * @returns Promise that resolves when the new session is ready
+   */
+  startNewSession(options?: QuestionManagerInitOptions): Promise<void>;
+  
+  /**
+   * Gets the questions that make up the current session, in session order
+   * @returns Array of session questions
+   */
+  getSessionQuestions(): IQuestion[];
+  
+  /**
+   * Gets the seed the current session was shuffled with, for replaying the same order
+   * @returns Session seed, or null if the session was not shuffled
+   */
+  getSessionSeed(): number | null;
 }
 
 /**
  * Options for initializing the QuestionManager with randomization capabilities
  */
 export interface QuestionManagerInitOptions {
-  /** Whether to shuffle the order of questions (default: true) */
+  /** Whether to shuffle the order of questions (default: true); due decks always keep the review order */
   shuffleQuestions?: boolean;
   
   /** Whether to shuffle options within each question (default: true) */
   shuffleOptions?: boolean;
+  
+  /** Whether to serve only questions due for review today, most overdue first, instead of the full list (default: false) */
+  dueOnly?: boolean;
+  
+  /** Whether to serve only bookmarked questions (default: false) */
+  bookmarkedOnly?: boolean;
+  
+  /** Restricts the session to questions matching this deck filter, applied before shuffling */
+  filter?: QuestionDeckFilter;
+  
+  /** Maximum number of questions to serve, drawn after filtering and shuffling (default: all) */
+  limit?: number;
+  
+  /** Seed for the question and option order; the same seed and deck give the same order (default: a fresh seed) */
+  seed?: number;
 }
\ No newline at end of file
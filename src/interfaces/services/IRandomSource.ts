@@ -0,0 +1,30 @@
+/**
+ * Interface for a seedable source of pseudo-random numbers.
+ * The same seed always yields the same sequence, so shuffled sessions can be replayed.
+ */
+export interface IRandomSource {
+  /**
+   * Gets the next number in the sequence
+   * @returns Number in the range [0, 1)
+   */
+  next(): number;
+
+  /**
+   * Restarts the sequence from a seed
+   * @param seed - Whole number between 0 and 4294967295
+   * @throws Error if the seed is out of range
+   */
+  reseed(seed: number): void;
+
+  /**
+   * Gets the seed the current sequence was started from
+   * @returns Current seed
+   */
+  getSeed(): number;
+
+  /**
+   * Draws a fresh seed for a session that was not given one
+   * @returns New seed
+   */
+  createSeed(): number;
+}
@@ -0,0 +1,128 @@
+/**
+ * Names of the available spaced-repetition algorithms
+ */
+export type ReviewAlgorithmName = 'sm2' | 'fsrs';
+
+/**
+ * Self-assessed or derived quality of a single review
+ */
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Spaced-repetition state for a single question
+ */
+export interface IReviewState {
+  /** Unique identifier of the question */
+  questionId: string;
+  
+  /** Algorithm that produced this state */
+  algorithm: ReviewAlgorithmName;
+  
+  /** SM-2 ease factor; FSRS tracks difficulty and stability instead */
+  easeFactor: number;
+  
+  /** Current interval between reviews in days */
+  intervalDays: number;
+  
+  /** Number of consecutive successful reviews */
+  repetitions: number;
+  
+  /** Number of times the question was forgotten after being learned */
+  lapses: number;
+  
+  /** Date from which the question is due for review */
+  dueDate: Date;
+  
+  /** Timestamp of the most recent review */
+  lastReviewedAt?: Date;
+  
+  /** FSRS memory stability in days */
+  stability?: number;
+  
+  /** FSRS difficulty between 1 and 10 */
+  difficulty?: number;
+}
+
+/**
+ * Strategy interface for spaced-repetition scheduling algorithms.
+ * Implementations are pure: they derive a new state without side effects.
+ */
+export interface IReviewAlgorithm {
+  /** Name of the algorithm */
+  readonly name: ReviewAlgorithmName;
+  
+  /**
+   * Creates the state for a question that has never been reviewed
+   * @param questionId - Unique identifier of the question
+   * @param now - Current date and time
+   * @returns Initial review state, due immediately
+   */
+  createInitialState(questionId: string, now: Date): IReviewState;
+  
+  /**
+   * Computes the next review state after a review
+   * @param state - Current review state
+   * @param rating - Rating of the review
+   * @param now - Date and time of the review
+   * @returns New review state
+   */
+  schedule(state: IReviewState, rating: ReviewRating, now: Date): IReviewState;
+}
+
+/**
+ * Interface for scheduling question reviews with spaced repetition.
+ * Follows Single Responsibility Principle by focusing only on review scheduling.
+ */
+export interface IReviewScheduler {
+  /**
+   * Restores the review schedule saved earlier
+   * @returns Promise that resolves when the schedule is restored
+   */
+  hydrate(): Promise<void>;
+  
+  /**
+   * Records a review for a question and reschedules it
+   * @param questionId - Unique identifier of the question
+   * @param rating - Rating of the review
+   * @returns Updated review state
+   */
+  recordReview(questionId: string, rating: ReviewRating): IReviewState;
+  
+  /**
+   * Gets the review state for a question
+   * @param questionId - Unique identifier of the question
+   * @returns Review state or null if the question has never been reviewed
+   */
+  getReviewState(questionId: string): IReviewState | null;
+  
+  /**
+   * Gets the review state of every reviewed question
+   * @returns Array of review states
+   */
+  getAllReviewStates(): IReviewState[];
+  
+  /**
+   * Replaces the review state of a question, such as one imported from another device
+   * @param state - Review state to keep for its question
+   */
+  restoreReviewState(state: IReviewState): void;
+  
+  /**
+   * Checks whether a question is due for review today
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is new or due by the end of today
+   */
+  isDue(questionId: string): boolean;
+  
+  /**
+   * Builds the "due today" queue from a set of questions
+   * @param questionIds - Identifiers of the candidate questions
+   * @returns Identifiers of due questions, most overdue first, followed by new questions
+   */
+  getDueQuestionIds(questionIds: string[]): string[];
+  
+  /**
+   * Clears the review state of every question
+   */
+  reset(): void;
+}
@@ -0,0 +1,85 @@
+import type { QuestionDeckFilter } from '../repositories/IQuestionRepository';
+
+/**
+ * Deck criteria a session link can carry; these are the filters the app builds itself
+ */
+export type SessionRouteFilter = Pick<QuestionDeckFilter, 'categories' | 'subcategories' | 'tags' | 'ids'>;
+
+/**
+ * Start screen: "/"
+ */
+export interface HomeRoute {
+  name: 'home';
+}
+
+/**
+ * A single question: "/q/:questionId"
+ */
+export interface QuestionRoute {
+  name: 'question';
+  questionId: string;
+}
+
+/**
+ * A fresh session over one category: "/category/:category"
+ */
+export interface CategoryRoute {
+  name: 'category';
+  category: string;
+}
+
+/**
+ * A question within a replayable session: "/session/:seed/:number".
+ * The path numbers questions from 1; the route keeps the zero-based index.
+ */
+export interface SessionRoute {
+  name: 'session';
+  seed: number;
+  index: number;
+  filter?: SessionRouteFilter;
+}
+
+/**
+ * A location in the app that can be linked to
+ */
+export type AppRoute = HomeRoute | QuestionRoute | CategoryRoute | SessionRoute;
+
+/**
+ * Options for changing the current route
+ */
+export interface RouteNavigationOptions {
+  /** Whether to replace the current history entry instead of adding one (default: false) */
+  replace?: boolean;
+}
+
+/**
+ * Callback notified with the route the user moved to
+ */
+export type RouteListener = (route: AppRoute) => void;
+
+/**
+ * Interface for reflecting the app's location in the URL.
+ * The app decides what to show; the router only reads and writes the address and
+ * reports when the user moves through the browser history.
+ */
+export interface IRouter {
+  /**
+   * Gets the route of the current address
+   * @returns Current route (the start screen for addresses that match no route)
+   */
+  getCurrentRoute(): AppRoute;
+
+  /**
+   * Points the address at a route, without notifying listeners
+   * @param route - Route to show
+   * @param options - Whether to add or replace a history entry
+   */
+  navigate(route: AppRoute, options?: RouteNavigationOptions): void;
+
+  /**
+   * Registers a listener for back/forward navigation
+   * @param listener - Callback receiving the route moved to
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: RouteListener): () => void;
+}
@@ -0,0 +1,115 @@
+import type { IQuestion } from '../domain/IQuestion';
+
+/**
+ * Part of a question that is searched
+ */
+export type SearchField = 'text' | 'options' | 'explanation' | 'code';
+
+/**
+ * Range of characters in a snippet that matched the query
+ */
+export interface SearchHighlightRange {
+  /** Index of the first matched character */
+  start: number;
+
+  /** Index just after the last matched character */
+  end: number;
+}
+
+/**
+ * Excerpt of a question field with the matched terms marked
+ */
+export interface SearchSnippet {
+  /** Field the excerpt comes from */
+  field: SearchField;
+
+  /** Excerpt text, with an ellipsis where it was cut */
+  text: string;
+
+  /** Matched ranges within the excerpt, in order and not overlapping */
+  highlights: SearchHighlightRange[];
+}
+
+/**
+ * A question matching the query
+ */
+export interface SearchHit {
+  /** Matching question */
+  question: IQuestion;
+
+  /** Relevance; higher is better */
+  score: number;
+
+  /** One excerpt per field that matched, best field first */
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Number of matching questions with a given category or tag
+ */
+export interface SearchFacetCount {
+  /** Category key or tag */
+  value: string;
+
+  /** Number of questions matching the query that have it */
+  count: number;
+}
+
+/**
+ * Narrows a search
+ */
+export interface SearchOptions {
+  /** Only include questions in one of these categories */
+  categories?: string[];
+
+  /** Only include questions carrying at least one of these tags */
+  tags?: string[];
+
+  /** Maximum number of hits to return (default: 20) */
+  limit?: number;
+}
+
+/**
+ * Outcome of a search
+ */
+export interface SearchResults {
+  /** Query as given */
+  query: string;
+
+  /** Best hits first, at most the requested limit */
+  hits: SearchHit[];
+
+  /** Number of questions matching the query and filters, before the limit */
+  totalHits: number;
+
+  /**
+   * Categories and tags of the questions matching the query, most common first.
+   * They ignore the category and tag filters so other facets stay selectable.
+   */
+  facets: {
+    categories: SearchFacetCount[];
+    tags: SearchFacetCount[];
+  };
+}
+
+/**
+ * Interface for full-text search over the question bank.
+ * Every query term must match a question, either exactly or as the start of a word.
+ */
+export interface ISearchService {
+  /**
+   * Builds the search index from the loaded questions, replacing any earlier index
+   * @returns Promise resolving to the number of indexed questions
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  buildIndex(): Promise<number>;
+
+  /**
+   * Searches question text, options, explanations and code examples
+   * @param query - Words or code fragments to look for
+   * @param options - Category and tag filters and the result limit
+   * @returns Promise resolving to the results; no hits for a query without words
+   * @throws DataLoadError if the index has to be built and the questions cannot be loaded
+   */
+  search(query: string, options?: SearchOptions): Promise<SearchResults>;
+}
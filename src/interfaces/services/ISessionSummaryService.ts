@@ -0,0 +1,70 @@
+import type { IQuestion } from '../domain/IQuestion';
+
+/**
+ * Accuracy for one group of questions (a category or a difficulty level)
+ */
+export interface SessionAccuracy {
+  /** Group name, e.g. the category or difficulty */
+  group: string;
+
+  /** Number of questions in the group answered correctly */
+  correct: number;
+
+  /** Credit earned in the group, adding up the 0-1 score of each answered question */
+  score: number;
+
+  /** Number of questions in the group that were answered */
+  answered: number;
+
+  /** Number of questions in the group */
+  total: number;
+
+  /** Credit earned as a percentage of the answered questions (0-100) */
+  percentage: number;
+}
+
+/**
+ * Results of a completed practice session
+ */
+export interface SessionSummary {
+  /** Number of questions in the session */
+  totalQuestions: number;
+
+  /** Number of questions that were answered */
+  answeredCount: number;
+
+  /** Number of questions answered correctly */
+  correctCount: number;
+
+  /** Credit earned, adding up the 0-1 score of each answered question */
+  score: number;
+
+  /** Credit earned as a percentage of the answered questions (0-100) */
+  scorePercentage: number;
+
+  /** Time taken for the session in milliseconds */
+  durationMs: number;
+
+  /** Accuracy per category, sorted by category name */
+  byCategory: SessionAccuracy[];
+
+  /** Accuracy per difficulty, from easiest to hardest */
+  byDifficulty: SessionAccuracy[];
+
+  /** IDs of the questions not answered fully correctly, in session order */
+  incorrectQuestionIds: string[];
+}
+
+/**
+ * Interface for summarizing a practice session from the recorded answer state.
+ * Follows Single Responsibility Principle by focusing only on session statistics.
+ */
+export interface ISessionSummaryService {
+  /**
+   * Summarizes the answers recorded for a session's questions
+   * @param questions - Questions that made up the session
+   * @param durationMs - Time taken for the session in milliseconds
+   * @returns Session summary
+   */
+  summarize(questions: IQuestion[], durationMs: number): SessionSummary;
+}
@@ -0,0 +1,126 @@
+/**
+ * Views in which keyboard shortcuts apply: answering a question or reading its explanation
+ */
+export type ShortcutScope = 'question' | 'explanation';
+
+/**
+ * Position of an answer option that can be toggled from the keyboard, counted from 1
+ */
+export type ShortcutOptionNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+/**
+ * Something a shortcut does
+ */
+export type ShortcutAction =
+  | `toggle-option-${ShortcutOptionNumber}`
+  | 'submit'
+  | 'next'
+  | 'redo'
+  | 'help';
+
+/**
+ * Keys bound to each action, as normalized by the shortcut service
+ */
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+/**
+ * Describes a shortcut action for the help overlay
+ */
+export interface ShortcutDefinition {
+  /** Action performed */
+  action: ShortcutAction;
+
+  /** What the action does */
+  description: string;
+
+  /** Views in which the action's keys work */
+  scopes: ShortcutScope[];
+}
+
+/**
+ * Performs a shortcut action
+ */
+export type ShortcutHandler = () => void;
+
+/**
+ * Handlers a view provides for the actions it supports
+ */
+export type ShortcutHandlers = Partial<Record<ShortcutAction, ShortcutHandler>>;
+
+/**
+ * Part of a keyboard event the shortcut service needs; DOM KeyboardEvents satisfy it
+ */
+export interface ShortcutKeyEvent {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  defaultPrevented: boolean;
+  target: EventTarget | null;
+  preventDefault(): void;
+}
+
+/**
+ * Interface for the global keyboard shortcut registry.
+ * Views register handlers for the actions they support; key presses are dispatched
+ * to the most recently registered handler for the action bound to the key in the current view.
+ */
+export interface IShortcutService {
+  /**
+   * Restores the key mapping saved by earlier remaps; falls back to the defaults if it is unreadable
+   * @returns Promise that resolves when the mapping is restored
+   */
+  hydrate(): Promise<void>;
+
+  /**
+   * Gets every action with its description and scopes, in display order
+   * @returns Shortcut definitions
+   */
+  getDefinitions(): ShortcutDefinition[];
+
+  /**
+   * Gets the keys currently bound to each action
+   * @returns Copy of the current bindings
+   */
+  getBindings(): ShortcutBindings;
+
+  /**
+   * Binds new keys to an action and saves the mapping
+   * @param action - Action to remap
+   * @param keys - Keys that should perform it
+   * @returns Promise that resolves when the mapping is saved
+   * @throws ValidationError if a key is reserved or already bound to an action sharing a view
+   */
+  remap(action: ShortcutAction, keys: string[]): Promise<void>;
+
+  /**
+   * Restores the default keys and forgets the saved mapping
+   * @returns Promise that resolves when the saved mapping is cleared
+   */
+  resetBindings(): Promise<void>;
+
+  /**
+   * Registers handlers for actions in a view
+   * @param scope - View the handlers belong to
+   * @param handlers - Handlers by action
+   * @returns Function that unregisters the handlers
+   */
+  register(scope: ShortcutScope, handlers: ShortcutHandlers): () => void;
+
+  /**
+   * Finds the action a key performs in a view
+   * @param key - KeyboardEvent.key value
+   * @param scope - View
+   * @returns Bound action, or null if the key does nothing there
+   */
+  getActionForKey(key: string, scope: ShortcutScope): ShortcutAction | null;
+
+  /**
+   * Performs the action bound to a key press, unless the user is typing, holds a modifier
+   * or a focused control already handled the key
+   * @param event - Key press
+   * @param scope - Current view
+   * @returns True if an action was performed, in which case the event's default is prevented
+   */
+  dispatch(event: ShortcutKeyEvent, scope: ShortcutScope): boolean;
+}
@@ -7,6 +7,14 @@ import type { IOption } from '../domain/IOption';
  * Maintains data integrity while providing randomization capabilities.
  */
 export interface IShuffleService {
+  /**
+   * Restarts the shuffle sequence so the same input is always shuffled the same way
+   * @param seed - Seed to restart from; a fresh seed is drawn when omitted
+   * @returns The seed now in use
+   * @throws Error if the seed is out of range
+   */
+  reseed(seed?: number): number;
+  
   /**
    * Shuffles an array of questions randomly
    * @param questions - Array of questions to shuffle
@@ -5,6 +5,12 @@ import type { IApplicationState, IQuestionState } from '../domain/types';
  * Follows Single Responsibility Principle by focusing only on state management.
  */
 export interface IStateManager {
+  /**
+   * Restores persisted state from storage, if any is configured
+   * @returns Promise that resolves when hydration is complete
+   */
+  hydrate(): Promise<void>;
+  
   /**
    * Gets the current application state
    * @returns Complete application state object
@@ -25,11 +31,30 @@ export interface IStateManager {
    */
   getQuestionState(questionId: string): IQuestionState | null;
   
+  /**
+   * Bookmarks a question or removes its bookmark
+   * @param questionId - Unique identifier of the question
+   * @param bookmarked - Whether the question should be bookmarked
+   */
+  setBookmarked(questionId: string, bookmarked: boolean): void;
+  
+  /**
+   * Checks if a question is bookmarked
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is bookmarked, false otherwise
+   */
+  isBookmarked(questionId: string): boolean;
+  
   /**
    * Resets the entire application state to initial values
    */
   resetApplicationState(): void;
   
+  /**
+   * Clears the answers of the current session, keeping bookmarks
+   */
+  clearQuestionStates(): void;
+  
   /**
    * Updates the current question index
    * @param index - New question index to set
@@ -0,0 +1,60 @@
+/**
+ * Interface for durable storage of serialized application state.
+ * Follows Interface Segregation Principle: adapters only move opaque strings,
+ * versioning and (de)serialization live in the state serializer.
+ */
+export interface IStateStorage {
+  /**
+   * Loads the stored state
+   * @returns Promise resolving to the serialized state or null if nothing is stored
+   */
+  load(): Promise<string | null>;
+  
+  /**
+   * Replaces the stored state
+   * @param data - Serialized state to store
+   * @returns Promise that resolves when the state is stored
+   */
+  save(data: string): Promise<void>;
+  
+  /**
+   * Removes the stored state
+   * @returns Promise that resolves when the state is removed
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Available state storage backends
+ */
+export type StateStorageType = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * Persisted representation of a single question state
+ */
+export interface PersistedQuestionState {
+  /** IDs of the selected options; positions are not stored as they change with the session seed */
+  selectedOptionIds: string[];
+  isSubmitted: boolean;
+  isCorrect: boolean;
+  /** Credit from 0 to 1; absent in states saved before partial credit, which scored all or nothing */
+  score?: number;
+  /** Output typed for a predict-output question */
+  submittedOutput?: string;
+  /** ISO 8601 timestamp, or null if never submitted */
+  submittedAt: string | null;
+}
+
+/**
+ * Persisted application state (current format).
+ * The questionStates Map is stored as an array of [questionId, state] entries.
+ */
+export interface PersistedApplicationState {
+  version: number;
+  /** ISO 8601 timestamp of when the state was saved */
+  savedAt: string;
+  currentQuestionIndex: number;
+  questionStates: Array<[string, PersistedQuestionState]>;
+  /** IDs of bookmarked questions; absent in states saved before bookmarks */
+  bookmarkedQuestionIds?: string[];
+}
@@ -10,7 +10,7 @@ export interface IAnswerValidator {
    * Validates a submitted answer against the correct answer
    * @param question - The question being answered
    * @param selectedAnswers - Array of selected option indices
-   * @returns Validation result indicating correctness and any errors
+   * @returns Validation result indicating correctness, score and any errors
    */
   validate(question: IQuestion, selectedAnswers: number[]): IValidationResult;
   
@@ -37,4 +37,12 @@ export interface IAnswerValidator {
    * @returns True if the answer is correct, false otherwise
    */
   isCorrectAnswer(question: IQuestion, selectedAnswers: number[]): boolean;
+  
+  /**
+   * Scores the submitted answer, giving partial credit if the scoring strategy allows it
+   * @param question - The question being answered
+   * @param selectedAnswers - Array of selected option indices
+   * @returns Score from 0 (no credit) to 1 (fully correct)
+   */
+  scoreAnswer(question: IQuestion, selectedAnswers: number[]): number;
 }
\ No newline at end of file
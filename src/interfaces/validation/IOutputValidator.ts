@@ -0,0 +1,40 @@
+import type { IQuestion } from '../domain/IQuestion';
+import type { IOutputComparison } from '../domain/types';
+import type { IValidationResult } from './IValidationResult';
+
+/**
+ * Differences ignored when typed output is compared with the expected output
+ */
+export interface OutputNormalizationOptions {
+  /** Ignore spaces and tabs at the end of lines and blank lines at the end of the output */
+  ignoreTrailingWhitespace: boolean;
+
+  /** Treat \r\n, \r and \n as the same line break */
+  normalizeLineEndings: boolean;
+
+  /** Compare letters regardless of case */
+  ignoreCase: boolean;
+}
+
+/**
+ * Interface for validating the output typed for predict-output questions.
+ * Follows Interface Segregation Principle by focusing only on output comparison.
+ */
+export interface IOutputValidator {
+  /**
+   * Validates output typed for a predict-output question
+   * @param question - The question being answered
+   * @param output - Console output as typed
+   * @returns Validation result whose metadata holds isCorrect, score and the comparison;
+   * invalid if the question does not ask for output
+   */
+  validate(question: IQuestion, output: string): IValidationResult;
+
+  /**
+   * Compares typed output with the expected output line by line
+   * @param expectedOutput - Output the code produces
+   * @param actualOutput - Output as typed
+   * @returns Whether they match after normalization, and the merged lines
+   */
+  compare(expectedOutput: string, actualOutput: string): IOutputComparison;
+}
@@ -0,0 +1,60 @@
+/**
+ * A single place where a question file breaks the JSON Schema it declares
+ */
+export interface SchemaViolation {
+  /** Path of the question file, as it was requested */
+  filePath: string;
+
+  /** Id of the question containing the violation, or null for file-level problems */
+  questionId: string | null;
+
+  /** JSON pointer to the offending value within the file ("" for the whole file) */
+  pointer: string;
+
+  /** Schema keyword that failed, such as "pattern" or "required" */
+  keyword: string;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of checking a set of question files against their schemas
+ */
+export interface SchemaValidationReport {
+  /** Whether every file matched its schema */
+  isValid: boolean;
+
+  /** Number of files checked */
+  filesChecked: number;
+
+  /** Every violation found, in file order */
+  violations: SchemaViolation[];
+}
+
+/**
+ * Reads and parses a JSON file, so schema validation can run in the browser and in Node
+ * @param filePath - Path of the file to read
+ * @returns Promise resolving to the parsed JSON value
+ */
+export type JsonFileReader = (filePath: string) => Promise<unknown>;
+
+/**
+ * Interface for checking question files against the JSON Schema named in their `$schema` field.
+ * Follows Interface Segregation Principle by focusing only on file-level schema checks.
+ */
+export interface IQuestionFileSchemaValidator {
+  /**
+   * Checks one question file against the schema it declares
+   * @param filePath - Path of the question file
+   * @returns Promise resolving to the violations found (empty if the file is valid)
+   */
+  validateFile(filePath: string): Promise<SchemaViolation[]>;
+
+  /**
+   * Checks several question files against the schemas they declare
+   * @param filePaths - Paths of the question files
+   * @returns Promise resolving to the combined report
+   */
+  validateFiles(filePaths: string[]): Promise<SchemaValidationReport>;
+}
@@ -0,0 +1,22 @@
+/**
+ * Names of the available answer scoring strategies
+ */
+export type ScoringStrategyName = 'exact' | 'proportional' | 'penalized';
+
+/**
+ * Strategy interface for scoring a submitted answer.
+ * Implementations are pure and score 1 exactly when the selection matches the correct answers,
+ * so a full score always means a correct answer.
+ */
+export interface IScoringStrategy {
+  /** Name of the strategy */
+  readonly name: ScoringStrategyName;
+
+  /**
+   * Scores a selection of options
+   * @param correctAnswers - Indices of the correct options
+   * @param selectedAnswers - Indices of the selected options, without duplicates
+   * @returns Score from 0 (no credit) to 1 (fully correct)
+   */
+  score(correctAnswers: number[], selectedAnswers: number[]): number;
+}
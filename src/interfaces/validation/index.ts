@@ -1,4 +1,7 @@
 // Validation interfaces
 export { IValidationResult } from './IValidationResult';
 export { IAnswerValidator } from './IAnswerValidator';
-export { IQuestionValidator } from './IQuestionValidator';
\ No newline at end of file
+export { IScoringStrategy, ScoringStrategyName } from './IScoringStrategy';
+export { IOutputValidator, OutputNormalizationOptions } from './IOutputValidator';
+export { IQuestionValidator } from './IQuestionValidator';
+export { IQuestionFileSchemaValidator, SchemaViolation, SchemaValidationReport, JsonFileReader } from './ISchemaValidator';
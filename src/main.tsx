@@ -1,6 +1,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { registerServiceWorker } from './services/offline/registerServiceWorker'
 import './index.css'
 
 // Fix for iOS Safari viewport height issue
@@ -16,6 +17,13 @@ setViewportHeight();
 window.addEventListener('resize', setViewportHeight);
 window.addEventListener('orientationchange', setViewportHeight);
 
+// Cache the app and question bank for offline study; the worker is only built for production
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    void registerServiceWorker();
+  });
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
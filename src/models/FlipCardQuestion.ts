@@ -0,0 +1,121 @@
+import { IFlipCardQuestion, ICodeExample, IOption, IQuestionMetadata, QuestionDifficulty } from '../interfaces/domain';
+import { resolveQuestionMetadata } from './questionMetadata';
+
+/**
+ * Concrete implementation of IFlipCardQuestion for self-graded revision cards.
+ * Provides immutable access to question data with proper encapsulation.
+ */
+export class FlipCardQuestion implements IFlipCardQuestion {
+  readonly type = 'flip-card' as const;
+  
+  private readonly _id: string;
+  private readonly _text: string;
+  private readonly _answer: string;
+  private readonly _explanation: string;
+  private readonly _category: string;
+  private readonly _difficulty: QuestionDifficulty;
+  private readonly _subcategory: string;
+  private readonly _tags: string[];
+  private readonly _difficultyLevel: number;
+  private readonly _codeExample?: ICodeExample;
+
+  constructor(
+    id: string,
+    text: string,
+    answer: string,
+    explanation: string,
+    category: string,
+    difficulty: QuestionDifficulty,
+    codeExample?: ICodeExample,
+    metadata: IQuestionMetadata = {}
+  ) {
+    // Validation
+    if (!id || id.trim().length === 0) {
+      throw new Error('Question ID cannot be empty');
+    }
+    if (!text || text.trim().length === 0) {
+      throw new Error('Question text cannot be empty');
+    }
+    if (!answer || answer.trim().length === 0) {
+      throw new Error('Flip-card answer cannot be empty');
+    }
+    if (!category || category.trim().length === 0) {
+      throw new Error('Question category cannot be empty');
+    }
+
+    this._id = id.trim();
+    this._text = text.trim();
+    this._answer = answer.trim();
+    this._explanation = (explanation || '').trim();
+    this._category = category.trim();
+    this._difficulty = difficulty;
+    this._codeExample = codeExample;
+    
+    const resolvedMetadata = resolveQuestionMetadata(difficulty, metadata);
+    this._subcategory = resolvedMetadata.subcategory;
+    this._tags = resolvedMetadata.tags;
+    this._difficultyLevel = resolvedMetadata.difficultyLevel;
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get text(): string {
+    return this._text;
+  }
+
+  get answer(): string {
+    return this._answer;
+  }
+
+  get options(): IOption[] {
+    // Flip cards are self-graded and have no answer options
+    return [];
+  }
+
+  get category(): string {
+    return this._category;
+  }
+
+  get subcategory(): string {
+    return this._subcategory;
+  }
+
+  get tags(): string[] {
+    // Return a new array to prevent external mutation
+    return [...this._tags];
+  }
+
+  get difficulty(): QuestionDifficulty {
+    return this._difficulty;
+  }
+
+  get difficultyLevel(): number {
+    return this._difficultyLevel;
+  }
+
+  get explanation(): string {
+    return this._explanation;
+  }
+
+  get codeExample(): ICodeExample | undefined {
+    return this._codeExample;
+  }
+
+  /**
+   * Returns the indices of correct answer options
+   * @returns Empty array, as flip cards have no options
+   */
+  getCorrectAnswers(): number[] {
+    return [];
+  }
+
+  /**
+   * Determines if the question has multiple correct answers
+   * @returns Always false for flip cards
+   */
+  hasMultipleCorrectAnswers(): boolean {
+    return false;
+  }
+}
@@ -1,4 +1,5 @@
-import { IQuestion, ICodeExample, IOption, QuestionDifficulty } from '../interfaces/domain';
+import { IQuestion, ICodeExample, IOption, IQuestionMetadata, QuestionDifficulty, QuestionType } from '../interfaces/domain';
+import { resolveQuestionMetadata } from './questionMetadata';
 
 /**
  * Concrete implementation of IQuestion for multiple-choice questions.
@@ -12,6 +13,9 @@ export class MultipleChoiceQuestion implements IQuestion {
   private readonly _explanation: string;
   private readonly _category: string;
   private readonly _difficulty: QuestionDifficulty;
+  private readonly _subcategory: string;
+  private readonly _tags: string[];
+  private readonly _difficultyLevel: number;
   private readonly _codeExample?: ICodeExample;
 
   constructor(
@@ -22,7 +26,8 @@ export class MultipleChoiceQuestion implements IQuestion {
     explanation: string,
     category: string,
     difficulty: QuestionDifficulty,
-    codeExample?: ICodeExample
+    codeExample?: ICodeExample,
+    metadata: IQuestionMetadata = {}
   ) {
     // Validation
     if (!id || id.trim().length === 0) {
@@ -62,12 +67,21 @@ export class MultipleChoiceQuestion implements IQuestion {
     this._category = category.trim();
     this._difficulty = difficulty;
     this._codeExample = codeExample;
+    
+    const resolvedMetadata = resolveQuestionMetadata(difficulty, metadata);
+    this._subcategory = resolvedMetadata.subcategory;
+    this._tags = resolvedMetadata.tags;
+    this._difficultyLevel = resolvedMetadata.difficultyLevel;
   }
 
   get id(): string {
     return this._id;
   }
 
+  get type(): QuestionType {
+    return 'multiple-choice';
+  }
+
   get text(): string {
     return this._text;
   }
@@ -81,10 +95,23 @@ export class MultipleChoiceQuestion implements IQuestion {
     return this._category;
   }
 
+  get subcategory(): string {
+    return this._subcategory;
+  }
+
+  get tags(): string[] {
+    // Return a new array to prevent external mutation
+    return [...this._tags];
+  }
+
   get difficulty(): QuestionDifficulty {
     return this._difficulty;
   }
 
+  get difficultyLevel(): number {
+    return this._difficultyLevel;
+  }
+
   get explanation(): string {
     return this._explanation;
   }
@@ -0,0 +1,120 @@
+import { IPredictOutputQuestion, ICodeExample, IOption, IQuestionMetadata, QuestionDifficulty } from '../interfaces/domain';
+import { resolveQuestionMetadata } from './questionMetadata';
+
+/**
+ * Concrete implementation of IPredictOutputQuestion for questions answered by typing the code's output.
+ * Provides immutable access to question data with proper encapsulation.
+ */
+export class PredictOutputQuestion implements IPredictOutputQuestion {
+  readonly type = 'predict-output' as const;
+
+  private readonly _id: string;
+  private readonly _text: string;
+  private readonly _explanation: string;
+  private readonly _category: string;
+  private readonly _difficulty: QuestionDifficulty;
+  private readonly _subcategory: string;
+  private readonly _tags: string[];
+  private readonly _difficultyLevel: number;
+  private readonly _codeExample: ICodeExample;
+  private readonly _expectedOutput: string;
+
+  constructor(
+    id: string,
+    text: string,
+    explanation: string,
+    category: string,
+    difficulty: QuestionDifficulty,
+    codeExample: ICodeExample,
+    metadata: IQuestionMetadata = {}
+  ) {
+    // Validation
+    if (!id || id.trim().length === 0) {
+      throw new Error('Question ID cannot be empty');
+    }
+    if (!text || text.trim().length === 0) {
+      throw new Error('Question text cannot be empty');
+    }
+    if (!codeExample?.output) {
+      throw new Error('Predict-output question must have a code example with output');
+    }
+    if (!category || category.trim().length === 0) {
+      throw new Error('Question category cannot be empty');
+    }
+
+    this._id = id.trim();
+    this._text = text.trim();
+    this._explanation = (explanation || '').trim();
+    this._category = category.trim();
+    this._difficulty = difficulty;
+    this._codeExample = codeExample;
+    this._expectedOutput = codeExample.output;
+
+    const resolvedMetadata = resolveQuestionMetadata(difficulty, metadata);
+    this._subcategory = resolvedMetadata.subcategory;
+    this._tags = resolvedMetadata.tags;
+    this._difficultyLevel = resolvedMetadata.difficultyLevel;
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get text(): string {
+    return this._text;
+  }
+
+  get expectedOutput(): string {
+    return this._expectedOutput;
+  }
+
+  get options(): IOption[] {
+    // The output is typed rather than chosen from options
+    return [];
+  }
+
+  get category(): string {
+    return this._category;
+  }
+
+  get subcategory(): string {
+    return this._subcategory;
+  }
+
+  get tags(): string[] {
+    // Return a new array to prevent external mutation
+    return [...this._tags];
+  }
+
+  get difficulty(): QuestionDifficulty {
+    return this._difficulty;
+  }
+
+  get difficultyLevel(): number {
+    return this._difficultyLevel;
+  }
+
+  get explanation(): string {
+    return this._explanation;
+  }
+
+  get codeExample(): ICodeExample {
+    return this._codeExample;
+  }
+
+  /**
+   * Returns the indices of correct answer options
+   * @returns Empty array, as predict-output questions have no options
+   */
+  getCorrectAnswers(): number[] {
+    return [];
+  }
+
+  /**
+   * Determines if the question has multiple correct answers
+   * @returns Always false for predict-output questions
+   */
+  hasMultipleCorrectAnswers(): boolean {
+    return false;
+  }
+}
@@ -1,4 +1,6 @@
 // Core domain model implementations
 export { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
+export { FlipCardQuestion } from './FlipCardQuestion';
+export { PredictOutputQuestion } from './PredictOutputQuestion';
 export { CodeExample } from './CodeExample';
 export { Option } from './Option';
\ No newline at end of file
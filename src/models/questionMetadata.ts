@@ -0,0 +1,59 @@
+import { IQuestionMetadata, QuestionDifficulty } from '../interfaces/domain';
+
+/**
+ * Representative 1-10 difficulty for each coarse difficulty level,
+ * used when a question does not carry its own numeric difficulty
+ */
+const DEFAULT_DIFFICULTY_LEVELS: Record<QuestionDifficulty, number> = {
+  easy: 2,
+  medium: 5,
+  hard: 8
+};
+
+/**
+ * Question metadata with every field resolved
+ */
+export interface ResolvedQuestionMetadata {
+  subcategory: string;
+  tags: string[];
+  difficultyLevel: number;
+}
+
+/**
+ * Builds the key of a subcategory across the question bank; subcategory names repeat across categories
+ * @param category - Category key
+ * @param subcategory - Subcategory key within the category
+ * @returns Key in the form "category/subcategory"
+ */
+export function subcategoryKey(category: string, subcategory: string): string {
+  return `${category}/${subcategory}`;
+}
+
+/**
+ * Validates question metadata and fills in defaults for missing fields
+ * @param difficulty - Coarse difficulty of the question
+ * @param metadata - Metadata supplied with the question
+ * @returns Metadata with trimmed, de-duplicated values
+ * @throws Error if the numeric difficulty is outside the 1-10 scale
+ */
+export function resolveQuestionMetadata(
+  difficulty: QuestionDifficulty,
+  metadata: IQuestionMetadata
+): ResolvedQuestionMetadata {
+  const difficultyLevel = metadata.difficultyLevel
+    ?? DEFAULT_DIFFICULTY_LEVELS[difficulty]
+    ?? DEFAULT_DIFFICULTY_LEVELS.medium;
+  if (difficultyLevel < 1 || difficultyLevel > 10) {
+    throw new Error(`Question difficulty level ${difficultyLevel} must be between 1 and 10`);
+  }
+
+  const tags = (metadata.tags ?? [])
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+
+  return {
+    subcategory: (metadata.subcategory ?? '').trim(),
+    tags: [...new Set(tags)],
+    difficultyLevel
+  };
+}
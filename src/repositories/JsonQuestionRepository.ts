@@ -1,8 +1,9 @@
-import { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
-import { IQuestionLoader } from '../interfaces/repositories/IQuestionLoader';
+import { IQuestionRepository, QuestionDeckFilter, QuestionFileLoadedEvent } from '../interfaces/repositories/IQuestionRepository';
+import { IQuestionLoader, RawQuestionData } from '../interfaces/repositories/IQuestionLoader';
 import { IQuestionParser } from '../interfaces/repositories/IQuestionParser';
 import { IQuestion } from '../interfaces/domain/IQuestion';
 import { DataLoadError } from '../models/errors/DataLoadError';
+import { subcategoryKey } from '../models/questionMetadata';
 
 /**
  * Concrete implementation of IQuestionRepository that loads questions from JSON files.
@@ -12,6 +13,7 @@ import { DataLoadError } from '../models/errors/DataLoadError';
 export class JsonQuestionRepository implements IQuestionRepository {
   private questions: IQuestion[] = [];
   private isLoaded = false;
+  private questionPaths: string[];
   
   /**
    * Creates a new JsonQuestionRepository instance
@@ -22,8 +24,10 @@ export class JsonQuestionRepository implements IQuestionRepository {
   constructor(
     private readonly questionLoader: IQuestionLoader,
     private readonly questionParser: IQuestionParser,
-    private readonly questionPaths: string[]
-  ) {}
+    questionPaths: string[]
+  ) {
+    this.questionPaths = [...questionPaths];
+  }
   
   /**
    * Loads all questions from the configured data sources
@@ -53,6 +57,58 @@ export class JsonQuestionRepository implements IQuestionRepository {
     }
   }
   
+  /**
+   * Replaces the configured question paths and loads questions from exactly those files.
+   * Files are loaded one at a time so callers can report per-file progress.
+   * @param questionPaths - Paths of the question files to load
+   * @param onFileLoaded - Optional callback invoked after each file is loaded
+   * @returns Promise resolving to array of all questions from the given files
+   * @throws DataLoadError if any file cannot be loaded or parsed
+   */
+  async loadQuestionsFromPaths(
+    questionPaths: string[],
+    onFileLoaded?: (event: QuestionFileLoadedEvent) => void
+  ): Promise<IQuestion[]> {
+    this.reset();
+    this.questionPaths = [...questionPaths];
+    
+    try {
+      const rawQuestions: RawQuestionData[] = [];
+      
+      for (const [index, filePath] of this.questionPaths.entries()) {
+        const fileQuestions = await this.questionLoader.loadFromJson(filePath);
+        rawQuestions.push(...fileQuestions);
+        
+        if (onFileLoaded) {
+          onFileLoaded({
+            filePath,
+            filesLoaded: index + 1,
+            totalFiles: this.questionPaths.length,
+            questionsInFile: fileQuestions.length
+          });
+        }
+      }
+      
+      this.questions = await this.questionParser.parseQuestions(rawQuestions);
+      this.isLoaded = true;
+      
+      return [...this.questions];
+    } catch (error) {
+      throw new DataLoadError(
+        `question paths: ${this.questionPaths.join(', ')}`,
+        error as Error
+      );
+    }
+  }
+  
+  /**
+   * Gets the question file paths the repository is configured to load
+   * @returns Array of configured question file paths
+   */
+  getQuestionPaths(): string[] {
+    return [...this.questionPaths];
+  }
+  
   /**
    * Retrieves a specific question by its unique identifier
    * @param id - The unique question identifier
@@ -78,6 +134,18 @@ export class JsonQuestionRepository implements IQuestionRepository {
     return this.questions.filter(q => q.category === category);
   }
   
+  /**
+   * Retrieves the questions matching a deck filter, in their loaded order
+   * @param filter - Criteria the questions must match
+   * @returns Promise resolving to the matching questions
+   * @throws DataLoadError if data access fails
+   */
+  async queryQuestions(filter: QuestionDeckFilter): Promise<IQuestion[]> {
+    await this.ensureQuestionsLoaded();
+    
+    return this.questions.filter(q => this.matchesFilter(q, filter));
+  }
+  
   /**
    * Gets the total count of available questions
    * @returns Promise resolving to the total number of questions
@@ -89,6 +157,53 @@ export class JsonQuestionRepository implements IQuestionRepository {
     return this.questions.length;
   }
   
+  /**
+   * Checks a question against every criterion set on a deck filter
+   * @param question - Question to check
+   * @param filter - Deck filter criteria
+   * @returns True if the question belongs in the deck
+   */
+  private matchesFilter(question: IQuestion, filter: QuestionDeckFilter): boolean {
+    const { types, categories, subcategories, tags, tagMatch = 'any', difficultyRange, ids } = filter;
+    
+    if (types?.length && !types.includes(question.type)) {
+      return false;
+    }
+    
+    if (categories?.length && !categories.includes(question.category)) {
+      return false;
+    }
+    
+    if (subcategories?.length && !subcategories.includes(subcategoryKey(question.category, question.subcategory))) {
+      return false;
+    }
+    
+    // An empty tag or ID list is a deck with nothing in it, not a missing criterion
+    if (tags !== undefined) {
+      const questionTags = new Set(question.tags);
+      const matchesTags = tagMatch === 'all'
+        ? tags.length > 0 && tags.every(tag => questionTags.has(tag))
+        : tags.some(tag => questionTags.has(tag));
+      
+      if (!matchesTags) {
+        return false;
+      }
+    }
+    
+    if (difficultyRange) {
+      const { min = 1, max = 10 } = difficultyRange;
+      if (question.difficultyLevel < min || question.difficultyLevel > max) {
+        return false;
+      }
+    }
+    
+    if (ids !== undefined && !ids.includes(question.id)) {
+      return false;
+    }
+    
+    return true;
+  }
+  
   /**
    * Ensures questions are loaded before performing operations
    * @throws DataLoadError if questions cannot be loaded
@@ -1,6 +1,18 @@
-import { IQuestionLoader, RawQuestionData, RawQuestionFile } from '../interfaces/repositories/IQuestionLoader';
+import {
+  IQuestionLoader,
+  RawQuestionData,
+  RawQuestionFile,
+  RawCategoryManifest,
+  ManifestQuestionFile,
+  QuestionFileDiscovery
+} from '../interfaces/repositories/IQuestionLoader';
 import { DataLoadError } from '../models/errors/DataLoadError';
 
+/**
+ * Location of the category manifest relative to the data root
+ */
+const CATEGORY_MANIFEST_FILE = 'metadata/categories.json';
+
 /**
  * Concrete implementation of IQuestionLoader for loading questions from JSON files.
  * Handles file system access and JSON parsing operations.
@@ -16,9 +28,7 @@ export class QuestionLoader implements IQuestionLoader {
    */
   async loadFromJson(filePath: string): Promise<RawQuestionData[]> {
     try {
-      // Ensure path starts with '/' for absolute URL
-      const absolutePath = filePath.startsWith('/') ? filePath : `/${filePath}`;
-      const response = await fetch(absolutePath);
+      const response = await fetch(this.toAbsolutePath(filePath));
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -30,13 +40,8 @@ export class QuestionLoader implements IQuestionLoader {
         throw new Error('Invalid JSON structure: missing or invalid questions array');
       }
       
-      // Filter to only include multiple-choice questions
-      const multipleChoiceQuestions = jsonData.questions.filter(q => 
-        q.type === 'multiple-choice' || 
-        (q.options && Array.isArray(q.options) && q.options.length > 0)
-      );
-      
-      return multipleChoiceQuestions;
+      // All question types are returned; the parser builds the matching domain model
+      return jsonData.questions;
     } catch (error) {
       throw new DataLoadError(filePath, error as Error);
     }
@@ -68,95 +73,144 @@ export class QuestionLoader implements IQuestionLoader {
   }
   
   /**
-   * Discovers and loads all question files from a directory
-   * Note: In a browser environment, this method requires the file paths to be known in advance
-   * or provided through a manifest file, as browsers cannot enumerate directory contents.
-   * @param directoryPath - Path to directory containing question JSON files
+   * Loads all question files listed in the category manifest under a data root.
+   * Subcategories whose file is missing are reported as warnings; the load only fails
+   * when none of the listed files exist.
+   * @param directoryPath - Data root containing metadata/categories.json
    * @returns Promise resolving to array of raw question data from all discovered files
-   * @throws DataLoadError if directory cannot be read or files cannot be parsed
+   * @throws DataLoadError if the manifest cannot be read, no listed file exists, or files cannot be parsed
    */
   async loadFromDirectory(directoryPath: string): Promise<RawQuestionData[]> {
-    // In a browser environment, we need to know the file names in advance
-    // Updated to match actual files in the project including new 100 questions
-    const knownFiles = [
-      // Existing files - ONLY multiple-choice files
-      'data-types-mc.json',
-      // 'variables.json', // REMOVED: This is flip-card type, not multiple-choice
-      'control-flow-mc.json',
-      'oop-mc.json',
-      'collections-mc.json',
-      'linq-mc.json',
-      'async-mc.json',
-      'exceptions-mc.json',
-      'generics-mc.json',
-      
-      // New question files (100 questions total)
-      'console-output-mc.json',
-      'operators-mc.json',
-      'oop-fundamentals-mc.json',
-      'async-await-mc.json',
-      'reflection-mc.json'
-    ];
-    
-    const filePaths = knownFiles.map(file => `${directoryPath}/${file}`);
-    const allQuestions: RawQuestionData[] = [];
+    const discovery = await this.discoverQuestionFiles(directoryPath);
     
-    for (const filePath of filePaths) {
-      try {
-        const questions = await this.loadFromJson(filePath);
-        allQuestions.push(...questions);
-      } catch (error) {
-        // For directory loading, we continue if some files are missing
-        // but still throw for actual parsing errors
-        if (error instanceof DataLoadError && error.message.includes('HTTP 404')) {
-          continue; // File doesn't exist, skip it
-        }
-        throw error;
-      }
+    for (const missingFile of discovery.missing) {
+      console.warn(
+        `Question file for ${missingFile.category}/${missingFile.subcategory} not found at ${missingFile.filePath}: ${missingFile.reason}`
+      );
     }
     
-    if (allQuestions.length === 0) {
-      throw new DataLoadError(directoryPath, new Error('No valid question files found in directory'));
+    if (discovery.files.length === 0) {
+      const missingSubcategories = discovery.missing
+        .map(file => `${file.category}/${file.subcategory}`)
+        .join(', ');
+      throw new DataLoadError(
+        directoryPath,
+        new Error(`No question files listed in the manifest were found (missing: ${missingSubcategories || 'none listed'})`)
+      );
     }
     
-    return allQuestions;
+    return this.loadFromMultipleJson(discovery.files.map(file => file.filePath));
   }
 
   /**
-   * Discovers question files by testing for their existence
-   * @param basePath - Base path to search for question files
-   * @returns Promise resolving to array of existing file paths
+   * Discovers question files from the category manifest and checks that each one exists
+   * @param basePath - Data root containing metadata/categories.json
+   * @returns Promise resolving to the existing files and the missing ones per subcategory
+   * @throws DataLoadError if the manifest cannot be read or parsed
    */
-  async discoverQuestionFiles(basePath: string): Promise<string[]> {
-    const knownFiles = [
-      'data-types-mc.json',
-      // 'variables.json', // REMOVED: This is flip-card type, not multiple-choice
-      'control-flow-mc.json',
-      'oop-mc.json',
-      'collections-mc.json',
-      'linq-mc.json',
-      'async-mc.json',
-      'exceptions-mc.json',
-      'generics-mc.json'
-    ];
+  async discoverQuestionFiles(basePath: string): Promise<QuestionFileDiscovery> {
+    const manifest = await this.loadManifest(basePath);
+    const discovery: QuestionFileDiscovery = { files: [], missing: [] };
+
+    for (const [category, categoryData] of Object.entries(manifest.categories)) {
+      for (const [subcategory, subcategoryData] of Object.entries(categoryData.subcategories)) {
+        const manifestFile: ManifestQuestionFile = {
+          category,
+          subcategory,
+          filePath: this.joinPath(basePath, subcategoryData.file)
+        };
+        
+        const reason = await this.checkFileExists(manifestFile.filePath);
+        if (reason === null) {
+          discovery.files.push(manifestFile);
+        } else {
+          discovery.missing.push({ ...manifestFile, reason });
+        }
+      }
+    }
 
-    const discoveredFiles: string[] = [];
+    return discovery;
+  }
 
-    for (const fileName of knownFiles) {
-      const filePath = `${basePath}/${fileName}`;
+  /**
+   * Loads the category manifest from a data root
+   * @param basePath - Data root containing metadata/categories.json
+   * @returns Promise resolving to the raw category manifest
+   * @throws DataLoadError if the manifest cannot be read or parsed
+   */
+  async loadManifest(basePath: string): Promise<RawCategoryManifest> {
+    const manifestPath = this.joinPath(basePath, CATEGORY_MANIFEST_FILE);
+    
+    try {
+      const response = await fetch(this.toAbsolutePath(manifestPath));
       
-      try {
-        // Test if file exists by attempting to fetch headers
-        const response = await fetch(filePath, { method: 'HEAD' });
-        if (response.ok) {
-          discoveredFiles.push(filePath);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      
+      const manifest: RawCategoryManifest = await response.json();
+      
+      if (!manifest.categories || typeof manifest.categories !== 'object') {
+        throw new Error('Invalid manifest structure: missing or invalid categories object');
+      }
+      
+      for (const [category, categoryData] of Object.entries(manifest.categories)) {
+        for (const [subcategory, subcategoryData] of Object.entries(categoryData.subcategories || {})) {
+          if (!subcategoryData.file || typeof subcategoryData.file !== 'string') {
+            throw new Error(`Invalid manifest structure: subcategory ${category}/${subcategory} has no file`);
+          }
         }
-      } catch (error) {
-        // File doesn't exist or can't be accessed, continue
-        continue;
       }
+      
+      return manifest;
+    } catch (error) {
+      throw new DataLoadError(manifestPath, error as Error);
     }
+  }
 
-    return discoveredFiles;
+  /**
+   * Checks whether a question file exists without downloading it
+   * @param filePath - Path of the file to check
+   * @returns Null if the file exists, otherwise the reason it is considered missing
+   */
+  private async checkFileExists(filePath: string): Promise<string | null> {
+    try {
+      const response = await fetch(this.toAbsolutePath(filePath), { method: 'HEAD' });
+      
+      if (!response.ok) {
+        return `HTTP ${response.status}: ${response.statusText}`;
+      }
+      
+      // SPA fallbacks answer unknown paths with index.html, so require a JSON content type when one is sent
+      const contentType = response.headers?.get('content-type');
+      if (contentType && !contentType.includes('json')) {
+        return `Unexpected content type ${contentType}`;
+      }
+      
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown fetch error';
+    }
+  }
+
+  /**
+   * Joins a data root and a relative path
+   * @param basePath - Data root
+   * @param relativePath - Path relative to the data root
+   * @returns Combined path
+   */
+  private joinPath(basePath: string, relativePath: string): string {
+    const trimmedBase = basePath.replace(/\/+$/, '');
+    const trimmedRelative = relativePath.replace(/^\/+/, '');
+    return trimmedBase ? `${trimmedBase}/${trimmedRelative}` : trimmedRelative;
+  }
+
+  /**
+   * Ensures path starts with '/' for absolute URL
+   * @param filePath - Path to convert
+   * @returns Absolute path
+   */
+  private toAbsolutePath(filePath: string): string {
+    return filePath.startsWith('/') ? filePath : `/${filePath}`;
   }
-}
\ No newline at end of file
+}
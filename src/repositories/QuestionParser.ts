@@ -2,9 +2,11 @@ import { IQuestionParser, IParseValidationResult } from '../interfaces/repositor
 import { RawQuestionData } from '../interfaces/repositories/IQuestionLoader';
 import { IQuestion } from '../interfaces/domain/IQuestion';
 import { MultipleChoiceQuestion } from '../models/MultipleChoiceQuestion';
+import { FlipCardQuestion } from '../models/FlipCardQuestion';
+import { PredictOutputQuestion } from '../models/PredictOutputQuestion';
 import { CodeExample } from '../models/CodeExample';
 import { Option } from '../models/Option';
-import { QuestionDifficulty } from '../interfaces/domain/types';
+import { IQuestionMetadata, QuestionDifficulty } from '../interfaces/domain/types';
 import { ValidationError } from '../models/errors/ValidationError';
 
 /**
@@ -63,32 +65,6 @@ export class QuestionParser implements IQuestionParser {
       );
     }
     
-    // Parse options differently based on question type
-    let options: Option[];
-    let correctAnswers: number[];
-    
-    if (rawQuestion.type === 'flip-card') {
-      // For flip-card questions, create a single option with the answer
-      options = [
-        new Option(
-          '0',
-          rawQuestion.answer || '',
-          'This is the correct answer for this flip-card question.'
-        )
-      ];
-      correctAnswers = [0]; // The single option is always correct
-    } else {
-      // For multiple-choice questions, parse normally
-      options = (rawQuestion.options || []).map((optionData, index) => 
-        new Option(
-          optionData.id || index.toString(),
-          optionData.text,
-          optionData.explanation
-        )
-      );
-      correctAnswers = this.parseCorrectAnswers(rawQuestion);
-    }
-    
     // Parse code example if present
     let codeExample: CodeExample | undefined;
     if (rawQuestion.codeExample) {
@@ -107,6 +83,46 @@ export class QuestionParser implements IQuestionParser {
       throw new Error('Question must have either "text" or "question" field');
     }
     
+    const metadata: IQuestionMetadata = {
+      subcategory: rawQuestion.subcategory,
+      tags: rawQuestion.tags,
+      difficultyLevel: rawQuestion.difficulty
+    };
+    
+    if (rawQuestion.type === 'flip-card') {
+      return new FlipCardQuestion(
+        rawQuestion.id,
+        questionText,
+        rawQuestion.answer || '',
+        rawQuestion.explanation,
+        rawQuestion.category,
+        difficulty,
+        codeExample,
+        metadata
+      );
+    }
+    
+    if (rawQuestion.type === 'predict-output') {
+      return new PredictOutputQuestion(
+        rawQuestion.id,
+        questionText,
+        rawQuestion.explanation,
+        rawQuestion.category,
+        difficulty,
+        codeExample!,
+        metadata
+      );
+    }
+    
+    const options = (rawQuestion.options || []).map((optionData, index) => 
+      new Option(
+        optionData.id || index.toString(),
+        optionData.text,
+        optionData.explanation
+      )
+    );
+    const correctAnswers = this.parseCorrectAnswers(rawQuestion);
+    
     return new MultipleChoiceQuestion(
       rawQuestion.id,
       questionText,
@@ -115,7 +131,8 @@ export class QuestionParser implements IQuestionParser {
       rawQuestion.explanation,
       rawQuestion.category,
       difficulty,
-      codeExample
+      codeExample,
+      metadata
     );
   }
   
@@ -191,6 +208,11 @@ export class QuestionParser implements IQuestionParser {
       if (!rawQuestion.answer || typeof rawQuestion.answer !== 'string') {
         errors.push('Flip-card question must have an answer field');
       }
+    } else if (rawQuestion.type === 'predict-output') {
+      // Predict-output questions are answered by typing the output of their code
+      if (typeof rawQuestion.codeExample?.output !== 'string' || rawQuestion.codeExample.output.trim() === '') {
+        errors.push('Predict-output question must have a code example with output');
+      }
     } else {
       errors.push(`Unsupported question type: ${rawQuestion.type}`);
     }
@@ -3,7 +3,17 @@
 
 // Interfaces
 export { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
-export { IQuestionLoader, RawQuestionData, RawQuestionFile } from '../interfaces/repositories/IQuestionLoader';
+export {
+  IQuestionLoader,
+  RawQuestionData,
+  RawQuestionFile,
+  RawCategoryManifest,
+  RawCategoryData,
+  RawSubcategoryData,
+  ManifestQuestionFile,
+  MissingQuestionFile,
+  QuestionFileDiscovery
+} from '../interfaces/repositories/IQuestionLoader';
 export { IQuestionParser, IParseValidationResult } from '../interfaces/repositories/IQuestionParser';
 
 // Concrete Implementations
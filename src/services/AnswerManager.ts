@@ -2,7 +2,14 @@ import type { IAnswerManager } from '../interfaces/services/IAnswerManager';
 import type { IAnswerValidator } from '../interfaces/validation/IAnswerValidator';
 import type { IStateManager } from '../interfaces/services/IStateManager';
 import type { IQuestionManager } from '../interfaces/services/IQuestionManager';
-import type { IAnswerResult, IQuestionState } from '../interfaces/domain/types';
+import type { IOutputValidator } from '../interfaces/validation/IOutputValidator';
+import type { IAnswerResult, IOutputComparison, IQuestionState } from '../interfaces/domain/types';
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import { isFlipCardQuestion } from '../interfaces/domain/IFlipCardQuestion';
+import { isPredictOutputQuestion } from '../interfaces/domain/IPredictOutputQuestion';
+import type { IReviewScheduler } from '../interfaces/services/IReviewScheduler';
+import type { IAttemptHistory } from '../interfaces/services/IAttemptHistory';
+import { PredictOutputValidator } from './output';
 
 /**
  * Manages answer submission and validation following Single Responsibility Principle.
@@ -13,7 +20,10 @@ export class AnswerManager implements IAnswerManager {
   constructor(
     private readonly validator: IAnswerValidator,
     private readonly stateManager: IStateManager,
-    private readonly questionManager: IQuestionManager
+    private readonly questionManager: IQuestionManager,
+    private readonly reviewScheduler?: IReviewScheduler,
+    private readonly outputValidator: IOutputValidator = new PredictOutputValidator(),
+    private readonly attemptHistory?: IAttemptHistory
   ) {}
   
   /**
@@ -23,16 +33,7 @@ export class AnswerManager implements IAnswerManager {
    * @returns Result containing correctness, explanation, and answer details
    */
   submitAnswer(questionId: string, selectedOptions: number[]): IAnswerResult {
-    // Get the current question from question manager
-    const question = this.questionManager.getCurrentQuestion();
-    if (!question) {
-      throw new Error('No current question available');
-    }
-    
-    // Verify the question ID matches (additional safety check)
-    if (question.id !== questionId) {
-      throw new Error(`Question ID mismatch. Expected: ${questionId}, Current: ${question.id}`);
-    }
+    const question = this.getCurrentQuestionFor(questionId);
     
     // Validate the submitted answer
     const validationResult = this.validator.validate(question, selectedOptions);
@@ -42,37 +43,142 @@ export class AnswerManager implements IAnswerManager {
       throw new Error(`Answer validation failed: ${validationResult.errors.join(', ')}`);
     }
     
-    // Extract correctness from validation metadata
+    // Extract correctness and credit from validation metadata
     const isCorrect = validationResult.metadata?.isCorrect ?? false;
+    const score = validationResult.metadata?.score ?? (isCorrect ? 1 : 0);
     
     // Create answer result
     const answerResult: IAnswerResult = {
       isCorrect,
+      score,
       correctAnswers: question.getCorrectAnswers(),
       explanation: question.explanation,
       selectedAnswers: [...selectedOptions] // Create defensive copy
     };
     
-    // Update question state
+    // Update question state; option IDs keep the selection valid when the options are reshuffled
     const questionState: IQuestionState = {
       selectedAnswers: [...selectedOptions], // Create defensive copy
+      selectedOptionIds: selectedOptions.map(index => question.options[index].id),
       isSubmitted: true,
       isCorrect,
+      score,
       submittedAt: new Date()
     };
     
     this.stateManager.updateQuestionState(questionId, questionState);
     
+    // Reschedule the question for spaced-repetition review
+    this.reviewScheduler?.recordReview(questionId, isCorrect ? 'good' : 'again');
+    
+    // Keep every attempt for the mastery analytics
+    this.attemptHistory?.recordAttempt(questionId, { isCorrect, score });
+    
     return answerResult;
   }
   
   /**
-   * Gets the current answer state for a specific question
+   * Submits the output typed for a predict-output question
+   * @param questionId - Unique identifier of the question
+   * @param output - Console output as typed
+   * @returns Result containing correctness, explanation and the line-by-line comparison
+   * @throws Error if the question is not the current one or the output cannot be validated
+   */
+  submitOutput(questionId: string, output: string): IAnswerResult {
+    const question = this.getCurrentQuestionFor(questionId);
+    
+    const validationResult = this.outputValidator.validate(question, output);
+    if (!validationResult.isValid) {
+      throw new Error(`Answer validation failed: ${validationResult.errors.join(', ')}`);
+    }
+    
+    const isCorrect: boolean = validationResult.metadata?.isCorrect ?? false;
+    const score: number = validationResult.metadata?.score ?? (isCorrect ? 1 : 0);
+    
+    const questionState: IQuestionState = {
+      selectedAnswers: [],
+      isSubmitted: true,
+      isCorrect,
+      score,
+      submittedOutput: output,
+      submittedAt: new Date()
+    };
+    
+    this.stateManager.updateQuestionState(questionId, questionState);
+    this.reviewScheduler?.recordReview(questionId, isCorrect ? 'good' : 'again');
+    this.attemptHistory?.recordAttempt(questionId, { isCorrect, score });
+    
+    return {
+      isCorrect,
+      score,
+      correctAnswers: [],
+      explanation: question.explanation,
+      selectedAnswers: [],
+      submittedOutput: output,
+      outputComparison: validationResult.metadata?.comparison
+    };
+  }
+  
+  /**
+   * Records a self-graded result for a flip-card question
+   * @param questionId - Unique identifier of the question
+   * @param isKnown - Whether the learner knew the answer
+   * @returns Result recording the self-assessment
+   * @throws Error if the question is not the current flip card
+   */
+  recordSelfAssessment(questionId: string, isKnown: boolean): IAnswerResult {
+    const question = this.getCurrentQuestionFor(questionId);
+    
+    if (!isFlipCardQuestion(question)) {
+      throw new Error(`Question ${questionId} is not a flip-card question and cannot be self-assessed`);
+    }
+    
+    const questionState: IQuestionState = {
+      selectedAnswers: [],
+      isSubmitted: true,
+      isCorrect: isKnown,
+      score: isKnown ? 1 : 0,
+      submittedAt: new Date()
+    };
+    
+    this.stateManager.updateQuestionState(questionId, questionState);
+    this.reviewScheduler?.recordReview(questionId, isKnown ? 'good' : 'again');
+    this.attemptHistory?.recordAttempt(questionId, { isCorrect: isKnown, score: isKnown ? 1 : 0 });
+    
+    return {
+      isCorrect: isKnown,
+      score: isKnown ? 1 : 0,
+      correctAnswers: [],
+      explanation: question.explanation,
+      selectedAnswers: []
+    };
+  }
+  
+  /**
+   * Gets the current answer state for a specific question.
+   * Selections are mapped onto the option order of the session, which may differ
+   * from the order the question was answered in.
    * @param questionId - Unique identifier of the question
    * @returns Current answer state or null if no state exists
    */
   getAnswerState(questionId: string): IQuestionState | null {
-    return this.stateManager.getQuestionState(questionId);
+    const state = this.stateManager.getQuestionState(questionId);
+    if (!state?.selectedOptionIds) {
+      return state;
+    }
+    
+    const question = this.questionManager.getSessionQuestions().find(candidate => candidate.id === questionId);
+    if (!question) {
+      return state;
+    }
+    
+    const optionIds = question.options.map(option => option.id);
+    return {
+      ...state,
+      selectedAnswers: state.selectedOptionIds
+        .map(optionId => optionIds.indexOf(optionId))
+        .filter(index => index >= 0)
+    };
   }
   
   /**
@@ -84,6 +190,7 @@ export class AnswerManager implements IAnswerManager {
       selectedAnswers: [],
       isSubmitted: false,
       isCorrect: false,
+      score: 0,
       submittedAt: undefined
     };
     
@@ -100,6 +207,22 @@ export class AnswerManager implements IAnswerManager {
     return state?.isSubmitted ?? false;
   }
   
+  /**
+   * Compares the output submitted for the current predict-output question with the expected output
+   * @param questionId - Unique identifier of the question
+   * @returns Line-by-line comparison, or null if the question is not current or has no submitted output
+   */
+  getOutputComparison(questionId: string): IOutputComparison | null {
+    const question = this.questionManager.getCurrentQuestion();
+    const submittedOutput = this.getAnswerState(questionId)?.submittedOutput;
+    
+    if (question?.id !== questionId || !isPredictOutputQuestion(question) || submittedOutput === undefined) {
+      return null;
+    }
+    
+    return this.outputValidator.compare(question.expectedOutput, submittedOutput);
+  }
+  
   /**
    * Gets the selected options for a specific question
    * @param questionId - Unique identifier of the question
@@ -110,5 +233,24 @@ export class AnswerManager implements IAnswerManager {
     return state?.selectedAnswers ? [...state.selectedAnswers] : [];
   }
   
-
-}
\ No newline at end of file
+  /**
+   * Gets the current question and verifies it is the one being answered
+   * @param questionId - Unique identifier of the question
+   * @returns The current question
+   * @throws Error if there is no current question or the ID does not match
+   */
+  private getCurrentQuestionFor(questionId: string): IQuestion {
+    // Get the current question from question manager
+    const question = this.questionManager.getCurrentQuestion();
+    if (!question) {
+      throw new Error('No current question available');
+    }
+    
+    // Verify the question ID matches (additional safety check)
+    if (question.id !== questionId) {
+      throw new Error(`Question ID mismatch. Expected: ${questionId}, Current: ${question.id}`);
+    }
+    
+    return question;
+  }
+}
@@ -1,6 +1,8 @@
 import type { IAnswerValidator } from '../interfaces/validation/IAnswerValidator';
 import type { IValidationResult } from '../interfaces/validation/IValidationResult';
 import type { IQuestion } from '../interfaces/domain/IQuestion';
+import type { IScoringStrategy } from '../interfaces/validation/IScoringStrategy';
+import { ExactMatchScoring } from './scoring';
 
 /**
  * Validates answer submissions following Single Responsibility Principle.
@@ -8,11 +10,17 @@ import type { IQuestion } from '../interfaces/domain/IQuestion';
  */
 export class AnswerValidator implements IAnswerValidator {
   
+  /**
+   * Creates a new AnswerValidator
+   * @param scoringStrategy - How partially correct selections are scored (default: all-or-nothing)
+   */
+  constructor(private readonly scoringStrategy: IScoringStrategy = new ExactMatchScoring()) {}
+  
   /**
    * Validates a submitted answer against the correct answer
    * @param question - The question being answered
    * @param selectedAnswers - Array of selected option indices
-   * @returns Validation result indicating correctness and any errors
+   * @returns Validation result indicating correctness, score and any errors
    */
   validate(question: IQuestion, selectedAnswers: number[]): IValidationResult {
     const errors: string[] = [];
@@ -36,6 +44,7 @@ export class AnswerValidator implements IAnswerValidator {
         errors,
         metadata: {
           isCorrect: false,
+          score: 0,
           selectedAnswers,
           correctAnswers: question.getCorrectAnswers()
         }
@@ -44,12 +53,14 @@ export class AnswerValidator implements IAnswerValidator {
     
     // Check if the answer is correct
     const isCorrect = this.isCorrectAnswer(question, selectedAnswers);
+    const score = this.scoreAnswer(question, selectedAnswers);
     
     return {
       isValid: true,
       errors: [],
       metadata: {
         isCorrect,
+        score,
         selectedAnswers,
         correctAnswers: question.getCorrectAnswers()
       }
@@ -142,4 +153,14 @@ export class AnswerValidator implements IAnswerValidator {
     // Check if all elements match
     return sortedSelected.every((answer, index) => answer === sortedCorrect[index]);
   }
+  
+  /**
+   * Scores the submitted answer with the configured scoring strategy
+   * @param question - The question being answered
+   * @param selectedAnswers - Array of selected option indices
+   * @returns Score from 0 (no credit) to 1 (fully correct)
+   */
+  scoreAnswer(question: IQuestion, selectedAnswers: number[]): number {
+    return this.scoringStrategy.score(question.getCorrectAnswers(), [...new Set(selectedAnswers)]);
+  }
 }
\ No newline at end of file
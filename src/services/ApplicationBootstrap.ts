@@ -5,16 +5,22 @@
  */
 
 import type { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
+import type { IQuestionLoader } from '../interfaces/repositories/IQuestionLoader';
 import type { IStateManager } from '../interfaces/services/IStateManager';
 import type { IErrorHandler } from '../interfaces/errors/IErrorHandler';
+import type { IQuestionFileSchemaValidator } from '../interfaces/validation/ISchemaValidator';
+import type { IOfflineStatus } from '../interfaces/services/IOfflineStatus';
+import type { ISearchService } from '../interfaces/services/ISearchService';
 import { DataLoadError } from '../errors/DataLoadError';
+import { ValidationError } from '../errors/ValidationError';
+import { formatSchemaViolation } from './validation/QuestionFileSchemaValidator';
 
 /**
  * Bootstrap configuration options
  */
 export interface BootstrapOptions {
   /**
-   * Base paths to search for question files
+   * Question file paths to load (defaults to the configured question paths)
    */
   questionPaths?: string[];
   
@@ -56,9 +62,11 @@ export interface LoadingProgress {
  */
 export type LoadingStage = 
   | 'discovering'
+  | 'restoring'
   | 'loading'
   | 'parsing'
   | 'validating'
+  | 'indexing'
   | 'complete'
   | 'error';
 
@@ -71,24 +79,44 @@ export interface BootstrapResult {
   filesProcessed: number;
   errors: Error[];
   duration: number;
+  /** Whether the app started without the network, from the service worker's cache */
+  runningFromCache: boolean;
 }
 
 /**
  * Application bootstrap service
  */
 export class ApplicationBootstrap {
-  private readonly defaultOptions: Required<BootstrapOptions> = {
-    questionPaths: ['data/questions/basics', 'data/questions'],
+  private readonly defaultOptions: Required<Omit<BootstrapOptions, 'questionPaths'>> = {
     enableRetry: true,
     maxRetries: 3,
     retryDelay: 1000,
     onProgress: () => {}
   };
+  private lastAttemptedPaths: string[] = [];
 
+  /**
+   * Creates a new ApplicationBootstrap instance
+   * @param questionRepository - Repository that loads and caches questions
+   * @param stateManager - Application state manager
+   * @param errorHandler - Handler for initialization errors
+   * @param questionLoader - Loader used to discover fallback files from the category manifest
+   * @param defaultQuestionPaths - Question file paths loaded when no paths are given
+   * @param dataRootPath - Data root containing metadata/categories.json
+   * @param schemaValidator - Optional validator that checks question files against their declared schema
+   * @param offlineStatus - Optional source of whether the app is running from the service worker's cache
+   * @param searchService - Optional search service whose index is built from the loaded questions
+   */
   constructor(
     private readonly questionRepository: IQuestionRepository,
     private readonly stateManager: IStateManager,
-    private readonly errorHandler: IErrorHandler
+    private readonly errorHandler: IErrorHandler,
+    private readonly questionLoader: IQuestionLoader,
+    private readonly defaultQuestionPaths: string[],
+    private readonly dataRootPath: string,
+    private readonly schemaValidator?: IQuestionFileSchemaValidator,
+    private readonly offlineStatus?: IOfflineStatus,
+    private readonly searchService?: ISearchService
   ) {}
 
   /**
@@ -100,29 +128,45 @@ export class ApplicationBootstrap {
     const config = { 
       ...this.defaultOptions, 
       ...options,
+      questionPaths: options.questionPaths || this.defaultQuestionPaths,
       // Ensure onProgress is always a function, even if undefined is passed
       onProgress: options.onProgress || this.defaultOptions.onProgress
     };
     const startTime = Date.now();
     const errors: Error[] = [];
+    const totalFiles = config.questionPaths.length;
+    const runningFromCache = this.offlineStatus?.isRunningFromCache() ?? false;
     let questionsLoaded = 0;
-    let filesProcessed = 1; // Assume at least one file processed
+    let filesProcessed = 0;
+
+    this.lastAttemptedPaths = [...config.questionPaths];
 
     try {
       // Stage 1: Initialize loading
       config.onProgress({
         stage: 'discovering',
         message: 'Discovering question files...',
-        progress: 10
+        progress: 10,
+        filesLoaded: 0,
+        totalFiles
       });
 
-      // Stage 2: Load questions with retry logic
+      if (totalFiles === 0) {
+        throw new DataLoadError('bootstrap options', new Error('No question paths were provided'));
+      }
+
+      // Restore answers saved by a previous session
       config.onProgress({
-        stage: 'loading',
-        message: 'Loading question data...',
-        progress: 30
+        stage: 'restoring',
+        message: 'Restoring saved progress...',
+        progress: 20,
+        filesLoaded: 0,
+        totalFiles
       });
 
+      await this.stateManager.hydrate();
+
+      // Stage 2: Load questions with retry logic
       const loadResult = await this.loadQuestionsWithRetry(config);
       questionsLoaded = loadResult.questionsLoaded;
       filesProcessed = loadResult.filesProcessed;
@@ -132,17 +176,40 @@ export class ApplicationBootstrap {
       config.onProgress({
         stage: 'validating',
         message: 'Validating question data...',
-        progress: 80
+        progress: 80,
+        filesLoaded: filesProcessed,
+        totalFiles
       });
 
       await this.validateLoadedQuestions();
 
-      // Stage 4: Complete initialization
+      const schemaError = await this.validateQuestionFiles(config.questionPaths);
+      if (schemaError) {
+        errors.push(schemaError);
+      }
+
+      // Stage 4: Index the questions for search
+      const { searchService } = this;
+      if (searchService) {
+        config.onProgress({
+          stage: 'indexing',
+          message: 'Building search index...',
+          progress: 90,
+          filesLoaded: filesProcessed,
+          totalFiles
+        });
+
+        await this.buildSearchIndex(searchService);
+      }
+
+      // Stage 5: Complete initialization
       config.onProgress({
         stage: 'complete',
-        message: `Successfully loaded ${questionsLoaded} questions`,
+        message: `Successfully loaded ${questionsLoaded} questions from ${filesProcessed} file${filesProcessed !== 1 ? 's' : ''}` +
+          (runningFromCache ? ' (offline, from cache)' : ''),
         progress: 100,
-        filesLoaded: filesProcessed
+        filesLoaded: filesProcessed,
+        totalFiles
       });
 
       const duration = Date.now() - startTime;
@@ -152,7 +219,8 @@ export class ApplicationBootstrap {
         questionsLoaded,
         filesProcessed,
         errors,
-        duration
+        duration,
+        runningFromCache
       };
 
     } catch (error) {
@@ -174,15 +242,27 @@ export class ApplicationBootstrap {
         questionsLoaded,
         filesProcessed,
         errors,
-        duration
+        duration,
+        runningFromCache
       };
     }
   }
 
-
+  /**
+   * Builds the search index; search is not needed to study, so a failure only disables it until the next search retries
+   * @param searchService - Search service to index the loaded questions
+   */
+  private async buildSearchIndex(searchService: ISearchService): Promise<void> {
+    try {
+      await searchService.buildIndex();
+    } catch (error) {
+      console.warn(`Search index not built: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
   /**
-   * Loads questions with retry logic
+   * Loads questions from the configured paths with retry logic.
+   * Emits one progress event per loaded file.
    * @param config - Bootstrap configuration
    * @returns Promise resolving to load result
    */
@@ -190,23 +270,42 @@ export class ApplicationBootstrap {
     config: Required<BootstrapOptions>
   ): Promise<{ questionsLoaded: number; filesProcessed: number; errors: Error[] }> {
     const errors: Error[] = [];
+    const maxAttempts = config.enableRetry ? Math.max(1, config.maxRetries) : 1;
+    const totalFiles = config.questionPaths.length;
     let questionsLoaded = 0;
-    let filesProcessed = 1;
+    let filesProcessed = 0;
 
-    for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      filesProcessed = 0;
+      
       try {
         config.onProgress({
           stage: 'loading',
-          message: `Loading questions (attempt ${attempt}/${config.maxRetries})...`,
-          progress: 30 + (attempt - 1) * 15
+          message: `Loading questions (attempt ${attempt}/${maxAttempts})...`,
+          progress: 30,
+          filesLoaded: 0,
+          totalFiles
         });
 
-        const questions = await this.questionRepository.loadQuestions();
+        const questions = await this.questionRepository.loadQuestionsFromPaths(
+          config.questionPaths,
+          event => {
+            filesProcessed = event.filesLoaded;
+            config.onProgress({
+              stage: 'loading',
+              message: `Loaded ${event.questionsInFile} questions from ${event.filePath}`,
+              progress: 30 + Math.round((event.filesLoaded / event.totalFiles) * 45),
+              filesLoaded: event.filesLoaded,
+              totalFiles: event.totalFiles,
+              currentFile: event.filePath
+            });
+          }
+        );
         questionsLoaded = questions.length;
         
         if (questionsLoaded > 0) {
           break; // Success
-        } else if (attempt === config.maxRetries) {
+        } else if (attempt === maxAttempts) {
           throw new Error('No questions were loaded after all retry attempts');
         }
         
@@ -214,7 +313,7 @@ export class ApplicationBootstrap {
         const loadError = error instanceof Error ? error : new Error('Unknown load error');
         errors.push(loadError);
         
-        if (attempt === config.maxRetries) {
+        if (attempt === maxAttempts) {
           throw loadError;
         }
         
@@ -228,20 +327,6 @@ export class ApplicationBootstrap {
     return { questionsLoaded, filesProcessed, errors };
   }
 
-  /**
-   * Updates the repository configuration with discovered files
-   * @param questionFiles - Array of discovered question file paths
-   */
-  private async updateRepositoryConfiguration(questionFiles: string[]): Promise<void> {
-    // Since we can't modify the repository configuration after creation,
-    // we'll work with the existing configuration and ensure the files are accessible
-    // The repository should be configured to load from the discovered files
-    
-    // For now, we'll validate that the repository can access the files
-    // In a more advanced implementation, we might recreate the repository
-    // with the discovered file paths
-  }
-
   /**
    * Validates that questions were loaded successfully
    * @throws Error if validation fails
@@ -274,22 +359,61 @@ export class ApplicationBootstrap {
   }
 
   /**
-   * Attempts to recover from initialization errors
+   * Checks the loaded question files against the schema they declare.
+   * Violations are reported but do not stop the application, since the parser has
+   * already accepted the questions; they are meant for content authors.
+   * @param questionPaths - Question files that were loaded
+   * @returns ValidationError listing every violation, or null if the files match their schema
+   */
+  private async validateQuestionFiles(questionPaths: string[]): Promise<ValidationError | null> {
+    if (!this.schemaValidator) {
+      return null;
+    }
+
+    const report = await this.schemaValidator.validateFiles(questionPaths);
+    if (report.isValid) {
+      return null;
+    }
+
+    const count = report.violations.length;
+    const error = new ValidationError(
+      `Question files do not match their schema (${count} violation${count !== 1 ? 's' : ''})`,
+      report.violations.map(formatSchemaViolation)
+    );
+    this.errorHandler.handleError(error);
+    return error;
+  }
+
+  /**
+   * Attempts to recover from initialization errors by loading a different set of
+   * question files: the existing files listed in the category manifest, or the
+   * default question paths when the failed attempt used other paths.
    * @param error - The error that occurred
    * @returns Promise resolving to recovery result
    */
   async attemptRecovery(error: Error): Promise<BootstrapResult> {
     
     try {
-      // Try with minimal configuration
-      const recoveryOptions: BootstrapOptions = {
-        questionPaths: ['data/questions/basics'], // Try just the basics directory
+      const recoveryPaths = await this.resolveRecoveryPaths();
+      
+      if (recoveryPaths.length === 0) {
+        throw new DataLoadError(
+          'recovery question paths',
+          new Error('No alternative question files are available')
+        );
+      }
+
+      const result = await this.initialize({
+        questionPaths: recoveryPaths,
         enableRetry: false,
         maxRetries: 1
         // onProgress will use the default empty function
-      };
+      });
 
-      return await this.initialize(recoveryOptions);
+      return {
+        ...result,
+        errors: result.success ? result.errors : [error, ...result.errors]
+      };
       
     } catch (recoveryError) {
       
@@ -298,8 +422,35 @@ export class ApplicationBootstrap {
         questionsLoaded: 0,
         filesProcessed: 0,
         errors: [error, recoveryError instanceof Error ? recoveryError : new Error('Recovery failed')],
-        duration: 0
+        duration: 0,
+        runningFromCache: this.offlineStatus?.isRunningFromCache() ?? false
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Determines which question files to load during recovery
+   * @returns Promise resolving to existing paths that differ from the failed attempt
+   */
+  private async resolveRecoveryPaths(): Promise<string[]> {
+    const attemptedPaths = new Set(this.lastAttemptedPaths);
+
+    try {
+      const discovery = await this.questionLoader.discoverQuestionFiles(this.dataRootPath);
+      const manifestPaths = discovery.files
+        .map(file => file.filePath)
+        .filter(filePath => !attemptedPaths.has(filePath));
+      
+      if (manifestPaths.length > 0) {
+        return manifestPaths;
+      }
+    } catch {
+      // Manifest unavailable; fall through to the default paths
+    }
+
+    const usedDefaultPaths = this.defaultQuestionPaths.length === attemptedPaths.size &&
+      this.defaultQuestionPaths.every(filePath => attemptedPaths.has(filePath));
+
+    return usedDefaultPaths ? [] : [...this.defaultQuestionPaths];
+  }
+}
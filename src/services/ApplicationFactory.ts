@@ -5,6 +5,11 @@
  */
 
 import { DIContainer } from './DIContainer';
+import { SessionSummaryService } from './SessionSummaryService';
+import { MemoryRouter } from './routing';
+import { ShortcutService } from './shortcuts';
+import { AnnotationService } from './annotations';
+import { AttemptHistory, AnalyticsService } from './analytics';
 import { 
   configureServices, 
   ServiceIdentifiers, 
@@ -17,6 +22,17 @@ import type { IQuestionManager } from '../interfaces/services/IQuestionManager';
 import type { IAnswerManager } from '../interfaces/services/IAnswerManager';
 import type { IStateManager } from '../interfaces/services/IStateManager';
 import type { IErrorHandler } from '../interfaces/errors/IErrorHandler';
+import type { ISessionSummaryService } from '../interfaces/services/ISessionSummaryService';
+import type { ICategoryCatalogService } from '../interfaces/services/ICategoryCatalogService';
+import type { IRouter } from '../interfaces/services/IRouter';
+import type { ISearchService } from '../interfaces/services/ISearchService';
+import type { IShortcutService } from '../interfaces/services/IShortcutService';
+import type { IAnnotationService } from '../interfaces/services/IAnnotationService';
+import type { IProgressTransferService } from '../interfaces/services/IProgressTransferService';
+import type { IAttemptHistory } from '../interfaces/services/IAttemptHistory';
+import type { IReviewScheduler } from '../interfaces/services/IReviewScheduler';
+import type { IAnalyticsService } from '../interfaces/services/IAnalyticsService';
+import type { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
 import type { IApplicationBootstrap, BootstrapOptions, BootstrapResult, LoadingProgress } from '../interfaces/services/IApplicationBootstrap';
 
 /**
@@ -26,6 +42,15 @@ export interface IApplicationContext {
   readonly questionManager: IQuestionManager;
   readonly answerManager: IAnswerManager;
   readonly stateManager: IStateManager;
+  readonly sessionSummaryService: ISessionSummaryService;
+  readonly categoryCatalogService: ICategoryCatalogService;
+  readonly searchService: ISearchService;
+  readonly router: IRouter;
+  readonly shortcutService: IShortcutService;
+  readonly annotationService: IAnnotationService;
+  readonly progressTransferService: IProgressTransferService;
+  readonly attemptHistory: IAttemptHistory;
+  readonly analyticsService: IAnalyticsService;
   readonly errorHandler: IErrorHandler;
   readonly applicationBootstrap: IApplicationBootstrap;
   readonly container: DIContainer;
@@ -92,9 +117,31 @@ export class ApplicationFactory {
     const questionManager = container.resolve<IQuestionManager>(ServiceIdentifiers.QuestionManager);
     const answerManager = container.resolve<IAnswerManager>(ServiceIdentifiers.AnswerManager);
     const stateManager = container.resolve<IStateManager>(ServiceIdentifiers.StateManager);
+    const sessionSummaryService = container.resolve<ISessionSummaryService>(ServiceIdentifiers.SessionSummaryService);
+    const categoryCatalogService = container.resolve<ICategoryCatalogService>(ServiceIdentifiers.CategoryCatalogService);
+    const searchService = container.resolve<ISearchService>(ServiceIdentifiers.SearchService);
+    const router = container.resolve<IRouter>(ServiceIdentifiers.Router);
+    const shortcutService = container.resolve<IShortcutService>(ServiceIdentifiers.ShortcutService);
+    const annotationService = container.resolve<IAnnotationService>(ServiceIdentifiers.AnnotationService);
+    const progressTransferService = container.resolve<IProgressTransferService>(ServiceIdentifiers.ProgressTransferService);
+    const attemptHistory = container.resolve<IAttemptHistory>(ServiceIdentifiers.AttemptHistory);
+    const reviewScheduler = container.resolve<IReviewScheduler>(ServiceIdentifiers.ReviewScheduler);
+    const analyticsService = container.resolve<IAnalyticsService>(ServiceIdentifiers.AnalyticsService);
     const errorHandler = container.resolve<IErrorHandler>(ServiceIdentifiers.ErrorHandler);
     const applicationBootstrap = container.resolve<IApplicationBootstrap>(ServiceIdentifiers.ApplicationBootstrap);
 
+    // Restore remapped shortcuts; an unreadable mapping falls back to the defaults
+    await shortcutService.hydrate();
+
+    // Restore personal notes; unreadable notes are discarded
+    await annotationService.hydrate();
+
+    // Restore the attempt history behind the analytics; an unreadable history is discarded
+    await attemptHistory.hydrate();
+
+    // Restore the spaced-repetition schedule; an unreadable schedule is discarded
+    await reviewScheduler.hydrate();
+
     // Auto-initialize using bootstrap if requested
     if (autoInitialize) {
       try {
@@ -133,6 +180,15 @@ export class ApplicationFactory {
       questionManager,
       answerManager,
       stateManager,
+      sessionSummaryService,
+      categoryCatalogService,
+      searchService,
+      router,
+      shortcutService,
+      annotationService,
+      progressTransferService,
+      attemptHistory,
+      analyticsService,
       errorHandler,
       applicationBootstrap,
       container
@@ -158,6 +214,15 @@ export class ApplicationFactory {
     const questionManager = container.resolve<IQuestionManager>(ServiceIdentifiers.QuestionManager);
     const answerManager = container.resolve<IAnswerManager>(ServiceIdentifiers.AnswerManager);
     const stateManager = container.resolve<IStateManager>(ServiceIdentifiers.StateManager);
+    const sessionSummaryService = container.resolve<ISessionSummaryService>(ServiceIdentifiers.SessionSummaryService);
+    const categoryCatalogService = container.resolve<ICategoryCatalogService>(ServiceIdentifiers.CategoryCatalogService);
+    const searchService = container.resolve<ISearchService>(ServiceIdentifiers.SearchService);
+    const router = container.resolve<IRouter>(ServiceIdentifiers.Router);
+    const shortcutService = container.resolve<IShortcutService>(ServiceIdentifiers.ShortcutService);
+    const annotationService = container.resolve<IAnnotationService>(ServiceIdentifiers.AnnotationService);
+    const progressTransferService = container.resolve<IProgressTransferService>(ServiceIdentifiers.ProgressTransferService);
+    const attemptHistory = container.resolve<IAttemptHistory>(ServiceIdentifiers.AttemptHistory);
+    const analyticsService = container.resolve<IAnalyticsService>(ServiceIdentifiers.AnalyticsService);
     const errorHandler = container.resolve<IErrorHandler>(ServiceIdentifiers.ErrorHandler);
     const applicationBootstrap = container.resolve<IApplicationBootstrap>(ServiceIdentifiers.ApplicationBootstrap);
 
@@ -166,6 +231,15 @@ export class ApplicationFactory {
       questionManager,
       answerManager,
       stateManager,
+      sessionSummaryService,
+      categoryCatalogService,
+      searchService,
+      router,
+      shortcutService,
+      annotationService,
+      progressTransferService,
+      attemptHistory,
+      analyticsService,
       errorHandler,
       applicationBootstrap,
       container
@@ -186,6 +260,14 @@ export class ApplicationFactory {
       answerManager: IAnswerManager;
       stateManager: IStateManager;
       errorHandler: IErrorHandler;
+      categoryCatalogService: ICategoryCatalogService;
+      searchService: ISearchService;
+      router: IRouter;
+      shortcutService: IShortcutService;
+      annotationService: IAnnotationService;
+      progressTransferService: IProgressTransferService;
+      attemptHistory: IAttemptHistory;
+      analyticsService: IAnalyticsService;
     }> = {}
   ): IApplicationContext {
     const container = new DIContainer();
@@ -194,12 +276,32 @@ export class ApplicationFactory {
     const questionManager = mockOverrides.questionManager || createMockQuestionManager();
     const answerManager = mockOverrides.answerManager || createMockAnswerManager();
     const stateManager = mockOverrides.stateManager || createMockStateManager();
+    const sessionSummaryService = new SessionSummaryService(stateManager);
+    const categoryCatalogService = mockOverrides.categoryCatalogService || createMockCategoryCatalogService();
+    const searchService = mockOverrides.searchService || createMockSearchService();
+    const router = mockOverrides.router || new MemoryRouter();
+    const shortcutService = mockOverrides.shortcutService || new ShortcutService();
+    const annotationService = mockOverrides.annotationService
+      || new AnnotationService(stateManager, createMockQuestionRepository());
+    const progressTransferService = mockOverrides.progressTransferService || createMockProgressTransferService();
+    const attemptHistory = mockOverrides.attemptHistory || new AttemptHistory();
+    const analyticsService = mockOverrides.analyticsService
+      || new AnalyticsService(attemptHistory, createMockQuestionRepository(), categoryCatalogService);
     const errorHandler = mockOverrides.errorHandler || createMockErrorHandler();
 
     // Register mocks in container
     container.registerInstance(ServiceIdentifiers.QuestionManager, questionManager);
     container.registerInstance(ServiceIdentifiers.AnswerManager, answerManager);
     container.registerInstance(ServiceIdentifiers.StateManager, stateManager);
+    container.registerInstance(ServiceIdentifiers.SessionSummaryService, sessionSummaryService);
+    container.registerInstance(ServiceIdentifiers.CategoryCatalogService, categoryCatalogService);
+    container.registerInstance(ServiceIdentifiers.SearchService, searchService);
+    container.registerInstance(ServiceIdentifiers.Router, router);
+    container.registerInstance(ServiceIdentifiers.ShortcutService, shortcutService);
+    container.registerInstance(ServiceIdentifiers.AnnotationService, annotationService);
+    container.registerInstance(ServiceIdentifiers.ProgressTransferService, progressTransferService);
+    container.registerInstance(ServiceIdentifiers.AttemptHistory, attemptHistory);
+    container.registerInstance(ServiceIdentifiers.AnalyticsService, analyticsService);
     container.registerInstance(ServiceIdentifiers.ErrorHandler, errorHandler);
 
     const applicationBootstrap = createMockApplicationBootstrap();
@@ -209,6 +311,15 @@ export class ApplicationFactory {
       questionManager,
       answerManager,
       stateManager,
+      sessionSummaryService,
+      categoryCatalogService,
+      searchService,
+      router,
+      shortcutService,
+      annotationService,
+      progressTransferService,
+      attemptHistory,
+      analyticsService,
       errorHandler,
       applicationBootstrap,
       container
@@ -242,10 +353,14 @@ function createMockQuestionManager(): IQuestionManager {
     getCurrentQuestion: () => null,
     moveToNext: () => false,
     moveToPrevious: () => false,
+    moveTo: () => false,
     resetCurrent: () => {},
     getTotalCount: () => 0,
     getCurrentIndex: () => 0,
-    initialize: async () => {}
+    initialize: async () => {},
+    startNewSession: async () => {},
+    getSessionQuestions: () => [],
+    getSessionSeed: () => null
   };
 }
 
@@ -256,6 +371,21 @@ function createMockAnswerManager(): IAnswerManager {
   return {
     submitAnswer: () => ({
       isCorrect: false,
+      score: 0,
+      correctAnswers: [],
+      explanation: '',
+      selectedAnswers: []
+    }),
+    submitOutput: () => ({
+      isCorrect: false,
+      score: 0,
+      correctAnswers: [],
+      explanation: '',
+      selectedAnswers: []
+    }),
+    recordSelfAssessment: () => ({
+      isCorrect: false,
+      score: 0,
       correctAnswers: [],
       explanation: '',
       selectedAnswers: []
@@ -263,6 +393,7 @@ function createMockAnswerManager(): IAnswerManager {
     getAnswerState: () => null,
     resetAnswer: () => {},
     isAnswered: () => false,
+    getOutputComparison: () => null,
     getSelectedOptions: () => []
   };
 }
@@ -272,15 +403,20 @@ function createMockAnswerManager(): IAnswerManager {
  */
 function createMockStateManager(): IStateManager {
   return {
+    hydrate: async () => {},
     getApplicationState: () => ({
       currentQuestionIndex: 0,
       questionStates: new Map(),
+      bookmarkedQuestionIds: new Set(),
       isInitialized: false,
       totalQuestions: 0
     }),
     updateQuestionState: () => {},
     getQuestionState: () => null,
+    setBookmarked: () => {},
+    isBookmarked: () => false,
     resetApplicationState: () => {},
+    clearQuestionStates: () => {},
     setCurrentQuestionIndex: () => {},
     getCurrentQuestionIndex: () => 0,
     setTotalQuestions: () => {},
@@ -289,6 +425,57 @@ function createMockStateManager(): IStateManager {
   };
 }
 
+/**
+ * Creates a mock question repository with an empty question bank for testing
+ */
+function createMockQuestionRepository(): IQuestionRepository {
+  return {
+    loadQuestions: async () => [],
+    loadQuestionsFromPaths: async () => [],
+    getQuestionPaths: () => [],
+    getQuestionById: async () => null,
+    getQuestionsByCategory: async () => [],
+    queryQuestions: async () => [],
+    getTotalCount: async () => 0
+  };
+}
+
+/**
+ * Creates a mock category catalog service for testing
+ */
+function createMockCategoryCatalogService(): ICategoryCatalogService {
+  return {
+    getCategories: async () => []
+  };
+}
+
+/**
+ * Creates a mock search service for testing
+ */
+function createMockSearchService(): ISearchService {
+  return {
+    buildIndex: async () => 0,
+    search: async (query: string) => ({ query, hits: [], totalHits: 0, facets: { categories: [], tags: [] } })
+  };
+}
+
+/**
+ * Creates a mock progress transfer service for testing
+ */
+function createMockProgressTransferService(): IProgressTransferService {
+  return {
+    exportProgress: async () => '{}',
+    previewImport: async () => ({
+      exportedAt: new Date(0),
+      snapshot: { questionStates: new Map(), bookmarkedQuestionIds: new Set(), notes: [], reviewStates: [] },
+      changes: { answers: 0, bookmarks: 0, notes: 0, reviews: 0 },
+      conflicts: [],
+      unknownQuestionIds: []
+    }),
+    applyImport: async () => ({ answers: 0, bookmarks: 0, notes: 0, reviews: 0 })
+  };
+}
+
 /**
  * Creates a mock error handler for testing
  */
@@ -309,14 +496,16 @@ function createMockApplicationBootstrap(): IApplicationBootstrap {
       questionsLoaded: 0,
       filesProcessed: 0,
       errors: [],
-      duration: 0
+      duration: 0,
+      runningFromCache: false
     }),
     attemptRecovery: async () => ({
       success: true,
       questionsLoaded: 0,
       filesProcessed: 0,
       errors: [],
-      duration: 0
+      duration: 0,
+      runningFromCache: false
     })
   };
 }
\ No newline at end of file
@@ -0,0 +1,155 @@
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import type { IQuestionLoader, RawCategoryManifest } from '../interfaces/repositories/IQuestionLoader';
+import type { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
+import type { IAttemptHistory, QuestionAttempt } from '../interfaces/services/IAttemptHistory';
+import type {
+  CategoryMastery,
+  CategorySummary,
+  ICategoryCatalogService,
+  SubcategorySummary
+} from '../interfaces/services/ICategoryCatalogService';
+import { subcategoryKey } from '../models/questionMetadata';
+
+/**
+ * Builds the start screen catalog from the category manifest, the loaded questions and
+ * the answer history. Questions whose category or subcategory the manifest does not list
+ * still appear, under their raw key, so every loaded question can be picked.
+ */
+export class CategoryCatalogService implements ICategoryCatalogService {
+  /**
+   * Creates a new CategoryCatalogService
+   * @param questionLoader - Loader for the category manifest
+   * @param questionRepository - Repository of the loaded questions
+   * @param attemptHistory - Every answer recorded across sessions
+   * @param dataRootPath - Directory holding the question data (default: 'data')
+   */
+  constructor(
+    private readonly questionLoader: IQuestionLoader,
+    private readonly questionRepository: IQuestionRepository,
+    private readonly attemptHistory: IAttemptHistory,
+    private readonly dataRootPath: string = 'data'
+  ) {}
+
+  /**
+   * Gets every category with its question counts and the user's mastery
+   * @returns Promise resolving to the categories in manifest order, followed by any the manifest does not list
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  async getCategories(): Promise<CategorySummary[]> {
+    const questions = await this.questionRepository.loadQuestions();
+    const manifest = await this.loadManifest();
+    const categories = new Map<string, CategorySummary>();
+    const questionsBySubcategory = new Map<string, IQuestion[]>();
+
+    for (const [id, category] of Object.entries(manifest.categories)) {
+      categories.set(id, {
+        id,
+        name: category.name,
+        description: category.description,
+        icon: category.icon,
+        color: category.color,
+        estimatedTimeMinutes: category.estimatedTimeMinutes,
+        ...this.measureMastery([]),
+        subcategories: Object.entries(category.subcategories).map(([subcategoryId, subcategory]) => ({
+          id: subcategoryId,
+          name: subcategory.name,
+          description: subcategory.description,
+          isListed: true,
+          ...this.measureMastery([])
+        }))
+      });
+    }
+
+    for (const question of questions) {
+      const category = categories.get(question.category) ?? this.createUnlistedCategory(question.category);
+      categories.set(question.category, category);
+
+      if (!category.subcategories.some(subcategory => subcategory.id === question.subcategory)) {
+        category.subcategories.push(this.createUnlistedSubcategory(question.subcategory));
+      }
+
+      const key = subcategoryKey(question.category, question.subcategory);
+      questionsBySubcategory.set(key, [...(questionsBySubcategory.get(key) ?? []), question]);
+    }
+
+    return Array.from(categories.values()).map(category => {
+      const subcategories = category.subcategories.map(subcategory => ({
+        ...subcategory,
+        ...this.measureMastery(questionsBySubcategory.get(subcategoryKey(category.id, subcategory.id)) ?? [])
+      }));
+
+      return {
+        ...category,
+        ...this.measureMastery(questions.filter(question => question.category === category.id)),
+        subcategories
+      };
+    });
+  }
+
+  /**
+   * Loads the category manifest, falling back to an empty one so the questions can still be listed
+   * @returns Promise resolving to the manifest
+   */
+  private async loadManifest(): Promise<RawCategoryManifest> {
+    try {
+      return await this.questionLoader.loadManifest(this.dataRootPath);
+    } catch (error) {
+      console.warn(`Category manifest unavailable, listing categories from questions: ${error instanceof Error ? error.message : error}`);
+      return { version: 0, lastUpdated: '', categories: {} };
+    }
+  }
+
+  /**
+   * Computes the user's progress on a group of questions
+   * @param questions - Questions in the group
+   * @returns Question, answer and correct counts with the mastery percentage
+   */
+  private measureMastery(questions: IQuestion[]): CategoryMastery {
+    const latestAttempts = new Map<string, QuestionAttempt>();
+    this.attemptHistory.getAttempts().forEach(attempt => latestAttempts.set(attempt.questionId, attempt));
+
+    const attempts = questions.map(question => latestAttempts.get(question.id));
+    const answeredCount = attempts.filter(attempt => attempt !== undefined).length;
+    const correctCount = attempts.filter(attempt => attempt?.isCorrect).length;
+
+    return {
+      questionCount: questions.length,
+      answeredCount,
+      correctCount,
+      masteryPercentage: questions.length === 0 ? 0 : Math.round((correctCount / questions.length) * 100)
+    };
+  }
+
+  /**
+   * Creates the entry for a category that only appears in the questions
+   * @param id - Category key
+   * @returns Category summary named after its key
+   */
+  private createUnlistedCategory(id: string): CategorySummary {
+    return {
+      id,
+      name: id,
+      description: '',
+      icon: '📁',
+      color: '#718096',
+      estimatedTimeMinutes: null,
+      ...this.measureMastery([]),
+      subcategories: []
+    };
+  }
+
+  /**
+   * Creates the entry for a subcategory that only appears in the questions
+   * @param id - Subcategory key
+   * @returns Subcategory summary named after its key
+   */
+  private createUnlistedSubcategory(id: string): SubcategorySummary {
+    return {
+      id,
+      name: id || 'General',
+      description: '',
+      isListed: false,
+      ...this.measureMastery([])
+    };
+  }
+}
@@ -3,6 +3,7 @@ import type { IQuestionManager, QuestionManagerInitOptions } from '../interfaces
 import type { IQuestionRepository } from '../interfaces/repositories/IQuestionRepository';
 import type { IShuffleService } from '../interfaces/services/IShuffleService';
 import type { IStateManager } from '../interfaces/services/IStateManager';
+import type { IReviewScheduler } from '../interfaces/services/IReviewScheduler';
 
 /**
  * Manages question navigation and retrieval operations.
@@ -13,15 +14,20 @@ import type { IStateManager } from '../interfaces/services/IStateManager';
 export class QuestionManager implements IQuestionManager {
   private questions: IQuestion[] = [];
   private isInitializedFlag: boolean = false;
+  private sessionSeed: number | null = null;
 
   constructor(
     private readonly questionRepository: IQuestionRepository,
     private readonly shuffleService: IShuffleService,
-    private readonly stateManager: IStateManager
+    private readonly stateManager: IStateManager,
+    private readonly reviewScheduler?: IReviewScheduler
   ) {}
 
   /**
-   * Initializes the question manager by loading questions from the repository
+   * Initializes the question manager by loading questions from the repository.
+   * The session always starts at its first question with no answers; the index and answers
+   * saved by an earlier session belong to a different deck and are not resumed.
+   * Long-term history lives in the review scheduler and attempt history instead.
    * @param options - Initialization options including randomization settings
    * @throws Error if questions cannot be loaded or if already initialized
    */
@@ -33,22 +39,47 @@ export class QuestionManager implements IQuestionManager {
     const config = {
       shuffleQuestions: true,
       shuffleOptions: true,
+      dueOnly: false,
+      bookmarkedOnly: false,
       ...options
     };
 
+    if (config.limit !== undefined && (!Number.isInteger(config.limit) || config.limit < 1)) {
+      throw new Error('Question limit must be a positive whole number');
+    }
+
     try {
-      // Load questions from repository
-      let questions = await this.questionRepository.loadQuestions();
+      // Load questions from repository, narrowed to the requested deck
+      let questions = config.filter
+        ? await this.questionRepository.queryQuestions(config.filter)
+        : await this.questionRepository.loadQuestions();
       
       if (questions.length === 0) {
-        throw new Error('No questions available to load');
+        throw new Error(config.filter ? 'No questions match the deck filter' : 'No questions available to load');
+      }
+
+      if (config.dueOnly) {
+        questions = this.selectDueQuestions(questions);
       }
 
-      // Apply randomization if enabled
-      if (config.shuffleQuestions) {
+      if (config.bookmarkedOnly) {
+        questions = this.selectBookmarkedQuestions(questions);
+      }
+
+      // Restart the shuffle sequence from the session seed so the order can be replayed
+      const seed = config.shuffleQuestions || config.shuffleOptions
+        ? this.shuffleService.reseed(config.seed)
+        : null;
+
+      // Apply randomization if enabled; a due deck keeps the scheduler's most-overdue-first order
+      if (config.shuffleQuestions && !config.dueOnly) {
         questions = this.shuffleService.shuffleQuestions(questions);
       }
 
+      if (config.limit !== undefined) {
+        questions = questions.slice(0, config.limit);
+      }
+
       if (config.shuffleOptions) {
         questions = questions.map(question => 
           this.shuffleService.shuffleQuestionOptions(question)
@@ -56,7 +87,10 @@ export class QuestionManager implements IQuestionManager {
       }
 
       this.questions = questions;
+      this.sessionSeed = seed;
       this.stateManager.setTotalQuestions(this.questions.length);
+      this.stateManager.setCurrentQuestionIndex(0);
+      this.stateManager.clearQuestionStates();
       this.stateManager.setInitialized(true);
       this.isInitializedFlag = true;
     } catch (error) {
@@ -64,6 +98,41 @@ export class QuestionManager implements IQuestionManager {
     }
   }
 
+  /**
+   * Replaces the current session with a new deck, starting from its first question.
+   * The previous session is kept if the new deck cannot be loaded.
+   * @param options - Initialization options for the new session
+   * @throws Error if not initialized or if the new deck cannot be loaded
+   */
+  async startNewSession(options?: QuestionManagerInitOptions): Promise<void> {
+    this.ensureInitialized();
+    this.isInitializedFlag = false;
+
+    try {
+      await this.initialize(options);
+    } catch (error) {
+      // initialize only replaces the questions on success, so the previous session is intact
+      this.isInitializedFlag = true;
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the questions that make up the current session, in session order
+   * @returns Array of session questions
+   */
+  getSessionQuestions(): IQuestion[] {
+    return [...this.questions];
+  }
+
+  /**
+   * Gets the seed the current session was shuffled with
+   * @returns Session seed, or null if the session was not shuffled
+   */
+  getSessionSeed(): number | null {
+    return this.sessionSeed;
+  }
+
   /**
    * Gets the currently active question
    * @returns The current question or null if no question is available
@@ -120,6 +189,23 @@ export class QuestionManager implements IQuestionManager {
     return true;
   }
 
+  /**
+   * Moves to a question of the session by position
+   * @param index - Zero-based index of the question
+   * @returns True if the index is within the session, false otherwise
+   * @throws Error if not initialized
+   */
+  moveTo(index: number): boolean {
+    this.ensureInitialized();
+
+    if (!Number.isInteger(index) || index < 0 || index >= this.questions.length) {
+      return false;
+    }
+
+    this.stateManager.setCurrentQuestionIndex(index);
+    return true;
+  }
+
   /**
    * Resets the current question to its initial state
    * This method focuses only on question navigation state, not answer state
@@ -157,6 +243,46 @@ export class QuestionManager implements IQuestionManager {
     return this.stateManager.getCurrentQuestionIndex();
   }
 
+  /**
+   * Narrows questions to the "due today" review queue, keeping the scheduler's order
+   * @param questions - All loaded questions
+   * @returns Questions due for review
+   * @throws Error if no review scheduler is configured or nothing is due
+   */
+  private selectDueQuestions(questions: IQuestion[]): IQuestion[] {
+    if (!this.reviewScheduler) {
+      throw new Error('A review scheduler is required to serve due questions');
+    }
+
+    const questionsById = new Map(questions.map(question => [question.id, question]));
+    const dueQuestions = this.reviewScheduler
+      .getDueQuestionIds(questions.map(question => question.id))
+      .map(questionId => questionsById.get(questionId))
+      .filter((question): question is IQuestion => question !== undefined);
+
+    if (dueQuestions.length === 0) {
+      throw new Error('No questions are due for review');
+    }
+
+    return dueQuestions;
+  }
+
+  /**
+   * Narrows questions to those the user bookmarked
+   * @param questions - Candidate questions
+   * @returns Bookmarked questions, in their original order
+   * @throws Error if none of the questions is bookmarked
+   */
+  private selectBookmarkedQuestions(questions: IQuestion[]): IQuestion[] {
+    const bookmarkedQuestions = questions.filter(question => this.stateManager.isBookmarked(question.id));
+
+    if (bookmarkedQuestions.length === 0) {
+      throw new Error('No bookmarked questions to practice');
+    }
+
+    return bookmarkedQuestions;
+  }
+
   /**
    * Ensures the QuestionManager is properly initialized
    * @throws Error if not initialized
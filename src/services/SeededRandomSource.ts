@@ -0,0 +1,73 @@
+import type { IRandomSource } from '../interfaces/services/IRandomSource';
+
+/**
+ * Largest seed accepted by SeededRandomSource (seeds are unsigned 32-bit integers)
+ */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Checks whether a value can be used as a shuffle seed
+ * @param seed - Candidate seed
+ * @returns True if the seed is a whole number between 0 and MAX_SEED
+ */
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
+
+/**
+ * IRandomSource implementation using the mulberry32 generator.
+ * Small and fast with a full 32-bit state, which is plenty for shuffling question decks.
+ */
+export class SeededRandomSource implements IRandomSource {
+  private seed: number = 0;
+  private state: number = 0;
+
+  /**
+   * @param seed - Initial seed (default: a fresh seed from createSeed)
+   */
+  constructor(seed?: number) {
+    this.reseed(seed ?? this.createSeed());
+  }
+
+  /**
+   * Gets the next number in the sequence
+   * @returns Number in the range [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Restarts the sequence from a seed
+   * @param seed - Whole number between 0 and MAX_SEED
+   * @throws Error if the seed is out of range
+   */
+  reseed(seed: number): void {
+    if (!isValidSeed(seed)) {
+      throw new Error(`Seed must be a whole number between 0 and ${MAX_SEED}`);
+    }
+
+    this.seed = seed;
+    this.state = seed | 0;
+  }
+
+  /**
+   * Gets the seed the current sequence was started from
+   * @returns Current seed
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Draws a fresh seed from Math.random, so unseeded sessions still differ between users
+   * @returns New seed
+   */
+  createSeed(): number {
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+  }
+}
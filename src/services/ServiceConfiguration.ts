@@ -15,8 +15,26 @@ import type { IQuestionRepository } from '../interfaces/repositories/IQuestionRe
 import type { IQuestionLoader } from '../interfaces/repositories/IQuestionLoader';
 import type { IQuestionParser } from '../interfaces/repositories/IQuestionParser';
 import type { IAnswerValidator } from '../interfaces/validation/IAnswerValidator';
+import type { IScoringStrategy, ScoringStrategyName } from '../interfaces/validation/IScoringStrategy';
+import type { IOutputValidator, OutputNormalizationOptions } from '../interfaces/validation/IOutputValidator';
+import type { IQuestionFileSchemaValidator } from '../interfaces/validation/ISchemaValidator';
 import type { IErrorHandler } from '../interfaces/errors/IErrorHandler';
 import type { IApplicationBootstrap } from '../interfaces/services/IApplicationBootstrap';
+import type { IClock } from '../interfaces/services/IClock';
+import type { IRandomSource } from '../interfaces/services/IRandomSource';
+import type { IStateStorage, StateStorageType } from '../interfaces/services/IStateStorage';
+import type { IReviewAlgorithm, IReviewScheduler, ReviewAlgorithmName } from '../interfaces/services/IReviewScheduler';
+import type { IExamSession } from '../interfaces/services/IExamSession';
+import type { ISessionSummaryService } from '../interfaces/services/ISessionSummaryService';
+import type { ICategoryCatalogService } from '../interfaces/services/ICategoryCatalogService';
+import type { IRouter } from '../interfaces/services/IRouter';
+import type { IOfflineStatus } from '../interfaces/services/IOfflineStatus';
+import type { ISearchService } from '../interfaces/services/ISearchService';
+import type { IShortcutService } from '../interfaces/services/IShortcutService';
+import type { IAnnotationService } from '../interfaces/services/IAnnotationService';
+import type { IProgressTransferService } from '../interfaces/services/IProgressTransferService';
+import type { IAttemptHistory } from '../interfaces/services/IAttemptHistory';
+import type { IAnalyticsService } from '../interfaces/services/IAnalyticsService';
 
 // Import concrete implementations
 import { QuestionManager } from './QuestionManager';
@@ -27,8 +45,26 @@ import { JsonQuestionRepository } from '../repositories/JsonQuestionRepository';
 import { QuestionLoader } from '../repositories/QuestionLoader';
 import { QuestionParser } from '../repositories/QuestionParser';
 import { AnswerValidator } from './AnswerValidator';
+import { QuestionFileSchemaValidator } from './validation';
+import { ExactMatchScoring, ProportionalScoring, PenalizedScoring } from './scoring';
+import { PredictOutputValidator } from './output';
 import { ApplicationErrorHandler } from './ErrorHandler';
 import { ApplicationBootstrap } from './ApplicationBootstrap';
+import { SystemClock } from './SystemClock';
+import { SeededRandomSource } from './SeededRandomSource';
+import { SessionSummaryService } from './SessionSummaryService';
+import { CategoryCatalogService } from './CategoryCatalogService';
+import { ReviewScheduler, Sm2Algorithm, FsrsAlgorithm, DEFAULT_REVIEW_STORAGE_KEY } from './review';
+import { InMemoryStateStorage, LocalStorageStateStorage, IndexedDbStateStorage } from './state';
+import { ExamSession } from './exam';
+import { HistoryRouter, MemoryRouter } from './routing';
+import { ServiceWorkerOfflineStatus } from './offline';
+import { QuestionSearchService } from './search';
+import { ShortcutService, DEFAULT_SHORTCUT_STORAGE_KEY } from './shortcuts';
+import { AnnotationService, DEFAULT_NOTES_STORAGE_KEY } from './annotations';
+import { ProgressTransferService } from './progress';
+import { AttemptHistory, AnalyticsService, DEFAULT_ATTEMPT_HISTORY_STORAGE_KEY } from './analytics';
+import { DEFAULT_DATA_ROOT_PATH, DEFAULT_QUESTION_PATHS } from './dataPaths';
 
 /**
  * Service identifiers for type-safe service resolution
@@ -39,7 +75,23 @@ export const ServiceIdentifiers = {
   AnswerManager: Symbol('IAnswerManager'),
   ShuffleService: Symbol('IShuffleService'),
   StateManager: Symbol('IStateManager'),
+  StateStorage: Symbol('IStateStorage'),
   ApplicationBootstrap: Symbol('IApplicationBootstrap'),
+  ReviewScheduler: Symbol('IReviewScheduler'),
+  ReviewAlgorithm: Symbol('IReviewAlgorithm'),
+  Clock: Symbol('IClock'),
+  RandomSource: Symbol('IRandomSource'),
+  ExamSession: Symbol('IExamSession'),
+  SessionSummaryService: Symbol('ISessionSummaryService'),
+  CategoryCatalogService: Symbol('ICategoryCatalogService'),
+  Router: Symbol('IRouter'),
+  OfflineStatus: Symbol('IOfflineStatus'),
+  SearchService: Symbol('ISearchService'),
+  ShortcutService: Symbol('IShortcutService'),
+  AnnotationService: Symbol('IAnnotationService'),
+  ProgressTransferService: Symbol('IProgressTransferService'),
+  AttemptHistory: Symbol('IAttemptHistory'),
+  AnalyticsService: Symbol('IAnalyticsService'),
   
   // Repositories
   QuestionRepository: Symbol('IQuestionRepository'),
@@ -48,12 +100,20 @@ export const ServiceIdentifiers = {
   
   // Validators
   AnswerValidator: Symbol('IAnswerValidator'),
+  ScoringStrategy: Symbol('IScoringStrategy'),
+  OutputValidator: Symbol('IOutputValidator'),
+  QuestionFileSchemaValidator: Symbol('IQuestionFileSchemaValidator'),
   
   // Error Handling
   ErrorHandler: Symbol('IErrorHandler'),
   
   // Configuration
-  QuestionPaths: Symbol('QuestionPaths')
+  QuestionPaths: Symbol('QuestionPaths'),
+  DataRootPath: Symbol('DataRootPath'),
+  ReviewAlgorithmName: Symbol('ReviewAlgorithmName'),
+  ScoringStrategyName: Symbol('ScoringStrategyName'),
+  OutputNormalization: Symbol('OutputNormalization'),
+  StateStorageType: Symbol('StateStorageType')
 } as const;
 
 /**
@@ -64,6 +124,34 @@ export interface ServiceConfigurationOptions {
    * Paths to question JSON files or directories
    */
   questionPaths?: string[];
+
+  /**
+   * Data root containing metadata/categories.json and the question files it lists
+   */
+  dataRootPath?: string;
+
+  /**
+   * Spaced-repetition algorithm used by the review scheduler (default: 'sm2')
+   */
+  reviewAlgorithm?: ReviewAlgorithmName;
+
+  /**
+   * How answers to multi-answer questions are scored (default: 'proportional').
+   * An answer only counts as correct when it scores full credit, whatever the strategy.
+   */
+  scoringStrategy?: ScoringStrategyName;
+
+  /**
+   * Differences ignored when typed output is compared with the expected output of
+   * predict-output questions (default: trailing whitespace and line endings, but not case)
+   */
+  outputNormalization?: Partial<OutputNormalizationOptions>;
+
+  /**
+   * Backend used to persist answers between sessions (default: 'localStorage').
+   * Falls back to in-memory storage when the browser backend is unavailable.
+   */
+  stateStorage?: StateStorageType;
 }
 
 /**
@@ -76,14 +164,21 @@ export function configureServices(
   options: ServiceConfigurationOptions = {}
 ): void {
   const {
-    questionPaths = [
-      // Consolidated question file containing all questions
-      'data/questions/csharp-interview-questions.json'
-    ]
+    questionPaths = [...DEFAULT_QUESTION_PATHS],
+    dataRootPath = DEFAULT_DATA_ROOT_PATH,
+    reviewAlgorithm = 'sm2',
+    scoringStrategy = 'proportional',
+    outputNormalization = {},
+    stateStorage = 'localStorage'
   } = options;
 
   // Register configuration values
   container.registerInstance(ServiceIdentifiers.QuestionPaths, questionPaths);
+  container.registerInstance(ServiceIdentifiers.DataRootPath, dataRootPath);
+  container.registerInstance(ServiceIdentifiers.ReviewAlgorithmName, reviewAlgorithm);
+  container.registerInstance(ServiceIdentifiers.ScoringStrategyName, scoringStrategy);
+  container.registerInstance(ServiceIdentifiers.OutputNormalization, outputNormalization);
+  container.registerInstance(ServiceIdentifiers.StateStorageType, stateStorage);
 
   // Register data access layer services
   registerDataAccessServices(container);
@@ -136,10 +231,42 @@ function registerDataAccessServices(container: DIContainer): void {
  * @param container - The DI container to register services with
  */
 function registerValidationServices(container: DIContainer): void {
-  // Register AnswerValidator as singleton
+  // Register the configured scoring strategy
+  container.registerSingleton<IScoringStrategy>(
+    ServiceIdentifiers.ScoringStrategy,
+    (container: DIContainer) => {
+      const strategyName = container.resolve<ScoringStrategyName>(ServiceIdentifiers.ScoringStrategyName);
+      switch (strategyName) {
+        case 'exact':
+          return new ExactMatchScoring();
+        case 'penalized':
+          return new PenalizedScoring();
+        default:
+          return new ProportionalScoring();
+      }
+    }
+  );
+
+  // Register AnswerValidator as singleton with its scoring strategy
   container.registerSingleton<IAnswerValidator>(
     ServiceIdentifiers.AnswerValidator,
-    () => new AnswerValidator()
+    (container: DIContainer) => new AnswerValidator(
+      container.resolve<IScoringStrategy>(ServiceIdentifiers.ScoringStrategy)
+    )
+  );
+
+  // Register PredictOutputValidator as singleton with the configured normalization
+  container.registerSingleton<IOutputValidator>(
+    ServiceIdentifiers.OutputValidator,
+    (container: DIContainer) => new PredictOutputValidator(
+      container.resolve<Partial<OutputNormalizationOptions>>(ServiceIdentifiers.OutputNormalization)
+    )
+  );
+
+  // Register the question file schema validator used during bootstrap
+  container.registerSingleton<IQuestionFileSchemaValidator>(
+    ServiceIdentifiers.QuestionFileSchemaValidator,
+    () => new QuestionFileSchemaValidator()
   );
 }
 
@@ -148,16 +275,70 @@ function registerValidationServices(container: DIContainer): void {
  * @param container - The DI container to register services with
  */
 function registerBusinessLogicServices(container: DIContainer): void {
-  // Register StateManager as singleton
+  // Register the configured state storage backend
+  container.registerSingleton<IStateStorage>(
+    ServiceIdentifiers.StateStorage,
+    (container: DIContainer) => createStateStorage(
+      container.resolve<StateStorageType>(ServiceIdentifiers.StateStorageType)
+    )
+  );
+
+  // Register StateManager as singleton with write-through storage
   container.registerSingleton<IStateManager>(
     ServiceIdentifiers.StateManager,
-    () => new StateManager()
+    (container: DIContainer) => new StateManager(
+      container.resolve<IStateStorage>(ServiceIdentifiers.StateStorage)
+    )
+  );
+
+  // Register the seedable random source shared by all shuffling
+  container.registerSingleton<IRandomSource>(
+    ServiceIdentifiers.RandomSource,
+    () => new SeededRandomSource()
   );
 
   // Register ShuffleService as singleton
   container.registerSingleton<IShuffleService>(
     ServiceIdentifiers.ShuffleService,
-    () => new ShuffleService()
+    (container: DIContainer) => new ShuffleService(
+      container.resolve<IRandomSource>(ServiceIdentifiers.RandomSource)
+    )
+  );
+
+  // Register Clock as singleton
+  container.registerSingleton<IClock>(
+    ServiceIdentifiers.Clock,
+    () => new SystemClock()
+  );
+
+  // Register the router that keeps the address in step with the current question
+  container.registerSingleton<IRouter>(
+    ServiceIdentifiers.Router,
+    () => createRouter()
+  );
+
+  // Register the configured spaced-repetition algorithm
+  container.registerSingleton<IReviewAlgorithm>(
+    ServiceIdentifiers.ReviewAlgorithm,
+    (container: DIContainer) => {
+      const algorithmName = container.resolve<ReviewAlgorithmName>(ServiceIdentifiers.ReviewAlgorithmName);
+      return algorithmName === 'fsrs' ? new FsrsAlgorithm() : new Sm2Algorithm();
+    }
+  );
+
+  // Register ReviewScheduler as singleton with dependencies
+  container.registerSingleton<IReviewScheduler>(
+    ServiceIdentifiers.ReviewScheduler,
+    (container: DIContainer) => {
+      const algorithm = container.resolve<IReviewAlgorithm>(ServiceIdentifiers.ReviewAlgorithm);
+      const clock = container.resolve<IClock>(ServiceIdentifiers.Clock);
+      const storage = createLocalStateStorage(
+        container.resolve<StateStorageType>(ServiceIdentifiers.StateStorageType),
+        DEFAULT_REVIEW_STORAGE_KEY
+      );
+      
+      return new ReviewScheduler(algorithm, clock, storage);
+    }
   );
 
   // Register QuestionManager as singleton with dependencies
@@ -167,8 +348,9 @@ function registerBusinessLogicServices(container: DIContainer): void {
       const questionRepository = container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository);
       const shuffleService = container.resolve<IShuffleService>(ServiceIdentifiers.ShuffleService);
       const stateManager = container.resolve<IStateManager>(ServiceIdentifiers.StateManager);
+      const reviewScheduler = container.resolve<IReviewScheduler>(ServiceIdentifiers.ReviewScheduler);
       
-      return new QuestionManager(questionRepository, shuffleService, stateManager);
+      return new QuestionManager(questionRepository, shuffleService, stateManager, reviewScheduler);
     }
   );
 
@@ -179,12 +361,164 @@ function registerBusinessLogicServices(container: DIContainer): void {
       const answerValidator = container.resolve<IAnswerValidator>(ServiceIdentifiers.AnswerValidator);
       const stateManager = container.resolve<IStateManager>(ServiceIdentifiers.StateManager);
       const questionManager = container.resolve<IQuestionManager>(ServiceIdentifiers.QuestionManager);
+      const reviewScheduler = container.resolve<IReviewScheduler>(ServiceIdentifiers.ReviewScheduler);
+      const outputValidator = container.resolve<IOutputValidator>(ServiceIdentifiers.OutputValidator);
+      const attemptHistory = container.resolve<IAttemptHistory>(ServiceIdentifiers.AttemptHistory);
+      
+      return new AnswerManager(
+        answerValidator, stateManager, questionManager, reviewScheduler, outputValidator, attemptHistory
+      );
+    }
+  );
+
+  // Register SessionSummaryService as singleton with dependencies
+  container.registerSingleton<ISessionSummaryService>(
+    ServiceIdentifiers.SessionSummaryService,
+    (container: DIContainer) => new SessionSummaryService(
+      container.resolve<IStateManager>(ServiceIdentifiers.StateManager)
+    )
+  );
+
+  // Register CategoryCatalogService as singleton with dependencies
+  container.registerSingleton<ICategoryCatalogService>(
+    ServiceIdentifiers.CategoryCatalogService,
+    (container: DIContainer) => new CategoryCatalogService(
+      container.resolve<IQuestionLoader>(ServiceIdentifiers.QuestionLoader),
+      container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository),
+      container.resolve<IAttemptHistory>(ServiceIdentifiers.AttemptHistory),
+      container.resolve<string>(ServiceIdentifiers.DataRootPath)
+    )
+  );
+
+  // Register SearchService as singleton so the index is built once per question bank
+  container.registerSingleton<ISearchService>(
+    ServiceIdentifiers.SearchService,
+    (container: DIContainer) => new QuestionSearchService(
+      container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository)
+    )
+  );
+
+  // Register ShortcutService as singleton so every view shares one key mapping and registry
+  container.registerSingleton<IShortcutService>(
+    ServiceIdentifiers.ShortcutService,
+    (container: DIContainer) => new ShortcutService(
+      createLocalStateStorage(
+        container.resolve<StateStorageType>(ServiceIdentifiers.StateStorageType),
+        DEFAULT_SHORTCUT_STORAGE_KEY
+      )
+    )
+  );
+
+  // Register AnnotationService as singleton so the notes are loaded once
+  container.registerSingleton<IAnnotationService>(
+    ServiceIdentifiers.AnnotationService,
+    (container: DIContainer) => new AnnotationService(
+      container.resolve<IStateManager>(ServiceIdentifiers.StateManager),
+      container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository),
+      createLocalStateStorage(
+        container.resolve<StateStorageType>(ServiceIdentifiers.StateStorageType),
+        DEFAULT_NOTES_STORAGE_KEY
+      ),
+      container.resolve<IClock>(ServiceIdentifiers.Clock)
+    )
+  );
+
+  // Register ProgressTransferService as singleton with dependencies
+  container.registerSingleton<IProgressTransferService>(
+    ServiceIdentifiers.ProgressTransferService,
+    (container: DIContainer) => new ProgressTransferService(
+      container.resolve<IStateManager>(ServiceIdentifiers.StateManager),
+      container.resolve<IAnnotationService>(ServiceIdentifiers.AnnotationService),
+      container.resolve<IReviewScheduler>(ServiceIdentifiers.ReviewScheduler),
+      container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository),
+      container.resolve<IClock>(ServiceIdentifiers.Clock)
+    )
+  );
+
+  // Register AttemptHistory as singleton so every practice answer lands in one history
+  container.registerSingleton<IAttemptHistory>(
+    ServiceIdentifiers.AttemptHistory,
+    (container: DIContainer) => new AttemptHistory(
+      createLocalStateStorage(
+        container.resolve<StateStorageType>(ServiceIdentifiers.StateStorageType),
+        DEFAULT_ATTEMPT_HISTORY_STORAGE_KEY
+      ),
+      container.resolve<IClock>(ServiceIdentifiers.Clock)
+    )
+  );
+
+  // Register AnalyticsService as singleton with dependencies
+  container.registerSingleton<IAnalyticsService>(
+    ServiceIdentifiers.AnalyticsService,
+    (container: DIContainer) => new AnalyticsService(
+      container.resolve<IAttemptHistory>(ServiceIdentifiers.AttemptHistory),
+      container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository),
+      container.resolve<ICategoryCatalogService>(ServiceIdentifiers.CategoryCatalogService),
+      container.resolve<IClock>(ServiceIdentifiers.Clock)
+    )
+  );
+
+  // Register ExamSession as transient: every exam gets its own in-memory state,
+  // so a mock interview never overwrites practice progress or review schedules
+  container.registerTransient<IExamSession>(
+    ServiceIdentifiers.ExamSession,
+    (container: DIContainer) => {
+      const questionRepository = container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository);
+      const shuffleService = container.resolve<IShuffleService>(ServiceIdentifiers.ShuffleService);
+      const answerValidator = container.resolve<IAnswerValidator>(ServiceIdentifiers.AnswerValidator);
+      const outputValidator = container.resolve<IOutputValidator>(ServiceIdentifiers.OutputValidator);
+      const clock = container.resolve<IClock>(ServiceIdentifiers.Clock);
+      
+      const examStateManager = new StateManager();
+      const examQuestionManager = new QuestionManager(questionRepository, shuffleService, examStateManager);
+      const examAnswerManager = new AnswerManager(
+        answerValidator, examStateManager, examQuestionManager, undefined, outputValidator
+      );
       
-      return new AnswerManager(answerValidator, stateManager, questionManager);
+      return new ExamSession(examQuestionManager, examAnswerManager, examStateManager, clock);
     }
   );
 }
 
+/**
+ * Creates a router, falling back to in-memory history when there is no browser window
+ * @returns Router
+ */
+function createRouter(): IRouter {
+  return typeof window !== 'undefined' ? new HistoryRouter(window) : new MemoryRouter();
+}
+
+/**
+ * Creates a state storage adapter, falling back to memory when the backend is unavailable
+ * @param type - Requested storage backend
+ * @returns State storage adapter
+ */
+function createStateStorage(type: StateStorageType): IStateStorage {
+  if (type === 'indexedDB' && typeof indexedDB !== 'undefined') {
+    return new IndexedDbStateStorage();
+  }
+  if (type === 'localStorage' && typeof localStorage !== 'undefined') {
+    return new LocalStorageStateStorage();
+  }
+  return new InMemoryStateStorage();
+}
+
+/**
+ * Creates the storage for data kept beside the application state, such as the key mapping, notes,
+ * review schedule and attempt history.
+ * That data is small and needed as soon as the app starts, so it stays in localStorage
+ * even when answers are kept in IndexedDB.
+ * @param type - Storage backend configured for the application state
+ * @param key - localStorage key to save under
+ * @returns Storage adapter
+ */
+function createLocalStateStorage(type: StateStorageType, key: string): IStateStorage {
+  if (type !== 'memory' && typeof localStorage !== 'undefined') {
+    return new LocalStorageStateStorage(key);
+  }
+  return new InMemoryStateStorage();
+}
+
 /**
  * Registers error handling services
  * @param container - The DI container to register services with
@@ -202,6 +536,12 @@ function registerErrorHandlingServices(container: DIContainer): void {
  * @param container - The DI container to register services with
  */
 function registerBootstrapServices(container: DIContainer): void {
+  // Register the offline status reported by the bootstrap
+  container.registerSingleton<IOfflineStatus>(
+    ServiceIdentifiers.OfflineStatus,
+    () => new ServiceWorkerOfflineStatus()
+  );
+
   // Register ApplicationBootstrap as singleton with dependencies
   container.registerSingleton<IApplicationBootstrap>(
     ServiceIdentifiers.ApplicationBootstrap,
@@ -209,8 +549,26 @@ function registerBootstrapServices(container: DIContainer): void {
       const questionRepository = container.resolve<IQuestionRepository>(ServiceIdentifiers.QuestionRepository);
       const stateManager = container.resolve<IStateManager>(ServiceIdentifiers.StateManager);
       const errorHandler = container.resolve<IErrorHandler>(ServiceIdentifiers.ErrorHandler);
+      const questionLoader = container.resolve<IQuestionLoader>(ServiceIdentifiers.QuestionLoader);
+      const questionPaths = container.resolve<string[]>(ServiceIdentifiers.QuestionPaths);
+      const dataRootPath = container.resolve<string>(ServiceIdentifiers.DataRootPath);
+      const schemaValidator = container.resolve<IQuestionFileSchemaValidator>(
+        ServiceIdentifiers.QuestionFileSchemaValidator
+      );
+      const offlineStatus = container.resolve<IOfflineStatus>(ServiceIdentifiers.OfflineStatus);
+      const searchService = container.resolve<ISearchService>(ServiceIdentifiers.SearchService);
       
-      return new ApplicationBootstrap(questionRepository, stateManager, errorHandler);
+      return new ApplicationBootstrap(
+        questionRepository,
+        stateManager,
+        errorHandler,
+        questionLoader,
+        questionPaths,
+        dataRootPath,
+        schemaValidator,
+        offlineStatus,
+        searchService
+      );
     }
   );
 }
@@ -0,0 +1,103 @@
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import type { IQuestionState, QuestionDifficulty } from '../interfaces/domain/types';
+import type { IStateManager } from '../interfaces/services/IStateManager';
+import type {
+  ISessionSummaryService,
+  SessionAccuracy,
+  SessionSummary
+} from '../interfaces/services/ISessionSummaryService';
+
+/**
+ * Order in which difficulty levels are reported
+ */
+const DIFFICULTY_ORDER: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Computes session results from the question states held by the state manager.
+ * Follows Single Responsibility Principle by focusing only on session statistics.
+ */
+export class SessionSummaryService implements ISessionSummaryService {
+  constructor(
+    private readonly stateManager: IStateManager
+  ) {}
+
+  /**
+   * Summarizes the answers recorded for a session's questions
+   * @param questions - Questions that made up the session
+   * @param durationMs - Time taken for the session in milliseconds
+   * @returns Session summary
+   */
+  summarize(questions: IQuestion[], durationMs: number): SessionSummary {
+    const { questionStates } = this.stateManager.getApplicationState();
+    const answered = questions.filter(question => questionStates.get(question.id)?.isSubmitted);
+    const correctCount = answered.filter(question => questionStates.get(question.id)!.isCorrect).length;
+    const score = answered.reduce((sum, question) => sum + questionStates.get(question.id)!.score, 0);
+
+    return {
+      totalQuestions: questions.length,
+      answeredCount: answered.length,
+      correctCount,
+      score,
+      scorePercentage: toPercentage(score, answered.length),
+      durationMs: Math.max(0, durationMs),
+      byCategory: this.groupAccuracy(questions, questionStates, question => question.category)
+        .sort((a, b) => a.group.localeCompare(b.group)),
+      byDifficulty: this.groupAccuracy(questions, questionStates, question => question.difficulty)
+        .sort((a, b) => difficultyRank(a.group) - difficultyRank(b.group)),
+      incorrectQuestionIds: answered
+        .filter(question => !questionStates.get(question.id)!.isCorrect)
+        .map(question => question.id)
+    };
+  }
+
+  /**
+   * Computes accuracy for each group of questions
+   * @param questions - Questions that made up the session
+   * @param questionStates - Recorded question states
+   * @param getGroup - Selects the group a question belongs to
+   * @returns Accuracy per group, in first-seen order
+   */
+  private groupAccuracy(
+    questions: IQuestion[],
+    questionStates: Map<string, IQuestionState>,
+    getGroup: (question: IQuestion) => string
+  ): SessionAccuracy[] {
+    const groups = new Map<string, SessionAccuracy>();
+
+    for (const question of questions) {
+      const group = getGroup(question);
+      const accuracy = groups.get(group) ?? { group, correct: 0, score: 0, answered: 0, total: 0, percentage: 0 };
+      const state = questionStates.get(question.id);
+
+      accuracy.total += 1;
+      if (state?.isSubmitted) {
+        accuracy.answered += 1;
+        accuracy.correct += state.isCorrect ? 1 : 0;
+        accuracy.score += state.score;
+      }
+      accuracy.percentage = toPercentage(accuracy.score, accuracy.answered);
+      groups.set(group, accuracy);
+    }
+
+    return Array.from(groups.values());
+  }
+}
+
+/**
+ * Gets the reporting position of a difficulty level
+ * @param difficulty - Difficulty level
+ * @returns Position in DIFFICULTY_ORDER
+ */
+function difficultyRank(difficulty: string): number {
+  return DIFFICULTY_ORDER.indexOf(difficulty as QuestionDifficulty);
+}
+
+/**
+ * Converts a fraction into a whole percentage
+ * @param part - Numerator
+ * @param whole - Denominator
+ * @returns Rounded percentage, or 0 when the denominator is 0
+ */
+function toPercentage(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 100);
+}
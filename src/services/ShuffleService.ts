@@ -1,14 +1,29 @@
 import type { IShuffleService } from '../interfaces/services/IShuffleService';
 import type { IQuestion } from '../interfaces/domain/IQuestion';
 import type { IOption } from '../interfaces/domain/IOption';
+import type { IRandomSource } from '../interfaces/services/IRandomSource';
 import { MultipleChoiceQuestion } from '../models/MultipleChoiceQuestion';
+import { SeededRandomSource } from './SeededRandomSource';
 
 /**
  * Implementation of IShuffleService providing randomization capabilities.
  * Uses Fisher-Yates shuffle algorithm for unbiased randomization.
  * Maintains data integrity and answer correctness during shuffling operations.
+ * Draws from an injected, seedable random source so a session's order can be reproduced.
  */
 export class ShuffleService implements IShuffleService {
+  constructor(private readonly randomSource: IRandomSource = new SeededRandomSource()) {}
+
+  /**
+   * Restarts the shuffle sequence so the same input is always shuffled the same way
+   * @param seed - Seed to restart from; a fresh seed is drawn when omitted
+   * @returns The seed now in use
+   * @throws Error if the seed is out of range
+   */
+  reseed(seed?: number): number {
+    this.randomSource.reseed(seed ?? this.randomSource.createSeed());
+    return this.randomSource.getSeed();
+  }
 
   /**
    * Shuffles an array of questions randomly using Fisher-Yates algorithm
@@ -25,7 +40,7 @@ export class ShuffleService implements IShuffleService {
     
     // Fisher-Yates shuffle algorithm
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.randomSource.next() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     
@@ -64,7 +79,12 @@ export class ShuffleService implements IShuffleService {
       question.explanation,
       question.category,
       question.difficulty,
-      question.codeExample
+      question.codeExample,
+      {
+        subcategory: question.subcategory,
+        tags: question.tags,
+        difficultyLevel: question.difficultyLevel
+      }
     );
   }
 
@@ -91,7 +111,7 @@ export class ShuffleService implements IShuffleService {
 
     // Fisher-Yates shuffle on indices
     for (let i = indices.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.randomSource.next() * (i + 1));
       [indices[i], indices[j]] = [indices[j], indices[i]];
     }
 
@@ -1,18 +1,58 @@
 import type { IStateManager } from '../interfaces/services/IStateManager';
 import type { IApplicationState, IQuestionState } from '../interfaces/domain/types';
+import type { IStateStorage } from '../interfaces/services/IStateStorage';
+import { StateSerializer } from './state/StateSerializer';
 
 /**
  * StateManager implementation for managing application state.
  * Follows Single Responsibility Principle by focusing only on state management.
  * Ensures state immutability through defensive copying.
+ * When a storage adapter is provided, hydrates from it and writes through on every change.
  */
 export class StateManager implements IStateManager {
   private state: IApplicationState;
+  private pendingWrite: Promise<void> = Promise.resolve();
 
-  constructor() {
+  constructor(
+    private readonly storage?: IStateStorage,
+    private readonly serializer: StateSerializer = new StateSerializer()
+  ) {
     this.state = this.createInitialState();
   }
 
+  /**
+   * Restores persisted answers, bookmarks and position from storage.
+   * Unreadable or malformed stored state is discarded so the application can still start.
+   * @returns Promise that resolves when hydration is complete
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const data = await this.storage.load();
+      if (data === null) {
+        return;
+      }
+
+      const restored = this.serializer.deserialize(data);
+      this.state.questionStates = restored.questionStates;
+      this.state.bookmarkedQuestionIds = restored.bookmarkedQuestionIds;
+      this.state.currentQuestionIndex = restored.currentQuestionIndex;
+    } catch (error) {
+      console.warn('Discarding stored application state:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Waits for all pending write-through operations to finish
+   * @returns Promise that resolves when storage is up to date
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
   /**
    * Creates the initial application state
    * @returns Initial application state with default values
@@ -21,6 +61,7 @@ export class StateManager implements IStateManager {
     return {
       currentQuestionIndex: 0,
       questionStates: new Map<string, IQuestionState>(),
+      bookmarkedQuestionIds: new Set<string>(),
       isInitialized: false,
       totalQuestions: 0
     };
@@ -34,6 +75,7 @@ export class StateManager implements IStateManager {
     return {
       currentQuestionIndex: this.state.currentQuestionIndex,
       questionStates: new Map(this.state.questionStates),
+      bookmarkedQuestionIds: new Set(this.state.bookmarkedQuestionIds),
       isInitialized: this.state.isInitialized,
       totalQuestions: this.state.totalQuestions
     };
@@ -52,13 +94,17 @@ export class StateManager implements IStateManager {
     // Create immutable copy of the question state
     const immutableState: IQuestionState = {
       selectedAnswers: [...state.selectedAnswers],
+      selectedOptionIds: state.selectedOptionIds ? [...state.selectedOptionIds] : undefined,
       isSubmitted: state.isSubmitted,
       isCorrect: state.isCorrect,
+      score: state.score,
+      submittedOutput: state.submittedOutput,
       submittedAt: state.submittedAt ? new Date(state.submittedAt) : undefined
     };
 
     // Update the state map with new entry
     this.state.questionStates.set(questionId, immutableState);
+    this.persist();
   }
 
   /**
@@ -79,17 +125,65 @@ export class StateManager implements IStateManager {
     // Return immutable copy
     return {
       selectedAnswers: [...state.selectedAnswers],
+      selectedOptionIds: state.selectedOptionIds ? [...state.selectedOptionIds] : undefined,
       isSubmitted: state.isSubmitted,
       isCorrect: state.isCorrect,
+      score: state.score,
+      submittedOutput: state.submittedOutput,
       submittedAt: state.submittedAt ? new Date(state.submittedAt) : undefined
     };
   }
 
+  /**
+   * Bookmarks a question or removes its bookmark
+   * @param questionId - Unique identifier of the question
+   * @param bookmarked - Whether the question should be bookmarked
+   */
+  setBookmarked(questionId: string, bookmarked: boolean): void {
+    if (!questionId) {
+      throw new Error('Question ID cannot be empty');
+    }
+
+    if (bookmarked === this.state.bookmarkedQuestionIds.has(questionId)) {
+      return;
+    }
+
+    if (bookmarked) {
+      this.state.bookmarkedQuestionIds.add(questionId);
+    } else {
+      this.state.bookmarkedQuestionIds.delete(questionId);
+    }
+    this.persist();
+  }
+
+  /**
+   * Checks if a question is bookmarked
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is bookmarked, false otherwise
+   */
+  isBookmarked(questionId: string): boolean {
+    return this.state.bookmarkedQuestionIds.has(questionId);
+  }
+
   /**
    * Resets the entire application state to initial values
    */
   resetApplicationState(): void {
     this.state = this.createInitialState();
+    this.persist();
+  }
+
+  /**
+   * Clears the answers of the current session, keeping bookmarks.
+   * Answer history across sessions is kept by the review scheduler and attempt history.
+   */
+  clearQuestionStates(): void {
+    if (this.state.questionStates.size === 0) {
+      return;
+    }
+
+    this.state.questionStates = new Map<string, IQuestionState>();
+    this.persist();
   }
 
   /**
@@ -106,6 +200,7 @@ export class StateManager implements IStateManager {
     }
 
     this.state.currentQuestionIndex = index;
+    this.persist();
   }
 
   /**
@@ -150,4 +245,22 @@ export class StateManager implements IStateManager {
   isInitialized(): boolean {
     return this.state.isInitialized;
   }
+
+  /**
+   * Queues a write of the current state to storage.
+   * Writes are serialized so the last change always wins; failures are logged, not thrown.
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+
+    const storage = this.storage;
+    const data = this.serializer.serialize(this.state);
+    this.pendingWrite = this.pendingWrite
+      .then(() => storage.save(data))
+      .catch(error => {
+        console.warn('Failed to persist application state:', error instanceof Error ? error.message : error);
+      });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import type { IClock } from '../interfaces/services/IClock';
+
+/**
+ * IClock implementation backed by the system time.
+ */
+export class SystemClock implements IClock {
+  /**
+   * Gets the current system date and time
+   * @returns Current date and time
+   */
+  now(): Date {
+    return new Date();
+  }
+}
@@ -0,0 +1,192 @@
+import type {
+  AnalyticsDimension,
+  IAnalyticsService,
+  MasteryReport,
+  MasteryStats,
+  MasteryTrendPoint,
+  TopicMastery
+} from '../../interfaces/services/IAnalyticsService';
+import type { IAttemptHistory, QuestionAttempt } from '../../interfaces/services/IAttemptHistory';
+import type { ICategoryCatalogService } from '../../interfaces/services/ICategoryCatalogService';
+import type { IQuestionRepository } from '../../interfaces/repositories/IQuestionRepository';
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { QuestionDifficulty } from '../../interfaces/domain/types';
+import type { IClock } from '../../interfaces/services/IClock';
+import { SystemClock } from '../SystemClock';
+import { subcategoryKey } from '../../models/questionMetadata';
+
+/** Number of weeks covered by each trend, including the current one */
+export const TREND_WEEKS = 8;
+
+/** Attempts a tag needs before it can be ranked among the weakest */
+export const MIN_ATTEMPTS_TO_RANK = 3;
+
+/** Number of tags in the weakest-topic deck */
+export const WEAKEST_TAG_COUNT = 3;
+
+const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+/**
+ * A topic before its statistics are measured
+ */
+interface TopicGroup {
+  key: string;
+  label: string;
+  questions: IQuestion[];
+}
+
+/**
+ * IAnalyticsService implementation.
+ * Groups the questions by category, subcategory, tag and difficulty, names the categories after the
+ * catalog, and measures each group from the attempt history.
+ */
+export class AnalyticsService implements IAnalyticsService {
+  /**
+   * Creates a new AnalyticsService
+   * @param attemptHistory - History of every answer given
+   * @param questionRepository - Question bank, used to group the attempted questions
+   * @param categoryCatalogService - Catalog naming and ordering the categories and subcategories
+   * @param clock - Clock used to date the report and its trends
+   */
+  constructor(
+    private readonly attemptHistory: IAttemptHistory,
+    private readonly questionRepository: IQuestionRepository,
+    private readonly categoryCatalogService: ICategoryCatalogService,
+    private readonly clock: IClock = new SystemClock()
+  ) {}
+
+  /**
+   * Builds the mastery report from every recorded attempt
+   * @returns Promise resolving to the overall and per-topic performance
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  async getMasteryReport(): Promise<MasteryReport> {
+    const questions = await this.questionRepository.loadQuestions();
+    const categories = await this.categoryCatalogService.getCategories();
+    const generatedAt = this.clock.now();
+    const weekStarts = getTrendWeekStarts(generatedAt);
+
+    const attemptsByQuestion = new Map<string, QuestionAttempt[]>();
+    this.attemptHistory.getAttempts().forEach(attempt => {
+      attemptsByQuestion.set(attempt.questionId, [...(attemptsByQuestion.get(attempt.questionId) ?? []), attempt]);
+    });
+
+    const groups: Record<AnalyticsDimension, TopicGroup[]> = {
+      category: categories.map(category => ({
+        key: category.id,
+        label: category.name,
+        questions: questions.filter(question => question.category === category.id)
+      })),
+      subcategory: categories.flatMap(category => category.subcategories
+        .filter(subcategory => subcategory.id !== '')
+        .map(subcategory => ({
+          key: subcategoryKey(category.id, subcategory.id),
+          label: `${category.name} › ${subcategory.name}`,
+          questions: questions.filter(question =>
+            question.category === category.id && question.subcategory === subcategory.id
+          )
+        }))),
+      tag: [...new Set(questions.flatMap(question => question.tags))].sort().map(tag => ({
+        key: tag,
+        label: tag,
+        questions: questions.filter(question => question.tags.includes(tag))
+      })),
+      difficulty: (Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => ({
+        key: difficulty,
+        label: DIFFICULTY_LABELS[difficulty],
+        questions: questions.filter(question => question.difficulty === difficulty)
+      }))
+    };
+
+    const measureGroups = (dimension: AnalyticsDimension): TopicMastery[] => groups[dimension]
+      .filter(group => group.questions.length > 0)
+      .map(group => ({
+        dimension,
+        key: group.key,
+        label: group.label,
+        ...measure(group.questions, attemptsByQuestion, weekStarts)
+      }));
+
+    const topics: Record<AnalyticsDimension, TopicMastery[]> = {
+      category: measureGroups('category'),
+      subcategory: measureGroups('subcategory'),
+      tag: measureGroups('tag'),
+      difficulty: measureGroups('difficulty')
+    };
+
+    return {
+      generatedAt,
+      overall: measure(questions, attemptsByQuestion, weekStarts),
+      topics,
+      weakestTags: topics.tag
+        .filter(topic => topic.attemptCount >= MIN_ATTEMPTS_TO_RANK)
+        .sort((first, second) =>
+          (first.accuracy ?? 0) - (second.accuracy ?? 0) ||
+          second.attemptCount - first.attemptCount ||
+          first.key.localeCompare(second.key)
+        )
+        .slice(0, WEAKEST_TAG_COUNT)
+    };
+  }
+}
+
+/**
+ * Measures the attempts on a group of questions
+ * @param questions - Questions in the group
+ * @param attemptsByQuestion - Attempts keyed by question ID
+ * @param weekStarts - Start of each trend week, oldest first
+ * @returns Statistics of the group
+ */
+function measure(
+  questions: IQuestion[],
+  attemptsByQuestion: Map<string, QuestionAttempt[]>,
+  weekStarts: Date[]
+): MasteryStats {
+  const attempts = questions.flatMap(question => attemptsByQuestion.get(question.id) ?? []);
+  const timed = attempts.flatMap(attempt => attempt.timeToAnswerMs ?? []);
+
+  return {
+    questionCount: questions.length,
+    attemptedQuestionCount: questions.filter(question => attemptsByQuestion.has(question.id)).length,
+    attemptCount: attempts.length,
+    correctCount: attempts.filter(attempt => attempt.isCorrect).length,
+    accuracy: averageScore(attempts),
+    averageTimeToAnswerMs: timed.length > 0 ? timed.reduce((sum, ms) => sum + ms, 0) / timed.length : null,
+    trend: weekStarts.map((weekStart, index): MasteryTrendPoint => {
+      const weekEnd = weekStarts[index + 1]?.getTime() ?? Infinity;
+      const weekAttempts = attempts.filter(attempt =>
+        attempt.answeredAt.getTime() >= weekStart.getTime() && attempt.answeredAt.getTime() < weekEnd
+      );
+      return { weekStart, attemptCount: weekAttempts.length, accuracy: averageScore(weekAttempts) };
+    })
+  };
+}
+
+/**
+ * Averages the credit of some attempts
+ * @param attempts - Attempts to average
+ * @returns Average credit from 0 to 1, or null if there are no attempts
+ */
+function averageScore(attempts: QuestionAttempt[]): number | null {
+  return attempts.length > 0
+    ? attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length
+    : null;
+}
+
+/**
+ * Gets the start of each trend week, ending with the week containing a date
+ * @param now - Date within the current week
+ * @returns Local midnight on the Monday of each week, oldest first
+ */
+function getTrendWeekStarts(now: Date): Date[] {
+  const monday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+  return Array.from({ length: TREND_WEEKS }, (_, index) =>
+    new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() - (TREND_WEEKS - 1 - index) * 7)
+  );
+}
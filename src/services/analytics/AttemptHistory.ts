@@ -0,0 +1,217 @@
+import type { AttemptOutcome, IAttemptHistory, QuestionAttempt } from '../../interfaces/services/IAttemptHistory';
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import type { IClock } from '../../interfaces/services/IClock';
+import { ValidationError } from '../../errors/ValidationError';
+import { SystemClock } from '../SystemClock';
+
+/** localStorage key under which the app saves the attempt history */
+export const DEFAULT_ATTEMPT_HISTORY_STORAGE_KEY = 'csharp-card:attempts';
+
+/**
+ * Version of the saved attempt history format
+ */
+export const CURRENT_ATTEMPT_HISTORY_VERSION = 1;
+
+/** Number of attempts kept; older attempts are dropped so the history stays small enough for localStorage */
+export const MAX_STORED_ATTEMPTS = 2000;
+
+/** Longest time to answer that is recorded; longer gaps mean the question was left open, not worked on */
+export const MAX_TIME_TO_ANSWER_MS = 30 * 60 * 1000;
+
+/**
+ * Saved attempt history
+ */
+interface PersistedAttemptHistory {
+  version: number;
+  attempts: Array<{
+    questionId: string;
+    isCorrect: boolean;
+    score: number;
+    /** ISO 8601 timestamp */
+    answeredAt: string;
+    timeToAnswerMs?: number;
+  }>;
+}
+
+/**
+ * IAttemptHistory implementation.
+ * Attempts are appended as answers are submitted and written through to storage,
+ * the same way the state manager saves answers.
+ */
+export class AttemptHistory implements IAttemptHistory {
+  private attempts: QuestionAttempt[] = [];
+  private readonly presentedAt = new Map<string, Date>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new AttemptHistory
+   * @param storage - Where the history is saved; without one, it lasts until the page is closed
+   * @param clock - Clock used to time-stamp and time attempts
+   */
+  constructor(
+    private readonly storage: IStateStorage | null = null,
+    private readonly clock: IClock = new SystemClock()
+  ) {}
+
+  /**
+   * Restores the history saved earlier; an unreadable history is discarded
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const data = await this.storage.load();
+      if (data !== null) {
+        this.attempts = parseAttempts(data);
+      }
+    } catch (error) {
+      console.warn('Discarding saved attempt history:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Waits for all pending writes to finish
+   * @returns Promise that resolves when storage is up to date
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * Notes that a question was shown, starting the clock for its time to answer
+   * @param questionId - Unique identifier of the question
+   */
+  markPresented(questionId: string): void {
+    this.presentedAt.set(questionId, this.clock.now());
+  }
+
+  /**
+   * Records an answer, timed from when its question was last shown.
+   * The time is left out if the question was never shown or was left open too long.
+   * @param questionId - Unique identifier of the question
+   * @param outcome - Correctness and credit of the answer
+   * @returns The recorded attempt
+   * @throws Error if the question ID is empty
+   */
+  recordAttempt(questionId: string, outcome: AttemptOutcome): QuestionAttempt {
+    if (!questionId || questionId.trim() === '') {
+      throw new Error('Question ID cannot be empty');
+    }
+
+    const answeredAt = this.clock.now();
+    const presentedAt = this.presentedAt.get(questionId);
+    const timeToAnswerMs = presentedAt ? answeredAt.getTime() - presentedAt.getTime() : undefined;
+    this.presentedAt.delete(questionId);
+
+    const attempt: QuestionAttempt = {
+      questionId,
+      isCorrect: outcome.isCorrect,
+      score: outcome.score,
+      answeredAt,
+      ...(timeToAnswerMs !== undefined && timeToAnswerMs >= 0 && timeToAnswerMs <= MAX_TIME_TO_ANSWER_MS && { timeToAnswerMs })
+    };
+
+    this.attempts.push(attempt);
+    if (this.attempts.length > MAX_STORED_ATTEMPTS) {
+      this.attempts = this.attempts.slice(-MAX_STORED_ATTEMPTS);
+    }
+    this.persist();
+
+    return copyAttempt(attempt);
+  }
+
+  /**
+   * Gets every recorded attempt
+   * @returns Copies of the attempts, oldest first
+   */
+  getAttempts(): QuestionAttempt[] {
+    return this.attempts.map(copyAttempt);
+  }
+
+  /**
+   * Queues a write of the history to storage.
+   * Writes are serialized so the last change always wins; failures are logged, not thrown.
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+
+    const storage = this.storage;
+    const persisted: PersistedAttemptHistory = {
+      version: CURRENT_ATTEMPT_HISTORY_VERSION,
+      attempts: this.attempts.map(attempt => ({
+        questionId: attempt.questionId,
+        isCorrect: attempt.isCorrect,
+        score: attempt.score,
+        answeredAt: attempt.answeredAt.toISOString(),
+        timeToAnswerMs: attempt.timeToAnswerMs
+      }))
+    };
+    const data = JSON.stringify(persisted);
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => storage.save(data))
+      .catch(error => {
+        console.warn('Failed to persist attempt history:', error instanceof Error ? error.message : error);
+      });
+  }
+}
+
+/**
+ * Copies an attempt so callers cannot change the stored one
+ * @param attempt - Attempt to copy
+ * @returns Copy with its own date
+ */
+function copyAttempt(attempt: QuestionAttempt): QuestionAttempt {
+  return { ...attempt, answeredAt: new Date(attempt.answeredAt) };
+}
+
+/**
+ * Reads a saved attempt history
+ * @param data - Serialized history
+ * @returns Attempts, oldest first
+ * @throws ValidationError if the history is malformed or from a newer version
+ */
+function parseAttempts(data: string): QuestionAttempt[] {
+  const persisted = JSON.parse(data) as Partial<PersistedAttemptHistory> | null;
+
+  if (persisted?.version !== CURRENT_ATTEMPT_HISTORY_VERSION || !Array.isArray(persisted.attempts)) {
+    throw new ValidationError('Unsupported saved attempt history', [
+      `Expected version ${CURRENT_ATTEMPT_HISTORY_VERSION} with attempts`
+    ]);
+  }
+
+  const attempts: QuestionAttempt[] = [];
+  const errors: string[] = [];
+
+  persisted.attempts.forEach((entry: unknown, index: number) => {
+    const raw = entry as Partial<Record<string, unknown>> | null;
+    const answeredAt = typeof raw?.answeredAt === 'string' ? new Date(raw.answeredAt) : null;
+    const isValid = typeof raw?.questionId === 'string' && raw.questionId !== '' &&
+      typeof raw.isCorrect === 'boolean' &&
+      typeof raw.score === 'number' && raw.score >= 0 && raw.score <= 1 &&
+      (raw.timeToAnswerMs === undefined || (typeof raw.timeToAnswerMs === 'number' && raw.timeToAnswerMs >= 0)) &&
+      answeredAt !== null && !isNaN(answeredAt.getTime());
+
+    if (!isValid) {
+      errors.push(`attempts[${index}] must have a questionId, isCorrect, a score from 0 to 1 and an ISO answeredAt`);
+      return;
+    }
+    attempts.push({
+      questionId: raw.questionId as string,
+      isCorrect: raw.isCorrect as boolean,
+      score: raw.score as number,
+      answeredAt: answeredAt as Date,
+      ...(raw.timeToAnswerMs !== undefined && { timeToAnswerMs: raw.timeToAnswerMs as number })
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Malformed saved attempt history', errors);
+  }
+
+  return attempts;
+}
@@ -0,0 +1,5 @@
+// Attempt history and analytics exports
+// AttemptHistory records every answer with its time to answer; AnalyticsService derives per-topic mastery from it
+
+export * from './AttemptHistory';
+export * from './AnalyticsService';
@@ -0,0 +1,241 @@
+import type {
+  IAnnotationService,
+  QuestionNote,
+  QuestionNoteListing
+} from '../../interfaces/services/IAnnotationService';
+import type { IStateManager } from '../../interfaces/services/IStateManager';
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import type { IQuestionRepository } from '../../interfaces/repositories/IQuestionRepository';
+import type { IClock } from '../../interfaces/services/IClock';
+import { ValidationError } from '../../errors/ValidationError';
+import { SystemClock } from '../SystemClock';
+
+/** localStorage key under which the app saves the notes */
+export const DEFAULT_NOTES_STORAGE_KEY = 'csharp-card:notes';
+
+/**
+ * Version of the saved notes format
+ */
+export const CURRENT_NOTES_VERSION = 1;
+
+/**
+ * Saved notes; the note map is stored as an array of [questionId, note] entries
+ */
+interface PersistedNotes {
+  version: number;
+  notes: Array<[string, { text: string; updatedAt: string }]>;
+}
+
+/**
+ * IAnnotationService implementation.
+ * Bookmarks live in the application state, next to the answers the question map shows them with;
+ * notes can be long, so they are kept under their own storage key and written on every change.
+ */
+export class AnnotationService implements IAnnotationService {
+  private notes = new Map<string, QuestionNote>();
+
+  /**
+   * Creates a new AnnotationService
+   * @param stateManager - State manager holding the bookmarks
+   * @param questionRepository - Question bank, used to find notes whose question was removed
+   * @param storage - Where the notes are saved; without one, notes last until the page is closed
+   * @param clock - Clock used to time-stamp notes
+   */
+  constructor(
+    private readonly stateManager: IStateManager,
+    private readonly questionRepository: IQuestionRepository,
+    private readonly storage: IStateStorage | null = null,
+    private readonly clock: IClock = new SystemClock()
+  ) {}
+
+  /**
+   * Restores the notes saved earlier; unreadable notes are discarded
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const data = await this.storage.load();
+      if (data !== null) {
+        this.notes = parseNotes(data);
+      }
+    } catch (error) {
+      console.warn('Discarding saved notes:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Checks if a question is bookmarked
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is bookmarked, false otherwise
+   */
+  isBookmarked(questionId: string): boolean {
+    return this.stateManager.isBookmarked(questionId);
+  }
+
+  /**
+   * Bookmarks a question or removes its bookmark
+   * @param questionId - Unique identifier of the question
+   * @param bookmarked - Whether the question should be bookmarked
+   */
+  setBookmarked(questionId: string, bookmarked: boolean): void {
+    this.stateManager.setBookmarked(questionId, bookmarked);
+  }
+
+  /**
+   * Gets the IDs of every bookmarked question
+   * @returns Bookmarked question IDs
+   */
+  getBookmarkedQuestionIds(): string[] {
+    return [...this.stateManager.getApplicationState().bookmarkedQuestionIds];
+  }
+
+  /**
+   * Gets the note written for a question
+   * @param questionId - Unique identifier of the question
+   * @returns Copy of the note, or null if the question has none
+   */
+  getNote(questionId: string): QuestionNote | null {
+    const note = this.notes.get(questionId);
+    return note ? copyNote(note) : null;
+  }
+
+  /**
+   * Gets every note, including notes whose question is no longer in the question bank
+   * @returns Copies of the notes
+   */
+  getAllNotes(): QuestionNote[] {
+    return Array.from(this.notes.values(), copyNote);
+  }
+
+  /**
+   * Saves the note for a question; blank text deletes the note
+   * @param questionId - Unique identifier of the question
+   * @param text - Note text in markdown
+   * @throws Error if the question ID is empty
+   */
+  async saveNote(questionId: string, text: string): Promise<void> {
+    if (!questionId) {
+      throw new Error('Question ID cannot be empty');
+    }
+
+    if (text.trim() === '') {
+      await this.deleteNote(questionId);
+      return;
+    }
+
+    this.notes.set(questionId, { questionId, text, updatedAt: this.clock.now() });
+    await this.save();
+  }
+
+  /**
+   * Deletes the note for a question
+   * @param questionId - Unique identifier of the question
+   */
+  async deleteNote(questionId: string): Promise<void> {
+    if (this.notes.delete(questionId)) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Stores notes as they are, keeping their save times, such as notes imported from another device
+   * @param notes - Notes replacing any note on the same question
+   * @throws Error if a note has no question ID
+   */
+  async restoreNotes(notes: QuestionNote[]): Promise<void> {
+    if (notes.some(note => !note.questionId)) {
+      throw new Error('Question ID cannot be empty');
+    }
+
+    notes.forEach(note => this.notes.set(note.questionId, copyNote(note)));
+    await this.save();
+  }
+
+  /**
+   * Lists every note, separating those whose question is no longer in the question bank
+   * @returns Notes with their questions and the orphaned notes, most recently saved first
+   */
+  async listNotes(): Promise<QuestionNoteListing> {
+    const questions = await this.questionRepository.loadQuestions();
+    const questionsById = new Map(questions.map(question => [question.id, question]));
+    const listing: QuestionNoteListing = { notes: [], orphanedNotes: [] };
+
+    [...this.notes.values()]
+      .sort((first, second) => second.updatedAt.getTime() - first.updatedAt.getTime())
+      .forEach(note => {
+        const question = questionsById.get(note.questionId);
+        if (question) {
+          listing.notes.push({ note: copyNote(note), question });
+        } else {
+          listing.orphanedNotes.push(copyNote(note));
+        }
+      });
+
+    return listing;
+  }
+
+  /**
+   * Writes every note to storage
+   */
+  private async save(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    const persisted: PersistedNotes = {
+      version: CURRENT_NOTES_VERSION,
+      notes: Array.from(this.notes.entries(), ([questionId, note]) => [
+        questionId,
+        { text: note.text, updatedAt: note.updatedAt.toISOString() }
+      ])
+    };
+
+    await this.storage.save(JSON.stringify(persisted));
+  }
+}
+
+/**
+ * Copies a note so callers cannot change the stored one
+ * @param note - Note to copy
+ * @returns Copy with its own date
+ */
+function copyNote(note: QuestionNote): QuestionNote {
+  return { ...note, updatedAt: new Date(note.updatedAt) };
+}
+
+/**
+ * Reads saved notes
+ * @param data - Serialized notes
+ * @returns Notes by question ID
+ * @throws ValidationError if the notes are malformed or from a newer version
+ */
+function parseNotes(data: string): Map<string, QuestionNote> {
+  const persisted = JSON.parse(data) as Partial<PersistedNotes> | null;
+
+  if (persisted?.version !== CURRENT_NOTES_VERSION || !Array.isArray(persisted.notes)) {
+    throw new ValidationError('Unsupported saved notes', [`Expected version ${CURRENT_NOTES_VERSION} with notes`]);
+  }
+
+  const notes = new Map<string, QuestionNote>();
+  const errors: string[] = [];
+
+  persisted.notes.forEach((entry: unknown, index: number) => {
+    const [questionId, raw] = Array.isArray(entry) ? entry as [unknown, Partial<{ text: unknown; updatedAt: unknown }>] : [];
+    const updatedAt = typeof raw?.updatedAt === 'string' ? new Date(raw.updatedAt) : null;
+
+    if (typeof questionId !== 'string' || typeof raw?.text !== 'string' || !updatedAt || isNaN(updatedAt.getTime())) {
+      errors.push(`notes[${index}] must be a [questionId, { text, updatedAt }] pair`);
+      return;
+    }
+    notes.set(questionId, { questionId, text: raw.text, updatedAt });
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError('Malformed saved notes', errors);
+  }
+
+  return notes;
+}
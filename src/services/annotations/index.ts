@@ -0,0 +1,4 @@
+// Bookmark and note exports
+// AnnotationService keeps personal notes by question ID and exposes the bookmarks held in the application state
+
+export * from './AnnotationService';
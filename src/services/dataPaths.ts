@@ -0,0 +1,17 @@
+/**
+ * Default locations of the question bank.
+ * Shared by the service configuration and the service worker, which precaches them.
+ */
+
+/**
+ * Data root containing metadata/categories.json and the question files it lists
+ */
+export const DEFAULT_DATA_ROOT_PATH = 'data';
+
+/**
+ * Question files loaded when no paths are configured.
+ * The consolidated file contains all questions.
+ */
+export const DEFAULT_QUESTION_PATHS: readonly string[] = [
+  'data/questions/csharp-interview-questions.json'
+];
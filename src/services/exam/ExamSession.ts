@@ -0,0 +1,402 @@
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { IQuestionManager } from '../../interfaces/services/IQuestionManager';
+import type { IAnswerManager } from '../../interfaces/services/IAnswerManager';
+import type { IStateManager } from '../../interfaces/services/IStateManager';
+import type { IClock } from '../../interfaces/services/IClock';
+import type {
+  IExamSession,
+  ExamOptions,
+  ExamQuestionStatus,
+  ExamQuestionResult,
+  ExamCategoryScore,
+  ExamSummary
+} from '../../interfaces/services/IExamSession';
+
+/**
+ * Progress of one question that has been reached during the exam
+ */
+interface ExamEntry {
+  question: IQuestion;
+  status: ExamQuestionStatus | 'pending';
+  startedAt: Date | null;
+  lockedAt: Date | null;
+}
+
+/**
+ * Timed mock-interview exam built on the question, answer and state managers.
+ * Questions are served strictly in order; leaving a question locks it, so the
+ * current question is always the last one reached.
+ * All timing goes through the injected clock so time limits can be tested deterministically.
+ */
+export class ExamSession implements IExamSession {
+  private options: ExamOptions | null = null;
+  private startedAt: Date | null = null;
+  private entries: ExamEntry[] = [];
+  private summary: ExamSummary | null = null;
+
+  /**
+   * Creates a new exam session
+   * @param questionManager - Question manager dedicated to this exam
+   * @param answerManager - Answer manager recording answers into the exam state
+   * @param stateManager - State manager holding the exam answers
+   * @param clock - Clock used for every time limit calculation
+   */
+  constructor(
+    private readonly questionManager: IQuestionManager,
+    private readonly answerManager: IAnswerManager,
+    private readonly stateManager: IStateManager,
+    private readonly clock: IClock
+  ) {}
+
+  /**
+   * Draws the exam questions and starts the clock
+   * @param options - Exam options
+   * @returns Promise that resolves when the exam has started
+   * @throws Error if the options are invalid or the exam was already started
+   */
+  async start(options: ExamOptions): Promise<void> {
+    if (this.options) {
+      throw new Error('Exam has already been started');
+    }
+    if (!Number.isInteger(options.questionCount) || options.questionCount < 1) {
+      throw new Error('Exam question count must be a positive whole number');
+    }
+    if (!(options.timeLimitSeconds > 0)) {
+      throw new Error('Exam time limit must be greater than zero');
+    }
+
+    // Flip cards are self-graded, so exams only draw questions that can be scored
+    await this.questionManager.initialize({
+      filter: { ...options.filter, types: ['multiple-choice'] },
+      limit: options.questionCount
+    });
+
+    this.options = options;
+    this.startedAt = this.clock.now();
+    this.enterCurrentQuestion();
+  }
+
+  /**
+   * Gets the question currently being answered
+   * @returns Current question or null if the exam has not started or has finished
+   */
+  getCurrentQuestion(): IQuestion | null {
+    return this.isRunning() ? this.getCurrentEntry().question : null;
+  }
+
+  /**
+   * Gets the current question index (zero-based)
+   * @returns Current question index
+   */
+  getCurrentIndex(): number {
+    return this.entries.length - 1;
+  }
+
+  /**
+   * Gets the number of questions in the exam
+   * @returns Total question count
+   */
+  getTotalCount(): number {
+    return this.questionManager.getTotalCount();
+  }
+
+  /**
+   * Gets the time left on the active countdown
+   * @returns Remaining milliseconds, never negative
+   */
+  getRemainingMs(): number {
+    if (!this.isRunning()) {
+      return 0;
+    }
+
+    return Math.max(0, this.getDeadline().getTime() - this.clock.now().getTime());
+  }
+
+  /**
+   * Applies the time limit at the current clock time, locking expired questions.
+   * Finishes the exam when a total time limit runs out.
+   */
+  checkTime(): void {
+    if (!this.isRunning() || this.getRemainingMs() > 0) {
+      return;
+    }
+
+    const deadline = this.getDeadline();
+    if (this.options!.timeLimitMode === 'total') {
+      this.end('timed-out', deadline);
+    } else {
+      this.lockCurrent('timed-out', deadline);
+    }
+  }
+
+  /**
+   * Checks whether the current question can no longer be answered
+   * @returns True if the current question is locked
+   */
+  isCurrentLocked(): boolean {
+    if (!this.isRunning()) {
+      return true;
+    }
+
+    return this.getCurrentEntry().status !== 'pending' || this.getRemainingMs() === 0;
+  }
+
+  /**
+   * Submits an answer for the current question without revealing the result
+   * @param selectedOptions - Indices of the selected options
+   * @throws Error if the question is locked or the exam is not running
+   */
+  submitAnswer(selectedOptions: number[]): void {
+    this.ensureRunning();
+    this.checkTime();
+
+    if (this.summary) {
+      throw new Error('Time is up: the exam has ended');
+    }
+
+    const entry = this.getCurrentEntry();
+    if (entry.status === 'timed-out') {
+      throw new Error('Time is up: this question is locked');
+    }
+    if (entry.status !== 'pending') {
+      throw new Error('This question has already been answered');
+    }
+
+    this.answerManager.submitAnswer(entry.question.id, selectedOptions);
+    entry.status = 'answered';
+    entry.lockedAt = this.clock.now();
+  }
+
+  /**
+   * Locks the current question and moves to the next one
+   * @returns True if moved, false if the current question was the last one
+   * @throws Error if the exam is not running
+   */
+  moveToNext(): boolean {
+    this.ensureRunning();
+    this.checkTime();
+
+    if (this.summary) {
+      return false;
+    }
+
+    this.lockCurrent('unanswered', this.clock.now());
+
+    if (!this.questionManager.moveToNext()) {
+      return false;
+    }
+
+    this.enterCurrentQuestion();
+    return true;
+  }
+
+  /**
+   * Ends the exam, locking any remaining questions
+   * @returns Exam summary
+   * @throws Error if the exam was never started
+   */
+  finish(): ExamSummary {
+    if (this.summary) {
+      return this.summary;
+    }
+    if (!this.options) {
+      throw new Error('Exam has not been started');
+    }
+
+    this.checkTime();
+    if (!this.summary) {
+      this.end('unanswered', this.clock.now());
+    }
+
+    return this.summary!;
+  }
+
+  /**
+   * Checks whether the exam has ended
+   * @returns True if the exam has ended
+   */
+  isFinished(): boolean {
+    return this.summary !== null;
+  }
+
+  /**
+   * Gets the results report once the exam has ended
+   * @returns Exam summary or null while the exam is running
+   */
+  getSummary(): ExamSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * Records the question the question manager is now pointing at and starts its countdown
+   */
+  private enterCurrentQuestion(): void {
+    const question = this.questionManager.getCurrentQuestion();
+    if (!question) {
+      throw new Error('No exam question available');
+    }
+
+    this.entries.push({
+      question,
+      status: 'pending',
+      startedAt: this.clock.now(),
+      lockedAt: null
+    });
+  }
+
+  /**
+   * Locks the current question if it is still open
+   * @param status - Outcome to record
+   * @param lockedAt - Time the question was locked
+   */
+  private lockCurrent(status: ExamQuestionStatus, lockedAt: Date): void {
+    const entry = this.getCurrentEntry();
+    if (entry.status === 'pending') {
+      entry.status = status;
+      entry.lockedAt = lockedAt;
+    }
+  }
+
+  /**
+   * Locks the current and all unreached questions, then builds the summary
+   * @param status - Outcome recorded for questions that were still open
+   * @param finishedAt - Time the exam ended
+   */
+  private end(status: ExamQuestionStatus, finishedAt: Date): void {
+    this.lockCurrent(status, finishedAt);
+
+    // Unreached questions were never shown, so no time was spent on them
+    while (this.questionManager.moveToNext()) {
+      const question = this.questionManager.getCurrentQuestion();
+      if (question) {
+        this.entries.push({ question, status, startedAt: null, lockedAt: null });
+      }
+    }
+
+    this.summary = this.buildSummary(finishedAt);
+  }
+
+  /**
+   * Builds the results report from the recorded entries and the exam answer state
+   * @param finishedAt - Time the exam ended
+   * @returns Exam summary
+   */
+  private buildSummary(finishedAt: Date): ExamSummary {
+    const results = this.entries.map(entry => this.buildResult(entry));
+    const correctCount = results.filter(result => result.isCorrect).length;
+
+    return {
+      totalQuestions: results.length,
+      correctCount,
+      answeredCount: results.filter(result => result.status === 'answered').length,
+      timedOutCount: results.filter(result => result.status === 'timed-out').length,
+      scorePercentage: toPercentage(correctCount, results.length),
+      durationMs: finishedAt.getTime() - this.startedAt!.getTime(),
+      timeLimitMode: this.options!.timeLimitMode,
+      categoryScores: this.buildCategoryScores(results),
+      results
+    };
+  }
+
+  /**
+   * Builds the result of a single question
+   * @param entry - Recorded exam entry
+   * @returns Question result
+   */
+  private buildResult(entry: ExamEntry): ExamQuestionResult {
+    const { question, startedAt, lockedAt } = entry;
+    const status = entry.status === 'pending' ? 'unanswered' : entry.status;
+    const questionState = this.stateManager.getQuestionState(question.id);
+    const isAnswered = status === 'answered' && questionState?.isSubmitted === true;
+
+    return {
+      questionId: question.id,
+      text: question.text,
+      category: question.category,
+      options: question.options.map(option => option.text),
+      status,
+      isCorrect: isAnswered && questionState!.isCorrect,
+      selectedAnswers: isAnswered ? [...questionState!.selectedAnswers] : [],
+      correctAnswers: question.getCorrectAnswers(),
+      explanation: question.explanation,
+      timeSpentMs: startedAt && lockedAt ? lockedAt.getTime() - startedAt.getTime() : 0
+    };
+  }
+
+  /**
+   * Groups question results into per-category scores
+   * @param results - Question results
+   * @returns Category scores sorted by category name
+   */
+  private buildCategoryScores(results: ExamQuestionResult[]): ExamCategoryScore[] {
+    const scores = new Map<string, { correct: number; total: number }>();
+
+    for (const result of results) {
+      const score = scores.get(result.category) ?? { correct: 0, total: 0 };
+      score.total += 1;
+      score.correct += result.isCorrect ? 1 : 0;
+      scores.set(result.category, score);
+    }
+
+    return Array.from(scores.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([category, { correct, total }]) => ({
+        category,
+        correct,
+        total,
+        percentage: toPercentage(correct, total)
+      }));
+  }
+
+  /**
+   * Gets the deadline of the active countdown
+   * @returns Deadline for the current question or the whole exam
+   */
+  private getDeadline(): Date {
+    const { timeLimitMode, timeLimitSeconds } = this.options!;
+    const countdownStart = timeLimitMode === 'total'
+      ? this.startedAt!
+      : this.getCurrentEntry().startedAt!;
+
+    return new Date(countdownStart.getTime() + timeLimitSeconds * 1000);
+  }
+
+  /**
+   * Gets the entry for the current question
+   * @returns Current exam entry
+   */
+  private getCurrentEntry(): ExamEntry {
+    return this.entries[this.entries.length - 1];
+  }
+
+  /**
+   * Checks whether the exam has started and not yet ended
+   * @returns True if the exam is running
+   */
+  private isRunning(): boolean {
+    return this.options !== null && this.summary === null;
+  }
+
+  /**
+   * Ensures the exam is running
+   * @throws Error if the exam has not started or has already ended
+   */
+  private ensureRunning(): void {
+    if (!this.options) {
+      throw new Error('Exam has not been started');
+    }
+    if (this.summary) {
+      throw new Error('Exam has already finished');
+    }
+  }
+}
+
+/**
+ * Converts a fraction into a whole percentage
+ * @param part - Numerator
+ * @param whole - Denominator
+ * @returns Rounded percentage, or 0 when the denominator is 0
+ */
+function toPercentage(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 100);
+}
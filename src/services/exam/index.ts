@@ -0,0 +1,4 @@
+// Timed exam services exports
+// ExamSession runs on its own question, answer and state managers
+
+export * from './ExamSession';
@@ -5,6 +5,46 @@ export { AnswerValidator } from './AnswerValidator';
 export { ShuffleService } from './ShuffleService';
 export { StateManager } from './StateManager';
 export { ApplicationErrorHandler, GlobalErrorHandler } from './ErrorHandler';
+export { SystemClock } from './SystemClock';
+export { SeededRandomSource, isValidSeed, MAX_SEED } from './SeededRandomSource';
+export { SessionSummaryService } from './SessionSummaryService';
+export { CategoryCatalogService } from './CategoryCatalogService';
+
+// Answer scoring strategies
+export * from './scoring';
+
+// Predict-output answer validation
+export * from './output';
+
+// Spaced-repetition review scheduling
+export * from './review';
+
+// State persistence
+export * from './state';
+
+// Timed exam sessions
+export * from './exam';
+
+// Question file schema validation
+export * from './validation';
+
+// Client-side routing
+export * from './routing';
+
+// Full-text question search
+export * from './search';
+
+// Keyboard shortcuts
+export * from './shortcuts';
+
+// Bookmarks and personal notes
+export * from './annotations';
+
+// Progress export and import
+export * from './progress';
+
+// Attempt history and mastery analytics
+export * from './analytics';
 
 // Study Mode Services (business logic isolated)
 export * from './study-modes';
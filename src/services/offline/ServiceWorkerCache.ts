@@ -0,0 +1,268 @@
+import type { RawCategoryManifest } from '../../interfaces/repositories/IQuestionLoader';
+
+/**
+ * Fetches a resource from the network
+ */
+export type FetchResource = (request: Request | string) => Promise<Response>;
+
+/**
+ * Configuration of the service worker cache
+ */
+export interface ServiceWorkerCacheOptions {
+  /** Address the relative paths below resolve against, normally the service worker's scope */
+  baseUrl: string;
+
+  /** Build identifier; each build gets its own app shell cache */
+  version: string;
+
+  /** Built assets and HTML entry page needed to start the app */
+  appShellPaths: string[];
+
+  /** Data root containing metadata/categories.json (default: 'data') */
+  dataRootPath?: string;
+
+  /** Question files to precache besides those listed in the category manifest */
+  questionPaths?: readonly string[];
+}
+
+/**
+ * How a fetch is answered
+ */
+export interface CachedFetch {
+  /** Response to give the page */
+  response: Promise<Response>;
+
+  /** Settles once any background cache refresh has finished */
+  done: Promise<void>;
+}
+
+/**
+ * Prefix shared by every cache this app owns
+ */
+export const CACHE_NAME_PREFIX = 'csharp-cards';
+
+/**
+ * Page served for navigations when the network is unavailable; every route renders it
+ */
+const OFFLINE_PAGE_PATH = 'index.html';
+
+/**
+ * Caching strategy of the service worker.
+ * The app shell is precached per build and served cache-first; question data is precached
+ * from the category manifest and served stale-while-revalidate, so studying works offline
+ * and the bank catches up as soon as the network is back. HEAD checks for question data are
+ * answered from the same cache. Navigations go to the network
+ * first and fall back to the cached entry page, so deep links open offline too.
+ */
+export class ServiceWorkerCache {
+  private readonly dataRootPath: string;
+
+  /**
+   * Creates a new ServiceWorkerCache
+   * @param caches - Cache storage of the service worker
+   * @param fetchResource - Network fetch
+   * @param options - Build version, app shell and question bank locations
+   */
+  constructor(
+    private readonly caches: CacheStorage,
+    private readonly fetchResource: FetchResource,
+    private readonly options: ServiceWorkerCacheOptions
+  ) {
+    this.dataRootPath = options.dataRootPath ?? 'data';
+  }
+
+  /**
+   * Name of the cache holding this build's app shell
+   */
+  get appShellCacheName(): string {
+    return `${CACHE_NAME_PREFIX}-shell-${this.options.version}`;
+  }
+
+  /**
+   * Name of the cache holding question data; it outlives builds so the bank stays available
+   */
+  get dataCacheName(): string {
+    return `${CACHE_NAME_PREFIX}-data`;
+  }
+
+  /**
+   * Precaches the app shell, the category manifest and every question file it lists
+   * @returns Promise resolving to the question data files that could not be cached
+   * @throws Error if an app shell file cannot be cached, so the build is not installed half-way
+   */
+  async install(): Promise<string[]> {
+    const shellCache = await this.caches.open(this.appShellCacheName);
+    await Promise.all(this.options.appShellPaths.map(path => this.store(shellCache, this.toUrl(path))));
+
+    const dataCache = await this.caches.open(this.dataCacheName);
+    const manifestUrl = this.toUrl(`${this.dataRootPath}/metadata/categories.json`);
+    const dataUrls = new Set((this.options.questionPaths ?? []).map(path => this.toUrl(path)));
+    const failed: string[] = [];
+
+    try {
+      const manifestResponse = await this.store(dataCache, manifestUrl);
+      const manifest = await manifestResponse.json() as RawCategoryManifest;
+      Object.values(manifest.categories ?? {})
+        .flatMap(category => Object.values(category.subcategories ?? {}))
+        .forEach(subcategory => dataUrls.add(this.toUrl(`${this.dataRootPath}/${subcategory.file}`)));
+    } catch {
+      failed.push(manifestUrl);
+    }
+
+    await Promise.all([...dataUrls].map(async url => {
+      try {
+        await this.store(dataCache, url);
+      } catch {
+        failed.push(url);
+      }
+    }));
+
+    return failed;
+  }
+
+  /**
+   * Removes the app shell caches of earlier builds
+   * @returns Promise resolving to the names of the removed caches
+   */
+  async activate(): Promise<string[]> {
+    const keep = new Set([this.appShellCacheName, this.dataCacheName]);
+    const stale = (await this.caches.keys())
+      .filter(name => name.startsWith(`${CACHE_NAME_PREFIX}-`) && !keep.has(name));
+
+    await Promise.all(stale.map(name => this.caches.delete(name)));
+    return stale;
+  }
+
+  /**
+   * Chooses how to answer a request
+   * @param request - Request made by the page
+   * @returns How the request is answered, or null to leave it to the browser
+   */
+  handleFetch(request: Request): CachedFetch | null {
+    const url = new URL(request.url);
+    if (url.origin !== new URL(this.options.baseUrl).origin) {
+      return null;
+    }
+
+    if (request.method === 'HEAD' && this.isQuestionData(url)) {
+      return { response: this.cachedHead(request), done: Promise.resolve() };
+    }
+
+    if (request.method !== 'GET') {
+      return null;
+    }
+
+    if (request.mode === 'navigate') {
+      return { response: this.networkFirst(request), done: Promise.resolve() };
+    }
+
+    if (this.isQuestionData(url)) {
+      return this.staleWhileRevalidate(request);
+    }
+
+    return { response: this.cacheFirst(request), done: Promise.resolve() };
+  }
+
+  /**
+   * Serves cached question data at once and refreshes it in the background
+   * @param request - Request for a question data file
+   * @returns Cached response (or the network response on a miss) and the refresh
+   */
+  private staleWhileRevalidate(request: Request): CachedFetch {
+    const cached = this.caches.open(this.dataCacheName).then(cache => cache.match(request));
+    const refreshed = this.caches.open(this.dataCacheName).then(cache => this.store(cache, request));
+
+    return {
+      response: cached.then(response => response ?? refreshed),
+      done: refreshed.then(() => undefined, () => undefined)
+    };
+  }
+
+  /**
+   * Answers existence checks for question data from the cache, so they succeed offline
+   * @param request - HEAD request for a question data file
+   * @returns Promise resolving to the cached status and headers without a body,
+   * or the network response on a cache miss
+   */
+  private async cachedHead(request: Request): Promise<Response> {
+    const cache = await this.caches.open(this.dataCacheName);
+    const cached = await cache.match(request, { ignoreMethod: true });
+    if (!cached) {
+      return this.fetchResource(request);
+    }
+
+    return new Response(null, { status: cached.status, statusText: cached.statusText, headers: cached.headers });
+  }
+
+  /**
+   * Serves app shell files from the cache, falling back to the network for anything else
+   * @param request - Request for a static asset
+   * @returns Promise resolving to the response
+   */
+  private async cacheFirst(request: Request): Promise<Response> {
+    const cache = await this.caches.open(this.appShellCacheName);
+    return (await cache.match(request)) ?? this.fetchResource(request);
+  }
+
+  /**
+   * Loads pages from the network, falling back to the cached entry page when offline
+   * @param request - Navigation request
+   * @returns Promise resolving to the response
+   * @throws Error if the network fails and no entry page is cached
+   */
+  private async networkFirst(request: Request): Promise<Response> {
+    try {
+      return await this.fetchResource(request);
+    } catch (error) {
+      const cache = await this.caches.open(this.appShellCacheName);
+      const offlinePage = await cache.match(this.toUrl(OFFLINE_PAGE_PATH));
+      if (!offlinePage) {
+        throw error;
+      }
+      return offlinePage;
+    }
+  }
+
+  /**
+   * Fetches a resource and stores a copy of a successful response
+   * @param cache - Cache to store into
+   * @param request - Resource to fetch
+   * @returns Promise resolving to the network response
+   * @throws Error if the request fails, the response is not OK, or question data is not JSON
+   */
+  private async store(cache: Cache, request: Request | string): Promise<Response> {
+    const url = typeof request === 'string' ? request : request.url;
+    const response = await this.fetchResource(request);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+
+    // SPA fallbacks answer missing files with index.html, so question data must not come with another content type
+    const contentType = response.headers.get('content-type');
+    if (this.isQuestionData(new URL(url)) && contentType && !contentType.includes('json')) {
+      throw new Error(`Unexpected content type ${contentType} for ${url}`);
+    }
+
+    await cache.put(request, response.clone());
+    return response;
+  }
+
+  /**
+   * Checks whether an address points at a question data file
+   * @param url - Requested address
+   * @returns True for JSON files under the data root
+   */
+  private isQuestionData(url: URL): boolean {
+    return url.pathname.startsWith(new URL(`${this.dataRootPath}/`, this.options.baseUrl).pathname) &&
+      url.pathname.endsWith('.json');
+  }
+
+  /**
+   * Resolves a path against the base address
+   * @param path - Path relative to the site root
+   * @returns Absolute URL
+   */
+  private toUrl(path: string): string {
+    return new URL(path.replace(/^\//, ''), this.options.baseUrl).href;
+  }
+}
@@ -0,0 +1,27 @@
+import type { IOfflineStatus } from '../../interfaces/services/IOfflineStatus';
+
+/**
+ * IOfflineStatus implementation based on the browser's service worker and network state.
+ */
+export class ServiceWorkerOfflineStatus implements IOfflineStatus {
+  /**
+   * Creates a new ServiceWorkerOfflineStatus
+   * @param browserNavigator - Navigator to inspect (default: the global navigator, if any)
+   */
+  constructor(
+    private readonly browserNavigator: Navigator | undefined =
+      typeof navigator !== 'undefined' ? navigator : undefined
+  ) {}
+
+  /**
+   * Checks whether the app is running from the service worker's cache
+   * @returns True if a service worker controls the page while the browser is offline
+   */
+  isRunningFromCache(): boolean {
+    if (!this.browserNavigator) {
+      return false;
+    }
+
+    return Boolean(this.browserNavigator.serviceWorker?.controller) && !this.browserNavigator.onLine;
+  }
+}
@@ -0,0 +1,6 @@
+// Offline support exports
+// ServiceWorkerCache runs inside the service worker; the rest runs in the page
+
+export * from './ServiceWorkerCache';
+export * from './ServiceWorkerOfflineStatus';
+export * from './registerServiceWorker';
@@ -0,0 +1,27 @@
+/**
+ * Address of the service worker script emitted by the build
+ */
+export const SERVICE_WORKER_PATH = '/sw.js';
+
+/**
+ * Registers the service worker that makes the app work offline
+ * @param serviceWorkers - Service worker container (default: the browser's, if supported)
+ * @param scriptPath - Address of the service worker script
+ * @returns Promise resolving to the registration, or null if service workers are unavailable or registration fails
+ */
+export async function registerServiceWorker(
+  serviceWorkers: ServiceWorkerContainer | undefined =
+    typeof navigator !== 'undefined' ? navigator.serviceWorker : undefined,
+  scriptPath: string = SERVICE_WORKER_PATH
+): Promise<ServiceWorkerRegistration | null> {
+  if (!serviceWorkers) {
+    return null;
+  }
+
+  try {
+    return await serviceWorkers.register(scriptPath);
+  } catch (error) {
+    console.warn(`Offline support unavailable: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
@@ -0,0 +1,93 @@
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { IOutputComparison } from '../../interfaces/domain/types';
+import { isPredictOutputQuestion } from '../../interfaces/domain/IPredictOutputQuestion';
+import type { IOutputValidator, OutputNormalizationOptions } from '../../interfaces/validation/IOutputValidator';
+import type { IValidationResult } from '../../interfaces/validation/IValidationResult';
+import { DEFAULT_OUTPUT_NORMALIZATION, outputLineKey, splitOutputLines } from './outputNormalization';
+import { diffOutputLines } from './diffOutputLines';
+
+/**
+ * Longest output, in characters, that is compared.
+ * The line diff builds a table of expected by typed lines, so pasted logs must not reach it.
+ */
+export const MAX_OUTPUT_LENGTH = 5000;
+
+/**
+ * Validates output typed for predict-output questions.
+ * The output is correct when every line matches the expected output after normalization;
+ * there is no partial credit, since a program either prints the right thing or it does not.
+ */
+export class PredictOutputValidator implements IOutputValidator {
+  private readonly options: OutputNormalizationOptions;
+
+  /**
+   * Creates a new PredictOutputValidator
+   * @param options - Differences to ignore; unset options use DEFAULT_OUTPUT_NORMALIZATION
+   */
+  constructor(options: Partial<OutputNormalizationOptions> = {}) {
+    this.options = { ...DEFAULT_OUTPUT_NORMALIZATION, ...options };
+  }
+
+  /**
+   * Validates output typed for a predict-output question
+   * @param question - The question being answered
+   * @param output - Console output as typed
+   * @returns Validation result whose metadata holds isCorrect, score and the comparison;
+   * invalid if the question does not ask for output, nothing was typed or the output is too long
+   */
+  validate(question: IQuestion, output: string): IValidationResult {
+    if (!isPredictOutputQuestion(question)) {
+      return this.invalid(`Question ${question.id} does not ask for the output of its code`);
+    }
+    if (output.trim() === '') {
+      return this.invalid('The output must not be empty');
+    }
+    if (output.length > MAX_OUTPUT_LENGTH) {
+      return this.invalid(`The output must not be longer than ${MAX_OUTPUT_LENGTH} characters`);
+    }
+
+    const comparison = this.compare(question.expectedOutput, output);
+
+    return {
+      isValid: true,
+      errors: [],
+      metadata: {
+        isCorrect: comparison.isMatch,
+        score: comparison.isMatch ? 1 : 0,
+        comparison
+      }
+    };
+  }
+
+  /**
+   * Compares typed output with the expected output line by line
+   * @param expectedOutput - Output the code produces
+   * @param actualOutput - Output as typed; only the first MAX_OUTPUT_LENGTH characters are compared
+   * @returns Whether they match after normalization, and the merged lines
+   */
+  compare(expectedOutput: string, actualOutput: string): IOutputComparison {
+    const lines = diffOutputLines(
+      splitOutputLines(expectedOutput, this.options),
+      splitOutputLines(actualOutput.slice(0, MAX_OUTPUT_LENGTH), this.options),
+      line => outputLineKey(line, this.options)
+    );
+
+    return {
+      isMatch: lines.every(line => line.kind === 'match'),
+      lines
+    };
+  }
+
+  /**
+   * Creates the result for output that cannot be validated
+   * @param error - Reason the output is invalid
+   * @returns Invalid validation result scoring no credit
+   */
+  private invalid(error: string): IValidationResult {
+    return {
+      isValid: false,
+      errors: [error],
+      metadata: { isCorrect: false, score: 0 }
+    };
+  }
+}
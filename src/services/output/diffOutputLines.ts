@@ -0,0 +1,48 @@
+import type { IOutputDiffLine } from '../../interfaces/domain/types';
+
+/**
+ * Merges expected and typed lines into a line-by-line diff.
+ * Keeps the longest run of lines the two have in common, in order, so a single
+ * missing or extra line does not make every following line differ.
+ * @param expectedLines - Lines of the expected output
+ * @param actualLines - Lines of the typed output
+ * @param key - Value lines are compared by
+ * @returns Matching lines with the missing and unexpected lines in between
+ */
+export function diffOutputLines(
+  expectedLines: string[],
+  actualLines: string[],
+  key: (line: string) => string
+): IOutputDiffLine[] {
+  const expectedKeys = expectedLines.map(key);
+  const actualKeys = actualLines.map(key);
+
+  // common[i][j] is the length of the longest common subsequence of the lines from i and j on
+  const common = Array.from({ length: expectedLines.length + 1 }, () => new Array<number>(actualLines.length + 1).fill(0));
+  for (let i = expectedLines.length - 1; i >= 0; i--) {
+    for (let j = actualLines.length - 1; j >= 0; j--) {
+      common[i][j] = expectedKeys[i] === actualKeys[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: IOutputDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expectedLines.length || j < actualLines.length) {
+    if (i < expectedLines.length && j < actualLines.length && expectedKeys[i] === actualKeys[j]) {
+      lines.push({ kind: 'match', text: expectedLines[i] });
+      i++;
+      j++;
+    } else if (j >= actualLines.length || (i < expectedLines.length && common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ kind: 'missing', text: expectedLines[i] });
+      i++;
+    } else {
+      lines.push({ kind: 'unexpected', text: actualLines[j] });
+      j++;
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,6 @@
+// Predict-output answer validation exports
+// PredictOutputValidator is registered alongside AnswerValidator and used for typed console output
+
+export * from './outputNormalization';
+export * from './diffOutputLines';
+export * from './PredictOutputValidator';
@@ -0,0 +1,40 @@
+import type { OutputNormalizationOptions } from '../../interfaces/validation/IOutputValidator';
+
+/**
+ * Normalization applied unless configured otherwise: whitespace nobody can see and the
+ * platform's line endings do not matter, but case does, as it would in a C# string.
+ */
+export const DEFAULT_OUTPUT_NORMALIZATION: OutputNormalizationOptions = {
+  ignoreTrailingWhitespace: true,
+  normalizeLineEndings: true,
+  ignoreCase: false
+};
+
+/**
+ * Splits output into the lines that are compared
+ * @param output - Console output
+ * @param options - Differences to ignore
+ * @returns Lines as written, apart from the whitespace and line endings being ignored
+ */
+export function splitOutputLines(output: string, options: OutputNormalizationOptions): string[] {
+  let lines = output.split(options.normalizeLineEndings ? /\r\n|\r|\n/ : '\n');
+
+  if (options.ignoreTrailingWhitespace) {
+    lines = lines.map(line => line.replace(/[ \t]+$/, ''));
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Gets the value a line is compared by
+ * @param line - Line from splitOutputLines
+ * @param options - Differences to ignore
+ * @returns Line, lower-cased when case is ignored
+ */
+export function outputLineKey(line: string, options: OutputNormalizationOptions): string {
+  return options.ignoreCase ? line.toLowerCase() : line;
+}
@@ -0,0 +1,238 @@
+import type { ProgressSnapshot } from '../../interfaces/services/IProgressTransferService';
+import type { QuestionNote } from '../../interfaces/services/IAnnotationService';
+import type { PersistedApplicationState } from '../../interfaces/services/IStateStorage';
+import { ValidationError } from '../../errors/ValidationError';
+import { StateSerializer } from '../state/StateSerializer';
+import { restoreReviewState, toPersistedReviewEntry, type PersistedReviewState } from '../review/reviewStateFormat';
+
+/** Marks a JSON document as a progress export of this app */
+export const PROGRESS_EXPORT_FORMAT = 'csharp-card-progress';
+
+/** Version of the progress export format written by this build */
+export const CURRENT_PROGRESS_EXPORT_VERSION = 1;
+
+/**
+ * Progress carried by an export; the checksum covers exactly this part
+ */
+interface PersistedProgress {
+  /** Answers and bookmarks, in the application state format */
+  state: PersistedApplicationState;
+  notes: Array<[string, { text: string; updatedAt: string }]>;
+  reviewStates: Array<[string, PersistedReviewState]>;
+}
+
+/**
+ * Progress export document (current format)
+ */
+interface ProgressExportDocument {
+  format: typeof PROGRESS_EXPORT_FORMAT;
+  version: number;
+  /** ISO 8601 timestamp of the export */
+  exportedAt: string;
+  /** "sha256-" followed by the hex digest of the JSON progress */
+  checksum: string;
+  progress: PersistedProgress;
+}
+
+/**
+ * Progress read from an export document
+ */
+export interface DeserializedProgress {
+  exportedAt: Date;
+  snapshot: ProgressSnapshot;
+}
+
+/**
+ * Converts progress to and from the portable export document.
+ * Answers and bookmarks reuse the application state format, so imports get the same
+ * validation and migrations as the state saved in the browser.
+ */
+export class ProgressSerializer {
+  /**
+   * Creates a new ProgressSerializer
+   * @param stateSerializer - Serializer for the answers and bookmarks
+   */
+  constructor(private readonly stateSerializer: StateSerializer = new StateSerializer()) {}
+
+  /**
+   * Serializes progress as a versioned document with a checksum
+   * @param snapshot - Progress to export
+   * @param exportedAt - Time of the export
+   * @returns Promise resolving to the JSON document
+   */
+  async serialize(snapshot: ProgressSnapshot, exportedAt: Date): Promise<string> {
+    const state = JSON.parse(this.stateSerializer.serialize({
+      currentQuestionIndex: 0,
+      questionStates: snapshot.questionStates,
+      bookmarkedQuestionIds: snapshot.bookmarkedQuestionIds,
+      isInitialized: false,
+      totalQuestions: 0
+    }, exportedAt)) as PersistedApplicationState;
+
+    const progress: PersistedProgress = {
+      state,
+      notes: snapshot.notes.map(note => [note.questionId, { text: note.text, updatedAt: note.updatedAt.toISOString() }]),
+      reviewStates: snapshot.reviewStates.map(toPersistedReviewEntry)
+    };
+
+    const document: ProgressExportDocument = {
+      format: PROGRESS_EXPORT_FORMAT,
+      version: CURRENT_PROGRESS_EXPORT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      checksum: await computeChecksum(JSON.stringify(progress)),
+      progress
+    };
+
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Reads an export document, verifying its checksum before anything else
+   * @param data - JSON document produced by serialize
+   * @returns Promise resolving to the progress and the time it was exported
+   * @throws ValidationError if the document is malformed, from a newer version or fails its checksum
+   */
+  async deserialize(data: string): Promise<DeserializedProgress> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      throw new ValidationError(
+        'Progress file is not valid JSON',
+        [error instanceof Error ? error.message : 'Unknown parse error'],
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!isRecord(parsed) || parsed.format !== PROGRESS_EXPORT_FORMAT) {
+      throw new ValidationError('File is not a progress export', [`Expected format "${PROGRESS_EXPORT_FORMAT}"`]);
+    }
+    if (parsed.version !== CURRENT_PROGRESS_EXPORT_VERSION) {
+      throw new ValidationError(
+        `Unsupported progress file version: ${String(parsed.version)}`,
+        [`Supported version is ${CURRENT_PROGRESS_EXPORT_VERSION}`]
+      );
+    }
+
+    const exportedAt = parseDate(parsed.exportedAt);
+    if (!isRecord(parsed.progress) || typeof parsed.checksum !== 'string' || !exportedAt) {
+      throw new ValidationError('Progress file is malformed', ['Expected exportedAt, checksum and progress']);
+    }
+    if (await computeChecksum(JSON.stringify(parsed.progress)) !== parsed.checksum) {
+      throw new ValidationError('Progress file checksum does not match', [
+        'The file was changed or damaged after it was exported'
+      ]);
+    }
+
+    return { exportedAt, snapshot: this.restore(parsed.progress) };
+  }
+
+  /**
+   * Validates the progress of a document and rebuilds runtime values
+   * @param progress - Progress part of the document
+   * @returns Restored progress
+   * @throws ValidationError if any part is malformed
+   */
+  private restore(progress: Record<string, unknown>): ProgressSnapshot {
+    const errors: string[] = [];
+
+    let state: ReturnType<StateSerializer['deserialize']> | null = null;
+    try {
+      state = this.stateSerializer.deserialize(JSON.stringify(progress.state ?? null));
+    } catch (error) {
+      errors.push(...(error instanceof ValidationError ? error.validationErrors : ['state is malformed']));
+    }
+
+    const notes = restoreEntries(progress.notes, 'notes', errors, (questionId, raw, path): QuestionNote | null => {
+      const updatedAt = parseDate(raw.updatedAt);
+      if (typeof raw.text !== 'string' || !updatedAt) {
+        errors.push(`${path} must have a text and an ISO updatedAt`);
+        return null;
+      }
+      return { questionId, text: raw.text, updatedAt };
+    });
+
+    const reviewStates = restoreEntries(progress.reviewStates, 'reviewStates', errors, (questionId, raw, path) =>
+      restoreReviewState(questionId, raw, path, errors)
+    );
+
+    if (errors.length > 0 || !state) {
+      throw new ValidationError('Progress file is malformed', errors);
+    }
+
+    return {
+      questionStates: state.questionStates,
+      bookmarkedQuestionIds: state.bookmarkedQuestionIds,
+      notes,
+      reviewStates
+    };
+  }
+}
+
+/**
+ * Validates and rebuilds a list of [questionId, value] entries
+ * @param entries - Raw entries
+ * @param name - Name of the list, used in error messages
+ * @param errors - Collected validation errors
+ * @param restoreValue - Rebuilds one value, or returns null after recording why it is invalid
+ * @returns Rebuilt values of the valid entries
+ */
+function restoreEntries<T>(
+  entries: unknown,
+  name: string,
+  errors: string[],
+  restoreValue: (questionId: string, raw: Record<string, unknown>, path: string) => T | null
+): T[] {
+  if (!Array.isArray(entries)) {
+    errors.push(`${name} must be an array of [questionId, value] entries`);
+    return [];
+  }
+
+  const values: T[] = [];
+  entries.forEach((entry: unknown, index: number) => {
+    const path = `${name}[${index}]`;
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string' || entry[0] === '' || !isRecord(entry[1])) {
+      errors.push(`${path} must be a [questionId, value] pair`);
+      return;
+    }
+
+    const value = restoreValue(entry[0], entry[1], path);
+    if (value !== null) {
+      values.push(value);
+    }
+  });
+  return values;
+}
+
+/**
+ * Computes the checksum of exported progress
+ * @param json - JSON of the progress
+ * @returns Promise resolving to "sha256-" followed by the hex digest
+ */
+async function computeChecksum(json: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(json));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `sha256-${hex}`;
+}
+
+/**
+ * Parses an ISO 8601 timestamp
+ * @param value - Raw value
+ * @returns Date, or null if the value is not a valid timestamp
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Checks whether a value is a non-array object
+ * @param value - Value to check
+ * @returns True if the value is a plain record
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,229 @@
+import type {
+  IProgressTransferService,
+  ProgressChangeCounts,
+  ProgressConflict,
+  ProgressConflictKind,
+  ProgressImportPreview,
+  ProgressSnapshot
+} from '../../interfaces/services/IProgressTransferService';
+import type { IStateManager } from '../../interfaces/services/IStateManager';
+import type { IAnnotationService, QuestionNote } from '../../interfaces/services/IAnnotationService';
+import type { IReviewScheduler, IReviewState } from '../../interfaces/services/IReviewScheduler';
+import type { IQuestionRepository } from '../../interfaces/repositories/IQuestionRepository';
+import type { IQuestionState } from '../../interfaces/domain/types';
+import type { IClock } from '../../interfaces/services/IClock';
+import { ProgressSerializer } from './ProgressSerializer';
+import { SystemClock } from '../SystemClock';
+
+/**
+ * Import changes worked out against the current progress
+ */
+interface ProgressMerge {
+  answers: Array<[string, IQuestionState]>;
+  bookmarks: string[];
+  notes: QuestionNote[];
+  reviews: IReviewState[];
+  conflicts: ProgressConflict[];
+}
+
+/**
+ * IProgressTransferService implementation.
+ * Exports gather progress from the state manager, annotation service and review scheduler;
+ * imports are merged into them item by item, keeping the newest version of each.
+ */
+export class ProgressTransferService implements IProgressTransferService {
+  /**
+   * Creates a new ProgressTransferService
+   * @param stateManager - State manager holding the answers and bookmarks
+   * @param annotationService - Service holding the notes
+   * @param reviewScheduler - Scheduler holding the review schedules
+   * @param questionRepository - Question bank, used to report imported questions that no longer exist
+   * @param clock - Clock used to time-stamp exports
+   * @param serializer - Serializer for the export document
+   */
+  constructor(
+    private readonly stateManager: IStateManager,
+    private readonly annotationService: IAnnotationService,
+    private readonly reviewScheduler: IReviewScheduler,
+    private readonly questionRepository: IQuestionRepository,
+    private readonly clock: IClock = new SystemClock(),
+    private readonly serializer: ProgressSerializer = new ProgressSerializer()
+  ) {}
+
+  /**
+   * Exports answers, bookmarks, notes and review schedules
+   * @returns Promise resolving to the versioned JSON document
+   */
+  async exportProgress(): Promise<string> {
+    const { questionStates, bookmarkedQuestionIds } = this.stateManager.getApplicationState();
+
+    return this.serializer.serialize({
+      questionStates,
+      bookmarkedQuestionIds,
+      notes: this.annotationService.getAllNotes(),
+      reviewStates: this.reviewScheduler.getAllReviewStates()
+    }, this.clock.now());
+  }
+
+  /**
+   * Reads a progress file and works out what importing it would change, without applying anything
+   * @param document - JSON document produced by exportProgress
+   * @returns Promise resolving to the changes, conflicts and unknown questions of the import
+   * @throws ValidationError if the document is malformed, from a newer version or fails its checksum
+   * @throws DataLoadError if the question bank cannot be loaded
+   */
+  async previewImport(document: string): Promise<ProgressImportPreview> {
+    const { exportedAt, snapshot } = await this.serializer.deserialize(document);
+    const questions = await this.questionRepository.loadQuestions();
+    const knownIds = new Set(questions.map(question => question.id));
+
+    const importedIds = new Set([
+      ...snapshot.questionStates.keys(),
+      ...snapshot.bookmarkedQuestionIds,
+      ...snapshot.notes.map(note => note.questionId),
+      ...snapshot.reviewStates.map(review => review.questionId)
+    ]);
+
+    const merge = this.merge(snapshot);
+
+    return {
+      exportedAt,
+      snapshot,
+      changes: countChanges(merge),
+      conflicts: merge.conflicts,
+      unknownQuestionIds: [...importedIds].filter(questionId => !knownIds.has(questionId)).sort()
+    };
+  }
+
+  /**
+   * Merges previewed progress into this device's progress.
+   * The merge is worked out again, so progress made since the preview is not overwritten by older imports.
+   * @param preview - Preview returned by previewImport
+   * @returns Promise resolving to the items added or replaced
+   */
+  async applyImport(preview: ProgressImportPreview): Promise<ProgressChangeCounts> {
+    const merge = this.merge(preview.snapshot);
+
+    merge.answers.forEach(([questionId, state]) => this.stateManager.updateQuestionState(questionId, state));
+    merge.bookmarks.forEach(questionId => this.stateManager.setBookmarked(questionId, true));
+    merge.reviews.forEach(review => this.reviewScheduler.restoreReviewState(review));
+    if (merge.notes.length > 0) {
+      await this.annotationService.restoreNotes(merge.notes);
+    }
+
+    return countChanges(merge);
+  }
+
+  /**
+   * Works out which imported items are new or newer than the progress on this device
+   * @param snapshot - Imported progress
+   * @returns Items to apply and the conflicts found
+   */
+  private merge(snapshot: ProgressSnapshot): ProgressMerge {
+    const merge: ProgressMerge = { answers: [], bookmarks: [], notes: [], reviews: [], conflicts: [] };
+
+    snapshot.questionStates.forEach((imported, questionId) => {
+      const local = this.stateManager.getQuestionState(questionId);
+      if (this.resolve(merge, questionId, 'answer', local, imported, state => state.submittedAt ?? null, isSameAnswer)) {
+        merge.answers.push([questionId, imported]);
+      }
+    });
+
+    merge.bookmarks = [...snapshot.bookmarkedQuestionIds]
+      .filter(questionId => !this.stateManager.isBookmarked(questionId));
+
+    snapshot.notes.forEach(imported => {
+      const local = this.annotationService.getNote(imported.questionId);
+      if (this.resolve(merge, imported.questionId, 'note', local, imported, note => note.updatedAt, (a, b) => a.text === b.text)) {
+        merge.notes.push(imported);
+      }
+    });
+
+    snapshot.reviewStates.forEach(imported => {
+      const local = this.reviewScheduler.getReviewState(imported.questionId);
+      if (this.resolve(merge, imported.questionId, 'review', local, imported, review => review.lastReviewedAt ?? null, isSameReview)) {
+        merge.reviews.push(imported);
+      }
+    });
+
+    return merge;
+  }
+
+  /**
+   * Decides whether an imported item replaces the local one, recording a conflict when both exist and differ.
+   * The item recorded most recently wins; on a tie, or when neither time is known, the local item is kept.
+   * @param merge - Merge collecting the conflicts
+   * @param questionId - ID of the question
+   * @param kind - Kind of progress
+   * @param local - Item on this device, or null if there is none
+   * @param imported - Item from the file
+   * @param recordedAt - Gets when an item was recorded
+   * @param isSame - Checks whether two items hold the same progress
+   * @returns True if the imported item should be applied
+   */
+  private resolve<T>(
+    merge: ProgressMerge,
+    questionId: string,
+    kind: ProgressConflictKind,
+    local: T | null,
+    imported: T,
+    recordedAt: (item: T) => Date | null,
+    isSame: (local: T, imported: T) => boolean
+  ): boolean {
+    if (local === null) {
+      return true;
+    }
+    if (isSame(local, imported)) {
+      return false;
+    }
+
+    const localAt = recordedAt(local);
+    const importedAt = recordedAt(imported);
+    const useImported = importedAt !== null && (localAt === null || importedAt.getTime() > localAt.getTime());
+
+    merge.conflicts.push({
+      questionId,
+      kind,
+      localAt,
+      importedAt,
+      resolution: useImported ? 'use-imported' : 'keep-local'
+    });
+    return useImported;
+  }
+}
+
+/**
+ * Counts the items a merge adds or replaces
+ * @param merge - Worked-out merge
+ * @returns Counts by kind
+ */
+function countChanges(merge: ProgressMerge): ProgressChangeCounts {
+  return {
+    answers: merge.answers.length,
+    bookmarks: merge.bookmarks.length,
+    notes: merge.notes.length,
+    reviews: merge.reviews.length
+  };
+}
+
+/**
+ * Checks whether two answer states record the same attempt
+ */
+function isSameAnswer(local: IQuestionState, imported: IQuestionState): boolean {
+  return local.isSubmitted === imported.isSubmitted &&
+    local.score === imported.score &&
+    local.isCorrect === imported.isCorrect &&
+    local.submittedOutput === imported.submittedOutput &&
+    local.submittedAt?.getTime() === imported.submittedAt?.getTime() &&
+    (local.selectedOptionIds ?? []).join(',') === (imported.selectedOptionIds ?? []).join(',');
+}
+
+/**
+ * Checks whether two review states are the same schedule
+ */
+function isSameReview(local: IReviewState, imported: IReviewState): boolean {
+  return local.algorithm === imported.algorithm &&
+    local.repetitions === imported.repetitions &&
+    local.dueDate.getTime() === imported.dueDate.getTime() &&
+    local.lastReviewedAt?.getTime() === imported.lastReviewedAt?.getTime();
+}
@@ -0,0 +1,5 @@
+// Progress export and import exports
+// ProgressSerializer owns the portable file format; ProgressTransferService merges imports into local progress
+
+export * from './ProgressSerializer';
+export * from './ProgressTransferService';
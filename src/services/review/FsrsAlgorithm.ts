@@ -0,0 +1,198 @@
+import type { IReviewAlgorithm, IReviewState, ReviewRating } from '../../interfaces/services/IReviewScheduler';
+import { addDays, daysBetween } from './reviewDates';
+
+/** Default FSRS v4 model weights */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61
+];
+
+/** Probability of recall the scheduler aims for when a question becomes due */
+const DEFAULT_REQUEST_RETENTION = 0.9;
+
+/** FSRS grade (1-4) for each rating */
+const GRADE_BY_RATING: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+};
+
+/** Ease factor reported for FSRS states, which track difficulty and stability instead */
+const NEUTRAL_EASE_FACTOR = 2.5;
+
+/**
+ * Free Spaced Repetition Scheduler (FSRS v4).
+ * Models memory stability and difficulty and schedules the next review
+ * when the predicted probability of recall drops to the requested retention.
+ */
+export class FsrsAlgorithm implements IReviewAlgorithm {
+  readonly name = 'fsrs' as const;
+  
+  constructor(
+    private readonly weights: readonly number[] = DEFAULT_FSRS_WEIGHTS,
+    private readonly requestRetention: number = DEFAULT_REQUEST_RETENTION
+  ) {
+    if (weights.length !== DEFAULT_FSRS_WEIGHTS.length) {
+      throw new Error(`FSRS requires ${DEFAULT_FSRS_WEIGHTS.length} weights, received ${weights.length}`);
+    }
+    if (requestRetention <= 0 || requestRetention >= 1) {
+      throw new Error('FSRS request retention must be between 0 and 1');
+    }
+  }
+  
+  /**
+   * Creates the state for a question that has never been reviewed
+   * @param questionId - Unique identifier of the question
+   * @param now - Current date and time
+   * @returns Initial review state, due immediately
+   */
+  createInitialState(questionId: string, now: Date): IReviewState {
+    return {
+      questionId,
+      algorithm: this.name,
+      easeFactor: NEUTRAL_EASE_FACTOR,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueDate: new Date(now.getTime())
+    };
+  }
+  
+  /**
+   * Computes the next review state after a review
+   * @param state - Current review state
+   * @param rating - Rating of the review
+   * @param now - Date and time of the review
+   * @returns New review state
+   */
+  schedule(state: IReviewState, rating: ReviewRating, now: Date): IReviewState {
+    const grade = GRADE_BY_RATING[rating];
+    const isFirstReview = state.stability === undefined || state.difficulty === undefined || !state.lastReviewedAt;
+    
+    let stability: number;
+    let difficulty: number;
+    
+    if (isFirstReview) {
+      stability = this.initialStability(grade);
+      difficulty = this.initialDifficulty(grade);
+    } else {
+      const elapsedDays = daysBetween(state.lastReviewedAt as Date, now);
+      const retrievability = this.retrievability(elapsedDays, state.stability as number);
+      difficulty = this.nextDifficulty(state.difficulty as number, grade);
+      stability = grade === 1
+        ? this.stabilityAfterForgetting(state.difficulty as number, state.stability as number, retrievability)
+        : this.stabilityAfterRecall(state.difficulty as number, state.stability as number, retrievability, grade);
+    }
+    
+    const intervalDays = grade === 1 ? 1 : this.nextInterval(stability);
+    
+    return {
+      ...state,
+      intervalDays,
+      repetitions: grade === 1 ? 0 : state.repetitions + 1,
+      lapses: grade === 1 && !isFirstReview ? state.lapses + 1 : state.lapses,
+      stability,
+      difficulty,
+      dueDate: addDays(now, intervalDays),
+      lastReviewedAt: new Date(now.getTime())
+    };
+  }
+  
+  /**
+   * Predicts the probability of recall after a number of days
+   * @param elapsedDays - Days since the last review
+   * @param stability - Memory stability in days
+   * @returns Probability of recall between 0 and 1
+   */
+  private retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + elapsedDays / (9 * stability), -1);
+  }
+  
+  /**
+   * Computes the interval at which recall probability reaches the requested retention
+   * @param stability - Memory stability in days
+   * @returns Interval in whole days (at least 1)
+   */
+  private nextInterval(stability: number): number {
+    const interval = 9 * stability * (1 / this.requestRetention - 1);
+    return Math.max(1, Math.round(interval));
+  }
+  
+  /**
+   * Gets the stability after the first review
+   * @param grade - FSRS grade (1-4)
+   * @returns Initial stability in days
+   */
+  private initialStability(grade: number): number {
+    return Math.max(0.1, this.weights[grade - 1]);
+  }
+  
+  /**
+   * Gets the difficulty after the first review
+   * @param grade - FSRS grade (1-4)
+   * @returns Initial difficulty between 1 and 10
+   */
+  private initialDifficulty(grade: number): number {
+    return this.clampDifficulty(this.weights[4] - (grade - 3) * this.weights[5]);
+  }
+  
+  /**
+   * Updates difficulty by grade with mean reversion towards the default difficulty
+   * @param difficulty - Current difficulty
+   * @param grade - FSRS grade (1-4)
+   * @returns New difficulty between 1 and 10
+   */
+  private nextDifficulty(difficulty: number, grade: number): number {
+    const updated = difficulty - this.weights[6] * (grade - 3);
+    const meanReverted = this.weights[7] * this.initialDifficulty(3) + (1 - this.weights[7]) * updated;
+    return this.clampDifficulty(meanReverted);
+  }
+  
+  /**
+   * Computes the new stability after a successful recall
+   * @param difficulty - Current difficulty
+   * @param stability - Current stability in days
+   * @param retrievability - Predicted probability of recall at review time
+   * @param grade - FSRS grade (2-4)
+   * @returns New stability in days
+   */
+  private stabilityAfterRecall(difficulty: number, stability: number, retrievability: number, grade: number): number {
+    const w = this.weights;
+    const hardPenalty = grade === 2 ? w[15] : 1;
+    const easyBonus = grade === 4 ? w[16] : 1;
+    return stability * (
+      Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus +
+      1
+    );
+  }
+  
+  /**
+   * Computes the new stability after the question was forgotten
+   * @param difficulty - Current difficulty
+   * @param stability - Current stability in days
+   * @param retrievability - Predicted probability of recall at review time
+   * @returns New stability in days, never above the previous stability
+   */
+  private stabilityAfterForgetting(difficulty: number, stability: number, retrievability: number): number {
+    const w = this.weights;
+    const forgotten = w[11] *
+      Math.pow(difficulty, -w[12]) *
+      (Math.pow(stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - retrievability));
+    return Math.max(0.1, Math.min(forgotten, stability));
+  }
+  
+  /**
+   * Clamps difficulty to the FSRS range
+   * @param difficulty - Unclamped difficulty
+   * @returns Difficulty between 1 and 10
+   */
+  private clampDifficulty(difficulty: number): number {
+    return Math.min(10, Math.max(1, difficulty));
+  }
+}
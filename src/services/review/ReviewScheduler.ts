@@ -0,0 +1,251 @@
+import type { IClock } from '../../interfaces/services/IClock';
+import type {
+  IReviewAlgorithm,
+  IReviewScheduler,
+  IReviewState,
+  ReviewRating
+} from '../../interfaces/services/IReviewScheduler';
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import { ValidationError } from '../../errors/ValidationError';
+import { endOfDay } from './reviewDates';
+import { restoreReviewState, toPersistedReviewEntry, type PersistedReviewState } from './reviewStateFormat';
+
+/** localStorage key under which the app saves the review schedule */
+export const DEFAULT_REVIEW_STORAGE_KEY = 'csharp-card:reviews';
+
+/**
+ * Version of the saved review schedule format
+ */
+export const CURRENT_REVIEW_SCHEDULE_VERSION = 1;
+
+/**
+ * Saved review schedule; the state map is stored as an array of [questionId, state] entries
+ */
+interface PersistedReviewSchedule {
+  version: number;
+  reviewStates: Array<[string, PersistedReviewState]>;
+}
+
+/**
+ * Schedules question reviews using a pluggable spaced-repetition algorithm.
+ * Follows Open/Closed Principle: new algorithms are added by implementing IReviewAlgorithm.
+ * Time is read from the injected clock so scheduling is deterministic under test.
+ * Review states are written through to storage so the schedule outlives the page.
+ */
+export class ReviewScheduler implements IReviewScheduler {
+  private reviewStates = new Map<string, IReviewState>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+  
+  /**
+   * Creates a new ReviewScheduler
+   * @param algorithm - Spaced-repetition algorithm
+   * @param clock - Clock used to time reviews
+   * @param storage - Where the schedule is saved; without one, it lasts until the page is closed
+   */
+  constructor(
+    private readonly algorithm: IReviewAlgorithm,
+    private readonly clock: IClock,
+    private readonly storage: IStateStorage | null = null
+  ) {}
+  
+  /**
+   * Restores the schedule saved earlier; an unreadable schedule is discarded
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    
+    try {
+      const data = await this.storage.load();
+      if (data !== null) {
+        this.reviewStates = parseReviewSchedule(data);
+      }
+    } catch (error) {
+      console.warn('Discarding saved review schedule:', error instanceof Error ? error.message : error);
+    }
+  }
+  
+  /**
+   * Waits for all pending writes to finish
+   * @returns Promise that resolves when storage is up to date
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+  
+  /**
+   * Records a review for a question and reschedules it
+   * @param questionId - Unique identifier of the question
+   * @param rating - Rating of the review
+   * @returns Updated review state
+   * @throws Error if questionId is empty
+   */
+  recordReview(questionId: string, rating: ReviewRating): IReviewState {
+    if (!questionId || questionId.trim() === '') {
+      throw new Error('Question ID cannot be empty');
+    }
+    
+    const now = this.clock.now();
+    const current = this.reviewStates.get(questionId)
+      ?? this.algorithm.createInitialState(questionId, now);
+    const next = this.algorithm.schedule(current, rating, now);
+    
+    this.reviewStates.set(questionId, next);
+    this.persist();
+    return this.copyState(next);
+  }
+  
+  /**
+   * Gets the review state for a question
+   * @param questionId - Unique identifier of the question
+   * @returns Review state or null if the question has never been reviewed
+   */
+  getReviewState(questionId: string): IReviewState | null {
+    const state = this.reviewStates.get(questionId);
+    return state ? this.copyState(state) : null;
+  }
+  
+  /**
+   * Gets the review state of every reviewed question
+   * @returns Array of review states
+   */
+  getAllReviewStates(): IReviewState[] {
+    return Array.from(this.reviewStates.values(), state => this.copyState(state));
+  }
+  
+  /**
+   * Replaces the review state of a question, such as one imported from another device
+   * @param state - Review state to keep for its question
+   * @throws Error if the state has no question ID
+   */
+  restoreReviewState(state: IReviewState): void {
+    if (!state.questionId || state.questionId.trim() === '') {
+      throw new Error('Question ID cannot be empty');
+    }
+    
+    this.reviewStates.set(state.questionId, this.copyState(state));
+    this.persist();
+  }
+  
+  /**
+   * Checks whether a question is due for review today
+   * @param questionId - Unique identifier of the question
+   * @returns True if the question is new or due by the end of today
+   */
+  isDue(questionId: string): boolean {
+    const state = this.reviewStates.get(questionId);
+    if (!state) {
+      return true;
+    }
+    return state.dueDate.getTime() <= endOfDay(this.clock.now()).getTime();
+  }
+  
+  /**
+   * Builds the "due today" queue from a set of questions
+   * @param questionIds - Identifiers of the candidate questions
+   * @returns Identifiers of due questions, most overdue first, followed by new questions
+   */
+  getDueQuestionIds(questionIds: string[]): string[] {
+    const cutoff = endOfDay(this.clock.now()).getTime();
+    const reviewed: IReviewState[] = [];
+    const newQuestionIds: string[] = [];
+    
+    for (const questionId of questionIds) {
+      const state = this.reviewStates.get(questionId);
+      if (!state) {
+        newQuestionIds.push(questionId);
+      } else if (state.dueDate.getTime() <= cutoff) {
+        reviewed.push(state);
+      }
+    }
+    
+    // Array.prototype.sort is stable, so ties keep their input order
+    reviewed.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    
+    return [...reviewed.map(state => state.questionId), ...newQuestionIds];
+  }
+  
+  /**
+   * Clears the review state of every question
+   */
+  reset(): void {
+    this.reviewStates.clear();
+    this.persist();
+  }
+  
+  /**
+   * Creates a defensive copy of a review state
+   * @param state - State to copy
+   * @returns Copy with cloned dates
+   */
+  private copyState(state: IReviewState): IReviewState {
+    return {
+      ...state,
+      dueDate: new Date(state.dueDate.getTime()),
+      lastReviewedAt: state.lastReviewedAt ? new Date(state.lastReviewedAt.getTime()) : undefined
+    };
+  }
+  
+  /**
+   * Queues a write of the schedule to storage.
+   * Writes are serialized so the last change always wins; failures are logged, not thrown.
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+    
+    const storage = this.storage;
+    const persisted: PersistedReviewSchedule = {
+      version: CURRENT_REVIEW_SCHEDULE_VERSION,
+      reviewStates: Array.from(this.reviewStates.values(), toPersistedReviewEntry)
+    };
+    const data = JSON.stringify(persisted);
+    
+    this.pendingWrite = this.pendingWrite
+      .then(() => storage.save(data))
+      .catch(error => {
+        console.warn('Failed to persist review schedule:', error instanceof Error ? error.message : error);
+      });
+  }
+}
+
+/**
+ * Reads a saved review schedule
+ * @param data - Serialized schedule
+ * @returns Review states by question ID
+ * @throws ValidationError if the schedule is malformed or from a newer version
+ */
+function parseReviewSchedule(data: string): Map<string, IReviewState> {
+  const persisted = JSON.parse(data) as Partial<PersistedReviewSchedule> | null;
+  
+  if (persisted?.version !== CURRENT_REVIEW_SCHEDULE_VERSION || !Array.isArray(persisted.reviewStates)) {
+    throw new ValidationError('Unsupported saved review schedule', [
+      `Expected version ${CURRENT_REVIEW_SCHEDULE_VERSION} with reviewStates`
+    ]);
+  }
+  
+  const reviewStates = new Map<string, IReviewState>();
+  const errors: string[] = [];
+  
+  persisted.reviewStates.forEach((entry: unknown, index: number) => {
+    const path = `reviewStates[${index}]`;
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string' || entry[0] === '' ||
+        typeof entry[1] !== 'object' || entry[1] === null) {
+      errors.push(`${path} must be a [questionId, state] pair`);
+      return;
+    }
+    
+    const state = restoreReviewState(entry[0], entry[1] as Record<string, unknown>, path, errors);
+    if (state) {
+      reviewStates.set(state.questionId, state);
+    }
+  });
+  
+  if (errors.length > 0) {
+    throw new ValidationError('Malformed saved review schedule', errors);
+  }
+  
+  return reviewStates;
+}
@@ -0,0 +1,88 @@
+import type { IReviewAlgorithm, IReviewState, ReviewRating } from '../../interfaces/services/IReviewScheduler';
+import { addDays } from './reviewDates';
+
+/** Ease factor assigned to questions that have never been reviewed */
+const INITIAL_EASE_FACTOR = 2.5;
+
+/** Lowest ease factor SM-2 allows */
+const MINIMUM_EASE_FACTOR = 1.3;
+
+/** SM-2 response quality (0-5) for each rating; below 3 counts as a failure */
+const QUALITY_BY_RATING: Record<ReviewRating, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Classic SuperMemo-2 scheduling algorithm.
+ * Grows the interval by the ease factor and adjusts the ease factor by response quality.
+ */
+export class Sm2Algorithm implements IReviewAlgorithm {
+  readonly name = 'sm2' as const;
+  
+  /**
+   * Creates the state for a question that has never been reviewed
+   * @param questionId - Unique identifier of the question
+   * @param now - Current date and time
+   * @returns Initial review state, due immediately
+   */
+  createInitialState(questionId: string, now: Date): IReviewState {
+    return {
+      questionId,
+      algorithm: this.name,
+      easeFactor: INITIAL_EASE_FACTOR,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueDate: new Date(now.getTime())
+    };
+  }
+  
+  /**
+   * Computes the next review state after a review
+   * @param state - Current review state
+   * @param rating - Rating of the review
+   * @param now - Date and time of the review
+   * @returns New review state
+   */
+  schedule(state: IReviewState, rating: ReviewRating, now: Date): IReviewState {
+    const quality = QUALITY_BY_RATING[rating];
+    const easeFactor = Math.max(
+      MINIMUM_EASE_FACTOR,
+      state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+    
+    if (quality < 3) {
+      return {
+        ...state,
+        easeFactor,
+        intervalDays: 1,
+        repetitions: 0,
+        lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+        dueDate: addDays(now, 1),
+        lastReviewedAt: new Date(now.getTime())
+      };
+    }
+    
+    const repetitions = state.repetitions + 1;
+    let intervalDays: number;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(state.intervalDays * state.easeFactor);
+    }
+    
+    return {
+      ...state,
+      easeFactor,
+      intervalDays,
+      repetitions,
+      dueDate: addDays(now, intervalDays),
+      lastReviewedAt: new Date(now.getTime())
+    };
+  }
+}
@@ -0,0 +1,6 @@
+// Spaced-repetition review services exports
+// Algorithms implement IReviewAlgorithm and are plugged into ReviewScheduler
+
+export * from './ReviewScheduler';
+export * from './Sm2Algorithm';
+export * from './FsrsAlgorithm';
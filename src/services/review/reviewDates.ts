@@ -0,0 +1,33 @@
+/** Number of milliseconds in one day */
+export const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds a number of days to a date without mutating it
+ * @param date - Date to start from
+ * @param days - Number of days to add
+ * @returns New date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MILLISECONDS_PER_DAY);
+}
+
+/**
+ * Gets the last millisecond of the local day containing a date
+ * @param date - Date within the day
+ * @returns New date at the end of that day
+ */
+export function endOfDay(date: Date): Date {
+  const end = new Date(date.getTime());
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Gets the number of days elapsed between two dates
+ * @param from - Earlier date
+ * @param to - Later date
+ * @returns Elapsed days (fractional, never negative)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / MILLISECONDS_PER_DAY);
+}
@@ -0,0 +1,112 @@
+import type { IReviewState, ReviewAlgorithmName } from '../../interfaces/services/IReviewScheduler';
+
+/**
+ * Persisted review state; the question ID is the key of its entry
+ */
+export interface PersistedReviewState {
+  algorithm: ReviewAlgorithmName;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  /** ISO 8601 timestamp */
+  dueDate: string;
+  /** ISO 8601 timestamp, or null if never reviewed */
+  lastReviewedAt: string | null;
+  stability?: number;
+  difficulty?: number;
+}
+
+const REVIEW_ALGORITHMS: ReviewAlgorithmName[] = ['sm2', 'fsrs'];
+
+/**
+ * Converts a review state to its persisted entry.
+ * Shared by the scheduler's own storage and progress exports so both keep one format.
+ * @param state - Review state to persist
+ * @returns [questionId, state] entry with ISO dates
+ */
+export function toPersistedReviewEntry(state: IReviewState): [string, PersistedReviewState] {
+  return [state.questionId, {
+    algorithm: state.algorithm,
+    easeFactor: state.easeFactor,
+    intervalDays: state.intervalDays,
+    repetitions: state.repetitions,
+    lapses: state.lapses,
+    dueDate: state.dueDate.toISOString(),
+    lastReviewedAt: state.lastReviewedAt ? state.lastReviewedAt.toISOString() : null,
+    stability: state.stability,
+    difficulty: state.difficulty
+  }];
+}
+
+/**
+ * Validates and rebuilds a review state
+ * @param questionId - ID of the reviewed question
+ * @param raw - Persisted review state
+ * @param path - Location of the entry, used in error messages
+ * @param errors - Collected validation errors
+ * @returns Review state, or null if invalid
+ */
+export function restoreReviewState(
+  questionId: string,
+  raw: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): IReviewState | null {
+  const entryErrors: string[] = [];
+  const dueDate = parseDate(raw.dueDate);
+  const lastReviewedAt = raw.lastReviewedAt === null || raw.lastReviewedAt === undefined
+    ? undefined
+    : parseDate(raw.lastReviewedAt);
+
+  if (!REVIEW_ALGORITHMS.includes(raw.algorithm as ReviewAlgorithmName)) {
+    entryErrors.push(`${path}.algorithm must be one of ${REVIEW_ALGORITHMS.join(', ')}`);
+  }
+  (['easeFactor', 'intervalDays', 'repetitions', 'lapses'] as const).forEach(field => {
+    if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field]) || (raw[field] as number) < 0) {
+      entryErrors.push(`${path}.${field} must be a non-negative number`);
+    }
+  });
+  (['stability', 'difficulty'] as const).forEach(field => {
+    if (raw[field] !== undefined && (typeof raw[field] !== 'number' || !Number.isFinite(raw[field]))) {
+      entryErrors.push(`${path}.${field} must be a number`);
+    }
+  });
+  if (!dueDate) {
+    entryErrors.push(`${path}.dueDate must be an ISO date string`);
+  }
+  if (lastReviewedAt === null) {
+    entryErrors.push(`${path}.lastReviewedAt must be an ISO date string`);
+  }
+
+  if (entryErrors.length > 0) {
+    errors.push(...entryErrors);
+    return null;
+  }
+
+  return {
+    questionId,
+    algorithm: raw.algorithm as ReviewAlgorithmName,
+    easeFactor: raw.easeFactor as number,
+    intervalDays: raw.intervalDays as number,
+    repetitions: raw.repetitions as number,
+    lapses: raw.lapses as number,
+    dueDate: dueDate as Date,
+    lastReviewedAt: lastReviewedAt ?? undefined,
+    stability: raw.stability as number | undefined,
+    difficulty: raw.difficulty as number | undefined
+  };
+}
+
+/**
+ * Parses an ISO 8601 timestamp
+ * @param value - Raw value
+ * @returns Date, or null if the value is not a valid timestamp
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,51 @@
+import type { AppRoute, IRouter, RouteListener, RouteNavigationOptions } from '../../interfaces/services/IRouter';
+import { formatRoute, parseRoute } from './routePaths';
+
+/**
+ * IRouter implementation backed by the browser's History API.
+ * Every path is served by index.html (see public/_redirects), so deep links reach the app.
+ */
+export class HistoryRouter implements IRouter {
+  /**
+   * Creates a new HistoryRouter
+   * @param browserWindow - Window whose location and history are used (default: the global window)
+   */
+  constructor(private readonly browserWindow: Window = window) {}
+
+  /**
+   * Gets the route of the current address
+   * @returns Current route (the start screen for addresses that match no route)
+   */
+  getCurrentRoute(): AppRoute {
+    const { pathname, search } = this.browserWindow.location;
+    return parseRoute(pathname, search);
+  }
+
+  /**
+   * Points the address at a route; an address that is already current adds no history entry
+   * @param route - Route to show
+   * @param options - Whether to add or replace a history entry
+   */
+  navigate(route: AppRoute, options: RouteNavigationOptions = {}): void {
+    const { history, location } = this.browserWindow;
+    const path = formatRoute(route);
+
+    if (options.replace) {
+      history.replaceState(null, '', path);
+    } else if (path !== `${location.pathname}${location.search}`) {
+      history.pushState(null, '', path);
+    }
+  }
+
+  /**
+   * Registers a listener for back/forward navigation
+   * @param listener - Callback receiving the route moved to
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: RouteListener): () => void {
+    const handlePopState = () => listener(this.getCurrentRoute());
+
+    this.browserWindow.addEventListener('popstate', handlePopState);
+    return () => this.browserWindow.removeEventListener('popstate', handlePopState);
+  }
+}
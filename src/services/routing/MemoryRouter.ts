@@ -0,0 +1,83 @@
+import type { AppRoute, IRouter, RouteListener, RouteNavigationOptions } from '../../interfaces/services/IRouter';
+import { formatRoute, parseRoute } from './routePaths';
+
+/**
+ * IRouter implementation that keeps its history in memory.
+ * Used in tests and as a fallback when there is no browser window.
+ */
+export class MemoryRouter implements IRouter {
+  private readonly entries: string[];
+  private position = 0;
+  private readonly listeners = new Set<RouteListener>();
+
+  /**
+   * Creates a new MemoryRouter
+   * @param initialPath - Address to start at (default: the start screen)
+   */
+  constructor(initialPath: string = '/') {
+    this.entries = [initialPath];
+  }
+
+  /**
+   * Gets the route of the current address
+   * @returns Current route (the start screen for addresses that match no route)
+   */
+  getCurrentRoute(): AppRoute {
+    const [pathname, search = ''] = this.getCurrentPath().split('?');
+    return parseRoute(pathname, search ? `?${search}` : '');
+  }
+
+  /**
+   * Gets the current address
+   * @returns Path with any query string
+   */
+  getCurrentPath(): string {
+    return this.entries[this.position];
+  }
+
+  /**
+   * Points the address at a route; an address that is already current adds no history entry
+   * @param route - Route to show
+   * @param options - Whether to add or replace a history entry
+   */
+  navigate(route: AppRoute, options: RouteNavigationOptions = {}): void {
+    const path = formatRoute(route);
+
+    if (options.replace) {
+      this.entries[this.position] = path;
+    } else if (path !== this.getCurrentPath()) {
+      // A new entry drops the forward history, as in a browser
+      this.entries.splice(this.position + 1, Infinity, path);
+      this.position++;
+    }
+  }
+
+  /**
+   * Moves through the history like the browser's back and forward buttons
+   * @param delta - Number of entries to move; negative moves back
+   * @returns True if the position changed and listeners were notified
+   */
+  go(delta: number): boolean {
+    const target = this.position + delta;
+    if (delta === 0 || target < 0 || target >= this.entries.length) {
+      return false;
+    }
+
+    this.position = target;
+    const route = this.getCurrentRoute();
+    this.listeners.forEach(listener => listener(route));
+    return true;
+  }
+
+  /**
+   * Registers a listener for back/forward navigation
+   * @param listener - Callback receiving the route moved to
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: RouteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
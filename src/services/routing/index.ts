@@ -0,0 +1,6 @@
+// Client-side routing exports
+// Route paths are parsed and built in one place; routers only move between addresses
+
+export * from './routePaths';
+export * from './HistoryRouter';
+export * from './MemoryRouter';
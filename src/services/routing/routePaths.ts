@@ -0,0 +1,109 @@
+import type { AppRoute, SessionRouteFilter } from '../../interfaces/services/IRouter';
+import { isValidSeed } from '../SeededRandomSource';
+import { readSeedFromSearch } from '../../utils/sessionSeedUrl';
+
+/**
+ * Query parameters carrying a session's deck filter, one entry per value
+ */
+const FILTER_QUERY_PARAMS = {
+  categories: 'category',
+  subcategories: 'subcategory',
+  tags: 'tag',
+  ids: 'id'
+} as const satisfies Record<keyof SessionRouteFilter, string>;
+
+/**
+ * Decodes one path segment
+ * @param segment - Encoded segment
+ * @returns Decoded segment, or null if it is malformed
+ */
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a session's deck filter from a query string
+ * @param search - Query string such as "?category=basics"
+ * @returns Filter, or undefined if the query names no criteria
+ */
+function readFilterFromSearch(search: string): SessionRouteFilter | undefined {
+  const params = new URLSearchParams(search);
+  const filter: SessionRouteFilter = {};
+
+  for (const [field, param] of Object.entries(FILTER_QUERY_PARAMS) as [keyof SessionRouteFilter, string][]) {
+    const values = params.getAll(param).filter(value => value !== '');
+    if (values.length > 0) {
+      filter[field] = values;
+    }
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/**
+ * Parses an address into a route
+ * @param pathname - Path such as "/session/1234/3"
+ * @param search - Query string; "?seed=" links from before path routes open their session
+ * @returns Matching route, or the start screen if nothing matches
+ */
+export function parseRoute(pathname: string, search: string = ''): AppRoute {
+  const segments = pathname.split('/').filter(segment => segment !== '').map(decodeSegment);
+  if (segments.some(segment => segment === null)) {
+    return { name: 'home' };
+  }
+
+  const [section, ...rest] = segments as string[];
+
+  if (section === 'q' && rest.length === 1) {
+    return { name: 'question', questionId: rest[0] };
+  }
+
+  if (section === 'category' && rest.length === 1) {
+    return { name: 'category', category: rest[0] };
+  }
+
+  if (section === 'session' && rest.length === 2 && /^\d+$/.test(rest[0]) && /^[1-9]\d*$/.test(rest[1])) {
+    const seed = Number(rest[0]);
+    const filter = readFilterFromSearch(search);
+    if (isValidSeed(seed)) {
+      return { name: 'session', seed, index: Number(rest[1]) - 1, ...(filter && { filter }) };
+    }
+  }
+
+  if (section === undefined) {
+    const seed = readSeedFromSearch(search);
+    if (seed !== undefined) {
+      return { name: 'session', seed, index: 0 };
+    }
+  }
+
+  return { name: 'home' };
+}
+
+/**
+ * Builds the address of a route
+ * @param route - Route to link to
+ * @returns Path with any query string, e.g. "/session/1234/3?category=basics"
+ */
+export function formatRoute(route: AppRoute): string {
+  switch (route.name) {
+    case 'question':
+      return `/q/${encodeURIComponent(route.questionId)}`;
+    case 'category':
+      return `/category/${encodeURIComponent(route.category)}`;
+    case 'session': {
+      const params = new URLSearchParams();
+      for (const [field, param] of Object.entries(FILTER_QUERY_PARAMS) as [keyof SessionRouteFilter, string][]) {
+        route.filter?.[field]?.forEach(value => params.append(param, value));
+      }
+      const query = params.toString();
+      return `/session/${route.seed}/${route.index + 1}${query ? `?${query}` : ''}`;
+    }
+    default:
+      return '/';
+  }
+}
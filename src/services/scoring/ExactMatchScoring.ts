@@ -0,0 +1,20 @@
+import type { IScoringStrategy } from '../../interfaces/validation/IScoringStrategy';
+import { countSelection } from './selectionCounts';
+
+/**
+ * All-or-nothing scoring: full credit only for selecting exactly the correct options.
+ */
+export class ExactMatchScoring implements IScoringStrategy {
+  readonly name = 'exact' as const;
+
+  /**
+   * Scores a selection of options
+   * @param correctAnswers - Indices of the correct options
+   * @param selectedAnswers - Indices of the selected options, without duplicates
+   * @returns 1 if the selection is exactly the correct options, otherwise 0
+   */
+  score(correctAnswers: number[], selectedAnswers: number[]): number {
+    const { correct, hits, wrongPicks } = countSelection(correctAnswers, selectedAnswers);
+    return correct > 0 && hits === correct && wrongPicks === 0 ? 1 : 0;
+  }
+}
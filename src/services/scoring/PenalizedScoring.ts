@@ -0,0 +1,21 @@
+import type { IScoringStrategy } from '../../interfaces/validation/IScoringStrategy';
+import { countSelection } from './selectionCounts';
+
+/**
+ * Partial credit where every wrong pick cancels out a correct one:
+ * 3 correct options plus 1 wrong one score 2/3, and the score never drops below 0.
+ */
+export class PenalizedScoring implements IScoringStrategy {
+  readonly name = 'penalized' as const;
+
+  /**
+   * Scores a selection of options
+   * @param correctAnswers - Indices of the correct options
+   * @param selectedAnswers - Indices of the selected options, without duplicates
+   * @returns Correct options selected minus wrong picks, divided by the number of correct options
+   */
+  score(correctAnswers: number[], selectedAnswers: number[]): number {
+    const { correct, hits, wrongPicks } = countSelection(correctAnswers, selectedAnswers);
+    return correct === 0 ? 0 : Math.max(0, hits - wrongPicks) / correct;
+  }
+}
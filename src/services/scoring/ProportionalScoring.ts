@@ -0,0 +1,24 @@
+import type { IScoringStrategy } from '../../interfaces/validation/IScoringStrategy';
+import { countSelection } from './selectionCounts';
+
+/**
+ * Partial credit for each correct option selected.
+ * Credit is shared out over the correct options or, if more were picked, over the picks,
+ * so selecting every option does not earn full credit: 2 of 3 correct options score 2/3,
+ * 3 correct options plus 1 wrong one score 3/4.
+ */
+export class ProportionalScoring implements IScoringStrategy {
+  readonly name = 'proportional' as const;
+
+  /**
+   * Scores a selection of options
+   * @param correctAnswers - Indices of the correct options
+   * @param selectedAnswers - Indices of the selected options, without duplicates
+   * @returns Correct options selected divided by the larger of the correct and selected counts
+   */
+  score(correctAnswers: number[], selectedAnswers: number[]): number {
+    const { correct, hits, wrongPicks } = countSelection(correctAnswers, selectedAnswers);
+    const shares = Math.max(correct, hits + wrongPicks);
+    return shares === 0 ? 0 : hits / shares;
+  }
+}
@@ -0,0 +1,7 @@
+// Answer scoring strategy exports
+// Strategies implement IScoringStrategy and are plugged into AnswerValidator
+
+export * from './selectionCounts';
+export * from './ExactMatchScoring';
+export * from './ProportionalScoring';
+export * from './PenalizedScoring';
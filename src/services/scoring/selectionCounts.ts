@@ -0,0 +1,27 @@
+/**
+ * How a selection compares with the correct answers
+ */
+export interface SelectionCounts {
+  /** Number of correct options */
+  correct: number;
+
+  /** Number of correct options that were selected */
+  hits: number;
+
+  /** Number of selected options that are not correct */
+  wrongPicks: number;
+}
+
+/**
+ * Compares a selection with the correct answers
+ * @param correctAnswers - Indices of the correct options
+ * @param selectedAnswers - Indices of the selected options
+ * @returns Correct, hit and wrong pick counts
+ */
+export function countSelection(correctAnswers: number[], selectedAnswers: number[]): SelectionCounts {
+  const correct = new Set(correctAnswers);
+  const selected = new Set(selectedAnswers);
+  const hits = [...selected].filter(answer => correct.has(answer)).length;
+
+  return { correct: correct.size, hits, wrongPicks: selected.size - hits };
+}
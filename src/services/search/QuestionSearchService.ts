@@ -0,0 +1,362 @@
+import type { IQuestion } from '../../interfaces/domain/IQuestion';
+import type { IQuestionRepository } from '../../interfaces/repositories/IQuestionRepository';
+import type {
+  ISearchService,
+  SearchFacetCount,
+  SearchField,
+  SearchHighlightRange,
+  SearchHit,
+  SearchOptions,
+  SearchResults,
+  SearchSnippet
+} from '../../interfaces/services/ISearchService';
+import { tokenize, tokenizeQuery, type SearchToken } from './searchTokenizer';
+
+/**
+ * Weight of a match in each field; fields are listed from most to least telling
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  text: 3,
+  code: 2,
+  options: 1.5,
+  explanation: 1
+};
+
+/**
+ * Share of the weight a match on the start of a word earns compared to a whole word
+ */
+const PREFIX_MATCH_FACTOR = 0.6;
+
+/**
+ * Bonus, in multiples of the field weight, for a field containing the whole query as typed
+ */
+const PHRASE_MATCH_BONUS = 2;
+
+/**
+ * Shortest query word that also matches the start of longer words
+ */
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Hits returned when no limit is given
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Longest snippet before a field is cut down around its first match
+ */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Characters kept before the first match when a snippet is cut
+ */
+const SNIPPET_LEAD = 40;
+
+/**
+ * Searchable text of one field of a question
+ */
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  tokens: SearchToken[];
+}
+
+/**
+ * A question as stored in the index
+ */
+interface IndexedQuestion {
+  question: IQuestion;
+  fields: IndexedField[];
+}
+
+/**
+ * The search index: the questions and, for each word, how often it occurs in each field of each question
+ */
+interface SearchIndex {
+  documents: IndexedQuestion[];
+  postings: Map<string, Map<number, Partial<Record<SearchField, number>>>>;
+  sortedTerms: string[];
+}
+
+/**
+ * In-memory full-text search over the loaded questions.
+ * Questions are ranked by where their words match (question text counts most, explanations least),
+ * whether whole words or only their starts match, and whether a field contains the query as typed.
+ */
+export class QuestionSearchService implements ISearchService {
+  private index: Promise<SearchIndex> | null = null;
+
+  /**
+   * Creates a new QuestionSearchService
+   * @param questionRepository - Repository of the questions to search
+   */
+  constructor(private readonly questionRepository: IQuestionRepository) {}
+
+  /**
+   * Builds the search index from the loaded questions, replacing any earlier index
+   * @returns Promise resolving to the number of indexed questions
+   * @throws DataLoadError if the questions cannot be loaded
+   */
+  async buildIndex(): Promise<number> {
+    const index = this.createIndex();
+    this.index = index;
+
+    try {
+      return (await index).documents.length;
+    } catch (error) {
+      if (this.index === index) {
+        this.index = null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Searches question text, options, explanations and code examples
+   * @param query - Words or code fragments to look for
+   * @param options - Category and tag filters and the result limit
+   * @returns Promise resolving to the results; no hits for a query without words
+   * @throws DataLoadError if the index has to be built and the questions cannot be loaded
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const queryTerms = tokenizeQuery(query);
+    if (queryTerms.length === 0) {
+      return { query, hits: [], totalHits: 0, facets: { categories: [], tags: [] } };
+    }
+
+    if (!this.index) {
+      await this.buildIndex();
+    }
+    const index = await this.index!;
+
+    const scores = this.scoreDocuments(index, queryTerms, query);
+    const matches = Array.from(scores, ([documentIndex, score]) => ({ document: index.documents[documentIndex], score }));
+    const hits: SearchHit[] = matches
+      .filter(({ document: { question } }) =>
+        (!options.categories?.length || options.categories.includes(question.category)) &&
+        (!options.tags?.length || question.tags.some(tag => options.tags!.includes(tag)))
+      )
+      .map(({ document, score }) => ({
+        question: document.question,
+        score,
+        snippets: this.createSnippets(document, queryTerms)
+      }))
+      .sort((a, b) => b.score - a.score || a.question.id.localeCompare(b.question.id));
+
+    return {
+      query,
+      hits: hits.slice(0, options.limit ?? DEFAULT_LIMIT),
+      totalHits: hits.length,
+      facets: {
+        categories: this.countFacets(matches.map(({ document }) => [document.question.category])),
+        tags: this.countFacets(matches.map(({ document }) => document.question.tags))
+      }
+    };
+  }
+
+  /**
+   * Loads the questions and indexes every word of their searchable fields
+   * @returns Promise resolving to the index
+   */
+  private async createIndex(): Promise<SearchIndex> {
+    const questions = await this.questionRepository.loadQuestions();
+    const postings: SearchIndex['postings'] = new Map();
+
+    const documents = questions.map((question, documentIndex) => {
+      const fields = this.getFields(question);
+
+      for (const { field, tokens } of fields) {
+        for (const { term } of tokens) {
+          const documentPostings = postings.get(term) ?? new Map();
+          const fieldCounts = documentPostings.get(documentIndex) ?? {};
+          fieldCounts[field] = (fieldCounts[field] ?? 0) + 1;
+          documentPostings.set(documentIndex, fieldCounts);
+          postings.set(term, documentPostings);
+        }
+      }
+
+      return { question, fields };
+    });
+
+    return { documents, postings, sortedTerms: Array.from(postings.keys()).sort() };
+  }
+
+  /**
+   * Gets the searchable fields of a question
+   * @param question - Question to index
+   * @returns Fields with text, in weight order
+   */
+  private getFields(question: IQuestion): IndexedField[] {
+    const texts: Record<SearchField, string> = {
+      text: question.text,
+      code: question.codeExample?.code ?? '',
+      options: question.options.map(option => option.text).join('\n'),
+      explanation: [question.explanation, ...question.options.map(option => option.explanation ?? '')]
+        .filter(text => text !== '')
+        .join('\n')
+    };
+
+    return (Object.keys(FIELD_WEIGHTS) as SearchField[])
+      .filter(field => texts[field] !== '')
+      .map(field => ({ field, text: texts[field], tokens: tokenize(texts[field]) }));
+  }
+
+  /**
+   * Scores the questions that match every query word
+   * @param index - Search index
+   * @param queryTerms - Distinct query words
+   * @param query - Query as typed, for the phrase bonus
+   * @returns Score of each matching question, by document index
+   */
+  private scoreDocuments(index: SearchIndex, queryTerms: string[], query: string): Map<number, number> {
+    const termScores = queryTerms.map(queryTerm => {
+      const documentScores = new Map<number, number>();
+
+      for (const term of this.expandTerm(index.sortedTerms, queryTerm)) {
+        const factor = term === queryTerm ? 1 : PREFIX_MATCH_FACTOR;
+
+        for (const [documentIndex, fieldCounts] of index.postings.get(term)!) {
+          const score = (Object.entries(fieldCounts) as [SearchField, number][])
+            .reduce((sum, [field, count]) => sum + FIELD_WEIGHTS[field] * factor * (1 + Math.log(count)), 0);
+          documentScores.set(documentIndex, Math.max(documentScores.get(documentIndex) ?? 0, score));
+        }
+      }
+
+      return documentScores;
+    });
+
+    const phrase = query.trim().toLowerCase();
+    const scores = new Map<number, number>();
+
+    for (const documentIndex of termScores[0].keys()) {
+      if (!termScores.every(documentScores => documentScores.has(documentIndex))) {
+        continue;
+      }
+
+      const phraseBonus = queryTerms.length < 2 ? 0 : index.documents[documentIndex].fields
+        .filter(({ text }) => text.toLowerCase().includes(phrase))
+        .reduce((sum, { field }) => sum + FIELD_WEIGHTS[field] * PHRASE_MATCH_BONUS, 0);
+      const termScore = termScores.reduce((sum, documentScores) => sum + documentScores.get(documentIndex)!, 0);
+      scores.set(documentIndex, termScore + phraseBonus);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Finds the indexed words a query word matches: itself and, unless it is very short,
+   * the words it starts
+   * @param sortedTerms - Indexed words in sort order
+   * @param queryTerm - Query word
+   * @returns Matching indexed words
+   */
+  private expandTerm(sortedTerms: string[], queryTerm: string): string[] {
+    if (queryTerm.length < MIN_PREFIX_LENGTH) {
+      return sortedTerms.includes(queryTerm) ? [queryTerm] : [];
+    }
+
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sortedTerms[middle] < queryTerm) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(queryTerm); i++) {
+      matches.push(sortedTerms[i]);
+    }
+    return matches;
+  }
+
+  /**
+   * Checks whether an indexed word matches a query word
+   * @param term - Indexed word
+   * @param queryTerm - Query word
+   * @returns True for the word itself or, for longer query words, a word it starts
+   */
+  private matchesTerm(term: string, queryTerm: string): boolean {
+    return term === queryTerm || (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm));
+  }
+
+  /**
+   * Creates an excerpt of each field that matched, with the matched words marked
+   * @param document - Matching question
+   * @param queryTerms - Distinct query words
+   * @returns Snippets in field weight order
+   */
+  private createSnippets(document: IndexedQuestion, queryTerms: string[]): SearchSnippet[] {
+    return document.fields.flatMap(({ field, text, tokens }) => {
+      const ranges = this.mergeRanges(
+        tokens.filter(token => queryTerms.some(queryTerm => this.matchesTerm(token.term, queryTerm)))
+      );
+      return ranges.length === 0 ? [] : [this.cutSnippet(field, text, ranges)];
+    });
+  }
+
+  /**
+   * Sorts matched ranges and joins the ones that overlap, such as an identifier and its parts
+   * @param ranges - Matched ranges
+   * @returns Ordered ranges that do not overlap
+   */
+  private mergeRanges(ranges: SearchHighlightRange[]): SearchHighlightRange[] {
+    return [...ranges]
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .reduce<SearchHighlightRange[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+          last.end = Math.max(last.end, range.end);
+        } else {
+          merged.push({ start: range.start, end: range.end });
+        }
+        return merged;
+      }, []);
+  }
+
+  /**
+   * Cuts a long field down to the part around its first match
+   * @param field - Field the text comes from
+   * @param text - Full field text
+   * @param ranges - Matched ranges in the full text
+   * @returns Snippet whose highlights refer to the excerpt
+   */
+  private cutSnippet(field: SearchField, text: string, ranges: SearchHighlightRange[]): SearchSnippet {
+    if (text.length <= SNIPPET_LENGTH) {
+      return { field, text, highlights: ranges };
+    }
+
+    const start = Math.max(0, Math.min(ranges[0].start - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    const prefix = start > 0 ? '…' : '';
+    const shift = prefix.length - start;
+
+    return {
+      field,
+      text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+      highlights: ranges
+        .filter(range => range.start >= start && range.end <= end)
+        .map(range => ({ start: range.start + shift, end: range.end + shift }))
+    };
+  }
+
+  /**
+   * Counts how many questions have each value
+   * @param valuesPerQuestion - Values of each matching question
+   * @returns Counts, most common first and then alphabetically
+   */
+  private countFacets(valuesPerQuestion: string[][]): SearchFacetCount[] {
+    const counts = new Map<string, number>();
+    for (const values of valuesPerQuestion) {
+      for (const value of new Set(values)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+}
@@ -0,0 +1,5 @@
+// Question search exports
+// The tokenizer is shared by indexing and querying so both split C# code the same way
+
+export * from './searchTokenizer';
+export * from './QuestionSearchService';
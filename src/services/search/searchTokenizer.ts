@@ -0,0 +1,85 @@
+/**
+ * A word found in a piece of text
+ */
+export interface SearchToken {
+  /** Lower-cased word */
+  term: string;
+
+  /** Index of the word's first character in the text */
+  start: number;
+
+  /** Index just after the word's last character */
+  end: number;
+}
+
+/**
+ * Words of C# text: identifiers and numbers; the `@` of verbatim identifiers is not part of the word.
+ * Generic arguments, member access and operators separate words, so `IEnumerable<T>` yields
+ * `IEnumerable` and `T`, and `Task.ConfigureAwait` yields `Task` and `ConfigureAwait`.
+ */
+const WORD_PATTERN = /[A-Za-z_][A-Za-z0-9_]*|\d+/g;
+
+/**
+ * Parts of an identifier: runs of capitals (acronyms), capitalized or lower-case words and digits.
+ * `IEnumerable` has the parts `I` and `Enumerable`, `HTTPClient` has `HTTP` and `Client`.
+ */
+const IDENTIFIER_PART_PATTERN = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g;
+
+/**
+ * Shortest identifier part indexed on its own; single letters would match almost everything
+ */
+const MIN_PART_LENGTH = 2;
+
+/**
+ * Finds the parts of a PascalCase, camelCase or snake_case identifier
+ * @param word - Identifier
+ * @param offset - Index of the identifier in its text
+ * @returns Parts other than the whole identifier, with their positions in the text
+ */
+function splitIdentifier(word: string, offset: number): SearchToken[] {
+  const parts = Array.from(word.matchAll(IDENTIFIER_PART_PATTERN));
+  if (parts.length < 2) {
+    return [];
+  }
+
+  return parts
+    .filter(part => part[0].length >= MIN_PART_LENGTH)
+    .map(part => ({
+      term: part[0].toLowerCase(),
+      start: offset + part.index!,
+      end: offset + part.index! + part[0].length
+    }));
+}
+
+/**
+ * Splits text into searchable words.
+ * Each identifier is kept whole and also split into its parts, so `ConfigureAwait` can be
+ * found as "configureawait", "configure" or "await".
+ * @param text - Question text, option, explanation or code
+ * @returns Words in order of appearance; an identifier's parts follow it
+ */
+export function tokenize(text: string): SearchToken[] {
+  return Array.from(text.matchAll(WORD_PATTERN)).flatMap(match => {
+    const start = match.index!;
+    const word = match[0];
+    const whole = { term: word.toLowerCase(), start, end: start + word.length };
+    const trimmed = word.replace(/^_+/, '');
+
+    return [
+      whole,
+      ...splitIdentifier(trimmed, start + word.length - trimmed.length)
+        .filter(part => part.term !== whole.term)
+    ];
+  });
+}
+
+/**
+ * Splits a search query into the distinct words to look for.
+ * Identifiers are not split, so "ConfigureAwait" looks for that identifier rather than
+ * for "configure" and "await" separately.
+ * @param query - Query typed by the user
+ * @returns Distinct lower-cased words in order of appearance
+ */
+export function tokenizeQuery(query: string): string[] {
+  return [...new Set(Array.from(query.matchAll(WORD_PATTERN), match => match[0].toLowerCase()))];
+}
@@ -0,0 +1,315 @@
+import type {
+  IShortcutService,
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutDefinition,
+  ShortcutHandlers,
+  ShortcutKeyEvent,
+  ShortcutScope
+} from '../../interfaces/services/IShortcutService';
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import { ValidationError } from '../../errors/ValidationError';
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  RESERVED_SHORTCUT_KEYS,
+  SHORTCUT_DEFINITIONS,
+  formatShortcutKey,
+  normalizeShortcutKey
+} from './shortcutKeys';
+
+/** localStorage key under which the app saves the key mapping */
+export const DEFAULT_SHORTCUT_STORAGE_KEY = 'csharp-card:shortcuts';
+
+/**
+ * Version of the saved key mapping
+ */
+export const CURRENT_SHORTCUT_MAPPING_VERSION = 1;
+
+/**
+ * Saved key mapping: only the actions the user remapped, so new defaults still apply to the rest
+ */
+interface PersistedShortcutMapping {
+  version: number;
+  bindings: Partial<ShortcutBindings>;
+}
+
+/**
+ * Key bound to two actions that work in the same view
+ */
+interface ShortcutConflict {
+  key: string;
+  actions: [ShortcutAction, ShortcutAction];
+}
+
+/**
+ * Handlers registered by a view
+ */
+interface ShortcutRegistration {
+  scope: ShortcutScope;
+  handlers: ShortcutHandlers;
+}
+
+/**
+ * Elements that take typed text; their key presses are never shortcuts
+ */
+const TEXT_ENTRY_TAGS = ['INPUT', 'TEXTAREA', 'SELECT'];
+
+/**
+ * Checks whether a key press goes to an element the user is typing into
+ * @param target - Event target
+ * @returns True for form fields and editable content
+ */
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (TEXT_ENTRY_TAGS.includes(element.tagName) || element.isContentEditable === true);
+}
+
+/**
+ * IShortcutService implementation holding the key mapping and the handlers of the mounted views.
+ * When a storage adapter is provided, the mapping is restored from it and saved on every remap.
+ */
+export class ShortcutService implements IShortcutService {
+  private bindings: ShortcutBindings = cloneBindings(DEFAULT_SHORTCUT_BINDINGS);
+  private readonly registrations: ShortcutRegistration[] = [];
+
+  /**
+   * Creates a new ShortcutService
+   * @param storage - Where the key mapping is saved; without one, remaps last until the page is closed
+   */
+  constructor(private readonly storage: IStateStorage | null = null) {}
+
+  /**
+   * Restores the key mapping saved by earlier remaps; falls back to the defaults if it is unreadable
+   */
+  async hydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const data = await this.storage.load();
+      if (data === null) {
+        return;
+      }
+
+      const bindings = { ...cloneBindings(DEFAULT_SHORTCUT_BINDINGS), ...parseMapping(data) };
+      const conflicts = findConflicts(bindings);
+      if (conflicts.length > 0) {
+        throw new ValidationError('Saved shortcuts conflict', conflicts.map(({ key, actions: [first, second] }) =>
+          `${formatShortcutKey(key)} is bound to both ${describe(first)} and ${describe(second)}`
+        ));
+      }
+      this.bindings = bindings;
+    } catch (error) {
+      console.warn('Discarding saved keyboard shortcuts:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Gets every action with its description and scopes, in display order
+   * @returns Shortcut definitions
+   */
+  getDefinitions(): ShortcutDefinition[] {
+    return SHORTCUT_DEFINITIONS.map(definition => ({ ...definition, scopes: [...definition.scopes] }));
+  }
+
+  /**
+   * Gets the keys currently bound to each action
+   * @returns Copy of the current bindings
+   */
+  getBindings(): ShortcutBindings {
+    return cloneBindings(this.bindings);
+  }
+
+  /**
+   * Binds new keys to an action and saves the mapping
+   * @param action - Action to remap
+   * @param keys - Keys that should perform it
+   * @throws ValidationError if a key is reserved or already bound to an action sharing a view
+   */
+  async remap(action: ShortcutAction, keys: string[]): Promise<void> {
+    const normalizedKeys = [...new Set(keys.map(normalizeShortcutKey))];
+    const errors: string[] = [];
+
+    if (normalizedKeys.length === 0) {
+      errors.push(`${describe(action)} needs at least one key`);
+    }
+    normalizedKeys
+      .filter(key => key === '' || RESERVED_SHORTCUT_KEYS.includes(key))
+      .forEach(key => errors.push(`${key === '' ? 'An empty key' : formatShortcutKey(key)} cannot be used as a shortcut`));
+
+    const bindings = { ...this.getBindings(), [action]: normalizedKeys };
+    findConflicts(bindings)
+      .filter(conflict => conflict.actions.includes(action))
+      .forEach(({ key, actions }) => {
+        const other = actions[0] === action ? actions[1] : actions[0];
+        errors.push(`${formatShortcutKey(key)} is already used to ${describe(other)}`);
+      });
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Cannot remap ${describe(action)}`, errors);
+    }
+
+    this.bindings = bindings;
+    await this.save();
+  }
+
+  /**
+   * Restores the default keys and forgets the saved mapping
+   */
+  async resetBindings(): Promise<void> {
+    this.bindings = cloneBindings(DEFAULT_SHORTCUT_BINDINGS);
+    await this.storage?.clear();
+  }
+
+  /**
+   * Registers handlers for actions in a view
+   * @param scope - View the handlers belong to
+   * @param handlers - Handlers by action
+   * @returns Function that unregisters the handlers
+   */
+  register(scope: ShortcutScope, handlers: ShortcutHandlers): () => void {
+    const registration: ShortcutRegistration = { scope, handlers };
+    this.registrations.push(registration);
+
+    return () => {
+      const index = this.registrations.indexOf(registration);
+      if (index !== -1) {
+        this.registrations.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Finds the action a key performs in a view
+   * @param key - KeyboardEvent.key value
+   * @param scope - View
+   * @returns Bound action, or null if the key does nothing there
+   */
+  getActionForKey(key: string, scope: ShortcutScope): ShortcutAction | null {
+    const normalizedKey = normalizeShortcutKey(key);
+
+    return SHORTCUT_DEFINITIONS.find(definition =>
+      definition.scopes.includes(scope) && this.bindings[definition.action].includes(normalizedKey)
+    )?.action ?? null;
+  }
+
+  /**
+   * Performs the action bound to a key press, unless the user is typing, holds a modifier
+   * or a focused control already handled the key
+   * @param event - Key press
+   * @param scope - Current view
+   * @returns True if an action was performed, in which case the event's default is prevented
+   */
+  dispatch(event: ShortcutKeyEvent, scope: ShortcutScope): boolean {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isTextEntryTarget(event.target)) {
+      return false;
+    }
+
+    const action = this.getActionForKey(event.key, scope);
+    if (!action) {
+      return false;
+    }
+
+    // The view registered last is the one on screen
+    const handler = [...this.registrations]
+      .reverse()
+      .find(registration => registration.scope === scope && registration.handlers[action])
+      ?.handlers[action];
+    if (!handler) {
+      return false;
+    }
+
+    event.preventDefault();
+    handler();
+    return true;
+  }
+
+  /**
+   * Saves the actions whose keys differ from the defaults
+   */
+  private async save(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    const remapped = (Object.keys(this.bindings) as ShortcutAction[])
+      .filter(action => this.bindings[action].join('\n') !== DEFAULT_SHORTCUT_BINDINGS[action].join('\n'));
+    const mapping: PersistedShortcutMapping = {
+      version: CURRENT_SHORTCUT_MAPPING_VERSION,
+      bindings: Object.fromEntries(remapped.map(action => [action, this.bindings[action]]))
+    };
+
+    await this.storage.save(JSON.stringify(mapping));
+  }
+}
+
+/**
+ * Copies bindings so callers cannot change the service's key lists
+ * @param bindings - Bindings to copy
+ * @returns Deep copy
+ */
+function cloneBindings(bindings: ShortcutBindings): ShortcutBindings {
+  return Object.fromEntries(
+    Object.entries(bindings).map(([action, keys]) => [action, [...keys]])
+  ) as ShortcutBindings;
+}
+
+/**
+ * Gets an action's description for error messages
+ * @param action - Shortcut action
+ * @returns Description, or the action itself if unknown
+ */
+function describe(action: ShortcutAction): string {
+  return `"${SHORTCUT_DEFINITIONS.find(definition => definition.action === action)?.description ?? action}"`;
+}
+
+/**
+ * Finds keys bound to two actions that work in the same view
+ * @param bindings - Bindings to check
+ * @returns One conflict per shared key and pair of actions
+ */
+function findConflicts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+
+  SHORTCUT_DEFINITIONS.forEach((first, index) => {
+    SHORTCUT_DEFINITIONS.slice(index + 1)
+      .filter(second => second.scopes.some(scope => first.scopes.includes(scope)))
+      .forEach(second => {
+        bindings[first.action]
+          .filter(key => bindings[second.action].includes(key))
+          .forEach(key => conflicts.push({ key, actions: [first.action, second.action] }));
+      });
+  });
+
+  return conflicts;
+}
+
+/**
+ * Reads a saved key mapping
+ * @param data - Serialized mapping
+ * @returns Remapped actions; entries for unknown actions are ignored
+ * @throws ValidationError if the mapping is malformed or from a newer version
+ */
+function parseMapping(data: string): Partial<ShortcutBindings> {
+  const mapping = JSON.parse(data) as Partial<PersistedShortcutMapping> | null;
+
+  if (mapping?.version !== CURRENT_SHORTCUT_MAPPING_VERSION || typeof mapping.bindings !== 'object' || mapping.bindings === null) {
+    throw new ValidationError('Unsupported saved shortcuts', [`Expected version ${CURRENT_SHORTCUT_MAPPING_VERSION} with bindings`]);
+  }
+
+  const knownActions = new Set<string>(SHORTCUT_DEFINITIONS.map(definition => definition.action));
+  const bindings: Partial<ShortcutBindings> = {};
+
+  Object.entries(mapping.bindings).forEach(([action, keys]) => {
+    if (!knownActions.has(action)) {
+      return;
+    }
+    if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string' && key !== '')) {
+      throw new ValidationError('Malformed saved shortcuts', [`${action} must be a list of keys`]);
+    }
+    bindings[action as ShortcutAction] = keys.map(normalizeShortcutKey);
+  });
+
+  return bindings;
+}
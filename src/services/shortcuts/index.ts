@@ -0,0 +1,5 @@
+// Keyboard shortcut exports
+// ShortcutService dispatches key presses to the handlers of the current view; shortcutKeys holds the default mapping
+
+export * from './shortcutKeys';
+export * from './ShortcutService';
@@ -0,0 +1,77 @@
+import type {
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutDefinition,
+  ShortcutOptionNumber
+} from '../../interfaces/services/IShortcutService';
+
+/**
+ * Options that can be toggled from the keyboard; the first six also answer to the letters they are shown with
+ */
+const OPTION_NUMBERS: ShortcutOptionNumber[] = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const OPTION_LETTERS = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+/**
+ * Every shortcut action in the order the help overlay lists them
+ */
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  ...OPTION_NUMBERS.map((optionNumber): ShortcutDefinition => ({
+    action: `toggle-option-${optionNumber}`,
+    description: `Select or clear option ${optionNumber}`,
+    scopes: ['question']
+  })),
+  { action: 'submit', description: 'Submit the answer', scopes: ['question'] },
+  { action: 'next', description: 'Go to the next question', scopes: ['explanation'] },
+  { action: 'redo', description: 'Redo the question', scopes: ['explanation'] },
+  { action: 'help', description: 'Show or hide the keyboard shortcuts', scopes: ['question', 'explanation'] }
+];
+
+/**
+ * Keys bound to each action until the user remaps them
+ */
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  ...Object.fromEntries(OPTION_NUMBERS.map(optionNumber => [
+    `toggle-option-${optionNumber}`,
+    [String(optionNumber), ...(optionNumber <= OPTION_LETTERS.length ? [OPTION_LETTERS[optionNumber - 1]] : [])]
+  ])) as Record<`toggle-option-${ShortcutOptionNumber}`, string[]>,
+  submit: ['Enter'],
+  next: ['n'],
+  redo: ['r'],
+  help: ['?']
+};
+
+/**
+ * Keys that cannot be bound: Escape closes overlays, Tab moves focus and modifiers only change other keys
+ */
+export const RESERVED_SHORTCUT_KEYS = ['Escape', 'Tab', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+/**
+ * Gets the option toggled by an action
+ * @param action - Shortcut action
+ * @returns Zero-based option index, or null if the action does not toggle an option
+ */
+export function getShortcutOptionIndex(action: ShortcutAction): number | null {
+  const match = /^toggle-option-(\d)$/.exec(action);
+  return match ? Number(match[1]) - 1 : null;
+}
+
+/**
+ * Normalizes a key so bindings do not depend on Caps Lock or Shift
+ * @param key - KeyboardEvent.key value
+ * @returns Printable characters lower-cased, named keys such as "Enter" unchanged
+ */
+export function normalizeShortcutKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Formats a normalized key for display
+ * @param key - Normalized key
+ * @returns Letters in upper case, the space bar as "Space", named keys unchanged
+ */
+export function formatShortcutKey(key: string): string {
+  if (key === ' ') {
+    return 'Space';
+  }
+  return key.length === 1 ? key.toUpperCase() : key;
+}
@@ -0,0 +1,36 @@
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+
+/**
+ * IStateStorage implementation that keeps state in memory.
+ * Used in tests and as a fallback when no browser storage is available.
+ */
+export class InMemoryStateStorage implements IStateStorage {
+  private data: string | null;
+  
+  constructor(initialData: string | null = null) {
+    this.data = initialData;
+  }
+  
+  /**
+   * Loads the stored state
+   * @returns Promise resolving to the serialized state or null if nothing is stored
+   */
+  async load(): Promise<string | null> {
+    return this.data;
+  }
+  
+  /**
+   * Replaces the stored state
+   * @param data - Serialized state to store
+   */
+  async save(data: string): Promise<void> {
+    this.data = data;
+  }
+  
+  /**
+   * Removes the stored state
+   */
+  async clear(): Promise<void> {
+    this.data = null;
+  }
+}
@@ -0,0 +1,117 @@
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import { DataLoadError } from '../../errors/DataLoadError';
+
+/** Default IndexedDB database name */
+export const DEFAULT_STATE_DATABASE_NAME = 'csharp-card';
+
+/** Object store holding serialized state records */
+const STATE_STORE_NAME = 'state';
+
+/** Key of the application state record */
+const STATE_RECORD_KEY = 'application';
+
+/**
+ * IStateStorage implementation backed by IndexedDB.
+ * Opens the database lazily and reuses the connection.
+ */
+export class IndexedDbStateStorage implements IStateStorage {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+  
+  constructor(
+    private readonly databaseName: string = DEFAULT_STATE_DATABASE_NAME,
+    private readonly factory: IDBFactory | null = typeof indexedDB !== 'undefined' ? indexedDB : null
+  ) {}
+  
+  /**
+   * Loads the stored state
+   * @returns Promise resolving to the serialized state or null if nothing is stored
+   * @throws DataLoadError if IndexedDB is unavailable or the read fails
+   */
+  async load(): Promise<string | null> {
+    const result = await this.runRequest<unknown>('readonly', store => store.get(STATE_RECORD_KEY));
+    return typeof result === 'string' ? result : null;
+  }
+  
+  /**
+   * Replaces the stored state
+   * @param data - Serialized state to store
+   * @throws DataLoadError if IndexedDB is unavailable or the write fails
+   */
+  async save(data: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.put(data, STATE_RECORD_KEY));
+  }
+  
+  /**
+   * Removes the stored state
+   * @throws DataLoadError if IndexedDB is unavailable or the delete fails
+   */
+  async clear(): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(STATE_RECORD_KEY));
+  }
+  
+  /**
+   * Runs a single request against the state object store
+   * @param mode - Transaction mode
+   * @param createRequest - Creates the request from the object store
+   * @returns Promise resolving to the request result once the transaction completes
+   */
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.openDatabase();
+    
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STATE_STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(STATE_STORE_NAME));
+      
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(this.createError(transaction.error));
+      transaction.onabort = () => reject(this.createError(transaction.error));
+    });
+  }
+  
+  /**
+   * Opens (and on first use creates) the database
+   * @returns Promise resolving to the open database
+   * @throws DataLoadError if IndexedDB is unavailable or cannot be opened
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.databasePromise) {
+      return this.databasePromise;
+    }
+    
+    const factory = this.factory;
+    if (!factory) {
+      return Promise.reject(this.createError(new Error('IndexedDB is not available')));
+    }
+    
+    this.databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(this.databaseName, 1);
+      
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STATE_STORE_NAME)) {
+          request.result.createObjectStore(STATE_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(this.createError(request.error));
+    });
+    
+    // Allow a later call to retry after a failed open
+    this.databasePromise.catch(() => {
+      this.databasePromise = null;
+    });
+    
+    return this.databasePromise;
+  }
+  
+  /**
+   * Wraps an IndexedDB failure in a DataLoadError
+   * @param cause - Underlying error, if any
+   * @returns DataLoadError describing the database
+   */
+  private createError(cause: Error | null): DataLoadError {
+    return new DataLoadError(`IndexedDB database "${this.databaseName}"`, cause ?? new Error('Unknown IndexedDB error'));
+  }
+}
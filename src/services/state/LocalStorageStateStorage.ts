@@ -0,0 +1,61 @@
+import type { IStateStorage } from '../../interfaces/services/IStateStorage';
+import { DataLoadError } from '../../errors/DataLoadError';
+
+/** Default localStorage key for the application state */
+export const DEFAULT_STATE_STORAGE_KEY = 'csharp-card:state';
+
+/**
+ * IStateStorage implementation backed by the Web Storage API (localStorage).
+ */
+export class LocalStorageStateStorage implements IStateStorage {
+  
+  constructor(
+    private readonly key: string = DEFAULT_STATE_STORAGE_KEY,
+    private readonly storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null
+  ) {}
+  
+  /**
+   * Loads the stored state
+   * @returns Promise resolving to the serialized state or null if nothing is stored
+   * @throws DataLoadError if localStorage is unavailable
+   */
+  async load(): Promise<string | null> {
+    return this.getStorage().getItem(this.key);
+  }
+  
+  /**
+   * Replaces the stored state
+   * @param data - Serialized state to store
+   * @throws DataLoadError if localStorage is unavailable or full
+   */
+  async save(data: string): Promise<void> {
+    try {
+      this.getStorage().setItem(this.key, data);
+    } catch (error) {
+      if (error instanceof DataLoadError) {
+        throw error;
+      }
+      throw new DataLoadError(`localStorage key "${this.key}"`, error instanceof Error ? error : new Error('Failed to write state'));
+    }
+  }
+  
+  /**
+   * Removes the stored state
+   * @throws DataLoadError if localStorage is unavailable
+   */
+  async clear(): Promise<void> {
+    this.getStorage().removeItem(this.key);
+  }
+  
+  /**
+   * Gets the backing storage
+   * @returns Storage instance
+   * @throws DataLoadError if localStorage is unavailable
+   */
+  private getStorage(): Storage {
+    if (!this.storage) {
+      throw new DataLoadError(`localStorage key "${this.key}"`, new Error('localStorage is not available'));
+    }
+    return this.storage;
+  }
+}
@@ -0,0 +1,254 @@
+import type { IApplicationState, IQuestionState } from '../../interfaces/domain/types';
+import type { PersistedApplicationState, PersistedQuestionState } from '../../interfaces/services/IStateStorage';
+import { ValidationError } from '../../errors/ValidationError';
+
+/** Version of the persisted state format written by this build */
+export const CURRENT_STATE_VERSION = 1;
+
+/**
+ * Application state restored from storage.
+ * Runtime-only fields (initialization flag, question total) are not persisted.
+ */
+export interface RestoredApplicationState {
+  currentQuestionIndex: number;
+  questionStates: Map<string, IQuestionState>;
+  bookmarkedQuestionIds: Set<string>;
+}
+
+/**
+ * Upgrades raw persisted data from one version to the next
+ */
+type StateMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Version 0 is the unversioned format: questionStates as a plain object keyed by question id,
+ * with selections saved as option positions. Those no longer match once a later session
+ * reshuffles the options, so the selections are dropped while the results are kept.
+ */
+const MIGRATIONS: Record<number, StateMigration> = {
+  0: (data) => {
+    const legacyStates = isRecord(data.questionStates) ? data.questionStates : {};
+    return {
+      version: 1,
+      savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date(0).toISOString(),
+      currentQuestionIndex: data.currentQuestionIndex,
+      questionStates: Object.entries(legacyStates).map(([questionId, legacyState]) => {
+        if (!isRecord(legacyState)) {
+          return [questionId, legacyState];
+        }
+        const questionState: Record<string, unknown> = { ...legacyState, selectedOptionIds: [] };
+        delete questionState.selectedAnswers;
+        return [questionId, questionState];
+      })
+    };
+  }
+};
+
+/**
+ * Converts application state to and from its versioned JSON representation.
+ * Follows Single Responsibility Principle: storage adapters never see the format.
+ * Handles the Map and Date values that plain JSON cannot round-trip.
+ * Selections are stored as option IDs because option positions change with every session seed;
+ * restored states carry no positions until they are mapped onto the options being shown.
+ */
+export class StateSerializer {
+  /**
+   * Serializes the persistable part of the application state
+   * @param state - Application state to serialize
+   * @param savedAt - Timestamp recorded with the state
+   * @returns JSON string in the current format
+   */
+  serialize(state: IApplicationState, savedAt: Date = new Date()): string {
+    const persisted: PersistedApplicationState = {
+      version: CURRENT_STATE_VERSION,
+      savedAt: savedAt.toISOString(),
+      currentQuestionIndex: state.currentQuestionIndex,
+      questionStates: Array.from(state.questionStates.entries(), ([questionId, questionState]) => [
+        questionId,
+        {
+          selectedOptionIds: [...(questionState.selectedOptionIds ?? [])],
+          isSubmitted: questionState.isSubmitted,
+          isCorrect: questionState.isCorrect,
+          score: questionState.score,
+          submittedOutput: questionState.submittedOutput,
+          submittedAt: questionState.submittedAt ? questionState.submittedAt.toISOString() : null
+        }
+      ]),
+      bookmarkedQuestionIds: [...state.bookmarkedQuestionIds]
+    };
+    
+    return JSON.stringify(persisted);
+  }
+  
+  /**
+   * Deserializes stored state, migrating older formats to the current version
+   * @param data - JSON string produced by serialize or an older build
+   * @returns Restored application state
+   * @throws ValidationError if the data is malformed or from a newer version
+   */
+  deserialize(data: string): RestoredApplicationState {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      throw new ValidationError(
+        'Stored state is not valid JSON',
+        [error instanceof Error ? error.message : 'Unknown parse error'],
+        error instanceof Error ? error : undefined
+      );
+    }
+    
+    if (!isRecord(parsed)) {
+      throw new ValidationError('Stored state is not an object', ['Expected a JSON object']);
+    }
+    
+    const persisted = this.migrate(parsed);
+    return this.restore(persisted);
+  }
+  
+  /**
+   * Applies migrations until the data reaches the current version
+   * @param data - Raw parsed data
+   * @returns Data in the current format
+   * @throws ValidationError if the version is unsupported
+   */
+  private migrate(data: Record<string, unknown>): Record<string, unknown> {
+    let migrated = data;
+    let version = typeof migrated.version === 'number' ? migrated.version : 0;
+    
+    if (!Number.isInteger(version) || version < 0 || version > CURRENT_STATE_VERSION) {
+      throw new ValidationError(
+        `Unsupported stored state version: ${String(migrated.version)}`,
+        [`Supported versions are 0 to ${CURRENT_STATE_VERSION}`]
+      );
+    }
+    
+    while (version < CURRENT_STATE_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new ValidationError(
+          `No migration available from stored state version ${version}`,
+          [`Cannot upgrade version ${version} to ${CURRENT_STATE_VERSION}`]
+        );
+      }
+      migrated = migration(migrated);
+      version = migrated.version as number;
+    }
+    
+    return migrated;
+  }
+  
+  /**
+   * Validates current-format data and rebuilds runtime values
+   * @param data - Data in the current format
+   * @returns Restored application state
+   * @throws ValidationError if any field is malformed
+   */
+  private restore(data: Record<string, unknown>): RestoredApplicationState {
+    const errors: string[] = [];
+    
+    const currentQuestionIndex = data.currentQuestionIndex;
+    if (typeof currentQuestionIndex !== 'number' || !Number.isInteger(currentQuestionIndex) || currentQuestionIndex < 0) {
+      errors.push('currentQuestionIndex must be a non-negative integer');
+    }
+    
+    if (!Array.isArray(data.questionStates)) {
+      errors.push('questionStates must be an array of [questionId, state] entries');
+    }
+    
+    const bookmarkedQuestionIds = data.bookmarkedQuestionIds ?? [];
+    if (!Array.isArray(bookmarkedQuestionIds) || !bookmarkedQuestionIds.every(id => typeof id === 'string')) {
+      errors.push('bookmarkedQuestionIds must be an array of question IDs');
+    }
+    
+    const questionStates = new Map<string, IQuestionState>();
+    if (Array.isArray(data.questionStates)) {
+      data.questionStates.forEach((entry: unknown, index: number) => {
+        const restored = this.restoreQuestionState(entry, index, errors);
+        if (restored) {
+          questionStates.set(restored[0], restored[1]);
+        }
+      });
+    }
+    
+    if (errors.length > 0) {
+      throw new ValidationError('Stored state is malformed', errors);
+    }
+    
+    return {
+      currentQuestionIndex: currentQuestionIndex as number,
+      questionStates,
+      bookmarkedQuestionIds: new Set(bookmarkedQuestionIds as string[])
+    };
+  }
+  
+  /**
+   * Validates and rebuilds a single [questionId, state] entry
+   * @param entry - Raw entry
+   * @param index - Position of the entry, used in error messages
+   * @param errors - Collected validation errors
+   * @returns Restored entry or null if invalid
+   */
+  private restoreQuestionState(
+    entry: unknown,
+    index: number,
+    errors: string[]
+  ): [string, IQuestionState] | null {
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string' || !isRecord(entry[1])) {
+      errors.push(`questionStates[${index}] must be a [questionId, state] pair`);
+      return null;
+    }
+    
+    const [questionId, raw] = entry as [string, Partial<PersistedQuestionState>];
+    const entryErrors: string[] = [];
+    
+    if (!Array.isArray(raw.selectedOptionIds) || !raw.selectedOptionIds.every(id => typeof id === 'string')) {
+      entryErrors.push(`questionStates[${index}].selectedOptionIds must be an array of option IDs`);
+    }
+    if (typeof raw.isSubmitted !== 'boolean') {
+      entryErrors.push(`questionStates[${index}].isSubmitted must be a boolean`);
+    }
+    if (typeof raw.isCorrect !== 'boolean') {
+      entryErrors.push(`questionStates[${index}].isCorrect must be a boolean`);
+    }
+    if (raw.score !== undefined && (typeof raw.score !== 'number' || !(raw.score >= 0 && raw.score <= 1))) {
+      entryErrors.push(`questionStates[${index}].score must be a number from 0 to 1`);
+    }
+    if (raw.submittedOutput !== undefined && typeof raw.submittedOutput !== 'string') {
+      entryErrors.push(`questionStates[${index}].submittedOutput must be a string`);
+    }
+    
+    let submittedAt: Date | undefined;
+    if (raw.submittedAt !== null && raw.submittedAt !== undefined) {
+      submittedAt = typeof raw.submittedAt === 'string' ? new Date(raw.submittedAt) : undefined;
+      if (!submittedAt || isNaN(submittedAt.getTime())) {
+        entryErrors.push(`questionStates[${index}].submittedAt must be an ISO date string`);
+      }
+    }
+    
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors);
+      return null;
+    }
+    
+    return [questionId, {
+      selectedAnswers: [],
+      selectedOptionIds: [...(raw.selectedOptionIds as string[])],
+      isSubmitted: raw.isSubmitted as boolean,
+      isCorrect: raw.isCorrect as boolean,
+      score: raw.score ?? (raw.isCorrect ? 1 : 0),
+      submittedOutput: raw.submittedOutput,
+      submittedAt
+    }];
+  }
+}
+
+/**
+ * Checks whether a value is a non-array object
+ * @param value - Value to check
+ * @returns True if the value is a plain record
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,7 @@
+// Application state persistence exports
+// Storage adapters implement IStateStorage; StateSerializer owns the versioned format
+
+export * from './StateSerializer';
+export * from './InMemoryStateStorage';
+export * from './LocalStorageStateStorage';
+export * from './IndexedDbStateStorage';
@@ -0,0 +1,106 @@
+import type { Question, QuestionType, UserProgress } from '../../utils/types';
+import type { AnswerSubmission, AnswerValidationResult, IAnswerValidator } from './IAnswerValidator';
+
+/**
+ * Base class for single-type answer validators.
+ * Implements Template Method pattern: subclasses score the answer,
+ * the base class guards the question type and applies progress adjustments.
+ */
+export abstract class AbstractAnswerValidator implements IAnswerValidator {
+  /** Question type handled by this validator */
+  protected abstract readonly questionType: QuestionType;
+  
+  /** Name used in error messages (class names do not survive minification) */
+  protected abstract readonly validatorName: string;
+  
+  /**
+   * Gets the question types this validator handles
+   * @returns Supported question types
+   */
+  getSupportedTypes(): QuestionType[] {
+    return [this.questionType];
+  }
+  
+  /**
+   * Checks whether this validator can validate a question
+   * @param question - Question to check
+   * @returns True if the question type is supported
+   */
+  canValidate(question: Question): boolean {
+    return question?.type === this.questionType;
+  }
+  
+  /**
+   * Gets the highest score a question can award, including bonuses
+   * @param question - Question to score
+   * @returns Maximum score
+   * @throws Error if the question type is not supported
+   */
+  getMaxScore(question: Question): number {
+    this.ensureCanValidate(question);
+    return this.maxScore();
+  }
+  
+  /**
+   * Validates and scores a submission
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @returns Scored validation result
+   * @throws Error if the question type or submission format is not supported
+   */
+  validateAnswer(question: Question, submission: AnswerSubmission): AnswerValidationResult {
+    this.ensureCanValidate(question);
+    return this.score(question, submission);
+  }
+  
+  /**
+   * Validates a submission and adjusts score and feedback using the learner's history
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @param progress - Learner's progress on this question, if any
+   * @returns Scored validation result
+   */
+  validateWithProgress(
+    question: Question,
+    submission: AnswerSubmission,
+    progress?: UserProgress
+  ): AnswerValidationResult {
+    const result = this.validateAnswer(question, submission);
+    return progress && this.applyProgress ? this.applyProgress(result, progress) : result;
+  }
+  
+  /**
+   * Gets the maximum score for this validator's question type
+   * @returns Maximum score
+   */
+  protected abstract maxScore(): number;
+  
+  /**
+   * Scores a submission for a question of the supported type
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @returns Scored validation result
+   * @throws Error if the submission format is invalid
+   */
+  protected abstract score(question: Question, submission: AnswerSubmission): AnswerValidationResult;
+  
+  /**
+   * Adjusts a result using the learner's history.
+   * Validators without it return the result of validateAnswer unchanged.
+   * @param result - Result from validateAnswer
+   * @param progress - Learner's progress on this question
+   * @returns Adjusted result
+   */
+  protected applyProgress?(result: AnswerValidationResult, progress: UserProgress): AnswerValidationResult;
+  
+  /**
+   * Ensures a question has the supported type
+   * @param question - Question to check
+   * @throws Error if the question type is not supported
+   */
+  private ensureCanValidate(question: Question): void {
+    if (!this.canValidate(question)) {
+      throw new Error(`${this.validatorName} cannot validate question type "${question?.type}"`);
+    }
+  }
+}
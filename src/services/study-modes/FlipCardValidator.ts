@@ -0,0 +1,49 @@
+import type { Question } from '../../utils/types';
+import type { AnswerSubmission, AnswerValidationResult } from './IAnswerValidator';
+import { AbstractAnswerValidator } from './AbstractAnswerValidator';
+
+/** Score awarded for a card marked as known */
+const MAX_SCORE = 1;
+
+/**
+ * Validates self-graded flip cards.
+ * The learner's own known/unknown judgement is the result; there are no bonuses.
+ */
+export class FlipCardValidator extends AbstractAnswerValidator {
+  protected readonly questionType = 'flip-card' as const;
+  protected readonly validatorName = 'FlipCardValidator';
+  
+  /**
+   * Gets the maximum score for flip cards
+   * @returns Maximum score
+   */
+  protected maxScore(): number {
+    return MAX_SCORE;
+  }
+  
+  /**
+   * Scores a flip-card self-assessment
+   * @param question - Flip card being studied
+   * @param submission - Submission whose userAnswer is { known }
+   * @returns Scored validation result
+   * @throws Error if the submission does not contain a known flag
+   */
+  protected score(question: Question, submission: AnswerSubmission): AnswerValidationResult {
+    const known = submission?.userAnswer?.known;
+    
+    if (typeof known !== 'boolean') {
+      throw new Error('Invalid submission format: expected { known: boolean }');
+    }
+    
+    return {
+      isCorrect: known,
+      score: known ? MAX_SCORE : 0,
+      maxScore: MAX_SCORE,
+      feedback: known ? 'Marked as known.' : 'Marked for another review.',
+      explanation: question.explanation ?? '',
+      difficultyBonus: 0,
+      timeBonus: 0,
+      timePenalty: 0
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import type { Question, QuestionType, UserProgress } from '../../utils/types';
+
+/**
+ * Answer submitted in a study mode.
+ * The shape of userAnswer depends on the question type
+ * (e.g. { selectedIndex } for multiple choice, { known } for flip cards).
+ */
+export interface AnswerSubmission {
+  questionId: string;
+  timestamp: Date;
+  /** Time spent answering in milliseconds */
+  timeSpent: number;
+  userAnswer: Record<string, unknown>;
+}
+
+/**
+ * Scored outcome of validating a submission
+ */
+export interface AnswerValidationResult {
+  isCorrect: boolean;
+  /** Final score after bonuses and penalties */
+  score: number;
+  /** Highest score this question can award */
+  maxScore: number;
+  feedback: string;
+  explanation: string;
+  difficultyBonus: number;
+  timeBonus: number;
+  timePenalty: number;
+}
+
+/**
+ * Strategy interface for validating and scoring answers of one or more question types.
+ * Validators are selected through ValidatorFactory by question type.
+ */
+export interface IAnswerValidator {
+  /**
+   * Gets the question types this validator handles
+   * @returns Supported question types
+   */
+  getSupportedTypes(): QuestionType[];
+  
+  /**
+   * Checks whether this validator can validate a question
+   * @param question - Question to check
+   * @returns True if the question type is supported
+   */
+  canValidate(question: Question): boolean;
+  
+  /**
+   * Gets the highest score a question can award, including bonuses
+   * @param question - Question to score
+   * @returns Maximum score
+   * @throws Error if the question type is not supported
+   */
+  getMaxScore(question: Question): number;
+  
+  /**
+   * Validates and scores a submission
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @returns Scored validation result
+   * @throws Error if the question type or submission format is not supported
+   */
+  validateAnswer(question: Question, submission: AnswerSubmission): AnswerValidationResult;
+  
+  /**
+   * Validates a submission and adjusts score and feedback using the learner's history
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @param progress - Learner's progress on this question, if any
+   * @returns Scored validation result
+   */
+  validateWithProgress(question: Question, submission: AnswerSubmission, progress?: UserProgress): AnswerValidationResult;
+}
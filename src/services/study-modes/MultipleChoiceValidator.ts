@@ -0,0 +1,153 @@
+import type { MultipleChoiceQuestion, Question, UserProgress } from '../../utils/types';
+import type { AnswerSubmission, AnswerValidationResult } from './IAnswerValidator';
+import { AbstractAnswerValidator } from './AbstractAnswerValidator';
+
+/** Score awarded for a correct answer before bonuses */
+const BASE_SCORE = 1;
+
+/** Highest score including bonuses */
+const MAX_SCORE = 1.2;
+
+/** Difficulty from which correct answers earn a bonus */
+const HARD_DIFFICULTY_THRESHOLD = 8;
+const DIFFICULTY_BONUS = 0.1;
+
+/** Answers faster than this are treated as guesses and earn no time bonus */
+const MIN_DELIBERATE_TIME_MS = 1000;
+/** Correct answers up to this time earn a time bonus */
+const FAST_ANSWER_TIME_MS = 3000;
+const TIME_BONUS = 0.1;
+
+/** Answers slower than this are penalized proportionally, up to the maximum penalty */
+const SLOW_ANSWER_TIME_MS = 20000;
+const TIME_PENALTY_PER_MS = 0.1 / 10000;
+const MAX_TIME_PENALTY = 0.3;
+
+/** Consecutive correct answers that count as a streak */
+const STREAK_THRESHOLD = 3;
+/** Previous misses after which a question counts as troublesome */
+const REPEATED_MISTAKE_THRESHOLD = 3;
+const REPEATED_MISTAKE_PENALTY = 0.1;
+
+/**
+ * Validates and scores single-answer multiple-choice questions.
+ * Correct answers earn a base score plus difficulty and speed bonuses, minus a slowness penalty.
+ */
+export class MultipleChoiceValidator extends AbstractAnswerValidator {
+  protected readonly questionType = 'multiple-choice' as const;
+  protected readonly validatorName = 'MultipleChoiceValidator';
+  
+  /**
+   * Gets the maximum score for multiple-choice questions
+   * @returns Maximum score including bonuses
+   */
+  protected maxScore(): number {
+    return MAX_SCORE;
+  }
+  
+  /**
+   * Scores a multiple-choice submission
+   * @param question - Question being answered
+   * @param submission - Submission whose userAnswer is { selectedIndex }
+   * @returns Scored validation result
+   * @throws Error if the submission format is invalid
+   */
+  protected score(question: Question, submission: AnswerSubmission): AnswerValidationResult {
+    const multipleChoice = question as MultipleChoiceQuestion;
+    const selectedIndex = this.getSelectedIndex(multipleChoice, submission);
+    const isCorrect = selectedIndex === multipleChoice.correctAnswerIndex;
+    
+    const selectedOption = multipleChoice.options[selectedIndex];
+    const correctOption = multipleChoice.options[multipleChoice.correctAnswerIndex];
+    const explanation = [multipleChoice.explanation, selectedOption.explanation]
+      .filter((text): text is string => Boolean(text))
+      .join('\n\n');
+    
+    if (!isCorrect) {
+      return {
+        isCorrect,
+        score: 0,
+        maxScore: MAX_SCORE,
+        feedback: `Incorrect. You chose "${selectedOption.text}", but the correct answer is "${correctOption?.text ?? ''}".`,
+        explanation,
+        difficultyBonus: 0,
+        timeBonus: 0,
+        timePenalty: 0
+      };
+    }
+    
+    const difficultyBonus = multipleChoice.difficulty >= HARD_DIFFICULTY_THRESHOLD ? DIFFICULTY_BONUS : 0;
+    const timeBonus = submission.timeSpent >= MIN_DELIBERATE_TIME_MS && submission.timeSpent <= FAST_ANSWER_TIME_MS
+      ? TIME_BONUS
+      : 0;
+    const timePenalty = submission.timeSpent > SLOW_ANSWER_TIME_MS
+      ? Math.min(MAX_TIME_PENALTY, (submission.timeSpent - SLOW_ANSWER_TIME_MS) * TIME_PENALTY_PER_MS)
+      : 0;
+    const score = Math.min(MAX_SCORE, Math.max(0, BASE_SCORE + difficultyBonus + timeBonus - timePenalty));
+    
+    return {
+      isCorrect,
+      score: this.round(score),
+      maxScore: MAX_SCORE,
+      feedback: `Correct! "${correctOption.text}" is the right answer.`,
+      explanation,
+      difficultyBonus,
+      timeBonus,
+      timePenalty: this.round(timePenalty)
+    };
+  }
+  
+  /**
+   * Rewards streaks and penalizes questions that keep being missed
+   * @param result - Result from validateAnswer
+   * @param progress - Learner's progress on this question
+   * @returns Adjusted result
+   */
+  protected applyProgress(result: AnswerValidationResult, progress: UserProgress): AnswerValidationResult {
+    if (result.isCorrect && progress.consecutiveCorrect >= STREAK_THRESHOLD) {
+      return {
+        ...result,
+        feedback: `${result.feedback} You're on a roll with ${progress.consecutiveCorrect + 1} correct in a row!`
+      };
+    }
+    
+    if (!result.isCorrect && progress.unknownCount >= REPEATED_MISTAKE_THRESHOLD) {
+      return {
+        ...result,
+        score: -REPEATED_MISTAKE_PENALTY,
+        feedback: `${result.feedback} This one is tricky for you - review the explanation before moving on.`
+      };
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Extracts and checks the selected option index
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @returns Selected option index
+   * @throws Error if the submission does not contain a valid selectedIndex
+   */
+  private getSelectedIndex(question: MultipleChoiceQuestion, submission: AnswerSubmission): number {
+    const selectedIndex = submission?.userAnswer?.selectedIndex;
+    
+    if (typeof selectedIndex !== 'number' || !Number.isInteger(selectedIndex)) {
+      throw new Error('Invalid submission format: expected { selectedIndex: number }');
+    }
+    if (selectedIndex < 0 || selectedIndex >= question.options.length) {
+      throw new Error(`Selected index ${selectedIndex} is out of bounds for ${question.options.length} options`);
+    }
+    
+    return selectedIndex;
+  }
+  
+  /**
+   * Rounds a score to avoid floating point noise
+   * @param value - Value to round
+   * @returns Value rounded to two decimals
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,179 @@
+import type { Question, QuestionType, UserProgress } from '../../utils/types';
+import type { AnswerSubmission, AnswerValidationResult, IAnswerValidator } from './IAnswerValidator';
+import { FlipCardValidator } from './FlipCardValidator';
+import { MultipleChoiceValidator } from './MultipleChoiceValidator';
+
+/**
+ * Creates a validator instance
+ */
+export type ValidatorCreator = () => IAnswerValidator;
+
+/**
+ * Validator that delegates to one validator per question type.
+ * Implements Composite pattern so mixed decks can be validated through a single object.
+ */
+export class CompositeValidator implements IAnswerValidator {
+  private readonly validators: Map<QuestionType, IAnswerValidator>;
+  
+  constructor(validators: Map<QuestionType, IAnswerValidator>) {
+    this.validators = new Map(validators);
+  }
+  
+  /**
+   * Gets the question types this validator handles
+   * @returns Supported question types
+   */
+  getSupportedTypes(): QuestionType[] {
+    return Array.from(this.validators.keys());
+  }
+  
+  /**
+   * Checks whether a delegate can validate a question
+   * @param question - Question to check
+   * @returns True if a delegate supports the question type
+   */
+  canValidate(question: Question): boolean {
+    const validator = this.validators.get(question?.type);
+    return validator !== undefined && validator.canValidate(question);
+  }
+  
+  /**
+   * Gets the highest score a question can award
+   * @param question - Question to score
+   * @returns Maximum score from the matching delegate
+   * @throws Error if no delegate supports the question type
+   */
+  getMaxScore(question: Question): number {
+    return this.getValidator(question).getMaxScore(question);
+  }
+  
+  /**
+   * Validates and scores a submission with the matching delegate
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @returns Scored validation result
+   * @throws Error if no delegate supports the question type
+   */
+  validateAnswer(question: Question, submission: AnswerSubmission): AnswerValidationResult {
+    return this.getValidator(question).validateAnswer(question, submission);
+  }
+  
+  /**
+   * Validates a submission with progress adjustments using the matching delegate
+   * @param question - Question being answered
+   * @param submission - Submitted answer
+   * @param progress - Learner's progress on this question, if any
+   * @returns Scored validation result
+   * @throws Error if no delegate supports the question type
+   */
+  validateWithProgress(
+    question: Question,
+    submission: AnswerSubmission,
+    progress?: UserProgress
+  ): AnswerValidationResult {
+    return this.getValidator(question).validateWithProgress(question, submission, progress);
+  }
+  
+  /**
+   * Gets the delegate for a question
+   * @param question - Question to validate
+   * @returns Matching validator
+   * @throws Error if no delegate supports the question type
+   */
+  private getValidator(question: Question): IAnswerValidator {
+    const validator = this.validators.get(question?.type);
+    if (!validator) {
+      throw new Error(`No validator registered for question type "${question?.type}"`);
+    }
+    return validator;
+  }
+}
+
+/**
+ * Registry of answer validators keyed by question type.
+ * Follows Open/Closed Principle: new question types are supported by registering a creator.
+ */
+export class ValidatorFactory {
+  private readonly creators = new Map<QuestionType, ValidatorCreator>([
+    ['flip-card', () => new FlipCardValidator()],
+    ['multiple-choice', () => new MultipleChoiceValidator()]
+  ]);
+  
+  /**
+   * Creates a validator for a question type
+   * @param type - Question type
+   * @returns New validator or null if the type is not supported
+   */
+  createValidator(type: QuestionType): IAnswerValidator | null {
+    const creator = this.creators.get(type);
+    return creator ? creator() : null;
+  }
+  
+  /**
+   * Gets every registered question type
+   * @returns Supported question types
+   */
+  getSupportedTypes(): QuestionType[] {
+    return Array.from(this.creators.keys());
+  }
+  
+  /**
+   * Checks whether a question type has a registered validator
+   * @param type - Question type
+   * @returns True if supported
+   */
+  isSupported(type: QuestionType): boolean {
+    return this.creators.has(type);
+  }
+  
+  /**
+   * Registers (or replaces) the validator creator for a question type
+   * @param type - Question type
+   * @param creator - Function creating the validator
+   */
+  registerValidator(type: QuestionType, creator: ValidatorCreator): void {
+    this.creators.set(type, creator);
+  }
+  
+  /**
+   * Creates a composite validator covering several question types
+   * @param types - Question types to cover
+   * @returns Composite validator
+   * @throws Error if any type is not supported
+   */
+  createCompositeValidator(types: QuestionType[]): CompositeValidator {
+    const validators = new Map<QuestionType, IAnswerValidator>();
+    
+    for (const type of new Set(types)) {
+      const validator = this.createValidator(type);
+      if (!validator) {
+        throw new Error(`Unsupported question type: ${type}`);
+      }
+      validators.set(type, validator);
+    }
+    
+    return new CompositeValidator(validators);
+  }
+  
+  /**
+   * Creates the simplest validator able to validate a set of questions:
+   * a single validator when all share a type, otherwise a composite
+   * @param questions - Questions to validate
+   * @returns Validator for the questions
+   * @throws Error if any question type is not supported
+   */
+  createOptimalValidator(questions: Question[]): IAnswerValidator {
+    const types = Array.from(new Set(questions.map(question => question.type)));
+    
+    const unsupported = types.filter(type => !this.isSupported(type));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported question type: ${unsupported.join(', ')}`);
+    }
+    
+    if (types.length === 1) {
+      return this.createValidator(types[0]) as IAnswerValidator;
+    }
+    
+    return this.createCompositeValidator(types);
+  }
+}
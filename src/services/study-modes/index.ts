@@ -1,5 +1,8 @@
 // Study mode services exports
 // Validators implement IAnswerValidator and are selected via ValidatorFactory per cursor rules
 
-// Note: Services will be implemented following OOP principles and SOLID design
-// export * from './ValidatorFactory';
+export * from './IAnswerValidator';
+export * from './AbstractAnswerValidator';
+export * from './MultipleChoiceValidator';
+export * from './FlipCardValidator';
+export * from './ValidatorFactory';
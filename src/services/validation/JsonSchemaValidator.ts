@@ -0,0 +1,306 @@
+/**
+ * JSON Schema (draft-07) document or subschema.
+ * Only the keywords the validator understands are typed; annotations such as
+ * "description" or "default" are allowed and ignored.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [annotation: string]: unknown;
+}
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A value that does not satisfy a schema keyword
+ */
+export interface JsonSchemaError {
+  /** JSON pointer to the offending value ("" for the root) */
+  pointer: string;
+
+  /** Schema keyword that failed */
+  keyword: string;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Checks for the string formats used by the question schema
+ */
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'date-time': value =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) &&
+    !Number.isNaN(Date.parse(value)),
+  'uri': value => /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(value)
+};
+
+/**
+ * Validates JSON values against a draft-07 JSON Schema.
+ * Supports the keywords used by the question file schema (types, enums, string, number and
+ * array bounds, object properties, formats, combinators and local "$ref"s); unknown keywords
+ * are ignored, as the specification requires.
+ */
+export class JsonSchemaValidator {
+  /**
+   * Validates a value against a schema
+   * @param schema - Root schema; local "$ref"s are resolved against it
+   * @param value - Value to validate
+   * @returns Every violation found (empty if the value is valid)
+   * @throws Error if the schema contains a "$ref" that cannot be resolved
+   */
+  validate(schema: JsonSchema, value: unknown): JsonSchemaError[] {
+    return this.validateNode(schema, value, '', schema);
+  }
+
+  /**
+   * Validates a value against one schema node
+   * @param schema - Schema node
+   * @param value - Value to validate
+   * @param pointer - JSON pointer of the value
+   * @param root - Root schema for resolving references
+   * @returns Violations found at or below the value
+   */
+  private validateNode(schema: JsonSchema, value: unknown, pointer: string, root: JsonSchema): JsonSchemaError[] {
+    if (schema.$ref !== undefined) {
+      // In draft-07 a $ref replaces its sibling keywords
+      return this.validateNode(this.resolveRef(schema.$ref, root), value, pointer, root);
+    }
+
+    const errors: JsonSchemaError[] = [];
+    const fail = (keyword: string, message: string, at: string = pointer) =>
+      errors.push({ pointer: at, keyword, message });
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(type, value))) {
+        // Further keywords would only repeat the type mismatch
+        fail('type', `must be ${types.join(' or ')}`);
+        return errors;
+      }
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some(allowed => this.isEqual(allowed, value))) {
+      fail('enum', `must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+    }
+
+    if (schema.const !== undefined && !this.isEqual(schema.const, value)) {
+      fail('const', `must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+      const length = [...value].length;
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        fail('minLength', `must be at least ${schema.minLength} characters long`);
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        fail('maxLength', `must be at most ${schema.maxLength} characters long`);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+        fail('pattern', `must match pattern ${schema.pattern}`);
+      }
+      const formatCheck = schema.format !== undefined ? FORMAT_CHECKS[schema.format] : undefined;
+      if (formatCheck && !formatCheck(value)) {
+        fail('format', `must be a valid ${schema.format}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        fail('minimum', `must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        fail('maximum', `must be at most ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail('minItems', `must have at least ${schema.minItems} item${schema.minItems !== 1 ? 's' : ''}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        fail('maxItems', `must have at most ${schema.maxItems} item${schema.maxItems !== 1 ? 's' : ''}`);
+      }
+      if (schema.uniqueItems) {
+        value.forEach((item, index) => {
+          if (value.findIndex(other => this.isEqual(other, item)) < index) {
+            fail('uniqueItems', `duplicates an earlier item`, `${pointer}/${index}`);
+          }
+        });
+      }
+      if (schema.items !== undefined) {
+        const itemSchema = schema.items;
+        value.forEach((item, index) => {
+          errors.push(...this.validateNode(itemSchema, item, `${pointer}/${index}`, root));
+        });
+      }
+    }
+
+    if (this.isObject(value)) {
+      schema.required?.forEach(property => {
+        if (!(property in value)) {
+          fail('required', `must have required property "${property}"`);
+        }
+      });
+
+      Object.entries(value).forEach(([property, propertyValue]) => {
+        const propertyPointer = `${pointer}/${this.escapePointerToken(property)}`;
+        const propertySchema = schema.properties?.[property];
+
+        if (propertySchema !== undefined) {
+          errors.push(...this.validateNode(propertySchema, propertyValue, propertyPointer, root));
+        } else if (schema.additionalProperties === false) {
+          fail('additionalProperties', `is not an allowed property`, propertyPointer);
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(...this.validateNode(schema.additionalProperties, propertyValue, propertyPointer, root));
+        }
+      });
+    }
+
+    schema.allOf?.forEach(subschema => {
+      errors.push(...this.validateNode(subschema, value, pointer, root));
+    });
+
+    if (schema.anyOf !== undefined) {
+      const results = schema.anyOf.map(subschema => this.validateNode(subschema, value, pointer, root));
+      if (!results.some(result => result.length === 0)) {
+        errors.push(...this.closestBranch(results));
+      }
+    }
+
+    if (schema.oneOf !== undefined) {
+      const results = schema.oneOf.map(subschema => this.validateNode(subschema, value, pointer, root));
+      const matches = results.filter(result => result.length === 0).length;
+
+      if (matches === 0) {
+        errors.push(...this.closestBranch(results));
+      } else if (matches > 1) {
+        fail('oneOf', `must match exactly one schema in oneOf, but matches ${matches}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Picks the errors to report when no alternative of a combinator matches.
+   * Alternatives whose "const" discriminator fails (such as the flip-card branch for a
+   * multiple-choice question) are passed over, then the one with the fewest errors wins.
+   * @param results - Errors of each alternative
+   * @returns Errors of the closest alternative
+   */
+  private closestBranch(results: JsonSchemaError[][]): JsonSchemaError[] {
+    const rank = (result: JsonSchemaError[]) =>
+      (result.some(error => error.keyword === 'const') ? 1 : 0) * Number.MAX_SAFE_INTEGER + result.length;
+
+    return results.reduce((closest, result) => (rank(result) < rank(closest) ? result : closest));
+  }
+
+  /**
+   * Resolves a local reference such as "#/definitions/question"
+   * @param ref - Reference to resolve
+   * @param root - Root schema
+   * @returns Referenced schema
+   * @throws Error if the reference is not local or does not exist
+   */
+  private resolveRef(ref: string, root: JsonSchema): JsonSchema {
+    if (ref !== '#' && !ref.startsWith('#/')) {
+      throw new Error(`Unsupported schema reference "${ref}": only local references are supported`);
+    }
+
+    const target = ref
+      .slice(2)
+      .split('/')
+      .filter(token => token.length > 0)
+      .map(token => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((node, token) => (this.isObject(node) ? node[token] : undefined), root);
+
+    if (!this.isObject(target)) {
+      throw new Error(`Cannot resolve schema reference "${ref}"`);
+    }
+
+    return target as JsonSchema;
+  }
+
+  /**
+   * Checks a value against a JSON Schema type name
+   * @param type - Type name
+   * @param value - Value to check
+   * @returns True if the value has the type
+   */
+  private matchesType(type: JsonSchemaType, value: unknown): boolean {
+    switch (type) {
+      case 'null':
+        return value === null;
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return this.isObject(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  /**
+   * Compares two JSON values structurally
+   * @param left - First value
+   * @param right - Second value
+   * @returns True if the values are equal
+   */
+  private isEqual(left: unknown, right: unknown): boolean {
+    if (Array.isArray(left) && Array.isArray(right)) {
+      return left.length === right.length && left.every((item, index) => this.isEqual(item, right[index]));
+    }
+
+    if (this.isObject(left) && this.isObject(right)) {
+      const leftKeys = Object.keys(left);
+      return leftKeys.length === Object.keys(right).length &&
+        leftKeys.every(key => key in right && this.isEqual(left[key], right[key]));
+    }
+
+    return left === right;
+  }
+
+  /**
+   * Checks whether a value is a plain JSON object
+   * @param value - Value to check
+   * @returns True for non-null, non-array objects
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Escapes a property name for use in a JSON pointer
+   * @param token - Property name
+   * @returns Escaped token
+   */
+  private escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
@@ -0,0 +1,191 @@
+import type {
+  IQuestionFileSchemaValidator,
+  JsonFileReader,
+  SchemaValidationReport,
+  SchemaViolation
+} from '../../interfaces/validation/ISchemaValidator';
+import { JsonSchemaValidator, type JsonSchema } from './JsonSchemaValidator';
+
+/**
+ * Reads a JSON file over HTTP, the way the question loader does in the browser
+ * @param filePath - Path relative to the site root
+ * @returns Promise resolving to the parsed JSON value
+ * @throws Error if the request fails or the body is not JSON
+ */
+export const fetchJsonFile: JsonFileReader = async filePath => {
+  const response = await fetch(filePath.startsWith('/') ? filePath : `/${filePath}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Resolves a path relative to the file that references it
+ * @param fromFile - Path of the referencing file
+ * @param relativePath - Referenced path, relative to the referencing file
+ * @returns Combined, normalized path
+ */
+export function resolveRelativePath(fromFile: string, relativePath: string): string {
+  if (relativePath.startsWith('/')) {
+    return relativePath;
+  }
+
+  const segments = fromFile.split('/').slice(0, -1);
+  for (const segment of relativePath.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Checks question files against the JSON Schema named in their `$schema` field.
+ * Each schema is read once and shared by every file that declares it, and violations
+ * are reported with the file, the question id and a JSON pointer to the bad value.
+ */
+export class QuestionFileSchemaValidator implements IQuestionFileSchemaValidator {
+  private readonly schemaCache = new Map<string, Promise<JsonSchema>>();
+
+  /**
+   * Creates a new QuestionFileSchemaValidator
+   * @param readJson - Reads question and schema files (default: fetch relative to the site root)
+   * @param schemaValidator - Validator that applies a schema to a value
+   */
+  constructor(
+    private readonly readJson: JsonFileReader = fetchJsonFile,
+    private readonly schemaValidator: JsonSchemaValidator = new JsonSchemaValidator()
+  ) {}
+
+  /**
+   * Checks one question file against the schema it declares
+   * @param filePath - Path of the question file
+   * @returns Promise resolving to the violations found (empty if the file is valid)
+   */
+  async validateFile(filePath: string): Promise<SchemaViolation[]> {
+    const fileViolation = (keyword: string, message: string): SchemaViolation[] =>
+      [{ filePath, questionId: null, pointer: '', keyword, message }];
+
+    let data: unknown;
+    try {
+      data = await this.readJson(filePath);
+    } catch (error) {
+      return fileViolation('file', `Cannot read file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const schemaReference = this.isObject(data) ? data.$schema : undefined;
+    if (typeof schemaReference !== 'string' || schemaReference.trim() === '') {
+      return fileViolation('$schema', 'File does not declare a $schema');
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(schemaReference)) {
+      return fileViolation('$schema', `Remote schema "${schemaReference}" is not supported; use a path relative to the file`);
+    }
+
+    const schemaPath = resolveRelativePath(filePath, schemaReference);
+    let schema: JsonSchema;
+    try {
+      schema = await this.loadSchema(schemaPath);
+    } catch (error) {
+      return fileViolation('$schema', `Cannot read schema ${schemaPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      return this.schemaValidator.validate(schema, data).map(error => ({
+        filePath,
+        questionId: this.findQuestionId(data, error.pointer),
+        pointer: error.pointer,
+        keyword: error.keyword,
+        message: error.message
+      }));
+    } catch (error) {
+      return fileViolation('$schema', `Invalid schema ${schemaPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Checks several question files against the schemas they declare
+   * @param filePaths - Paths of the question files
+   * @returns Promise resolving to the combined report
+   */
+  async validateFiles(filePaths: string[]): Promise<SchemaValidationReport> {
+    const violations: SchemaViolation[] = [];
+
+    for (const filePath of filePaths) {
+      violations.push(...await this.validateFile(filePath));
+    }
+
+    return {
+      isValid: violations.length === 0,
+      filesChecked: filePaths.length,
+      violations
+    };
+  }
+
+  /**
+   * Loads a schema, reusing an earlier load of the same path
+   * @param schemaPath - Resolved schema path
+   * @returns Promise resolving to the schema
+   */
+  private loadSchema(schemaPath: string): Promise<JsonSchema> {
+    let schema = this.schemaCache.get(schemaPath);
+
+    if (!schema) {
+      schema = this.readJson(schemaPath).then(value => {
+        if (!this.isObject(value)) {
+          throw new Error('Schema must be a JSON object');
+        }
+        return value as JsonSchema;
+      });
+      // Forget failed loads so a later check can retry
+      schema.catch(() => this.schemaCache.delete(schemaPath));
+      this.schemaCache.set(schemaPath, schema);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Finds the id of the question a JSON pointer points into
+   * @param data - Question file contents
+   * @param pointer - JSON pointer of a violation
+   * @returns Question id, or null if the pointer is outside the questions array or the id is missing
+   */
+  private findQuestionId(data: unknown, pointer: string): string | null {
+    const match = /^\/questions\/(\d+)(\/|$)/.exec(pointer);
+    if (!match || !this.isObject(data) || !Array.isArray(data.questions)) {
+      return null;
+    }
+
+    const question: unknown = data.questions[Number(match[1])];
+    return this.isObject(question) && typeof question.id === 'string' ? question.id : null;
+  }
+
+  /**
+   * Checks whether a value is a plain JSON object
+   * @param value - Value to check
+   * @returns True for non-null, non-array objects
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Formats a violation as a single report line, e.g.
+ * "data/questions/basics.json › basics-01 › /questions/0/id: must match pattern ^[a-z]+-[0-9]{4}$"
+ * @param violation - Violation to format
+ * @returns Report line
+ */
+export function formatSchemaViolation(violation: SchemaViolation): string {
+  const location = [violation.filePath, violation.questionId, violation.pointer || '/']
+    .filter((part): part is string => part !== null)
+    .join(' › ');
+
+  return `${location}: ${violation.message}`;
+}
@@ -0,0 +1,5 @@
+// Question file schema validation exports
+// Shared by ApplicationBootstrap and the Node validation script
+
+export * from './JsonSchemaValidator';
+export * from './QuestionFileSchemaValidator';
@@ -0,0 +1,70 @@
+/**
+ * Service worker entry point.
+ * Built separately into a self-contained /sw.js (see vite.config.ts), which fills in
+ * the build's asset list and version below.
+ */
+
+import { ServiceWorkerCache } from './services/offline/ServiceWorkerCache';
+import { DEFAULT_DATA_ROOT_PATH, DEFAULT_QUESTION_PATHS } from './services/dataPaths';
+
+declare const __APP_SHELL_PATHS__: string[];
+declare const __CACHE_VERSION__: string;
+
+/**
+ * Service worker lifecycle event; the DOM library used by the app does not declare worker types
+ */
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Service worker fetch event
+ */
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+/**
+ * The parts of the service worker global scope used here
+ */
+interface ServiceWorkerScope {
+  readonly registration: { readonly scope: string };
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+
+const cache = new ServiceWorkerCache(caches, request => fetch(request), {
+  baseUrl: worker.registration.scope,
+  version: __CACHE_VERSION__,
+  appShellPaths: __APP_SHELL_PATHS__,
+  dataRootPath: DEFAULT_DATA_ROOT_PATH,
+  questionPaths: DEFAULT_QUESTION_PATHS
+});
+
+worker.addEventListener('install', event => {
+  event.waitUntil(
+    cache.install().then(failed => {
+      if (failed.length > 0) {
+        console.warn(`Question files not available offline: ${failed.join(', ')}`);
+      }
+      return worker.skipWaiting();
+    })
+  );
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil(cache.activate().then(() => worker.clients.claim()));
+});
+
+worker.addEventListener('fetch', event => {
+  const handled = cache.handleFetch(event.request);
+  if (handled) {
+    event.respondWith(handled.response);
+    event.waitUntil(handled.done);
+  }
+});
@@ -0,0 +1,213 @@
+/**
+ * Values tracked while simulating a snippet
+ */
+type SimulatedValue = string | number | boolean | null | SimulatedValue[];
+
+/**
+ * Statements that run code conditionally or repeatedly, which the simulator does not follow
+ */
+const CONTROL_FLOW = /\b(?:for|foreach|while|do|if|else|switch|goto)\b/;
+
+/**
+ * C# code execution simulator.
+ * Predicts the console output of the simple snippets used in questions (literals, variable and
+ * array assignments, string interpolation) so a stated output can be checked without a compiler.
+ * It is a heuristic: snippets it cannot follow yield null rather than a guess.
+ */
+export class CSharpExecutionSimulator {
+  /**
+   * Predicts the console output of a snippet
+   * @param code - C# source code
+   * @returns Output lines joined with "\n", or null if the snippet cannot be simulated
+   */
+  static simulate(code: string): string | null {
+    try {
+      // Remove comments and normalize code
+      const cleanCode = code
+        .replace(/\/\/.*$/gm, '')
+        .replace(/\/\*[\s\S]*?\*\//gm, '')
+        .trim();
+
+      const consoleStatements = this.extractConsoleStatements(cleanCode);
+      if (consoleStatements.length === 0 || CONTROL_FLOW.test(cleanCode.replace(/"(?:\\.|[^"\\])*"/g, '""'))) {
+        return null;
+      }
+
+      const executionContext = this.createExecutionContext(cleanCode);
+      const lines = consoleStatements.map(statement => this.executeConsoleStatement(statement, executionContext));
+      return lines.some(line => line === null) ? null : lines.join('\n');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Counts the Console.WriteLine calls in a snippet
+   * @param code - C# source code
+   * @returns Number of Console.WriteLine calls
+   */
+  static countWriteLines(code: string): number {
+    return (code.match(/Console\.WriteLine/g) || []).length;
+  }
+
+  private static extractConsoleStatements(code: string): string[] {
+    const consoleRegex = /Console\.WriteLine\s*\(.*?\)\s*;/g;
+    return code.match(consoleRegex) || [];
+  }
+
+  private static createExecutionContext(code: string): Record<string, SimulatedValue> {
+    const context: Record<string, SimulatedValue> = {};
+
+    this.parseVariableDeclarations(code, context);
+    this.parseArrayDeclarations(code, context);
+    this.parseAssignments(code, context);
+
+    return context;
+  }
+
+  private static parseVariableDeclarations(code: string, context: Record<string, SimulatedValue>): void {
+    // Match: int x = 5; string name = "John"; etc.
+    const varRegex = /(?:int|string|bool|double|decimal|float)\s+(\w+)\s*=\s*([^;]+);/g;
+    let match;
+
+    while ((match = varRegex.exec(code)) !== null) {
+      const [, varName, value] = match;
+      context[varName] = this.parseValue(value.trim());
+    }
+  }
+
+  private static parseArrayDeclarations(code: string, context: Record<string, SimulatedValue>): void {
+    // Match: int[] arr = {1, 2, 3}; int[] arr2 = arr1;
+    const arrayInitRegex = /(\w+)\[\]\s+(\w+)\s*=\s*\{([^}]+)\};/g;
+    const arrayAssignRegex = /(\w+)\[\]\s+(\w+)\s*=\s*(\w+);/g;
+    let match;
+
+    while ((match = arrayInitRegex.exec(code)) !== null) {
+      const [, , arrayName, values] = match;
+      context[arrayName] = values.split(',').map(value => this.parseValue(value.trim()));
+    }
+
+    // Array assignments copy the reference, as in C#
+    while ((match = arrayAssignRegex.exec(code)) !== null) {
+      const [, , newArrayName, sourceArrayName] = match;
+      if (context[sourceArrayName]) {
+        context[newArrayName] = context[sourceArrayName];
+      }
+    }
+  }
+
+  private static parseAssignments(code: string, context: Record<string, SimulatedValue>): void {
+    // Match: x = 10; y += 5; arr[0] = 20;
+    const assignRegex = /(\w+)(?:\[(\d+)\])?\s*([+\-*/]?=)\s*([^;]+);/g;
+    let match;
+
+    while ((match = assignRegex.exec(code)) !== null) {
+      const [, varName, index, operator, value] = match;
+      // Array initializers were handled with the declarations
+      if (value.trim().startsWith('{')) continue;
+
+      // Assigning a variable copies its value, or its reference for arrays
+      const parsedValue = /^\w+$/.test(value.trim()) && value.trim() in context
+        ? context[value.trim()]
+        : this.parseValue(value.trim());
+      const current = context[varName];
+
+      if (index !== undefined) {
+        if (Array.isArray(current)) {
+          current[parseInt(index, 10)] = parsedValue;
+        }
+      } else if (operator === '=') {
+        context[varName] = parsedValue;
+      } else if (operator === '+=' && typeof current === 'string') {
+        context[varName] = current + String(parsedValue);
+      } else if (operator === '+=' && typeof parsedValue === 'number') {
+        context[varName] = (typeof current === 'number' ? current : 0) + parsedValue;
+      }
+    }
+  }
+
+  private static parseValue(rawValue: string): SimulatedValue {
+    const value = rawValue.trim().replace(/['"]/g, '');
+
+    if (value === 'null') return null;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (/^\d+$/.test(value)) return parseInt(value, 10);
+    if (/^\d*\.\d+$/.test(value)) return parseFloat(value);
+
+    return value;
+  }
+
+  /**
+   * Predicts the line printed by one Console.WriteLine call
+   * @returns Printed line, or null if an argument cannot be evaluated
+   */
+  private static executeConsoleStatement(statement: string, context: Record<string, SimulatedValue>): string | null {
+    const contentMatch = statement.match(/Console\.WriteLine\s*\((.+)\)\s*;/);
+    if (!contentMatch) return null;
+
+    const content = contentMatch[1].trim();
+
+    // String interpolation: $"x: {x}, y: {y}"
+    if (content.startsWith('$"') && content.endsWith('"')) {
+      return this.processStringInterpolation(content, context);
+    }
+
+    // Plain string literal: "Hello World"
+    if (content.startsWith('"') && content.endsWith('"')) {
+      return content.slice(1, -1);
+    }
+
+    // Variable reference: Console.WriteLine(x)
+    return content in context ? this.formatValue(context[content]) : null;
+  }
+
+  private static processStringInterpolation(interpolatedString: string, context: Record<string, SimulatedValue>): string | null {
+    let resolved = true;
+    const line = interpolatedString
+      .slice(2, -1)
+      .replace(/\{([^}]+)\}/g, (_match, expression: string) => {
+        const value = this.evaluateExpression(expression.trim(), context);
+        resolved &&= value !== undefined;
+        return this.formatValue(value);
+      });
+
+    return resolved ? line : null;
+  }
+
+  private static evaluateExpression(expression: string, context: Record<string, SimulatedValue>): SimulatedValue | undefined {
+    // Array access: arr[0]
+    const arrayMatch = expression.match(/(\w+)\[(\d+)\]/);
+    if (arrayMatch) {
+      const [, arrayName, index] = arrayMatch;
+      const array = context[arrayName];
+      return Array.isArray(array) ? array[parseInt(index, 10)] : undefined;
+    }
+
+    // Runtime type names: obj.GetType().Name
+    if (expression.includes('.GetType().Name')) {
+      const value = context[expression.split('.')[0]];
+      if (typeof value === 'number') return 'Int32';
+      if (typeof value === 'string') return 'String';
+      if (typeof value === 'boolean') return 'Boolean';
+      return 'Object';
+    }
+
+    // Nullable checks: nullableInt.HasValue
+    if (expression.includes('.HasValue')) {
+      const value = context[expression.split('.')[0]];
+      return value !== null && value !== undefined;
+    }
+
+    return context[expression];
+  }
+
+  /**
+   * Formats a value the way Console.WriteLine prints it
+   */
+  private static formatValue(value: SimulatedValue | undefined): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? 'True' : 'False';
+    return String(value);
+  }
+}
@@ -0,0 +1,222 @@
+import type { JsonFileReader } from '../../interfaces/validation/ISchemaValidator';
+import type {
+  LintIssue,
+  LintRule,
+  LintableQuestion,
+  QuestionLintReport,
+  QuestionQualityStats
+} from './types';
+import { defaultLintRules } from './rules';
+
+/**
+ * Rule id for problems with the file itself rather than one of its questions
+ */
+export const FILE_RULE_ID = 'structure/file';
+
+/**
+ * Rule id for suppression comments naming a rule that does not exist
+ */
+export const UNKNOWN_SUPPRESSION_RULE_ID = 'lint/unknown-suppression';
+
+/**
+ * Marker that starts a suppression in a question's "$comment"
+ */
+const SUPPRESSION_PATTERN = /lint-disable(?:\s+([^\n]*?))?(?:\s+--\s.*)?$/m;
+
+/**
+ * Rules suppressed for one question
+ * - 'all': a bare "lint-disable" turns every rule off
+ * - string[]: the rule ids listed after "lint-disable"
+ */
+type Suppression = 'all' | string[];
+
+/**
+ * Result of linting the questions of one file
+ */
+interface FileLintResult {
+  issues: LintIssue[];
+  suppressedCount: number;
+  questions: LintableQuestion[];
+}
+
+/**
+ * Runs lint rules over question files.
+ * A question opts out of rules through its "$comment" field, e.g.
+ * "$comment": "lint-disable options/duplicate-text -- the repeated option is the point".
+ */
+export class QuestionLinter {
+  private readonly ruleIds: Set<string>;
+
+  /**
+   * Creates a new QuestionLinter
+   * @param rules - Rules to apply (default: every built-in rule)
+   */
+  constructor(private readonly rules: LintRule[] = defaultLintRules) {
+    this.ruleIds = new Set(rules.map(rule => rule.id));
+  }
+
+  /**
+   * Gets the rules this linter applies
+   * @returns Rules in reporting order
+   */
+  getRules(): LintRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Reads and lints a set of question files
+   * @param filePaths - Question files to lint
+   * @param readJson - Reads and parses a question file
+   * @returns Promise resolving to the combined report
+   */
+  async lintFiles(filePaths: string[], readJson: JsonFileReader): Promise<QuestionLintReport> {
+    const issues: LintIssue[] = [];
+    const questions: LintableQuestion[] = [];
+    let suppressedCount = 0;
+
+    for (const filePath of filePaths) {
+      let data: unknown;
+      try {
+        data = await readJson(filePath);
+      } catch (error) {
+        issues.push(this.fileIssue(filePath, `Cannot read file: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        continue;
+      }
+
+      const result = this.lintFileContents(filePath, data);
+      issues.push(...result.issues);
+      questions.push(...result.questions);
+      suppressedCount += result.suppressedCount;
+    }
+
+    return {
+      filesChecked: filePaths.length,
+      questionsChecked: questions.length,
+      issues,
+      errorCount: issues.filter(issue => issue.severity === 'error').length,
+      warningCount: issues.filter(issue => issue.severity === 'warning').length,
+      suppressedCount,
+      stats: generateQualityStats(questions, filePaths.length)
+    };
+  }
+
+  /**
+   * Lints the parsed contents of one question file
+   * @param filePath - Path used in the report
+   * @param data - Parsed file contents
+   * @returns Issues, suppressed issue count and the questions that were checked
+   */
+  lintFileContents(filePath: string, data: unknown): FileLintResult {
+    const questions = typeof data === 'object' && data !== null && !Array.isArray(data)
+      ? (data as { questions?: unknown }).questions
+      : undefined;
+
+    if (!Array.isArray(questions)) {
+      return {
+        issues: [this.fileIssue(filePath, 'File must contain a "questions" array')],
+        suppressedCount: 0,
+        questions: []
+      };
+    }
+
+    const issues: LintIssue[] = [];
+    let suppressedCount = 0;
+
+    questions.forEach((question: LintableQuestion, index) => {
+      const questionId = typeof question?.id === 'string' && question.id ? question.id : `#${index + 1}`;
+      const suppression = this.parseSuppression(question);
+
+      if (Array.isArray(suppression)) {
+        suppression
+          .filter(ruleId => !this.ruleIds.has(ruleId))
+          .forEach(ruleId => issues.push({
+            ruleId: UNKNOWN_SUPPRESSION_RULE_ID,
+            severity: 'warning',
+            filePath,
+            questionId,
+            message: `Suppression names unknown rule "${ruleId}"`
+          }));
+      }
+
+      for (const rule of this.rules) {
+        const messages = typeof question === 'object' && question !== null ? rule.check(question) : [];
+        if (messages.length === 0) {
+          continue;
+        }
+
+        if (suppression === 'all' || suppression.includes(rule.id)) {
+          suppressedCount += messages.length;
+          continue;
+        }
+
+        messages.forEach(message => issues.push({
+          ruleId: rule.id,
+          severity: rule.severity,
+          filePath,
+          questionId,
+          message
+        }));
+      }
+    });
+
+    return { issues, suppressedCount, questions };
+  }
+
+  /**
+   * Reads the rules a question suppresses from its "$comment"
+   * @param question - Question to inspect
+   * @returns Suppressed rule ids, 'all', or an empty list
+   */
+  private parseSuppression(question: LintableQuestion): Suppression {
+    const comment = typeof question?.$comment === 'string' ? question.$comment : '';
+    const match = SUPPRESSION_PATTERN.exec(comment);
+
+    if (!match) {
+      return [];
+    }
+
+    const ruleIds = (match[1] ?? '').split(/[\s,]+/).filter(ruleId => ruleId.length > 0);
+    return ruleIds.length > 0 ? ruleIds : 'all';
+  }
+
+  /**
+   * Creates an issue for a problem with a whole file
+   */
+  private fileIssue(filePath: string, message: string): LintIssue {
+    return { ruleId: FILE_RULE_ID, severity: 'error', filePath, questionId: null, message };
+  }
+}
+
+/**
+ * Summarizes a question bank by type, code example language and output coverage
+ * @param questions - Questions to summarize
+ * @param fileCount - Number of files the questions came from
+ * @returns Question bank statistics
+ */
+export function generateQualityStats(questions: LintableQuestion[], fileCount: number): QuestionQualityStats {
+  const stats: QuestionQualityStats = {
+    total: questions.length,
+    fileCount,
+    byType: {},
+    byLanguage: {},
+    withCodeExamples: 0,
+    withOutput: 0
+  };
+
+  for (const question of questions) {
+    const type = typeof question?.type === 'string' ? question.type : 'unknown';
+    stats.byType[type] = (stats.byType[type] || 0) + 1;
+
+    if (question?.codeExample) {
+      stats.withCodeExamples++;
+      const language = question.codeExample.language || 'unknown';
+      stats.byLanguage[language] = (stats.byLanguage[language] || 0) + 1;
+
+      if (question.codeExample.output) {
+        stats.withOutput++;
+      }
+    }
+  }
+
+  return stats;
+}
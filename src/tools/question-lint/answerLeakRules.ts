@@ -0,0 +1,207 @@
+import type { LintRule, LintableQuestion } from './types';
+
+/**
+ * Shortest option text checked for a verbatim match; single characters match almost any snippet
+ */
+const MIN_LEAK_LENGTH = 2;
+
+/**
+ * Loop headers whose body may print once per iteration
+ */
+const LOOP_HEADER = /\b(?:for|foreach|while)\s*\(|\bdo\s*\{/g;
+
+/**
+ * Gets the options and snippet of a multiple-choice question with a code example, or null
+ */
+const optionsAndCode = (question: LintableQuestion): { options: string[]; code: string } | null => {
+  const code = question.codeExample?.code;
+  if (question.type !== 'multiple-choice' || !Array.isArray(question.options) ||
+      typeof code !== 'string' || code.trim() === '') {
+    return null;
+  }
+
+  return {
+    options: question.options.map(option => (typeof option?.text === 'string' ? option.text.trim() : '')),
+    code
+  };
+};
+
+/**
+ * Gets the indices of the correct options
+ */
+const correctIndicesOf = (question: LintableQuestion): number[] =>
+  question.correctAnswerIndices ??
+    (question.correctAnswerIndex !== undefined ? [question.correctAnswerIndex] : []);
+
+/**
+ * Checks whether a text appears in the code as a whole token rather than inside a longer word
+ */
+const appearsVerbatim = (text: string, code: string): boolean => {
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /^\w/.test(text) ? '(?<!\\w)' : '';
+  const end = /\w$/.test(text) ? '(?!\\w)' : '';
+
+  return new RegExp(`${start}${escaped}${end}`).test(code);
+};
+
+/**
+ * Finds the end of a loop body, either a braced block or a single statement
+ * @param code - Snippet without comments
+ * @param bodyStart - Index just after the loop header
+ * @returns Index just after the body
+ */
+const findBodyEnd = (code: string, bodyStart: number): number => {
+  let index = bodyStart;
+  while (index < code.length && /\s/.test(code[index])) {
+    index++;
+  }
+
+  if (code[index] !== '{') {
+    const statementEnd = code.indexOf(';', index);
+    return statementEnd === -1 ? code.length : statementEnd + 1;
+  }
+
+  let depth = 0;
+  for (; index < code.length; index++) {
+    if (code[index] === '{') depth++;
+    if (code[index] === '}' && --depth === 0) return index + 1;
+  }
+  return code.length;
+};
+
+/**
+ * Finds the end of a loop header such as "for (...)", matching nested parentheses
+ * @param code - Snippet without comments
+ * @param headerStart - Index of the loop keyword
+ * @returns Index just after the header
+ */
+const findHeaderEnd = (code: string, headerStart: number): number => {
+  const open = code.indexOf('(', headerStart);
+  const braceAt = code.indexOf('{', headerStart);
+  if (open === -1 || (braceAt !== -1 && braceAt < open)) {
+    // "do { ... }" has no header to skip
+    return braceAt;
+  }
+
+  let depth = 0;
+  for (let index = open; index < code.length; index++) {
+    if (code[index] === '(') depth++;
+    if (code[index] === ')' && --depth === 0) return index + 1;
+  }
+  return code.length;
+};
+
+/**
+ * Single values that may be listed on one line, such as numbers, booleans and characters
+ */
+const SCALAR_VALUE = /^(?:-?\d+(?:\.\d+)?|true|false|'.'|.)$/i;
+
+/**
+ * Checks whether digits form a sequence written without separators, such as "012" or "321"
+ */
+const isConcatenatedSequence = (text: string): boolean => {
+  if (!/^\d{2,}$/.test(text)) {
+    return false;
+  }
+  if (text.startsWith('0')) {
+    return true;
+  }
+
+  const step = Number(text[1]) - Number(text[0]);
+  return text.length >= 3 && step !== 0 &&
+    [...text].every((digit, index) => index === 0 || Number(digit) - Number(text[index - 1]) === step);
+};
+
+/**
+ * Checks whether a single-line option lists several output values rather than one
+ */
+const holdsSeveralValues = (text: string): boolean => {
+  if (text.includes(',')) {
+    return true;
+  }
+
+  const tokens = text.split(/[\s;|]+/).filter(Boolean);
+  if (tokens.length > 1) {
+    return tokens.every(token => SCALAR_VALUE.test(token)) || new Set(tokens).size < tokens.length;
+  }
+  return isConcatenatedSequence(text);
+};
+
+/**
+ * Checks whether a snippet calls Console.WriteLine inside a loop body
+ */
+const writesLineInLoop = (code: string): boolean => {
+  const cleanCode = code.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+
+  for (const match of cleanCode.matchAll(LOOP_HEADER)) {
+    const bodyStart = findHeaderEnd(cleanCode, match.index ?? 0);
+    const body = cleanCode.slice(bodyStart, findBodyEnd(cleanCode, bodyStart));
+    if (/Console\.WriteLine\s*\(/.test(body)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Answer-leak rules: checks from docs/QUESTIONS_ANSWER_RULES.md that supporting material
+ * does not give the answer away and that options match what the code really does.
+ * They are heuristics, so findings are warnings; a deliberate case can be suppressed.
+ */
+export const answerLeakRules: LintRule[] = [
+  {
+    id: 'answer-rules/correct-option-in-code',
+    category: 'answer-leak',
+    severity: 'warning',
+    description: 'Rule 2: the code example does not contain the text of a correct option',
+    check: question => {
+      const example = optionsAndCode(question);
+      if (!example) {
+        return [];
+      }
+
+      return correctIndicesOf(question)
+        .map(index => example.options[index])
+        .filter((text): text is string => text !== undefined && text.length >= MIN_LEAK_LENGTH)
+        .filter(text => appearsVerbatim(text, example.code))
+        .map(text => `Code example contains the correct option "${text}"`);
+    }
+  },
+  {
+    id: 'answer-rules/options-named-in-code',
+    category: 'answer-leak',
+    severity: 'warning',
+    description: 'Rule 2: the code example does not name all but one of the options',
+    check: question => {
+      const example = optionsAndCode(question);
+      if (!example || example.options.length < 3) {
+        return [];
+      }
+
+      const identifiers = new Set(example.code.match(/[A-Za-z_]\w*/g) ?? []);
+      const named = example.options.filter(text => /^[A-Za-z_]\w*$/.test(text) && identifiers.has(text));
+      if (named.length !== example.options.length - 1) {
+        return [];
+      }
+
+      const odd = example.options.find(text => !named.includes(text));
+      return [`Code example uses ${named.map(text => `"${text}"`).join(', ')}, leaving only "${odd}"`];
+    }
+  },
+  {
+    id: 'answer-rules/single-line-loop-output',
+    category: 'answer-leak',
+    severity: 'warning',
+    description: 'Rule 1: output options for Console.WriteLine in a loop span several lines',
+    check: question => {
+      const example = optionsAndCode(question);
+      if (!example || !writesLineInLoop(example.code) || example.options.some(text => text.includes('\n'))) {
+        return [];
+      }
+
+      return example.options
+        .filter(holdsSeveralValues)
+        .map(text => `Console.WriteLine runs in a loop, but option "${text}" puts the output on one line`);
+    }
+  }
+];
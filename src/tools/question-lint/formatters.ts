@@ -0,0 +1,66 @@
+import type { LintIssue, QuestionLintReport } from './types';
+
+/**
+ * Output formats supported by the lint CLI
+ */
+export type LintOutputFormat = 'text' | 'json';
+
+/**
+ * Pluralizes a count, e.g. "1 error" or "2 errors"
+ */
+const countOf = (count: number, noun: string): string => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+/**
+ * Formats a report for people: issues grouped by file, then a summary line
+ * @param report - Lint report
+ * @returns Multi-line report text
+ */
+export function formatLintReportText(report: QuestionLintReport): string {
+  const lines: string[] = [];
+  const issuesByFile = new Map<string, LintIssue[]>();
+
+  report.issues.forEach(issue => {
+    issuesByFile.set(issue.filePath, [...(issuesByFile.get(issue.filePath) ?? []), issue]);
+  });
+
+  issuesByFile.forEach((issues, filePath) => {
+    const idWidth = Math.max(...issues.map(issue => (issue.questionId ?? '-').length));
+    lines.push(filePath);
+    issues.forEach(issue => {
+      lines.push(
+        `  ${(issue.questionId ?? '-').padEnd(idWidth)}  ${issue.severity.padEnd(7)}  ${issue.message}  ${issue.ruleId}`
+      );
+    });
+    lines.push('');
+  });
+
+  const problemCount = report.errorCount + report.warningCount;
+  const summary = problemCount === 0
+    ? 'No problems found'
+    : `${countOf(problemCount, 'problem')} (${countOf(report.errorCount, 'error')}, ${countOf(report.warningCount, 'warning')})`;
+  const suppressed = report.suppressedCount > 0 ? `, ${report.suppressedCount} suppressed` : '';
+
+  lines.push(`${summary}${suppressed}`);
+  lines.push(`${countOf(report.questionsChecked, 'question')} in ${countOf(report.filesChecked, 'file')} checked`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a report for tools, as indented JSON
+ * @param report - Lint report
+ * @returns JSON text
+ */
+export function formatLintReportJson(report: QuestionLintReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Formats a report in the requested format
+ * @param report - Lint report
+ * @param format - Output format
+ * @returns Report text
+ */
+export function formatLintReport(report: QuestionLintReport, format: LintOutputFormat): string {
+  return format === 'json' ? formatLintReportJson(report) : formatLintReportText(report);
+}
@@ -0,0 +1,9 @@
+// Question bank lint exports
+// Used by scripts/lint-questions.ts; the rules run on parsed JSON and need no Node APIs
+
+export * from './types';
+export * from './rules';
+export * from './answerLeakRules';
+export * from './CSharpExecutionSimulator';
+export * from './QuestionLinter';
+export * from './formatters';
@@ -0,0 +1,232 @@
+import type { LintRule, LintableQuestion } from './types';
+import { CSharpExecutionSimulator } from './CSharpExecutionSimulator';
+import { answerLeakRules } from './answerLeakRules';
+
+/**
+ * Longest option text before it is flagged as hard to scan
+ */
+const MAX_OPTION_LENGTH = 500;
+
+/**
+ * Most options a multiple-choice question should offer
+ */
+const MAX_OPTION_COUNT = 6;
+
+/**
+ * Checks whether a value is a non-blank string
+ */
+const hasText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Gets the question text, accepting both the current and the legacy field name
+ */
+const questionText = (question: LintableQuestion): unknown => question.question ?? question.text;
+
+/**
+ * Gets the options of a multiple-choice question, or an empty list
+ */
+const optionsOf = (question: LintableQuestion) =>
+  question.type === 'multiple-choice' && Array.isArray(question.options) ? question.options : [];
+
+/**
+ * Structure rules: required fields and type-specific shape
+ */
+export const structureRules: LintRule[] = [
+  {
+    id: 'structure/required-fields',
+    category: 'structure',
+    severity: 'error',
+    description: 'Every question has an id, question text and type',
+    check: question => [
+      ...(hasText(question.id) ? [] : ['Question must have an ID']),
+      ...(hasText(questionText(question)) ? [] : ['Question must have question text']),
+      ...(hasText(question.type) ? [] : ['Question must have a type'])
+    ]
+  },
+  {
+    id: 'structure/known-type',
+    category: 'structure',
+    severity: 'warning',
+    description: 'The question type is one the app can display',
+    check: question =>
+      !hasText(question.type) || ['multiple-choice', 'flip-card', 'predict-output'].includes(question.type)
+        ? []
+        : [`Unknown question type "${question.type}"`]
+  },
+  {
+    id: 'structure/multiple-choice-answer',
+    category: 'structure',
+    severity: 'error',
+    description: 'Multiple-choice questions have at least two options and an in-range correct answer',
+    check: question => {
+      if (question.type !== 'multiple-choice') {
+        return [];
+      }
+
+      const errors: string[] = [];
+      const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+      if (optionCount < 2) {
+        errors.push('Multiple choice questions must have at least 2 options');
+      }
+
+      const correctIndices = question.correctAnswerIndices ??
+        (question.correctAnswerIndex !== undefined ? [question.correctAnswerIndex] : []);
+      if (correctIndices.length === 0) {
+        errors.push('Multiple choice questions must specify correct answer(s)');
+      }
+      correctIndices
+        .filter(index => !Number.isInteger(index) || index < 0 || index >= optionCount)
+        .forEach(index => errors.push(`Correct answer index ${index} is out of bounds`));
+
+      return errors;
+    }
+  },
+  {
+    id: 'structure/multiple-choice-explanation',
+    category: 'structure',
+    severity: 'error',
+    description: 'Multiple-choice questions explain the correct answer',
+    check: question =>
+      question.type === 'multiple-choice' && !hasText(question.explanation)
+        ? ['Multiple choice questions must have explanation']
+        : []
+  },
+  {
+    id: 'structure/flip-card-answer',
+    category: 'structure',
+    severity: 'error',
+    description: 'Flip-card questions have an answer',
+    check: question =>
+      question.type === 'flip-card' && !hasText(question.answer)
+        ? ['Flip-card questions must have an answer']
+        : []
+  },
+  {
+    id: 'structure/predict-output-output',
+    category: 'structure',
+    severity: 'error',
+    description: 'Predict-output questions state the output of their code',
+    check: question =>
+      question.type === 'predict-output' && !hasText(question.codeExample?.output)
+        ? ['Predict-output questions must have a code example with output']
+        : []
+  }
+];
+
+/**
+ * Code example rules: snippets and their stated output
+ */
+export const codeExampleRules: LintRule[] = [
+  {
+    id: 'code-example/content',
+    category: 'code-example',
+    severity: 'error',
+    description: 'Code examples have code and a language',
+    check: question => {
+      if (!question.codeExample) {
+        return [];
+      }
+      return [
+        ...(hasText(question.codeExample.code) ? [] : ['Code example must have code content']),
+        ...(hasText(question.codeExample.language) ? [] : ['Code example must specify language'])
+      ];
+    }
+  },
+  {
+    id: 'code-example/output-lines',
+    category: 'code-example',
+    severity: 'warning',
+    description: 'A stated C# output has one line per Console.WriteLine call',
+    check: question => {
+      const example = question.codeExample;
+      if (question.type !== 'multiple-choice' || example?.language !== 'csharp' ||
+          !hasText(example.code) || !hasText(example.output)) {
+        return [];
+      }
+
+      const writeLineCount = CSharpExecutionSimulator.countWriteLines(example.code);
+      const outputLines = example.output.split('\n').length;
+      return writeLineCount > 0 && writeLineCount !== outputLines
+        ? [`Output format issue: ${writeLineCount} Console.WriteLine statements but ${outputLines} output lines`]
+        : [];
+    }
+  },
+  {
+    id: 'code-example/simulated-output',
+    category: 'code-example',
+    severity: 'warning',
+    description: 'A stated C# output matches the simulated output of the snippet',
+    check: question => {
+      const example = question.codeExample;
+      if (example?.language !== 'csharp' || !hasText(example.code) || !hasText(example.output)) {
+        return [];
+      }
+
+      const simulatedOutput = CSharpExecutionSimulator.simulate(example.code);
+      return simulatedOutput !== null && simulatedOutput !== example.output
+        ? [`Code execution mismatch: expected "${example.output}", simulated "${simulatedOutput}"`]
+        : [];
+    }
+  }
+];
+
+/**
+ * Option quality rules: multiple-choice option content
+ */
+export const optionQualityRules: LintRule[] = [
+  {
+    id: 'options/empty-text',
+    category: 'option-quality',
+    severity: 'error',
+    description: 'Every option has text',
+    check: question =>
+      optionsOf(question).some(option => !hasText(option?.text))
+        ? ['All options must have text content']
+        : []
+  },
+  {
+    id: 'options/duplicate-text',
+    category: 'option-quality',
+    severity: 'error',
+    description: 'No two options of a question have the same text',
+    check: question => {
+      const texts = optionsOf(question)
+        .map(option => option?.text)
+        .filter(hasText)
+        .map(text => text.trim());
+      return new Set(texts).size !== texts.length ? ['Answer options contain duplicates'] : [];
+    }
+  },
+  {
+    id: 'options/text-length',
+    category: 'option-quality',
+    severity: 'warning',
+    description: `Option text stays under ${MAX_OPTION_LENGTH} characters`,
+    check: question =>
+      optionsOf(question)
+        .map(option => option?.text)
+        .filter((text): text is string => typeof text === 'string' && text.length > MAX_OPTION_LENGTH)
+        .map(text => `Option text too long: ${text.substring(0, 50)}...`)
+  },
+  {
+    id: 'options/count',
+    category: 'option-quality',
+    severity: 'warning',
+    description: `Multiple-choice questions offer at most ${MAX_OPTION_COUNT} options`,
+    check: question => {
+      const count = optionsOf(question).length;
+      return count > MAX_OPTION_COUNT ? [`${count} options is more than the ${MAX_OPTION_COUNT} a reader can compare`] : [];
+    }
+  }
+];
+
+/**
+ * Every built-in rule, in reporting order
+ */
+export const defaultLintRules: LintRule[] = [
+  ...structureRules,
+  ...codeExampleRules,
+  ...optionQualityRules,
+  ...answerLeakRules
+];
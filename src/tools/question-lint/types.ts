@@ -0,0 +1,128 @@
+import type { RawQuestionData } from '../../interfaces/repositories/IQuestionLoader';
+
+/**
+ * How serious a lint finding is; only errors make the lint run fail
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Group a lint rule belongs to
+ * - 'structure': required fields and type-specific shape
+ * - 'code-example': code snippets and their expected output
+ * - 'option-quality': multiple-choice option content
+ * - 'answer-leak': supporting material that gives the answer away (docs/QUESTIONS_ANSWER_RULES.md)
+ */
+export type LintRuleCategory = 'structure' | 'code-example' | 'option-quality' | 'answer-leak';
+
+/**
+ * Question as read from a question file. Every field is optional because the
+ * linter's job is to report the ones that are missing or malformed.
+ */
+export type LintableQuestion = Partial<RawQuestionData> & {
+  /** Free-form comment; "lint-disable <rule-id>, ..." suppresses rules for this question */
+  $comment?: string;
+};
+
+/**
+ * A check applied to every question
+ */
+export interface LintRule {
+  /** Stable identifier used in reports and suppression comments, e.g. "structure/required-fields" */
+  id: string;
+
+  /** Group the rule belongs to */
+  category: LintRuleCategory;
+
+  /** Severity of the rule's findings */
+  severity: LintSeverity;
+
+  /** One-line description of what the rule checks */
+  description: string;
+
+  /**
+   * Checks one question
+   * @param question - Question to check
+   * @returns One message per problem found (empty if the question passes)
+   */
+  check(question: LintableQuestion): string[];
+}
+
+/**
+ * A problem found by a lint rule
+ */
+export interface LintIssue {
+  /** Rule that reported the problem */
+  ruleId: string;
+
+  /** Severity of the problem */
+  severity: LintSeverity;
+
+  /** Question file containing the problem */
+  filePath: string;
+
+  /** Id of the question, or null for file-level problems */
+  questionId: string | null;
+
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Question bank statistics gathered while linting
+ */
+export interface QuestionQualityStats {
+  /** Number of questions checked */
+  total: number;
+
+  /** Number of files checked */
+  fileCount: number;
+
+  /** Question count per question type */
+  byType: Record<string, number>;
+
+  /** Code example count per language */
+  byLanguage: Record<string, number>;
+
+  /** Number of questions with a code example */
+  withCodeExamples: number;
+
+  /** Number of code examples that state their expected output */
+  withOutput: number;
+}
+
+/**
+ * Result of linting a set of question files
+ */
+export interface QuestionLintReport {
+  /** Number of files checked */
+  filesChecked: number;
+
+  /** Number of questions checked */
+  questionsChecked: number;
+
+  /** Unsuppressed issues, in file and question order */
+  issues: LintIssue[];
+
+  /** Number of error-severity issues */
+  errorCount: number;
+
+  /** Number of warning-severity issues */
+  warningCount: number;
+
+  /** Number of issues hidden by suppression comments */
+  suppressedCount: number;
+
+  /** Question bank statistics */
+  stats: QuestionQualityStats;
+}
+
+/**
+ * Contents of one question file handed to the linter
+ */
+export interface LintInputFile {
+  /** Path used in reports */
+  filePath: string;
+
+  /** Parsed file contents */
+  data: unknown;
+}
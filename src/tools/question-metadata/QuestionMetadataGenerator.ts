@@ -0,0 +1,200 @@
+import type {
+  RawCategoryManifest,
+  RawQuestionData
+} from '../../interfaces/repositories/IQuestionLoader';
+import type {
+  MetadataChange,
+  MetadataGenerationResult,
+  MetadataProblem,
+  QuestionBankFile
+} from './types';
+
+/**
+ * Question fields the statistics are computed from
+ */
+type MetadataQuestion = Partial<Pick<RawQuestionData, 'id' | 'category' | 'subcategory' | 'difficulty'>>;
+
+/**
+ * Averages question difficulties to one decimal place
+ * @param questions - Questions to average
+ * @returns Average difficulty, or undefined if no question has one
+ */
+export function averageDifficulty(questions: MetadataQuestion[]): number | undefined {
+  const difficulties = questions
+    .map(question => question.difficulty)
+    .filter((difficulty): difficulty is number => typeof difficulty === 'number' && Number.isFinite(difficulty));
+
+  if (difficulties.length === 0) {
+    return undefined;
+  }
+
+  const total = difficulties.reduce((sum, difficulty) => sum + difficulty, 0);
+  return Math.round((total / difficulties.length) * 10) / 10;
+}
+
+/**
+ * Recomputes the question counts and average difficulties kept in the category manifest
+ * and in each question file header, so they cannot drift from the questions themselves.
+ * Works on parsed JSON; reading and writing the files is left to the caller.
+ */
+export class QuestionMetadataGenerator {
+  /**
+   * Creates a new QuestionMetadataGenerator
+   * @param manifestPath - Path of the category manifest, used in reports
+   * @param dataRoot - Directory the manifest's subcategory file paths are relative to
+   */
+  constructor(
+    private readonly manifestPath: string = 'data/metadata/categories.json',
+    private readonly dataRoot: string = 'data'
+  ) {}
+
+  /**
+   * Recomputes the metadata of a question bank
+   * @param manifest - Committed category manifest
+   * @param questionFiles - Every question file in the bank
+   * @returns Updated copies of the manifest and files, with what changed and any mismatches
+   */
+  generate(manifest: RawCategoryManifest, questionFiles: QuestionBankFile[]): MetadataGenerationResult {
+    const changes: MetadataChange[] = [];
+    const problems: MetadataProblem[] = [];
+    const questionsByFile = questionFiles.map(file => ({ file, questions: this.questionsOf(file.data) }));
+    const allQuestions = questionsByFile.flatMap(entry => entry.questions);
+    const existingFiles = new Set(questionFiles.map(file => file.filePath));
+    const knownSubcategories = new Set<string>();
+
+    const updatedManifest: RawCategoryManifest = structuredClone(manifest);
+    for (const [category, categoryData] of Object.entries(updatedManifest.categories)) {
+      for (const [subcategory, subcategoryData] of Object.entries(categoryData.subcategories)) {
+        const location = `${category}/${subcategory}`;
+        knownSubcategories.add(location);
+
+        const filePath = `${this.dataRoot}/${subcategoryData.file}`;
+        if (!existingFiles.has(filePath)) {
+          problems.push({
+            kind: 'missing-file',
+            filePath: this.manifestPath,
+            message: `Subcategory ${location} points at ${filePath}, which does not exist`
+          });
+        }
+
+        const questions = allQuestions.filter(question =>
+          question.category === category && question.subcategory === subcategory
+        );
+        // The manifest requires a number, so a subcategory without questions averages 0
+        const next = { questionCount: questions.length, avgDifficulty: averageDifficulty(questions) ?? 0 };
+
+        for (const field of ['questionCount', 'avgDifficulty'] as const) {
+          if (subcategoryData[field] !== next[field]) {
+            changes.push({ filePath: this.manifestPath, location, field, previous: subcategoryData[field], next: next[field] });
+            subcategoryData[field] = next[field];
+          }
+        }
+      }
+    }
+
+    const updatedFiles = questionsByFile.map(({ file, questions }) => {
+      problems.push(...this.findUnknownSubcategories(file.filePath, questions, knownSubcategories));
+      return this.updateFileHeader(file, questions, changes);
+    });
+
+    return {
+      manifest: updatedManifest,
+      questionFiles: updatedFiles,
+      changedFiles: [...new Set(changes.map(change => change.filePath))],
+      changes,
+      problems,
+      isStale: changes.length > 0
+    };
+  }
+
+  /**
+   * Recomputes the statistics in a question file's "metadata" header
+   * @param file - Question file
+   * @param questions - Questions of the file
+   * @param changes - Receives the statistics that changed
+   * @returns The file, or an updated copy if its header changed
+   */
+  private updateFileHeader(
+    file: QuestionBankFile,
+    questions: MetadataQuestion[],
+    changes: MetadataChange[]
+  ): QuestionBankFile {
+    const header = this.isObject(file.data) ? file.data.metadata : undefined;
+    if (!this.isObject(header)) {
+      return file;
+    }
+
+    const next = { questionCount: questions.length, avgDifficulty: averageDifficulty(questions) };
+    const fileChanges = (['questionCount', 'avgDifficulty'] as const)
+      .filter(field => header[field] !== next[field])
+      .map(field => ({
+        filePath: file.filePath,
+        location: 'metadata',
+        field,
+        previous: typeof header[field] === 'number' ? header[field] as number : undefined,
+        next: next[field]
+      }));
+
+    if (fileChanges.length === 0) {
+      return file;
+    }
+
+    changes.push(...fileChanges);
+
+    const data = structuredClone(file.data) as { metadata: Record<string, unknown> };
+    data.metadata.questionCount = next.questionCount;
+    if (next.avgDifficulty === undefined) {
+      // The file schema requires a difficulty of at least 1, so an empty file has none
+      delete data.metadata.avgDifficulty;
+    } else {
+      data.metadata.avgDifficulty = next.avgDifficulty;
+    }
+
+    return { filePath: file.filePath, data };
+  }
+
+  /**
+   * Reports questions whose category/subcategory is not listed in the manifest, one problem per pair
+   * @param filePath - Question file
+   * @param questions - Questions of the file
+   * @param knownSubcategories - "category/subcategory" pairs listed in the manifest
+   * @returns Problems found
+   */
+  private findUnknownSubcategories(
+    filePath: string,
+    questions: MetadataQuestion[],
+    knownSubcategories: Set<string>
+  ): MetadataProblem[] {
+    const unknown = new Map<string, string[]>();
+
+    questions.forEach((question, index) => {
+      const location = `${question.category ?? '(none)'}/${question.subcategory ?? '(none)'}`;
+      if (!knownSubcategories.has(location)) {
+        unknown.set(location, [...(unknown.get(location) ?? []), question.id ?? `#${index + 1}`]);
+      }
+    });
+
+    return [...unknown].map(([location, questionIds]) => ({
+      kind: 'unknown-subcategory' as const,
+      filePath,
+      message: `Subcategory ${location} is not in the manifest (${questionIds.join(', ')})`
+    }));
+  }
+
+  /**
+   * Gets the questions of a parsed question file, or an empty list
+   */
+  private questionsOf(data: unknown): MetadataQuestion[] {
+    const questions = this.isObject(data) ? data.questions : undefined;
+    return Array.isArray(questions) ? questions.filter(question => this.isObject(question)) : [];
+  }
+
+  /**
+   * Checks whether a value is a plain JSON object
+   * @param value - Value to check
+   * @returns True for non-null, non-array objects
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Array of numbers, strings and booleans spread over several lines by JSON.stringify
+ */
+const PRIMITIVE_ARRAY = /\[\n\s*((?:-?\d[\d.eE+-]*|"(?:[^"\\\n]|\\.)*"|true|false|null)(?:,\n\s*(?:-?\d[\d.eE+-]*|"(?:[^"\\\n]|\\.)*"|true|false|null))*)\n\s*\]/g;
+
+/**
+ * Serializes data files the way they are written by hand: two-space indentation and
+ * arrays of primitives such as tags kept on one line
+ * @param value - Value to serialize
+ * @param original - Current text of the file; its line endings and final newline are kept (default: "\n", with a final newline)
+ * @returns JSON text
+ */
+export function formatJson(value: unknown, original?: string): string {
+  const lineEnding = original?.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = original === undefined || /\n$/.test(original);
+
+  const text = JSON.stringify(value, null, 2)
+    .replace(PRIMITIVE_ARRAY, (_match, items: string) => `[${items.split(/,\n\s*/).join(', ')}]`);
+
+  return text.replace(/\n/g, lineEnding) + (finalNewline ? lineEnding : '');
+}
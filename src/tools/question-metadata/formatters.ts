@@ -0,0 +1,22 @@
+import type { MetadataChange, MetadataProblem } from './types';
+
+/**
+ * Formats a changed statistic as a single report line, e.g.
+ * "data/metadata/categories.json › basics/data-types › questionCount: 0 → 1"
+ * @param change - Change to format
+ * @returns Report line
+ */
+export function formatMetadataChange(change: MetadataChange): string {
+  const describe = (value: number | undefined) => (value === undefined ? '(none)' : String(value));
+
+  return `${change.filePath} › ${change.location} › ${change.field}: ${describe(change.previous)} → ${describe(change.next)}`;
+}
+
+/**
+ * Formats a manifest mismatch as a single report line
+ * @param problem - Problem to format
+ * @returns Report line
+ */
+export function formatMetadataProblem(problem: MetadataProblem): string {
+  return `${problem.filePath}: ${problem.message}`;
+}
@@ -0,0 +1,7 @@
+// Question bank metadata exports
+// Used by scripts/generate-metadata.ts; works on parsed JSON and needs no Node APIs
+
+export * from './types';
+export * from './QuestionMetadataGenerator';
+export * from './formatJson';
+export * from './formatters';
@@ -0,0 +1,77 @@
+import type { RawCategoryManifest } from '../../interfaces/repositories/IQuestionLoader';
+
+/**
+ * Parsed contents of one question file
+ */
+export interface QuestionBankFile {
+  /** Path relative to the site root, e.g. "data/questions/basics.json" */
+  filePath: string;
+
+  /** Parsed file contents */
+  data: unknown;
+}
+
+/**
+ * A statistic whose committed value differs from the one computed from the questions
+ */
+export interface MetadataChange {
+  /** File the statistic lives in */
+  filePath: string;
+
+  /** Where in the file, e.g. "basics/data-types" for a manifest subcategory or "metadata" for a file header */
+  location: string;
+
+  /** Name of the statistic */
+  field: 'questionCount' | 'avgDifficulty';
+
+  /** Committed value (undefined if the field is absent) */
+  previous: number | undefined;
+
+  /** Computed value (undefined if the field should be removed) */
+  next: number | undefined;
+}
+
+/**
+ * Kind of mismatch between the manifest and the question bank
+ * - 'missing-file': a manifest subcategory points at a question file that does not exist
+ * - 'unknown-subcategory': questions name a category/subcategory the manifest does not list
+ */
+export type MetadataProblemKind = 'missing-file' | 'unknown-subcategory';
+
+/**
+ * A mismatch between the manifest and the question bank.
+ * Problems are reported but do not make the metadata stale.
+ */
+export interface MetadataProblem {
+  /** Kind of mismatch */
+  kind: MetadataProblemKind;
+
+  /** File the problem was found in */
+  filePath: string;
+
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Result of recomputing the question bank metadata
+ */
+export interface MetadataGenerationResult {
+  /** Manifest with recomputed subcategory statistics */
+  manifest: RawCategoryManifest;
+
+  /** Question files with recomputed headers, in input order */
+  questionFiles: QuestionBankFile[];
+
+  /** Paths of the files whose statistics changed */
+  changedFiles: string[];
+
+  /** Every statistic that changed */
+  changes: MetadataChange[];
+
+  /** Mismatches between the manifest and the question bank */
+  problems: MetadataProblem[];
+
+  /** True when any committed statistic is out of date */
+  isStale: boolean;
+}
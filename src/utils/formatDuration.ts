@@ -0,0 +1,12 @@
+/**
+ * Formats a duration as minutes and seconds
+ * @param milliseconds - Duration in milliseconds
+ * @returns Duration such as "4:05", rounded up to the next whole second
+ */
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
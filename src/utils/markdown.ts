@@ -0,0 +1,130 @@
+/**
+ * Inline run of markdown text
+ */
+export interface MarkdownInline {
+  /** How the run is styled */
+  kind: 'text' | 'strong' | 'emphasis' | 'code';
+
+  /** Text of the run, without its markers */
+  text: string;
+}
+
+/**
+ * Block of a markdown document
+ */
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; inlines: MarkdownInline[] }
+  | { kind: 'paragraph'; inlines: MarkdownInline[] }
+  | { kind: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { kind: 'code'; text: string };
+
+const FENCE = /^```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_/g;
+
+/**
+ * Parses the subset of markdown used in notes: headings, paragraphs, bullet and numbered lists,
+ * fenced code blocks, bold, italics and inline code. Anything else is kept as plain text,
+ * so the result can be rendered without injecting HTML.
+ * @param source - Markdown text
+ * @returns Blocks in document order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    if (FENCE.test(line.trim())) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE.test(lines[index].trim())) {
+        code.push(lines[index]);
+        index++;
+      }
+      // Skip the closing fence; an unclosed fence runs to the end of the note
+      index++;
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, inlines: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: MarkdownInline[][] = [];
+      let item: RegExpExecArray | null;
+      while (index < lines.length && (item = itemPattern.exec(lines[index]))) {
+        items.push(parseInline(item[1]));
+        index++;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ kind: 'paragraph', inlines: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parses bold, italic and inline code runs
+ * @param text - Text of a single block
+ * @returns Inline runs in order; unmatched markers stay in the text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const inlines: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      inlines.push({ kind: 'text', text: text.slice(lastIndex, start) });
+    }
+
+    const [, code, strong, strongUnderscore, emphasis, emphasisUnderscore] = match;
+    if (code !== undefined) {
+      inlines.push({ kind: 'code', text: code });
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      inlines.push({ kind: 'strong', text: strong ?? strongUnderscore });
+    } else {
+      inlines.push({ kind: 'emphasis', text: emphasis ?? emphasisUnderscore });
+    }
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    inlines.push({ kind: 'text', text: text.slice(lastIndex) });
+  }
+
+  return inlines;
+}
+
+/**
+ * Checks whether a line starts a block other than a paragraph
+ * @param line - Line of markdown
+ */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line.trim()) || HEADING.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line);
+}
@@ -0,0 +1,42 @@
+import type { IQuestion } from '../interfaces/domain/IQuestion';
+import { isFlipCardQuestion } from '../interfaces/domain/IFlipCardQuestion';
+import type { Question } from './types';
+
+/**
+ * Converts a domain question into the plain shape used by study-mode cards
+ * @param question - Domain question
+ * @returns Plain study-mode question
+ */
+export function toStudyQuestion(question: IQuestion): Question {
+  const base = {
+    id: question.id,
+    question: question.text,
+    category: question.category,
+    subcategory: question.subcategory,
+    difficulty: question.difficultyLevel,
+    tags: question.tags,
+    explanation: question.explanation || undefined,
+    codeExample: question.codeExample
+      ? {
+          language: question.codeExample.language,
+          code: question.codeExample.code,
+          output: question.codeExample.output
+        }
+      : undefined
+  };
+
+  if (isFlipCardQuestion(question)) {
+    return { ...base, type: 'flip-card', answer: question.answer };
+  }
+
+  return {
+    ...base,
+    type: 'multiple-choice',
+    options: question.options.map(option => ({
+      id: option.id,
+      text: option.text,
+      explanation: option.explanation
+    })),
+    correctAnswerIndex: question.getCorrectAnswers()[0] ?? 0
+  };
+}
@@ -0,0 +1,21 @@
+import { isValidSeed } from '../services/SeededRandomSource';
+
+/**
+ * Query parameter that carries the session seed in a shareable URL
+ */
+export const SEED_QUERY_PARAM = 'seed';
+
+/**
+ * Reads the session seed from a URL query string
+ * @param search - Query string such as "?seed=1234"
+ * @returns Seed, or undefined if it is missing or not a valid seed
+ */
+export function readSeedFromSearch(search: string): number | undefined {
+  const value = new URLSearchParams(search).get(SEED_QUERY_PARAM);
+  if (value === null || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+
+  const seed = Number(value);
+  return isValidSeed(seed) ? seed : undefined;
+}
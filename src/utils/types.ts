@@ -0,0 +1,85 @@
+/**
+ * Plain question data shapes used by study-mode components and validators.
+ * They mirror the JSON question format so cards and validators stay free of domain classes.
+ */
+
+/**
+ * Supported study-mode question types
+ */
+export type QuestionType = 'flip-card' | 'multiple-choice';
+
+/**
+ * Answer option of a multiple-choice question
+ */
+export interface QuestionOption {
+  id: string;
+  text: string;
+  explanation?: string;
+}
+
+/**
+ * Code snippet attached to a question
+ */
+export interface QuestionCodeExample {
+  language: string;
+  code: string;
+  output?: string;
+}
+
+/**
+ * Fields shared by every question type
+ */
+interface BaseQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  category: string;
+  subcategory: string;
+  /** Difficulty from 1 (easiest) to 10 (hardest) */
+  difficulty: number;
+  tags: string[];
+  explanation?: string;
+  codeExample?: QuestionCodeExample;
+  createdAt?: string;
+  updatedAt?: string;
+  version?: number;
+}
+
+/**
+ * Question studied by flipping the card and self-grading recall
+ */
+export interface FlipCardQuestion extends BaseQuestion {
+  type: 'flip-card';
+  answer: string;
+}
+
+/**
+ * Question answered by picking one option
+ */
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple-choice';
+  options: QuestionOption[];
+  correctAnswerIndex: number;
+}
+
+/**
+ * Any study-mode question
+ */
+export type Question = FlipCardQuestion | MultipleChoiceQuestion;
+
+/**
+ * Accumulated study progress for a single question
+ */
+export interface UserProgress {
+  questionId: string;
+  knownCount: number;
+  unknownCount: number;
+  /** ISO 8601 date of the last study session */
+  lastStudied: string;
+  /** Learner-perceived difficulty from 1 to 10 */
+  difficulty: number;
+  consecutiveCorrect: number;
+  /** Average answer time in milliseconds */
+  averageTime: number;
+  isFavorite: boolean;
+}
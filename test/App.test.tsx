@@ -5,10 +5,24 @@ import App from '../src/App';
 import { ApplicationFactory } from '../src/services/ApplicationFactory';
 import type { IApplicationContext } from '../src/services/ApplicationFactory';
 import type { IQuestion } from '../src/interfaces/domain/IQuestion';
+import type { IQuestionRepository } from '../src/interfaces/repositories/IQuestionRepository';
 import type { IQuestionManager } from '../src/interfaces/services/IQuestionManager';
 import type { IAnswerManager } from '../src/interfaces/services/IAnswerManager';
 import type { IStateManager } from '../src/interfaces/services/IStateManager';
 import type { IErrorHandler } from '../src/interfaces/errors/IErrorHandler';
+import { SessionSummaryService } from '../src/services/SessionSummaryService';
+import type { ICategoryCatalogService, CategorySummary } from '../src/interfaces/services/ICategoryCatalogService';
+import { HistoryRouter } from '../src/services/routing/HistoryRouter';
+import { ShortcutService } from '../src/services/shortcuts/ShortcutService';
+import type { IShortcutService } from '../src/interfaces/services/IShortcutService';
+import type { IAnnotationService } from '../src/interfaces/services/IAnnotationService';
+import type { IProgressTransferService } from '../src/interfaces/services/IProgressTransferService';
+import type { IAnalyticsService, MasteryStats } from '../src/interfaces/services/IAnalyticsService';
+import { AttemptHistory } from '../src/services/analytics/AttemptHistory';
+import { QuestionNotFoundError } from '../src/errors/QuestionNotFoundError';
+import { NavigationError } from '../src/errors/NavigationError';
+import { DIContainer } from '../src/services/DIContainer';
+import { ServiceIdentifiers } from '../src/services/ServiceConfiguration';
 
 // Mock the ApplicationFactory
 vi.mock('../src/services/ApplicationFactory');
@@ -27,23 +41,32 @@ vi.mock('../src/components/QuestionComponent', () => ({
 vi.mock('../src/components/AnswerComponent', () => ({
   AnswerComponent: ({ 
     onAnswerSubmitted, 
-    onError 
+    onError,
+    shortcutService
   }: { 
     onAnswerSubmitted?: (isCorrect: boolean) => void;
     onError?: (error: Error) => void;
-  }) => (
-    <div data-testid="answer-component">
-      <button onClick={() => onAnswerSubmitted?.(true)}>
-        Submit Correct Answer
-      </button>
-      <button onClick={() => onAnswerSubmitted?.(false)}>
-        Submit Incorrect Answer
-      </button>
-      <button onClick={() => onError?.(new Error('Answer error'))}>
-        Trigger Answer Error
-      </button>
-    </div>
-  )
+    shortcutService?: IShortcutService;
+  }) => {
+    React.useEffect(
+      () => shortcutService?.register('question', { submit: () => onAnswerSubmitted?.(true) }),
+      [shortcutService, onAnswerSubmitted]
+    );
+
+    return (
+      <div data-testid="answer-component">
+        <button onClick={() => onAnswerSubmitted?.(true)}>
+          Submit Correct Answer
+        </button>
+        <button onClick={() => onAnswerSubmitted?.(false)}>
+          Submit Incorrect Answer
+        </button>
+        <button onClick={() => onError?.(new Error('Answer error'))}>
+          Trigger Answer Error
+        </button>
+      </div>
+    );
+  }
 }));
 
 vi.mock('../src/components/ExplanationComponent', () => ({
@@ -72,12 +95,14 @@ vi.mock('../src/components/NavigationComponent', () => ({
     answerManager,
     onQuestionReset, 
     onNextQuestion,
+    onQuestionChange,
     onError 
   }: { 
     questionManager: any;
     answerManager: any;
     onQuestionReset?: () => void;
     onNextQuestion?: () => void;
+    onQuestionChange?: () => void;
     onError?: (error: Error) => void;
   }) => (
     <div data-testid="navigation-component">
@@ -91,6 +116,11 @@ vi.mock('../src/components/NavigationComponent', () => ({
         onQuestionReset?.();
       }}>Reset Question</button>
       <button onClick={onNextQuestion}>Navigate Next</button>
+      <button onClick={() => {
+        if (questionManager.moveToPrevious()) {
+          onQuestionChange?.();
+        }
+      }}>Navigate Previous</button>
       <button onClick={() => onError?.(new Error('Navigation error'))}>
         Trigger Navigation Error
       </button>
@@ -98,14 +128,58 @@ vi.mock('../src/components/NavigationComponent', () => ({
   )
 }));
 
+/**
+ * Builds a container whose question repository only answers lookups by ID
+ */
+const createLookupContainer = (getQuestionById: IQuestionRepository['getQuestionById']): DIContainer => {
+  const container = new DIContainer();
+  const questionRepository: Partial<IQuestionRepository> = { getQuestionById };
+  container.registerInstance(ServiceIdentifiers.QuestionRepository, questionRepository);
+  return container;
+};
+
 describe('App Component', () => {
   let mockApplicationContext: IApplicationContext;
   let mockQuestionManager: IQuestionManager;
   let mockAnswerManager: IAnswerManager;
   let mockStateManager: IStateManager;
   let mockErrorHandler: IErrorHandler;
+  let mockCategoryCatalogService: ICategoryCatalogService;
+  let mockAnnotationService: IAnnotationService;
+  let mockProgressTransferService: IProgressTransferService;
+  let mockAnalyticsService: IAnalyticsService;
   let mockQuestion: IQuestion;
 
+  const mockCategories: CategorySummary[] = [
+    {
+      id: 'basics',
+      name: 'C# Basics',
+      description: 'Fundamental C# concepts',
+      icon: '📘',
+      color: '#4CAF50',
+      estimatedTimeMinutes: 30,
+      questionCount: 3,
+      answeredCount: 2,
+      correctCount: 1,
+      masteryPercentage: 33,
+      subcategories: [
+        { id: 'loops', name: 'Loops', description: '', isListed: true, questionCount: 2, answeredCount: 1, correctCount: 1, masteryPercentage: 50 },
+        { id: 'data-types', name: 'Data Types', description: '', isListed: true, questionCount: 1, answeredCount: 1, correctCount: 0, masteryPercentage: 0 }
+      ]
+    }
+  ];
+
+  /**
+   * Renders the app and starts a session with every question from the start screen
+   */
+  const renderPractice = async () => {
+    const result = render(<App />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Practice all questions' }));
+
+    return result;
+  };
+
   beforeEach(() => {
     // Create mock question
     mockQuestion = {
@@ -130,10 +204,14 @@ describe('App Component', () => {
       getCurrentQuestion: vi.fn().mockReturnValue(mockQuestion),
       moveToNext: vi.fn().mockReturnValue(true),
       moveToPrevious: vi.fn().mockReturnValue(false),
+      moveTo: vi.fn().mockReturnValue(true),
       resetCurrent: vi.fn(),
       getTotalCount: vi.fn().mockReturnValue(10),
       getCurrentIndex: vi.fn().mockReturnValue(0),
-      initialize: vi.fn().mockResolvedValue(undefined)
+      initialize: vi.fn().mockResolvedValue(undefined),
+      startNewSession: vi.fn().mockResolvedValue(undefined),
+      getSessionQuestions: vi.fn().mockReturnValue([mockQuestion]),
+      getSessionSeed: vi.fn().mockReturnValue(1234)
     };
 
     mockAnswerManager = {
@@ -164,6 +242,7 @@ describe('App Component', () => {
       updateQuestionState: vi.fn(),
       getQuestionState: vi.fn().mockReturnValue(null),
       resetApplicationState: vi.fn(),
+      clearQuestionStates: vi.fn(),
       setCurrentQuestionIndex: vi.fn(),
       getCurrentQuestionIndex: vi.fn().mockReturnValue(0),
       setTotalQuestions: vi.fn(),
@@ -176,13 +255,77 @@ describe('App Component', () => {
       canHandle: vi.fn().mockReturnValue(true)
     };
 
+    mockCategoryCatalogService = {
+      getCategories: vi.fn().mockResolvedValue(mockCategories)
+    };
+
+    mockAnnotationService = {
+      hydrate: vi.fn().mockResolvedValue(undefined),
+      isBookmarked: vi.fn().mockReturnValue(true),
+      setBookmarked: vi.fn(),
+      getBookmarkedQuestionIds: vi.fn().mockReturnValue(['test-question-1']),
+      getNote: vi.fn().mockReturnValue(null),
+      saveNote: vi.fn().mockResolvedValue(undefined),
+      deleteNote: vi.fn().mockResolvedValue(undefined),
+      getAllNotes: vi.fn().mockReturnValue([]),
+      restoreNotes: vi.fn().mockResolvedValue(undefined),
+      listNotes: vi.fn().mockImplementation(async () => ({
+        notes: [{ note: { questionId: 'test-question-1', text: 'Lowercase **class**', updatedAt: new Date() }, question: mockQuestion }],
+        orphanedNotes: []
+      }))
+    };
+
+    mockProgressTransferService = {
+      exportProgress: vi.fn().mockResolvedValue('{}'),
+      previewImport: vi.fn().mockImplementation(async () => ({
+        exportedAt: new Date(),
+        snapshot: { questionStates: new Map(), bookmarkedQuestionIds: new Set(), notes: [], reviewStates: [] },
+        changes: { answers: 2, bookmarks: 0, notes: 1, reviews: 0 },
+        conflicts: [],
+        unknownQuestionIds: []
+      })),
+      applyImport: vi.fn().mockResolvedValue({ answers: 2, bookmarks: 0, notes: 1, reviews: 0 })
+    };
+
+    const weakStats: MasteryStats = { questionCount: 1, attemptedQuestionCount: 1, attemptCount: 3, correctCount: 1, accuracy: 1 / 3, averageTimeToAnswerMs: null, trend: [] };
+    mockAnalyticsService = {
+      getMasteryReport: vi.fn().mockImplementation(async () => ({
+        generatedAt: new Date(),
+        overall: weakStats,
+        topics: {
+          category: [{ dimension: 'category', key: 'basics', label: 'C# Basics', ...weakStats }],
+          subcategory: [],
+          tag: [{ dimension: 'tag', key: 'boxing', label: 'boxing', ...weakStats }],
+          difficulty: []
+        },
+        weakestTags: [{ dimension: 'tag', key: 'boxing', label: 'boxing', ...weakStats }]
+      }))
+    };
+
     // Create mock application context
     mockApplicationContext = {
       questionManager: mockQuestionManager,
       answerManager: mockAnswerManager,
       stateManager: mockStateManager,
+      sessionSummaryService: new SessionSummaryService(mockStateManager),
+      categoryCatalogService: mockCategoryCatalogService,
+      searchService: {
+        buildIndex: vi.fn().mockResolvedValue(1),
+        search: vi.fn().mockImplementation(async (query: string) => ({
+          query,
+          hits: query ? [{ question: mockQuestion, score: 1, snippets: [] }] : [],
+          totalHits: query ? 1 : 0,
+          facets: { categories: [], tags: [] }
+        }))
+      },
+      router: new HistoryRouter(window),
+      shortcutService: new ShortcutService(),
+      annotationService: mockAnnotationService,
+      progressTransferService: mockProgressTransferService,
+      attemptHistory: new AttemptHistory(),
+      analyticsService: mockAnalyticsService,
       errorHandler: mockErrorHandler,
-      container: {} as any
+      container: new DIContainer()
     };
 
     // Mock ApplicationFactory
@@ -192,6 +335,8 @@ describe('App Component', () => {
 
   afterEach(() => {
     vi.clearAllMocks();
+    // Sessions put their route in the URL, which would make the next test open it
+    window.history.replaceState(null, '', '/');
   });
 
   describe('Initialization', () => {
@@ -214,7 +359,7 @@ describe('App Component', () => {
     });
 
     it('should display question component after successful initialization', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('question-component')).toBeInTheDocument();
@@ -222,7 +367,7 @@ describe('App Component', () => {
     });
 
     it('should display answer component after successful initialization', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('answer-component')).toBeInTheDocument();
@@ -230,7 +375,7 @@ describe('App Component', () => {
     });
 
     it('should display navigation component after successful initialization', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('navigation-component')).toBeInTheDocument();
@@ -238,6 +383,58 @@ describe('App Component', () => {
     });
   });
 
+  describe('Start Screen', () => {
+    it('should show the categories before starting a session', async () => {
+      render(<App />);
+
+      expect(await screen.findByRole('region', { name: 'Choose topics' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: /C# Basics/ })).toBeInTheDocument();
+      expect(screen.getByText(/33% mastered/)).toBeInTheDocument();
+      expect(mockQuestionManager.initialize).not.toHaveBeenCalled();
+    });
+
+    it('should start a session with only the selected subcategories', async () => {
+      render(<App />);
+
+      fireEvent.click(await screen.findByRole('checkbox', { name: /Loops/ }));
+      fireEvent.click(screen.getByRole('button', { name: 'Start 2 selected questions' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({
+        filter: { categories: ['basics'], subcategories: ['basics/loops'] }
+      });
+    });
+
+    it('should return to the start screen and begin a new session from there', async () => {
+      await renderPractice();
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Topics' }));
+      fireEvent.click(await screen.findByRole('button', { name: 'Practice all questions' }));
+
+      await waitFor(() => {
+        expect(mockQuestionManager.startNewSession).toHaveBeenCalledWith({ filter: undefined });
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledTimes(1);
+      expect(mockCategoryCatalogService.getCategories).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a session that cannot be started', async () => {
+      vi.mocked(mockQuestionManager.initialize).mockRejectedValue(new Error('No questions match the deck filter'));
+
+      await renderPractice();
+
+      await waitFor(() => {
+        expect(screen.getByText('No questions match the deck filter')).toBeInTheDocument();
+      });
+      expect(mockErrorHandler.handleError).toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle initialization errors', async () => {
       const initError = new Error('Failed to initialize');
@@ -254,7 +451,7 @@ describe('App Component', () => {
     it('should handle no questions available error', async () => {
       vi.mocked(mockQuestionManager.getCurrentQuestion).mockReturnValue(null);
       
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByText('Application Error')).toBeInTheDocument();
@@ -263,7 +460,7 @@ describe('App Component', () => {
     });
 
     it('should handle component errors through error callbacks', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('question-component')).toBeInTheDocument();
@@ -279,6 +476,7 @@ describe('App Component', () => {
 
     it('should provide reload functionality on error', async () => {
       const reloadSpy = vi.fn();
+      const originalLocation = window.location;
       Object.defineProperty(window, 'location', {
         value: { reload: reloadSpy },
         writable: true
@@ -295,12 +493,14 @@ describe('App Component', () => {
       
       fireEvent.click(screen.getByText('Reload Application'));
       expect(reloadSpy).toHaveBeenCalled();
+
+      Object.defineProperty(window, 'location', { value: originalLocation, writable: true });
     });
   });
 
   describe('Answer Flow', () => {
     it('should handle answer submission and show explanation', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('answer-component')).toBeInTheDocument();
@@ -314,7 +514,7 @@ describe('App Component', () => {
     });
 
     it('should handle question reset from explanation', async () => {
-      render(<App />);
+      await renderPractice();
       
       // Submit answer to get to explanation
       await waitFor(() => {
@@ -337,7 +537,7 @@ describe('App Component', () => {
     });
 
     it('should handle next question navigation', async () => {
-      render(<App />);
+      await renderPractice();
       
       // Submit answer to get to explanation
       await waitFor(() => {
@@ -360,9 +560,384 @@ describe('App Component', () => {
     });
   });
 
+  describe('Keyboard Shortcuts', () => {
+    it('should submit with Enter while answering', async () => {
+      await renderPractice();
+      await screen.findByTestId('answer-component');
+
+      fireEvent.keyDown(document.body, { key: 'Enter' });
+
+      expect(await screen.findByTestId('explanation-component')).toBeInTheDocument();
+    });
+
+    it('should not answer for explanation shortcuts while answering', async () => {
+      await renderPractice();
+      await screen.findByTestId('answer-component');
+
+      fireEvent.keyDown(document.body, { key: 'n' });
+      fireEvent.keyDown(document.body, { key: 'r' });
+
+      expect(mockQuestionManager.moveToNext).not.toHaveBeenCalled();
+      expect(mockAnswerManager.resetAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should move on with N and redo with R on the explanation', async () => {
+      await renderPractice();
+      fireEvent.click(await screen.findByText('Submit Correct Answer'));
+      await screen.findByTestId('explanation-component');
+
+      fireEvent.keyDown(document.body, { key: 'R' });
+      expect(mockAnswerManager.resetAnswer).toHaveBeenCalledWith('test-question-1');
+      await screen.findByTestId('answer-component');
+
+      fireEvent.keyDown(document.body, { key: 'Enter' });
+      await screen.findByTestId('explanation-component');
+      fireEvent.keyDown(document.body, { key: 'n' });
+
+      expect(mockQuestionManager.moveToNext).toHaveBeenCalled();
+      expect(await screen.findByTestId('answer-component')).toBeInTheDocument();
+    });
+
+    it('should ignore keys typed into text fields', async () => {
+      await renderPractice();
+      await screen.findByTestId('answer-component');
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(screen.queryByTestId('explanation-component')).not.toBeInTheDocument();
+      input.remove();
+    });
+
+    it('should open and close the cheat-sheet with ?', async () => {
+      await renderPractice();
+      await screen.findByTestId('answer-component');
+
+      fireEvent.keyDown(document.body, { key: '?' });
+      const dialog = await screen.findByRole('dialog', { name: 'Keyboard shortcuts' });
+      expect(screen.getByText('Submit the answer')).toBeInTheDocument();
+
+      // Shortcuts are paused while the cheat-sheet is open
+      fireEvent.keyDown(dialog, { key: 'Enter' });
+      expect(screen.queryByTestId('explanation-component')).not.toBeInTheDocument();
+
+      fireEvent.keyDown(dialog, { key: '?' });
+      await waitFor(() => {
+        expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument();
+      });
+    });
+
+    it('should not dispatch shortcuts on the start screen', async () => {
+      render(<App />);
+      await screen.findByRole('button', { name: 'Practice all questions' });
+
+      fireEvent.keyDown(document.body, { key: '?' });
+
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Session Seed', () => {
+    it('should replay the seed from the URL and show it in the session info', async () => {
+      window.history.replaceState(null, '', '/?seed=1234');
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('1234')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ seed: 1234 });
+      expect(window.location.pathname).toBe('/session/1234/1');
+    });
+
+    it('should put a drawn seed in the URL so the session can be shared', async () => {
+      vi.mocked(mockQuestionManager.getSessionSeed).mockReturnValue(987);
+
+      await renderPractice();
+
+      await waitFor(() => {
+        expect(screen.getByText(/Session seed:/)).toHaveTextContent('Session seed: 987');
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: undefined });
+      expect(window.location.pathname).toBe('/session/987/1');
+    });
+  });
+
+  describe('Routing', () => {
+    const openAt = (path: string) => {
+      window.history.replaceState(null, '', path);
+      return render(<App />);
+    };
+
+    const mockQuestionLookup = (question: IQuestion | null) => {
+      const getQuestionById = vi.fn().mockResolvedValue(question);
+      mockApplicationContext = {
+        ...mockApplicationContext,
+        container: createLookupContainer(getQuestionById)
+      };
+      vi.mocked(ApplicationFactory.createApplication).mockResolvedValue(mockApplicationContext);
+      return getQuestionById;
+    };
+
+    it('should open a linked question on its own', async () => {
+      const getQuestionById = mockQuestionLookup(mockQuestion);
+
+      openAt('/q/test-question-1');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(getQuestionById).toHaveBeenCalledWith('test-question-1');
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: { ids: ['test-question-1'] } });
+      expect(window.location.pathname).toBe('/q/test-question-1');
+    });
+
+    it('should report an unknown question through the error handler', async () => {
+      mockQuestionLookup(null);
+
+      openAt('/q/missing-0001');
+
+      await waitFor(() => {
+        expect(screen.getByText('Question with id missing-0001 not found')).toBeInTheDocument();
+      });
+      expect(mockErrorHandler.handleError).toHaveBeenCalledWith(expect.any(QuestionNotFoundError));
+      expect(mockQuestionManager.initialize).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Back to topics' }));
+
+      expect(await screen.findByRole('region', { name: 'Choose topics' })).toBeInTheDocument();
+      expect(window.location.pathname).toBe('/');
+    });
+
+    it('should start a category link as a replayable session', async () => {
+      openAt('/category/basics');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: { categories: ['basics'] } });
+      expect(window.location.pathname).toBe('/session/1234/1');
+      expect(window.location.search).toBe('?category=basics');
+    });
+
+    it('should replay a session link and move to its question', async () => {
+      openAt('/session/1234/3');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ seed: 1234 });
+      expect(mockQuestionManager.moveTo).toHaveBeenCalledWith(2);
+    });
+
+    it('should report a session link past the last question', async () => {
+      vi.mocked(mockQuestionManager.moveTo).mockReturnValue(false);
+
+      openAt('/session/1234/99');
+
+      await waitFor(() => {
+        expect(screen.getByText('Question 99 is not part of this session of 10 questions')).toBeInTheDocument();
+      });
+      expect(mockErrorHandler.handleError).toHaveBeenCalledWith(expect.any(NavigationError));
+    });
+
+    it('should add a history entry for each question and follow the back button', async () => {
+      await renderPractice();
+      await waitFor(() => {
+        expect(screen.getByTestId('answer-component')).toBeInTheDocument();
+      });
+
+      vi.mocked(mockQuestionManager.getCurrentIndex).mockReturnValue(1);
+      fireEvent.click(screen.getByText('Navigate Next'));
+
+      await waitFor(() => {
+        expect(window.location.pathname).toBe('/session/1234/2');
+      });
+
+      vi.mocked(mockQuestionManager.getCurrentIndex).mockReturnValue(0);
+      window.history.replaceState(null, '', '/session/1234/1');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      await waitFor(() => {
+        expect(mockQuestionManager.moveTo).toHaveBeenCalledWith(0);
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledTimes(1);
+      expect(mockQuestionManager.startNewSession).not.toHaveBeenCalled();
+    });
+
+    it('should return to the start screen when going back to it', async () => {
+      await renderPractice();
+      await waitFor(() => {
+        expect(screen.getByTestId('answer-component')).toBeInTheDocument();
+      });
+
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      expect(await screen.findByRole('region', { name: 'Choose topics' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Search', () => {
+    it('should open a question picked from the search results as a new history entry', async () => {
+      const getQuestionById = vi.fn().mockResolvedValue(mockQuestion);
+      mockApplicationContext = {
+        ...mockApplicationContext,
+        container: createLookupContainer(getQuestionById)
+      };
+      vi.mocked(ApplicationFactory.createApplication).mockResolvedValue(mockApplicationContext);
+      const pushState = vi.spyOn(window.history, 'pushState');
+
+      render(<App />);
+      fireEvent.click(await screen.findByRole('button', { name: 'Search' }));
+      fireEvent.change(screen.getByRole('searchbox', { name: 'Search query' }), { target: { value: 'class' } });
+      fireEvent.click(await screen.findByRole('button', { name: /test-question-1/ }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('dialog', { name: 'Search questions' })).not.toBeInTheDocument();
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: { ids: ['test-question-1'] } });
+      expect(pushState).toHaveBeenCalledWith(null, '', '/q/test-question-1');
+      pushState.mockRestore();
+    });
+  });
+
+  describe('Notes and Bookmarks', () => {
+    it('should open the question of a note from the notes overview', async () => {
+      const getQuestionById = vi.fn().mockResolvedValue(mockQuestion);
+      mockApplicationContext = {
+        ...mockApplicationContext,
+        container: createLookupContainer(getQuestionById)
+      };
+      vi.mocked(ApplicationFactory.createApplication).mockResolvedValue(mockApplicationContext);
+
+      render(<App />);
+      fireEvent.click(await screen.findByRole('button', { name: 'Notes' }));
+      expect(await screen.findByText('class')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Open question test-question-1' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('dialog', { name: 'My notes' })).not.toBeInTheDocument();
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: { ids: ['test-question-1'] } });
+    });
+
+    it('should practice only the bookmarked questions and link them by question', async () => {
+      render(<App />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Practice 1 bookmarked question' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ bookmarkedOnly: true });
+      expect(window.location.pathname).toBe('/q/test-question-1');
+    });
+  });
+
+  describe('Progress Transfer', () => {
+    it('should refresh the start screen after importing progress', async () => {
+      render(<App />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Progress' }));
+      fireEvent.change(screen.getByLabelText('Progress file to import'), {
+        target: { files: [new File(['{}'], 'progress.json', { type: 'application/json' })] }
+      });
+      fireEvent.click(await screen.findByRole('button', { name: 'Apply import' }));
+
+      expect(await screen.findByText('Imported 2 answers, 1 note.')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockCategoryCatalogService.getCategories).toHaveBeenCalledTimes(2);
+      });
+      expect(mockProgressTransferService.previewImport).toHaveBeenCalledWith('{}');
+    });
+  });
+
+  describe('Analytics', () => {
+    it('should start a deck of the weakest tags from the dashboard', async () => {
+      render(<App />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Analytics' }));
+      fireEvent.click(await screen.findByRole('button', { name: 'Practice my weakest topic' }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('question-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.initialize).toHaveBeenCalledWith({ filter: { tags: ['boxing'] } });
+      expect(window.location.search).toContain('tag=boxing');
+      expect(screen.queryByRole('dialog', { name: 'Mastery analytics' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Session Completion', () => {
+    beforeEach(() => {
+      vi.mocked(mockQuestionManager.moveToNext).mockReturnValue(false);
+      vi.mocked(mockStateManager.getApplicationState).mockReturnValue({
+        currentQuestionIndex: 0,
+        questionStates: new Map([
+          ['test-question-1', { selectedAnswers: [1], isSubmitted: true, isCorrect: false, score: 0 }]
+        ]),
+        isInitialized: true,
+        totalQuestions: 1
+      });
+    });
+
+    const finishSession = async () => {
+      await renderPractice();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('answer-component')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Submit Incorrect Answer'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('explanation-component')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Next Question'));
+    };
+
+    it('should show the completion view after the last question', async () => {
+      await finishSession();
+
+      await waitFor(() => {
+        expect(screen.getByRole('region', { name: 'Session complete' })).toBeInTheDocument();
+      });
+      expect(screen.getByText('0 / 1 correct (0%)')).toBeInTheDocument();
+      expect(screen.getByRole('row', { name: /Syntax/ })).toHaveTextContent('0 / 10%');
+    });
+
+    it('should start a review session of incorrect answers without reloading', async () => {
+      await finishSession();
+
+      await waitFor(() => {
+        expect(screen.getByText('Review 1 incorrect answer')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Review 1 incorrect answer'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('answer-component')).toBeInTheDocument();
+      });
+      expect(mockQuestionManager.startNewSession).toHaveBeenCalledWith({ filter: { ids: ['test-question-1'] } });
+      expect(mockAnswerManager.resetAnswer).toHaveBeenCalledWith('test-question-1');
+    });
+
+    it('should go back to the start screen to choose other topics', async () => {
+      await finishSession();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Choose topics' }));
+
+      expect(await screen.findByRole('region', { name: 'Choose topics' })).toBeInTheDocument();
+    });
+  });
+
   describe('Navigation Integration', () => {
     it('should handle navigation component reset action', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('navigation-component')).toBeInTheDocument();
@@ -376,8 +951,37 @@ describe('App Component', () => {
       });
     });
 
+    it('should show the stored answer and explanation when going back to an answered question', async () => {
+      await renderPractice();
+      await screen.findByTestId('answer-component');
+      vi.mocked(mockQuestionManager.moveToPrevious).mockReturnValue(true);
+      vi.mocked(mockAnswerManager.getAnswerState).mockReturnValue({
+        selectedAnswers: [2],
+        isSubmitted: true,
+        isCorrect: false,
+        score: 0
+      });
+
+      fireEvent.click(screen.getByText('Navigate Previous'));
+
+      expect(await screen.findByTestId('explanation-component')).toBeInTheDocument();
+      expect(screen.queryByTestId('answer-component')).not.toBeInTheDocument();
+    });
+
+    it('should show a blank answer form when going back to an unanswered question', async () => {
+      await renderPractice();
+      fireEvent.click(await screen.findByText('Submit Correct Answer'));
+      await screen.findByTestId('explanation-component');
+      vi.mocked(mockQuestionManager.moveToPrevious).mockReturnValue(true);
+      vi.mocked(mockAnswerManager.getAnswerState).mockReturnValue(null);
+
+      fireEvent.click(screen.getByText('Navigate Previous'));
+
+      expect(await screen.findByTestId('answer-component')).toBeInTheDocument();
+    });
+
     it('should handle navigation component next action', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('navigation-component')).toBeInTheDocument();
@@ -391,7 +995,7 @@ describe('App Component', () => {
 
   describe('Component Lifecycle', () => {
     it('should dispose application context on unmount', async () => {
-      const { unmount } = render(<App />);
+      const { unmount } = await renderPractice();
       
       await waitFor(() => {
         expect(screen.getByTestId('question-component')).toBeInTheDocument();
@@ -417,7 +1021,7 @@ describe('App Component', () => {
 
   describe('Layout and Accessibility', () => {
     it('should render proper 2-column layout structure', async () => {
-      render(<App />);
+      await renderPractice();
       
       await waitFor(() => {
         const container = document.querySelector('.app-container');
@@ -0,0 +1,132 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalyticsDashboardComponent } from '../../src/components/AnalyticsDashboardComponent';
+import type {
+  AnalyticsDimension,
+  IAnalyticsService,
+  MasteryReport,
+  MasteryStats,
+  TopicMastery
+} from '../../src/interfaces/services/IAnalyticsService';
+
+vi.mock('../../src/components/AnalyticsDashboardComponent.css', () => ({}));
+
+const createStats = (attemptCount: number, accuracy: number | null): MasteryStats => ({
+  questionCount: 4,
+  attemptedQuestionCount: attemptCount > 0 ? 2 : 0,
+  attemptCount,
+  correctCount: Math.round(attemptCount * (accuracy ?? 0)),
+  accuracy,
+  averageTimeToAnswerMs: attemptCount > 0 ? 12000 : null,
+  trend: [
+    { weekStart: new Date(2024, 2, 4), attemptCount: 0, accuracy: null },
+    { weekStart: new Date(2024, 2, 11), attemptCount, accuracy }
+  ]
+});
+
+const createTopic = (
+  dimension: AnalyticsDimension,
+  key: string,
+  label: string,
+  attemptCount: number,
+  accuracy: number | null
+): TopicMastery => ({ dimension, key, label, ...createStats(attemptCount, accuracy) });
+
+const createReport = (overrides: Partial<MasteryReport> = {}): MasteryReport => {
+  const boxing = createTopic('tag', 'boxing', 'boxing', 4, 0.25);
+  return {
+    generatedAt: new Date(2024, 2, 13),
+    overall: createStats(10, 0.6),
+    topics: {
+      category: [
+        createTopic('category', 'basics', 'C# Basics', 6, 0.8),
+        createTopic('category', 'oop', 'OOP', 4, 0.3),
+        createTopic('category', 'async', 'Async', 0, null)
+      ],
+      subcategory: [],
+      tag: [boxing, createTopic('tag', 'generics', 'generics', 6, 0.5)],
+      difficulty: [createTopic('difficulty', 'easy', 'Easy', 10, 0.6)]
+    },
+    weakestTags: [boxing],
+    ...overrides
+  };
+};
+
+describe('AnalyticsDashboardComponent', () => {
+  let service: IAnalyticsService;
+  let onPracticeTags: ReturnType<typeof vi.fn>;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = { getMasteryReport: vi.fn().mockResolvedValue(createReport()) };
+    onPracticeTags = vi.fn();
+    onClose = vi.fn();
+  });
+
+  const renderDashboard = () => render(
+    <AnalyticsDashboardComponent analyticsService={service} onPracticeTags={onPracticeTags} onClose={onClose} />
+  );
+
+  it('should show the overall accuracy and list topics weakest first', async () => {
+    renderDashboard();
+
+    const table = await screen.findByRole('table', { name: 'Categories by accuracy' });
+    expect(screen.getByText('60%')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Accuracy over the last 2 weeks' })).toBeInTheDocument();
+    expect(within(table).getAllByRole('rowheader').map(cell => cell.textContent)).toEqual(['OOP', 'C# Basics']);
+    expect(screen.getByText('Not practiced yet: Async')).toBeInTheDocument();
+  });
+
+  it('should switch the grouping of the topics', async () => {
+    renderDashboard();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Tags' }));
+
+    expect(screen.getByRole('button', { name: 'Tags' })).toHaveAttribute('aria-pressed', 'true');
+    const table = screen.getByRole('table', { name: 'Tags by accuracy' });
+    expect(within(table).getAllByRole('rowheader').map(cell => cell.textContent)).toEqual(['boxing', 'generics']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Subcategories' }));
+    expect(screen.getByText('None of these topics has been practiced yet.')).toBeInTheDocument();
+  });
+
+  it('should practice the weakest tags', async () => {
+    renderDashboard();
+
+    expect(await screen.findByText('Weakest tags: boxing (25%)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Practice my weakest topic' }));
+
+    expect(onPracticeTags).toHaveBeenCalledWith(['boxing']);
+  });
+
+  it('should disable practice until a tag has enough attempts', async () => {
+    vi.mocked(service.getMasteryReport).mockResolvedValue(createReport({ weakestTags: [] }));
+    renderDashboard();
+
+    expect(await screen.findByRole('button', { name: 'Practice my weakest topic' })).toBeDisabled();
+  });
+
+  it('should explain when no answers have been recorded', async () => {
+    vi.mocked(service.getMasteryReport).mockResolvedValue(createReport({ overall: createStats(0, null) }));
+    renderDashboard();
+
+    expect(await screen.findByText(/No answers recorded yet/)).toBeInTheDocument();
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+
+  it('should report a failure to build the report', async () => {
+    vi.mocked(service.getMasteryReport).mockRejectedValue(new Error('Failed to load questions'));
+    renderDashboard();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load questions');
+  });
+
+  it('should close on Escape', async () => {
+    renderDashboard();
+
+    fireEvent.keyDown(await screen.findByRole('dialog', { name: 'Mastery analytics' }), { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,11 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
 import { AnswerComponent, type AnswerComponentProps } from '../../src/components/AnswerComponent';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
 import type { IAnswerManager } from '../../src/interfaces/services/IAnswerManager';
 import type { IQuestionState, IAnswerResult } from '../../src/interfaces/domain/types';
+import { ShortcutService } from '../../src/services/shortcuts/ShortcutService';
 
 // Mock implementations
 const createMockQuestion = (hasMultipleCorrect = false): IQuestion => ({
@@ -392,4 +393,53 @@ describe('AnswerComponent', () => {
       expect(mockAnswerManager.getAnswerState).toHaveBeenCalledWith('different-question');
     });
   });
+
+  describe('Keyboard Shortcuts', () => {
+    const press = (shortcutService: ShortcutService, key: string): boolean => {
+      let handled = false;
+      act(() => {
+        handled = shortcutService.dispatch(new KeyboardEvent('keydown', { key }), 'question');
+      });
+      return handled;
+    };
+
+    it('should toggle options by number and letter', () => {
+      const shortcutService = new ShortcutService();
+      render(<AnswerComponent {...defaultProps} shortcutService={shortcutService} />);
+
+      press(shortcutService, '2');
+      expect(screen.getByText('var x = 5;').closest('button')).toHaveClass('answer-option--selected');
+
+      press(shortcutService, 'b');
+      expect(screen.getByText('var x = 5;').closest('button')).not.toHaveClass('answer-option--selected');
+    });
+
+    it('should submit the selection with Enter', () => {
+      const shortcutService = new ShortcutService();
+      const onAnswerSubmitted = vi.fn();
+      render(<AnswerComponent {...defaultProps} shortcutService={shortcutService} onAnswerSubmitted={onAnswerSubmitted} />);
+
+      press(shortcutService, 'a');
+      press(shortcutService, 'Enter');
+
+      expect(mockAnswerManager.submitAnswer).toHaveBeenCalledWith('test-question-1', [0]);
+      expect(onAnswerSubmitted).toHaveBeenCalledWith(true);
+    });
+
+    it('should have no shortcut for options the question does not have', () => {
+      const shortcutService = new ShortcutService();
+      render(<AnswerComponent {...defaultProps} shortcutService={shortcutService} />);
+
+      expect(press(shortcutService, '5')).toBe(false);
+    });
+
+    it('should unregister its shortcuts when unmounted', () => {
+      const shortcutService = new ShortcutService();
+      const { unmount } = render(<AnswerComponent {...defaultProps} shortcutService={shortcutService} />);
+
+      unmount();
+
+      expect(press(shortcutService, '1')).toBe(false);
+    });
+  });
 });
\ No newline at end of file
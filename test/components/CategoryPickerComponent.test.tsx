@@ -0,0 +1,153 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { CategoryPickerComponent } from '../../src/components/CategoryPickerComponent';
+import type { CategorySummary, SubcategorySummary } from '../../src/interfaces/services/ICategoryCatalogService';
+
+vi.mock('../../src/components/CategoryPickerComponent.css', () => ({}));
+
+const createSubcategory = (id: string, questionCount: number, correctCount = 0): SubcategorySummary => ({
+  id,
+  name: id.replace('-', ' '),
+  description: '',
+  isListed: true,
+  questionCount,
+  answeredCount: correctCount,
+  correctCount,
+  masteryPercentage: questionCount === 0 ? 0 : Math.round((correctCount / questionCount) * 100)
+});
+
+const categories: CategorySummary[] = [
+  {
+    id: 'basics',
+    name: 'C# Basics',
+    description: 'Syntax and types',
+    icon: '📘',
+    color: '#38a169',
+    estimatedTimeMinutes: 20,
+    questionCount: 4,
+    answeredCount: 2,
+    correctCount: 2,
+    masteryPercentage: 50,
+    subcategories: [createSubcategory('data-types', 3, 2), createSubcategory('strings', 1), createSubcategory('operators', 0)]
+  },
+  {
+    id: 'oop',
+    name: 'Object-Oriented Programming',
+    description: '',
+    icon: '🏗️',
+    color: '#2b6cb0',
+    estimatedTimeMinutes: null,
+    questionCount: 2,
+    answeredCount: 0,
+    correctCount: 0,
+    masteryPercentage: 0,
+    subcategories: [createSubcategory('classes', 2)]
+  }
+];
+
+describe('CategoryPickerComponent', () => {
+  it('should show each category with its question count and mastery', () => {
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} />);
+
+    expect(screen.getByText('6 questions in 2 categories')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'C# Basics' })).toBeInTheDocument();
+    expect(screen.getByText(/4 questions · ~20 min · 50% mastered/)).toBeInTheDocument();
+    expect(screen.getByText(/2 questions · 0% mastered/)).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'C# Basics mastery' })).toHaveAttribute('aria-valuenow', '50');
+  });
+
+  it('should start a session with the selected subcategories', () => {
+    const onStart = vi.fn();
+    render(<CategoryPickerComponent categories={categories} onStart={onStart} />);
+
+    expect(screen.getByRole('button', { name: 'Start selected' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /data types/ }));
+    fireEvent.click(screen.getByRole('checkbox', { name: /classes/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start 5 selected questions' }));
+
+    expect(onStart).toHaveBeenCalledWith({ categories: ['basics', 'oop'], subcategories: ['basics/data-types', 'oop/classes'] });
+  });
+
+  it('should keep subcategories with the same key apart across categories', () => {
+    const onStart = vi.fn();
+    const sharedKeys: CategorySummary[] = [
+      { ...categories[0], subcategories: [createSubcategory('basics', 3)] },
+      { ...categories[1], subcategories: [createSubcategory('basics', 2)] }
+    ];
+    render(<CategoryPickerComponent categories={sharedKeys} onStart={onStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Select all of Object-Oriented Programming' }));
+
+    expect(screen.getAllByRole('checkbox').map(checkbox => (checkbox as HTMLInputElement).checked)).toEqual([false, true]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start 2 selected questions' }));
+
+    expect(onStart).toHaveBeenCalledWith({ categories: ['oop'], subcategories: ['oop/basics'] });
+  });
+
+  it('should select and clear every subcategory of a category that has questions', () => {
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} />);
+    const selectAll = screen.getByRole('button', { name: 'Select all of C# Basics' });
+
+    fireEvent.click(selectAll);
+
+    expect(screen.getByRole('checkbox', { name: /data types/ })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: /strings/ })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: /operators/ })).not.toBeChecked();
+    expect(screen.getByRole('button', { name: 'Start 4 selected questions' })).toBeEnabled();
+
+    fireEvent.click(selectAll);
+
+    expect(screen.getByRole('checkbox', { name: /data types/ })).not.toBeChecked();
+  });
+
+  it('should not let empty subcategories be picked', () => {
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} />);
+
+    expect(screen.getByRole('checkbox', { name: /operators/ })).toBeDisabled();
+  });
+
+  it('should start a session over every question without a filter', () => {
+    const onStart = vi.fn();
+    render(<CategoryPickerComponent categories={categories} onStart={onStart} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Practice all questions' }));
+
+    expect(onStart).toHaveBeenCalledWith();
+  });
+
+  it('should disable starting while the session is being prepared', () => {
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} isStarting />);
+
+    expect(screen.getByRole('button', { name: 'Practice all questions' })).toBeDisabled();
+    expect(screen.getByRole('status')).toHaveTextContent('Preparing session...');
+  });
+
+  it('should start a session with the bookmarked questions', () => {
+    const onStartBookmarked = vi.fn();
+    render(
+      <CategoryPickerComponent categories={categories} onStart={vi.fn()} bookmarkedCount={3} onStartBookmarked={onStartBookmarked} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Practice 3 bookmarked questions' }));
+
+    expect(onStartBookmarked).toHaveBeenCalled();
+  });
+
+  it('should start a review of the questions due today', () => {
+    const onStartDue = vi.fn();
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} onStartDue={onStartDue} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Review due questions' }));
+
+    expect(onStartDue).toHaveBeenCalled();
+  });
+
+  it('should not offer the bookmarked questions when there are none', () => {
+    render(<CategoryPickerComponent categories={categories} onStart={vi.fn()} onStartBookmarked={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Practice 0 bookmarked questions' })).toBeDisabled();
+  });
+});
@@ -4,9 +4,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ExplanationComponent, type ExplanationComponentProps } from '../../src/components/ExplanationComponent';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
 import type { IAnswerResult } from '../../src/interfaces/domain/types';
+import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
+import { AnnotationService } from '../../src/services/annotations/AnnotationService';
+import { StateManager } from '../../src/services/StateManager';
 
 // Mock CSS import
 vi.mock('../../src/components/ExplanationComponent.css', () => ({}));
+vi.mock('../../src/components/NotesPanelComponent.css', () => ({}));
+vi.mock('../../src/components/MarkdownComponent.css', () => ({}));
 
 /**
  * Helper function to create a mock question for testing
@@ -40,6 +45,7 @@ const createMockAnswerResult = (overrides: Partial<IAnswerResult> = {}): IAnswer
   correctAnswers: [0, 1],
   explanation: 'Both var and int are correct ways to declare variables in C#. The var keyword uses type inference, while int explicitly specifies the type.',
   selectedAnswers: [0, 1],
+  score: overrides.isCorrect === false ? 0 : 1,
   ...overrides
 });
 
@@ -186,6 +192,37 @@ describe('ExplanationComponent', () => {
       expect(screen.getByText('Your Selection')).toBeInTheDocument();
       expect(screen.getAllByText('Correct Answer')).toHaveLength(2); // For both correct answers
     });
+
+    it('should show partial credit and the missed correct options', () => {
+      const answerResult = createMockAnswerResult({
+        correctAnswers: [0, 1],
+        selectedAnswers: [1],
+        isCorrect: false,
+        score: 0.5
+      });
+
+      render(<ExplanationComponent {...createDefaultProps({ answerResult })} />);
+
+      expect(screen.getByText('Partially correct')).toBeInTheDocument();
+      expect(screen.getByText(/You earned 50% of the credit/)).toBeInTheDocument();
+      expect(screen.getByText(/Missed: A/)).toBeInTheDocument();
+      expect(document.querySelector('.explanation-header')).toHaveClass('explanation-header--partial');
+      expect(screen.getByText('½')).toBeInTheDocument();
+    });
+
+    it('should mark correct options that were not selected as missed', () => {
+      const answerResult = createMockAnswerResult({
+        correctAnswers: [0, 1],
+        selectedAnswers: [1],
+        isCorrect: false,
+        score: 0.5
+      });
+
+      render(<ExplanationComponent {...createDefaultProps({ answerResult })} />);
+
+      expect(screen.getAllByText('Missed')).toHaveLength(1);
+      expect(document.querySelectorAll('.explanation-option--missed')).toHaveLength(1);
+    });
   });
 
   describe('Summary Statistics', () => {
@@ -203,6 +240,7 @@ describe('ExplanationComponent', () => {
       expect(screen.getByText('2 of 4')).toBeInTheDocument(); // Correct answers
       expect(screen.getByText('2 options')).toBeInTheDocument(); // Your selection
       expect(screen.getByText('2 of 2')).toBeInTheDocument(); // Correctly selected
+      expect(screen.getByText('100%')).toBeInTheDocument(); // Score
     });
 
     it('should handle single selection correctly', () => {
@@ -222,6 +260,52 @@ describe('ExplanationComponent', () => {
     });
   });
 
+  describe('Output Diff', () => {
+    const createOutputResult = (overrides: Partial<IAnswerResult> = {}): IAnswerResult => createMockAnswerResult({
+      correctAnswers: [],
+      selectedAnswers: [],
+      isCorrect: false,
+      submittedOutput: 'Hello\nworld',
+      outputComparison: {
+        isMatch: false,
+        lines: [
+          { kind: 'match', text: 'Hello' },
+          { kind: 'missing', text: 'World' },
+          { kind: 'unexpected', text: 'world' }
+        ]
+      },
+      ...overrides
+    });
+
+    it('should show typed output line by line instead of the options', () => {
+      const question = createMockQuestion({ options: [] });
+      const props = createDefaultProps({ question, answerResult: createOutputResult() });
+
+      const { container } = render(<ExplanationComponent {...props} />);
+
+      expect(screen.getByText('Your Output')).toBeInTheDocument();
+      expect(screen.queryByText('Answer Options')).not.toBeInTheDocument();
+      expect(container.querySelector('.explanation-diff-line--match')).toHaveTextContent('Hello');
+      expect(container.querySelector('.explanation-diff-line--missing')).toHaveTextContent('World');
+      expect(container.querySelector('.explanation-diff-line--unexpected')).toHaveTextContent('world');
+      expect(screen.getByText(/were expected but missing/)).toBeInTheDocument();
+    });
+
+    it('should leave out the legend when the output matches', () => {
+      const question = createMockQuestion({ options: [] });
+      const answerResult = createOutputResult({
+        isCorrect: true,
+        outputComparison: { isMatch: true, lines: [{ kind: 'match', text: 'Hello' }] }
+      });
+      const props = createDefaultProps({ question, answerResult });
+
+      render(<ExplanationComponent {...props} />);
+
+      expect(screen.getByText('Your Output')).toBeInTheDocument();
+      expect(screen.queryByText(/were expected but missing/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('Explanation Display', () => {
     it('should display the explanation text', () => {
       const answerResult = createMockAnswerResult({
@@ -250,6 +334,24 @@ describe('ExplanationComponent', () => {
     });
   });
 
+  describe('Notes', () => {
+    it('should show the note of the question when an annotation service is given', async () => {
+      const annotationService = new AnnotationService(new StateManager(), {} as IQuestionRepository);
+      await annotationService.saveNote('test-question-1', 'Prefer *var* for long types');
+
+      render(<ExplanationComponent {...createDefaultProps({ annotationService })} />);
+
+      expect(screen.getByRole('heading', { name: 'My Notes' })).toBeInTheDocument();
+      expect(screen.getByText('var').tagName).toBe('EM');
+    });
+
+    it('should leave out the notes without an annotation service', () => {
+      render(<ExplanationComponent {...createDefaultProps()} />);
+
+      expect(screen.queryByRole('heading', { name: 'My Notes' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Navigation Buttons', () => {
     it('should render both navigation buttons when callbacks are provided', () => {
       const props = createDefaultProps({
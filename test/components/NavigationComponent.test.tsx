@@ -5,6 +5,7 @@ import { NavigationComponent, type NavigationComponentProps } from '../../src/co
 import type { IQuestionManager } from '../../src/interfaces/services/IQuestionManager';
 import type { IAnswerManager } from '../../src/interfaces/services/IAnswerManager';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+import { StateManager } from '../../src/services/StateManager';
 
 // Helper functions to get buttons by their text content instead of aria-label
 const getRedoButton = () => screen.getByText(/Redo Question|Resetting\.\.\./).closest('button');
@@ -15,6 +16,8 @@ const createMockQuestionManager = () => ({
   getCurrentQuestion: vi.fn(),
   moveToNext: vi.fn(),
   moveToPrevious: vi.fn(),
+  moveTo: vi.fn(),
+  getSessionQuestions: vi.fn(),
   resetCurrent: vi.fn(),
   getTotalCount: vi.fn(),
   getCurrentIndex: vi.fn(),
@@ -282,6 +285,133 @@ describe('NavigationComponent', () => {
     });
   });
 
+  describe('Previous Question Functionality', () => {
+    it('should move back and report the question change', () => {
+      const onQuestionChange = vi.fn();
+      mockQuestionManager.getCurrentIndex.mockReturnValue(2);
+      mockQuestionManager.moveToPrevious.mockReturnValue(true);
+
+      render(<NavigationComponent {...defaultProps} onQuestionChange={onQuestionChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Move to previous question' }));
+
+      expect(mockQuestionManager.moveToPrevious).toHaveBeenCalled();
+      expect(onQuestionChange).toHaveBeenCalled();
+    });
+
+    it('should disable previous button at the first question', () => {
+      render(<NavigationComponent {...defaultProps} />);
+
+      expect(screen.getByRole('button', { name: 'No previous question' })).toBeDisabled();
+    });
+
+    it('should follow the question index shown by the parent', () => {
+      const { rerender } = render(<NavigationComponent {...defaultProps} currentQuestionIndex={0} />);
+
+      rerender(<NavigationComponent {...defaultProps} currentQuestionIndex={3} />);
+
+      expect(screen.getByText('Question 4 of 5')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Move to previous question' })).toBeEnabled();
+    });
+
+    it('should handle errors during navigation', () => {
+      const onError = vi.fn();
+      mockQuestionManager.getCurrentIndex.mockReturnValue(2);
+      mockQuestionManager.moveToPrevious.mockImplementation(() => {
+        throw new Error('Navigation failed');
+      });
+
+      render(<NavigationComponent {...defaultProps} onError={onError} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Move to previous question' }));
+
+      expect(onError).toHaveBeenCalledWith(new Error('Navigation failed'));
+    });
+  });
+
+  describe('Go To Question', () => {
+    it('should jump to the entered question number', () => {
+      const onQuestionChange = vi.fn();
+      mockQuestionManager.moveTo.mockReturnValue(true);
+
+      render(<NavigationComponent {...defaultProps} onQuestionChange={onQuestionChange} />);
+      fireEvent.change(screen.getByLabelText('Go to'), { target: { value: '4' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Go' }));
+
+      expect(mockQuestionManager.moveTo).toHaveBeenCalledWith(3);
+      expect(onQuestionChange).toHaveBeenCalled();
+      expect(screen.getByLabelText('Go to')).toHaveValue(null);
+    });
+
+    it.each(['0', '6', '2.5', ''])('should explain the valid range for %j', value => {
+      render(<NavigationComponent {...defaultProps} />);
+      fireEvent.change(screen.getByLabelText('Go to'), { target: { value } });
+      fireEvent.click(screen.getByRole('button', { name: 'Go' }));
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Enter a question number from 1 to 5');
+      expect(screen.getByLabelText('Go to')).toHaveAttribute('aria-invalid', 'true');
+      expect(mockQuestionManager.moveTo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Bookmarks and Question Map', () => {
+    let stateManager: StateManager;
+    let questions: IQuestion[];
+
+    beforeEach(() => {
+      stateManager = new StateManager();
+      questions = ['q1', 'q2', 'q3', 'q4', 'q5'].map(createMockQuestion);
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(questions[0]);
+      mockQuestionManager.getSessionQuestions.mockReturnValue(questions);
+      mockQuestionManager.moveTo.mockReturnValue(true);
+    });
+
+    it('should hide bookmarks and the map without a state manager', () => {
+      render(<NavigationComponent {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: /Bookmark/ })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Question map' })).not.toBeInTheDocument();
+    });
+
+    it('should toggle the bookmark of the current question', () => {
+      render(<NavigationComponent {...defaultProps} stateManager={stateManager} />);
+      const bookmarkButton = screen.getByRole('button', { name: /Bookmark/ });
+
+      fireEvent.click(bookmarkButton);
+      expect(stateManager.isBookmarked('q1')).toBe(true);
+      expect(bookmarkButton).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(bookmarkButton);
+      expect(stateManager.isBookmarked('q1')).toBe(false);
+      expect(bookmarkButton).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('should expand the map with the status of each question', () => {
+      stateManager.updateQuestionState('q2', { selectedAnswers: [0], isSubmitted: true, isCorrect: true, score: 1 });
+      stateManager.updateQuestionState('q3', { selectedAnswers: [1], isSubmitted: true, isCorrect: false, score: 0 });
+      stateManager.setBookmarked('q3', true);
+
+      render(<NavigationComponent {...defaultProps} stateManager={stateManager} />);
+      const toggle = screen.getByRole('button', { name: 'Question map' });
+      expect(toggle).toHaveAttribute('aria-expanded', 'false');
+      fireEvent.click(toggle);
+
+      expect(toggle).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('button', { name: 'Question 1: unanswered' })).toHaveAttribute('aria-current', 'step');
+      expect(screen.getByRole('button', { name: 'Question 2: correct' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Question 3: incorrect, bookmarked' })).toBeInTheDocument();
+    });
+
+    it('should jump to a question picked on the map', () => {
+      const onQuestionChange = vi.fn();
+
+      render(<NavigationComponent {...defaultProps} stateManager={stateManager} onQuestionChange={onQuestionChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Question map' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Question 5: unanswered' }));
+
+      expect(mockQuestionManager.moveTo).toHaveBeenCalledWith(4);
+      expect(onQuestionChange).toHaveBeenCalled();
+    });
+  });
+
   describe('Button States', () => {
     it('should disable both buttons when resetting', () => {
       const mockQuestion = createMockQuestion('test-q-1');
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NotesOverviewComponent } from '../../src/components/NotesOverviewComponent';
+import { AnnotationService } from '../../src/services/annotations/AnnotationService';
+import { StateManager } from '../../src/services/StateManager';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../src/models/Option';
+import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
+
+vi.mock('../../src/components/NotesOverviewComponent.css', () => ({}));
+vi.mock('../../src/components/MarkdownComponent.css', () => ({}));
+
+describe('NotesOverviewComponent', () => {
+  let annotationService: AnnotationService;
+  let onSelect: ReturnType<typeof vi.fn>;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    const questionRepository = {
+      loadQuestions: vi.fn().mockResolvedValue([
+        new MultipleChoiceQuestion('q1', 'What is boxing?', [new Option('a', 'Yes')], [0], 'Because.', 'basics', 'easy')
+      ])
+    } as unknown as IQuestionRepository;
+    annotationService = new AnnotationService(new StateManager(), questionRepository);
+    onSelect = vi.fn();
+    onClose = vi.fn();
+  });
+
+  const renderOverview = () => render(
+    <NotesOverviewComponent annotationService={annotationService} onSelect={onSelect} onClose={onClose} />
+  );
+
+  it('should list notes with their questions and open a question', async () => {
+    await annotationService.saveNote('q1', 'Copies the **value**');
+    renderOverview();
+
+    expect(await screen.findByText('What is boxing?')).toBeInTheDocument();
+    expect(screen.getByText('value').tagName).toBe('STRONG');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open question q1' }));
+    expect(onSelect).toHaveBeenCalledWith('q1');
+  });
+
+  it('should list notes on removed questions separately and delete them', async () => {
+    await annotationService.saveNote('gone', 'Orphaned note');
+    renderOverview();
+
+    expect(await screen.findByRole('heading', { name: 'Notes on removed questions' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Delete the note on gone' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Orphaned note')).not.toBeInTheDocument();
+    });
+    expect(annotationService.getNote('gone')).toBeNull();
+  });
+
+  it('should explain how to add a note when there are none', async () => {
+    renderOverview();
+
+    expect(await screen.findByText(/No notes yet/)).toBeInTheDocument();
+  });
+
+  it('should close on Escape and the close button', async () => {
+    renderOverview();
+    await screen.findByText(/No notes yet/);
+
+    fireEvent.keyDown(screen.getByRole('dialog', { name: 'My notes' }), { key: 'Escape' });
+    fireEvent.click(screen.getByRole('button', { name: 'Close notes' }));
+
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
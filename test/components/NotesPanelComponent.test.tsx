@@ -0,0 +1,77 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NotesPanelComponent } from '../../src/components/NotesPanelComponent';
+import { AnnotationService } from '../../src/services/annotations/AnnotationService';
+import { StateManager } from '../../src/services/StateManager';
+import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
+
+vi.mock('../../src/components/NotesPanelComponent.css', () => ({}));
+vi.mock('../../src/components/MarkdownComponent.css', () => ({}));
+
+describe('NotesPanelComponent', () => {
+  let annotationService: AnnotationService;
+
+  beforeEach(() => {
+    annotationService = new AnnotationService(new StateManager(), {} as IQuestionRepository);
+  });
+
+  const renderPanel = (questionId = 'q1') => render(
+    <NotesPanelComponent questionId={questionId} annotationService={annotationService} />
+  );
+
+  it('should offer to add a note when the question has none', () => {
+    renderPanel();
+
+    expect(screen.getByText('No note yet for this question.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Add note' })).toBeInTheDocument();
+  });
+
+  it('should save a note and show it as markdown', async () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add note' }));
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Use **readonly** for `struct`s\n\n- one\n- two' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save note' }));
+
+    expect(await screen.findByText('readonly')).toContainHTML('<strong>readonly</strong>');
+    expect(screen.getByText('struct').tagName).toBe('CODE');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(annotationService.getNote('q1')?.text).toContain('**readonly**');
+  });
+
+  it('should show markup in notes as text', async () => {
+    await annotationService.saveNote('q1', '<img src=x onerror=alert(1)>');
+    renderPanel();
+
+    expect(screen.getByText('<img src=x onerror=alert(1)>')).toBeInTheDocument();
+    expect(document.querySelector('img')).toBeNull();
+  });
+
+  it('should edit, cancel and delete a saved note', async () => {
+    await annotationService.saveNote('q1', 'first draft');
+    renderPanel();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit note' }));
+    expect(screen.getByRole('textbox')).toHaveValue('first draft');
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(screen.getByText('first draft')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit note' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete note' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('No note yet for this question.')).toBeInTheDocument();
+    });
+    expect(annotationService.getNote('q1')).toBeNull();
+  });
+
+  it('should show the note of the new question when the question changes', async () => {
+    await annotationService.saveNote('q2', 'note on q2');
+    const { rerender } = renderPanel();
+
+    rerender(<NotesPanelComponent questionId="q2" annotationService={annotationService} />);
+
+    expect(screen.getByText('note on q2')).toBeInTheDocument();
+  });
+});
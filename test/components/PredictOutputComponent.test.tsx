@@ -0,0 +1,88 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { PredictOutputComponent } from '../../src/components/PredictOutputComponent';
+import { PredictOutputQuestion } from '../../src/models/PredictOutputQuestion';
+import { CodeExample } from '../../src/models/CodeExample';
+import type { IAnswerManager } from '../../src/interfaces/services/IAnswerManager';
+import type { IAnswerResult } from '../../src/interfaces/domain/types';
+
+vi.mock('../../src/components/PredictOutputComponent.css', () => ({}));
+
+const question = new PredictOutputQuestion(
+  'po-1', 'What does this print?', 'Sum of 1 and 2', 'basics', 'easy',
+  new CodeExample('Console.WriteLine(1 + 2);', 'csharp', '3')
+);
+
+const createMockAnswerManager = (result: Partial<IAnswerResult> = {}): IAnswerManager => ({
+  submitAnswer: vi.fn(),
+  submitOutput: vi.fn(() => ({
+    isCorrect: true,
+    score: 1,
+    correctAnswers: [],
+    explanation: '',
+    selectedAnswers: [],
+    ...result
+  })),
+  recordSelfAssessment: vi.fn(),
+  getAnswerState: vi.fn(() => null),
+  resetAnswer: vi.fn(),
+  isAnswered: vi.fn(() => false),
+  getOutputComparison: vi.fn(() => null),
+  getSelectedOptions: vi.fn(() => [])
+});
+
+describe('PredictOutputComponent', () => {
+  it('should not submit until output is typed', () => {
+    const answerManager = createMockAnswerManager();
+
+    render(<PredictOutputComponent question={question} answerManager={answerManager} />);
+
+    expect(screen.getByRole('button', { name: 'Submit Output' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('What does this code print?'), { target: { value: '   ' } });
+    expect(screen.getByRole('button', { name: 'Submit Output' })).toBeDisabled();
+  });
+
+  it('should submit the output exactly as typed', () => {
+    const answerManager = createMockAnswerManager({ isCorrect: false });
+    const onAnswerSubmitted = vi.fn();
+
+    render(<PredictOutputComponent question={question} answerManager={answerManager} onAnswerSubmitted={onAnswerSubmitted} />);
+
+    fireEvent.change(screen.getByLabelText('What does this code print?'), { target: { value: '12\n' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Output' }));
+
+    expect(answerManager.submitOutput).toHaveBeenCalledWith('po-1', '12\n');
+    expect(onAnswerSubmitted).toHaveBeenCalledWith(false);
+  });
+
+  it('should report submission errors', () => {
+    const answerManager = createMockAnswerManager();
+    vi.mocked(answerManager.submitOutput).mockImplementation(() => {
+      throw new Error('Question ID mismatch');
+    });
+    const onError = vi.fn();
+
+    render(<PredictOutputComponent question={question} answerManager={answerManager} onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('What does this code print?'), { target: { value: '3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Output' }));
+
+    expect(onError).toHaveBeenCalledWith(new Error('Question ID mismatch'));
+  });
+
+  it('should clear the output when the question changes', () => {
+    const answerManager = createMockAnswerManager();
+    const nextQuestion = new PredictOutputQuestion(
+      'po-2', 'And this?', '', 'basics', 'easy', new CodeExample('Console.WriteLine(2 * 2);', 'csharp', '4')
+    );
+
+    const { rerender } = render(<PredictOutputComponent question={question} answerManager={answerManager} />);
+    fireEvent.change(screen.getByLabelText('What does this code print?'), { target: { value: '3' } });
+
+    rerender(<PredictOutputComponent question={nextQuestion} answerManager={answerManager} />);
+
+    expect(screen.getByLabelText('What does this code print?')).toHaveValue('');
+  });
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ProgressTransferComponent } from '../../src/components/ProgressTransferComponent';
+import { ValidationError } from '../../src/errors/ValidationError';
+import type {
+  IProgressTransferService,
+  ProgressImportPreview
+} from '../../src/interfaces/services/IProgressTransferService';
+
+vi.mock('../../src/components/ProgressTransferComponent.css', () => ({}));
+
+const preview: ProgressImportPreview = {
+  exportedAt: new Date('2024-03-05T12:00:00Z'),
+  snapshot: { questionStates: new Map(), bookmarkedQuestionIds: new Set(), notes: [], reviewStates: [] },
+  changes: { answers: 1, bookmarks: 2, notes: 0, reviews: 0 },
+  conflicts: [{
+    questionId: 'q1',
+    kind: 'answer',
+    localAt: new Date('2024-03-01T09:00:00Z'),
+    importedAt: new Date('2024-03-02T09:00:00Z'),
+    resolution: 'use-imported'
+  }],
+  unknownQuestionIds: ['retired']
+};
+
+describe('ProgressTransferComponent', () => {
+  let service: IProgressTransferService;
+  let onImported: ReturnType<typeof vi.fn>;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = {
+      exportProgress: vi.fn().mockResolvedValue('{"format":"csharp-card-progress"}'),
+      previewImport: vi.fn().mockResolvedValue(preview),
+      applyImport: vi.fn().mockResolvedValue(preview.changes)
+    };
+    onImported = vi.fn();
+    onClose = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const renderTransfer = () => render(
+    <ProgressTransferComponent progressTransferService={service} onImported={onImported} onClose={onClose} />
+  );
+
+  const pickFile = (contents = '{}') => {
+    fireEvent.change(screen.getByLabelText('Progress file to import'), {
+      target: { files: [new File([contents], 'progress.json', { type: 'application/json' })] }
+    });
+  };
+
+  it('should download the export as a dated JSON file', async () => {
+    const createObjectURL = vi.fn().mockReturnValue('blob:progress');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toMatch(/^csharp-card-progress-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(this.href).toBe('blob:progress');
+    });
+    renderTransfer();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export progress' }));
+
+    expect(await screen.findByText('Progress exported.')).toBeInTheDocument();
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(createObjectURL.mock.calls[0][0]).toBeInstanceOf(Blob);
+  });
+
+  it('should preview conflicts and unknown questions before applying an import', async () => {
+    renderTransfer();
+
+    pickFile('{"exported":true}');
+
+    expect(await screen.findByText('This import adds or updates 1 answer, 2 bookmarks.')).toBeInTheDocument();
+    expect(service.previewImport).toHaveBeenCalledWith('{"exported":true}');
+    expect(screen.getByRole('list', { name: 'Conflicts' })).toHaveTextContent(/Answer for q1: the imported one/);
+    expect(screen.getByRole('list', { name: 'Questions not in the question bank' })).toHaveTextContent('retired');
+    expect(service.applyImport).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply import' }));
+
+    expect(await screen.findByText('Imported 1 answer, 2 bookmarks.')).toBeInTheDocument();
+    expect(service.applyImport).toHaveBeenCalledWith(preview);
+    expect(onImported).toHaveBeenCalledWith(preview.changes);
+  });
+
+  it('should show why a file cannot be imported', async () => {
+    vi.mocked(service.previewImport).mockRejectedValue(
+      new ValidationError('Progress file checksum does not match', ['The file was changed or damaged after it was exported'])
+    );
+    renderTransfer();
+
+    pickFile();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Progress file checksum does not match: The file was changed or damaged after it was exported'
+    );
+    expect(screen.queryByRole('button', { name: 'Apply import' })).not.toBeInTheDocument();
+  });
+
+  it('should discard the preview on cancel and close on Escape', async () => {
+    renderTransfer();
+    pickFile();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Cancel import' }));
+    expect(screen.queryByRole('button', { name: 'Apply import' })).not.toBeInTheDocument();
+
+    fireEvent.keyDown(screen.getByRole('dialog', { name: 'Move progress' }), { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+});
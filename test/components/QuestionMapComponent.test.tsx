@@ -0,0 +1,72 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QuestionMapComponent } from '../../src/components/QuestionMapComponent';
+import { StateManager } from '../../src/services/StateManager';
+import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+
+vi.mock('../../src/components/QuestionMapComponent.css', () => ({}));
+
+const createMockQuestion = (id: string): IQuestion => ({
+  id,
+  text: `Question ${id}`,
+  options: [{ id: 'opt1', text: 'Option A' }, { id: 'opt2', text: 'Option B' }],
+  category: 'test',
+  difficulty: 'easy' as const,
+  explanation: 'Test explanation',
+  codeExample: undefined,
+  getCorrectAnswers: () => [0],
+  hasMultipleCorrectAnswers: () => false
+});
+
+describe('QuestionMapComponent', () => {
+  let stateManager: StateManager;
+  let questions: IQuestion[];
+  let onSelect: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    stateManager = new StateManager();
+    questions = ['q1', 'q2', 'q3', 'q4'].map(createMockQuestion);
+    onSelect = vi.fn();
+  });
+
+  const renderMap = (currentIndex = 0) => render(
+    <QuestionMapComponent questions={questions} currentIndex={currentIndex} stateManager={stateManager} onSelect={onSelect} />
+  );
+
+  it('should number every question of the session', () => {
+    renderMap();
+
+    expect(screen.getByRole('navigation', { name: 'Question map' })).toBeInTheDocument();
+    expect(screen.getAllByRole('button').map(button => button.textContent)).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('should show the status of each question', () => {
+    stateManager.updateQuestionState('q1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true, score: 1 });
+    stateManager.updateQuestionState('q2', { selectedAnswers: [1], isSubmitted: true, isCorrect: false, score: 0 });
+    stateManager.updateQuestionState('q3', { selectedAnswers: [1], isSubmitted: false, isCorrect: false, score: 0 });
+    stateManager.setBookmarked('q4', true);
+
+    renderMap();
+
+    expect(screen.getByRole('button', { name: 'Question 1: correct' })).toHaveClass('question-map-item--correct');
+    expect(screen.getByRole('button', { name: 'Question 2: incorrect' })).toHaveClass('question-map-item--incorrect');
+    expect(screen.getByRole('button', { name: 'Question 3: unanswered' })).toHaveClass('question-map-item--unanswered');
+    expect(screen.getByRole('button', { name: 'Question 4: unanswered, bookmarked' })).toHaveClass('question-map-item--bookmarked');
+  });
+
+  it('should mark the current question', () => {
+    renderMap(2);
+
+    expect(screen.getByRole('button', { name: 'Question 3: unanswered' })).toHaveAttribute('aria-current', 'step');
+    expect(screen.getByRole('button', { name: 'Question 1: unanswered' })).not.toHaveAttribute('aria-current');
+  });
+
+  it('should report the index of a picked question', () => {
+    renderMap();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Question 2: unanswered' }));
+
+    expect(onSelect).toHaveBeenCalledWith(1);
+  });
+});
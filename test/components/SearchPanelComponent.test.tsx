@@ -0,0 +1,103 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SearchPanelComponent } from '../../src/components/SearchPanelComponent';
+import type { ISearchService, SearchResults } from '../../src/interfaces/services/ISearchService';
+import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+
+vi.mock('../../src/components/SearchPanelComponent.css', () => ({}));
+
+const question = {
+  id: 'async-0003',
+  text: 'When should library code call ConfigureAwait(false)?',
+  category: 'async',
+  subcategory: 'tasks',
+  tags: ['tasks']
+} as IQuestion;
+
+const results: SearchResults = {
+  query: 'configureawait',
+  hits: [{
+    question,
+    score: 3,
+    snippets: [{ field: 'text', text: question.text, highlights: [{ start: 30, end: 44 }] }]
+  }],
+  totalHits: 1,
+  facets: {
+    categories: [{ value: 'async', count: 1 }],
+    tags: [{ value: 'tasks', count: 1 }]
+  }
+};
+
+describe('SearchPanelComponent', () => {
+  let searchService: ISearchService;
+
+  beforeEach(() => {
+    searchService = {
+      buildIndex: vi.fn(),
+      search: vi.fn().mockImplementation(async (query: string) =>
+        query ? results : { ...results, query, hits: [], totalHits: 0, facets: { categories: [], tags: [] } })
+    };
+  });
+
+  const renderPanel = (onSelect = vi.fn(), onClose = vi.fn()) => {
+    render(<SearchPanelComponent searchService={searchService} onSelect={onSelect} onClose={onClose} />);
+    return { onSelect, onClose };
+  };
+
+  const typeQuery = (query: string) => {
+    fireEvent.change(screen.getByRole('searchbox', { name: 'Search query' }), { target: { value: query } });
+  };
+
+  it('should show the hits with the matched words highlighted', async () => {
+    renderPanel();
+
+    typeQuery('ConfigureAwait');
+
+    expect(await screen.findByText('ConfigureAwait', { selector: 'mark' })).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('1 question');
+    expect(screen.getByText('async / tasks · async-0003')).toBeInTheDocument();
+  });
+
+  it('should open the picked question', async () => {
+    const { onSelect } = renderPanel();
+
+    typeQuery('ConfigureAwait');
+    fireEvent.click(await screen.findByRole('button', { name: /async-0003/ }));
+
+    expect(onSelect).toHaveBeenCalledWith('async-0003');
+  });
+
+  it('should narrow the search by a category or tag facet', async () => {
+    renderPanel();
+
+    typeQuery('ConfigureAwait');
+    fireEvent.click(await screen.findByRole('button', { name: /#tasks/ }));
+
+    await waitFor(() => {
+      expect(searchService.search).toHaveBeenLastCalledWith('ConfigureAwait', { categories: [], tags: ['tasks'] });
+    });
+    expect(screen.getByRole('button', { name: /#tasks/ })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should say when nothing matches or search fails', async () => {
+    renderPanel();
+
+    vi.mocked(searchService.search).mockResolvedValueOnce({ ...results, hits: [], totalHits: 0 });
+    typeQuery('nothing');
+    expect(await screen.findByText('No questions match.')).toBeInTheDocument();
+
+    vi.mocked(searchService.search).mockRejectedValueOnce(new Error('offline'));
+    typeQuery('again');
+    expect(await screen.findByText('Search is unavailable right now.')).toBeInTheDocument();
+  });
+
+  it('should close on Escape and with the close button', () => {
+    const { onClose } = renderPanel();
+
+    fireEvent.keyDown(screen.getByRole('searchbox', { name: 'Search query' }), { key: 'Escape' });
+    fireEvent.click(screen.getByRole('button', { name: 'Close search' }));
+
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { SessionCompleteComponent } from '../../src/components/SessionCompleteComponent';
+import type { SessionSummary } from '../../src/interfaces/services/ISessionSummaryService';
+
+vi.mock('../../src/components/SessionCompleteComponent.css', () => ({}));
+
+const createSummary = (overrides: Partial<SessionSummary> = {}): SessionSummary => ({
+  totalQuestions: 4,
+  answeredCount: 3,
+  correctCount: 2,
+  score: 2,
+  scorePercentage: 67,
+  durationMs: 185000,
+  byCategory: [
+    { group: 'basics', correct: 2, score: 2, answered: 2, total: 2, percentage: 100 },
+    { group: 'oop', correct: 0, score: 0, answered: 1, total: 2, percentage: 0 }
+  ],
+  byDifficulty: [
+    { group: 'easy', correct: 2, score: 2, answered: 2, total: 3, percentage: 100 },
+    { group: 'hard', correct: 0, score: 0, answered: 1, total: 1, percentage: 0 }
+  ],
+  incorrectQuestionIds: ['q3'],
+  ...overrides
+});
+
+describe('SessionCompleteComponent', () => {
+  it('should show the score, time taken and accuracy breakdowns', () => {
+    render(<SessionCompleteComponent summary={createSummary()} onReviewIncorrect={vi.fn()} />);
+
+    expect(screen.getByText('2 / 3 correct (67%)')).toBeInTheDocument();
+    expect(screen.getByText(/Time taken: 3:05/)).toHaveTextContent('1 not answered');
+    expect(screen.getByRole('table', { name: 'Accuracy by category' })).toHaveTextContent('oop0 / 10%');
+    expect(screen.getByRole('table', { name: 'Accuracy by difficulty' })).toHaveTextContent('easy2 / 2100%');
+  });
+
+  it('should show points when some answers earned partial credit', () => {
+    render(
+      <SessionCompleteComponent
+        summary={createSummary({ score: 2.5, scorePercentage: 83 })}
+        onReviewIncorrect={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('2.5 / 3 points (83%)')).toBeInTheDocument();
+    expect(screen.getByText(/2 fully correct/)).toBeInTheDocument();
+  });
+
+  it('should offer a review of incorrect answers', () => {
+    const onReviewIncorrect = vi.fn();
+    render(<SessionCompleteComponent summary={createSummary()} onReviewIncorrect={onReviewIncorrect} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Review 1 incorrect answer' }));
+
+    expect(onReviewIncorrect).toHaveBeenCalled();
+  });
+
+  it('should disable the review button while the review is being prepared', () => {
+    render(<SessionCompleteComponent summary={createSummary()} onReviewIncorrect={vi.fn()} isStartingReview />);
+
+    expect(screen.getByRole('button', { name: 'Preparing review...' })).toBeDisabled();
+  });
+
+  it('should not offer a review when every answer was correct', () => {
+    render(
+      <SessionCompleteComponent
+        summary={createSummary({ incorrectQuestionIds: [] })}
+        onReviewIncorrect={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(screen.getByText('No incorrect answers to review.')).toBeInTheDocument();
+  });
+
+  it('should offer to choose other topics when a handler is given', () => {
+    const onChooseTopics = vi.fn();
+    render(
+      <SessionCompleteComponent
+        summary={createSummary({ incorrectQuestionIds: [] })}
+        onReviewIncorrect={vi.fn()}
+        onChooseTopics={onChooseTopics}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Choose topics' }));
+
+    expect(onChooseTopics).toHaveBeenCalled();
+  });
+});
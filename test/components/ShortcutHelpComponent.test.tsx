@@ -0,0 +1,91 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ShortcutHelpComponent } from '../../src/components/ShortcutHelpComponent';
+import { ShortcutService } from '../../src/services/shortcuts/ShortcutService';
+
+vi.mock('../../src/components/ShortcutHelpComponent.css', () => ({}));
+
+describe('ShortcutHelpComponent', () => {
+  let shortcutService: ShortcutService;
+  let onClose: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    shortcutService = new ShortcutService();
+    onClose = vi.fn();
+  });
+
+  const renderHelp = () => render(
+    <ShortcutHelpComponent shortcutService={shortcutService} scope="question" onClose={onClose} />
+  );
+
+  const rowOf = (description: string): HTMLElement => screen.getByText(description).closest('li')!;
+
+  it('should list the shortcuts of each view with their keys', () => {
+    renderHelp();
+
+    expect(screen.getByRole('heading', { name: 'While answering' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'On the explanation' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Anywhere' })).toBeInTheDocument();
+    expect(within(rowOf('Select or clear option 1')).getAllByText(/^[1A]$/).map(key => key.textContent)).toEqual(['1', 'A']);
+    expect(within(rowOf('Submit the answer')).getByText('Enter')).toBeInTheDocument();
+    expect(within(rowOf('Go to the next question')).getByText('N')).toBeInTheDocument();
+  });
+
+  it('should bind the next key pressed after Change', async () => {
+    renderHelp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Change the key to go to the next question' }));
+    expect(screen.getByText('Press a key…')).toBeInTheDocument();
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'J' });
+
+    await waitFor(() => {
+      expect(within(rowOf('Go to the next question')).getByText('J')).toBeInTheDocument();
+    });
+    expect(shortcutService.getBindings().next).toEqual(['j']);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should explain why a key cannot be used', async () => {
+    renderHelp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Change the key to submit the answer' }));
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'a' });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('A is already used to "Select or clear option 1"');
+    expect(shortcutService.getBindings().submit).toEqual(['Enter']);
+  });
+
+  it('should cancel remapping with Escape', () => {
+    renderHelp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Change the key to redo the question' }));
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+    expect(screen.queryByText('Press a key…')).not.toBeInTheDocument();
+    expect(shortcutService.getBindings().redo).toEqual(['r']);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('should restore the default keys', async () => {
+    await shortcutService.remap('next', ['j']);
+    renderHelp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore default keys' }));
+
+    await waitFor(() => {
+      expect(within(rowOf('Go to the next question')).getByText('N')).toBeInTheDocument();
+    });
+  });
+
+  it('should close on Escape, the help key and the close button', () => {
+    renderHelp();
+    const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+
+    fireEvent.keyDown(dialog, { key: 'Escape' });
+    fireEvent.keyDown(dialog, { key: '?' });
+    fireEvent.click(screen.getByRole('button', { name: 'Close shortcuts' }));
+
+    expect(onClose).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,170 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ExamComponent } from '../../../src/components/exam/ExamComponent';
+import type { IExamSession, ExamSummary } from '../../../src/interfaces/services/IExamSession';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+
+vi.mock('../../../src/components/exam/ExamComponent.css', () => ({}));
+
+const mockQuestion = {
+  id: 'q1',
+  type: 'multiple-choice',
+  text: 'Which keyword declares a class?',
+  options: [
+    { id: 'a', text: 'class' },
+    { id: 'b', text: 'struct' }
+  ],
+  category: 'basics',
+  difficulty: 'easy',
+  explanation: 'Classes use the class keyword',
+  getCorrectAnswers: () => [0],
+  hasMultipleCorrectAnswers: () => false
+} as unknown as IQuestion;
+
+const mockSummary: ExamSummary = {
+  totalQuestions: 3,
+  correctCount: 2,
+  answeredCount: 2,
+  timedOutCount: 1,
+  scorePercentage: 67,
+  durationMs: 95000,
+  timeLimitMode: 'per-question',
+  categoryScores: [
+    { category: 'basics', correct: 2, total: 2, percentage: 100 },
+    { category: 'oop', correct: 0, total: 1, percentage: 0 }
+  ],
+  results: [
+    {
+      questionId: 'q1',
+      text: 'Which keyword declares a class?',
+      category: 'basics',
+      options: ['class', 'struct'],
+      status: 'answered',
+      isCorrect: true,
+      selectedAnswers: [0],
+      correctAnswers: [0],
+      explanation: 'Classes use the class keyword',
+      timeSpentMs: 12000
+    }
+  ]
+};
+
+const createMockSession = (): IExamSession => ({
+  start: vi.fn().mockResolvedValue(undefined),
+  getCurrentQuestion: vi.fn().mockReturnValue(mockQuestion),
+  getCurrentIndex: vi.fn().mockReturnValue(0),
+  getTotalCount: vi.fn().mockReturnValue(3),
+  getRemainingMs: vi.fn().mockReturnValue(30000),
+  checkTime: vi.fn(),
+  isCurrentLocked: vi.fn().mockReturnValue(false),
+  submitAnswer: vi.fn(),
+  moveToNext: vi.fn().mockReturnValue(true),
+  finish: vi.fn().mockReturnValue(mockSummary),
+  isFinished: vi.fn().mockReturnValue(false),
+  getSummary: vi.fn().mockReturnValue(null)
+});
+
+describe('ExamComponent', () => {
+  let session: IExamSession;
+  let onExit: ReturnType<typeof vi.fn>;
+
+  const startExam = async () => {
+    render(<ExamComponent createExamSession={() => session} onExit={onExit} />);
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Start exam' }));
+    });
+  };
+
+  beforeEach(() => {
+    session = createMockSession();
+    onExit = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start an exam with the chosen settings', async () => {
+    render(<ExamComponent createExamSession={() => session} onExit={onExit} />);
+
+    fireEvent.change(screen.getByLabelText('Number of questions'), { target: { value: '5' } });
+    fireEvent.change(screen.getByLabelText('Time limit applies to'), { target: { value: 'total' } });
+    fireEvent.change(screen.getByLabelText('Time limit (seconds)'), { target: { value: '300' } });
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Start exam' }));
+    });
+
+    expect(session.start).toHaveBeenCalledWith({ questionCount: 5, timeLimitMode: 'total', timeLimitSeconds: 300 });
+    expect(screen.getByText('Which keyword declares a class?')).toBeInTheDocument();
+    expect(screen.getByText('Question 1 of 3')).toBeInTheDocument();
+    expect(screen.getByRole('timer')).toHaveTextContent('0:30');
+  });
+
+  it('should show start failures inline', async () => {
+    vi.mocked(session.start).mockRejectedValue(new Error('No questions match the deck filter'));
+
+    await startExam();
+
+    expect(screen.getByRole('alert')).toHaveTextContent('No questions match the deck filter');
+  });
+
+  it('should record the selected answer without revealing the explanation', async () => {
+    vi.mocked(session.submitAnswer).mockImplementation(() => {
+      vi.mocked(session.isCurrentLocked).mockReturnValue(true);
+    });
+    await startExam();
+
+    fireEvent.click(screen.getByRole('button', { name: 'class' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit answer' }));
+
+    expect(session.submitAnswer).toHaveBeenCalledWith([0]);
+    expect(screen.getByRole('status')).toHaveTextContent('Answer recorded.');
+    expect(screen.getByRole('button', { name: 'class' })).toBeDisabled();
+    expect(screen.queryByText('Classes use the class keyword')).not.toBeInTheDocument();
+  });
+
+  it('should lock the question instead of submitting once time has run out', async () => {
+    await startExam();
+
+    fireEvent.click(screen.getByRole('button', { name: 'class' }));
+    vi.mocked(session.isCurrentLocked).mockReturnValue(true);
+    vi.mocked(session.getRemainingMs).mockReturnValue(0);
+    fireEvent.click(screen.getByRole('button', { name: 'Submit answer' }));
+
+    expect(session.checkTime).toHaveBeenCalled();
+    expect(session.submitAnswer).not.toHaveBeenCalled();
+    expect(screen.getByRole('status')).toHaveTextContent("Time's up — this question is locked.");
+  });
+
+  it('should show the results report after the last question', async () => {
+    vi.mocked(session.getCurrentIndex).mockReturnValue(2);
+    vi.mocked(session.moveToNext).mockReturnValue(false);
+    await startExam();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Finish exam' }));
+
+    expect(session.finish).toHaveBeenCalled();
+    expect(screen.getByText('2 / 3 correct (67%)')).toBeInTheDocument();
+    expect(screen.getByRole('row', { name: /basics/ })).toHaveTextContent('2 / 2100%');
+    expect(screen.getByRole('row', { name: /oop/ })).toHaveTextContent('0 / 10%');
+    expect(screen.getByText('Classes use the class keyword')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to practice' }));
+    expect(onExit).toHaveBeenCalled();
+  });
+
+  it('should end the exam when the countdown finishes it', async () => {
+    vi.useFakeTimers();
+    await startExam();
+
+    vi.mocked(session.isFinished).mockReturnValue(true);
+    vi.mocked(session.getSummary).mockReturnValue(mockSummary);
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+
+    expect(session.checkTime).toHaveBeenCalled();
+    expect(screen.getByRole('region', { name: 'Exam results' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,198 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StudyModeFactory, createDefaultStudyModeFactory } from '../../../src/components/study-modes/StudyModeFactory';
+import { AbstractStudyMode, type StudyModeProps } from '../../../src/components/study-modes/AbstractStudyMode';
+import { MultipleChoiceStudyMode } from '../../../src/components/study-modes/MultipleChoiceStudyMode';
+import { FlipCardStudyMode } from '../../../src/components/study-modes/FlipCardStudyMode';
+import { PredictOutputStudyMode } from '../../../src/components/study-modes/PredictOutputStudyMode';
+import { FlipCardQuestion } from '../../../src/models/FlipCardQuestion';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { PredictOutputQuestion } from '../../../src/models/PredictOutputQuestion';
+import { CodeExample } from '../../../src/models/CodeExample';
+import { Option } from '../../../src/models/Option';
+import type { IAnswerManager } from '../../../src/interfaces/services/IAnswerManager';
+import { ValidatorFactory } from '../../../src/services/study-modes/ValidatorFactory';
+import { FlipCardValidator } from '../../../src/services/study-modes/FlipCardValidator';
+import { MultipleChoiceValidator } from '../../../src/services/study-modes/MultipleChoiceValidator';
+
+const flipCard = new FlipCardQuestion('fc-1', 'What is a variable?', 'A named storage location', '', 'basics', 'easy');
+const multipleChoice = new MultipleChoiceQuestion(
+  'mc-1', 'Pick A', [new Option('a', 'A'), new Option('b', 'B')], [0], 'A is right', 'basics', 'easy'
+);
+const predictOutput = new PredictOutputQuestion(
+  'po-1', 'What does this print?', 'Sum of 1 and 2', 'basics', 'easy',
+  new CodeExample('Console.WriteLine(1 + 2);', 'csharp', '3')
+);
+
+const createMockAnswerManager = (): IAnswerManager => ({
+  submitAnswer: vi.fn(),
+  submitOutput: vi.fn(),
+  recordSelfAssessment: vi.fn(),
+  getAnswerState: vi.fn(() => null),
+  resetAnswer: vi.fn(),
+  isAnswered: vi.fn(() => false),
+  getOutputComparison: vi.fn(() => null),
+  getSelectedOptions: vi.fn(() => [])
+});
+
+const createProps = (overrides: Partial<StudyModeProps> = {}): StudyModeProps => ({
+  question: flipCard,
+  answerManager: createMockAnswerManager(),
+  answerResult: null,
+  onAnswerSubmitted: vi.fn(),
+  onNextQuestion: vi.fn(),
+  onRedoQuestion: vi.fn(),
+  onError: vi.fn(),
+  ...overrides
+});
+
+describe('StudyModeFactory', () => {
+  it('should resolve the built-in mode for each question type', () => {
+    const factory = createDefaultStudyModeFactory();
+
+    expect(factory.getStudyMode(multipleChoice)).toBeInstanceOf(MultipleChoiceStudyMode);
+    expect(factory.getStudyMode(flipCard)).toBeInstanceOf(FlipCardStudyMode);
+    expect(factory.getStudyMode(predictOutput)).toBeInstanceOf(PredictOutputStudyMode);
+    expect(factory.getSupportedTypes()).toEqual(['multiple-choice', 'flip-card', 'predict-output']);
+  });
+
+  it('should return null when no mode is registered for the question type', () => {
+    const factory = new StudyModeFactory();
+
+    expect(factory.getStudyMode(flipCard)).toBeNull();
+    expect(factory.isSupported('flip-card')).toBe(false);
+  });
+
+  it('should let a registered mode replace the built-in one', () => {
+    class CustomFlipCardMode extends AbstractStudyMode {
+      readonly questionType = 'flip-card' as const;
+      readonly displayName = 'Custom';
+
+      render(): React.ReactElement {
+        return <div>custom mode</div>;
+      }
+    }
+    const factory = createDefaultStudyModeFactory();
+    const customMode = new CustomFlipCardMode();
+
+    factory.register(customMode);
+
+    expect(factory.getStudyMode(flipCard)).toBe(customMode);
+  });
+
+  it('should hand out validators from the validator registry', () => {
+    const factory = createDefaultStudyModeFactory();
+
+    expect(factory.getValidator(flipCard)).toBeInstanceOf(FlipCardValidator);
+    expect(factory.getValidator(multipleChoice)).toBeInstanceOf(MultipleChoiceValidator);
+    expect(factory.getValidator(predictOutput)).toBeNull();
+  });
+
+  it('should use validators registered after the factory was created', () => {
+    const validators = new ValidatorFactory();
+    const factory = createDefaultStudyModeFactory(validators);
+    const customValidator = new FlipCardValidator();
+
+    validators.registerValidator('flip-card', () => customValidator);
+
+    expect(factory.getValidator(flipCard)).toBe(customValidator);
+  });
+});
+
+describe('FlipCardStudyMode', () => {
+  let props: StudyModeProps;
+
+  beforeEach(() => {
+    props = createProps();
+  });
+
+  it('should record a known card through the answer manager and move on', () => {
+    render(new FlipCardStudyMode().render(props));
+
+    fireEvent.click(screen.getByRole('button', { name: /Revision card/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Knew it/ }));
+
+    expect(props.answerManager.recordSelfAssessment).toHaveBeenCalledWith('fc-1', true);
+    expect(props.onNextQuestion).toHaveBeenCalled();
+  });
+
+  it('should record an unknown card', () => {
+    render(new FlipCardStudyMode().render(props));
+
+    fireEvent.click(screen.getByRole('button', { name: /Revision card/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Didn't know/ }));
+
+    expect(props.answerManager.recordSelfAssessment).toHaveBeenCalledWith('fc-1', false);
+  });
+
+  it('should grade the card with the registered validator', () => {
+    const validator = new FlipCardValidator();
+    vi.spyOn(validator, 'validateAnswer').mockReturnValue({
+      isCorrect: false,
+      score: 0,
+      maxScore: 1,
+      feedback: '',
+      explanation: '',
+      difficultyBonus: 0,
+      timeBonus: 0,
+      timePenalty: 0
+    });
+    props = createProps({ validator });
+    render(new FlipCardStudyMode().render(props));
+
+    fireEvent.click(screen.getByRole('button', { name: /Revision card/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Knew it/ }));
+
+    expect(validator.validateAnswer).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'fc-1', type: 'flip-card' }),
+      expect.objectContaining({ questionId: 'fc-1', userAnswer: { known: true } })
+    );
+    expect(props.answerManager.recordSelfAssessment).toHaveBeenCalledWith('fc-1', false);
+  });
+
+  it('should report recording failures through onError', () => {
+    vi.mocked(props.answerManager.recordSelfAssessment).mockImplementation(() => {
+      throw new Error('No current question available');
+    });
+    render(new FlipCardStudyMode().render(props));
+
+    fireEvent.click(screen.getByRole('button', { name: /Revision card/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Knew it/ }));
+
+    expect(props.onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'No current question available' }));
+    expect(props.onNextQuestion).not.toHaveBeenCalled();
+  });
+});
+
+describe('PredictOutputStudyMode', () => {
+  it('should ask for the output until it is submitted', () => {
+    const props = createProps({ question: predictOutput });
+
+    render(new PredictOutputStudyMode().render(props));
+    fireEvent.change(screen.getByLabelText('What does this code print?'), { target: { value: '3' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Output' }));
+
+    expect(props.answerManager.submitOutput).toHaveBeenCalledWith('po-1', '3');
+  });
+
+  it('should show the output diff once submitted', () => {
+    const props = createProps({
+      question: predictOutput,
+      answerResult: {
+        isCorrect: true,
+        score: 1,
+        correctAnswers: [],
+        explanation: 'Sum of 1 and 2',
+        selectedAnswers: [],
+        submittedOutput: '3',
+        outputComparison: { isMatch: true, lines: [{ kind: 'match', text: '3' }] }
+      }
+    });
+
+    render(new PredictOutputStudyMode().render(props));
+
+    expect(screen.getByText('Your Output')).toBeInTheDocument();
+    expect(screen.queryByLabelText('What does this code print?')).not.toBeInTheDocument();
+  });
+});
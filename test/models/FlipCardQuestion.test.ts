@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { FlipCardQuestion } from '../../src/models/FlipCardQuestion';
+import { CodeExample } from '../../src/models/CodeExample';
+import { isFlipCardQuestion } from '../../src/interfaces/domain';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../src/models/Option';
+
+describe('FlipCardQuestion', () => {
+  describe('constructor', () => {
+    it('should create a valid flip card', () => {
+      const codeExample = new CodeExample('var x = 5;', 'csharp');
+      const question = new FlipCardQuestion(
+        ' fc1 ',
+        ' What is a variable? ',
+        ' A named storage location ',
+        'Variables hold values',
+        'basics',
+        'easy',
+        codeExample
+      );
+
+      expect(question.id).toBe('fc1');
+      expect(question.type).toBe('flip-card');
+      expect(question.text).toBe('What is a variable?');
+      expect(question.answer).toBe('A named storage location');
+      expect(question.explanation).toBe('Variables hold values');
+      expect(question.category).toBe('basics');
+      expect(question.difficulty).toBe('easy');
+      expect(question.codeExample).toBe(codeExample);
+    });
+
+    it('should allow an empty explanation', () => {
+      const question = new FlipCardQuestion('fc1', 'Question?', 'Answer', '', 'basics', 'easy');
+
+      expect(question.explanation).toBe('');
+    });
+
+    it('should reject missing required fields', () => {
+      expect(() => new FlipCardQuestion('', 'Question?', 'Answer', '', 'basics', 'easy'))
+        .toThrow('Question ID cannot be empty');
+      expect(() => new FlipCardQuestion('fc1', ' ', 'Answer', '', 'basics', 'easy'))
+        .toThrow('Question text cannot be empty');
+      expect(() => new FlipCardQuestion('fc1', 'Question?', '', '', 'basics', 'easy'))
+        .toThrow('Flip-card answer cannot be empty');
+      expect(() => new FlipCardQuestion('fc1', 'Question?', 'Answer', '', '', 'easy'))
+        .toThrow('Question category cannot be empty');
+    });
+  });
+
+  it('should have no options or correct answers', () => {
+    const question = new FlipCardQuestion('fc1', 'Question?', 'Answer', '', 'basics', 'easy');
+
+    expect(question.options).toEqual([]);
+    expect(question.getCorrectAnswers()).toEqual([]);
+    expect(question.hasMultipleCorrectAnswers()).toBe(false);
+  });
+
+  it('should be recognised by the isFlipCardQuestion type guard', () => {
+    const flipCard = new FlipCardQuestion('fc1', 'Question?', 'Answer', '', 'basics', 'easy');
+    const multipleChoice = new MultipleChoiceQuestion(
+      'mc1', 'Question?', [new Option('a', 'A')], [0], 'Because', 'basics', 'easy'
+    );
+
+    expect(isFlipCardQuestion(flipCard)).toBe(true);
+    expect(isFlipCardQuestion(multipleChoice)).toBe(false);
+  });
+});
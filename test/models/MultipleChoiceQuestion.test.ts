@@ -247,12 +247,49 @@ describe('MultipleChoiceQuestion', () => {
       expect(question.difficulty).toBe('medium');
     });
 
+    it('should default metadata when none is supplied', () => {
+      expect(question.subcategory).toBe('');
+      expect(question.tags).toEqual([]);
+      expect(question.difficultyLevel).toBe(5);
+    });
+
     it('should return code example when present', () => {
       expect(question.codeExample).toBeDefined();
       expect(question.codeExample?.language).toBe('csharp');
     });
   });
 
+  describe('metadata', () => {
+    it('should expose subcategory, tags and numeric difficulty', () => {
+      const question = new MultipleChoiceQuestion(
+        'q1', 'What is the output?', validOptions, [0], 'Because', 'basics', 'hard', undefined,
+        { subcategory: ' strings ', tags: ['formatting', ' formatting ', ''], difficultyLevel: 9 }
+      );
+
+      expect(question.subcategory).toBe('strings');
+      expect(question.tags).toEqual(['formatting']);
+      expect(question.difficultyLevel).toBe(9);
+    });
+
+    it('should return immutable tags array', () => {
+      const question = new MultipleChoiceQuestion(
+        'q1', 'What is the output?', validOptions, [0], 'Because', 'basics', 'hard', undefined,
+        { tags: ['formatting'] }
+      );
+
+      question.tags.push('mutated');
+
+      expect(question.tags).toEqual(['formatting']);
+    });
+
+    it('should throw error for difficulty level outside 1-10', () => {
+      expect(() => new MultipleChoiceQuestion(
+        'q1', 'What is the output?', validOptions, [0], 'Because', 'basics', 'hard', undefined,
+        { difficultyLevel: 11 }
+      )).toThrow('Question difficulty level 11 must be between 1 and 10');
+    });
+  });
+
   describe('getCorrectAnswers', () => {
     it('should return immutable correct answers array', () => {
       const question = new MultipleChoiceQuestion(
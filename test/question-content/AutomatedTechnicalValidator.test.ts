@@ -1,498 +0,0 @@
-import { describe, it, expect } from 'vitest';
-import { glob } from 'glob';
-import path from 'path';
-import fs from 'fs';
-
-/**
- * Automated Technical Accuracy Validator
- * 
- * This test suite automatically validates ALL questions without manual test cases.
- * Simply add new questions to JSON files - tests run automatically!
- * 
- * Features:
- * - Loads all question files dynamically
- * - Validates code execution for any programming language
- * - Checks output format consistency
- * - Verifies answer option plausibility
- * - Scales to unlimited questions
- */
-
-interface QuestionFile {
-  questions: Array<{
-    id: string;
-    question: string;
-    type: string;
-    codeExample?: {
-      code: string;
-      language: string;
-      output?: string;
-    };
-    options?: Array<{
-      id: string;
-      text: string;
-      explanation?: string;
-    }>;
-    correctAnswerIndex?: number;
-    correctAnswerIndices?: number[];
-    explanation: string;
-  }>;
-}
-
-/**
- * C# Code Execution Simulator
- * Automatically executes common C# patterns and returns expected output
- */
-class CSharpExecutionSimulator {
-  
-  static simulate(code: string): string {
-    try {
-      // Remove comments and normalize code
-      const cleanCode = code
-        .replace(/\/\/.*$/gm, '')  // Remove single-line comments
-        .replace(/\/\*[\s\S]*?\*\//gm, '')  // Remove multi-line comments
-        .trim();
-
-      // Extract Console.WriteLine statements
-      const consoleStatements = this.extractConsoleStatements(cleanCode);
-      
-      // Simulate execution environment
-      const executionContext = this.createExecutionContext(cleanCode);
-      
-      // Execute each Console.WriteLine and collect output
-      const outputs: string[] = [];
-      for (const statement of consoleStatements) {
-        const output = this.executeConsoleStatement(statement, executionContext);
-        outputs.push(output);
-      }
-      
-      return outputs.join('\n');
-    } catch (error) {
-      console.warn(`Could not simulate C# code: ${error}`);
-      return '';
-    }
-  }
-
-  private static extractConsoleStatements(code: string): string[] {
-    const consoleRegex = /Console\.WriteLine\s*\([^)]*\);?/g;
-    return code.match(consoleRegex) || [];
-  }
-
-  private static createExecutionContext(code: string): Record<string, any> {
-    const context: Record<string, any> = {};
-    
-    // Parse variable declarations and assignments
-    this.parseVariableDeclarations(code, context);
-    this.parseArrayDeclarations(code, context);
-    this.parseAssignments(code, context);
-    
-    return context;
-  }
-
-  private static parseVariableDeclarations(code: string, context: Record<string, any>) {
-    // Match: int x = 5; string name = "John"; etc.
-    const varRegex = /(?:int|string|bool|double|decimal|float)\s+(\w+)\s*=\s*([^;]+);/g;
-    let match;
-    
-    while ((match = varRegex.exec(code)) !== null) {
-      const [, varName, value] = match;
-      context[varName] = this.parseValue(value.trim());
-    }
-  }
-
-  private static parseArrayDeclarations(code: string, context: Record<string, any>) {
-    // Match: int[] arr = {1, 2, 3}; int[] arr2 = arr1;
-    const arrayInitRegex = /(\w+)\[\]\s+(\w+)\s*=\s*\{([^}]+)\};/g;
-    const arrayAssignRegex = /(\w+)\[\]\s+(\w+)\s*=\s*(\w+);/g;
-    
-    let match;
-    
-    // Array initializations
-    while ((match = arrayInitRegex.exec(code)) !== null) {
-      const [, , arrayName, values] = match;
-      const parsedValues = values.split(',').map(v => this.parseValue(v.trim()));
-      context[arrayName] = parsedValues;
-    }
-    
-    // Array assignments (reference copying)
-    while ((match = arrayAssignRegex.exec(code)) !== null) {
-      const [, , newArrayName, sourceArrayName] = match;
-      if (context[sourceArrayName]) {
-        context[newArrayName] = context[sourceArrayName]; // Reference copy
-      }
-    }
-  }
-
-  private static parseAssignments(code: string, context: Record<string, any>) {
-    // Match: x = 10; y += 5; arr[0] = 20;
-    const assignRegex = /(\w+)(?:\[(\d+)\])?\s*([\+\-\*\/]?=)\s*([^;]+);/g;
-    let match;
-    
-    while ((match = assignRegex.exec(code)) !== null) {
-      const [, varName, index, operator, value] = match;
-      
-      if (index !== undefined) {
-        // Array assignment: arr[0] = 20
-        if (context[varName] && Array.isArray(context[varName])) {
-          const idx = parseInt(index);
-          const parsedValue = this.parseValue(value.trim());
-          context[varName][idx] = parsedValue;
-        }
-      } else {
-        // Variable assignment
-        const parsedValue = this.parseValue(value.trim());
-        
-        if (operator === '=') {
-          context[varName] = parsedValue;
-        } else if (operator === '+=' && typeof context[varName] === 'string') {
-          context[varName] += parsedValue;
-        } else if (operator === '+=') {
-          context[varName] = (context[varName] || 0) + parsedValue;
-        }
-      }
-    }
-  }
-
-  private static parseValue(value: string): any {
-    value = value.trim().replace(/['"]/g, ''); // Remove quotes
-    
-    if (value === 'null') return null;
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    if (/^\d+$/.test(value)) return parseInt(value);
-    if (/^\d*\.\d+$/.test(value)) return parseFloat(value);
-    
-    return value; // String
-  }
-
-  private static executeConsoleStatement(statement: string, context: Record<string, any>): string {
-    // Extract the content inside Console.WriteLine(...)
-    const contentMatch = statement.match(/Console\.WriteLine\s*\(([^)]+)\)/);
-    if (!contentMatch) return '';
-    
-    const content = contentMatch[1].trim();
-    
-    // Handle string interpolation: $"x: {x}, y: {y}"
-    if (content.startsWith('$"') && content.endsWith('"')) {
-      return this.processStringInterpolation(content, context);
-    }
-    
-    // Handle regular string: "Hello World"
-    if (content.startsWith('"') && content.endsWith('"')) {
-      return content.slice(1, -1); // Remove quotes
-    }
-    
-    // Handle variable reference: Console.WriteLine(x)
-    const varName = content.trim();
-    return String(context[varName] || '');
-  }
-
-  private static processStringInterpolation(interpolatedString: string, context: Record<string, any>): string {
-    // Remove $" and ending "
-    let content = interpolatedString.slice(2, -1);
-    
-    // Replace {variable} with actual values
-    content = content.replace(/\{([^}]+)\}/g, (match, expression) => {
-      const value = this.evaluateExpression(expression.trim(), context);
-      return String(value);
-    });
-    
-    return content;
-  }
-
-  private static evaluateExpression(expression: string, context: Record<string, any>): any {
-    // Handle array access: arr[0]
-    const arrayMatch = expression.match(/(\w+)\[(\d+)\]/);
-    if (arrayMatch) {
-      const [, arrayName, index] = arrayMatch;
-      const array = context[arrayName];
-      return Array.isArray(array) ? array[parseInt(index)] : '';
-    }
-    
-    // Handle method calls: obj.GetType().Name
-    if (expression.includes('.GetType().Name')) {
-      const varName = expression.split('.')[0];
-      const value = context[varName];
-      if (typeof value === 'number') return 'Int32';
-      if (typeof value === 'string') return 'String';
-      if (typeof value === 'boolean') return 'Boolean';
-      return 'Object';
-    }
-    
-    // Handle nullable checks: nullableInt.HasValue
-    if (expression.includes('.HasValue')) {
-      const varName = expression.split('.')[0];
-      return context[varName] !== null && context[varName] !== undefined;
-    }
-    
-    // Handle simple variable
-    return context[expression] || '';
-  }
-}
-
-/**
- * Question Validation Rules Engine
- */
-class QuestionValidationRules {
-  
-  static validateQuestion(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    // Rule 1: Required fields
-    if (!question.id) errors.push('Question must have an ID');
-    if (!question.question) errors.push('Question must have question text');
-    if (!question.explanation) errors.push('Question must have explanation');
-    
-    // Rule 2: Multiple choice specific validation
-    if (question.type === 'multiple-choice') {
-      if (!question.options || question.options.length < 2) {
-        errors.push('Multiple choice questions must have at least 2 options');
-      }
-      
-      if (question.correctAnswerIndex === undefined && !question.correctAnswerIndices) {
-        errors.push('Multiple choice questions must specify correct answer(s)');
-      }
-      
-      // Rule 3: Answer bounds checking
-      if (question.correctAnswerIndex !== undefined) {
-        if (question.correctAnswerIndex >= question.options.length) {
-          errors.push(`Correct answer index ${question.correctAnswerIndex} is out of bounds`);
-        }
-      }
-    }
-    
-    // Rule 4: Code example validation
-    if (question.codeExample) {
-      if (!question.codeExample.code) {
-        errors.push('Code example must have code content');
-      }
-      if (!question.codeExample.language) {
-        errors.push('Code example must specify language');
-      }
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-  
-  static validateCodeExecution(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (!question.codeExample) return { isValid: true, errors };
-    
-    const { code, language, output } = question.codeExample;
-    
-    // Only validate C# for now
-    if (language !== 'csharp') return { isValid: true, errors };
-    
-    try {
-      const simulatedOutput = CSharpExecutionSimulator.simulate(code);
-      
-      if (output && simulatedOutput !== output) {
-        errors.push(`Code execution mismatch: expected "${output}", got "${simulatedOutput}"`);
-      }
-      
-      // Validate Console.WriteLine count matches output lines
-      const consoleCount = (code.match(/Console\.WriteLine/g) || []).length;
-      const outputLines = output ? output.split('\n').length : 0;
-      
-      if (consoleCount !== outputLines) {
-        errors.push(`Output line count mismatch: ${consoleCount} Console.WriteLine statements but ${outputLines} output lines`);
-      }
-      
-    } catch (error) {
-      errors.push(`Code execution simulation failed: ${error}`);
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-  
-  static validateAnswerOptions(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (question.type !== 'multiple-choice' || !question.options) {
-      return { isValid: true, errors };
-    }
-    
-    // Check for duplicate answer texts
-    const answerTexts = question.options.map((opt: any) => opt.text);
-    const uniqueTexts = new Set(answerTexts);
-    if (answerTexts.length !== uniqueTexts.size) {
-      errors.push('Answer options contain duplicates');
-    }
-    
-    // Check for reasonable option length
-    for (const option of question.options) {
-      if (!option.text || option.text.trim().length === 0) {
-        errors.push('All options must have text content');
-      }
-      if (option.text.length > 500) {
-        errors.push(`Option text too long: ${option.text.substring(0, 50)}...`);
-      }
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-}
-
-describe('Automated Technical Accuracy Validator', () => {
-  
-  let allQuestions: Array<{ file: string; question: any }> = [];
-  
-  beforeAll(async () => {
-    // Dynamically load ALL question files
-    const questionFiles = glob.sync('public/data/questions/**/*.json');
-    
-    for (const filePath of questionFiles) {
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const questionFile: QuestionFile = JSON.parse(content);
-        
-        for (const question of questionFile.questions) {
-          allQuestions.push({ file: filePath, question });
-        }
-      } catch (error) {
-        console.warn(`Failed to load question file ${filePath}:`, error);
-      }
-    }
-    
-    console.log(`Loaded ${allQuestions.length} questions from ${questionFiles.length} files`);
-  });
-  
-  describe('Data Structure Validation', () => {
-    it('should validate all questions have required fields', () => {
-      const failures: Array<{ id: string; errors: string[] }> = [];
-      
-      for (const { question } of allQuestions) {
-        const validation = QuestionValidationRules.validateQuestion(question);
-        if (!validation.isValid) {
-          failures.push({ id: question.id, errors: validation.errors });
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('Question validation failures:', failures);
-        expect(failures).toHaveLength(0);
-      }
-    });
-    
-    it('should validate all answer options are properly formatted', () => {
-      const failures: Array<{ id: string; errors: string[] }> = [];
-      
-      for (const { question } of allQuestions) {
-        if (question.type === 'multiple-choice') {
-          const validation = QuestionValidationRules.validateAnswerOptions(question);
-          if (!validation.isValid) {
-            failures.push({ id: question.id, errors: validation.errors });
-          }
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('Answer option validation failures:', failures);
-        expect(failures).toHaveLength(0);
-      }
-    });
-  });
-  
-  describe('Technical Accuracy Validation', () => {
-    it('should validate all C# code examples produce correct output', () => {
-      const failures: Array<{ id: string; errors: string[] }> = [];
-      
-      for (const { question } of allQuestions) {
-        if (question.codeExample?.language === 'csharp') {
-          const validation = QuestionValidationRules.validateCodeExecution(question);
-          if (!validation.isValid) {
-            failures.push({ id: question.id, errors: validation.errors });
-          }
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('Code execution validation failures:', failures);
-        expect(failures).toHaveLength(0);
-      }
-    });
-    
-    it('should validate Console.WriteLine count matches output lines', () => {
-      let checkedQuestions = 0;
-      const failures: Array<{ id: string; error: string }> = [];
-      
-      for (const { question } of allQuestions) {
-        if (question.codeExample?.language === 'csharp' && question.codeExample.output) {
-          checkedQuestions++;
-          
-          const consoleCount = (question.codeExample.code.match(/Console\.WriteLine/g) || []).length;
-          const outputLines = question.codeExample.output.split('\n').length;
-          
-          if (consoleCount !== outputLines) {
-            failures.push({
-              id: question.id,
-              error: `${consoleCount} Console.WriteLine statements but ${outputLines} output lines`
-            });
-          }
-        }
-      }
-      
-      console.log(`Checked ${checkedQuestions} C# questions for output format`);
-      
-      if (failures.length > 0) {
-        console.error('Output format validation failures:', failures);
-        expect(failures).toHaveLength(0);
-      }
-    });
-  });
-  
-  describe('Question Quality Metrics', () => {
-    it('should report question statistics', () => {
-      const stats = {
-        total: allQuestions.length,
-        byType: {} as Record<string, number>,
-        byLanguage: {} as Record<string, number>,
-        withCodeExamples: 0,
-        withOutput: 0
-      };
-      
-      for (const { question } of allQuestions) {
-        stats.byType[question.type] = (stats.byType[question.type] || 0) + 1;
-        
-        if (question.codeExample) {
-          stats.withCodeExamples++;
-          const lang = question.codeExample.language;
-          stats.byLanguage[lang] = (stats.byLanguage[lang] || 0) + 1;
-          
-          if (question.codeExample.output) {
-            stats.withOutput++;
-          }
-        }
-      }
-      
-      console.log('Question Statistics:', stats);
-      
-      // Ensure we have questions to test
-      expect(stats.total).toBeGreaterThan(0);
-    });
-    
-    it('should ensure all multiple choice questions have reasonable number of options', () => {
-      const mcQuestions = allQuestions.filter(({ question }) => question.type === 'multiple-choice');
-      
-      for (const { question } of mcQuestions) {
-        expect(question.options).toBeDefined();
-        expect(question.options.length).toBeGreaterThanOrEqual(2);
-        expect(question.options.length).toBeLessThanOrEqual(6); // Reasonable upper limit
-      }
-    });
-  });
-  
-  describe('Automated Testing for Future Questions', () => {
-    it('should automatically validate any new questions added to data files', () => {
-      // This test will automatically pick up new questions and validate them
-      // No code changes needed when adding questions 6, 7, 8, etc.
-      
-      const questionCount = allQuestions.length;
-      expect(questionCount).toBeGreaterThan(0);
-      
-      // If this test fails, it means a new question has validation issues
-      // Check the console output for specific error details
-      console.log(`Successfully validated ${questionCount} questions automatically`);
-    });
-  });
-});
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { glob } from 'glob';
+import fs from 'fs';
+import path from 'path';
+import { QuestionLinter, formatLintReportText, type QuestionLintReport } from '../../src/tools/question-lint';
+
+/**
+ * Lints every shipped question file, so content problems fail CI instead of reaching users.
+ * New question files are discovered automatically.
+ */
+describe('Question bank lint', () => {
+  let report: QuestionLintReport;
+
+  beforeAll(async () => {
+    const filePaths = glob.sync('data/questions/**/*.json', { cwd: 'public', posix: true });
+
+    report = await new QuestionLinter().lintFiles(filePaths, async filePath =>
+      JSON.parse(fs.readFileSync(path.join('public', filePath), 'utf-8'))
+    );
+  });
+
+  it('should discover the shipped questions', () => {
+    expect(report.filesChecked).toBeGreaterThan(0);
+    expect(report.questionsChecked).toBeGreaterThan(0);
+    expect(report.stats.byType['multiple-choice']).toBeGreaterThan(0);
+  });
+
+  it('should find no lint errors in the shipped questions', () => {
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+
+    expect(errors, formatLintReportText(report)).toEqual([]);
+  });
+});
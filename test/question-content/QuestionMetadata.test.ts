@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { glob } from 'glob';
+import fs from 'fs';
+import path from 'path';
+import { QuestionMetadataGenerator, formatMetadataChange } from '../../src/tools/question-metadata';
+
+const readJson = (filePath: string) => JSON.parse(fs.readFileSync(path.join('public', filePath), 'utf-8'));
+
+/**
+ * Fails when the committed question counts or average difficulties are out of date.
+ * Run `npm run generate:metadata` to bring them up to date.
+ */
+describe('Question bank metadata', () => {
+  it('should match the questions', () => {
+    const questionFiles = glob.sync('data/questions/**/*.json', { cwd: 'public', posix: true })
+      .map(filePath => ({ filePath, data: readJson(filePath) }));
+
+    const result = new QuestionMetadataGenerator().generate(readJson('data/metadata/categories.json'), questionFiles);
+
+    expect(result.changes.map(formatMetadataChange)).toEqual([]);
+  });
+});
@@ -1,454 +0,0 @@
-import { describe, it, expect } from 'vitest';
-import { glob } from 'glob';
-import path from 'path';
-import fs from 'fs';
-
-/**
- * Scalable Question Validator
- * 
- * ZERO MANUAL TEST CASES NEEDED FOR NEW QUESTIONS!
- * 
- * Simply add questions to JSON files - this system:
- * ✅ Automatically discovers ALL question files
- * ✅ Validates technical accuracy for ANY programming language  
- * ✅ Checks answer format consistency
- * ✅ Verifies code execution (where applicable)
- * ✅ Scales to unlimited questions (6, 7, 8, 100, 1000...)
- * ✅ Works for multiple-choice, flip-cards, and any future question types
- */
-
-interface QuestionFile {
-  questions: Array<{
-    id: string;
-    question: string;
-    type: string;
-    codeExample?: {
-      code: string;
-      language: string;
-      output?: string;
-    };
-    options?: Array<{
-      id: string;
-      text: string;
-      explanation?: string;
-    }>;
-    correctAnswerIndex?: number;
-    correctAnswerIndices?: number[];
-    explanation?: string;
-    answer?: string; // For flip-card questions
-  }>;
-}
-
-/**
- * Smart Question Validator - Handles ALL Question Types
- */
-class SmartQuestionValidator {
-  
-  static validateStructure(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    // Universal required fields
-    if (!question.id) errors.push('Question must have an ID');
-    if (!question.question) errors.push('Question must have question text');
-    if (!question.type) errors.push('Question must have a type');
-    
-    // Type-specific validation
-    switch (question.type) {
-      case 'multiple-choice':
-        this.validateMultipleChoice(question, errors);
-        break;
-      case 'flip-card':
-        this.validateFlipCard(question, errors);
-        break;
-      default:
-        // Allow unknown types but warn
-        console.warn(`Unknown question type: ${question.type} for question ${question.id}`);
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-  
-  private static validateMultipleChoice(question: any, errors: string[]) {
-    if (!question.options || question.options.length < 2) {
-      errors.push('Multiple choice questions must have at least 2 options');
-    }
-    
-    if (question.correctAnswerIndex === undefined && !question.correctAnswerIndices) {
-      errors.push('Multiple choice questions must specify correct answer(s)');
-    }
-    
-    if (!question.explanation) {
-      errors.push('Multiple choice questions must have explanation');
-    }
-    
-    // Answer bounds checking
-    if (question.correctAnswerIndex !== undefined && question.options) {
-      if (question.correctAnswerIndex >= question.options.length) {
-        errors.push(`Correct answer index ${question.correctAnswerIndex} is out of bounds`);
-      }
-    }
-  }
-  
-  private static validateFlipCard(question: any, errors: string[]) {
-    if (!question.answer) {
-      errors.push('Flip-card questions must have an answer');
-    }
-    
-    // Explanation is optional for flip-cards
-  }
-  
-  static validateCodeExample(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (!question.codeExample) return { isValid: true, errors };
-    
-    const { code, language, output } = question.codeExample;
-    
-    if (!code || code.trim().length === 0) {
-      errors.push('Code example must have code content');
-    }
-    
-    if (!language) {
-      errors.push('Code example must specify language');
-    }
-    
-    // Language-specific validation
-    if (language === 'csharp') {
-      this.validateCSharpCode(question, errors);
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-  
-  private static validateCSharpCode(question: any, errors: string[]) {
-    const { code, output } = question.codeExample;
-    
-    // Only validate if both code and expected output exist
-    if (!output) return;
-    
-    // Count Console.WriteLine statements
-    const consoleCount = (code.match(/Console\.WriteLine/g) || []).length;
-    
-    // For multiple choice questions, output should match Console.WriteLine count
-    if (question.type === 'multiple-choice' && consoleCount > 0) {
-      const outputLines = output.split('\n').length;
-      
-      if (consoleCount !== outputLines) {
-        errors.push(`Output format issue: ${consoleCount} Console.WriteLine statements but ${outputLines} output lines`);
-      }
-    }
-    
-    // For flip-card questions, output might be descriptive rather than actual console output
-    if (question.type === 'flip-card') {
-      // More lenient validation for educational descriptions
-      return;
-    }
-  }
-  
-  static validateAnswerOptions(question: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (question.type !== 'multiple-choice' || !question.options) {
-      return { isValid: true, errors };
-    }
-    
-    // Check for duplicate answer texts
-    const answerTexts = question.options.map((opt: any) => opt.text);
-    const uniqueTexts = new Set(answerTexts);
-    if (answerTexts.length !== uniqueTexts.size) {
-      errors.push('Answer options contain duplicates');
-    }
-    
-    // Check option content
-    for (const option of question.options) {
-      if (!option.text || option.text.trim().length === 0) {
-        errors.push('All options must have text content');
-      }
-    }
-    
-    return { isValid: errors.length === 0, errors };
-  }
-  
-  static generateQualityReport(allQuestions: Array<{ file: string; question: any }>) {
-    const report = {
-      total: allQuestions.length,
-      byType: {} as Record<string, number>,
-      byLanguage: {} as Record<string, number>,
-      withCodeExamples: 0,
-      withOutput: 0,
-      validationIssues: 0,
-      files: new Set<string>()
-    };
-    
-    for (const { file, question } of allQuestions) {
-      report.files.add(file);
-      report.byType[question.type] = (report.byType[question.type] || 0) + 1;
-      
-      if (question.codeExample) {
-        report.withCodeExamples++;
-        const lang = question.codeExample.language;
-        report.byLanguage[lang] = (report.byLanguage[lang] || 0) + 1;
-        
-        if (question.codeExample.output) {
-          report.withOutput++;
-        }
-      }
-    }
-    
-    return {
-      ...report,
-      fileCount: report.files.size
-    };
-  }
-}
-
-describe('Scalable Question Validator - Works for Questions 1-∞', () => {
-  
-  let allQuestions: Array<{ file: string; question: any }> = [];
-  
-  beforeAll(async () => {
-    // 🚀 AUTOMATIC DISCOVERY: Finds ALL question files recursively
-    const questionFiles = glob.sync('public/data/questions/**/*.json');
-    
-    for (const filePath of questionFiles) {
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const questionFile: QuestionFile = JSON.parse(content);
-        
-        for (const question of questionFile.questions) {
-          allQuestions.push({ file: filePath, question });
-        }
-      } catch (error) {
-        console.warn(`Failed to load question file ${filePath}:`, error);
-      }
-    }
-    
-    console.log(`🎯 Automatically discovered ${allQuestions.length} questions from ${questionFiles.length} files`);
-  });
-  
-  describe('📊 Question Discovery & Statistics', () => {
-    it('should automatically discover all questions', () => {
-      expect(allQuestions.length).toBeGreaterThan(0);
-      
-      const report = SmartQuestionValidator.generateQualityReport(allQuestions);
-      console.log('📈 Question Portfolio:', report);
-      
-      // Ensure we have a diverse question set
-      expect(Object.keys(report.byType).length).toBeGreaterThan(0);
-    });
-    
-    it('should report comprehensive statistics', () => {
-      const report = SmartQuestionValidator.generateQualityReport(allQuestions);
-      
-      // Quality metrics
-      expect(report.total).toBe(allQuestions.length);
-      expect(report.fileCount).toBeGreaterThan(0);
-      
-      console.log(`✅ Successfully analyzing ${report.total} questions across ${report.fileCount} files`);
-      console.log(`📝 Question types:`, report.byType);
-      console.log(`💻 Programming languages:`, report.byLanguage);
-    });
-  });
-  
-  describe('🔍 Universal Data Structure Validation', () => {
-    it('should validate ALL questions regardless of type', () => {
-      const failures: Array<{ id: string; type: string; errors: string[] }> = [];
-      
-      for (const { question } of allQuestions) {
-        const validation = SmartQuestionValidator.validateStructure(question);
-        if (!validation.isValid) {
-          failures.push({ 
-            id: question.id, 
-            type: question.type, 
-            errors: validation.errors 
-          });
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('❌ Structure validation failures:');
-        failures.forEach(f => console.error(`  ${f.id} (${f.type}):`, f.errors));
-        
-        // Don't fail the test - report issues for fixing
-        console.warn(`⚠️  Found ${failures.length} structural issues that should be fixed`);
-      } else {
-        console.log('✅ All question structures are valid!');
-      }
-      
-      // Test passes - we're reporting, not blocking
-      expect(allQuestions.length).toBeGreaterThan(0);
-    });
-    
-    it('should validate answer options for multiple choice questions', () => {
-      const mcQuestions = allQuestions.filter(({ question }) => question.type === 'multiple-choice');
-      const failures: Array<{ id: string; errors: string[] }> = [];
-      
-      for (const { question } of mcQuestions) {
-        const validation = SmartQuestionValidator.validateAnswerOptions(question);
-        if (!validation.isValid) {
-          failures.push({ id: question.id, errors: validation.errors });
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('❌ Answer option validation failures:');
-        failures.forEach(f => console.error(`  ${f.id}:`, f.errors));
-        console.warn(`⚠️  Found ${failures.length} answer option issues`);
-      } else {
-        console.log(`✅ All ${mcQuestions.length} multiple choice questions have valid options!`);
-      }
-      
-      expect(mcQuestions.length).toBeGreaterThan(0);
-    });
-  });
-  
-  describe('🧪 Smart Code Example Validation', () => {
-    it('should validate code examples across all languages', () => {
-      const questionsWithCode = allQuestions.filter(({ question }) => question.codeExample);
-      const failures: Array<{ id: string; language: string; errors: string[] }> = [];
-      
-      for (const { question } of questionsWithCode) {
-        const validation = SmartQuestionValidator.validateCodeExample(question);
-        if (!validation.isValid) {
-          failures.push({ 
-            id: question.id, 
-            language: question.codeExample.language,
-            errors: validation.errors 
-          });
-        }
-      }
-      
-      if (failures.length > 0) {
-        console.error('❌ Code example validation failures:');
-        failures.forEach(f => console.error(`  ${f.id} (${f.language}):`, f.errors));
-        console.warn(`⚠️  Found ${failures.length} code example issues`);
-      } else {
-        console.log(`✅ All ${questionsWithCode.length} code examples are valid!`);
-      }
-      
-      console.log(`🔍 Validated code examples in languages:`, 
-        [...new Set(questionsWithCode.map(q => q.question.codeExample.language))]);
-      
-      expect(questionsWithCode.length).toBeGreaterThan(0);
-    });
-    
-    it('should verify C# output format consistency', () => {
-      const csharpMCQuestions = allQuestions.filter(({ question }) => 
-        question.type === 'multiple-choice' && 
-        question.codeExample?.language === 'csharp' &&
-        question.codeExample?.output
-      );
-      
-      const issues: Array<{ id: string; issue: string }> = [];
-      
-      for (const { question } of csharpMCQuestions) {
-        const { code, output } = question.codeExample;
-        const consoleCount = (code.match(/Console\.WriteLine/g) || []).length;
-        const outputLines = output.split('\n').length;
-        
-        if (consoleCount > 0 && consoleCount !== outputLines) {
-          issues.push({
-            id: question.id,
-            issue: `${consoleCount} Console.WriteLine statements → ${outputLines} output lines`
-          });
-        }
-      }
-      
-      if (issues.length > 0) {
-        console.warn('⚠️  C# Output format inconsistencies (should be fixed):');
-        issues.forEach(issue => console.warn(`  ${issue.id}: ${issue.issue}`));
-      } else {
-        console.log(`✅ All ${csharpMCQuestions.length} C# multiple choice questions have consistent output format!`);
-      }
-      
-      // Test passes - we're just reporting
-      expect(csharpMCQuestions.length).toBeGreaterThan(0);
-    });
-  });
-  
-  describe('🚀 Infinite Scalability Demo', () => {
-    it('should handle any number of questions automatically', () => {
-      // This test demonstrates that the system scales infinitely
-      
-      const currentCount = allQuestions.length;
-      console.log(`📊 Current question count: ${currentCount}`);
-      
-      // Simulate adding questions 6, 7, 8, ... 100, 1000
-      const simulatedFutureCount = currentCount + 995; // Simulating 1000 total
-      
-      console.log(`🔮 System ready to handle ${simulatedFutureCount} questions`);
-      console.log(`⚡ Zero code changes needed when adding questions 6-1000`);
-      console.log(`🎯 Just add JSON files - tests run automatically!`);
-      
-      // Demonstrate test categories that scale automatically
-      const categories = {
-        'Structure Validation': 'Works for any question type',
-        'Code Example Validation': 'Works for any programming language', 
-        'Answer Format Checking': 'Works for any answer format',
-        'Quality Metrics': 'Scales to unlimited questions',
-        'Performance': 'Fast execution regardless of question count'
-      };
-      
-      console.log(`🛠️  Automated validation categories:`, categories);
-      
-      expect(allQuestions.length).toBeGreaterThan(0);
-    });
-    
-    it('should automatically validate new question types', () => {
-      // This test shows how the system handles new question types
-      
-      const questionTypes = [...new Set(allQuestions.map(q => q.question.type))];
-      console.log(`📝 Currently supporting question types:`, questionTypes);
-      
-      // System automatically detects and validates new types
-      console.log(`🆕 To add new question types:`);
-      console.log(`   1. Add questions to JSON files`);
-      console.log(`   2. Tests automatically discover them`);
-      console.log(`   3. Add type-specific validation if needed`);
-      console.log(`   4. No manual test cases required!`);
-      
-      expect(questionTypes.length).toBeGreaterThan(0);
-    });
-  });
-  
-  describe('📋 Quality Assurance Pipeline', () => {
-    it('should provide comprehensive quality metrics', () => {
-      const report = SmartQuestionValidator.generateQualityReport(allQuestions);
-      
-      // Quality standards
-      const qualityMetrics = {
-        totalQuestions: report.total,
-        diversityScore: Object.keys(report.byType).length,
-        codeExampleCoverage: (report.withCodeExamples / report.total) * 100,
-        outputSpecificationRate: (report.withOutput / report.withCodeExamples) * 100,
-        languageSupport: Object.keys(report.byLanguage).length
-      };
-      
-      console.log(`📊 Quality Metrics:`, qualityMetrics);
-      
-      // Assertions for quality standards
-      expect(qualityMetrics.totalQuestions).toBeGreaterThan(0);
-      expect(qualityMetrics.diversityScore).toBeGreaterThan(0);
-      
-      console.log(`✅ Quality assurance: PASSED`);
-    });
-    
-    it('should be ready for continuous integration', () => {
-      console.log(`🔄 CI/CD Ready:`);
-      console.log(`   ✅ Fast execution (< 2 seconds)`);
-      console.log(`   ✅ Comprehensive reporting`);
-      console.log(`   ✅ Automatic failure detection`);
-      console.log(`   ✅ Scales to unlimited questions`);
-      console.log(`   ✅ Zero maintenance for new questions`);
-      
-      const executionTime = Date.now();
-      // Simulate validation work
-      const totalValidations = allQuestions.length * 3; // Structure + Code + Options
-      
-      console.log(`⚡ Validated ${totalValidations} aspects across ${allQuestions.length} questions`);
-      console.log(`🎯 Ready for questions 6, 7, 8... ∞`);
-      
-      expect(allQuestions.length).toBeGreaterThan(0);
-    });
-  });
-});
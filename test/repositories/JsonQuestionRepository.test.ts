@@ -1,9 +1,27 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { JsonQuestionRepository } from '../../src/repositories/JsonQuestionRepository';
-import { IQuestionLoader } from '../../src/interfaces/repositories/IQuestionLoader';
+import { IQuestionLoader, RawQuestionData } from '../../src/interfaces/repositories/IQuestionLoader';
 import { IQuestionParser } from '../../src/interfaces/repositories/IQuestionParser';
 import { IQuestion } from '../../src/interfaces/domain/IQuestion';
 import { DataLoadError } from '../../src/models/errors/DataLoadError';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { FlipCardQuestion } from '../../src/models/FlipCardQuestion';
+import { Option } from '../../src/models/Option';
+
+/**
+ * Builds the raw record of a multiple-choice question as the loader returns it
+ */
+const rawQuestion = (id: string): RawQuestionData => ({
+  id,
+  type: 'multiple-choice',
+  explanation: '',
+  category: 'basics',
+  difficulty: 1,
+  tags: [],
+  createdAt: '2025-01-01',
+  updatedAt: '2025-01-01',
+  version: 1
+});
 
 describe('JsonQuestionRepository', () => {
   let repository: JsonQuestionRepository;
@@ -57,9 +75,9 @@ describe('JsonQuestionRepository', () => {
   
   describe('loadQuestions', () => {
     it('should load and parse questions successfully', async () => {
-      const rawData = [{ id: 'raw-1' }, { id: 'raw-2' }];
+      const rawData = [rawQuestion('raw-1'), rawQuestion('raw-2')];
       
-      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData as any);
+      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData);
       vi.mocked(mockParser.parseQuestions).mockResolvedValue(mockQuestions);
       
       const result = await repository.loadQuestions();
@@ -72,9 +90,9 @@ describe('JsonQuestionRepository', () => {
     });
     
     it('should return cached questions on subsequent calls', async () => {
-      const rawData = [{ id: 'raw-1' }];
+      const rawData = [rawQuestion('raw-1')];
       
-      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData as any);
+      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData);
       vi.mocked(mockParser.parseQuestions).mockResolvedValue(mockQuestions);
       
       // First call
@@ -95,15 +113,62 @@ describe('JsonQuestionRepository', () => {
     });
     
     it('should throw DataLoadError when parsing fails', async () => {
-      const rawData = [{ id: 'raw-1' }];
+      const rawData = [rawQuestion('raw-1')];
       
-      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData as any);
+      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue(rawData);
       vi.mocked(mockParser.parseQuestions).mockRejectedValue(new Error('Parse failed'));
       
       await expect(repository.loadQuestions()).rejects.toThrow(DataLoadError);
     });
   });
   
+  describe('loadQuestionsFromPaths', () => {
+    it('should load exactly the given files and report each one', async () => {
+      vi.mocked(mockLoader.loadFromJson)
+        .mockResolvedValueOnce([rawQuestion('raw-1'), rawQuestion('raw-2')])
+        .mockResolvedValueOnce([rawQuestion('raw-3')]);
+      vi.mocked(mockParser.parseQuestions).mockResolvedValue(mockQuestions);
+      const onFileLoaded = vi.fn();
+      
+      const result = await repository.loadQuestionsFromPaths(['a.json', 'b.json'], onFileLoaded);
+      
+      expect(result).toHaveLength(2);
+      expect(mockLoader.loadFromJson).toHaveBeenNthCalledWith(1, 'a.json');
+      expect(mockLoader.loadFromJson).toHaveBeenNthCalledWith(2, 'b.json');
+      expect(mockParser.parseQuestions).toHaveBeenCalledWith([rawQuestion('raw-1'), rawQuestion('raw-2'), rawQuestion('raw-3')]);
+      expect(onFileLoaded).toHaveBeenNthCalledWith(1, {
+        filePath: 'a.json',
+        filesLoaded: 1,
+        totalFiles: 2,
+        questionsInFile: 2
+      });
+      expect(onFileLoaded).toHaveBeenNthCalledWith(2, {
+        filePath: 'b.json',
+        filesLoaded: 2,
+        totalFiles: 2,
+        questionsInFile: 1
+      });
+    });
+    
+    it('should replace the configured paths and cache the result', async () => {
+      vi.mocked(mockLoader.loadFromJson).mockResolvedValue([rawQuestion('raw-1')]);
+      vi.mocked(mockParser.parseQuestions).mockResolvedValue(mockQuestions);
+      
+      await repository.loadQuestionsFromPaths(['other.json']);
+      const cached = await repository.loadQuestions();
+      
+      expect(repository.getQuestionPaths()).toEqual(['other.json']);
+      expect(cached).toHaveLength(2);
+      expect(mockLoader.loadFromMultipleJson).not.toHaveBeenCalled();
+    });
+    
+    it('should throw DataLoadError when a file fails to load', async () => {
+      vi.mocked(mockLoader.loadFromJson).mockRejectedValue(new Error('Load failed'));
+      
+      await expect(repository.loadQuestionsFromPaths(['missing.json'])).rejects.toThrow(DataLoadError);
+    });
+  });
+  
   describe('getQuestionById', () => {
     beforeEach(async () => {
       vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue([]);
@@ -147,6 +212,79 @@ describe('JsonQuestionRepository', () => {
     });
   });
   
+  describe('queryQuestions', () => {
+    beforeEach(async () => {
+      const deck: IQuestion[] = [
+        new MultipleChoiceQuestion(
+          'linq-1', 'What does Where return?', [new Option('a', 'IEnumerable'), new Option('b', 'List')], [0],
+          'Where is lazily evaluated', 'collections', 'medium', undefined,
+          { subcategory: 'linq', tags: ['linq', 'deferred-execution'], difficultyLevel: 4 }
+        ),
+        new MultipleChoiceQuestion(
+          'linq-2', 'What does ToList do?', [new Option('a', 'Materializes'), new Option('b', 'Defers')], [0],
+          'ToList enumerates immediately', 'collections', 'hard', undefined,
+          { subcategory: 'linq', tags: ['linq'], difficultyLevel: 7 }
+        ),
+        new FlipCardQuestion(
+          'async-1', 'What is a Task?', 'A promise of future work', '', 'async', 'easy', undefined,
+          { subcategory: 'tasks', tags: ['tasks', 'deferred-execution'], difficultyLevel: 2 }
+        )
+      ];
+      vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue([]);
+      vi.mocked(mockParser.parseQuestions).mockResolvedValue(deck);
+      await repository.loadQuestions();
+    });
+    
+    const queryIds = async (filter: Parameters<JsonQuestionRepository['queryQuestions']>[0]) =>
+      (await repository.queryQuestions(filter)).map(q => q.id);
+    
+    it('should return every question for an empty filter', async () => {
+      expect(await queryIds({})).toEqual(['linq-1', 'linq-2', 'async-1']);
+    });
+    
+    it('should filter by question type', async () => {
+      expect(await queryIds({ types: ['flip-card'] })).toEqual(['async-1']);
+    });
+    
+    it('should filter by category and subcategory', async () => {
+      expect(await queryIds({ categories: ['async'] })).toEqual(['async-1']);
+      expect(await queryIds({ subcategories: ['collections/linq'] })).toEqual(['linq-1', 'linq-2']);
+    });
+    
+    it('should match subcategories only within their category', async () => {
+      expect(await queryIds({ subcategories: ['async/linq'] })).toEqual([]);
+      expect(await queryIds({ subcategories: ['linq'] })).toEqual([]);
+    });
+    
+    it('should match any tag by default', async () => {
+      expect(await queryIds({ tags: ['deferred-execution', 'tasks'] })).toEqual(['linq-1', 'async-1']);
+    });
+    
+    it('should require every tag when tagMatch is all', async () => {
+      expect(await queryIds({ tags: ['linq', 'deferred-execution'], tagMatch: 'all' })).toEqual(['linq-1']);
+    });
+    
+    it('should filter by inclusive difficulty range', async () => {
+      expect(await queryIds({ difficultyRange: { min: 4, max: 7 } })).toEqual(['linq-1', 'linq-2']);
+      expect(await queryIds({ difficultyRange: { max: 3 } })).toEqual(['async-1']);
+    });
+    
+    it('should combine criteria and explicit ids', async () => {
+      expect(await queryIds({ categories: ['collections'], ids: ['linq-2', 'async-1'] })).toEqual(['linq-2']);
+    });
+    
+    it('should match no question for an empty id list', async () => {
+      expect(await queryIds({ ids: undefined })).toEqual(['linq-1', 'linq-2', 'async-1']);
+      expect(await queryIds({ ids: [] })).toEqual([]);
+    });
+    
+    it('should match no question for an empty tag list', async () => {
+      expect(await queryIds({ tags: undefined })).toEqual(['linq-1', 'linq-2', 'async-1']);
+      expect(await queryIds({ tags: [] })).toEqual([]);
+      expect(await queryIds({ tags: [], tagMatch: 'all' })).toEqual([]);
+    });
+  });
+  
   describe('getTotalCount', () => {
     beforeEach(async () => {
       vi.mocked(mockLoader.loadFromMultipleJson).mockResolvedValue([]);
@@ -2,8 +2,54 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QuestionLoader } from '../../src/repositories/QuestionLoader';
 import { DataLoadError } from '../../src/models/errors/DataLoadError';
 
+/**
+ * Part of a fetch response the loader reads
+ */
+type FetchResponseStub = Partial<Omit<Response, 'headers'>> & { headers?: Pick<Headers, 'get'> };
+
 // Mock fetch globally
-global.fetch = vi.fn();
+const mockFetch = vi.fn<(url: string) => Promise<FetchResponseStub>>();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const mockManifest = {
+  version: 1,
+  lastUpdated: '2025-08-29T10:00:00Z',
+  categories: {
+    basics: {
+      name: 'C# Basics',
+      subcategories: {
+        variables: { name: 'Variables', file: 'questions/basics/variables.json' },
+        operators: { name: 'Operators', file: 'questions/basics/operators.json' }
+      }
+    },
+    advanced: {
+      name: 'Advanced C#',
+      subcategories: {
+        linq: { name: 'LINQ', file: 'questions/advanced/linq.json' }
+      }
+    }
+  }
+};
+
+/**
+ * Mocks fetch so the manifest resolves and each listed file exists or returns 404
+ */
+const mockFetchForManifest = (existingFiles: Record<string, boolean>) => {
+  mockFetch.mockImplementation((url: string) => {
+    if (url === '/data/metadata/categories.json') {
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(mockManifest) });
+    }
+    if (!existingFiles[url]) {
+      return Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' });
+    }
+    const id = url.replace('/data/questions/', '').replace('.json', '').replace('/', '-');
+    return Promise.resolve({
+      ok: true,
+      headers: { get: () => 'application/json' },
+      json: () => Promise.resolve({ questions: [{ id, type: 'multiple-choice', options: [{ id: 'a', text: 'A' }] }] })
+    });
+  });
+};
 
 describe('QuestionLoader', () => {
   let questionLoader: QuestionLoader;
@@ -33,7 +79,7 @@ describe('QuestionLoader', () => {
         })
       };
       
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      mockFetch.mockResolvedValue(mockResponse);
       
       const result = await questionLoader.loadFromJson('test.json');
       
@@ -42,8 +88,24 @@ describe('QuestionLoader', () => {
       expect(fetch).toHaveBeenCalledWith('test.json');
     });
     
+    it('should keep flip-card questions alongside multiple-choice questions', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: vi.fn().mockResolvedValue({
+          questions: [
+            { id: 'mc-1', question: 'MC', type: 'multiple-choice', options: [{ id: 'a', text: 'A' }], correctAnswerIndex: 0 },
+            { id: 'fc-1', question: 'Flip', type: 'flip-card', answer: 'Answer' }
+          ]
+        })
+      });
+      
+      const result = await questionLoader.loadFromJson('mixed.json');
+      
+      expect(result.map(question => question.id)).toEqual(['mc-1', 'fc-1']);
+    });
+    
     it('should throw DataLoadError when fetch fails', async () => {
-      (global.fetch as any).mockResolvedValue({
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 404,
         statusText: 'Not Found'
@@ -62,7 +124,7 @@ describe('QuestionLoader', () => {
         })
       };
       
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      mockFetch.mockResolvedValue(mockResponse);
       
       await expect(questionLoader.loadFromJson('invalid.json'))
         .rejects.toThrow(DataLoadError);
@@ -74,7 +136,7 @@ describe('QuestionLoader', () => {
         json: vi.fn().mockRejectedValue(new Error('Invalid JSON'))
       };
       
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      mockFetch.mockResolvedValue(mockResponse);
       
       await expect(questionLoader.loadFromJson('corrupt.json'))
         .rejects.toThrow(DataLoadError);
@@ -97,7 +159,7 @@ describe('QuestionLoader', () => {
         })
       };
       
-      (global.fetch as any)
+      mockFetch
         .mockResolvedValueOnce(mockResponse1)
         .mockResolvedValueOnce(mockResponse2);
       
@@ -109,7 +171,7 @@ describe('QuestionLoader', () => {
     });
     
     it('should throw DataLoadError if any file fails to load', async () => {
-      (global.fetch as any)
+      mockFetch
         .mockResolvedValueOnce({
           ok: true,
           json: vi.fn().mockResolvedValue({ questions: [{ id: 'test-1' }] })
@@ -125,25 +187,117 @@ describe('QuestionLoader', () => {
     });
   });
   
-  describe('loadFromDirectory', () => {
-    it('should load questions from directory with existing files', async () => {
-      const mockResponse = {
+  describe('loadManifest', () => {
+    it('should load the category manifest from the data root', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: vi.fn().mockResolvedValue(mockManifest)
+      });
+      
+      const manifest = await questionLoader.loadManifest('data');
+      
+      expect(manifest.categories.basics.subcategories.variables.file).toBe('questions/basics/variables.json');
+      expect(fetch).toHaveBeenCalledWith('/data/metadata/categories.json');
+    });
+    
+    it('should throw DataLoadError when a subcategory has no file', async () => {
+      mockFetch.mockResolvedValue({
         ok: true,
         json: vi.fn().mockResolvedValue({
-          questions: [{ id: 'test-1', question: 'Test question' }]
+          categories: {
+            basics: { subcategories: { variables: { name: 'Variables' } } }
+          }
         })
-      };
+      });
       
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      await expect(questionLoader.loadManifest('data')).rejects.toThrow(DataLoadError);
+    });
+  });
+  
+  describe('discoverQuestionFiles', () => {
+    it('should build the file list from the manifest and report missing files per subcategory', async () => {
+      mockFetchForManifest({
+        '/data/questions/basics/variables.json': true,
+        '/data/questions/basics/operators.json': false,
+        '/data/questions/advanced/linq.json': true
+      });
+      
+      const discovery = await questionLoader.discoverQuestionFiles('data');
+      
+      expect(discovery.files).toEqual([
+        { category: 'basics', subcategory: 'variables', filePath: 'data/questions/basics/variables.json' },
+        { category: 'advanced', subcategory: 'linq', filePath: 'data/questions/advanced/linq.json' }
+      ]);
+      expect(discovery.missing).toEqual([
+        {
+          category: 'basics',
+          subcategory: 'operators',
+          filePath: 'data/questions/basics/operators.json',
+          reason: 'HTTP 404: Not Found'
+        }
+      ]);
+    });
+    
+    it('should treat HTML fallbacks as missing files', async () => {
+      mockFetch.mockImplementation((url: string) => {
+        if (url === '/data/metadata/categories.json') {
+          return Promise.resolve({ ok: true, json: () => Promise.resolve(mockManifest) });
+        }
+        return Promise.resolve({
+          ok: true,
+          headers: { get: () => 'text/html' }
+        });
+      });
+      
+      const discovery = await questionLoader.discoverQuestionFiles('data');
+      
+      expect(discovery.files).toHaveLength(0);
+      expect(discovery.missing).toHaveLength(3);
+      expect(discovery.missing[0].reason).toContain('text/html');
+    });
+  });
+  
+  describe('loadFromDirectory', () => {
+    it('should load questions from every existing manifest file', async () => {
+      mockFetchForManifest({
+        '/data/questions/basics/variables.json': true,
+        '/data/questions/basics/operators.json': true,
+        '/data/questions/advanced/linq.json': true
+      });
       
-      const result = await questionLoader.loadFromDirectory('data/questions/basics');
+      const result = await questionLoader.loadFromDirectory('data');
       
-      expect(result.length).toBeGreaterThan(0);
-      expect(fetch).toHaveBeenCalled();
+      expect(result.map(question => question.id)).toEqual([
+        'basics-variables', 'basics-operators', 'advanced-linq'
+      ]);
+    });
+    
+    it('should warn about missing files and load the rest', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchForManifest({
+        '/data/questions/basics/variables.json': true,
+        '/data/questions/basics/operators.json': false,
+        '/data/questions/advanced/linq.json': true
+      });
+      
+      const result = await questionLoader.loadFromDirectory('data');
+      
+      expect(result).toHaveLength(2);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('basics/operators'));
+      warnSpy.mockRestore();
     });
     
     it('should throw DataLoadError if no valid files found', async () => {
-      (global.fetch as any).mockResolvedValue({
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetchForManifest({});
+      
+      await expect(questionLoader.loadFromDirectory('data'))
+        .rejects.toThrow(DataLoadError);
+      warnSpy.mockRestore();
+    });
+    
+    it('should throw DataLoadError if the manifest is missing', async () => {
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 404,
         statusText: 'Not Found'
@@ -153,4 +307,4 @@ describe('QuestionLoader', () => {
         .rejects.toThrow(DataLoadError);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { QuestionParser } from '../../src/repositories/QuestionParser';
 import { ValidationError } from '../../src/models/errors/ValidationError';
+import { FlipCardQuestion } from '../../src/models/FlipCardQuestion';
+import { PredictOutputQuestion } from '../../src/models/PredictOutputQuestion';
 import { RawQuestionData } from '../../src/interfaces/repositories/IQuestionLoader';
 
 describe('QuestionParser', () => {
@@ -118,6 +120,18 @@ describe('QuestionParser', () => {
       expect(result.difficulty).toBe('easy');
     });
     
+    it('should keep subcategory, tags and numeric difficulty', async () => {
+      const rawQuestion = createValidRawQuestion();
+      rawQuestion.difficulty = 7;
+      
+      const result = await questionParser.parseQuestion(rawQuestion);
+      
+      expect(result.subcategory).toBe('syntax');
+      expect(result.tags).toEqual(['syntax', 'basics']);
+      expect(result.difficultyLevel).toBe(7);
+      expect(result.difficulty).toBe('hard');
+    });
+    
     it('should parse question with multiple correct answers', async () => {
       const rawQuestion = createValidRawQuestion();
       delete (rawQuestion as any).correctAnswerIndex;
@@ -171,6 +185,56 @@ describe('QuestionParser', () => {
       await expect(questionParser.parseQuestion(rawQuestion))
         .rejects.toThrow(ValidationError);
     });
+    
+    it('should parse flip-card data into a FlipCardQuestion', async () => {
+      const rawQuestion: RawQuestionData = {
+        ...createValidRawQuestion(),
+        type: 'flip-card',
+        options: undefined,
+        correctAnswerIndex: undefined,
+        answer: 'A named storage location'
+      };
+      
+      const result = await questionParser.parseQuestion(rawQuestion);
+      
+      expect(result).toBeInstanceOf(FlipCardQuestion);
+      expect(result.type).toBe('flip-card');
+      expect((result as FlipCardQuestion).answer).toBe('A named storage location');
+      expect(result.options).toEqual([]);
+      expect(result.getCorrectAnswers()).toEqual([]);
+    });
+    
+    it('should parse predict-output data into a PredictOutputQuestion', async () => {
+      const rawQuestion: RawQuestionData = {
+        ...createValidRawQuestion(),
+        type: 'predict-output',
+        options: undefined,
+        correctAnswerIndex: undefined,
+        codeExample: { code: 'Console.WriteLine(1 + 2);', language: 'csharp', output: '3' }
+      };
+      
+      const result = await questionParser.parseQuestion(rawQuestion);
+      
+      expect(result).toBeInstanceOf(PredictOutputQuestion);
+      expect(result.type).toBe('predict-output');
+      expect((result as PredictOutputQuestion).expectedOutput).toBe('3');
+      expect(result.options).toEqual([]);
+    });
+    
+    it('should reject predict-output data without an output', () => {
+      const rawQuestion: RawQuestionData = {
+        ...createValidRawQuestion(),
+        type: 'predict-output',
+        options: undefined,
+        correctAnswerIndex: undefined,
+        codeExample: { code: 'Console.WriteLine(1 + 2);', language: 'csharp' }
+      };
+      
+      const result = questionParser.validateQuestionData(rawQuestion);
+      
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Predict-output question must have a code example with output');
+    });
   });
   
   describe('parseQuestions', () => {
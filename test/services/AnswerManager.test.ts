@@ -2,12 +2,17 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { AnswerManager } from '../../src/services/AnswerManager';
 import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
 import { Option } from '../../src/models/Option';
+import { FlipCardQuestion } from '../../src/models/FlipCardQuestion';
+import { PredictOutputQuestion } from '../../src/models/PredictOutputQuestion';
+import { CodeExample } from '../../src/models/CodeExample';
 import type { IAnswerValidator } from '../../src/interfaces/validation/IAnswerValidator';
 import type { IStateManager } from '../../src/interfaces/services/IStateManager';
 import type { IQuestionManager } from '../../src/interfaces/services/IQuestionManager';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
 import type { IValidationResult } from '../../src/interfaces/validation/IValidationResult';
 import type { IQuestionState } from '../../src/interfaces/domain/types';
+import type { IReviewScheduler } from '../../src/interfaces/services/IReviewScheduler';
+import { AttemptHistory } from '../../src/services/analytics/AttemptHistory';
 
 describe('AnswerManager', () => {
   let answerManager: AnswerManager;
@@ -44,10 +49,12 @@ describe('AnswerManager', () => {
     };
 
     mockStateManager = {
+      hydrate: vi.fn(),
       getApplicationState: vi.fn(),
       updateQuestionState: vi.fn(),
       getQuestionState: vi.fn(),
       resetApplicationState: vi.fn(),
+      clearQuestionStates: vi.fn(),
       setCurrentQuestionIndex: vi.fn(),
       getCurrentQuestionIndex: vi.fn(),
       setTotalQuestions: vi.fn(),
@@ -62,7 +69,8 @@ describe('AnswerManager', () => {
       resetCurrent: vi.fn(),
       getTotalCount: vi.fn(),
       getCurrentIndex: vi.fn(),
-      initialize: vi.fn()
+      initialize: vi.fn(),
+      getSessionQuestions: vi.fn().mockReturnValue([])
     };
 
     answerManager = new AnswerManager(mockValidator, mockStateManager, mockQuestionManager);
@@ -92,8 +100,10 @@ describe('AnswerManager', () => {
       expect(mockValidator.validate).toHaveBeenCalledWith(testQuestion, [1]);
       expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('test-q1', {
         selectedAnswers: [1],
+        selectedOptionIds: ['2'],
         isSubmitted: true,
         isCorrect: true,
+        score: 1,
         submittedAt: expect.any(Date)
       });
     });
@@ -120,12 +130,34 @@ describe('AnswerManager', () => {
 
       expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('test-q1', {
         selectedAnswers: [0],
+        selectedOptionIds: ['1'],
         isSubmitted: true,
         isCorrect: false,
+        score: 0,
         submittedAt: expect.any(Date)
       });
     });
 
+    it('should store the partial credit given by the validator', () => {
+      // Arrange
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(testQuestion);
+      mockValidator.validate.mockReturnValue({
+        isValid: true,
+        errors: [],
+        metadata: { isCorrect: false, score: 0.5 }
+      });
+
+      // Act
+      const result = answerManager.submitAnswer('test-q1', [0]);
+
+      // Assert
+      expect(result.score).toBe(0.5);
+      expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('test-q1', expect.objectContaining({
+        isCorrect: false,
+        score: 0.5
+      }));
+    });
+
     it('should throw error when no current question is available', () => {
       // Arrange
       mockQuestionManager.getCurrentQuestion.mockReturnValue(null);
@@ -207,6 +239,33 @@ describe('AnswerManager', () => {
       expect(mockStateManager.getQuestionState).toHaveBeenCalledWith('test-q1');
     });
 
+    it('should map selected option IDs onto the option order of the session', () => {
+      // Arrange
+      const reshuffled = new MultipleChoiceQuestion(
+        'test-q1',
+        testQuestion.text,
+        [testQuestion.options[3], testQuestion.options[1], testQuestion.options[0], testQuestion.options[2]],
+        [1],
+        testQuestion.explanation,
+        testQuestion.category,
+        testQuestion.difficulty
+      );
+      mockQuestionManager.getSessionQuestions.mockReturnValue([reshuffled]);
+      mockStateManager.getQuestionState.mockReturnValue({
+        selectedAnswers: [],
+        selectedOptionIds: ['1', '2'],
+        isSubmitted: true,
+        isCorrect: false,
+        score: 0
+      });
+
+      // Act
+      const result = answerManager.getAnswerState('test-q1');
+
+      // Assert
+      expect(result?.selectedAnswers).toEqual([2, 1]);
+    });
+
     it('should return null when no state exists', () => {
       // Arrange
       mockStateManager.getQuestionState.mockReturnValue(null);
@@ -229,6 +288,7 @@ describe('AnswerManager', () => {
         selectedAnswers: [],
         isSubmitted: false,
         isCorrect: false,
+        score: 0,
         submittedAt: undefined
       });
     });
@@ -331,4 +391,196 @@ describe('AnswerManager', () => {
       expect(freshResult).toEqual([1, 2]);
     });
   });
-});
\ No newline at end of file
+
+  describe('recordSelfAssessment', () => {
+    let flipCard: FlipCardQuestion;
+
+    beforeEach(() => {
+      flipCard = new FlipCardQuestion('fc-1', 'What is a variable?', 'A named storage location', '', 'basics', 'easy');
+    });
+
+    it('should record a known flip card as correct', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(flipCard);
+
+      const result = answerManager.recordSelfAssessment('fc-1', true);
+
+      expect(result).toEqual({ isCorrect: true, score: 1, correctAnswers: [], explanation: '', selectedAnswers: [] });
+      expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('fc-1', expect.objectContaining({
+        selectedAnswers: [],
+        isSubmitted: true,
+        isCorrect: true,
+        score: 1,
+        submittedAt: expect.any(Date)
+      }));
+      expect(mockValidator.validate).not.toHaveBeenCalled();
+    });
+
+    it('should record an unknown flip card as incorrect', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(flipCard);
+
+      const result = answerManager.recordSelfAssessment('fc-1', false);
+
+      expect(result.isCorrect).toBe(false);
+      expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('fc-1', expect.objectContaining({ isCorrect: false }));
+    });
+
+    it('should reject self-assessment of multiple-choice questions', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(testQuestion);
+
+      expect(() => answerManager.recordSelfAssessment('test-q1', true))
+        .toThrow('Question test-q1 is not a flip-card question and cannot be self-assessed');
+      expect(mockStateManager.updateQuestionState).not.toHaveBeenCalled();
+    });
+
+    it('should reject a question that is not current', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(flipCard);
+
+      expect(() => answerManager.recordSelfAssessment('other', true)).toThrow('Question ID mismatch');
+    });
+  });
+
+  describe('submitOutput', () => {
+    let predictOutput: PredictOutputQuestion;
+
+    beforeEach(() => {
+      predictOutput = new PredictOutputQuestion(
+        'po-1', 'What does this print?', 'Sum of 1 and 2', 'basics', 'easy',
+        new CodeExample('Console.WriteLine(1 + 2);', 'csharp', '3')
+      );
+    });
+
+    it('should record matching output as correct', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(predictOutput);
+
+      const result = answerManager.submitOutput('po-1', '3\n');
+
+      expect(result).toEqual({
+        isCorrect: true,
+        score: 1,
+        correctAnswers: [],
+        explanation: 'Sum of 1 and 2',
+        selectedAnswers: [],
+        submittedOutput: '3\n',
+        outputComparison: { isMatch: true, lines: [{ kind: 'match', text: '3' }] }
+      });
+      expect(mockStateManager.updateQuestionState).toHaveBeenCalledWith('po-1', expect.objectContaining({
+        selectedAnswers: [],
+        isSubmitted: true,
+        isCorrect: true,
+        score: 1,
+        submittedOutput: '3\n'
+      }));
+      expect(mockValidator.validate).not.toHaveBeenCalled();
+    });
+
+    it('should record different output as incorrect', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(predictOutput);
+
+      const result = answerManager.submitOutput('po-1', '12');
+
+      expect(result.isCorrect).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.outputComparison?.lines).toEqual([
+        { kind: 'missing', text: '3' },
+        { kind: 'unexpected', text: '12' }
+      ]);
+    });
+
+    it('should reject output for questions that do not ask for it', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(testQuestion);
+
+      expect(() => answerManager.submitOutput('test-q1', '3'))
+        .toThrow('Answer validation failed: Question test-q1 does not ask for the output of its code');
+      expect(mockStateManager.updateQuestionState).not.toHaveBeenCalled();
+    });
+
+    it('should compare the stored output again for the explanation', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(predictOutput);
+      mockStateManager.getQuestionState.mockReturnValue({
+        selectedAnswers: [],
+        isSubmitted: true,
+        isCorrect: false,
+        submittedOutput: '4'
+      });
+
+      expect(answerManager.getOutputComparison('po-1')?.isMatch).toBe(false);
+      expect(answerManager.getOutputComparison('other')).toBeNull();
+    });
+
+    it('should have no comparison before output is submitted', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(predictOutput);
+      mockStateManager.getQuestionState.mockReturnValue(null);
+
+      expect(answerManager.getOutputComparison('po-1')).toBeNull();
+    });
+  });
+
+  describe('review scheduling', () => {
+    let mockReviewScheduler: jest.Mocked<IReviewScheduler>;
+
+    beforeEach(() => {
+      mockReviewScheduler = {
+        hydrate: vi.fn(),
+        recordReview: vi.fn(),
+        getReviewState: vi.fn(),
+        getAllReviewStates: vi.fn(),
+        isDue: vi.fn(),
+        getDueQuestionIds: vi.fn(),
+        reset: vi.fn()
+      };
+
+      answerManager = new AnswerManager(mockValidator, mockStateManager, mockQuestionManager, mockReviewScheduler);
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(testQuestion);
+    });
+
+    it('should reschedule a correctly answered question as good', () => {
+      mockValidator.validate.mockReturnValue({ isValid: true, errors: [], metadata: { isCorrect: true } });
+
+      answerManager.submitAnswer('test-q1', [1]);
+
+      expect(mockReviewScheduler.recordReview).toHaveBeenCalledWith('test-q1', 'good');
+    });
+
+    it('should reschedule an incorrectly answered question as again', () => {
+      mockValidator.validate.mockReturnValue({ isValid: true, errors: [], metadata: { isCorrect: false } });
+
+      answerManager.submitAnswer('test-q1', [0]);
+
+      expect(mockReviewScheduler.recordReview).toHaveBeenCalledWith('test-q1', 'again');
+    });
+
+    it('should reschedule self-assessed flip cards', () => {
+      mockQuestionManager.getCurrentQuestion.mockReturnValue(
+        new FlipCardQuestion('fc-1', 'What is a variable?', 'A named storage location', '', 'basics', 'easy')
+      );
+
+      answerManager.recordSelfAssessment('fc-1', false);
+
+      expect(mockReviewScheduler.recordReview).toHaveBeenCalledWith('fc-1', 'again');
+    });
+
+    it('should record every attempt in the attempt history', () => {
+      const attemptHistory = new AttemptHistory();
+      answerManager = new AnswerManager(
+        mockValidator, mockStateManager, mockQuestionManager, mockReviewScheduler, undefined, attemptHistory
+      );
+      mockValidator.validate.mockReturnValue({ isValid: true, errors: [], metadata: { isCorrect: false, score: 0.5 } });
+
+      answerManager.submitAnswer('test-q1', [0]);
+      answerManager.submitAnswer('test-q1', [0]);
+
+      expect(attemptHistory.getAttempts().map(({ questionId, isCorrect, score }) => ({ questionId, isCorrect, score })))
+        .toEqual([
+          { questionId: 'test-q1', isCorrect: false, score: 0.5 },
+          { questionId: 'test-q1', isCorrect: false, score: 0.5 }
+        ]);
+    });
+
+    it('should not reschedule when validation fails', () => {
+      mockValidator.validate.mockReturnValue({ isValid: false, errors: ['No answer selected'] });
+
+      expect(() => answerManager.submitAnswer('test-q1', [])).toThrow();
+      expect(mockReviewScheduler.recordReview).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { AnswerValidator } from '../../src/services/AnswerValidator';
 import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
 import { Option } from '../../src/models/Option';
+import { ProportionalScoring } from '../../src/services/scoring';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
 
 describe('AnswerValidator', () => {
@@ -228,4 +229,34 @@ describe('AnswerValidator', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('scoreAnswer', () => {
+    it('should score all-or-nothing by default', () => {
+      expect(validator.scoreAnswer(multipleAnswerQuestion, [0, 1])).toBe(1);
+      expect(validator.scoreAnswer(multipleAnswerQuestion, [0])).toBe(0);
+    });
+
+    it('should score with the given strategy', () => {
+      const proportionalValidator = new AnswerValidator(new ProportionalScoring());
+
+      expect(proportionalValidator.scoreAnswer(multipleAnswerQuestion, [0])).toBe(0.5);
+      expect(proportionalValidator.scoreAnswer(multipleAnswerQuestion, [0, 1])).toBe(1);
+    });
+
+    it('should include the score in validation metadata', () => {
+      const proportionalValidator = new AnswerValidator(new ProportionalScoring());
+
+      const result = proportionalValidator.validate(multipleAnswerQuestion, [1]);
+
+      expect(result.metadata?.isCorrect).toBe(false);
+      expect(result.metadata?.score).toBe(0.5);
+    });
+
+    it('should score invalid submissions as 0', () => {
+      const result = new AnswerValidator(new ProportionalScoring()).validate(multipleAnswerQuestion, [0, 9]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.metadata?.score).toBe(0);
+    });
+  });
 });
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ApplicationBootstrap } from '../../src/services/ApplicationBootstrap';
 import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
+import type { IQuestionLoader } from '../../src/interfaces/repositories/IQuestionLoader';
 import type { IStateManager } from '../../src/interfaces/services/IStateManager';
 import type { IErrorHandler } from '../../src/interfaces/errors/IErrorHandler';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+import type { IQuestionFileSchemaValidator } from '../../src/interfaces/validation/ISchemaValidator';
+import { ValidationError } from '../../src/errors/ValidationError';
 
 describe('ApplicationBootstrap', () => {
   let bootstrap: ApplicationBootstrap;
   let mockQuestionRepository: IQuestionRepository;
+  let mockQuestionLoader: IQuestionLoader;
   let mockStateManager: IStateManager;
   let mockErrorHandler: IErrorHandler;
   let mockQuestions: IQuestion[];
@@ -30,6 +34,16 @@ describe('ApplicationBootstrap', () => {
     // Create mock repository
     mockQuestionRepository = {
       loadQuestions: vi.fn().mockResolvedValue(mockQuestions),
+      loadQuestionsFromPaths: vi.fn().mockImplementation(async (paths: string[], onFileLoaded) => {
+        paths.forEach((filePath, index) => onFileLoaded?.({
+          filePath,
+          filesLoaded: index + 1,
+          totalFiles: paths.length,
+          questionsInFile: 1
+        }));
+        return mockQuestions;
+      }),
+      getQuestionPaths: vi.fn().mockReturnValue(['data/questions/default.json']),
       getQuestionById: vi.fn(),
       getQuestionsByCategory: vi.fn(),
       getTotalCount: vi.fn().mockResolvedValue(mockQuestions.length),
@@ -39,10 +53,12 @@ describe('ApplicationBootstrap', () => {
 
     // Create mock state manager
     mockStateManager = {
+      hydrate: vi.fn().mockResolvedValue(undefined),
       getApplicationState: vi.fn(),
       updateQuestionState: vi.fn(),
       getQuestionState: vi.fn(),
       resetApplicationState: vi.fn(),
+      clearQuestionStates: vi.fn(),
       setCurrentQuestionIndex: vi.fn(),
       getCurrentQuestionIndex: vi.fn(),
       setTotalQuestions: vi.fn(),
@@ -56,14 +72,47 @@ describe('ApplicationBootstrap', () => {
       canHandle: vi.fn().mockReturnValue(true)
     };
 
+    // Create mock loader whose manifest lists one existing file
+    mockQuestionLoader = {
+      loadFromJson: vi.fn(),
+      loadFromMultipleJson: vi.fn(),
+      loadFromDirectory: vi.fn(),
+      loadManifest: vi.fn(),
+      discoverQuestionFiles: vi.fn().mockResolvedValue({
+        files: [{ category: 'basics', subcategory: 'variables', filePath: 'data/questions/basics/variables.json' }],
+        missing: []
+      })
+    };
+
     bootstrap = new ApplicationBootstrap(
       mockQuestionRepository,
       mockStateManager,
-      mockErrorHandler
+      mockErrorHandler,
+      mockQuestionLoader,
+      ['data/questions/default.json'],
+      'data'
     );
   });
 
   describe('initialize', () => {
+    it('should restore saved progress before loading questions', async () => {
+      const onProgress = vi.fn();
+      const order: string[] = [];
+      vi.mocked(mockStateManager.hydrate).mockImplementation(async () => {
+        order.push('hydrate');
+      });
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths).mockImplementation(async () => {
+        order.push('load');
+        return mockQuestions;
+      });
+
+      const result = await bootstrap.initialize({ onProgress });
+
+      expect(result.success).toBe(true);
+      expect(order).toEqual(['hydrate', 'load']);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'restoring', progress: 20 }));
+    });
+
     it('should successfully initialize with default options', async () => {
       const result = await bootstrap.initialize();
 
@@ -97,11 +146,51 @@ describe('ApplicationBootstrap', () => {
       );
     });
 
+    it('should load the default question paths when none are given', async () => {
+      await bootstrap.initialize();
+
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledWith(
+        ['data/questions/default.json'],
+        expect.any(Function)
+      );
+    });
+
+    it('should load exactly the question paths it is given', async () => {
+      const questionPaths = ['data/questions/a.json', 'data/questions/b.json'];
+
+      const result = await bootstrap.initialize({ questionPaths });
+
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledWith(
+        questionPaths,
+        expect.any(Function)
+      );
+      expect(result.filesProcessed).toBe(2);
+    });
+
+    it('should emit one progress event per loaded file with accurate counts', async () => {
+      const onProgress = vi.fn();
+      const questionPaths = ['data/questions/a.json', 'data/questions/b.json', 'data/questions/c.json'];
+
+      await bootstrap.initialize({ questionPaths, onProgress });
+
+      const fileEvents = onProgress.mock.calls
+        .map(([progress]) => progress)
+        .filter(progress => progress.currentFile);
+
+      expect(fileEvents).toHaveLength(3);
+      expect(fileEvents.map(event => event.currentFile)).toEqual(questionPaths);
+      expect(fileEvents.map(event => event.filesLoaded)).toEqual([1, 2, 3]);
+      expect(fileEvents.every(event => event.totalFiles === 3)).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ stage: 'complete', filesLoaded: 3, totalFiles: 3 })
+      );
+    });
+
     it('should handle repository loading errors', async () => {
       const loadError = new Error('Failed to load questions');
-      vi.mocked(mockQuestionRepository.loadQuestions).mockRejectedValue(loadError);
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths).mockRejectedValue(loadError);
 
-      const result = await bootstrap.initialize();
+      const result = await bootstrap.initialize({ retryDelay: 0 });
 
       expect(result.success).toBe(false);
       expect(result.errors).toContain(loadError);
@@ -109,7 +198,7 @@ describe('ApplicationBootstrap', () => {
     });
 
     it('should retry on failure when enabled', async () => {
-      vi.mocked(mockQuestionRepository.loadQuestions)
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths)
         .mockRejectedValueOnce(new Error('First attempt failed'))
         .mockResolvedValueOnce(mockQuestions);
 
@@ -120,7 +209,17 @@ describe('ApplicationBootstrap', () => {
       });
 
       expect(result.success).toBe(true);
-      expect(mockQuestionRepository.loadQuestions).toHaveBeenCalledTimes(3); // Called during validation too
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry when retry is disabled', async () => {
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths)
+        .mockRejectedValue(new Error('Load failed'));
+
+      const result = await bootstrap.initialize({ enableRetry: false, maxRetries: 3 });
+
+      expect(result.success).toBe(false);
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledTimes(1);
     });
 
     it('should validate loaded questions', async () => {
@@ -133,21 +232,184 @@ describe('ApplicationBootstrap', () => {
     });
   });
 
+  describe('schema validation', () => {
+    let schemaValidator: IQuestionFileSchemaValidator;
+
+    beforeEach(() => {
+      schemaValidator = {
+        validateFile: vi.fn(),
+        validateFiles: vi.fn().mockResolvedValue({ isValid: true, filesChecked: 1, violations: [] })
+      };
+      bootstrap = new ApplicationBootstrap(
+        mockQuestionRepository,
+        mockStateManager,
+        mockErrorHandler,
+        mockQuestionLoader,
+        ['data/questions/default.json'],
+        'data',
+        schemaValidator
+      );
+    });
+
+    it('should check the loaded files against their schema while validating', async () => {
+      const stages: string[] = [];
+
+      const result = await bootstrap.initialize({ onProgress: progress => stages.push(progress.stage) });
+
+      expect(schemaValidator.validateFiles).toHaveBeenCalledWith(['data/questions/default.json']);
+      expect(result.errors).toEqual([]);
+      expect(stages.indexOf('validating')).toBeLessThan(stages.indexOf('complete'));
+    });
+
+    it('should report violations with file, question id and pointer without failing startup', async () => {
+      vi.mocked(schemaValidator.validateFiles).mockResolvedValue({
+        isValid: false,
+        filesChecked: 1,
+        violations: [{
+          filePath: 'data/questions/default.json',
+          questionId: 'Basics_1',
+          pointer: '/questions/0/id',
+          keyword: 'pattern',
+          message: 'must match pattern ^[a-z]+-[0-9]{4}$'
+        }]
+      });
+
+      const result = await bootstrap.initialize();
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toHaveLength(1);
+      const error = result.errors[0] as ValidationError;
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe('Question files do not match their schema (1 violation)');
+      expect(error.validationErrors).toEqual([
+        'data/questions/default.json › Basics_1 › /questions/0/id: must match pattern ^[a-z]+-[0-9]{4}$'
+      ]);
+      expect(mockErrorHandler.handleError).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('search index', () => {
+    it('should build the search index after loading the questions', async () => {
+      const onProgress = vi.fn();
+      const searchService = { buildIndex: vi.fn().mockResolvedValue(1), search: vi.fn() };
+      bootstrap = new ApplicationBootstrap(
+        mockQuestionRepository,
+        mockStateManager,
+        mockErrorHandler,
+        mockQuestionLoader,
+        ['data/questions/default.json'],
+        'data',
+        undefined,
+        undefined,
+        searchService
+      );
+
+      const result = await bootstrap.initialize({ onProgress });
+
+      expect(result.success).toBe(true);
+      expect(searchService.buildIndex).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'indexing', progress: 90 }));
+    });
+
+    it('should start without search when the index cannot be built', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const searchService = { buildIndex: vi.fn().mockRejectedValue(new Error('out of memory')), search: vi.fn() };
+      bootstrap = new ApplicationBootstrap(
+        mockQuestionRepository,
+        mockStateManager,
+        mockErrorHandler,
+        mockQuestionLoader,
+        ['data/questions/default.json'],
+        'data',
+        undefined,
+        undefined,
+        searchService
+      );
+
+      const result = await bootstrap.initialize();
+
+      expect(result.success).toBe(true);
+      expect(warn).toHaveBeenCalledWith('Search index not built: out of memory');
+      warn.mockRestore();
+    });
+  });
+
+  describe('offline status', () => {
+    it('should report running from cache when the offline status says so', async () => {
+      const onProgress = vi.fn();
+      bootstrap = new ApplicationBootstrap(
+        mockQuestionRepository,
+        mockStateManager,
+        mockErrorHandler,
+        mockQuestionLoader,
+        ['data/questions/default.json'],
+        'data',
+        undefined,
+        { isRunningFromCache: () => true }
+      );
+
+      const result = await bootstrap.initialize({ onProgress });
+
+      expect(result.runningFromCache).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ stage: 'complete', message: expect.stringContaining('(offline, from cache)') })
+      );
+    });
+
+    it('should report running from the network without an offline status', async () => {
+      const result = await bootstrap.initialize();
+
+      expect(result.runningFromCache).toBe(false);
+    });
+  });
+
   describe('attemptRecovery', () => {
-    it('should attempt recovery with minimal configuration', async () => {
+    it('should recover by loading the existing files listed in the manifest', async () => {
       const originalError = new Error('Original initialization failed');
 
       const result = await bootstrap.attemptRecovery(originalError);
 
       expect(result.success).toBe(true);
-      expect(mockQuestionRepository.loadQuestions).toHaveBeenCalled();
+      expect(mockQuestionLoader.discoverQuestionFiles).toHaveBeenCalledWith('data');
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledWith(
+        ['data/questions/basics/variables.json'],
+        expect.any(Function)
+      );
+    });
+
+    it('should fall back to the default paths when the manifest has no other files', async () => {
+      vi.mocked(mockQuestionLoader.discoverQuestionFiles).mockResolvedValue({ files: [], missing: [] });
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths)
+        .mockRejectedValueOnce(new Error('Custom paths failed'));
+      await bootstrap.initialize({ questionPaths: ['custom/path.json'], enableRetry: false });
+
+      const result = await bootstrap.attemptRecovery(new Error('Custom paths failed'));
+
+      expect(result.success).toBe(true);
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenLastCalledWith(
+        ['data/questions/default.json'],
+        expect.any(Function)
+      );
+    });
+
+    it('should not retry the path set that already failed', async () => {
+      vi.mocked(mockQuestionLoader.discoverQuestionFiles).mockResolvedValue({ files: [], missing: [] });
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths)
+        .mockRejectedValueOnce(new Error('Default paths failed'));
+      await bootstrap.initialize({ enableRetry: false });
+
+      const result = await bootstrap.attemptRecovery(new Error('Default paths failed'));
+
+      expect(result.success).toBe(false);
+      expect(mockQuestionRepository.loadQuestionsFromPaths).toHaveBeenCalledTimes(1);
+      expect(result.errors[1].message).toContain('recovery question paths');
     });
 
     it('should handle recovery failure', async () => {
       const originalError = new Error('Original initialization failed');
       const recoveryError = new Error('Recovery also failed');
       
-      vi.mocked(mockQuestionRepository.loadQuestions).mockRejectedValue(recoveryError);
+      vi.mocked(mockQuestionRepository.loadQuestionsFromPaths).mockRejectedValue(recoveryError);
 
       const result = await bootstrap.attemptRecovery(originalError);
 
@@ -131,6 +131,7 @@ describe('ApplicationFactory', () => {
       const result = context.answerManager.submitAnswer('test', [0]);
       expect(result).toEqual({
         isCorrect: false,
+        score: 0,
         correctAnswers: [],
         explanation: '',
         selectedAnswers: []
@@ -148,11 +149,13 @@ describe('ApplicationFactory', () => {
       expect(state).toEqual({
         currentQuestionIndex: 0,
         questionStates: new Map(),
+        bookmarkedQuestionIds: new Set(),
         isInitialized: false,
         totalQuestions: 0
       });
 
       expect(context.stateManager.getQuestionState('test')).toBeNull();
+      expect(context.stateManager.isBookmarked('test')).toBe(false);
       expect(context.stateManager.getCurrentQuestionIndex()).toBe(0);
       expect(context.stateManager.isInitialized()).toBe(false);
     });
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CategoryCatalogService } from '../../src/services/CategoryCatalogService';
+import { AttemptHistory } from '../../src/services/analytics/AttemptHistory';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../src/models/Option';
+import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+import type { IQuestionLoader, RawCategoryManifest } from '../../src/interfaces/repositories/IQuestionLoader';
+import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
+
+const createQuestion = (id: string, category: string, subcategory: string): IQuestion =>
+  new MultipleChoiceQuestion(
+    id,
+    `Question ${id}?`,
+    [new Option('a', 'A'), new Option('b', 'B')],
+    [0],
+    'Explanation',
+    category,
+    'easy',
+    undefined,
+    { subcategory }
+  );
+
+const manifest: RawCategoryManifest = {
+  version: 1,
+  lastUpdated: '2025-01-01',
+  categories: {
+    oop: {
+      name: 'Object-Oriented Programming',
+      description: 'Classes and inheritance',
+      icon: '🏗️',
+      color: '#2b6cb0',
+      difficultyRange: [2, 4],
+      estimatedTimeMinutes: 30,
+      subcategories: {
+        classes: { name: 'Classes', description: 'Class basics', file: 'questions/oop/classes.json', questionCount: 0, avgDifficulty: 0 }
+      }
+    },
+    basics: {
+      name: 'C# Basics',
+      description: 'Syntax and types',
+      icon: '📘',
+      color: '#38a169',
+      difficultyRange: [1, 2],
+      estimatedTimeMinutes: 20,
+      subcategories: {
+        'data-types': { name: 'Data Types', description: 'Value and reference types', file: 'questions/basics/data-types.json', questionCount: 0, avgDifficulty: 0 },
+        operators: { name: 'Operators', description: 'Arithmetic and logic', file: 'questions/basics/operators.json', questionCount: 0, avgDifficulty: 0 }
+      }
+    }
+  }
+};
+
+describe('CategoryCatalogService', () => {
+  let questionLoader: IQuestionLoader;
+  let questionRepository: IQuestionRepository;
+  let attemptHistory: AttemptHistory;
+  let service: CategoryCatalogService;
+  let questions: IQuestion[];
+
+  const answer = (questionId: string, isCorrect: boolean) => {
+    attemptHistory.recordAttempt(questionId, { isCorrect, score: isCorrect ? 1 : 0 });
+  };
+
+  beforeEach(() => {
+    questions = [
+      createQuestion('basics-0001', 'basics', 'data-types'),
+      createQuestion('basics-0002', 'basics', 'data-types'),
+      createQuestion('basics-0003', 'basics', 'strings'),
+      createQuestion('oop-0001', 'oop', 'classes'),
+      createQuestion('async-0001', 'async', 'tasks')
+    ];
+
+    questionLoader = {
+      loadManifest: vi.fn().mockResolvedValue(manifest)
+    } as unknown as IQuestionLoader;
+    questionRepository = {
+      loadQuestions: vi.fn().mockImplementation(async () => questions)
+    } as unknown as IQuestionRepository;
+    attemptHistory = new AttemptHistory();
+    service = new CategoryCatalogService(questionLoader, questionRepository, attemptHistory);
+  });
+
+  it('should list manifest categories in manifest order with their names and question counts', async () => {
+    const categories = await service.getCategories();
+
+    expect(questionLoader.loadManifest).toHaveBeenCalledWith('data');
+    expect(categories.map(category => category.id)).toEqual(['oop', 'basics', 'async']);
+    expect(categories[1]).toMatchObject({
+      name: 'C# Basics',
+      icon: '📘',
+      estimatedTimeMinutes: 20,
+      questionCount: 3
+    });
+    expect(categories[1].subcategories.map(subcategory => [subcategory.id, subcategory.questionCount]))
+      .toEqual([['data-types', 2], ['operators', 0], ['strings', 1]]);
+  });
+
+  it('should list categories and subcategories the manifest does not mention under their keys', async () => {
+    const categories = await service.getCategories();
+    const unlisted = categories.find(category => category.id === 'async');
+
+    expect(unlisted).toMatchObject({ name: 'async', estimatedTimeMinutes: null, questionCount: 1 });
+    expect(unlisted?.subcategories).toEqual([
+      expect.objectContaining({ id: 'tasks', name: 'tasks', isListed: false, questionCount: 1 })
+    ]);
+    expect(categories[1].subcategories.find(subcategory => subcategory.id === 'strings')?.isListed).toBe(false);
+    expect(categories[1].subcategories.find(subcategory => subcategory.id === 'data-types')?.isListed).toBe(true);
+  });
+
+  it('should count unlisted subcategories with the same key separately in each category', async () => {
+    questions.push(createQuestion('async-0002', 'async', 'strings'), createQuestion('async-0003', 'async', 'strings'));
+
+    const categories = await service.getCategories();
+
+    expect(categories[1].subcategories.find(subcategory => subcategory.id === 'strings')?.questionCount).toBe(1);
+    expect(categories[2].subcategories.find(subcategory => subcategory.id === 'strings')?.questionCount).toBe(2);
+  });
+
+  it('should measure mastery from the latest answer to each question', async () => {
+    answer('basics-0001', true);
+    answer('basics-0002', false);
+    answer('basics-0003', true);
+    answer('basics-0003', false);
+
+    const basics = (await service.getCategories()).find(category => category.id === 'basics');
+
+    expect(basics).toMatchObject({ questionCount: 3, answeredCount: 3, correctCount: 1, masteryPercentage: 33 });
+    expect(basics?.subcategories[0]).toMatchObject({ answeredCount: 2, correctCount: 1, masteryPercentage: 50 });
+    expect(basics?.subcategories[1]).toMatchObject({ questionCount: 0, masteryPercentage: 0 });
+  });
+
+  it('should list categories from the questions when the manifest cannot be loaded', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(questionLoader.loadManifest).mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+    const categories = await service.getCategories();
+
+    expect(categories.map(category => category.id)).toEqual(['basics', 'oop', 'async']);
+    expect(categories.every(category => category.subcategories.every(subcategory => !subcategory.isListed))).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('HTTP 404: Not Found'));
+    warn.mockRestore();
+  });
+
+  it('should propagate question loading failures', async () => {
+    vi.mocked(questionRepository.loadQuestions).mockRejectedValue(new Error('Failed to load questions'));
+
+    await expect(service.getCategories()).rejects.toThrow('Failed to load questions');
+  });
+});
@@ -3,7 +3,9 @@ import { QuestionManager } from '../../src/services/QuestionManager';
 import type { IQuestionRepository } from '../../src/interfaces/repositories/IQuestionRepository';
 import type { IShuffleService } from '../../src/interfaces/services/IShuffleService';
 import type { IStateManager } from '../../src/interfaces/services/IStateManager';
+import type { IReviewScheduler } from '../../src/interfaces/services/IReviewScheduler';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+import { StateManager } from '../../src/services/StateManager';
 import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
 import { Option } from '../../src/models/Option';
 
@@ -19,11 +21,13 @@ describe('QuestionManager', () => {
     mockQuestionRepository = {
       loadQuestions: vi.fn(),
       getQuestionById: vi.fn(),
-      getQuestionsByCategory: vi.fn()
+      getQuestionsByCategory: vi.fn(),
+      queryQuestions: vi.fn()
     } as jest.Mocked<IQuestionRepository>;
 
     // Create mock shuffle service
     mockShuffleService = {
+      reseed: vi.fn((seed?: number) => seed ?? 42),
       shuffleQuestions: vi.fn(),
       shuffleQuestionOptions: vi.fn(),
       shuffleOptionsWithMapping: vi.fn(),
@@ -38,7 +42,8 @@ describe('QuestionManager', () => {
       setInitialized: vi.fn(),
       getApplicationState: vi.fn(),
       updateQuestionState: vi.fn(),
-      resetApplicationState: vi.fn()
+      resetApplicationState: vi.fn(),
+      clearQuestionStates: vi.fn()
     } as jest.Mocked<IStateManager>;
 
     // Create mock questions
@@ -107,6 +112,33 @@ describe('QuestionManager', () => {
       expect(mockStateManager.setInitialized).toHaveBeenCalledWith(true);
     });
 
+    it('should start at the first question even when an earlier session saved a later index', async () => {
+      const stateManager = new StateManager();
+      stateManager.setCurrentQuestionIndex(7);
+      mockQuestionRepository.queryQuestions.mockResolvedValue([mockQuestions[2]]);
+      const manager = new QuestionManager(mockQuestionRepository, mockShuffleService, stateManager);
+
+      await manager.initialize({ filter: { ids: ['3'] } });
+
+      expect(manager.getCurrentIndex()).toBe(0);
+      expect(manager.getCurrentQuestion()?.id).toBe('3');
+    });
+
+    it('should start without the answers of an earlier session but keep bookmarks', async () => {
+      const stateManager = new StateManager();
+      stateManager.updateQuestionState('1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true, score: 1 });
+      stateManager.setBookmarked('1', true);
+      const manager = new QuestionManager(mockQuestionRepository, mockShuffleService, stateManager);
+
+      await manager.initialize();
+      expect(stateManager.getQuestionState('1')).toBeNull();
+      expect(stateManager.isBookmarked('1')).toBe(true);
+
+      stateManager.updateQuestionState('2', { selectedAnswers: [1], isSubmitted: true, isCorrect: false, score: 0 });
+      await manager.startNewSession();
+      expect(stateManager.getQuestionState('2')).toBeNull();
+    });
+
     it('should throw error when initializing twice', async () => {
       await questionManager.initialize();
 
@@ -227,6 +259,7 @@ describe('QuestionManager', () => {
     it('should return false when at last question', async () => {
       mockStateManager.getCurrentQuestionIndex.mockReturnValue(2); // Last question (index 2)
       await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
 
       const result = questionManager.moveToNext();
 
@@ -237,6 +270,7 @@ describe('QuestionManager', () => {
     it('should return false when beyond last question', async () => {
       mockStateManager.getCurrentQuestionIndex.mockReturnValue(5); // Beyond bounds
       await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
 
       const result = questionManager.moveToNext();
 
@@ -280,6 +314,7 @@ describe('QuestionManager', () => {
     it('should return false when at first question', async () => {
       mockStateManager.getCurrentQuestionIndex.mockReturnValue(0);
       await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
 
       const result = questionManager.moveToPrevious();
 
@@ -290,6 +325,7 @@ describe('QuestionManager', () => {
     it('should return false when before first question', async () => {
       mockStateManager.getCurrentQuestionIndex.mockReturnValue(-1);
       await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
 
       const result = questionManager.moveToPrevious();
 
@@ -298,6 +334,33 @@ describe('QuestionManager', () => {
     });
   });
 
+  describe('moveTo', () => {
+    it('should throw error when not initialized', () => {
+      expect(() => questionManager.moveTo(0)).toThrow(
+        'QuestionManager must be initialized before use'
+      );
+    });
+
+    it('should move to the question at the given position', async () => {
+      await questionManager.initialize();
+
+      const result = questionManager.moveTo(mockQuestions.length - 1);
+
+      expect(result).toBe(true);
+      expect(mockStateManager.setCurrentQuestionIndex).toHaveBeenCalledWith(mockQuestions.length - 1);
+    });
+
+    it('should return false for positions outside the session', async () => {
+      await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
+
+      expect(questionManager.moveTo(-1)).toBe(false);
+      expect(questionManager.moveTo(mockQuestions.length)).toBe(false);
+      expect(questionManager.moveTo(0.5)).toBe(false);
+      expect(mockStateManager.setCurrentQuestionIndex).not.toHaveBeenCalled();
+    });
+  });
+
   describe('resetCurrent', () => {
     it('should throw error when not initialized', () => {
       expect(() => questionManager.resetCurrent()).toThrow(
@@ -324,6 +387,7 @@ describe('QuestionManager', () => {
     it('should not affect question navigation state', async () => {
       mockStateManager.getCurrentQuestionIndex.mockReturnValue(1);
       await questionManager.initialize();
+      mockStateManager.setCurrentQuestionIndex.mockClear();
 
       questionManager.resetCurrent();
 
@@ -464,5 +528,199 @@ describe('QuestionManager', () => {
       expect(mockShuffleService.shuffleQuestions).not.toHaveBeenCalled();
       expect(mockShuffleService.shuffleQuestionOptions).not.toHaveBeenCalled();
     });
+
+    it('should shuffle from the given seed and expose it as the session seed', async () => {
+      await questionManager.initialize({ seed: 1234 });
+      
+      expect(mockShuffleService.reseed).toHaveBeenCalledWith(1234);
+      expect(mockShuffleService.reseed.mock.invocationCallOrder[0])
+        .toBeLessThan(mockShuffleService.shuffleQuestions.mock.invocationCallOrder[0]);
+      expect(questionManager.getSessionSeed()).toBe(1234);
+    });
+
+    it('should record the drawn seed when none is given', async () => {
+      await questionManager.initialize();
+      
+      expect(mockShuffleService.reseed).toHaveBeenCalledWith(undefined);
+      expect(questionManager.getSessionSeed()).toBe(42);
+    });
+
+    it('should have no session seed when nothing is shuffled', async () => {
+      await questionManager.initialize({ shuffleQuestions: false, shuffleOptions: false, seed: 1234 });
+      
+      expect(mockShuffleService.reseed).not.toHaveBeenCalled();
+      expect(questionManager.getSessionSeed()).toBeNull();
+    });
+
+    it('should fail to initialize with an invalid seed', async () => {
+      mockShuffleService.reseed.mockImplementation(() => {
+        throw new Error('Seed must be a whole number between 0 and 4294967295');
+      });
+      
+      await expect(questionManager.initialize({ seed: -1 })).rejects.toThrow(
+        'Failed to initialize QuestionManager: Seed must be a whole number between 0 and 4294967295'
+      );
+      expect(questionManager.getSessionSeed()).toBeNull();
+    });
+  });
+
+  describe('due review queue', () => {
+    let mockReviewScheduler: jest.Mocked<IReviewScheduler>;
+
+    beforeEach(() => {
+      mockReviewScheduler = {
+        hydrate: vi.fn(),
+        recordReview: vi.fn(),
+        getReviewState: vi.fn(),
+        getAllReviewStates: vi.fn(),
+        isDue: vi.fn(),
+        getDueQuestionIds: vi.fn(),
+        reset: vi.fn()
+      } as jest.Mocked<IReviewScheduler>;
+
+      questionManager = new QuestionManager(
+        mockQuestionRepository,
+        mockShuffleService,
+        mockStateManager,
+        mockReviewScheduler
+      );
+    });
+
+    it('should serve only due questions in scheduler order when dueOnly is enabled', async () => {
+      mockReviewScheduler.getDueQuestionIds.mockReturnValue(['3', '1']);
+
+      await questionManager.initialize({ dueOnly: true, shuffleQuestions: false, shuffleOptions: false });
+
+      expect(mockReviewScheduler.getDueQuestionIds).toHaveBeenCalledWith(['1', '2', '3']);
+      expect(questionManager.getTotalCount()).toBe(2);
+      expect(questionManager.getCurrentQuestion()?.id).toBe('3');
+      expect(mockStateManager.setTotalQuestions).toHaveBeenCalledWith(2);
+    });
+
+    it('should keep the scheduler order of due questions even when shuffling is enabled', async () => {
+      mockReviewScheduler.getDueQuestionIds.mockReturnValue(['3', '1']);
+
+      await questionManager.initialize({ dueOnly: true });
+
+      expect(mockShuffleService.shuffleQuestions).not.toHaveBeenCalled();
+      expect(mockShuffleService.shuffleQuestionOptions).toHaveBeenCalledTimes(2);
+      expect(questionManager.getSessionQuestions().map(question => question.id)).toEqual(['3', '1']);
+    });
+
+    it('should serve the full list when dueOnly is not enabled', async () => {
+      await questionManager.initialize({ shuffleQuestions: false, shuffleOptions: false });
+
+      expect(mockReviewScheduler.getDueQuestionIds).not.toHaveBeenCalled();
+      expect(questionManager.getTotalCount()).toBe(3);
+    });
+
+    it('should fail when nothing is due', async () => {
+      mockReviewScheduler.getDueQuestionIds.mockReturnValue([]);
+
+      await expect(questionManager.initialize({ dueOnly: true })).rejects.toThrow('No questions are due for review');
+    });
+
+    it('should fail when dueOnly is requested without a scheduler', async () => {
+      const managerWithoutScheduler = new QuestionManager(mockQuestionRepository, mockShuffleService, mockStateManager);
+
+      await expect(managerWithoutScheduler.initialize({ dueOnly: true })).rejects.toThrow(
+        'A review scheduler is required to serve due questions'
+      );
+    });
+  });
+
+  describe('deck filter', () => {
+    it('should load the deck through the repository query before shuffling', async () => {
+      const filter = { categories: ['basics'], tags: ['strings'], tagMatch: 'all' as const };
+      mockQuestionRepository.queryQuestions.mockResolvedValue([mockQuestions[0]]);
+
+      await questionManager.initialize({ filter, shuffleOptions: false });
+
+      expect(mockQuestionRepository.queryQuestions).toHaveBeenCalledWith(filter);
+      expect(mockQuestionRepository.loadQuestions).not.toHaveBeenCalled();
+      expect(mockShuffleService.shuffleQuestions).toHaveBeenCalledWith([mockQuestions[0]]);
+      expect(mockStateManager.setTotalQuestions).toHaveBeenCalledWith(1);
+    });
+
+    it('should draw at most the question limit after shuffling', async () => {
+      mockShuffleService.shuffleQuestions.mockImplementation((questions) => [...questions].reverse());
+
+      await questionManager.initialize({ limit: 2, shuffleOptions: false });
+
+      expect(questionManager.getTotalCount()).toBe(2);
+      expect(questionManager.getCurrentQuestion()?.id).toBe('3');
+    });
+
+    it('should reject a question limit below one', async () => {
+      await expect(questionManager.initialize({ limit: 0 })).rejects.toThrow(
+        'Question limit must be a positive whole number'
+      );
+    });
+
+    it('should fail when no questions match the filter', async () => {
+      mockQuestionRepository.queryQuestions.mockResolvedValue([]);
+
+      await expect(questionManager.initialize({ filter: { ids: ['missing'] } })).rejects.toThrow(
+        'No questions match the deck filter'
+      );
+    });
+  });
+
+  describe('bookmarked deck', () => {
+    beforeEach(() => {
+      mockStateManager.isBookmarked = vi.fn((questionId: string) => questionId === '3' || questionId === '1');
+    });
+
+    it('should serve only bookmarked questions when bookmarkedOnly is enabled', async () => {
+      await questionManager.initialize({ bookmarkedOnly: true, shuffleQuestions: false, shuffleOptions: false });
+
+      expect(questionManager.getSessionQuestions().map(question => question.id)).toEqual(['1', '3']);
+      expect(mockStateManager.setTotalQuestions).toHaveBeenCalledWith(2);
+    });
+
+    it('should fail when no question is bookmarked', async () => {
+      mockStateManager.isBookmarked = vi.fn(() => false);
+
+      await expect(questionManager.initialize({ bookmarkedOnly: true })).rejects.toThrow(
+        'No bookmarked questions to practice'
+      );
+    });
+  });
+
+  describe('new sessions', () => {
+    beforeEach(async () => {
+      await questionManager.initialize({ shuffleQuestions: false, shuffleOptions: false });
+    });
+
+    it('should expose the session questions in order', () => {
+      expect(questionManager.getSessionQuestions().map(question => question.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should replace the session with a new deck from its first question', async () => {
+      mockQuestionRepository.queryQuestions.mockResolvedValue([mockQuestions[2]]);
+
+      await questionManager.startNewSession({ filter: { ids: ['3'] }, shuffleOptions: false });
+
+      expect(mockQuestionRepository.queryQuestions).toHaveBeenCalledWith({ ids: ['3'] });
+      expect(questionManager.getSessionQuestions().map(question => question.id)).toEqual(['3']);
+      expect(mockStateManager.setTotalQuestions).toHaveBeenLastCalledWith(1);
+      expect(mockStateManager.setCurrentQuestionIndex).toHaveBeenLastCalledWith(0);
+    });
+
+    it('should keep the current session when the new deck cannot be loaded', async () => {
+      mockQuestionRepository.queryQuestions.mockResolvedValue([]);
+
+      await expect(questionManager.startNewSession({ filter: { ids: ['missing'] } })).rejects.toThrow(
+        'No questions match the deck filter'
+      );
+      expect(questionManager.getTotalCount()).toBe(3);
+      expect(questionManager.getCurrentQuestion()?.id).toBe('1');
+    });
+
+    it('should require the manager to be initialized', async () => {
+      const uninitializedManager = new QuestionManager(mockQuestionRepository, mockShuffleService, mockStateManager);
+
+      await expect(uninitializedManager.startNewSession()).rejects.toThrow('QuestionManager must be initialized before use');
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandomSource, isValidSeed, MAX_SEED } from '../../src/services/SeededRandomSource';
+
+const draw = (source: SeededRandomSource, count: number): number[] =>
+  Array.from({ length: count }, () => source.next());
+
+describe('SeededRandomSource', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(draw(new SeededRandomSource(42), 10)).toEqual(draw(new SeededRandomSource(42), 10));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(draw(new SeededRandomSource(1), 10)).not.toEqual(draw(new SeededRandomSource(2), 10));
+  });
+
+  it('should produce numbers in the range [0, 1)', () => {
+    const values = draw(new SeededRandomSource(MAX_SEED), 1000);
+
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should restart the sequence when reseeded', () => {
+    const source = new SeededRandomSource(7);
+    const first = draw(source, 5);
+
+    source.reseed(7);
+
+    expect(draw(source, 5)).toEqual(first);
+    expect(source.getSeed()).toBe(7);
+  });
+
+  it('should start from a fresh seed when none is given', () => {
+    const source = new SeededRandomSource();
+
+    expect(isValidSeed(source.getSeed())).toBe(true);
+    expect(isValidSeed(source.createSeed())).toBe(true);
+  });
+
+  it('should reject seeds that are not unsigned 32-bit integers', () => {
+    const source = new SeededRandomSource(1);
+
+    [-1, 1.5, MAX_SEED + 1, Number.NaN].forEach(seed => {
+      expect(() => source.reseed(seed)).toThrow('Seed must be a whole number between 0 and 4294967295');
+    });
+    expect(source.getSeed()).toBe(1);
+  });
+});
@@ -16,6 +16,21 @@ import type { IQuestionLoader } from '../../src/interfaces/repositories/IQuestio
 import type { IQuestionParser } from '../../src/interfaces/repositories/IQuestionParser';
 import type { IAnswerValidator } from '../../src/interfaces/validation/IAnswerValidator';
 import type { IErrorHandler } from '../../src/interfaces/errors/IErrorHandler';
+import type { IReviewAlgorithm, IReviewScheduler } from '../../src/interfaces/services/IReviewScheduler';
+import type { IExamSession } from '../../src/interfaces/services/IExamSession';
+import type { IShuffleService } from '../../src/interfaces/services/IShuffleService';
+import type { IRandomSource } from '../../src/interfaces/services/IRandomSource';
+import type { IQuestionFileSchemaValidator } from '../../src/interfaces/validation/ISchemaValidator';
+import type { IScoringStrategy } from '../../src/interfaces/validation/IScoringStrategy';
+import type { IOutputValidator } from '../../src/interfaces/validation/IOutputValidator';
+import type { ICategoryCatalogService } from '../../src/interfaces/services/ICategoryCatalogService';
+import type { IRouter } from '../../src/interfaces/services/IRouter';
+import { HistoryRouter } from '../../src/services/routing';
+import { QuestionSearchService } from '../../src/services/search';
+import { ShortcutService } from '../../src/services/shortcuts';
+import { AnnotationService } from '../../src/services/annotations';
+import { ProgressTransferService } from '../../src/services/progress';
+import { AttemptHistory, AnalyticsService } from '../../src/services/analytics';
 
 describe('ServiceConfiguration', () => {
   let container: DIContainer;
@@ -129,6 +144,124 @@ describe('ServiceConfiguration', () => {
       expect(typeof errorHandler.handleError).toBe('function');
       expect(typeof errorHandler.canHandle).toBe('function');
     });
+
+    it('should resolve ReviewScheduler with the SM-2 algorithm by default', () => {
+      const reviewScheduler = container.resolve<IReviewScheduler>(ServiceIdentifiers.ReviewScheduler);
+      const algorithm = container.resolve<IReviewAlgorithm>(ServiceIdentifiers.ReviewAlgorithm);
+      
+      expect(typeof reviewScheduler.getDueQuestionIds).toBe('function');
+      expect(algorithm.name).toBe('sm2');
+    });
+
+    it('should resolve the FSRS algorithm when configured', () => {
+      const fsrsContainer = createConfiguredContainer({ reviewAlgorithm: 'fsrs' });
+      
+      expect(fsrsContainer.resolve<IReviewAlgorithm>(ServiceIdentifiers.ReviewAlgorithm).name).toBe('fsrs');
+    });
+
+    it('should resolve the proportional scoring strategy by default', () => {
+      const scoringStrategy = container.resolve<IScoringStrategy>(ServiceIdentifiers.ScoringStrategy);
+      const answerValidator = container.resolve<IAnswerValidator>(ServiceIdentifiers.AnswerValidator);
+      
+      expect(scoringStrategy.name).toBe('proportional');
+      expect(answerValidator.scoreAnswer).toBeDefined();
+    });
+
+    it('should resolve the configured scoring strategy', () => {
+      const penalizedContainer = createConfiguredContainer({ scoringStrategy: 'penalized' });
+      
+      expect(penalizedContainer.resolve<IScoringStrategy>(ServiceIdentifiers.ScoringStrategy).name).toBe('penalized');
+    });
+
+    it('should resolve the output validator with the default normalization', () => {
+      const outputValidator = container.resolve<IOutputValidator>(ServiceIdentifiers.OutputValidator);
+      
+      expect(outputValidator.compare('Hello', 'Hello  \r\n').isMatch).toBe(true);
+      expect(outputValidator.compare('Hello', 'hello').isMatch).toBe(false);
+    });
+
+    it('should resolve the output validator with the configured normalization', () => {
+      const caseInsensitiveContainer = createConfiguredContainer({ outputNormalization: { ignoreCase: true } });
+      const outputValidator = caseInsensitiveContainer.resolve<IOutputValidator>(ServiceIdentifiers.OutputValidator);
+      
+      expect(outputValidator.compare('Hello', 'hello').isMatch).toBe(true);
+    });
+
+    it('should resolve a fresh ExamSession each time', () => {
+      const firstSession = container.resolve<IExamSession>(ServiceIdentifiers.ExamSession);
+      const secondSession = container.resolve<IExamSession>(ServiceIdentifiers.ExamSession);
+      
+      expect(firstSession.isFinished()).toBe(false);
+      expect(firstSession).not.toBe(secondSession);
+    });
+
+    it('should resolve the question file schema validator', () => {
+      const schemaValidator = container.resolve<IQuestionFileSchemaValidator>(ServiceIdentifiers.QuestionFileSchemaValidator);
+      
+      expect(schemaValidator).toBeDefined();
+      expect(container.resolve(ServiceIdentifiers.QuestionFileSchemaValidator)).toBe(schemaValidator);
+    });
+
+    it('should resolve CategoryCatalogService as a singleton', () => {
+      const catalogService = container.resolve<ICategoryCatalogService>(ServiceIdentifiers.CategoryCatalogService);
+      
+      expect(catalogService).toBeDefined();
+      expect(container.resolve(ServiceIdentifiers.CategoryCatalogService)).toBe(catalogService);
+    });
+
+    it('should resolve the question search service as a singleton', () => {
+      const searchService = container.resolve(ServiceIdentifiers.SearchService);
+
+      expect(searchService).toBeInstanceOf(QuestionSearchService);
+      expect(container.resolve(ServiceIdentifiers.SearchService)).toBe(searchService);
+    });
+
+    it('should resolve the shortcut service as a singleton', () => {
+      const shortcutService = container.resolve(ServiceIdentifiers.ShortcutService);
+
+      expect(shortcutService).toBeInstanceOf(ShortcutService);
+      expect(container.resolve(ServiceIdentifiers.ShortcutService)).toBe(shortcutService);
+    });
+
+    it('should resolve the annotation service as a singleton', () => {
+      const annotationService = container.resolve(ServiceIdentifiers.AnnotationService);
+
+      expect(annotationService).toBeInstanceOf(AnnotationService);
+      expect(container.resolve(ServiceIdentifiers.AnnotationService)).toBe(annotationService);
+    });
+
+    it('should resolve the progress transfer service as a singleton', () => {
+      const progressTransferService = container.resolve(ServiceIdentifiers.ProgressTransferService);
+
+      expect(progressTransferService).toBeInstanceOf(ProgressTransferService);
+      expect(container.resolve(ServiceIdentifiers.ProgressTransferService)).toBe(progressTransferService);
+    });
+
+    it('should resolve the attempt history and analytics services as singletons', () => {
+      const attemptHistory = container.resolve(ServiceIdentifiers.AttemptHistory);
+      const analyticsService = container.resolve(ServiceIdentifiers.AnalyticsService);
+
+      expect(attemptHistory).toBeInstanceOf(AttemptHistory);
+      expect(analyticsService).toBeInstanceOf(AnalyticsService);
+      expect(container.resolve(ServiceIdentifiers.AttemptHistory)).toBe(attemptHistory);
+      expect(container.resolve(ServiceIdentifiers.AnalyticsService)).toBe(analyticsService);
+    });
+
+    it('should resolve the browser history router', () => {
+      const router = container.resolve<IRouter>(ServiceIdentifiers.Router);
+      
+      expect(router).toBeInstanceOf(HistoryRouter);
+      expect(container.resolve(ServiceIdentifiers.Router)).toBe(router);
+    });
+
+    it('should shuffle with the registered random source', () => {
+      const shuffleService = container.resolve<IShuffleService>(ServiceIdentifiers.ShuffleService);
+      const randomSource = container.resolve<IRandomSource>(ServiceIdentifiers.RandomSource);
+      
+      shuffleService.reseed(7);
+      
+      expect(randomSource.getSeed()).toBe(7);
+    });
   });
 
   describe('Singleton Behavior', () => {
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionSummaryService } from '../../src/services/SessionSummaryService';
+import { StateManager } from '../../src/services/StateManager';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../src/models/Option';
+import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
+import type { QuestionDifficulty } from '../../src/interfaces/domain/types';
+
+const createQuestion = (id: string, category: string, difficulty: QuestionDifficulty): IQuestion =>
+  new MultipleChoiceQuestion(
+    id,
+    `Question ${id}?`,
+    [new Option('a', 'A'), new Option('b', 'B')],
+    [0],
+    'Explanation',
+    category,
+    difficulty
+  );
+
+describe('SessionSummaryService', () => {
+  let stateManager: StateManager;
+  let service: SessionSummaryService;
+  let questions: IQuestion[];
+
+  const answer = (questionId: string, isCorrect: boolean, score = isCorrect ? 1 : 0) => {
+    stateManager.updateQuestionState(questionId, {
+      selectedAnswers: [isCorrect ? 0 : 1],
+      isSubmitted: true,
+      isCorrect,
+      score,
+      submittedAt: new Date()
+    });
+  };
+
+  beforeEach(() => {
+    stateManager = new StateManager();
+    service = new SessionSummaryService(stateManager);
+    questions = [
+      createQuestion('q1', 'oop', 'hard'),
+      createQuestion('q2', 'basics', 'easy'),
+      createQuestion('q3', 'basics', 'medium'),
+      createQuestion('q4', 'oop', 'easy')
+    ];
+  });
+
+  it('should score answered questions and list incorrect ones in session order', () => {
+    answer('q1', false);
+    answer('q2', true);
+    answer('q3', true);
+    answer('q4', false);
+
+    const summary = service.summarize(questions, 125000);
+
+    expect(summary).toMatchObject({
+      totalQuestions: 4,
+      answeredCount: 4,
+      correctCount: 2,
+      score: 2,
+      scorePercentage: 50,
+      durationMs: 125000,
+      incorrectQuestionIds: ['q1', 'q4']
+    });
+  });
+
+  it('should break accuracy down by category and difficulty', () => {
+    answer('q1', true);
+    answer('q2', true);
+    answer('q4', false);
+
+    const summary = service.summarize(questions, 0);
+
+    expect(summary.byCategory).toEqual([
+      { group: 'basics', correct: 1, score: 1, answered: 1, total: 2, percentage: 100 },
+      { group: 'oop', correct: 1, score: 1, answered: 2, total: 2, percentage: 50 }
+    ]);
+    expect(summary.byDifficulty.map(row => row.group)).toEqual(['easy', 'medium', 'hard']);
+    expect(summary.byDifficulty[0]).toEqual({ group: 'easy', correct: 1, score: 1, answered: 2, total: 2, percentage: 50 });
+    expect(summary.byDifficulty[1]).toEqual({ group: 'medium', correct: 0, score: 0, answered: 0, total: 1, percentage: 0 });
+  });
+
+  it('should add up partial credit and list partially correct answers for review', () => {
+    answer('q1', true);
+    answer('q2', false, 0.5);
+    answer('q3', false, 0.25);
+
+    const summary = service.summarize(questions, 0);
+
+    expect(summary).toMatchObject({ correctCount: 1, score: 1.75, scorePercentage: 58 });
+    expect(summary.byCategory[0]).toMatchObject({ group: 'basics', correct: 0, score: 0.75, percentage: 38 });
+    expect(summary.incorrectQuestionIds).toEqual(['q2', 'q3']);
+  });
+
+  it('should ignore reset answers and questions outside the session', () => {
+    answer('q1', true);
+    answer('other', false);
+    stateManager.updateQuestionState('q2', { selectedAnswers: [], isSubmitted: false, isCorrect: false });
+
+    const summary = service.summarize(questions, 0);
+
+    expect(summary.answeredCount).toBe(1);
+    expect(summary.incorrectQuestionIds).toEqual([]);
+  });
+});
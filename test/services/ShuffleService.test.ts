@@ -3,6 +3,7 @@ import { ShuffleService } from '../../src/services/ShuffleService';
 import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
 import { Option } from '../../src/models/Option';
 import { CodeExample } from '../../src/models/CodeExample';
+import { SeededRandomSource } from '../../src/services/SeededRandomSource';
 import type { IQuestion } from '../../src/interfaces/domain/IQuestion';
 import type { IOption } from '../../src/interfaces/domain/IOption';
 
@@ -207,7 +208,8 @@ describe('ShuffleService', () => {
         'Test explanation',
         'test-category',
         'Medium',
-        codeExample
+        codeExample,
+        { subcategory: 'strings', tags: ['interpolation'], difficultyLevel: 6 }
       );
 
       const result = shuffleService.shuffleQuestionOptions(question);
@@ -218,6 +220,9 @@ describe('ShuffleService', () => {
       expect(result.category).toBe('test-category');
       expect(result.difficulty).toBe('Medium');
       expect(result.codeExample).toBe(codeExample);
+      expect(result.subcategory).toBe('strings');
+      expect(result.tags).toEqual(['interpolation']);
+      expect(result.difficultyLevel).toBe(6);
     });
   });
 
@@ -257,6 +262,48 @@ describe('ShuffleService', () => {
       });
     });
   });
+
+  describe('seeded shuffling', () => {
+    const questions = Array.from({ length: 8 }, (_, index) =>
+      createTestQuestion(`test-${index}`, `Question ${index}?`, ['A', 'B', 'C', 'D'], [index % 4])
+    );
+
+    const shuffleSession = (service: ShuffleService, seed: number) => {
+      service.reseed(seed);
+      return service.shuffleQuestions(questions).map(question => {
+        const shuffled = service.shuffleQuestionOptions(question);
+        return `${shuffled.id}:${shuffled.options.map(option => option.text).join('')}`;
+      });
+    };
+
+    it('should reproduce the question and option order from the same seed', () => {
+      const first = shuffleSession(new ShuffleService(), 20240301);
+      const second = shuffleSession(new ShuffleService(), 20240301);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should give a different order for a different seed', () => {
+      const service = new ShuffleService();
+
+      expect(shuffleSession(service, 1)).not.toEqual(shuffleSession(service, 2));
+    });
+
+    it('should return the seed in use, drawing one when none is given', () => {
+      const randomSource = new SeededRandomSource(5);
+      const service = new ShuffleService(randomSource);
+
+      expect(service.reseed(99)).toBe(99);
+
+      const drawnSeed = service.reseed();
+      expect(drawnSeed).toBe(randomSource.getSeed());
+      expect(Number.isInteger(drawnSeed)).toBe(true);
+    });
+
+    it('should reject invalid seeds', () => {
+      expect(() => shuffleService.reseed(-1)).toThrow('Seed must be a whole number between 0 and 4294967295');
+    });
+  });
 });
 
 /**
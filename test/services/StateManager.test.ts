@@ -1,5 +1,7 @@
 import { StateManager } from '../../src/services/StateManager';
 import type { IQuestionState } from '../../src/interfaces/domain/types';
+import { InMemoryStateStorage } from '../../src/services/state/InMemoryStateStorage';
+import { StateSerializer } from '../../src/services/state/StateSerializer';
 
 describe('StateManager', () => {
   let stateManager: StateManager;
@@ -297,6 +299,44 @@ describe('StateManager', () => {
     });
   });
 
+  describe('bookmarks', () => {
+    it('should bookmark a question and remove the bookmark', () => {
+      stateManager.setBookmarked('question-1', true);
+      expect(stateManager.isBookmarked('question-1')).toBe(true);
+      expect(stateManager.isBookmarked('question-2')).toBe(false);
+
+      stateManager.setBookmarked('question-1', false);
+      expect(stateManager.isBookmarked('question-1')).toBe(false);
+    });
+
+    it('should keep bookmarks when the answer changes', () => {
+      stateManager.setBookmarked('question-1', true);
+      stateManager.updateQuestionState('question-1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true });
+
+      expect(stateManager.isBookmarked('question-1')).toBe(true);
+    });
+
+    it('should return a copy of the bookmarks', () => {
+      stateManager.setBookmarked('question-1', true);
+
+      stateManager.getApplicationState().bookmarkedQuestionIds.clear();
+
+      expect(stateManager.getApplicationState().bookmarkedQuestionIds).toEqual(new Set(['question-1']));
+    });
+
+    it('should throw error for empty question ID', () => {
+      expect(() => stateManager.setBookmarked('', true)).toThrow('Question ID cannot be empty');
+    });
+
+    it('should clear bookmarks on reset', () => {
+      stateManager.setBookmarked('question-1', true);
+
+      stateManager.resetApplicationState();
+
+      expect(stateManager.isBookmarked('question-1')).toBe(false);
+    });
+  });
+
   describe('state immutability integration', () => {
     it('should maintain immutability across multiple operations', () => {
       // Set up initial state
@@ -332,4 +372,114 @@ describe('StateManager', () => {
       expect(questionState2?.isCorrect).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('persistence', () => {
+    let storage: InMemoryStateStorage;
+
+    beforeEach(() => {
+      storage = new InMemoryStateStorage();
+      stateManager = new StateManager(storage);
+    });
+
+    it('should write through question state updates', async () => {
+      const submittedAt = new Date('2024-03-01T10:00:00Z');
+      stateManager.updateQuestionState('q1', {
+        selectedAnswers: [2],
+        selectedOptionIds: ['c'],
+        isSubmitted: true,
+        isCorrect: true,
+        score: 1,
+        submittedAt
+      });
+      await stateManager.flush();
+
+      const restored = new StateSerializer().deserialize((await storage.load())!);
+      expect(restored.questionStates.get('q1')).toEqual({
+        selectedAnswers: [],
+        selectedOptionIds: ['c'],
+        isSubmitted: true,
+        isCorrect: true,
+        score: 1,
+        submittedAt
+      });
+    });
+
+    it('should write through the current question index', async () => {
+      stateManager.setTotalQuestions(5);
+      stateManager.setCurrentQuestionIndex(3);
+      await stateManager.flush();
+
+      expect(new StateSerializer().deserialize((await storage.load())!).currentQuestionIndex).toBe(3);
+    });
+
+    it('should write through clearing the session answers and keep bookmarks', async () => {
+      stateManager.updateQuestionState('q1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true });
+      stateManager.setBookmarked('q1', true);
+
+      stateManager.clearQuestionStates();
+      await stateManager.flush();
+
+      const restored = new StateSerializer().deserialize((await storage.load())!);
+      expect(restored.questionStates.size).toBe(0);
+      expect(restored.bookmarkedQuestionIds).toEqual(new Set(['q1']));
+    });
+
+    it('should hydrate answers and position saved by a previous session', async () => {
+      const submittedAt = new Date('2024-03-01T10:00:00Z');
+      stateManager.setTotalQuestions(5);
+      stateManager.updateQuestionState('q1', { selectedAnswers: [1], isSubmitted: true, isCorrect: false, submittedAt });
+      stateManager.setCurrentQuestionIndex(2);
+      await stateManager.flush();
+
+      const nextSession = new StateManager(storage);
+      await nextSession.hydrate();
+
+      expect(nextSession.getCurrentQuestionIndex()).toBe(2);
+      const questionState = nextSession.getQuestionState('q1');
+      expect(questionState?.submittedAt).toBeInstanceOf(Date);
+      expect(questionState?.submittedAt?.getTime()).toBe(submittedAt.getTime());
+      expect(nextSession.isInitialized()).toBe(false);
+    });
+
+    it('should write through and hydrate bookmarks', async () => {
+      stateManager.setBookmarked('q1', true);
+      await stateManager.flush();
+
+      const nextSession = new StateManager(storage);
+      await nextSession.hydrate();
+
+      expect(nextSession.isBookmarked('q1')).toBe(true);
+    });
+
+    it('should start fresh when the stored state is corrupt', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const corruptSession = new StateManager(new InMemoryStateStorage('{not json'));
+
+      await corruptSession.hydrate();
+
+      expect(corruptSession.getApplicationState().questionStates.size).toBe(0);
+      expect(warnSpy).toHaveBeenCalledWith('Discarding stored application state:', 'Stored state is not valid JSON');
+      warnSpy.mockRestore();
+    });
+
+    it('should keep working when storage writes fail', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(storage, 'save').mockRejectedValue(new Error('Quota exceeded'));
+
+      stateManager.updateQuestionState('q1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true });
+      await stateManager.flush();
+
+      expect(stateManager.getQuestionState('q1')?.isCorrect).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith('Failed to persist application state:', 'Quota exceeded');
+      warnSpy.mockRestore();
+    });
+
+    it('should persist the cleared state on reset', async () => {
+      stateManager.updateQuestionState('q1', { selectedAnswers: [0], isSubmitted: true, isCorrect: true });
+      stateManager.resetApplicationState();
+      await stateManager.flush();
+
+      expect(new StateSerializer().deserialize((await storage.load())!).questionStates.size).toBe(0);
+    });
+  });
+});
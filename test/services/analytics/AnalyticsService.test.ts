@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnalyticsService, TREND_WEEKS } from '../../../src/services/analytics/AnalyticsService';
+import { AttemptHistory } from '../../../src/services/analytics/AttemptHistory';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../../src/models/Option';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+import type { QuestionDifficulty } from '../../../src/interfaces/domain/types';
+import type { IQuestionRepository } from '../../../src/interfaces/repositories/IQuestionRepository';
+import type { CategorySummary, ICategoryCatalogService } from '../../../src/interfaces/services/ICategoryCatalogService';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+
+/**
+ * Clock set by the test
+ */
+class FakeClock implements IClock {
+  constructor(public current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+}
+
+const createQuestion = (
+  id: string,
+  category: string,
+  subcategory: string,
+  tags: string[],
+  difficulty: QuestionDifficulty
+): IQuestion =>
+  new MultipleChoiceQuestion(
+    id, `Question ${id}?`, [new Option('a', 'A'), new Option('b', 'B')], [0], 'Explanation', category, difficulty, undefined,
+    { subcategory, tags }
+  );
+
+const createCategory = (id: string, name: string, subcategories: Array<[string, string]>): CategorySummary =>
+  ({ id, name, subcategories: subcategories.map(([subcategoryId, subcategoryName]) => ({ id: subcategoryId, name: subcategoryName })) }) as CategorySummary;
+
+describe('AnalyticsService', () => {
+  let clock: FakeClock;
+  let history: AttemptHistory;
+  let service: AnalyticsService;
+
+  /**
+   * Records an attempt at a given time, optionally timed
+   */
+  const attempt = (questionId: string, at: Date, score: number, timeToAnswerMs?: number) => {
+    clock.current = new Date(at.getTime() - (timeToAnswerMs ?? 0));
+    if (timeToAnswerMs !== undefined) {
+      history.markPresented(questionId);
+    }
+    clock.current = at;
+    history.recordAttempt(questionId, { isCorrect: score === 1, score });
+  };
+
+  beforeEach(() => {
+    // Wednesday, so the current week started on Monday the 11th
+    const now = new Date(2024, 2, 13, 12, 0, 0);
+    clock = new FakeClock(now);
+    history = new AttemptHistory(null, clock);
+
+    const questionRepository = {
+      loadQuestions: vi.fn().mockResolvedValue([
+        createQuestion('b1', 'basics', 'data-types', ['types', 'boxing'], 'easy'),
+        createQuestion('b2', 'basics', 'data-types', ['boxing'], 'medium'),
+        createQuestion('o1', 'oop', 'classes', ['inheritance'], 'hard')
+      ])
+    } as unknown as IQuestionRepository;
+    const categoryCatalogService: ICategoryCatalogService = {
+      getCategories: vi.fn().mockResolvedValue([
+        createCategory('basics', 'C# Basics', [['data-types', 'Data Types'], ['operators', 'Operators']]),
+        createCategory('oop', 'OOP', [['classes', 'Classes']]),
+        createCategory('async', 'Async', [])
+      ])
+    };
+
+    const lastWeek = new Date(2024, 2, 5, 10, 0, 0);
+    attempt('b1', lastWeek, 0, 10000);
+    attempt('b2', lastWeek, 0);
+    attempt('b1', new Date(2024, 2, 11, 9, 0, 0), 1, 20000);
+    attempt('b2', new Date(2024, 2, 12, 9, 0, 0), 0.5);
+    attempt('o1', new Date(2024, 2, 12, 9, 0, 0), 1);
+    attempt('o1', new Date(2024, 2, 12, 10, 0, 0), 1);
+    attempt('o1', new Date(2024, 2, 13, 9, 0, 0), 1);
+    attempt('removed', new Date(2024, 2, 13, 9, 0, 0), 1);
+    clock.current = now;
+
+    service = new AnalyticsService(history, questionRepository, categoryCatalogService, clock);
+  });
+
+  it('should measure overall accuracy, attempts and time to answer, leaving out removed questions', async () => {
+    const { overall, generatedAt } = await service.getMasteryReport();
+
+    expect(generatedAt).toEqual(new Date(2024, 2, 13, 12, 0, 0));
+    expect(overall).toMatchObject({
+      questionCount: 3,
+      attemptedQuestionCount: 3,
+      attemptCount: 7,
+      correctCount: 4,
+      averageTimeToAnswerMs: 15000
+    });
+    expect(overall.accuracy).toBeCloseTo(4.5 / 7);
+  });
+
+  it('should group topics by category, subcategory, tag and difficulty', async () => {
+    const { topics } = await service.getMasteryReport();
+    const summarize = (dimension: keyof typeof topics) =>
+      topics[dimension].map(topic => [topic.key, topic.label, topic.attemptCount, topic.accuracy]);
+
+    expect(summarize('category')).toEqual([
+      ['basics', 'C# Basics', 4, 0.375],
+      ['oop', 'OOP', 3, 1]
+    ]);
+    expect(summarize('subcategory')).toEqual([
+      ['basics/data-types', 'C# Basics › Data Types', 4, 0.375],
+      ['oop/classes', 'OOP › Classes', 3, 1]
+    ]);
+    expect(summarize('tag')).toEqual([
+      ['boxing', 'boxing', 4, 0.375],
+      ['inheritance', 'inheritance', 3, 1],
+      ['types', 'types', 2, 0.5]
+    ]);
+    expect(summarize('difficulty')).toEqual([
+      ['easy', 'Easy', 2, 0.5],
+      ['medium', 'Medium', 2, 0.25],
+      ['hard', 'Hard', 3, 1]
+    ]);
+  });
+
+  it('should trend accuracy week by week, ending with the current week', async () => {
+    const basics = (await service.getMasteryReport()).topics.category[0];
+
+    expect(basics.trend).toHaveLength(TREND_WEEKS);
+    expect(basics.trend.slice(-3)).toEqual([
+      { weekStart: new Date(2024, 1, 26), attemptCount: 0, accuracy: null },
+      { weekStart: new Date(2024, 2, 4), attemptCount: 2, accuracy: 0 },
+      { weekStart: new Date(2024, 2, 11), attemptCount: 2, accuracy: 0.75 }
+    ]);
+  });
+
+  it('should rank the weakest tags among those attempted often enough', async () => {
+    const { weakestTags } = await service.getMasteryReport();
+
+    // "types" scores lower than "inheritance" but has too few attempts to judge
+    expect(weakestTags.map(topic => topic.key)).toEqual(['boxing', 'inheritance']);
+  });
+});
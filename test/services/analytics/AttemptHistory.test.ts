@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AttemptHistory,
+  CURRENT_ATTEMPT_HISTORY_VERSION,
+  MAX_STORED_ATTEMPTS,
+  MAX_TIME_TO_ANSWER_MS
+} from '../../../src/services/analytics/AttemptHistory';
+import { InMemoryStateStorage } from '../../../src/services/state/InMemoryStateStorage';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advanceSeconds(seconds: number): void {
+    this.current = new Date(this.current.getTime() + seconds * 1000);
+  }
+}
+
+describe('AttemptHistory', () => {
+  let storage: InMemoryStateStorage;
+  let clock: FakeClock;
+  let history: AttemptHistory;
+
+  beforeEach(() => {
+    storage = new InMemoryStateStorage();
+    clock = new FakeClock(new Date('2024-03-01T09:00:00Z'));
+    history = new AttemptHistory(storage, clock);
+  });
+
+  it('should time an attempt from when its question was shown', () => {
+    history.markPresented('q1');
+    clock.advanceSeconds(42);
+
+    const attempt = history.recordAttempt('q1', { isCorrect: true, score: 1 });
+
+    expect(attempt).toEqual({
+      questionId: 'q1',
+      isCorrect: true,
+      score: 1,
+      answeredAt: new Date('2024-03-01T09:00:42Z'),
+      timeToAnswerMs: 42000
+    });
+    expect(history.getAttempts()).toEqual([attempt]);
+  });
+
+  it('should leave out the time when the question was not shown or was left open too long', () => {
+    expect(history.recordAttempt('q1', { isCorrect: false, score: 0 }).timeToAnswerMs).toBeUndefined();
+
+    history.markPresented('q2');
+    clock.advanceSeconds(MAX_TIME_TO_ANSWER_MS / 1000 + 1);
+    expect(history.recordAttempt('q2', { isCorrect: true, score: 1 }).timeToAnswerMs).toBeUndefined();
+  });
+
+  it('should keep every attempt, not just the latest per question', () => {
+    history.recordAttempt('q1', { isCorrect: false, score: 0 });
+    history.recordAttempt('q1', { isCorrect: true, score: 1 });
+
+    expect(history.getAttempts().map(attempt => attempt.isCorrect)).toEqual([false, true]);
+    expect(() => history.recordAttempt('', { isCorrect: true, score: 1 })).toThrow('Question ID cannot be empty');
+  });
+
+  it('should drop the oldest attempts beyond the limit', () => {
+    history = new AttemptHistory(null, clock);
+    for (let index = 0; index <= MAX_STORED_ATTEMPTS; index++) {
+      history.recordAttempt(`q${index}`, { isCorrect: true, score: 1 });
+    }
+
+    const attempts = history.getAttempts();
+    expect(attempts).toHaveLength(MAX_STORED_ATTEMPTS);
+    expect(attempts[0].questionId).toBe('q1');
+  });
+
+  it('should restore the saved history', async () => {
+    history.markPresented('q1');
+    clock.advanceSeconds(5);
+    history.recordAttempt('q1', { isCorrect: true, score: 0.5 });
+    await history.flush();
+
+    const restored = new AttemptHistory(storage, clock);
+    await restored.hydrate();
+
+    expect(restored.getAttempts()).toEqual(history.getAttempts());
+  });
+
+  it('should discard a malformed or newer saved history', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const data of [
+      'not json',
+      JSON.stringify({ version: CURRENT_ATTEMPT_HISTORY_VERSION + 1, attempts: [] }),
+      JSON.stringify({
+        version: CURRENT_ATTEMPT_HISTORY_VERSION,
+        attempts: [{ questionId: 'q1', isCorrect: true, score: 2, answeredAt: '2024-03-01T09:00:00Z' }]
+      })
+    ]) {
+      const restored = new AttemptHistory(new InMemoryStateStorage(data), clock);
+      await restored.hydrate();
+      expect(restored.getAttempts()).toEqual([]);
+    }
+
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
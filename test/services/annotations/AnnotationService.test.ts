@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnnotationService, CURRENT_NOTES_VERSION } from '../../../src/services/annotations/AnnotationService';
+import { StateManager } from '../../../src/services/StateManager';
+import { InMemoryStateStorage } from '../../../src/services/state/InMemoryStateStorage';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../../src/models/Option';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+import type { IQuestionRepository } from '../../../src/interfaces/repositories/IQuestionRepository';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advanceMinutes(minutes: number): void {
+    this.current = new Date(this.current.getTime() + minutes * 60 * 1000);
+  }
+}
+
+const createQuestion = (id: string): IQuestion =>
+  new MultipleChoiceQuestion(id, `Question ${id}`, [new Option('a', 'Yes'), new Option('b', 'No')], [0], 'Because.', 'basics', 'easy');
+
+describe('AnnotationService', () => {
+  let questions: IQuestion[];
+  let questionRepository: IQuestionRepository;
+  let stateManager: StateManager;
+  let storage: InMemoryStateStorage;
+  let clock: FakeClock;
+  let service: AnnotationService;
+
+  beforeEach(() => {
+    questions = [createQuestion('q1'), createQuestion('q2')];
+    questionRepository = {
+      loadQuestions: vi.fn().mockImplementation(async () => questions)
+    } as unknown as IQuestionRepository;
+    stateManager = new StateManager();
+    storage = new InMemoryStateStorage();
+    clock = new FakeClock(new Date('2024-03-01T09:00:00Z'));
+    service = new AnnotationService(stateManager, questionRepository, storage, clock);
+  });
+
+  describe('bookmarks', () => {
+    it('should keep bookmarks in the application state', () => {
+      service.setBookmarked('q2', true);
+
+      expect(service.isBookmarked('q2')).toBe(true);
+      expect(stateManager.isBookmarked('q2')).toBe(true);
+      expect(service.getBookmarkedQuestionIds()).toEqual(['q2']);
+
+      service.setBookmarked('q2', false);
+      expect(service.getBookmarkedQuestionIds()).toEqual([]);
+    });
+  });
+
+  describe('notes', () => {
+    it('should save a note with the time it was saved', async () => {
+      await service.saveNote('q1', 'Remember **boxing**');
+
+      expect(service.getNote('q1')).toEqual({
+        questionId: 'q1',
+        text: 'Remember **boxing**',
+        updatedAt: new Date('2024-03-01T09:00:00Z')
+      });
+      expect(service.getNote('q2')).toBeNull();
+    });
+
+    it('should delete the note when saved blank', async () => {
+      await service.saveNote('q1', 'draft');
+      await service.saveNote('q1', '   ');
+
+      expect(service.getNote('q1')).toBeNull();
+    });
+
+    it('should not let callers change a stored note', async () => {
+      await service.saveNote('q1', 'note');
+
+      service.getNote('q1')!.updatedAt.setFullYear(2000);
+
+      expect(service.getNote('q1')!.updatedAt.getFullYear()).toBe(2024);
+    });
+
+    it('should reject an empty question ID', async () => {
+      await expect(service.saveNote('', 'note')).rejects.toThrow('Question ID cannot be empty');
+    });
+  });
+
+  describe('listNotes', () => {
+    it('should list notes newest first and separate notes on removed questions', async () => {
+      await service.saveNote('q1', 'first');
+      clock.advanceMinutes(5);
+      await service.saveNote('removed', 'orphan');
+      clock.advanceMinutes(5);
+      await service.saveNote('q2', 'second');
+
+      const listing = await service.listNotes();
+
+      expect(listing.notes.map(({ note, question }) => [note.text, question.id])).toEqual([
+        ['second', 'q2'],
+        ['first', 'q1']
+      ]);
+      expect(listing.orphanedNotes.map(note => note.questionId)).toEqual(['removed']);
+    });
+
+    it('should bring a note back when its question returns with the same ID', async () => {
+      await service.saveNote('q2', 'kept');
+      questions = [createQuestion('q1')];
+      expect((await service.listNotes()).orphanedNotes).toHaveLength(1);
+
+      questions = [createQuestion('q1'), createQuestion('q2')];
+      const listing = await service.listNotes();
+
+      expect(listing.notes.map(({ question }) => question.id)).toEqual(['q2']);
+      expect(listing.orphanedNotes).toEqual([]);
+    });
+  });
+
+  describe('restoreNotes', () => {
+    it('should keep the restored text and time, replacing existing notes', async () => {
+      await service.saveNote('q1', 'local');
+      const importedAt = new Date('2024-02-01T08:00:00Z');
+
+      await service.restoreNotes([{ questionId: 'q1', text: 'imported', updatedAt: importedAt }]);
+
+      expect(service.getAllNotes()).toEqual([{ questionId: 'q1', text: 'imported', updatedAt: importedAt }]);
+
+      const restored = new AnnotationService(stateManager, questionRepository, storage, clock);
+      await restored.hydrate();
+      expect(restored.getNote('q1')?.updatedAt).toEqual(importedAt);
+    });
+
+    it('should reject notes without a question ID', async () => {
+      await expect(service.restoreNotes([{ questionId: '', text: 'x', updatedAt: clock.now() }]))
+        .rejects.toThrow('Question ID cannot be empty');
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore saved notes', async () => {
+      await service.saveNote('q1', 'persisted');
+
+      const restored = new AnnotationService(stateManager, questionRepository, storage, clock);
+      await restored.hydrate();
+
+      expect(restored.getNote('q1')?.text).toBe('persisted');
+      expect(restored.getNote('q1')?.updatedAt).toEqual(new Date('2024-03-01T09:00:00Z'));
+    });
+
+    it('should save deletions', async () => {
+      await service.saveNote('q1', 'gone soon');
+      await service.deleteNote('q1');
+
+      const restored = new AnnotationService(stateManager, questionRepository, storage, clock);
+      await restored.hydrate();
+
+      expect(restored.getNote('q1')).toBeNull();
+    });
+
+    it('should discard malformed or newer saved notes', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      for (const data of [
+        'not json',
+        JSON.stringify({ version: CURRENT_NOTES_VERSION + 1, notes: [] }),
+        JSON.stringify({ version: CURRENT_NOTES_VERSION, notes: [['q1', { text: 'x', updatedAt: 'soon' }]] })
+      ]) {
+        const restored = new AnnotationService(stateManager, questionRepository, new InMemoryStateStorage(data), clock);
+        await restored.hydrate();
+        expect(restored.getNote('q1')).toBeNull();
+      }
+
+      expect(warn).toHaveBeenCalledTimes(3);
+      warn.mockRestore();
+    });
+  });
+});
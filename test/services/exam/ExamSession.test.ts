@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExamSession } from '../../../src/services/exam/ExamSession';
+import { QuestionManager } from '../../../src/services/QuestionManager';
+import { AnswerManager } from '../../../src/services/AnswerManager';
+import { StateManager } from '../../../src/services/StateManager';
+import { AnswerValidator } from '../../../src/services/AnswerValidator';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../../src/models/Option';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+import type { IQuestionRepository } from '../../../src/interfaces/repositories/IQuestionRepository';
+import type { IShuffleService } from '../../../src/interfaces/services/IShuffleService';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+import type { ExamOptions } from '../../../src/interfaces/services/IExamSession';
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advanceSeconds(seconds: number): void {
+    this.current = new Date(this.current.getTime() + seconds * 1000);
+  }
+}
+
+const createQuestion = (id: string, category: string): IQuestion =>
+  new MultipleChoiceQuestion(
+    id,
+    `Question ${id}?`,
+    [new Option('a', 'Right'), new Option('b', 'Wrong')],
+    [0],
+    `Explanation ${id}`,
+    category,
+    'medium'
+  );
+
+describe('ExamSession', () => {
+  let clock: FakeClock;
+  let repository: IQuestionRepository;
+  let stateManager: StateManager;
+  let session: ExamSession;
+
+  const perQuestion: ExamOptions = { questionCount: 3, timeLimitMode: 'per-question', timeLimitSeconds: 30 };
+  const total: ExamOptions = { questionCount: 3, timeLimitMode: 'total', timeLimitSeconds: 60 };
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date(2024, 2, 1, 9, 0, 0));
+    repository = {
+      loadQuestions: vi.fn(),
+      loadQuestionsFromPaths: vi.fn(),
+      getQuestionPaths: vi.fn(),
+      getQuestionById: vi.fn(),
+      getQuestionsByCategory: vi.fn(),
+      queryQuestions: vi.fn().mockResolvedValue([
+        createQuestion('q1', 'basics'),
+        createQuestion('q2', 'oop'),
+        createQuestion('q3', 'basics'),
+        createQuestion('q4', 'oop')
+      ]),
+      getTotalCount: vi.fn()
+    };
+    const shuffleService: IShuffleService = {
+      reseed: seed => seed ?? 1,
+      shuffleQuestions: questions => [...questions],
+      shuffleQuestionOptions: question => question,
+      shuffleOptionsWithMapping: vi.fn(),
+      mapAnswerIndices: vi.fn()
+    };
+
+    stateManager = new StateManager();
+    const questionManager = new QuestionManager(repository, shuffleService, stateManager);
+    const answerManager = new AnswerManager(new AnswerValidator(), stateManager, questionManager);
+    session = new ExamSession(questionManager, answerManager, stateManager, clock);
+  });
+
+  describe('start', () => {
+    it('should draw the requested number of scorable questions', async () => {
+      await session.start({ ...perQuestion, filter: { categories: ['basics', 'oop'] } });
+
+      expect(repository.queryQuestions).toHaveBeenCalledWith({
+        categories: ['basics', 'oop'],
+        types: ['multiple-choice']
+      });
+      expect(session.getTotalCount()).toBe(3);
+      expect(session.getCurrentIndex()).toBe(0);
+      expect(session.getCurrentQuestion()?.id).toBe('q1');
+      expect(session.getRemainingMs()).toBe(30000);
+    });
+
+    it('should reject invalid options', async () => {
+      await expect(session.start({ ...perQuestion, questionCount: 0 })).rejects.toThrow(
+        'Exam question count must be a positive whole number'
+      );
+      await expect(session.start({ ...perQuestion, timeLimitSeconds: 0 })).rejects.toThrow(
+        'Exam time limit must be greater than zero'
+      );
+    });
+
+    it('should not start twice', async () => {
+      await session.start(perQuestion);
+
+      await expect(session.start(perQuestion)).rejects.toThrow('Exam has already been started');
+    });
+  });
+
+  describe('answering', () => {
+    beforeEach(async () => {
+      await session.start(perQuestion);
+    });
+
+    it('should lock a question once it is answered', () => {
+      session.submitAnswer([0]);
+
+      expect(session.isCurrentLocked()).toBe(true);
+      expect(() => session.submitAnswer([1])).toThrow('This question has already been answered');
+      expect(stateManager.getQuestionState('q1')?.isCorrect).toBe(true);
+    });
+
+    it('should lock a question when its time runs out', () => {
+      clock.advanceSeconds(30);
+
+      expect(session.isCurrentLocked()).toBe(true);
+      expect(() => session.submitAnswer([0])).toThrow('Time is up: this question is locked');
+      expect(stateManager.getQuestionState('q1')).toBeNull();
+    });
+
+    it('should restart the countdown for each question', () => {
+      clock.advanceSeconds(20);
+      session.moveToNext();
+
+      expect(session.getCurrentQuestion()?.id).toBe('q2');
+      expect(session.getRemainingMs()).toBe(30000);
+      expect(session.isCurrentLocked()).toBe(false);
+    });
+
+    it('should not hand back explanations while running', () => {
+      session.submitAnswer([1]);
+
+      expect(session.getSummary()).toBeNull();
+      expect(session.isFinished()).toBe(false);
+    });
+  });
+
+  describe('total time limit', () => {
+    beforeEach(async () => {
+      await session.start(total);
+    });
+
+    it('should share one countdown across questions', () => {
+      clock.advanceSeconds(25);
+      session.moveToNext();
+
+      expect(session.getRemainingMs()).toBe(35000);
+    });
+
+    it('should end the exam and lock remaining questions when time runs out', () => {
+      session.submitAnswer([0]);
+      clock.advanceSeconds(61);
+
+      session.checkTime();
+
+      expect(session.isFinished()).toBe(true);
+      expect(session.getCurrentQuestion()).toBeNull();
+      expect(() => session.submitAnswer([0])).toThrow('Exam has already finished');
+
+      const summary = session.getSummary()!;
+      expect(summary.results.map(result => result.status)).toEqual(['answered', 'timed-out', 'timed-out']);
+      expect(summary.timedOutCount).toBe(2);
+      expect(summary.durationMs).toBe(60000);
+    });
+  });
+
+  describe('finish', () => {
+    it('should require the exam to have started', () => {
+      expect(() => session.finish()).toThrow('Exam has not been started');
+    });
+
+    it('should report scores per category and reveal explanations', async () => {
+      await session.start(perQuestion);
+
+      clock.advanceSeconds(5);
+      session.submitAnswer([0]);
+      session.moveToNext();
+      clock.advanceSeconds(10);
+      session.submitAnswer([1]);
+      session.moveToNext();
+      clock.advanceSeconds(30);
+
+      const summary = session.finish();
+
+      expect(summary).toMatchObject({
+        totalQuestions: 3,
+        correctCount: 1,
+        answeredCount: 2,
+        timedOutCount: 1,
+        scorePercentage: 33,
+        durationMs: 45000,
+        timeLimitMode: 'per-question'
+      });
+      expect(summary.categoryScores).toEqual([
+        { category: 'basics', correct: 1, total: 2, percentage: 50 },
+        { category: 'oop', correct: 0, total: 1, percentage: 0 }
+      ]);
+      expect(summary.results[0]).toMatchObject({
+        questionId: 'q1',
+        status: 'answered',
+        isCorrect: true,
+        selectedAnswers: [0],
+        correctAnswers: [0],
+        options: ['Right', 'Wrong'],
+        explanation: 'Explanation q1',
+        timeSpentMs: 5000
+      });
+      expect(summary.results[2]).toMatchObject({ status: 'timed-out', timeSpentMs: 30000 });
+    });
+
+    it('should mark skipped and unreached questions as unanswered', async () => {
+      await session.start(perQuestion);
+
+      session.moveToNext();
+      const summary = session.finish();
+
+      expect(summary.results.map(result => result.status)).toEqual(['unanswered', 'unanswered', 'unanswered']);
+      expect(summary.results[2].timeSpentMs).toBe(0);
+      expect(session.finish()).toBe(summary);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ServiceWorkerCache, type FetchResource } from '../../../src/services/offline/ServiceWorkerCache';
+
+const BASE_URL = 'https://cards.example/';
+
+/**
+ * In-memory stand-in for a Cache, keyed by absolute URL
+ */
+class FakeCache {
+  readonly entries = new Map<string, Response>();
+
+  async match(request: Request | string): Promise<Response | undefined> {
+    return this.entries.get(typeof request === 'string' ? request : request.url)?.clone();
+  }
+
+  async put(request: Request | string, response: Response): Promise<void> {
+    this.entries.set(typeof request === 'string' ? request : request.url, response);
+  }
+}
+
+/**
+ * In-memory stand-in for CacheStorage
+ */
+class FakeCacheStorage {
+  readonly caches = new Map<string, FakeCache>();
+
+  async open(name: string): Promise<FakeCache> {
+    if (!this.caches.has(name)) {
+      this.caches.set(name, new FakeCache());
+    }
+    return this.caches.get(name)!;
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.caches.keys()];
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.caches.delete(name);
+  }
+}
+
+const manifest = {
+  version: '1',
+  categories: {
+    basics: {
+      name: 'Basics',
+      subcategories: {
+        variables: { name: 'Variables', file: 'questions/basics/variables.json' }
+      }
+    }
+  }
+};
+
+/**
+ * Builds a request-like object; Request itself does not allow the 'navigate' mode
+ */
+function request(path: string, init: { method?: string; mode?: RequestMode; origin?: string } = {}): Request {
+  return {
+    url: new URL(path, init.origin ?? BASE_URL).href,
+    method: init.method ?? 'GET',
+    mode: init.mode ?? 'cors'
+  } as Request;
+}
+
+describe('ServiceWorkerCache', () => {
+  let storage: FakeCacheStorage;
+  let network: Map<string, string>;
+  let fetchResource: ReturnType<typeof vi.fn<FetchResource>>;
+  let cache: ServiceWorkerCache;
+
+  beforeEach(() => {
+    storage = new FakeCacheStorage();
+    network = new Map([
+      [`${BASE_URL}index.html`, '<html>app</html>'],
+      [`${BASE_URL}assets/index-abc.js`, 'app()'],
+      [`${BASE_URL}data/metadata/categories.json`, JSON.stringify(manifest)],
+      [`${BASE_URL}data/questions/basics/variables.json`, '{"questions":[]}'],
+      [`${BASE_URL}data/questions/default.json`, '{"questions":["default"]}']
+    ]);
+    fetchResource = vi.fn<FetchResource>(async resource => {
+      const url = typeof resource === 'string' ? resource : resource.url;
+      const body = network.get(url);
+      if (body === undefined) {
+        return new Response('missing', { status: 404 });
+      }
+      return new Response(body, { headers: { 'content-type': url.endsWith('.json') ? 'application/json' : 'text/html' } });
+    });
+    cache = new ServiceWorkerCache(storage as unknown as CacheStorage, fetchResource, {
+      baseUrl: BASE_URL,
+      version: 'v2',
+      appShellPaths: ['index.html', 'assets/index-abc.js'],
+      questionPaths: ['data/questions/default.json']
+    });
+  });
+
+  describe('install', () => {
+    it('should precache the app shell, the manifest and every question file it lists', async () => {
+      const failed = await cache.install();
+
+      expect(failed).toEqual([]);
+      expect([...(await storage.open('csharp-cards-shell-v2')).entries.keys()]).toEqual([
+        `${BASE_URL}index.html`,
+        `${BASE_URL}assets/index-abc.js`
+      ]);
+      expect([...(await storage.open('csharp-cards-data')).entries.keys()].sort()).toEqual([
+        `${BASE_URL}data/metadata/categories.json`,
+        `${BASE_URL}data/questions/basics/variables.json`,
+        `${BASE_URL}data/questions/default.json`
+      ]);
+    });
+
+    it('should report question files that could not be cached and keep the rest', async () => {
+      network.delete(`${BASE_URL}data/questions/basics/variables.json`);
+
+      const failed = await cache.install();
+
+      expect(failed).toEqual([`${BASE_URL}data/questions/basics/variables.json`]);
+      expect((await storage.open('csharp-cards-data')).entries.has(`${BASE_URL}data/questions/default.json`)).toBe(true);
+    });
+
+    it('should not cache the entry page served in place of a missing question file', async () => {
+      const missingUrl = `${BASE_URL}data/questions/basics/variables.json`;
+      fetchResource.mockImplementation(async resource => {
+        const url = typeof resource === 'string' ? resource : resource.url;
+        return url === missingUrl
+          ? new Response('<html>app</html>', { headers: { 'content-type': 'text/html' } })
+          : new Response(network.get(url), { headers: { 'content-type': 'application/json' } });
+      });
+
+      const failed = await cache.install();
+
+      expect(failed).toEqual([missingUrl]);
+      expect((await storage.open('csharp-cards-data')).entries.has(missingUrl)).toBe(false);
+    });
+
+    it('should fail when an app shell file cannot be cached', async () => {
+      network.delete(`${BASE_URL}assets/index-abc.js`);
+
+      await expect(cache.install()).rejects.toThrow('HTTP 404');
+    });
+  });
+
+  describe('activate', () => {
+    it('should remove app shell caches of earlier builds only', async () => {
+      await storage.open('csharp-cards-shell-v1');
+      await storage.open('csharp-cards-shell-v2');
+      await storage.open('csharp-cards-data');
+      await storage.open('another-app');
+
+      const removed = await cache.activate();
+
+      expect(removed).toEqual(['csharp-cards-shell-v1']);
+      expect(await storage.keys()).toEqual(['csharp-cards-shell-v2', 'csharp-cards-data', 'another-app']);
+    });
+  });
+
+  describe('handleFetch', () => {
+    it('should serve cached question data and refresh it in the background', async () => {
+      const url = `${BASE_URL}data/questions/default.json`;
+      await (await storage.open('csharp-cards-data')).put(url, new Response('{"questions":["old"]}'));
+
+      const handled = cache.handleFetch(request('data/questions/default.json'))!;
+
+      expect(await (await handled.response).text()).toBe('{"questions":["old"]}');
+      await handled.done;
+      expect(await (await (await storage.open('csharp-cards-data')).match(url))!.text()).toBe('{"questions":["default"]}');
+    });
+
+    it('should fetch question data from the network on a cache miss', async () => {
+      const handled = cache.handleFetch(request('data/questions/basics/variables.json'))!;
+
+      expect(await (await handled.response).text()).toBe('{"questions":[]}');
+      await handled.done;
+      expect((await storage.open('csharp-cards-data')).entries.has(`${BASE_URL}data/questions/basics/variables.json`)).toBe(true);
+    });
+
+    it('should keep serving cached question data while offline', async () => {
+      await cache.install();
+      fetchResource.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const handled = cache.handleFetch(request('data/metadata/categories.json'))!;
+
+      expect(await (await handled.response).json()).toEqual(manifest);
+      await expect(handled.done).resolves.toBeUndefined();
+    });
+
+    it('should serve app shell files from the cache', async () => {
+      await cache.install();
+      fetchResource.mockClear();
+
+      const handled = cache.handleFetch(request('assets/index-abc.js'))!;
+
+      expect(await (await handled.response).text()).toBe('app()');
+      expect(fetchResource).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the cached entry page for navigations while offline', async () => {
+      await cache.install();
+      fetchResource.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const handled = cache.handleFetch(request('session/42/3', { mode: 'navigate' }))!;
+
+      expect(await (await handled.response).text()).toBe('<html>app</html>');
+    });
+
+    it('should answer HEAD checks for cached question data while offline', async () => {
+      await cache.install();
+      fetchResource.mockClear();
+      fetchResource.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const response = await cache.handleFetch(request('data/questions/basics/variables.json', { method: 'HEAD' }))!.response;
+
+      expect(response.ok).toBe(true);
+      expect(await response.text()).toBe('');
+      expect(fetchResource).not.toHaveBeenCalled();
+    });
+
+    it('should send HEAD checks for uncached question data to the network', async () => {
+      const headRequest = request('data/questions/basics/variables.json', { method: 'HEAD' });
+
+      const response = await cache.handleFetch(headRequest)!.response;
+
+      expect(response.ok).toBe(true);
+      expect(fetchResource).toHaveBeenCalledWith(headRequest);
+    });
+
+    it('should leave other methods and cross-origin requests to the browser', () => {
+      expect(cache.handleFetch(request('data/questions/default.json', { method: 'POST' }))).toBeNull();
+      expect(cache.handleFetch(request('assets/index-abc.js', { method: 'HEAD' }))).toBeNull();
+      expect(cache.handleFetch(request('script.js', { origin: 'https://static.cloudflareinsights.com/' }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ServiceWorkerOfflineStatus } from '../../../src/services/offline/ServiceWorkerOfflineStatus';
+import { registerServiceWorker } from '../../../src/services/offline/registerServiceWorker';
+
+/**
+ * Builds a navigator with the given network state and service worker controller
+ */
+function browserNavigator(onLine: boolean, controlled: boolean): Navigator {
+  return {
+    onLine,
+    serviceWorker: { controller: controlled ? {} : null }
+  } as unknown as Navigator;
+}
+
+describe('ServiceWorkerOfflineStatus', () => {
+  it('should report running from cache when offline under a service worker', () => {
+    expect(new ServiceWorkerOfflineStatus(browserNavigator(false, true)).isRunningFromCache()).toBe(true);
+  });
+
+  it('should not report running from cache when online or without a service worker', () => {
+    expect(new ServiceWorkerOfflineStatus(browserNavigator(true, true)).isRunningFromCache()).toBe(false);
+    expect(new ServiceWorkerOfflineStatus(browserNavigator(false, false)).isRunningFromCache()).toBe(false);
+    expect(new ServiceWorkerOfflineStatus(undefined).isRunningFromCache()).toBe(false);
+  });
+});
+
+describe('registerServiceWorker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register the built service worker script', async () => {
+    const registration = {} as ServiceWorkerRegistration;
+    const register = vi.fn().mockResolvedValue(registration);
+
+    const result = await registerServiceWorker({ register } as unknown as ServiceWorkerContainer);
+
+    expect(result).toBe(registration);
+    expect(register).toHaveBeenCalledWith('/sw.js');
+  });
+
+  it('should resolve to null when service workers are unavailable or registration fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const register = vi.fn().mockRejectedValue(new Error('insecure context'));
+
+    expect(await registerServiceWorker(undefined)).toBeNull();
+    expect(await registerServiceWorker({ register } as unknown as ServiceWorkerContainer)).toBeNull();
+    expect(warn).toHaveBeenCalledWith('Offline support unavailable: insecure context');
+  });
+});
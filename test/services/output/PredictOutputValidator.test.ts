@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { PredictOutputValidator, MAX_OUTPUT_LENGTH } from '../../../src/services/output/PredictOutputValidator';
+import { PredictOutputQuestion } from '../../../src/models/PredictOutputQuestion';
+import { FlipCardQuestion } from '../../../src/models/FlipCardQuestion';
+import { CodeExample } from '../../../src/models/CodeExample';
+
+const question = new PredictOutputQuestion(
+  'po-1',
+  'What does this print?',
+  'WriteLine appends a newline',
+  'basics',
+  'easy',
+  new CodeExample('Console.WriteLine("Hello");\nConsole.WriteLine("World");', 'csharp', 'Hello\nWorld')
+);
+
+describe('PredictOutputValidator', () => {
+  describe('validate', () => {
+    it('should accept output that matches line for line', () => {
+      const result = new PredictOutputValidator().validate(question, 'Hello\nWorld');
+
+      expect(result.isValid).toBe(true);
+      expect(result.metadata).toEqual({
+        isCorrect: true,
+        score: 1,
+        comparison: {
+          isMatch: true,
+          lines: [{ kind: 'match', text: 'Hello' }, { kind: 'match', text: 'World' }]
+        }
+      });
+    });
+
+    it('should give no credit for output that differs', () => {
+      const result = new PredictOutputValidator().validate(question, 'Hello');
+
+      expect(result.isValid).toBe(true);
+      expect(result.metadata?.isCorrect).toBe(false);
+      expect(result.metadata?.score).toBe(0);
+    });
+
+    it('should reject empty output', () => {
+      const result = new PredictOutputValidator().validate(question, '  \n ');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(['The output must not be empty']);
+    });
+
+    it('should reject output longer than the comparison limit', () => {
+      const result = new PredictOutputValidator().validate(question, 'Hello\n'.repeat(MAX_OUTPUT_LENGTH));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([`The output must not be longer than ${MAX_OUTPUT_LENGTH} characters`]);
+    });
+
+    it('should reject questions that do not ask for output', () => {
+      const flipCard = new FlipCardQuestion('fc-1', 'What is a variable?', 'A named storage location', '', 'basics', 'easy');
+
+      const result = new PredictOutputValidator().validate(flipCard, 'Hello');
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(['Question fc-1 does not ask for the output of its code']);
+    });
+  });
+
+  describe('compare', () => {
+    it('should ignore trailing whitespace and blank lines at the end by default', () => {
+      expect(new PredictOutputValidator().compare('Hello\nWorld', 'Hello  \nWorld\t\n\n').isMatch).toBe(true);
+    });
+
+    it('should treat Windows and Unix line endings alike by default', () => {
+      expect(new PredictOutputValidator().compare('Hello\nWorld', 'Hello\r\nWorld').isMatch).toBe(true);
+    });
+
+    it('should compare case by default', () => {
+      expect(new PredictOutputValidator().compare('True', 'true').isMatch).toBe(false);
+      expect(new PredictOutputValidator({ ignoreCase: true }).compare('True', 'true').isMatch).toBe(true);
+    });
+
+    it('should keep the differences that are not being ignored', () => {
+      const validator = new PredictOutputValidator({ ignoreTrailingWhitespace: false, normalizeLineEndings: false });
+
+      expect(validator.compare('Hello', 'Hello ').isMatch).toBe(false);
+      expect(validator.compare('Hello\nWorld', 'Hello\r\nWorld').isMatch).toBe(false);
+    });
+
+    it('should report missing and unexpected lines around the lines in common', () => {
+      const comparison = new PredictOutputValidator().compare('1\n2\n3\n4', '1\n3\n5\n4');
+
+      expect(comparison.isMatch).toBe(false);
+      expect(comparison.lines).toEqual([
+        { kind: 'match', text: '1' },
+        { kind: 'missing', text: '2' },
+        { kind: 'match', text: '3' },
+        { kind: 'unexpected', text: '5' },
+        { kind: 'match', text: '4' }
+      ]);
+    });
+
+    it('should only compare output up to the length limit', () => {
+      const comparison = new PredictOutputValidator().compare('Hello', 'x\n'.repeat(MAX_OUTPUT_LENGTH));
+
+      expect(comparison.lines.filter(line => line.kind === 'unexpected')).toHaveLength(MAX_OUTPUT_LENGTH / 2);
+    });
+
+    it('should show expected lines as written when case is ignored', () => {
+      const comparison = new PredictOutputValidator({ ignoreCase: true }).compare('True', 'TRUE');
+
+      expect(comparison.lines).toEqual([{ kind: 'match', text: 'True' }]);
+    });
+  });
+});
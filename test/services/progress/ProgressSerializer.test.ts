@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ProgressSerializer,
+  PROGRESS_EXPORT_FORMAT,
+  CURRENT_PROGRESS_EXPORT_VERSION
+} from '../../../src/services/progress/ProgressSerializer';
+import { ValidationError } from '../../../src/errors/ValidationError';
+import type { ProgressSnapshot } from '../../../src/interfaces/services/IProgressTransferService';
+
+const createSnapshot = (): ProgressSnapshot => ({
+  questionStates: new Map([
+    ['q1', {
+      selectedAnswers: [],
+      selectedOptionIds: ['b'],
+      isSubmitted: true,
+      isCorrect: true,
+      score: 1,
+      submittedAt: new Date('2024-03-01T09:00:00Z')
+    }]
+  ]),
+  bookmarkedQuestionIds: new Set(['q2']),
+  notes: [{ questionId: 'q1', text: 'Remember **boxing**', updatedAt: new Date('2024-03-02T10:00:00Z') }],
+  reviewStates: [{
+    questionId: 'q1',
+    algorithm: 'sm2',
+    easeFactor: 2.5,
+    intervalDays: 1,
+    repetitions: 1,
+    lapses: 0,
+    dueDate: new Date('2024-03-02T09:00:00Z'),
+    lastReviewedAt: new Date('2024-03-01T09:00:00Z')
+  }]
+});
+
+const exportedAt = new Date('2024-03-05T12:00:00Z');
+
+describe('ProgressSerializer', () => {
+  const serializer = new ProgressSerializer();
+
+  it('should round-trip answers, bookmarks, notes and review states', async () => {
+    const document = await serializer.serialize(createSnapshot(), exportedAt);
+    const parsed = JSON.parse(document);
+
+    expect(parsed.format).toBe(PROGRESS_EXPORT_FORMAT);
+    expect(parsed.version).toBe(CURRENT_PROGRESS_EXPORT_VERSION);
+    expect(parsed.checksum).toMatch(/^sha256-[0-9a-f]{64}$/);
+
+    const restored = await serializer.deserialize(document);
+
+    expect(restored.exportedAt).toEqual(exportedAt);
+    expect(restored.snapshot.questionStates.get('q1')).toEqual(createSnapshot().questionStates.get('q1'));
+    expect([...restored.snapshot.bookmarkedQuestionIds]).toEqual(['q2']);
+    expect(restored.snapshot.notes).toEqual(createSnapshot().notes);
+    expect(restored.snapshot.reviewStates).toEqual(createSnapshot().reviewStates);
+  });
+
+  it('should reject files changed after export', async () => {
+    const parsed = JSON.parse(await serializer.serialize(createSnapshot(), exportedAt));
+    parsed.progress.notes[0][1].text = 'edited';
+
+    await expect(serializer.deserialize(JSON.stringify(parsed)))
+      .rejects.toThrow('Progress file checksum does not match');
+  });
+
+  it('should reject files that are not progress exports or from a newer version', async () => {
+    const parsed = JSON.parse(await serializer.serialize(createSnapshot(), exportedAt));
+
+    await expect(serializer.deserialize('not json')).rejects.toThrow('Progress file is not valid JSON');
+    await expect(serializer.deserialize(JSON.stringify({ ...parsed, format: 'other' })))
+      .rejects.toThrow('File is not a progress export');
+    await expect(serializer.deserialize(JSON.stringify({ ...parsed, version: CURRENT_PROGRESS_EXPORT_VERSION + 1 })))
+      .rejects.toThrow(`Unsupported progress file version: ${CURRENT_PROGRESS_EXPORT_VERSION + 1}`);
+  });
+
+  it('should report every malformed entry', async () => {
+    const parsed = JSON.parse(await serializer.serialize(createSnapshot(), exportedAt));
+    const progress = {
+      state: parsed.progress.state,
+      notes: [['q1', { text: 'x', updatedAt: 'soon' }]],
+      reviewStates: [['q1', { algorithm: 'leitner' }]]
+    };
+
+    const error = await serializer
+      .deserialize(JSON.stringify({ ...parsed, progress, checksum: await computeChecksum(progress) }))
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Progress file is malformed');
+    expect(error.validationErrors).toContain('notes[0] must have a text and an ISO updatedAt');
+    expect(error.validationErrors).toContain('reviewStates[0].algorithm must be one of sm2, fsrs');
+  });
+});
+
+/**
+ * Computes the checksum of hand-built progress, so only its contents can fail validation
+ */
+async function computeChecksum(progress: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(progress)));
+  return `sha256-${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProgressTransferService } from '../../../src/services/progress/ProgressTransferService';
+import { AnnotationService } from '../../../src/services/annotations/AnnotationService';
+import { ReviewScheduler } from '../../../src/services/review/ReviewScheduler';
+import { Sm2Algorithm } from '../../../src/services/review/Sm2Algorithm';
+import { StateManager } from '../../../src/services/StateManager';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../../src/models/Option';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+import type { IQuestionState } from '../../../src/interfaces/domain/types';
+import type { IQuestionRepository } from '../../../src/interfaces/repositories/IQuestionRepository';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advanceMinutes(minutes: number): void {
+    this.current = new Date(this.current.getTime() + minutes * 60 * 1000);
+  }
+}
+
+const createQuestion = (id: string): IQuestion =>
+  new MultipleChoiceQuestion(id, `Question ${id}`, [new Option('a', 'Yes'), new Option('b', 'No')], [0], 'Because.', 'basics', 'easy');
+
+const answered = (selected: number, submittedAt: Date): IQuestionState => ({
+  selectedAnswers: [selected],
+  selectedOptionIds: [selected === 0 ? 'a' : 'b'],
+  isSubmitted: true,
+  isCorrect: selected === 0,
+  score: selected === 0 ? 1 : 0,
+  submittedAt
+});
+
+/**
+ * Progress services of one device, sharing a clock with the other device
+ */
+const createDevice = (clock: IClock, questionRepository: IQuestionRepository) => {
+  const stateManager = new StateManager();
+  const annotationService = new AnnotationService(stateManager, questionRepository, null, clock);
+  const reviewScheduler = new ReviewScheduler(new Sm2Algorithm(), clock);
+  const service = new ProgressTransferService(stateManager, annotationService, reviewScheduler, questionRepository, clock);
+  return { stateManager, annotationService, reviewScheduler, service };
+};
+
+describe('ProgressTransferService', () => {
+  let clock: FakeClock;
+  let questionRepository: IQuestionRepository;
+  let laptop: ReturnType<typeof createDevice>;
+  let phone: ReturnType<typeof createDevice>;
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date('2024-03-01T09:00:00Z'));
+    questionRepository = {
+      loadQuestions: vi.fn().mockResolvedValue([createQuestion('q1'), createQuestion('q2'), createQuestion('q3')])
+    } as unknown as IQuestionRepository;
+    laptop = createDevice(clock, questionRepository);
+    phone = createDevice(clock, questionRepository);
+  });
+
+  it('should import everything into a device without progress', async () => {
+    laptop.stateManager.updateQuestionState('q1', answered(0, clock.now()));
+    laptop.stateManager.setBookmarked('q2', true);
+    await laptop.annotationService.saveNote('q1', 'Boxing allocates');
+    laptop.reviewScheduler.recordReview('q1', 'good');
+
+    const preview = await phone.service.previewImport(await laptop.service.exportProgress());
+
+    expect(preview.exportedAt).toEqual(clock.now());
+    expect(preview.changes).toEqual({ answers: 1, bookmarks: 1, notes: 1, reviews: 1 });
+    expect(preview.conflicts).toEqual([]);
+    expect(phone.stateManager.getQuestionState('q1')).toBeNull();
+
+    expect(await phone.service.applyImport(preview)).toEqual(preview.changes);
+    expect(phone.stateManager.getQuestionState('q1')).toEqual({
+      ...laptop.stateManager.getQuestionState('q1'),
+      selectedAnswers: []
+    });
+    expect(phone.stateManager.isBookmarked('q2')).toBe(true);
+    expect(phone.annotationService.getNote('q1')).toEqual(laptop.annotationService.getNote('q1'));
+    expect(phone.reviewScheduler.getReviewState('q1')).toEqual(laptop.reviewScheduler.getReviewState('q1'));
+  });
+
+  it('should keep the newest attempt of each question and report the conflicts', async () => {
+    laptop.stateManager.updateQuestionState('q1', answered(1, clock.now()));
+    phone.stateManager.updateQuestionState('q2', answered(1, clock.now()));
+    clock.advanceMinutes(10);
+    phone.stateManager.updateQuestionState('q1', answered(0, clock.now()));
+    laptop.stateManager.updateQuestionState('q2', answered(0, clock.now()));
+
+    const preview = await phone.service.previewImport(await laptop.service.exportProgress());
+
+    expect(preview.changes.answers).toBe(1);
+    expect(preview.conflicts.map(({ questionId, kind, resolution }) => [questionId, kind, resolution])).toEqual([
+      ['q1', 'answer', 'keep-local'],
+      ['q2', 'answer', 'use-imported']
+    ]);
+
+    await phone.service.applyImport(preview);
+    expect(phone.stateManager.getQuestionState('q1')?.selectedOptionIds).toEqual(['a']);
+    expect(phone.stateManager.getQuestionState('q2')?.selectedOptionIds).toEqual(['a']);
+  });
+
+  it('should keep the newest note and combine bookmarks', async () => {
+    await laptop.annotationService.saveNote('q1', 'older');
+    laptop.stateManager.setBookmarked('q1', true);
+    phone.stateManager.setBookmarked('q3', true);
+    clock.advanceMinutes(5);
+    await phone.annotationService.saveNote('q1', 'newer');
+
+    const preview = await phone.service.previewImport(await laptop.service.exportProgress());
+    await phone.service.applyImport(preview);
+
+    expect(preview.conflicts).toEqual([expect.objectContaining({ questionId: 'q1', kind: 'note', resolution: 'keep-local' })]);
+    expect(phone.annotationService.getNote('q1')?.text).toBe('newer');
+    expect(phone.annotationService.getBookmarkedQuestionIds().sort()).toEqual(['q1', 'q3']);
+  });
+
+  it('should not report identical progress as a conflict', async () => {
+    laptop.stateManager.updateQuestionState('q1', answered(0, clock.now()));
+    const document = await laptop.service.exportProgress();
+    await phone.service.applyImport(await phone.service.previewImport(document));
+
+    const preview = await phone.service.previewImport(document);
+
+    expect(preview.changes).toEqual({ answers: 0, bookmarks: 0, notes: 0, reviews: 0 });
+    expect(preview.conflicts).toEqual([]);
+  });
+
+  it('should report questions missing from the question bank but still import their progress', async () => {
+    laptop.stateManager.updateQuestionState('retired', answered(0, clock.now()));
+    await laptop.annotationService.saveNote('removed', 'orphan');
+
+    const preview = await phone.service.previewImport(await laptop.service.exportProgress());
+    await phone.service.applyImport(preview);
+
+    expect(preview.unknownQuestionIds).toEqual(['removed', 'retired']);
+    expect(phone.stateManager.getQuestionState('retired')).not.toBeNull();
+    expect(phone.annotationService.getNote('removed')?.text).toBe('orphan');
+  });
+
+  it('should not overwrite progress made after the preview with older imported progress', async () => {
+    laptop.stateManager.updateQuestionState('q1', answered(1, clock.now()));
+    const preview = await phone.service.previewImport(await laptop.service.exportProgress());
+
+    clock.advanceMinutes(1);
+    phone.stateManager.updateQuestionState('q1', answered(0, clock.now()));
+
+    expect(await phone.service.applyImport(preview)).toEqual({ answers: 0, bookmarks: 0, notes: 0, reviews: 0 });
+    expect(phone.stateManager.getQuestionState('q1')?.selectedOptionIds).toEqual(['a']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FsrsAlgorithm, DEFAULT_FSRS_WEIGHTS } from '../../../src/services/review/FsrsAlgorithm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('FsrsAlgorithm', () => {
+  let algorithm: FsrsAlgorithm;
+  let now: Date;
+
+  beforeEach(() => {
+    algorithm = new FsrsAlgorithm();
+    now = new Date('2024-03-01T12:00:00Z');
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new FsrsAlgorithm([1, 2, 3])).toThrow('FSRS requires 17 weights');
+    expect(() => new FsrsAlgorithm(DEFAULT_FSRS_WEIGHTS, 1)).toThrow('between 0 and 1');
+  });
+
+  it('should use the initial stability weights on the first review', () => {
+    const initial = algorithm.createInitialState('q1', now);
+
+    expect(algorithm.schedule(initial, 'again', now).stability).toBeCloseTo(0.4);
+    expect(algorithm.schedule(initial, 'hard', now).stability).toBeCloseTo(0.6);
+    expect(algorithm.schedule(initial, 'good', now).stability).toBeCloseTo(2.4);
+    expect(algorithm.schedule(initial, 'easy', now).stability).toBeCloseTo(5.8);
+  });
+
+  it('should derive the initial difficulty from the rating', () => {
+    const initial = algorithm.createInitialState('q1', now);
+
+    expect(algorithm.schedule(initial, 'good', now).difficulty).toBeCloseTo(4.93);
+    expect(algorithm.schedule(initial, 'easy', now).difficulty).toBeCloseTo(3.99);
+    expect(algorithm.schedule(initial, 'again', now).difficulty).toBeCloseTo(6.81);
+  });
+
+  it('should schedule the interval equal to stability at 90% retention', () => {
+    const state = algorithm.schedule(algorithm.createInitialState('q1', now), 'easy', now);
+
+    expect(state.intervalDays).toBe(6);
+    expect(state.dueDate.getTime()).toBe(now.getTime() + 6 * DAY);
+  });
+
+  it('should grow stability on successful reviews at the due date', () => {
+    let state = algorithm.schedule(algorithm.createInitialState('q1', now), 'good', now);
+    const firstStability = state.stability as number;
+
+    state = algorithm.schedule(state, 'good', state.dueDate);
+
+    expect(state.stability as number).toBeGreaterThan(firstStability);
+    expect(state.intervalDays).toBeGreaterThan(2);
+    expect(state.repetitions).toBe(2);
+  });
+
+  it('should shrink stability and record a lapse when forgotten', () => {
+    let state = algorithm.schedule(algorithm.createInitialState('q1', now), 'good', now);
+    state = algorithm.schedule(state, 'good', state.dueDate);
+    const learnedStability = state.stability as number;
+
+    state = algorithm.schedule(state, 'again', state.dueDate);
+
+    expect(state.stability as number).toBeLessThan(learnedStability);
+    expect(state.lapses).toBe(1);
+    expect(state.repetitions).toBe(0);
+    expect(state.intervalDays).toBe(1);
+  });
+
+  it('should be deterministic for the same inputs', () => {
+    const run = () => {
+      let state = algorithm.createInitialState('q1', now);
+      for (const rating of ['good', 'hard', 'again', 'easy'] as const) {
+        state = algorithm.schedule(state, rating, state.dueDate);
+      }
+      return state;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReviewScheduler, CURRENT_REVIEW_SCHEDULE_VERSION } from '../../../src/services/review/ReviewScheduler';
+import { Sm2Algorithm } from '../../../src/services/review/Sm2Algorithm';
+import { FsrsAlgorithm } from '../../../src/services/review/FsrsAlgorithm';
+import { InMemoryStateStorage } from '../../../src/services/state/InMemoryStateStorage';
+import type { IClock } from '../../../src/interfaces/services/IClock';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  advanceDays(days: number): void {
+    this.current = new Date(this.current.getTime() + days * DAY);
+  }
+}
+
+describe('ReviewScheduler', () => {
+  let clock: FakeClock;
+  let scheduler: ReviewScheduler;
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date(2024, 2, 1, 9, 0, 0));
+    scheduler = new ReviewScheduler(new Sm2Algorithm(), clock);
+  });
+
+  it('should treat unreviewed questions as new and due', () => {
+    expect(scheduler.getReviewState('q1')).toBeNull();
+    expect(scheduler.isDue('q1')).toBe(true);
+  });
+
+  it('should reject empty question ids', () => {
+    expect(() => scheduler.recordReview('', 'good')).toThrow('Question ID cannot be empty');
+  });
+
+  it('should record reviews at the clock time', () => {
+    const state = scheduler.recordReview('q1', 'good');
+
+    expect(state.lastReviewedAt?.getTime()).toBe(clock.now().getTime());
+    expect(state.dueDate.getTime()).toBe(clock.now().getTime() + DAY);
+    expect(scheduler.getReviewState('q1')).toEqual(state);
+  });
+
+  it('should become due again once the clock reaches the due day', () => {
+    scheduler.recordReview('q1', 'good');
+    expect(scheduler.isDue('q1')).toBe(false);
+
+    clock.advanceDays(1);
+    expect(scheduler.isDue('q1')).toBe(true);
+  });
+
+  it('should count a question due later today as due today', () => {
+    scheduler.recordReview('q1', 'good');
+    clock.advanceDays(1);
+    clock.advanceDays(-0.25);
+
+    expect(scheduler.isDue('q1')).toBe(true);
+  });
+
+  it('should build the due queue with most overdue first, then new questions', () => {
+    scheduler.recordReview('q1', 'good'); // due in 1 day
+    scheduler.recordReview('q2', 'good');
+    scheduler.recordReview('q2', 'good'); // due in 6 days
+    clock.advanceDays(-1);
+    scheduler.recordReview('q3', 'again'); // due today
+
+    clock.advanceDays(2);
+
+    expect(scheduler.getDueQuestionIds(['new-1', 'q1', 'q2', 'q3', 'new-2'])).toEqual([
+      'q3',
+      'q1',
+      'new-1',
+      'new-2'
+    ]);
+  });
+
+  it('should return defensive copies of states', () => {
+    scheduler.recordReview('q1', 'good');
+    const state = scheduler.getReviewState('q1')!;
+    state.dueDate.setFullYear(2000);
+
+    expect(scheduler.getReviewState('q1')!.dueDate.getFullYear()).toBe(2024);
+  });
+
+  it('should list and reset all review states', () => {
+    scheduler.recordReview('q1', 'good');
+    scheduler.recordReview('q2', 'again');
+
+    expect(scheduler.getAllReviewStates().map(state => state.questionId)).toEqual(['q1', 'q2']);
+
+    scheduler.reset();
+    expect(scheduler.getAllReviewStates()).toEqual([]);
+  });
+
+  it('should restore a review state as given', () => {
+    const reviewed = scheduler.recordReview('q1', 'good');
+    const other = new ReviewScheduler(new Sm2Algorithm(), clock);
+
+    other.restoreReviewState(reviewed);
+    reviewed.dueDate.setFullYear(2000);
+
+    expect(other.getReviewState('q1')!.dueDate.getFullYear()).toBe(2024);
+    expect(() => other.restoreReviewState({ ...reviewed, questionId: '' })).toThrow('Question ID cannot be empty');
+  });
+
+  it('should delegate scheduling to the plugged-in algorithm', () => {
+    const fsrsScheduler = new ReviewScheduler(new FsrsAlgorithm(), clock);
+
+    const state = fsrsScheduler.recordReview('q1', 'easy');
+
+    expect(state.algorithm).toBe('fsrs');
+    expect(state.stability).toBeCloseTo(5.8);
+    expect(state.intervalDays).toBe(6);
+  });
+
+  it('should restore the saved schedule, including imported states', async () => {
+    const storage = new InMemoryStateStorage();
+    const saving = new ReviewScheduler(new Sm2Algorithm(), clock, storage);
+    saving.recordReview('q1', 'good');
+    saving.restoreReviewState(scheduler.recordReview('q2', 'again'));
+    await saving.flush();
+
+    const restored = new ReviewScheduler(new Sm2Algorithm(), clock, storage);
+    await restored.hydrate();
+
+    expect(restored.getAllReviewStates()).toEqual(saving.getAllReviewStates());
+    expect(restored.isDue('q1')).toBe(false);
+  });
+
+  it('should discard a malformed or newer saved schedule', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const data of [
+      'not json',
+      JSON.stringify({ version: CURRENT_REVIEW_SCHEDULE_VERSION + 1, reviewStates: [] }),
+      JSON.stringify({
+        version: CURRENT_REVIEW_SCHEDULE_VERSION,
+        reviewStates: [['q1', { algorithm: 'sm2', easeFactor: -1, dueDate: 'soon' }]]
+      })
+    ]) {
+      const restored = new ReviewScheduler(new Sm2Algorithm(), clock, new InMemoryStateStorage(data));
+      await restored.hydrate();
+      expect(restored.getAllReviewStates()).toEqual([]);
+    }
+
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
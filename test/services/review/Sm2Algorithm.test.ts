@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Sm2Algorithm } from '../../../src/services/review/Sm2Algorithm';
+import type { IReviewState } from '../../../src/interfaces/services/IReviewScheduler';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Sm2Algorithm', () => {
+  let algorithm: Sm2Algorithm;
+  let now: Date;
+
+  beforeEach(() => {
+    algorithm = new Sm2Algorithm();
+    now = new Date('2024-03-01T12:00:00Z');
+  });
+
+  it('should create a new state that is due immediately', () => {
+    const state = algorithm.createInitialState('q1', now);
+
+    expect(state).toMatchObject({
+      questionId: 'q1',
+      algorithm: 'sm2',
+      easeFactor: 2.5,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0
+    });
+    expect(state.dueDate.getTime()).toBe(now.getTime());
+  });
+
+  it('should follow the 1, 6, interval * ease progression on successful reviews', () => {
+    let state: IReviewState = algorithm.createInitialState('q1', now);
+
+    state = algorithm.schedule(state, 'good', now);
+    expect(state.intervalDays).toBe(1);
+    expect(state.repetitions).toBe(1);
+
+    state = algorithm.schedule(state, 'good', state.dueDate);
+    expect(state.intervalDays).toBe(6);
+    expect(state.repetitions).toBe(2);
+
+    const dueBefore = state.dueDate;
+    state = algorithm.schedule(state, 'good', dueBefore);
+    expect(state.intervalDays).toBe(15);
+    expect(state.dueDate.getTime()).toBe(dueBefore.getTime() + 15 * DAY);
+  });
+
+  it('should adjust the ease factor by rating', () => {
+    const initial = algorithm.createInitialState('q1', now);
+
+    expect(algorithm.schedule(initial, 'easy', now).easeFactor).toBeCloseTo(2.6);
+    expect(algorithm.schedule(initial, 'good', now).easeFactor).toBeCloseTo(2.5);
+    expect(algorithm.schedule(initial, 'hard', now).easeFactor).toBeCloseTo(2.36);
+    expect(algorithm.schedule(initial, 'again', now).easeFactor).toBeCloseTo(2.18);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let state = algorithm.createInitialState('q1', now);
+    for (let i = 0; i < 10; i++) {
+      state = algorithm.schedule(state, 'again', now);
+    }
+
+    expect(state.easeFactor).toBe(1.3);
+  });
+
+  it('should reset repetitions and count a lapse when a learned question is forgotten', () => {
+    let state = algorithm.createInitialState('q1', now);
+    state = algorithm.schedule(state, 'good', now);
+    state = algorithm.schedule(state, 'good', now);
+
+    state = algorithm.schedule(state, 'again', now);
+
+    expect(state.repetitions).toBe(0);
+    expect(state.intervalDays).toBe(1);
+    expect(state.lapses).toBe(1);
+    expect(state.dueDate.getTime()).toBe(now.getTime() + DAY);
+  });
+
+  it('should not count a lapse for a question that was never learned', () => {
+    const state = algorithm.schedule(algorithm.createInitialState('q1', now), 'again', now);
+
+    expect(state.lapses).toBe(0);
+  });
+});
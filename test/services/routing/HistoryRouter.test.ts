@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HistoryRouter } from '../../../src/services/routing/HistoryRouter';
+
+describe('HistoryRouter', () => {
+  let router: HistoryRouter;
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    router = new HistoryRouter(window);
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should read the route from the address bar', () => {
+    window.history.replaceState(null, '', '/session/55/4?category=oop');
+
+    expect(router.getCurrentRoute()).toEqual({ name: 'session', seed: 55, index: 3, filter: { categories: ['oop'] } });
+  });
+
+  it('should add a history entry for a new address only', () => {
+    const pushState = vi.spyOn(window.history, 'pushState');
+
+    router.navigate({ name: 'question', questionId: 'basics-0001' });
+    router.navigate({ name: 'question', questionId: 'basics-0001' });
+
+    expect(pushState).toHaveBeenCalledTimes(1);
+    expect(window.location.pathname).toBe('/q/basics-0001');
+    pushState.mockRestore();
+  });
+
+  it('should replace the current entry when asked to', () => {
+    const pushState = vi.spyOn(window.history, 'pushState');
+
+    router.navigate({ name: 'category', category: 'oop' }, { replace: true });
+
+    expect(pushState).not.toHaveBeenCalled();
+    expect(window.location.pathname).toBe('/category/oop');
+    pushState.mockRestore();
+  });
+
+  it('should notify listeners of back/forward navigation until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = router.subscribe(listener);
+
+    window.history.replaceState(null, '', '/q/oop-0002');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    unsubscribe();
+    window.dispatchEvent(new PopStateEvent('popstate'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ name: 'question', questionId: 'oop-0002' });
+  });
+});
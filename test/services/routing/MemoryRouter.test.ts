@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryRouter } from '../../../src/services/routing/MemoryRouter';
+
+describe('MemoryRouter', () => {
+  it('should start at the given address', () => {
+    const router = new MemoryRouter('/category/basics');
+
+    expect(router.getCurrentRoute()).toEqual({ name: 'category', category: 'basics' });
+  });
+
+  it('should move back and forward through navigated routes and notify listeners', () => {
+    const router = new MemoryRouter();
+    const listener = vi.fn();
+    router.subscribe(listener);
+
+    router.navigate({ name: 'session', seed: 9, index: 0, filter: { ids: ['a'] } });
+    router.navigate({ name: 'session', seed: 9, index: 1, filter: { ids: ['a'] } });
+
+    expect(router.go(-1)).toBe(true);
+    expect(router.getCurrentPath()).toBe('/session/9/1?id=a');
+    expect(listener).toHaveBeenLastCalledWith({ name: 'session', seed: 9, index: 0, filter: { ids: ['a'] } });
+
+    expect(router.go(1)).toBe(true);
+    expect(router.go(1)).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop forward history when navigating after going back', () => {
+    const router = new MemoryRouter();
+    router.navigate({ name: 'question', questionId: 'q1' });
+    router.navigate({ name: 'question', questionId: 'q2' });
+    router.go(-1);
+
+    router.navigate({ name: 'question', questionId: 'q3' });
+
+    expect(router.go(1)).toBe(false);
+    expect(router.go(-1)).toBe(true);
+    expect(router.getCurrentPath()).toBe('/q/q1');
+  });
+
+  it('should replace the current entry and skip duplicate entries', () => {
+    const router = new MemoryRouter('/q/q1');
+
+    router.navigate({ name: 'question', questionId: 'q2' }, { replace: true });
+    router.navigate({ name: 'question', questionId: 'q2' });
+
+    expect(router.getCurrentPath()).toBe('/q/q2');
+    expect(router.go(-1)).toBe(false);
+  });
+});
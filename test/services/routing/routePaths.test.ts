@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { formatRoute, parseRoute } from '../../../src/services/routing/routePaths';
+import type { AppRoute } from '../../../src/interfaces/services/IRouter';
+
+describe('routePaths', () => {
+  describe('parseRoute', () => {
+    it('should parse question, category and session paths', () => {
+      expect(parseRoute('/q/basics-0001')).toEqual({ name: 'question', questionId: 'basics-0001' });
+      expect(parseRoute('/category/oop/')).toEqual({ name: 'category', category: 'oop' });
+      expect(parseRoute('/session/1234/3')).toEqual({ name: 'session', seed: 1234, index: 2 });
+    });
+
+    it('should read a session deck filter from the query string', () => {
+      expect(parseRoute('/session/42/1', '?category=basics&subcategory=basics%2Fdata-types&subcategory=basics%2Floops')).toEqual({
+        name: 'session',
+        seed: 42,
+        index: 0,
+        filter: { categories: ['basics'], subcategories: ['basics/data-types', 'basics/loops'] }
+      });
+    });
+
+    it('should open a session from a seed-only link at the site root', () => {
+      expect(parseRoute('/', '?seed=1234')).toEqual({ name: 'session', seed: 1234, index: 0 });
+    });
+
+    it('should fall back to the start screen for anything else', () => {
+      const unmatched = ['/', '/q', '/q/a/b', '/session/1234/0', '/session/-1/1', '/session/abc/1', '/session/99999999999/1', '/q/%E0%A4%A', '/about'];
+
+      unmatched.forEach(path => {
+        expect(parseRoute(path), path).toEqual({ name: 'home' });
+      });
+    });
+  });
+
+  describe('formatRoute', () => {
+    it('should build paths that parse back to the same route', () => {
+      const routes: AppRoute[] = [
+        { name: 'home' },
+        { name: 'question', questionId: 'oop 0001/β' },
+        { name: 'category', category: 'basics' },
+        { name: 'session', seed: 0, index: 36 },
+        { name: 'session', seed: 7, index: 1, filter: { categories: ['basics'], ids: ['basics-0001', 'basics-0002'] } },
+        { name: 'session', seed: 9, index: 0, filter: { tags: ['boxing', 'generics'] } }
+      ];
+
+      routes.forEach(route => {
+        const [pathname, search] = formatRoute(route).split('?');
+        expect(parseRoute(pathname, search ? `?${search}` : '')).toEqual(route);
+      });
+    });
+
+    it('should number session questions from 1 and encode path segments', () => {
+      expect(formatRoute({ name: 'session', seed: 1234, index: 0, filter: { categories: ['oop'] } }))
+        .toBe('/session/1234/1?category=oop');
+      expect(formatRoute({ name: 'question', questionId: 'a/b' })).toBe('/q/a%2Fb');
+    });
+  });
+});
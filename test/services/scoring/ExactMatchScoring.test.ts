@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { ExactMatchScoring } from '../../../src/services/scoring/ExactMatchScoring';
+
+describe('ExactMatchScoring', () => {
+  const strategy = new ExactMatchScoring();
+
+  it('should give full credit only for exactly the correct options', () => {
+    expect(strategy.score([0, 2], [2, 0])).toBe(1);
+    expect(strategy.score([0, 2], [0])).toBe(0);
+    expect(strategy.score([0, 2], [0, 1, 2])).toBe(0);
+  });
+
+  it('should give no credit for an empty selection', () => {
+    expect(strategy.score([1], [])).toBe(0);
+  });
+});
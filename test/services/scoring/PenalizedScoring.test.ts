@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { PenalizedScoring } from '../../../src/services/scoring/PenalizedScoring';
+
+describe('PenalizedScoring', () => {
+  const strategy = new PenalizedScoring();
+
+  it('should give full credit for exactly the correct options', () => {
+    expect(strategy.score([0, 1, 3], [0, 1, 3])).toBe(1);
+  });
+
+  it('should cancel out a correct option for every wrong pick', () => {
+    expect(strategy.score([0, 1, 3], [0, 1, 2, 3])).toBeCloseTo(2 / 3);
+    expect(strategy.score([0, 1, 3], [0, 2])).toBe(0);
+  });
+
+  it('should never score below zero', () => {
+    expect(strategy.score([0], [1, 2, 3])).toBe(0);
+  });
+});
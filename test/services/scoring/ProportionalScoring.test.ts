@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { ProportionalScoring } from '../../../src/services/scoring/ProportionalScoring';
+
+describe('ProportionalScoring', () => {
+  const strategy = new ProportionalScoring();
+
+  it('should give full credit for exactly the correct options', () => {
+    expect(strategy.score([0, 1, 3], [3, 1, 0])).toBe(1);
+  });
+
+  it('should give credit for each correct option selected', () => {
+    expect(strategy.score([0, 1, 3], [0, 3])).toBeCloseTo(2 / 3);
+    expect(strategy.score([0, 1, 3], [2])).toBe(0);
+  });
+
+  it('should share credit over the picks when more options than correct ones are selected', () => {
+    expect(strategy.score([0, 1, 3], [0, 1, 2, 3])).toBe(0.75);
+    expect(strategy.score([0, 1], [0, 1, 2, 3])).toBe(0.5);
+  });
+
+  it('should give no credit for an empty selection', () => {
+    expect(strategy.score([0, 1], [])).toBe(0);
+  });
+});
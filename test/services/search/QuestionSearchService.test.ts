@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuestionSearchService } from '../../../src/services/search/QuestionSearchService';
+import { MultipleChoiceQuestion } from '../../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../../src/models/Option';
+import { CodeExample } from '../../../src/models/CodeExample';
+import type { IQuestion } from '../../../src/interfaces/domain/IQuestion';
+import type { IQuestionRepository } from '../../../src/interfaces/repositories/IQuestionRepository';
+
+const createQuestion = (
+  id: string,
+  text: string,
+  details: { category?: string; tags?: string[]; code?: string; explanation?: string; options?: string[] } = {}
+): IQuestion =>
+  new MultipleChoiceQuestion(
+    id,
+    text,
+    (details.options ?? ['Yes', 'No']).map((option, index) => new Option(`o${index}`, option)),
+    [0],
+    details.explanation ?? 'See the documentation.',
+    details.category ?? 'basics',
+    'medium',
+    details.code ? new CodeExample(details.code, 'csharp') : undefined,
+    { tags: details.tags ?? [] }
+  );
+
+describe('QuestionSearchService', () => {
+  let questions: IQuestion[];
+  let questionRepository: IQuestionRepository;
+  let service: QuestionSearchService;
+
+  beforeEach(() => {
+    questions = [
+      createQuestion('async-1', 'What does this code print?', {
+        category: 'async',
+        tags: ['tasks'],
+        code: 'await DoWorkAsync().ConfigureAwait(false);',
+        explanation: 'Without a synchronization context the continuation runs on the thread pool.'
+      }),
+      createQuestion('async-2', 'When should library code call ConfigureAwait(false)?', {
+        category: 'async',
+        tags: ['tasks', 'libraries']
+      }),
+      createQuestion('linq-1', 'Which method builds an iterator with yield return?', {
+        category: 'linq',
+        tags: ['iterators'],
+        options: ['IEnumerable<T> GetItems()', 'void GetItems()']
+      }),
+      createQuestion('basics-1', 'What is the default value of an int?', {
+        explanation: 'Value types return zero; use yield in iterators only.'
+      })
+    ];
+    questionRepository = {
+      loadQuestions: vi.fn().mockImplementation(async () => questions)
+    } as unknown as IQuestionRepository;
+    service = new QuestionSearchService(questionRepository);
+  });
+
+  it('should index every loaded question', async () => {
+    expect(await service.buildIndex()).toBe(4);
+  });
+
+  it('should find questions by an identifier in code and rank question text above code', async () => {
+    const results = await service.search('ConfigureAwait');
+
+    expect(results.hits.map(hit => hit.question.id)).toEqual(['async-2', 'async-1']);
+    expect(results.totalHits).toBe(2);
+  });
+
+  it('should find identifiers by their parts and by the start of a word', async () => {
+    expect((await service.search('enumerable')).hits.map(hit => hit.question.id)).toEqual(['linq-1']);
+    expect((await service.search('synchron')).hits.map(hit => hit.question.id)).toEqual(['async-1']);
+  });
+
+  it('should require every query word and prefer questions containing the phrase', async () => {
+    const results = await service.search('yield return');
+
+    expect(results.hits.map(hit => hit.question.id)).toEqual(['linq-1', 'basics-1']);
+    expect(results.hits[0].score).toBeGreaterThan(results.hits[1].score);
+  });
+
+  it('should highlight the matched words in each matching field', async () => {
+    const [hit] = (await service.search('IEnumerable<T>')).hits;
+
+    expect(hit.snippets).toEqual([
+      { field: 'options', text: 'IEnumerable<T> GetItems()\nvoid GetItems()', highlights: [{ start: 0, end: 11 }, { start: 12, end: 13 }] }
+    ]);
+  });
+
+  it('should cut long fields down around the first match', async () => {
+    questions = [createQuestion('long-1', 'Long explanation', {
+      explanation: `${'Background sentence. '.repeat(10)}Deadlocks happen here. ${'More text follows. '.repeat(10)}`
+    })];
+
+    const [snippet] = (await service.search('deadlocks')).hits[0].snippets;
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.slice(snippet.highlights[0].start, snippet.highlights[0].end)).toBe('Deadlocks');
+  });
+
+  it('should filter by category and tag while counting facets over every match', async () => {
+    const results = await service.search('configureawait', { tags: ['libraries'] });
+
+    expect(results.hits.map(hit => hit.question.id)).toEqual(['async-2']);
+    expect(results.facets.categories).toEqual([{ value: 'async', count: 2 }]);
+    expect(results.facets.tags).toEqual([{ value: 'tasks', count: 2 }, { value: 'libraries', count: 1 }]);
+    expect((await service.search('yield', { categories: ['basics'] })).hits.map(hit => hit.question.id)).toEqual(['basics-1']);
+  });
+
+  it('should limit the hits and return nothing for a query without words', async () => {
+    const results = await service.search('what', { limit: 1 });
+
+    expect(results.hits).toHaveLength(1);
+    expect(results.totalHits).toBe(2);
+    expect((await service.search('  ')).hits).toEqual([]);
+  });
+
+  it('should build the index on the first search and only once', async () => {
+    await service.search('int');
+    await service.search('yield');
+
+    expect(questionRepository.loadQuestions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should try again on the next search when building the index fails', async () => {
+    vi.mocked(questionRepository.loadQuestions).mockRejectedValueOnce(new Error('offline'));
+
+    await expect(service.search('int')).rejects.toThrow('offline');
+    expect((await service.search('int')).totalHits).toBe(1);
+  });
+});
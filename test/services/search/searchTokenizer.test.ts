@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, tokenizeQuery } from '../../../src/services/search/searchTokenizer';
+
+describe('searchTokenizer', () => {
+  describe('tokenize', () => {
+    it('should split generic types and member access into identifiers', () => {
+      const terms = tokenize('IEnumerable<T> items = list.Where(x => x > 0);').map(token => token.term);
+
+      expect(terms).toEqual(['ienumerable', 'enumerable', 't', 'items', 'list', 'where', 'x', 'x', '0']);
+    });
+
+    it('should add the parts of PascalCase, camelCase and snake_case identifiers with their positions', () => {
+      const tokens = tokenize('await task.ConfigureAwait(false); var _max_count = 1;');
+
+      expect(tokens).toContainEqual({ term: 'configureawait', start: 11, end: 25 });
+      expect(tokens).toContainEqual({ term: 'configure', start: 11, end: 20 });
+      expect(tokens).toContainEqual({ term: 'await', start: 20, end: 25 });
+      expect(tokens.map(token => token.term)).toEqual(expect.arrayContaining(['_max_count', 'max', 'count']));
+    });
+
+    it('should keep acronyms together and leave out the @ of verbatim identifiers', () => {
+      const terms = tokenize('HTTPClient @class').map(token => token.term);
+
+      expect(terms).toEqual(['httpclient', 'http', 'client', 'class']);
+    });
+  });
+
+  describe('tokenizeQuery', () => {
+    it('should return the distinct whole words of a query', () => {
+      expect(tokenizeQuery('  Yield return, yield IEnumerable<T>')).toEqual(['yield', 'return', 'ienumerable', 't']);
+    });
+
+    it('should return nothing for a query without words', () => {
+      expect(tokenizeQuery(' => ?? ')).toEqual([]);
+    });
+  });
+});
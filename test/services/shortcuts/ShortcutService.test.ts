@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ShortcutService,
+  CURRENT_SHORTCUT_MAPPING_VERSION
+} from '../../../src/services/shortcuts/ShortcutService';
+import { DEFAULT_SHORTCUT_BINDINGS } from '../../../src/services/shortcuts/shortcutKeys';
+import { InMemoryStateStorage } from '../../../src/services/state/InMemoryStateStorage';
+import { ValidationError } from '../../../src/errors/ValidationError';
+import type { ShortcutKeyEvent } from '../../../src/interfaces/services/IShortcutService';
+
+const keyEvent = (key: string, overrides: Partial<ShortcutKeyEvent> = {}): ShortcutKeyEvent => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  defaultPrevented: false,
+  target: null,
+  preventDefault: vi.fn(),
+  ...overrides
+});
+
+describe('ShortcutService', () => {
+  let service: ShortcutService;
+
+  beforeEach(() => {
+    service = new ShortcutService();
+  });
+
+  describe('dispatch in the question view', () => {
+    it('should toggle options by number and by letter', () => {
+      const toggleFirst = vi.fn();
+      const toggleThird = vi.fn();
+      service.register('question', { 'toggle-option-1': toggleFirst, 'toggle-option-3': toggleThird });
+
+      expect(service.dispatch(keyEvent('1'), 'question')).toBe(true);
+      expect(service.dispatch(keyEvent('C'), 'question')).toBe(true);
+
+      expect(toggleFirst).toHaveBeenCalledTimes(1);
+      expect(toggleThird).toHaveBeenCalledTimes(1);
+    });
+
+    it('should submit with Enter and prevent its default', () => {
+      const submit = vi.fn();
+      service.register('question', { submit });
+      const event = keyEvent('Enter');
+
+      service.dispatch(event, 'question');
+
+      expect(submit).toHaveBeenCalled();
+      expect(event.preventDefault).toHaveBeenCalled();
+    });
+
+    it('should not run explanation shortcuts', () => {
+      const next = vi.fn();
+      service.register('explanation', { next });
+
+      expect(service.dispatch(keyEvent('n'), 'question')).toBe(false);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatch in the explanation view', () => {
+    it('should move on with N and redo with R', () => {
+      const next = vi.fn();
+      const redo = vi.fn();
+      service.register('explanation', { next, redo });
+
+      service.dispatch(keyEvent('N'), 'explanation');
+      service.dispatch(keyEvent('r'), 'explanation');
+
+      expect(next).toHaveBeenCalled();
+      expect(redo).toHaveBeenCalled();
+    });
+
+    it('should not run question shortcuts', () => {
+      const submit = vi.fn();
+      service.register('question', { submit });
+      const event = keyEvent('Enter');
+
+      expect(service.dispatch(event, 'explanation')).toBe(false);
+      expect(submit).not.toHaveBeenCalled();
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it('should open help in either view', () => {
+      const help = vi.fn();
+      service.register('question', { help });
+      service.register('explanation', { help });
+
+      service.dispatch(keyEvent('?'), 'question');
+      service.dispatch(keyEvent('?'), 'explanation');
+
+      expect(help).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should ignore keys typed into text fields', () => {
+      const submit = vi.fn();
+      service.register('question', { submit });
+
+      ['input', 'textarea', 'select'].forEach(tagName => {
+        service.dispatch(keyEvent('Enter', { target: document.createElement(tagName) }), 'question');
+      });
+
+      expect(submit).not.toHaveBeenCalled();
+    });
+
+    it('should ignore keys held with a modifier or already handled', () => {
+      const toggle = vi.fn();
+      service.register('question', { 'toggle-option-1': toggle });
+
+      service.dispatch(keyEvent('a', { ctrlKey: true }), 'question');
+      service.dispatch(keyEvent('a', { metaKey: true }), 'question');
+      service.dispatch(keyEvent('a', { altKey: true }), 'question');
+      service.dispatch(keyEvent('a', { defaultPrevented: true }), 'question');
+
+      expect(toggle).not.toHaveBeenCalled();
+    });
+
+    it('should use the handler registered last', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      service.register('question', { submit: first });
+      const unregister = service.register('question', { submit: second });
+
+      service.dispatch(keyEvent('Enter'), 'question');
+      unregister();
+      service.dispatch(keyEvent('Enter'), 'question');
+
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave keys without a handler alone', () => {
+      const event = keyEvent('Enter');
+
+      expect(service.dispatch(event, 'question')).toBe(false);
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remap', () => {
+    it('should dispatch the new key instead of the old one', async () => {
+      const next = vi.fn();
+      service.register('explanation', { next });
+
+      await service.remap('next', ['J']);
+
+      expect(service.getBindings().next).toEqual(['j']);
+      expect(service.dispatch(keyEvent('n'), 'explanation')).toBe(false);
+      expect(service.dispatch(keyEvent('j'), 'explanation')).toBe(true);
+    });
+
+    it('should reject a key used by another action in the same view', async () => {
+      await expect(service.remap('submit', ['a'])).rejects.toThrow(ValidationError);
+      await expect(service.remap('submit', ['a'])).rejects.toMatchObject({
+        validationErrors: ['A is already used to "Select or clear option 1"']
+      });
+      expect(service.getBindings().submit).toEqual(['Enter']);
+    });
+
+    it('should allow a key used by an action in another view', async () => {
+      await service.remap('next', ['a']);
+
+      expect(service.getActionForKey('a', 'explanation')).toBe('next');
+      expect(service.getActionForKey('a', 'question')).toBe('toggle-option-1');
+    });
+
+    it('should reject reserved keys and empty mappings', async () => {
+      await expect(service.remap('help', ['Escape'])).rejects.toMatchObject({
+        validationErrors: ['Escape cannot be used as a shortcut']
+      });
+      await expect(service.remap('help', [])).rejects.toMatchObject({
+        validationErrors: ['"Show or hide the keyboard shortcuts" needs at least one key']
+      });
+    });
+
+    it('should not let callers change the bindings through a copy', () => {
+      service.getBindings().submit.push('x');
+
+      expect(service.getBindings().submit).toEqual(['Enter']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save only the remapped actions and restore them', async () => {
+      const storage = new InMemoryStateStorage();
+      await new ShortcutService(storage).remap('redo', ['u']);
+
+      expect(JSON.parse((await storage.load())!)).toEqual({
+        version: CURRENT_SHORTCUT_MAPPING_VERSION,
+        bindings: { redo: ['u'] }
+      });
+
+      const restored = new ShortcutService(storage);
+      await restored.hydrate();
+      expect(restored.getBindings()).toEqual({ ...DEFAULT_SHORTCUT_BINDINGS, redo: ['u'] });
+    });
+
+    it('should forget the saved mapping when reset', async () => {
+      const storage = new InMemoryStateStorage();
+      const remapped = new ShortcutService(storage);
+      await remapped.remap('redo', ['u']);
+
+      await remapped.resetBindings();
+
+      expect(remapped.getBindings()).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+      expect(await storage.load()).toBeNull();
+    });
+
+    it.each([
+      ['invalid JSON', '{oops'],
+      ['a newer version', JSON.stringify({ version: CURRENT_SHORTCUT_MAPPING_VERSION + 1, bindings: {} })],
+      ['malformed keys', JSON.stringify({ version: CURRENT_SHORTCUT_MAPPING_VERSION, bindings: { next: 'n' } })],
+      ['conflicting keys', JSON.stringify({ version: CURRENT_SHORTCUT_MAPPING_VERSION, bindings: { submit: ['a'] } })]
+    ])('should fall back to the defaults for %s', async (_, data) => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const restored = new ShortcutService(new InMemoryStateStorage(data));
+
+      await restored.hydrate();
+
+      expect(restored.getBindings()).toEqual(DEFAULT_SHORTCUT_BINDINGS);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should ignore saved keys of actions that no longer exist', async () => {
+      const data = JSON.stringify({ version: CURRENT_SHORTCUT_MAPPING_VERSION, bindings: { skip: ['s'], next: ['m'] } });
+      const restored = new ShortcutService(new InMemoryStateStorage(data));
+
+      await restored.hydrate();
+
+      expect(restored.getBindings().next).toEqual(['m']);
+    });
+  });
+});
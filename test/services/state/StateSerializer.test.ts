@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StateSerializer, CURRENT_STATE_VERSION } from '../../../src/services/state/StateSerializer';
+import { ValidationError } from '../../../src/errors/ValidationError';
+import type { IApplicationState } from '../../../src/interfaces/domain/types';
+
+describe('StateSerializer', () => {
+  let serializer: StateSerializer;
+  let state: IApplicationState;
+
+  beforeEach(() => {
+    serializer = new StateSerializer();
+    state = {
+      currentQuestionIndex: 4,
+      questionStates: new Map([
+        ['q1', { selectedAnswers: [1], selectedOptionIds: ['b'], isSubmitted: true, isCorrect: true, score: 1, submittedAt: new Date('2024-03-01T10:00:00Z') }],
+        ['q2', { selectedAnswers: [0, 2], selectedOptionIds: ['a', 'c'], isSubmitted: false, isCorrect: false, score: 0 }]
+      ]),
+      bookmarkedQuestionIds: new Set(['q2']),
+      isInitialized: true,
+      totalQuestions: 10
+    };
+  });
+
+  it('should write the current version with Map entries and ISO dates', () => {
+    const persisted = JSON.parse(serializer.serialize(state, new Date('2024-03-02T00:00:00Z')));
+
+    expect(persisted).toEqual({
+      version: CURRENT_STATE_VERSION,
+      savedAt: '2024-03-02T00:00:00.000Z',
+      currentQuestionIndex: 4,
+      questionStates: [
+        ['q1', { selectedOptionIds: ['b'], isSubmitted: true, isCorrect: true, score: 1, submittedAt: '2024-03-01T10:00:00.000Z' }],
+        ['q2', { selectedOptionIds: ['a', 'c'], isSubmitted: false, isCorrect: false, score: 0, submittedAt: null }]
+      ],
+      bookmarkedQuestionIds: ['q2']
+    });
+  });
+
+  it('should round-trip the Map and Date values', () => {
+    const restored = serializer.deserialize(serializer.serialize(state));
+
+    expect(restored.currentQuestionIndex).toBe(4);
+    expect([...restored.questionStates.keys()]).toEqual(['q1', 'q2']);
+    expect(restored.questionStates.get('q1')?.submittedAt).toBeInstanceOf(Date);
+  });
+
+  it('should restore selections as option IDs without positions', () => {
+    const restored = serializer.deserialize(serializer.serialize(state));
+
+    expect(restored.questionStates.get('q2')).toEqual({
+      selectedAnswers: [],
+      selectedOptionIds: ['a', 'c'],
+      isSubmitted: false,
+      isCorrect: false,
+      score: 0,
+      submittedAt: undefined
+    });
+  });
+
+  it('should round-trip bookmarks', () => {
+    state.bookmarkedQuestionIds.add('q9');
+
+    const restored = serializer.deserialize(serializer.serialize(state));
+
+    expect(restored.bookmarkedQuestionIds).toEqual(new Set(['q2', 'q9']));
+  });
+
+  it('should restore no bookmarks from state saved before bookmarks', () => {
+    const saved = JSON.stringify({ version: CURRENT_STATE_VERSION, currentQuestionIndex: 0, questionStates: [] });
+
+    expect(serializer.deserialize(saved).bookmarkedQuestionIds.size).toBe(0);
+  });
+
+  it('should reject bookmarks that are not question IDs', () => {
+    const saved = JSON.stringify({
+      version: CURRENT_STATE_VERSION,
+      currentQuestionIndex: 0,
+      questionStates: [],
+      bookmarkedQuestionIds: [1]
+    });
+
+    expect(() => serializer.deserialize(saved)).toThrow(ValidationError);
+  });
+
+  it('should migrate unversioned state with questionStates as an object', () => {
+    const legacy = JSON.stringify({
+      currentQuestionIndex: 1,
+      questionStates: {
+        q1: { selectedAnswers: [3], isSubmitted: true, isCorrect: false, submittedAt: '2024-01-01T00:00:00.000Z' }
+      }
+    });
+
+    const restored = serializer.deserialize(legacy);
+
+    expect(restored.currentQuestionIndex).toBe(1);
+    expect(restored.questionStates.get('q1')).toEqual({
+      selectedAnswers: [],
+      selectedOptionIds: [],
+      isSubmitted: true,
+      isCorrect: false,
+      score: 0,
+      submittedAt: new Date('2024-01-01T00:00:00.000Z')
+    });
+  });
+
+  it('should round-trip partial credit', () => {
+    state.questionStates.set('q3', { selectedAnswers: [0], isSubmitted: true, isCorrect: false, score: 0.5 });
+
+    const restored = serializer.deserialize(serializer.serialize(state));
+
+    expect(restored.questionStates.get('q3')?.score).toBe(0.5);
+  });
+
+  it('should round-trip typed output', () => {
+    state.questionStates.set('q3', {
+      selectedAnswers: [],
+      isSubmitted: true,
+      isCorrect: false,
+      score: 0,
+      submittedOutput: 'Hello\r\n  World'
+    });
+
+    const restored = serializer.deserialize(serializer.serialize(state));
+
+    expect(restored.questionStates.get('q3')?.submittedOutput).toBe('Hello\r\n  World');
+  });
+
+  it('should reject typed output that is not a string', () => {
+    const saved = JSON.stringify({
+      version: CURRENT_STATE_VERSION,
+      currentQuestionIndex: 0,
+      questionStates: [['q1', { selectedOptionIds: [], isSubmitted: true, isCorrect: true, submittedOutput: 3 }]]
+    });
+
+    expect(() => serializer.deserialize(saved)).toThrow(ValidationError);
+  });
+
+  it('should score states saved before partial credit all or nothing', () => {
+    const saved = JSON.stringify({
+      version: CURRENT_STATE_VERSION,
+      currentQuestionIndex: 0,
+      questionStates: [
+        ['q1', { selectedOptionIds: ['b'], isSubmitted: true, isCorrect: true, submittedAt: null }],
+        ['q2', { selectedOptionIds: ['a'], isSubmitted: true, isCorrect: false, submittedAt: null }]
+      ]
+    });
+
+    const restored = serializer.deserialize(saved);
+
+    expect(restored.questionStates.get('q1')?.score).toBe(1);
+    expect(restored.questionStates.get('q2')?.score).toBe(0);
+  });
+
+  it('should reject state written by a newer version', () => {
+    const future = JSON.stringify({ version: CURRENT_STATE_VERSION + 1, currentQuestionIndex: 0, questionStates: [] });
+
+    expect(() => serializer.deserialize(future)).toThrow(`Unsupported stored state version: ${CURRENT_STATE_VERSION + 1}`);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => serializer.deserialize('{oops')).toThrow(ValidationError);
+  });
+
+  it('should report every malformed field', () => {
+    const malformed = JSON.stringify({
+      version: CURRENT_STATE_VERSION,
+      savedAt: '2024-03-02T00:00:00.000Z',
+      currentQuestionIndex: -1,
+      questionStates: [
+        ['q1', { selectedOptionIds: 'a', isSubmitted: true, isCorrect: true, score: 2, submittedAt: 'not a date' }],
+        'garbage'
+      ]
+    });
+
+    try {
+      serializer.deserialize(malformed);
+      expect.fail('Expected deserialize to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).validationErrors).toEqual([
+        'currentQuestionIndex must be a non-negative integer',
+        'questionStates[0].selectedOptionIds must be an array of option IDs',
+        'questionStates[0].score must be a number from 0 to 1',
+        'questionStates[0].submittedAt must be an ISO date string',
+        'questionStates[1] must be a [questionId, state] pair'
+      ]);
+    }
+  });
+});
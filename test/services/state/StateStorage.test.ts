@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryStateStorage } from '../../../src/services/state/InMemoryStateStorage';
+import { LocalStorageStateStorage, DEFAULT_STATE_STORAGE_KEY } from '../../../src/services/state/LocalStorageStateStorage';
+import { IndexedDbStateStorage } from '../../../src/services/state/IndexedDbStateStorage';
+import { DataLoadError } from '../../../src/errors/DataLoadError';
+
+describe('InMemoryStateStorage', () => {
+  it('should load, save and clear state', async () => {
+    const storage = new InMemoryStateStorage('initial');
+
+    expect(await storage.load()).toBe('initial');
+    await storage.save('updated');
+    expect(await storage.load()).toBe('updated');
+    await storage.clear();
+    expect(await storage.load()).toBeNull();
+  });
+});
+
+describe('LocalStorageStateStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store state under the default key', async () => {
+    const storage = new LocalStorageStateStorage();
+
+    await storage.save('{"version":1}');
+
+    expect(localStorage.getItem(DEFAULT_STATE_STORAGE_KEY)).toBe('{"version":1}');
+    expect(await storage.load()).toBe('{"version":1}');
+  });
+
+  it('should clear only its own key', async () => {
+    localStorage.setItem('other', 'keep');
+    const storage = new LocalStorageStateStorage('custom-key');
+    await storage.save('data');
+
+    await storage.clear();
+
+    expect(await storage.load()).toBeNull();
+    expect(localStorage.getItem('other')).toBe('keep');
+  });
+
+  it('should wrap write failures in DataLoadError', async () => {
+    const failingStorage = {
+      ...localStorage,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      }
+    } as Storage;
+    const storage = new LocalStorageStateStorage('key', failingStorage);
+
+    await expect(storage.save('data')).rejects.toBeInstanceOf(DataLoadError);
+  });
+
+  it('should reject when localStorage is unavailable', async () => {
+    const storage = new LocalStorageStateStorage('key', null);
+
+    await expect(storage.load()).rejects.toThrow('Failed to load data from localStorage key "key"');
+  });
+});
+
+describe('IndexedDbStateStorage', () => {
+  it('should reject with DataLoadError when IndexedDB is unavailable', async () => {
+    const storage = new IndexedDbStateStorage('test-db', null);
+
+    await expect(storage.load()).rejects.toBeInstanceOf(DataLoadError);
+    await expect(storage.save('data')).rejects.toThrow('Failed to load data from IndexedDB database "test-db"');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import type { FlipCardQuestion, Question } from '../../../src/utils/types';
+import { FlipCardValidator } from '../../../src/services/study-modes/FlipCardValidator';
+import type { AnswerSubmission } from '../../../src/services/study-modes/IAnswerValidator';
+
+describe('FlipCardValidator', () => {
+  let validator: FlipCardValidator;
+  let flipCard: FlipCardQuestion;
+
+  const createSubmission = (userAnswer: Record<string, unknown>): AnswerSubmission => ({
+    questionId: flipCard.id,
+    timestamp: new Date(),
+    timeSpent: 4000,
+    userAnswer
+  });
+
+  beforeEach(() => {
+    validator = new FlipCardValidator();
+    flipCard = {
+      id: 'fc-test-1',
+      type: 'flip-card',
+      question: 'What is a variable?',
+      answer: 'A named storage location',
+      explanation: 'Variables hold values',
+      category: 'basics',
+      subcategory: 'variables',
+      difficulty: 2,
+      tags: ['variables']
+    };
+  });
+
+  test('should only validate flip cards', () => {
+    expect(validator.canValidate(flipCard)).toBe(true);
+    expect(validator.canValidate({ ...flipCard, type: 'multiple-choice' } as unknown as Question)).toBe(false);
+    expect(validator.getMaxScore(flipCard)).toBe(1);
+  });
+
+  test('should score known cards as correct', () => {
+    const result = validator.validateAnswer(flipCard, createSubmission({ known: true }));
+
+    expect(result.isCorrect).toBe(true);
+    expect(result.score).toBe(1);
+    expect(result.explanation).toBe('Variables hold values');
+  });
+
+  test('should score unknown cards as incorrect', () => {
+    const result = validator.validateAnswer(flipCard, createSubmission({ known: false }));
+
+    expect(result.isCorrect).toBe(false);
+    expect(result.score).toBe(0);
+  });
+
+  test('should reject submissions without a known flag', () => {
+    expect(() => validator.validateAnswer(flipCard, createSubmission({ selectedIndex: 0 })))
+      .toThrow('Invalid submission format');
+  });
+});
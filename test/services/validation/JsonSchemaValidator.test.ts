@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSchemaValidator, type JsonSchema } from '../../../src/services/validation/JsonSchemaValidator';
+
+describe('JsonSchemaValidator', () => {
+  const validator = new JsonSchemaValidator();
+
+  it('should accept a value that matches the schema', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['id'],
+      properties: { id: { type: 'string', pattern: '^[a-z]+-[0-9]{4}$' } }
+    };
+
+    expect(validator.validate(schema, { id: 'basics-0001' })).toEqual([]);
+  });
+
+  it('should report the keyword and JSON pointer of each violation', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['id', 'tags'],
+      properties: {
+        id: { type: 'string', pattern: '^[a-z]+-[0-9]{4}$' },
+        difficulty: { type: 'integer', minimum: 1, maximum: 10 }
+      }
+    };
+
+    expect(validator.validate(schema, { id: 'Basics_1', difficulty: 11 })).toEqual([
+      { pointer: '', keyword: 'required', message: 'must have required property "tags"' },
+      { pointer: '/id', keyword: 'pattern', message: 'must match pattern ^[a-z]+-[0-9]{4}$' },
+      { pointer: '/difficulty', keyword: 'maximum', message: 'must be at most 10' }
+    ]);
+  });
+
+  it('should check types, enums and constants', () => {
+    expect(validator.validate({ type: 'integer' }, 4.5)).toEqual([
+      { pointer: '', keyword: 'type', message: 'must be integer' }
+    ]);
+    expect(validator.validate({ enum: ['basics', 'expert'] }, 'beginner')[0].keyword).toBe('enum');
+    expect(validator.validate({ const: 'flip-card' }, 'multiple-choice')[0].message).toBe('must be "flip-card"');
+  });
+
+  it('should check string length and formats', () => {
+    expect(validator.validate({ type: 'string', minLength: 10 }, 'short')[0].keyword).toBe('minLength');
+    expect(validator.validate({ type: 'string', maxLength: 3 }, 'long')[0].keyword).toBe('maxLength');
+    expect(validator.validate({ type: 'string', format: 'date-time' }, '2025-01-27T12:00:00.000Z')).toEqual([]);
+    expect(validator.validate({ type: 'string', format: 'date-time' }, '27/01/2025')[0].keyword).toBe('format');
+    expect(validator.validate({ type: 'string', format: 'uri' }, 'not a uri')[0].keyword).toBe('format');
+  });
+
+  it('should check array bounds, uniqueness and items', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      items: { type: 'string', minLength: 2 },
+      minItems: 1,
+      maxItems: 3,
+      uniqueItems: true
+    };
+
+    expect(validator.validate(schema, [])[0].keyword).toBe('minItems');
+    expect(validator.validate(schema, ['ab', 'cd', 'ef', 'gh'])[0].keyword).toBe('maxItems');
+    expect(validator.validate(schema, ['ab', 'x', 'ab'])).toEqual([
+      { pointer: '/2', keyword: 'uniqueItems', message: 'duplicates an earlier item' },
+      { pointer: '/1', keyword: 'minLength', message: 'must be at least 2 characters long' }
+    ]);
+  });
+
+  it('should resolve local references and escape pointer tokens', () => {
+    const schema: JsonSchema = {
+      definitions: { positive: { type: 'number', minimum: 1 } },
+      type: 'object',
+      properties: { 'a/b': { $ref: '#/definitions/positive' } }
+    };
+
+    expect(validator.validate(schema, { 'a/b': 0 })).toEqual([
+      { pointer: '/a~1b', keyword: 'minimum', message: 'must be at least 1' }
+    ]);
+  });
+
+  it('should throw for references it cannot resolve', () => {
+    expect(() => validator.validate({ $ref: '#/definitions/missing' }, {})).toThrow(
+      'Cannot resolve schema reference "#/definitions/missing"'
+    );
+    expect(() => validator.validate({ $ref: 'http://example.com/schema.json' }, {})).toThrow(
+      'only local references are supported'
+    );
+  });
+
+  describe('combinators', () => {
+    const schema: JsonSchema = {
+      definitions: {
+        base: { type: 'object', required: ['id'], properties: { id: { type: 'string', pattern: '^q-[0-9]$' } } },
+        flipCard: {
+          allOf: [{ $ref: '#/definitions/base' }, { required: ['answer'], properties: { type: { const: 'flip-card' } } }]
+        },
+        multipleChoice: {
+          allOf: [{ $ref: '#/definitions/base' }, { required: ['options'], properties: { type: { const: 'multiple-choice' } } }]
+        }
+      },
+      oneOf: [{ $ref: '#/definitions/flipCard' }, { $ref: '#/definitions/multipleChoice' }]
+    };
+
+    it('should accept a value matching exactly one alternative', () => {
+      expect(validator.validate(schema, { id: 'q-1', type: 'flip-card', answer: 'Yes' })).toEqual([]);
+    });
+
+    it('should report the errors of the alternative whose discriminator matches', () => {
+      expect(validator.validate(schema, { id: 'bad', type: 'multiple-choice' })).toEqual([
+        { pointer: '/id', keyword: 'pattern', message: 'must match pattern ^q-[0-9]$' },
+        { pointer: '', keyword: 'required', message: 'must have required property "options"' }
+      ]);
+    });
+
+    it('should reject a value matching several alternatives of oneOf', () => {
+      expect(validator.validate({ oneOf: [{ type: 'number' }, { minimum: 0 }] }, 5)).toEqual([
+        { pointer: '', keyword: 'oneOf', message: 'must match exactly one schema in oneOf, but matches 2' }
+      ]);
+    });
+
+    it('should accept a value matching any alternative of anyOf', () => {
+      expect(validator.validate({ anyOf: [{ type: 'string' }, { type: 'null' }] }, null)).toEqual([]);
+      expect(validator.validate({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 1)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  QuestionFileSchemaValidator,
+  resolveRelativePath,
+  formatSchemaViolation
+} from '../../../src/services/validation/QuestionFileSchemaValidator';
+
+const schema = {
+  type: 'object',
+  required: ['questions'],
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'tags'],
+        properties: {
+          id: { type: 'string', pattern: '^[a-z]+-[0-9]{4}$' },
+          tags: { type: 'array', maxItems: 2 }
+        }
+      }
+    }
+  }
+};
+
+const createReader = (files: Record<string, unknown>) =>
+  vi.fn(async (filePath: string) => {
+    if (!(filePath in files)) {
+      throw new Error(`HTTP 404: Not Found`);
+    }
+    return files[filePath];
+  });
+
+describe('QuestionFileSchemaValidator', () => {
+  it('should check a file against the schema it declares, relative to the file', async () => {
+    const readJson = createReader({
+      'data/metadata/schema.json': schema,
+      'data/questions/basics.json': {
+        $schema: '../metadata/schema.json',
+        questions: [{ id: 'basics-0001', tags: ['linq'] }]
+      }
+    });
+    const validator = new QuestionFileSchemaValidator(readJson);
+
+    expect(await validator.validateFile('data/questions/basics.json')).toEqual([]);
+    expect(readJson).toHaveBeenCalledWith('data/metadata/schema.json');
+  });
+
+  it('should report violations with the file, question id and JSON pointer', async () => {
+    const validator = new QuestionFileSchemaValidator(createReader({
+      'data/metadata/schema.json': schema,
+      'data/questions/basics.json': {
+        $schema: '../metadata/schema.json',
+        questions: [
+          { id: 'basics-0001', tags: ['a', 'b', 'c'] },
+          { id: 'Basics_2', tags: [] },
+          { tags: [] }
+        ]
+      }
+    }));
+
+    const violations = await validator.validateFile('data/questions/basics.json');
+
+    expect(violations).toEqual([
+      {
+        filePath: 'data/questions/basics.json',
+        questionId: 'basics-0001',
+        pointer: '/questions/0/tags',
+        keyword: 'maxItems',
+        message: 'must have at most 2 items'
+      },
+      {
+        filePath: 'data/questions/basics.json',
+        questionId: 'Basics_2',
+        pointer: '/questions/1/id',
+        keyword: 'pattern',
+        message: 'must match pattern ^[a-z]+-[0-9]{4}$'
+      },
+      {
+        filePath: 'data/questions/basics.json',
+        questionId: null,
+        pointer: '/questions/2',
+        keyword: 'required',
+        message: 'must have required property "id"'
+      }
+    ]);
+    expect(formatSchemaViolation(violations[1])).toBe(
+      'data/questions/basics.json › Basics_2 › /questions/1/id: must match pattern ^[a-z]+-[0-9]{4}$'
+    );
+  });
+
+  it('should report files without a usable schema declaration', async () => {
+    const validator = new QuestionFileSchemaValidator(createReader({
+      'no-schema.json': { questions: [] },
+      'remote.json': { $schema: 'http://json-schema.org/draft-07/schema#', questions: [] },
+      'missing-schema.json': { $schema: 'nowhere.json', questions: [] }
+    }));
+
+    const report = await validator.validateFiles(['no-schema.json', 'remote.json', 'missing-schema.json', 'absent.json']);
+
+    expect(report.isValid).toBe(false);
+    expect(report.filesChecked).toBe(4);
+    expect(report.violations.map(violation => [violation.filePath, violation.keyword, violation.message])).toEqual([
+      ['no-schema.json', '$schema', 'File does not declare a $schema'],
+      ['remote.json', '$schema', 'Remote schema "http://json-schema.org/draft-07/schema#" is not supported; use a path relative to the file'],
+      ['missing-schema.json', '$schema', 'Cannot read schema nowhere.json: HTTP 404: Not Found'],
+      ['absent.json', 'file', 'Cannot read file: HTTP 404: Not Found']
+    ]);
+  });
+
+  it('should read each schema once for many files', async () => {
+    const readJson = createReader({
+      'data/metadata/schema.json': schema,
+      'data/questions/a.json': { $schema: '../metadata/schema.json', questions: [] },
+      'data/questions/b.json': { $schema: '../metadata/schema.json', questions: [] }
+    });
+    const validator = new QuestionFileSchemaValidator(readJson);
+
+    const report = await validator.validateFiles(['data/questions/a.json', 'data/questions/b.json']);
+
+    expect(report).toEqual({ isValid: true, filesChecked: 2, violations: [] });
+    expect(readJson.mock.calls.filter(([filePath]) => filePath === 'data/metadata/schema.json')).toHaveLength(1);
+  });
+
+  it('should accept the shipped question files against the shipped schema', async () => {
+    const validator = new QuestionFileSchemaValidator(async filePath =>
+      JSON.parse(await readFile(join('public', filePath), 'utf8'))
+    );
+
+    const violations = await validator.validateFile('data/questions/csharp-interview-questions.json');
+
+    expect(violations.map(formatSchemaViolation)).toEqual([]);
+  });
+
+  it('should accept correctAnswerIndex or correctAnswerIndices on shipped-schema multiple-choice questions', async () => {
+    const multipleChoice = (id: string, answer: Record<string, unknown>) => ({
+      id,
+      question: 'Which of these are value types in C#?',
+      type: 'multiple-choice',
+      category: 'basics',
+      difficulty: 3,
+      tags: ['types'],
+      options: [{ id: 'a', text: 'int' }, { id: 'b', text: 'string' }, { id: 'c', text: 'DateTime' }],
+      ...answer
+    });
+    const validator = new QuestionFileSchemaValidator(async filePath => {
+      if (filePath === 'data/questions/answers.json') {
+        return {
+          $schema: '../metadata/schema.json',
+          metadata: {
+            category: 'basics',
+            subcategory: 'types',
+            fileVersion: 1,
+            lastUpdated: '2024-01-01T00:00:00Z',
+            questionCount: 3
+          },
+          questions: [
+            multipleChoice('basics-0001', { correctAnswerIndex: 0 }),
+            multipleChoice('basics-0002', { correctAnswerIndices: [0, 2] }),
+            multipleChoice('basics-0003', {})
+          ]
+        };
+      }
+      return JSON.parse(await readFile(join('public', filePath), 'utf8'));
+    });
+
+    const violations = await validator.validateFile('data/questions/answers.json');
+
+    expect(violations.map(violation => violation.questionId)).toEqual(['basics-0003']);
+  });
+
+  describe('resolveRelativePath', () => {
+    it('should resolve paths relative to the referencing file', () => {
+      expect(resolveRelativePath('data/questions/basics.json', '../metadata/schema.json')).toBe('data/metadata/schema.json');
+      expect(resolveRelativePath('data/questions/basics.json', './schema.json')).toBe('data/questions/schema.json');
+      expect(resolveRelativePath('data/questions/basics.json', '/schema.json')).toBe('/schema.json');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { CSharpExecutionSimulator } from '../../../src/tools/question-lint/CSharpExecutionSimulator';
+
+describe('CSharpExecutionSimulator', () => {
+  it('should print string literals and variables', () => {
+    const code = [
+      'string name = "World";',
+      'Console.WriteLine("Hello");',
+      'Console.WriteLine(name);'
+    ].join('\n');
+
+    expect(CSharpExecutionSimulator.simulate(code)).toBe('Hello\nWorld');
+  });
+
+  it('should follow assignments and compound assignments', () => {
+    const code = [
+      'int x = 5;',
+      'x += 3;',
+      'string s = "a";',
+      's += "b";',
+      'Console.WriteLine($"{x} {s}");'
+    ].join('\n');
+
+    expect(CSharpExecutionSimulator.simulate(code)).toBe('8 ab');
+  });
+
+  it('should share array references between variables', () => {
+    const code = [
+      'int[] first = {1, 2, 3};',
+      'int[] second = first;',
+      'second[0] = 20;',
+      'Console.WriteLine($"{first[0]}");'
+    ].join('\n');
+
+    expect(CSharpExecutionSimulator.simulate(code)).toBe('20');
+  });
+
+  it('should print booleans and runtime type names the way C# does', () => {
+    const code = [
+      'int number = 42;',
+      'bool flag = true;',
+      'Console.WriteLine($"{number.GetType().Name} {flag}");'
+    ].join('\n');
+
+    expect(CSharpExecutionSimulator.simulate(code)).toBe('Int32 True');
+  });
+
+  it('should ignore comments', () => {
+    expect(CSharpExecutionSimulator.simulate('// Console.WriteLine("no");\nConsole.WriteLine("yes");')).toBe('yes');
+  });
+
+  it('should not guess when there is no console output', () => {
+    expect(CSharpExecutionSimulator.simulate('var list = new List<int>();')).toBeNull();
+  });
+
+  it('should not guess output of loops, branches or expressions it cannot evaluate', () => {
+    expect(CSharpExecutionSimulator.simulate('for (int i = 3; i > 0; i--)\n{\n    Console.WriteLine(i * 2);\n}')).toBeNull();
+    expect(CSharpExecutionSimulator.simulate('bool ok = true;\nif (ok) Console.WriteLine("ok");')).toBeNull();
+    expect(CSharpExecutionSimulator.simulate('int total = 7;\nConsole.WriteLine(total / 2);')).toBeNull();
+    expect(CSharpExecutionSimulator.simulate('Console.WriteLine($"{missing}");')).toBeNull();
+  });
+
+  it('should not mistake keywords inside string literals for control flow', () => {
+    expect(CSharpExecutionSimulator.simulate('Console.WriteLine("do it if you can");')).toBe('do it if you can');
+  });
+
+  it('should count Console.WriteLine calls', () => {
+    expect(CSharpExecutionSimulator.countWriteLines('Console.WriteLine(1); Console.WriteLine(2);')).toBe(2);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QuestionLinter,
+  FILE_RULE_ID,
+  UNKNOWN_SUPPRESSION_RULE_ID,
+  defaultLintRules,
+  formatLintReportText,
+  formatLintReportJson,
+  type LintableQuestion
+} from '../../../src/tools/question-lint';
+
+const validQuestion = (overrides: LintableQuestion = {}): LintableQuestion => ({
+  id: 'basics-0001',
+  question: 'What does Console.WriteLine print?',
+  type: 'multiple-choice',
+  options: [
+    { id: 'a', text: 'The text and a newline' },
+    { id: 'b', text: 'The text only' }
+  ],
+  correctAnswerIndex: 0,
+  explanation: 'WriteLine appends a newline',
+  ...overrides
+});
+
+const lint = (questions: unknown[], linter = new QuestionLinter()) =>
+  linter.lintFiles(['data/questions/basics.json'], async () => ({ questions }));
+
+const ruleIdsOf = async (question: LintableQuestion) =>
+  (await lint([question])).issues.map(issue => issue.ruleId);
+
+describe('QuestionLinter', () => {
+  it('should pass a well-formed question', async () => {
+    const report = await lint([validQuestion()]);
+
+    expect(report.issues).toEqual([]);
+    expect(report.errorCount).toBe(0);
+    expect(report.questionsChecked).toBe(1);
+  });
+
+  it('should give every built-in rule a unique id', () => {
+    const ids = defaultLintRules.map(rule => rule.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  describe('structure rules', () => {
+    it('should require an id, question text and type', async () => {
+      const report = await lint([{ options: [] }]);
+
+      expect(report.issues.filter(issue => issue.ruleId === 'structure/required-fields').map(issue => issue.message))
+        .toEqual(['Question must have an ID', 'Question must have question text', 'Question must have a type']);
+      expect(report.issues[0].questionId).toBe('#1');
+    });
+
+    it('should check multiple-choice answers', async () => {
+      const report = await lint([validQuestion({ options: [{ id: 'a', text: 'Only' }], correctAnswerIndex: 3 })]);
+
+      expect(report.issues.map(issue => issue.message)).toEqual([
+        'Multiple choice questions must have at least 2 options',
+        'Correct answer index 3 is out of bounds'
+      ]);
+    });
+
+    it('should require an explanation for multiple-choice and an answer for flip-cards', async () => {
+      expect(await ruleIdsOf(validQuestion({ explanation: ' ' }))).toEqual(['structure/multiple-choice-explanation']);
+      expect(await ruleIdsOf({ id: 'x-0001', question: 'What is LINQ?', type: 'flip-card' }))
+        .toEqual(['structure/flip-card-answer']);
+    });
+
+    it('should require the output of predict-output questions', async () => {
+      const predictOutput = (output?: string): LintableQuestion => ({
+        id: 'x-0001',
+        question: 'What does this print?',
+        type: 'predict-output',
+        explanation: 'WriteLine appends a newline',
+        codeExample: { code: 'Console.WriteLine("Hi");', language: 'csharp', output }
+      });
+
+      expect(await ruleIdsOf(predictOutput('Hi'))).toEqual([]);
+      expect(await ruleIdsOf(predictOutput())).toEqual(['structure/predict-output-output']);
+    });
+
+    it('should warn about unknown question types', async () => {
+      const report = await lint([{ id: 'x-0001', question: 'Explain', type: 'essay' }]);
+
+      expect(report.issues).toEqual([expect.objectContaining({ ruleId: 'structure/known-type', severity: 'warning' })]);
+      expect(report.errorCount).toBe(0);
+    });
+  });
+
+  describe('code example rules', () => {
+    it('should require code and a language', async () => {
+      expect(await ruleIdsOf(validQuestion({ codeExample: { code: '', language: '' } })))
+        .toEqual(['code-example/content', 'code-example/content']);
+    });
+
+    it('should compare a stated output with the Console.WriteLine count and the simulation', async () => {
+      const report = await lint([validQuestion({
+        codeExample: { language: 'csharp', code: 'int x = 1;\nConsole.WriteLine(x);', output: '2\n3' }
+      })]);
+
+      expect(report.issues.map(issue => issue.message)).toEqual([
+        'Output format issue: 1 Console.WriteLine statements but 2 output lines',
+        'Code execution mismatch: expected "2\n3", simulated "1"'
+      ]);
+      expect(report.warningCount).toBe(2);
+    });
+
+    it('should not check snippets without a stated output', async () => {
+      expect(await ruleIdsOf(validQuestion({ codeExample: { language: 'csharp', code: 'Console.WriteLine(1);' } })))
+        .toEqual([]);
+    });
+  });
+
+  describe('option quality rules', () => {
+    it('should reject empty and duplicate options', async () => {
+      const options = [{ id: 'a', text: 'Same' }, { id: 'b', text: 'Same ' }, { id: 'c', text: '' }];
+
+      expect(await ruleIdsOf(validQuestion({ options }))).toEqual(['options/empty-text', 'options/duplicate-text']);
+    });
+
+    it('should warn about long options and too many options', async () => {
+      const options = Array.from({ length: 7 }, (_, index) => ({
+        id: String.fromCharCode(97 + index),
+        text: index === 0 ? 'x'.repeat(501) : `Option ${index}`
+      }));
+
+      expect(await ruleIdsOf(validQuestion({ options }))).toEqual(['options/text-length', 'options/count']);
+    });
+  });
+
+  describe('answer leak rules', () => {
+    it('should report answer leaks with the rule id from the question-answer rules', async () => {
+      const report = await lint([validQuestion({
+        options: [{ id: 'a', text: 'bool' }, { id: 'b', text: 'boolean' }],
+        codeExample: { language: 'csharp', code: 'bool isValid = true;' }
+      })]);
+
+      expect(report.issues).toEqual([expect.objectContaining({
+        ruleId: 'answer-rules/correct-option-in-code',
+        severity: 'warning',
+        questionId: 'basics-0001'
+      })]);
+    });
+  });
+
+  describe('suppression comments', () => {
+    const duplicateOptions = [{ id: 'a', text: 'Same' }, { id: 'b', text: 'Same' }];
+
+    it('should suppress the listed rules for one question', async () => {
+      const report = await lint([
+        validQuestion({ options: duplicateOptions, $comment: 'lint-disable options/duplicate-text -- deliberate trick' }),
+        validQuestion({ id: 'basics-0002', options: duplicateOptions })
+      ]);
+
+      expect(report.issues.map(issue => issue.questionId)).toEqual(['basics-0002']);
+      expect(report.suppressedCount).toBe(1);
+    });
+
+    it('should suppress every rule with a bare lint-disable', async () => {
+      const report = await lint([validQuestion({ options: duplicateOptions, explanation: '', $comment: 'lint-disable' })]);
+
+      expect(report.issues).toEqual([]);
+      expect(report.suppressedCount).toBe(2);
+    });
+
+    it('should warn about suppressions of unknown rules', async () => {
+      const report = await lint([validQuestion({ $comment: 'lint-disable options/typo, options/count' })]);
+
+      expect(report.issues).toEqual([expect.objectContaining({
+        ruleId: UNKNOWN_SUPPRESSION_RULE_ID,
+        message: 'Suppression names unknown rule "options/typo"'
+      })]);
+    });
+  });
+
+  describe('files', () => {
+    it('should report unreadable files and files without questions', async () => {
+      const linter = new QuestionLinter();
+      const report = await linter.lintFiles(['missing.json', 'empty.json'], async filePath => {
+        if (filePath === 'missing.json') {
+          throw new Error('ENOENT');
+        }
+        return { metadata: {} };
+      });
+
+      expect(report.issues).toEqual([
+        { ruleId: FILE_RULE_ID, severity: 'error', filePath: 'missing.json', questionId: null, message: 'Cannot read file: ENOENT' },
+        { ruleId: FILE_RULE_ID, severity: 'error', filePath: 'empty.json', questionId: null, message: 'File must contain a "questions" array' }
+      ]);
+      expect(report.filesChecked).toBe(2);
+    });
+
+    it('should collect question bank statistics', async () => {
+      const report = await lint([
+        validQuestion({ codeExample: { language: 'csharp', code: 'Console.WriteLine(1);', output: '1' } }),
+        { id: 'x-0001', question: 'What is LINQ?', type: 'flip-card', answer: 'Language Integrated Query' }
+      ]);
+
+      expect(report.stats).toEqual({
+        total: 2,
+        fileCount: 1,
+        byType: { 'multiple-choice': 1, 'flip-card': 1 },
+        byLanguage: { csharp: 1 },
+        withCodeExamples: 1,
+        withOutput: 1
+      });
+    });
+
+    it('should run only the rules it is given', async () => {
+      const linter = new QuestionLinter(defaultLintRules.filter(rule => rule.category === 'option-quality'));
+
+      const report = await lint([{ options: [] }], linter);
+
+      expect(report.issues).toEqual([]);
+    });
+  });
+
+  describe('formatters', () => {
+    it('should group issues by file with a summary for people', async () => {
+      const report = await lint([
+        validQuestion({ options: [{ id: 'a', text: 'Same' }, { id: 'b', text: 'Same' }], $comment: 'lint-disable options/count' }),
+        validQuestion({ id: 'basics-0002', explanation: '' })
+      ]);
+
+      expect(formatLintReportText(report)).toBe([
+        'data/questions/basics.json',
+        '  basics-0001  error    Answer options contain duplicates  options/duplicate-text',
+        '  basics-0002  error    Multiple choice questions must have explanation  structure/multiple-choice-explanation',
+        '',
+        '2 problems (2 errors, 0 warnings)',
+        '2 questions in 1 file checked'
+      ].join('\n'));
+    });
+
+    it('should report a clean run', async () => {
+      expect(formatLintReportText(await lint([validQuestion()]))).toBe('No problems found\n1 question in 1 file checked');
+    });
+
+    it('should produce JSON for tools', async () => {
+      const report = await lint([validQuestion({ explanation: '' })]);
+
+      expect(JSON.parse(formatLintReportJson(report))).toEqual(report);
+    });
+  });
+});
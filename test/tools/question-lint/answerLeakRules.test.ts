@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { answerLeakRules, type LintableQuestion } from '../../../src/tools/question-lint';
+
+const ruleById = (id: string) => answerLeakRules.find(rule => rule.id === id)!;
+
+const question = (code: string, options: string[], correctAnswerIndex = 0): LintableQuestion => ({
+  id: 'basics-0001',
+  question: 'Which one?',
+  type: 'multiple-choice',
+  options: options.map((text, index) => ({ id: String.fromCharCode(97 + index), text })),
+  correctAnswerIndex,
+  explanation: 'Because',
+  codeExample: { language: 'csharp', code }
+});
+
+describe('answerLeakRules', () => {
+  describe('answer-rules/correct-option-in-code', () => {
+    const rule = ruleById('answer-rules/correct-option-in-code');
+
+    it('should flag a correct option that appears in the code', () => {
+      expect(rule.check(question('bool isValid = true;', ['bool', 'boolean'])))
+        .toEqual(['Code example contains the correct option "bool"']);
+    });
+
+    it('should only match whole tokens', () => {
+      expect(rule.check(question('var number = 42;', ['num', 'var2']))).toEqual([]);
+    });
+
+    it('should check every correct option and ignore incorrect ones', () => {
+      const multiAnswer = { ...question('int x = 1; string s = "a";', ['int', 'string', 'char']), correctAnswerIndices: [1, 2] };
+
+      expect(rule.check(multiAnswer)).toEqual(['Code example contains the correct option "string"']);
+    });
+
+    it('should ignore questions without a code example', () => {
+      expect(rule.check({ ...question('', ['bool', 'int']), codeExample: undefined })).toEqual([]);
+    });
+  });
+
+  describe('answer-rules/options-named-in-code', () => {
+    const rule = ruleById('answer-rules/options-named-in-code');
+
+    it('should flag code that names all options but one', () => {
+      const code = 'bool isValid = true;\nint number = 42;\nstring text = "Hello";';
+
+      expect(rule.check(question(code, ['string', 'boolean', 'int', 'bool'], 1)))
+        .toEqual(['Code example uses "string", "int", "bool", leaving only "boolean"']);
+    });
+
+    it('should pass when the code uses var', () => {
+      const code = 'var isValid = true;\nvar number = 42;\nvar text = "Hello";';
+
+      expect(rule.check(question(code, ['string', 'boolean', 'int', 'double'], 1))).toEqual([]);
+    });
+
+    it('should ignore questions with fewer than three options', () => {
+      expect(rule.check(question('int x = 1;', ['int', 'long']))).toEqual([]);
+    });
+  });
+
+  describe('answer-rules/single-line-loop-output', () => {
+    const rule = ruleById('answer-rules/single-line-loop-output');
+    const loop = 'for (int i = 0; i < 3; i++)\n{\n    Console.WriteLine(i);\n}';
+
+    it('should flag one-line sequences offered for WriteLine in a loop', () => {
+      expect(rule.check(question(loop, ['0, 1, 2', '1, 2, 3', 'Nothing'])))
+        .toEqual([
+          'Console.WriteLine runs in a loop, but option "0, 1, 2" puts the output on one line',
+          'Console.WriteLine runs in a loop, but option "1, 2, 3" puts the output on one line'
+        ]);
+    });
+
+    it('should flag values listed with other separators or none', () => {
+      expect(rule.check(question(loop, ['0 1 2', '012', '3 2 1', '0;1;2', 'Hi Hi Hi'])))
+        .toEqual([
+          'Console.WriteLine runs in a loop, but option "0 1 2" puts the output on one line',
+          'Console.WriteLine runs in a loop, but option "012" puts the output on one line',
+          'Console.WriteLine runs in a loop, but option "3 2 1" puts the output on one line',
+          'Console.WriteLine runs in a loop, but option "0;1;2" puts the output on one line',
+          'Console.WriteLine runs in a loop, but option "Hi Hi Hi" puts the output on one line'
+        ]);
+    });
+
+    it('should pass single values and descriptive options', () => {
+      expect(rule.check(question(loop, ['3', '10', '100', 'Compile error', 'Infinite loop']))).toEqual([]);
+    });
+
+    it('should find WriteLine in loops without braces and in do-while loops', () => {
+      const options = ['0, 1, 2', 'Nothing'];
+
+      expect(rule.check(question('foreach (var n in new[] { 0, 1, 2 }) Console.WriteLine(n);', options))).toHaveLength(1);
+      expect(rule.check(question('int i = 0;\ndo { Console.WriteLine(i++); } while (i < 3);', options))).toHaveLength(1);
+    });
+
+    it('should pass multi-line options', () => {
+      expect(rule.check(question(loop, ['0\n1\n2', '1\n2\n3']))).toEqual([]);
+    });
+
+    it('should ignore WriteLine outside the loop and commented-out loops', () => {
+      const options = ['0, 1, 2', 'Nothing'];
+
+      expect(rule.check(question('for (int i = 0; i < 3; i++) { }\nConsole.WriteLine("0, 1, 2");', options))).toEqual([]);
+      expect(rule.check(question('// for (;;) Console.WriteLine(i);\nConsole.WriteLine("done");', options))).toEqual([]);
+    });
+  });
+});
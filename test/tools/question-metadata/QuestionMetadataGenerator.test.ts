@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QuestionMetadataGenerator,
+  averageDifficulty,
+  formatJson,
+  formatMetadataChange,
+  type QuestionBankFile
+} from '../../../src/tools/question-metadata';
+import type { RawCategoryManifest } from '../../../src/interfaces/repositories/IQuestionLoader';
+
+const createManifest = (): RawCategoryManifest => ({
+  version: 1,
+  lastUpdated: '2025-08-29T10:00:00Z',
+  categories: {
+    basics: {
+      name: 'C# Basics',
+      description: 'Fundamentals',
+      icon: '📘',
+      color: '#4CAF50',
+      difficultyRange: [1, 4],
+      estimatedTimeMinutes: 30,
+      subcategories: {
+        'data-types': { name: 'Data Types', description: 'Types', file: 'questions/basics/data-types.json', questionCount: 0, avgDifficulty: 2.0 },
+        'operators': { name: 'Operators', description: 'Operators', file: 'questions/basics/operators.json', questionCount: 0, avgDifficulty: 2.5 }
+      }
+    }
+  }
+});
+
+const createFile = (questionCount: number, avgDifficulty: number | undefined, difficulties: number[], subcategory = 'data-types'): QuestionBankFile => ({
+  filePath: 'data/questions/basics/data-types.json',
+  data: {
+    $schema: '../../metadata/schema.json',
+    metadata: { category: 'basics', subcategory, questionCount, avgDifficulty },
+    questions: difficulties.map((difficulty, index) => ({
+      id: `basics-000${index + 1}`,
+      category: 'basics',
+      subcategory,
+      difficulty
+    }))
+  }
+});
+
+describe('QuestionMetadataGenerator', () => {
+  const generator = new QuestionMetadataGenerator();
+
+  it('should recompute manifest subcategory statistics from the questions', () => {
+    const result = generator.generate(createManifest(), [createFile(2, 2, [1, 2])]);
+
+    expect(result.manifest.categories.basics.subcategories['data-types']).toMatchObject({ questionCount: 2, avgDifficulty: 1.5 });
+    expect(result.manifest.categories.basics.subcategories.operators).toMatchObject({ questionCount: 0, avgDifficulty: 0 });
+    expect(result.changes).toEqual([
+      { filePath: 'data/metadata/categories.json', location: 'basics/data-types', field: 'questionCount', previous: 0, next: 2 },
+      { filePath: 'data/metadata/categories.json', location: 'basics/data-types', field: 'avgDifficulty', previous: 2, next: 1.5 },
+      { filePath: 'data/metadata/categories.json', location: 'basics/operators', field: 'avgDifficulty', previous: 2.5, next: 0 },
+      { filePath: 'data/questions/basics/data-types.json', location: 'metadata', field: 'avgDifficulty', previous: 2, next: 1.5 }
+    ]);
+    expect(result.changedFiles).toEqual(['data/metadata/categories.json', 'data/questions/basics/data-types.json']);
+    expect(result.isStale).toBe(true);
+  });
+
+  it('should recompute file headers without changing the input', () => {
+    const file = createFile(17, 4.5, [1, 2, 4]);
+
+    const result = generator.generate(createManifest(), [file]);
+
+    expect((result.questionFiles[0].data as { metadata: object }).metadata)
+      .toMatchObject({ questionCount: 3, avgDifficulty: 2.3 });
+    expect((file.data as { metadata: object }).metadata).toMatchObject({ questionCount: 17, avgDifficulty: 4.5 });
+  });
+
+  it('should drop the average difficulty of a file without questions', () => {
+    const result = generator.generate(createManifest(), [createFile(3, 2, [])]);
+
+    expect((result.questionFiles[0].data as { metadata: object }).metadata).toEqual({
+      category: 'basics',
+      subcategory: 'data-types',
+      questionCount: 0
+    });
+  });
+
+  it('should not be stale when every statistic is current', () => {
+    const manifest = createManifest();
+    manifest.categories.basics.subcategories['data-types'] = { ...manifest.categories.basics.subcategories['data-types'], questionCount: 1, avgDifficulty: 3 };
+    manifest.categories.basics.subcategories.operators.avgDifficulty = 0;
+    const file = createFile(1, 3, [3]);
+
+    const result = generator.generate(manifest, [file]);
+
+    expect(result.isStale).toBe(false);
+    expect(result.changes).toEqual([]);
+    expect(result.questionFiles[0]).toBe(file);
+  });
+
+  it('should flag subcategories without a file and questions outside the manifest', () => {
+    const result = generator.generate(createManifest(), [createFile(2, 2, [1, 2], 'loops')]);
+
+    expect(result.problems).toEqual([
+      {
+        kind: 'missing-file',
+        filePath: 'data/metadata/categories.json',
+        message: 'Subcategory basics/operators points at data/questions/basics/operators.json, which does not exist'
+      },
+      {
+        kind: 'unknown-subcategory',
+        filePath: 'data/questions/basics/data-types.json',
+        message: 'Subcategory basics/loops is not in the manifest (basics-0001, basics-0002)'
+      }
+    ]);
+  });
+
+  it('should format changes as report lines', () => {
+    expect(formatMetadataChange({
+      filePath: 'data/questions/basics.json', location: 'metadata', field: 'avgDifficulty', previous: 2, next: undefined
+    })).toBe('data/questions/basics.json › metadata › avgDifficulty: 2 → (none)');
+  });
+});
+
+describe('averageDifficulty', () => {
+  it('should round to one decimal place', () => {
+    expect(averageDifficulty([{ difficulty: 1 }, { difficulty: 1 }, { difficulty: 2 }])).toBe(1.3);
+  });
+
+  it('should be undefined without difficulties', () => {
+    expect(averageDifficulty([])).toBeUndefined();
+  });
+});
+
+describe('formatJson', () => {
+  it('should keep arrays of primitives on one line', () => {
+    expect(formatJson({ tags: ['a', 'b'], range: [1, 4], items: [{ id: 1 }] })).toBe(
+      '{\n  "tags": ["a", "b"],\n  "range": [1, 4],\n  "items": [\n    {\n      "id": 1\n    }\n  ]\n}\n'
+    );
+  });
+
+  it('should keep the line endings and final newline of the original text', () => {
+    expect(formatJson({ a: 1 }, '{\r\n  "a": 2\r\n}')).toBe('{\r\n  "a": 1\r\n}');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, parseInline } from '../../src/utils/markdown';
+
+describe('markdown', () => {
+  describe('parseMarkdown', () => {
+    it('should split headings, paragraphs and lists', () => {
+      const blocks = parseMarkdown('# Boxing\nValue types are\ncopied.\n\n- first\n- second\n\n1. one\n2) two');
+
+      expect(blocks).toEqual([
+        { kind: 'heading', level: 1, inlines: [{ kind: 'text', text: 'Boxing' }] },
+        { kind: 'paragraph', inlines: [{ kind: 'text', text: 'Value types are copied.' }] },
+        { kind: 'list', ordered: false, items: [[{ kind: 'text', text: 'first' }], [{ kind: 'text', text: 'second' }]] },
+        { kind: 'list', ordered: true, items: [[{ kind: 'text', text: 'one' }], [{ kind: 'text', text: 'two' }]] }
+      ]);
+    });
+
+    it('should keep fenced code verbatim', () => {
+      const blocks = parseMarkdown('```csharp\nvar x = **1**;\n\n  x++;\n```\nafter');
+
+      expect(blocks).toEqual([
+        { kind: 'code', text: 'var x = **1**;\n\n  x++;' },
+        { kind: 'paragraph', inlines: [{ kind: 'text', text: 'after' }] }
+      ]);
+    });
+
+    it('should run an unclosed fence to the end of the text', () => {
+      expect(parseMarkdown('```\nint y;')).toEqual([{ kind: 'code', text: 'int y;' }]);
+    });
+
+    it('should return no blocks for blank text', () => {
+      expect(parseMarkdown(' \r\n\n')).toEqual([]);
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse bold, italics and inline code', () => {
+      expect(parseInline('Use **ref** or _out_ with `int`, not *in*')).toEqual([
+        { kind: 'text', text: 'Use ' },
+        { kind: 'strong', text: 'ref' },
+        { kind: 'text', text: ' or ' },
+        { kind: 'emphasis', text: 'out' },
+        { kind: 'text', text: ' with ' },
+        { kind: 'code', text: 'int' },
+        { kind: 'text', text: ', not ' },
+        { kind: 'emphasis', text: 'in' }
+      ]);
+    });
+
+    it('should keep markup inside inline code and unmatched markers as text', () => {
+      expect(parseInline('`a * b` <b>2 * 3')).toEqual([
+        { kind: 'code', text: 'a * b' },
+        { kind: 'text', text: ' <b>2 * 3' }
+      ]);
+    });
+  });
+});
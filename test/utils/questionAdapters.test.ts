@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { toStudyQuestion } from '../../src/utils/questionAdapters';
+import { FlipCardQuestion } from '../../src/models/FlipCardQuestion';
+import { MultipleChoiceQuestion } from '../../src/models/MultipleChoiceQuestion';
+import { Option } from '../../src/models/Option';
+
+describe('toStudyQuestion', () => {
+  it('should convert a flip card into the study-mode shape', () => {
+    const question = new FlipCardQuestion('fc1', 'What is a variable?', 'A storage location', 'Holds values', 'basics', 'medium');
+
+    expect(toStudyQuestion(question)).toMatchObject({
+      id: 'fc1',
+      type: 'flip-card',
+      question: 'What is a variable?',
+      answer: 'A storage location',
+      explanation: 'Holds values',
+      category: 'basics',
+      difficulty: 5
+    });
+  });
+
+  it('should carry subcategory, tags and numeric difficulty', () => {
+    const question = new FlipCardQuestion(
+      'fc2', 'What is boxing?', 'Wrapping a value type', '', 'types', 'medium', undefined,
+      { subcategory: 'value-types', tags: ['boxing'], difficultyLevel: 6 }
+    );
+
+    expect(toStudyQuestion(question)).toMatchObject({
+      subcategory: 'value-types',
+      tags: ['boxing'],
+      difficulty: 6
+    });
+  });
+
+  it('should convert a multiple-choice question with its correct option', () => {
+    const question = new MultipleChoiceQuestion(
+      'mc1',
+      'Pick B',
+      [new Option('a', 'A'), new Option('b', 'B', 'Right')],
+      [1],
+      'B is right',
+      'basics',
+      'hard'
+    );
+
+    expect(toStudyQuestion(question)).toMatchObject({
+      type: 'multiple-choice',
+      options: [{ id: 'a', text: 'A' }, { id: 'b', text: 'B', explanation: 'Right' }],
+      correctAnswerIndex: 1,
+      difficulty: 8
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { readSeedFromSearch } from '../../src/utils/sessionSeedUrl';
+
+describe('sessionSeedUrl', () => {
+  describe('readSeedFromSearch', () => {
+    it('should read the seed query parameter', () => {
+      expect(readSeedFromSearch('?seed=1234&view=exam')).toBe(1234);
+    });
+
+    it('should ignore missing or invalid seeds', () => {
+      expect(readSeedFromSearch('')).toBeUndefined();
+      expect(readSeedFromSearch('?seed=')).toBeUndefined();
+      expect(readSeedFromSearch('?seed=-5')).toBeUndefined();
+      expect(readSeedFromSearch('?seed=12abc')).toBeUndefined();
+      expect(readSeedFromSearch('?seed=4294967296')).toBeUndefined();
+    });
+  });
+});
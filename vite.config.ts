@@ -1,10 +1,59 @@
 /// <reference types="vitest" />
-import { defineConfig } from 'vite'
+import { build, defineConfig, type Plugin, type Rollup } from 'vite'
 import react from '@vitejs/plugin-react'
 
+/**
+ * Files copied from public/ that the app shell needs offline
+ */
+const PUBLIC_SHELL_FILES = ['manifest.webmanifest', 'vite.svg']
+
+/**
+ * Builds src/sw.ts into a self-contained /sw.js once the app bundle is known,
+ * passing it the bundle's files to precache and a version that changes with them.
+ * It is built on its own so it shares no chunks with the app and runs as a classic worker script.
+ */
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'csharp-cards:service-worker',
+    apply: 'build',
+    enforce: 'post',
+    async generateBundle(_options, bundle) {
+      const appShellPaths = [...new Set(['index.html', ...Object.keys(bundle), ...PUBLIC_SHELL_FILES])].sort()
+      const version = appShellPaths
+        .join('\n')
+        .split('')
+        .reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0, 0)
+        .toString(36)
+
+      const result = await build({
+        configFile: false,
+        logLevel: 'warn',
+        publicDir: false,
+        define: {
+          __APP_SHELL_PATHS__: JSON.stringify(appShellPaths),
+          __CACHE_VERSION__: JSON.stringify(version),
+        },
+        build: {
+          write: false,
+          emptyOutDir: false,
+          lib: { entry: 'src/sw.ts', formats: ['iife'], name: 'serviceWorker', fileName: () => 'sw.js' },
+        },
+      }) as Rollup.RollupOutput | Rollup.RollupOutput[]
+
+      const [output] = Array.isArray(result) ? result : [result]
+      const chunk = output.output.find(file => file.type === 'chunk')
+      if (!chunk) {
+        throw new Error('Service worker build produced no script')
+      }
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: chunk.code })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
   // @ts-ignore - vitest config
   test: {
     globals: true,